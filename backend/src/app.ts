@@ -3,24 +3,52 @@ import cors from "cors";
 import cookieParser from "cookie-parser";
 import errorMiddleware from "./middleware/errorMiddleware.js";
 import authRoutes from "./routes/authRoutes.js";
+import adminRoutes from "./routes/adminRoutes.js";
+import avatarRoutes from "./routes/avatarRoutes.js";
+import wellKnownRoutes from "./routes/wellKnownRoutes.js";
+import organizationRoutes from "./routes/organizationRoutes.js";
+import {
+  assignRequestId,
+  logRequest,
+  REQUEST_ID_HEADER,
+} from "./middleware/requestMiddleware.js";
+import { setAppConfig } from "./config/appConfig.js";
+import type { AppConfig } from "./config/appConfig.js";
 
-const app = express();
+// build the express app with a config from loadAppConfig(), the server and the integration tests each pass their own
+export const createApp = (config: AppConfig) => {
+  // helpers deep in the app (token secrets, links in emails) read the config through getAppConfig()
+  setAppConfig(config);
 
-app.use(
-  cors({
-    origin: "http://localhost:3000",
-    credentials: true,
-  }),
-);
-app.use(express.json());
-app.use(cookieParser());
+  const app = express();
+  // behind a load balancer every request comes from the proxy, trusting it makes req.ip the client's address again
+  app.set("trust proxy", config.trustProxy);
 
-app.get("/api/health", (req, res) => {
-  res.status(200).json({ statusCode: 200, message: "Server is healthy" });
-});
+  // first, so every log line and error response of the request has its id
+  app.use(assignRequestId);
+  app.use(logRequest);
+  app.use(
+    cors({
+      origin: config.corsOrigins,
+      credentials: true,
+      // let the frontend read the request id, e.g. to show it as a reference code
+      exposedHeaders: [REQUEST_ID_HEADER],
+    }),
+  );
+  app.use(express.json());
+  app.use(cookieParser());
 
-app.use("/api/auth", authRoutes);
+  app.get("/api/health", (req, res) => {
+    res.status(200).json({ statusCode: 200, message: "Server is healthy" });
+  });
 
-app.use(errorMiddleware);
+  app.use("/api/auth", authRoutes);
+  app.use("/api/admin", adminRoutes);
+  app.use("/api/avatars", avatarRoutes);
+  app.use("/api/organizations", organizationRoutes);
+  app.use("/.well-known", wellKnownRoutes);
 
-export default app;
+  app.use(errorMiddleware);
+
+  return app;
+};
@@ -0,0 +1,13 @@
+// account deletion settings, read from environment variables
+import { readNumber } from "./settings.js";
+
+export const getAccountDeletionSettings = (
+  env: NodeJS.ProcessEnv = process.env,
+) => ({
+  // how long after a deletion request the account is purged, the user can cancel by logging in until then
+  gracePeriodMs:
+    readNumber("ACCOUNT_DELETION_GRACE_DAYS", 30, env) * 24 * 60 * 60 * 1000,
+  // how often the server looks for accounts whose grace period is over
+  purgeIntervalMs:
+    readNumber("ACCOUNT_PURGE_INTERVAL_MINUTES", 60, env) * 60 * 1000,
+});
@@ -0,0 +1,428 @@
+// app configuration: the settings the server can't start without, read from environment variables and checked once at startup
+// every problem is collected into one report, so a bad deploy fails right away with the whole list instead of on the first request
+// feature settings with safe defaults (rate limits, lockouts, avatar sizes, etc.) are read by their own config files when used,
+// and read once here as well so an invalid value is part of the same report
+import { createPrivateKey, randomBytes } from "node:crypto";
+import { isIP } from "node:net";
+import { parsePemKeys } from "../utils/jwtKeys.js";
+import { LOG_LEVELS, logger } from "../utils/logger.js";
+import type { LogLevel } from "../utils/logger.js";
+import { getAccountDeletionSettings } from "./accountDeletionConfig.js";
+import { getAuditSettings } from "./auditConfig.js";
+import { getAvatarSettings } from "./avatarConfig.js";
+import { getBruteForceSettings } from "./bruteForceConfig.js";
+import { getDataExportSettings } from "./dataExportConfig.js";
+import { getEmailChangeSettings } from "./emailChangeConfig.js";
+import { getRefreshTokenSettings } from "./jwtConfig.js";
+import { getMagicLinkSettings } from "./magicLinkConfig.js";
+import { getOrganizationSettings } from "./organizationConfig.js";
+import { getRelyingParty } from "./passkeyConfig.js";
+import {
+  createHasherFromEnv,
+  createRangeSourceFromEnv,
+  getPasswordSettings,
+} from "./passwordConfig.js";
+import { getPersonalAccessTokenSettings } from "./personalAccessTokenConfig.js";
+import { getTotpIssuer } from "./twoFactorConfig.js";
+
+// the profile comes from NODE_ENV and decides the defaults below
+export const PROFILES = ["development", "test", "production"] as const;
+export type Profile = (typeof PROFILES)[number];
+
+export interface AppConfig {
+  profile: Profile;
+  port: number;
+  mongoUri: string;
+  // secret for the single-purpose tokens (email links, 2fa challenges), access and refresh tokens use the keys in jwtConfig.ts
+  jwtSecret: string;
+  frontendUrl: string; // links in emails and OAuth redirects point here
+  backendUrl: string; // public URL of this server, e.g. for OAuth callbacks and avatar links
+  corsOrigins: string[]; // browser origins allowed to call the API with cookies
+  // express "trust proxy": which proxies may set X-Forwarded-For, so req.ip (rate limits, lockouts, logs) is the client's address
+  trustProxy: boolean | number | string[];
+  emailVerification: boolean; // new accounts must verify their email before logging in, opt-in
+  rateLimitEnabled: boolean; // on unless explicitly turned off
+  mail: MailSettings;
+  oauth: OAuthSettings;
+}
+
+// where emailConfig.ts sends email: an SMTP server, .eml files in a folder, or an in-memory outbox for tests
+export type MailSettings =
+  | {
+      transport: "smtp";
+      host: string;
+      port: number;
+      user: string;
+      pass: string;
+      from: string;
+    }
+  | { transport: "file"; outboxDir: string }
+  | { transport: "memory" };
+
+// client credentials of a social login provider registered in the provider's developer console
+export interface OAuthClientSettings {
+  clientId: string;
+  clientSecret: string;
+}
+
+// the social login providers oauthConfig.ts enables, a provider is only present when all of its settings are set
+export interface OAuthSettings {
+  google?: OAuthClientSettings;
+  github?: OAuthClientSettings;
+  // any other OpenID Connect provider (Okta, Auth0, Keycloak, Microsoft Entra ID, etc.)
+  oidc?: OAuthClientSettings & { issuer: string; name: string };
+}
+
+// defaults per profile, so local development and tests run without a .env file
+// production has none on purpose, everything there has to be set explicitly
+const profileDefaults: Record<Profile, Record<string, string>> = {
+  development: {
+    PORT: "5001",
+    MONGO_URI: "mongodb://127.0.0.1:27017/mern-starter",
+    FRONTEND_URL: "http://localhost:3000",
+  },
+  test: {
+    PORT: "5001",
+    MONGO_URI: "mongodb://127.0.0.1:27017/mern-starter-test",
+    FRONTEND_URL: "http://localhost:3000",
+  },
+  production: {},
+};
+
+// the JWT secret signs links that stay valid for days, a short one can be brute forced offline
+const MIN_SECRET_LENGTH = 32;
+
+// check that a setting is an http(s) URL, returns it without a trailing slash so paths can be appended
+const parseUrl = (name: string, value: string, issues: string[]) => {
+  try {
+    const url = new URL(value);
+    if (url.protocol !== "http:" && url.protocol !== "https:") {
+      throw new Error("not http");
+    }
+  } catch {
+    issues.push(`${name} must be an http(s) URL, got "${value}"`);
+  }
+  return value.replace(/\/+$/, "");
+};
+
+// check that a setting is a TCP port number
+const isPortNumber = (port: number) =>
+  Number.isInteger(port) && port > 0 && port < 65536;
+
+// the names express accepts in a trust proxy list besides addresses and subnets
+const PROXY_NAMES = ["loopback", "linklocal", "uniquelocal"];
+
+// parse TRUST_PROXY: off when missing, "true" trusts every hop, a number trusts that many hops in front of the server,
+// anything else is a comma separated list of proxy addresses, subnets (10.0.0.0/8) or the names above
+const parseTrustProxy = (value: string, issues: string[]) => {
+  if (!value || value === "false") return false;
+  if (value === "true") return true;
+  if (/^\d+$/.test(value)) return Number(value);
+
+  const proxies = value
+    .split(",")
+    .map((proxy) => proxy.trim())
+    .filter(Boolean);
+  const invalid = proxies.filter((proxy) => {
+    if (PROXY_NAMES.includes(proxy)) return false;
+    const [address = "", prefix] = proxy.split("/");
+    const version = isIP(address);
+    if (version === 0) return true;
+    return (
+      prefix !== undefined &&
+      !(/^\d+$/.test(prefix) && Number(prefix) <= (version === 4 ? 32 : 128))
+    );
+  });
+  if (invalid.length > 0) {
+    issues.push(
+      `TRUST_PROXY must be true, false, a number of hops or a list of addresses, got "${invalid.join(", ")}"`,
+    );
+  }
+  return proxies;
+};
+
+// parse MAIL_TRANSPORT ("smtp", "file" or "memory") and the settings of the chosen transport
+// defaults to "memory" in tests and "file" everywhere else, so nothing is ever sent by accident without SMTP settings
+const parseMail = (
+  env: NodeJS.ProcessEnv,
+  profile: Profile,
+  issues: string[],
+): MailSettings => {
+  const transport =
+    env.MAIL_TRANSPORT || (profile === "test" ? "memory" : "file");
+
+  if (transport === "smtp") {
+    const host = env.SMTP_HOST || "";
+    const user = env.SMTP_USER || "";
+    const pass = env.SMTP_PASS || "";
+    if (!host || !user || !pass) {
+      issues.push(
+        "SMTP_HOST, SMTP_USER and SMTP_PASS are required when MAIL_TRANSPORT=smtp",
+      );
+    }
+    const portValue = env.SMTP_PORT || "587";
+    const port = Number(portValue);
+    if (!isPortNumber(port)) {
+      issues.push(`SMTP_PORT must be a port number, got "${portValue}"`);
+    }
+    return { transport, host, port, user, pass, from: env.MAIL_FROM || user };
+  }
+
+  if (transport === "memory") {
+    return { transport };
+  }
+
+  if (transport !== "file") {
+    issues.push("MAIL_TRANSPORT must be one of smtp, file, memory");
+  }
+  return { transport: "file", outboxDir: env.MAIL_OUTBOX_DIR || "outbox" };
+};
+
+// parse the social login providers, each one is enabled by setting its client id and secret (and issuer for OIDC)
+// a provider with only some of its settings is reported, otherwise its button would quietly be missing from the login page
+const parseOAuth = (env: NodeJS.ProcessEnv, issues: string[]) => {
+  const readClient = (prefix: string, extraNames: string[] = []) => {
+    const names = [
+      ...extraNames,
+      `${prefix}_CLIENT_ID`,
+      `${prefix}_CLIENT_SECRET`,
+    ];
+    const missing = names.filter((name) => !env[name]);
+    if (missing.length === names.length) return null;
+    if (missing.length > 0) {
+      issues.push(
+        `${names.slice(0, -1).join(", ")} and ${names.at(-1)} must be set together`,
+      );
+      return null;
+    }
+    return {
+      clientId: env[`${prefix}_CLIENT_ID`] || "",
+      clientSecret: env[`${prefix}_CLIENT_SECRET`] || "",
+    };
+  };
+
+  const oauth: OAuthSettings = {};
+  const google = readClient("GOOGLE");
+  if (google) oauth.google = google;
+  const github = readClient("GITHUB");
+  if (github) oauth.github = github;
+  const oidc = readClient("OIDC", ["OIDC_ISSUER"]);
+  if (oidc) {
+    // kept as written, the issuer is compared to the "iss" claim of the ID tokens exactly, trailing slash included
+    const issuer = env.OIDC_ISSUER || "";
+    if (!URL.canParse(issuer)) {
+      issues.push(`OIDC_ISSUER must be a URL, got "${issuer}"`);
+    }
+    oauth.oidc = {
+      ...oidc,
+      issuer,
+      name: env.OIDC_PROVIDER_NAME || "Single Sign-On",
+    };
+  }
+  return oauth;
+};
+
+// check the settings that pick an implementation, these used to fail on the first request that needed them
+const checkChoices = (
+  env: NodeJS.ProcessEnv,
+  profile: Profile,
+  issues: string[],
+) => {
+  const avatarStorage =
+    env.AVATAR_STORAGE || (profile === "test" ? "memory" : "local");
+  if (!["local", "s3", "memory"].includes(avatarStorage)) {
+    issues.push("AVATAR_STORAGE must be one of local, s3, memory");
+  } else if (
+    avatarStorage === "s3" &&
+    (!env.S3_BUCKET || !env.S3_ACCESS_KEY_ID || !env.S3_SECRET_ACCESS_KEY)
+  ) {
+    issues.push(
+      "S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY are required when AVATAR_STORAGE=s3",
+    );
+  }
+
+  for (const name of ["RATE_LIMIT_STORE", "LOGIN_ATTEMPT_STORE"]) {
+    const value = env[name];
+    if (value && value !== "mongo" && value !== "memory") {
+      issues.push(`${name} must be one of mongo, memory`);
+    }
+  }
+
+  if (env.LOG_LEVEL && !LOG_LEVELS.includes(env.LOG_LEVEL as LogLevel)) {
+    issues.push(`LOG_LEVEL must be one of ${LOG_LEVELS.join(", ")}`);
+  }
+
+  // jwtConfig.ts signs with a temporary key when this is missing, which logs everyone out on restart
+  const [privatePem] = parsePemKeys(env.JWT_PRIVATE_KEY || "");
+  if (privatePem) {
+    try {
+      createPrivateKey(privatePem);
+    } catch {
+      issues.push("JWT_PRIVATE_KEY is not a valid PEM private key");
+    }
+  } else if (profile === "production") {
+    issues.push(
+      "JWT_PRIVATE_KEY is required in production, generate one with npm run generate-jwt-key",
+    );
+  }
+};
+
+// read every feature setting once, so a typo in e.g. LOGIN_MAX_FAILURES_PER_ACCOUNT stops the server instead of being found on first use
+const checkFeatureSettings = (
+  env: NodeJS.ProcessEnv,
+  frontendUrl: string,
+  issues: string[],
+) => {
+  const check = (read: () => unknown) => {
+    try {
+      read();
+    } catch (error) {
+      issues.push((error as Error).message);
+    }
+  };
+
+  // listed here rather than at the top level, the config files import this one and may not be loaded yet when it is
+  const featureSettings: ((env: NodeJS.ProcessEnv) => unknown)[] = [
+    getAccountDeletionSettings,
+    getAuditSettings,
+    getAvatarSettings,
+    getBruteForceSettings,
+    getDataExportSettings,
+    getEmailChangeSettings,
+    getMagicLinkSettings,
+    getOrganizationSettings,
+    getPasswordSettings,
+    createHasherFromEnv,
+    createRangeSourceFromEnv,
+    getPersonalAccessTokenSettings,
+    getRefreshTokenSettings,
+    getTotpIssuer,
+  ];
+  for (const read of featureSettings) {
+    check(() => read(env));
+  }
+  // the relying party falls back to FRONTEND_URL, which is only checked here when it's a valid URL itself
+  if (env.WEBAUTHN_ORIGIN || URL.canParse(frontendUrl)) {
+    check(() => getRelyingParty(env, frontendUrl));
+  }
+};
+
+// read and check the configuration, throws one error listing every problem
+export const loadAppConfig = (env: NodeJS.ProcessEnv = process.env) => {
+  const issues: string[] = [];
+
+  const profileName = env.NODE_ENV || "development";
+  if (!PROFILES.includes(profileName as Profile)) {
+    issues.push(`NODE_ENV must be one of ${PROFILES.join(", ")}`);
+  }
+  const profile = PROFILES.includes(profileName as Profile)
+    ? (profileName as Profile)
+    : "development";
+  const defaults = profileDefaults[profile];
+
+  // read a setting, falling back to the profile default, and report it when it's missing from both
+  const read = (name: string) => {
+    const value = env[name] || defaults[name];
+    if (!value) {
+      issues.push(`${name} is required in ${profile}`);
+    }
+    return value || "";
+  };
+
+  const portValue = read("PORT");
+  const port = Number(portValue);
+  if (portValue && !isPortNumber(port)) {
+    issues.push(`PORT must be a port number, got "${portValue}"`);
+  }
+
+  const mongoUri = read("MONGO_URI");
+  if (mongoUri && !/^mongodb(\+srv)?:\/\//.test(mongoUri)) {
+    issues.push("MONGO_URI must start with mongodb:// or mongodb+srv://");
+  }
+
+  // outside production a missing secret gets a random one, links in emails stop working when the server restarts
+  let jwtSecret = env.JWT_SECRET || "";
+  if (!jwtSecret && profile !== "production") {
+    if (profile === "development") {
+      logger.warn("JWT_SECRET is not set, using a temporary secret");
+    }
+    jwtSecret = randomBytes(32).toString("base64url");
+  } else if (!jwtSecret) {
+    issues.push("JWT_SECRET is required in production");
+  } else if (profile === "production" && jwtSecret.length < MIN_SECRET_LENGTH) {
+    issues.push(
+      `JWT_SECRET must be at least ${MIN_SECRET_LENGTH} characters in production`,
+    );
+  }
+
+  const frontendValue = read("FRONTEND_URL");
+  const frontendUrl = frontendValue
+    ? parseUrl("FRONTEND_URL", frontendValue, issues)
+    : "";
+
+  const backendValue =
+    env.BACKEND_URL ||
+    (profile === "production" ? "" : `http://localhost:${portValue}`);
+  if (!backendValue) {
+    issues.push("BACKEND_URL is required in production");
+  }
+  const backendUrl = backendValue
+    ? parseUrl("BACKEND_URL", backendValue, issues)
+    : "";
+
+  // comma separated, defaults to the frontend so the usual single-origin setup needs nothing extra
+  const corsOrigins = (env.CORS_ORIGINS || frontendUrl)
+    .split(",")
+    .map((origin) => origin.trim())
+    .filter(Boolean)
+    .map((origin) => parseUrl("CORS_ORIGINS", origin, issues));
+
+  const trustProxy = parseTrustProxy(env.TRUST_PROXY || "", issues);
+  const mail = parseMail(env, profile, issues);
+  const oauth = parseOAuth(env, issues);
+
+  // flags are compared to the exact string, "false" is truthy (see AD-017)
+  const emailVerification = env.ENABLE_EMAIL_VERIFICATION === "true";
+  const rateLimitEnabled = env.RATE_LIMIT_ENABLED !== "false";
+
+  checkChoices(env, profile, issues);
+  checkFeatureSettings(env, frontendUrl, issues);
+
+  if (issues.length > 0) {
+    throw new Error(
+      `Invalid configuration:\n${issues.map((issue) => `  - ${issue}`).join("\n")}`,
+    );
+  }
+
+  const config: AppConfig = {
+    profile,
+    port,
+    mongoUri,
+    jwtSecret,
+    frontendUrl,
+    backendUrl,
+    corsOrigins,
+    trustProxy,
+    emailVerification,
+    rateLimitEnabled,
+    mail,
+    oauth,
+  };
+  return Object.freeze(config);
+};
+
+// the config createApp() was given, or the one loaded from the environment on first use when helpers run without the app (unit tests, scripts)
+let appConfig: AppConfig | null = null;
+
+// get the app configuration, loading it from the environment on first use
+export const getAppConfig = (): AppConfig => {
+  if (!appConfig) {
+    appConfig = loadAppConfig();
+  }
+  return appConfig;
+};
+
+// replace the app configuration, used by createApp() and in tests
+export const setAppConfig = (newConfig: AppConfig | null) => {
+  appConfig = newConfig;
+};
@@ -0,0 +1,10 @@
+// security audit log settings, read from environment variables
+import { readNumber } from "./settings.js";
+
+export const getAuditSettings = (env: NodeJS.ProcessEnv = process.env) => ({
+  // how long auth events are kept before MongoDB deletes them
+  retentionMs:
+    readNumber("AUDIT_LOG_RETENTION_DAYS", 365, env) * 24 * 60 * 60 * 1000,
+  // the most events a single CSV/NDJSON export from the admin endpoint returns
+  maxExportRows: readNumber("AUDIT_LOG_MAX_EXPORT_ROWS", 50000, env),
+});
@@ -0,0 +1,81 @@
+// avatar upload settings and the storage uploaded avatars are kept in, read from environment variables
+import path from "node:path";
+import {
+  createLocalFileStorage,
+  createMemoryFileStorage,
+  createS3FileStorage,
+} from "../utils/fileStorage.js";
+import type { FileStorage } from "../utils/fileStorage.js";
+import { getBackendUrl } from "./oauthConfig.js";
+import { logger } from "../utils/logger.js";
+import { readNumber } from "./settings.js";
+
+// every avatar is stored in these square sizes (in pixels), avatarUrl points at the largest
+export const AVATAR_SIZES = [64, 128, 256] as const;
+export type AvatarSize = (typeof AVATAR_SIZES)[number];
+
+export const getAvatarSettings = (env: NodeJS.ProcessEnv = process.env) => ({
+  maxUploadBytes: readNumber("AVATAR_MAX_UPLOAD_KB", 5 * 1024, env) * 1024,
+  // a stored avatar never changes (a new upload gets a new id), so browsers and CDNs can keep it for a long time
+  cacheMaxAgeSeconds:
+    readNumber("AVATAR_CACHE_MAX_AGE_DAYS", 365, env) * 24 * 60 * 60,
+});
+
+// the storage is created on first use so tests can swap it out with setAvatarStorage()
+let storage: FileStorage | null = null;
+
+// build the storage named by AVATAR_STORAGE ("local", "s3" or "memory")
+// defaults to "memory" in tests and "local" everywhere else
+const createStorageFromEnv = (): FileStorage => {
+  const defaultStorage = process.env.NODE_ENV === "test" ? "memory" : "local";
+  const storageName = process.env.AVATAR_STORAGE || defaultStorage;
+
+  if (storageName === "s3") {
+    const bucket = process.env.S3_BUCKET;
+    const accessKeyId = process.env.S3_ACCESS_KEY_ID;
+    const secretAccessKey = process.env.S3_SECRET_ACCESS_KEY;
+    // if the S3 settings are missing, log the error for debugging purposes, but throw a generic error to be handled by error middleware
+    if (!bucket || !accessKeyId || !secretAccessKey) {
+      logger.error(
+        "S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY must be set when AVATAR_STORAGE=s3",
+      );
+      throw new Error("Server configuration error: missing S3 settings");
+    }
+    const region = process.env.S3_REGION || "us-east-1";
+    return createS3FileStorage({
+      endpoint: process.env.S3_ENDPOINT || `https://s3.${region}.amazonaws.com`,
+      region,
+      bucket,
+      accessKeyId,
+      secretAccessKey,
+    });
+  }
+
+  if (storageName === "memory") {
+    return createMemoryFileStorage();
+  }
+
+  return createLocalFileStorage(
+    path.resolve(process.env.UPLOAD_DIR || "uploads"),
+  );
+};
+
+// get the current avatar storage, creating it from the environment on first use
+export const getAvatarStorage = (): FileStorage => {
+  if (!storage) {
+    storage = createStorageFromEnv();
+  }
+  return storage;
+};
+
+// replace the avatar storage, used in tests to inject an in-memory storage
+export const setAvatarStorage = (newStorage: FileStorage | null) => {
+  storage = newStorage;
+};
+
+// public URL of one size of an avatar, served by GET /api/avatars/:userId/:avatarId/:size
+export const getAvatarUrl = (
+  userId: string,
+  avatarId: string,
+  size: AvatarSize = 256,
+) => `${getBackendUrl()}/api/avatars/${userId}/${avatarId}/${size}`;
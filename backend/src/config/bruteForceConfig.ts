@@ -0,0 +1,46 @@
+// brute-force protection configuration: failed login limits and which attempt store to use, read from environment variables
+import {
+  createMemoryAttemptStore,
+  createMongoAttemptStore,
+} from "../utils/attemptStore.js";
+import type { AttemptStore } from "../utils/attemptStore.js";
+import { readNumber } from "./settings.js";
+
+// the store is created on first use so tests can swap it out with setAttemptStore()
+let store: AttemptStore | null = null;
+
+// get the attempt store named by LOGIN_ATTEMPT_STORE ("mongo" or "memory")
+// defaults to "mongo" so lockouts work across several server processes
+export const getAttemptStore = (): AttemptStore => {
+  if (!store) {
+    store =
+      process.env.LOGIN_ATTEMPT_STORE === "memory"
+        ? createMemoryAttemptStore()
+        : createMongoAttemptStore();
+  }
+  return store;
+};
+
+// replace the attempt store, used in tests
+export const setAttemptStore = (newStore: AttemptStore | null) => {
+  store = newStore;
+};
+
+// failed login limits
+export const getBruteForceSettings = (
+  env: NodeJS.ProcessEnv = process.env,
+) => ({
+  // failures before an account is locked, counted per email whether or not the account exists
+  maxFailuresPerAccount: readNumber("LOGIN_MAX_FAILURES_PER_ACCOUNT", 5, env),
+  // failures before an IP address is locked, higher because offices and mobile networks share addresses
+  maxFailuresPerIp: readNumber("LOGIN_MAX_FAILURES_PER_IP", 20, env),
+  // the first lockout lasts this long and every further failure doubles it, up to the maximum
+  lockoutBaseSeconds: readNumber("LOGIN_LOCKOUT_BASE_SECONDS", 60, env),
+  lockoutMaxSeconds: readNumber("LOGIN_LOCKOUT_MAX_SECONDS", 60 * 60, env),
+  // counters are forgotten after this long without a failure
+  attemptWindowSeconds: readNumber(
+    "LOGIN_ATTEMPT_WINDOW_SECONDS",
+    24 * 60 * 60,
+    env,
+  ),
+});
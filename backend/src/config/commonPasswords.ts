@@ -0,0 +1,178 @@
+// passwords (and the words behind them) that show up at the top of every leaked password list, see utils/passwordScreening.ts
+// all lowercase, screening compares against the password with its case, leetspeak and surrounding digits/symbols removed
+export const COMMON_PASSWORDS: readonly string[] = [
+  "123456",
+  "1234567",
+  "12345678",
+  "123456789",
+  "1234567890",
+  "0987654321",
+  "987654321",
+  "111111",
+  "11111111",
+  "000000",
+  "00000000",
+  "121212",
+  "123123",
+  "123321",
+  "654321",
+  "666666",
+  "696969",
+  "777777",
+  "112233",
+  "159753",
+  "147258369",
+  "abc123",
+  "abcdef",
+  "abcd1234",
+  "a1b2c3",
+  "qwerty",
+  "qwertyuiop",
+  "qwerty123",
+  "qwertz",
+  "azerty",
+  "asdfgh",
+  "asdfghjkl",
+  "zxcvbn",
+  "zxcvbnm",
+  "qazwsx",
+  "1qaz2wsx",
+  "1q2w3e4r",
+  "1q2w3e4r5t",
+  "password",
+  "passw",
+  "passwd",
+  "passphrase",
+  "pass",
+  "secret",
+  "letmein",
+  "welcome",
+  "login",
+  "admin",
+  "administrator",
+  "root",
+  "user",
+  "guest",
+  "test",
+  "testing",
+  "default",
+  "changeme",
+  "temp",
+  "access",
+  "master",
+  "iloveyou",
+  "loveme",
+  "lovely",
+  "love",
+  "trustno",
+  "whatever",
+  "nothing",
+  "hello",
+  "hellothere",
+  "welcomeback",
+  "freedom",
+  "secure",
+  "security",
+  "private",
+  "monkey",
+  "dragon",
+  "tiger",
+  "eagle",
+  "shadow",
+  "sunshine",
+  "princess",
+  "starwars",
+  "pokemon",
+  "superman",
+  "batman",
+  "spiderman",
+  "ironman",
+  "pepper",
+  "ginger",
+  "cookie",
+  "cheese",
+  "chocolate",
+  "banana",
+  "orange",
+  "flower",
+  "summer",
+  "winter",
+  "autumn",
+  "spring",
+  "football",
+  "baseball",
+  "basketball",
+  "soccer",
+  "hockey",
+  "golf",
+  "tennis",
+  "jordan",
+  "michael",
+  "jennifer",
+  "jessica",
+  "ashley",
+  "daniel",
+  "thomas",
+  "charlie",
+  "robert",
+  "matthew",
+  "andrew",
+  "joshua",
+  "hunter",
+  "ranger",
+  "buster",
+  "killer",
+  "soldier",
+  "mustang",
+  "ferrari",
+  "corvette",
+  "harley",
+  "computer",
+  "internet",
+  "google",
+  "facebook",
+  "microsoft",
+  "apple",
+  "samsung",
+  "matrix",
+  "zaq",
+  "qwe",
+  "asd",
+  "money",
+  "biteme",
+  "fuckyou",
+  "fuckme",
+  "sexy",
+  "angel",
+  "baby",
+  "babygirl",
+  "family",
+  "friends",
+  "forever",
+  "happy",
+  "lucky",
+  "magic",
+  "peace",
+  "heaven",
+  "jesus",
+  "christ",
+  "blessed",
+  "london",
+  "paris",
+  "newyork",
+  "chelsea",
+  "arsenal",
+  "liverpool",
+  "yankees",
+  "cowboys",
+  "purple",
+  "silver",
+  "golden",
+  "diamond",
+  "midnight",
+  "passion",
+  "blink",
+  "nirvana",
+  "metallica",
+  "slipknot",
+];
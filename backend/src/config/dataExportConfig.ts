@@ -0,0 +1,28 @@
+// personal data export settings and the storage finished archives are kept in, read from environment variables
+import type { FileStorage } from "../utils/fileStorage.js";
+import { getAvatarStorage } from "./avatarConfig.js";
+import { readNumber } from "./settings.js";
+
+export const getDataExportSettings = (
+  env: NodeJS.ProcessEnv = process.env,
+) => ({
+  // how long the download link works once the export is ready, the archive is deleted after that
+  downloadTtlMs: readNumber("DATA_EXPORT_TTL_HOURS", 24, env) * 60 * 60 * 1000,
+  // a pending export older than this was interrupted (e.g. the server restarted mid-build), it's marked as failed so the user can start a new one
+  staleAfterMs: readNumber("DATA_EXPORT_STALE_MINUTES", 30, env) * 60 * 1000,
+  // how often the server deletes expired exports and their archives
+  cleanupIntervalMs:
+    readNumber("DATA_EXPORT_CLEANUP_INTERVAL_MINUTES", 60, env) * 60 * 1000,
+});
+
+// archives go in the same storage as avatars (AVATAR_STORAGE) under exports/, unless replaced with setDataExportStorage()
+let storage: FileStorage | null = null;
+
+// get the storage finished archives are kept in
+export const getDataExportStorage = (): FileStorage =>
+  storage ?? getAvatarStorage();
+
+// replace the data export storage, used in tests to inject an in-memory storage
+export const setDataExportStorage = (newStorage: FileStorage | null) => {
+  storage = newStorage;
+};
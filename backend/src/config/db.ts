@@ -1,12 +1,13 @@
 import mongoose from "mongoose";
+import { logger } from "../utils/logger.js";
 
-const connectDB = async () => {
+// connect to MongoDB, the URI comes from the app config so it's checked before we get here
+const connectDB = async (mongoUri: string) => {
   try {
-    await mongoose.connect(process.env.MONGO_URI || "");
-    console.log("MongoDB connected");
+    await mongoose.connect(mongoUri);
+    logger.info("MongoDB connected");
   } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : String(error);
-    console.error("MongoDB connection error:", errorMessage);
+    logger.error("MongoDB connection error", { error });
     process.exit(1);
   }
 };
@@ -0,0 +1,13 @@
+// email change settings, read from environment variables
+import { readNumber } from "./settings.js";
+
+export const getEmailChangeSettings = (
+  env: NodeJS.ProcessEnv = process.env,
+) => ({
+  // how long the confirmation link sent to the new address works, the pending change is dropped after that
+  confirmTtlMs:
+    readNumber("EMAIL_CHANGE_CONFIRM_HOURS", 24, env) * 60 * 60 * 1000,
+  // how long the "this wasn't me" link sent to the old address works, longer so it still covers a confirmed change
+  revertTtlMs:
+    readNumber("EMAIL_CHANGE_REVERT_DAYS", 7, env) * 24 * 60 * 60 * 1000,
+});
@@ -0,0 +1,184 @@
+// email configuration: picks a mail transport from the app config and builds the emails the app sends
+import {
+  createSmtpTransport,
+  createFileOutboxTransport,
+  createMemoryOutboxTransport,
+} from "../utils/mailTransport.js";
+import type { MailTransport } from "../utils/mailTransport.js";
+import { getAppConfig } from "./appConfig.js";
+
+// the transport is created on first use so tests can swap it out with setMailTransport() before anything is sent
+let transport: MailTransport | null = null;
+
+// build the transport picked by MAIL_TRANSPORT, loadAppConfig() already checked its settings
+const createTransportFromConfig = (): MailTransport => {
+  const mail = getAppConfig().mail;
+
+  if (mail.transport === "smtp") {
+    return createSmtpTransport({
+      host: mail.host,
+      port: mail.port,
+      secure: mail.port === 465,
+      user: mail.user,
+      pass: mail.pass,
+      from: mail.from,
+    });
+  }
+
+  if (mail.transport === "memory") {
+    return createMemoryOutboxTransport();
+  }
+
+  return createFileOutboxTransport(mail.outboxDir);
+};
+
+// get the current mail transport, creating it from the app config on first use
+export const getMailTransport = (): MailTransport => {
+  if (!transport) {
+    transport = createTransportFromConfig();
+  }
+  return transport;
+};
+
+// replace the mail transport, used in tests to inject an in-memory outbox
+export const setMailTransport = (newTransport: MailTransport | null) => {
+  transport = newTransport;
+};
+
+// email verification is opt-in, turned on with ENABLE_EMAIL_VERIFICATION=true
+export const isEmailVerificationEnabled = () =>
+  getAppConfig().emailVerification;
+
+// base URL of the frontend, links in emails point here
+export const getFrontendUrl = () => getAppConfig().frontendUrl;
+
+// escape a value for the html body, anything a user typed (names, addresses) must go through this
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+// send the email verification link to a newly registered user
+export const sendVerificationEmail = async (email: string, token: string) => {
+  const link = `${getFrontendUrl()}/verify-email?token=${encodeURIComponent(token)}`;
+  await getMailTransport().send({
+    to: email,
+    subject: "Verify your email address",
+    text: `Welcome! Please verify your email address by opening this link:\n\n${link}\n\nThe link expires in 24 hours.`,
+    html: `<p>Welcome! Please verify your email address by clicking the link below.</p><p><a href="${link}">Verify my email</a></p><p>The link expires in 24 hours.</p>`,
+  });
+};
+
+// send the password reset link requested from the forgot password page
+export const sendPasswordResetEmail = async (email: string, token: string) => {
+  const link = `${getFrontendUrl()}/reset-password?token=${encodeURIComponent(token)}`;
+  await getMailTransport().send({
+    to: email,
+    subject: "Reset your password",
+    text: `Someone (hopefully you) asked to reset your password. Open this link to choose a new one:\n\n${link}\n\nThe link expires in 1 hour and can only be used once. If you didn't ask for this, you can ignore this email.`,
+    html: `<p>Someone (hopefully you) asked to reset your password. Click the link below to choose a new one.</p><p><a href="${link}">Reset my password</a></p><p>The link expires in 1 hour and can only be used once. If you didn't ask for this, you can ignore this email.</p>`,
+  });
+};
+
+// send the one-time sign in link requested from the login page, it only works in the browser that asked for it
+export const sendMagicLinkEmail = async (
+  email: string,
+  token: string,
+  expiresAt: Date,
+) => {
+  const link = `${getFrontendUrl()}/magic-link?token=${encodeURIComponent(token)}`;
+  const expires = expiresAt.toUTCString();
+  await getMailTransport().send({
+    to: email,
+    subject: "Your sign in link",
+    text: `Someone (hopefully you) asked to sign in with this email address. Open this link in the same browser to sign in:\n\n${link}\n\nThe link works until ${expires} and can only be used once. If you didn't ask for this, you can ignore this email.`,
+    html: `<p>Someone (hopefully you) asked to sign in with this email address. Click the link below, in the same browser, to sign in.</p><p><a href="${link}">Sign me in</a></p><p>The link works until ${expires} and can only be used once. If you didn't ask for this, you can ignore this email.</p>`,
+  });
+};
+
+// send the link that confirms a new email address, the email only changes once it's opened
+export const sendEmailChangeConfirmationEmail = async (
+  newEmail: string,
+  token: string,
+  expiresAt: Date,
+) => {
+  const link = `${getFrontendUrl()}/confirm-email-change?token=${encodeURIComponent(token)}`;
+  const expires = expiresAt.toUTCString();
+  await getMailTransport().send({
+    to: newEmail,
+    subject: "Confirm your new email address",
+    text: `Someone (hopefully you) asked to use this address for their account. Open this link to confirm the change:\n\n${link}\n\nThe link works until ${expires}. If you didn't ask for this, you can ignore this email.`,
+    html: `<p>Someone (hopefully you) asked to use this address for their account. Click the link below to confirm the change.</p><p><a href="${link}">Confirm my new email</a></p><p>The link works until ${expires}. If you didn't ask for this, you can ignore this email.</p>`,
+  });
+};
+
+// let the current address know about a requested email change, with a link to undo it and sign out everywhere
+export const sendEmailChangeNoticeEmail = async (
+  email: string,
+  newEmail: string,
+  token: string,
+  expiresAt: Date,
+) => {
+  const link = `${getFrontendUrl()}/revert-email-change?token=${encodeURIComponent(token)}`;
+  const expires = expiresAt.toUTCString();
+  await getMailTransport().send({
+    to: email,
+    subject: "Your email address is being changed",
+    text: `Someone asked to change your account's email address to ${newEmail}. It changes once the new address is confirmed.\n\nIf this wasn't you, open this link to undo the change and sign out everywhere:\n\n${link}\n\nThe link works until ${expires}. Then change your password straight away.`,
+    // the new address is whatever the requester typed, so it's escaped before going into the html
+    html: `<p>Someone asked to change your account's email address to ${escapeHtml(newEmail)}. It changes once the new address is confirmed.</p><p>If this wasn't you, click the link below to undo the change and sign out everywhere.</p><p><a href="${escapeHtml(link)}">This wasn't me</a></p><p>The link works until ${escapeHtml(expires)}. Then change your password straight away.</p>`,
+  });
+};
+
+// send an invitation to join an organization, the link works for the account with this email once they're logged in
+export const sendOrganizationInviteEmail = async (
+  email: string,
+  organizationName: string,
+  inviterName: string,
+  token: string,
+  expiresAt: Date,
+) => {
+  const link = `${getFrontendUrl()}/accept-invite?token=${encodeURIComponent(token)}`;
+  const expires = expiresAt.toUTCString();
+  await getMailTransport().send({
+    to: email,
+    subject: `You're invited to join ${organizationName}`,
+    text: `${inviterName} invited you to join ${organizationName}. Open this link to accept or decline, you'll need to log in or sign up with this email address:\n\n${link}\n\nThe invitation works until ${expires}.`,
+    // the names are chosen by users, so they're escaped before going into the html
+    html: `<p>${escapeHtml(inviterName)} invited you to join ${escapeHtml(organizationName)}. Click the link below to accept or decline, you'll need to log in or sign up with this email address.</p><p><a href="${escapeHtml(link)}">View the invitation</a></p><p>The invitation works until ${escapeHtml(expires)}.</p>`,
+  });
+};
+
+// send the "your account will be deleted" notice with a link to cancel the deletion
+export const sendAccountDeletionEmail = async (
+  email: string,
+  token: string,
+  scheduledFor: Date,
+) => {
+  const link = `${getFrontendUrl()}/cancel-deletion?token=${encodeURIComponent(token)}`;
+  const date = scheduledFor.toUTCString();
+  await getMailTransport().send({
+    to: email,
+    subject: "Your account will be deleted",
+    text: `Your account is scheduled to be permanently deleted on ${date}. You've been signed out everywhere.\n\nChanged your mind? Open this link, or just log in again, before then to keep your account:\n\n${link}\n\nIf you didn't ask for this, cancel the deletion and change your password straight away.`,
+    html: `<p>Your account is scheduled to be permanently deleted on ${date}. You've been signed out everywhere.</p><p>Changed your mind? Click the link below, or just log in again, before then to keep your account.</p><p><a href="${link}">Keep my account</a></p><p>If you didn't ask for this, cancel the deletion and change your password straight away.</p>`,
+  });
+};
+
+// send the link to a finished personal data export
+export const sendDataExportEmail = async (
+  email: string,
+  link: string,
+  expiresAt: Date,
+) => {
+  const expires = expiresAt.toUTCString();
+  await getMailTransport().send({
+    to: email,
+    subject: "Your data export is ready",
+    text: `The copy of your data you asked for is ready. Download it here:\n\n${link}\n\nThe link works until ${expires}. If you didn't ask for this, change your password straight away.`,
+    html: `<p>The copy of your data you asked for is ready.</p><p><a href="${link}">Download my data</a></p><p>The link works until ${expires}. If you didn't ask for this, change your password straight away.</p>`,
+  });
+};
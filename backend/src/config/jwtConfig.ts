@@ -0,0 +1,76 @@
+// settings and keys for access and refresh tokens, read from environment variables
+// the single-purpose tokens (email links, 2fa challenges) are only ever read by this server and stay on JWT_SECRET
+import { createPrivateKey, createPublicKey } from "node:crypto";
+import { getBackendUrl } from "./oauthConfig.js";
+import {
+  createKeyManager,
+  generateSigningKey,
+  parsePemKeys,
+} from "../utils/jwtKeys.js";
+import type { KeyManager } from "../utils/jwtKeys.js";
+import { logger } from "../utils/logger.js";
+import { readNumber } from "./settings.js";
+
+export const getJwtSettings = () => {
+  // the iss claim of every token, other services should only trust tokens from this issuer
+  const issuer = process.env.JWT_ISSUER || getBackendUrl();
+  return {
+    issuer,
+    // the aud claim of access tokens, services that accept our access tokens check for it
+    accessAudience: process.env.JWT_AUDIENCE || `${issuer}/api`,
+    // refresh tokens are only accepted by the refresh endpoint, a different audience keeps them from passing as access tokens
+    refreshAudience: `${issuer}/api/auth/refresh`,
+  };
+};
+
+export const getRefreshTokenSettings = (
+  env: NodeJS.ProcessEnv = process.env,
+) => ({
+  // a rotated refresh token presented again within this long gets a new pair instead of counting as reuse,
+  // two tabs refreshing at the same moment send the same cookie and only one of them can rotate it
+  reuseGraceMs: readNumber("REFRESH_TOKEN_REUSE_GRACE_SECONDS", 10, env) * 1000,
+});
+
+// the key manager is created on first use so tests can swap it out with setKeyManager()
+let keyManager: KeyManager | null = null;
+
+// JWT_PRIVATE_KEY is the PEM key new tokens are signed with (RSA of at least 2048 bits, or Ed25519)
+// JWT_VERIFICATION_KEYS holds the PEM public keys of the previous (or next) signing keys, still accepted and published in the JWKS
+// generate keys with npm run generate-jwt-key
+const createKeyManagerFromEnv = (): KeyManager => {
+  const [privatePem] = parsePemKeys(process.env.JWT_PRIVATE_KEY || "");
+  const verificationKeys = parsePemKeys(
+    process.env.JWT_VERIFICATION_KEYS || "",
+  ).map((pem) => createPublicKey(pem));
+
+  if (privatePem) {
+    return createKeyManager(createPrivateKey(privatePem), verificationKeys);
+  }
+
+  // if the key is missing in production, log the error for debugging purposes, but throw a generic error to be handled by error middleware
+  if (process.env.NODE_ENV === "production") {
+    logger.error("JWT_PRIVATE_KEY is not defined in environment variables");
+    throw new Error("Server configuration error: missing JWT_PRIVATE_KEY");
+  }
+
+  // anywhere else sign with a throwaway key so the app runs without setup, everyone is logged out when the server restarts
+  if (process.env.NODE_ENV !== "test") {
+    logger.warn(
+      "JWT_PRIVATE_KEY is not set, signing tokens with a temporary key",
+    );
+  }
+  return createKeyManager(generateSigningKey(), verificationKeys);
+};
+
+// get the key manager tokens are signed and verified with, creating it from the environment on first use
+export const getKeyManager = (): KeyManager => {
+  if (!keyManager) {
+    keyManager = createKeyManagerFromEnv();
+  }
+  return keyManager;
+};
+
+// replace the key manager, used in tests to check key rotation
+export const setKeyManager = (newKeyManager: KeyManager | null) => {
+  keyManager = newKeyManager;
+};
@@ -0,0 +1,7 @@
+// load the .env files into process.env, entry points (server, scripts) import this before anything else
+// the profile file (e.g. .env.production) wins over the shared .env, and variables already set in the environment win over both
+import dotenv from "dotenv";
+
+dotenv.config({
+  path: [`.env.${process.env.NODE_ENV || "development"}`, ".env"],
+});
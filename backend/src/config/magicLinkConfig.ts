@@ -0,0 +1,7 @@
+// email sign in link settings, read from environment variables
+import { readNumber } from "./settings.js";
+
+export const getMagicLinkSettings = (env: NodeJS.ProcessEnv = process.env) => ({
+  // how long an emailed sign in link works, kept short because opening it is all it takes to log in
+  ttlMs: readNumber("MAGIC_LINK_TTL_MINUTES", 15, env) * 60 * 1000,
+});
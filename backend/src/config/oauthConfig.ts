@@ -0,0 +1,70 @@
+// OAuth 2.0 / OpenID Connect provider registry: which social login providers are enabled, read from the app config
+// a provider is only enabled when its client id and secret are set, so the login page only shows buttons that work
+import { fetchGitHubProfile } from "../utils/oauthUtils.js";
+import type { OAuthProfile } from "../utils/oauthUtils.js";
+import { getAppConfig } from "./appConfig.js";
+
+// everything the OAuth flow needs to know about a provider
+export interface OAuthProvider {
+  id: string; // used in URLs and stored on linked identities, e.g. "google"
+  name: string; // shown on the buttons, e.g. "Google"
+  clientId: string;
+  clientSecret: string;
+  scope: string;
+  // OpenID Connect providers: endpoints and signing keys come from the issuer's discovery document, and the profile from the ID token
+  issuer?: string;
+  // plain OAuth 2.0 providers (GitHub) list their endpoints and fetch the profile with the access token
+  authorizationEndpoint?: string;
+  tokenEndpoint?: string;
+  fetchProfile?: (accessToken: string) => Promise<OAuthProfile>;
+}
+
+// build the list of enabled providers from the app config
+export const getOAuthProviders = (): OAuthProvider[] => {
+  const { google, github, oidc } = getAppConfig().oauth;
+  const providers: OAuthProvider[] = [];
+
+  if (google) {
+    providers.push({
+      id: "google",
+      name: "Google",
+      ...google,
+      scope: "openid email profile",
+      issuer: "https://accounts.google.com",
+    });
+  }
+
+  if (github) {
+    providers.push({
+      id: "github",
+      name: "GitHub",
+      ...github,
+      scope: "read:user user:email",
+      authorizationEndpoint: "https://github.com/login/oauth/authorize",
+      tokenEndpoint: "https://github.com/login/oauth/access_token",
+      fetchProfile: fetchGitHubProfile,
+    });
+  }
+
+  // any other OpenID Connect provider, also used by the tests with a mock server
+  if (oidc) {
+    providers.push({
+      id: "oidc",
+      ...oidc,
+      scope: "openid email profile",
+    });
+  }
+
+  return providers;
+};
+
+// find an enabled provider by id, returns undefined for unknown or disabled providers
+export const getOAuthProvider = (id: string): OAuthProvider | undefined =>
+  getOAuthProviders().find((provider) => provider.id === id);
+
+// public URL of this backend, the provider redirects the browser back to it after sign in
+export const getBackendUrl = () => getAppConfig().backendUrl;
+
+// the callback URL for a provider, must be registered exactly like this in the provider's developer console
+export const getOAuthRedirectUri = (providerId: string) =>
+  `${getBackendUrl()}/api/auth/oauth/${providerId}/callback`;
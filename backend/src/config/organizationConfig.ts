@@ -0,0 +1,19 @@
+// organizations: the roles a member can have and the invitation settings, read from environment variables
+import { readNumber } from "./settings.js";
+
+// every role a member of an organization can have, there's always exactly one owner
+// owners can do everything, admins manage members and invitations, members can only see the organization
+export const ORG_ROLES = ["owner", "admin", "member"] as const;
+export type OrgRole = (typeof ORG_ROLES)[number];
+
+// the roles an invitation or a role change can give, ownership only moves with a transfer
+export const ASSIGNABLE_ORG_ROLES = ["admin", "member"] as const;
+
+export const getOrganizationSettings = (
+  env: NodeJS.ProcessEnv = process.env,
+) => ({
+  // how long an emailed invitation works
+  inviteTtlMs: readNumber("ORG_INVITE_TTL_DAYS", 7, env) * 24 * 60 * 60 * 1000,
+  // how many organizations one user can belong to, counting the ones they own
+  maxPerUser: readNumber("ORG_MAX_PER_USER", 20, env),
+});
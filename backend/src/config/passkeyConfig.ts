@@ -0,0 +1,37 @@
+// passkey (WebAuthn) configuration: who the relying party is, read from environment variables
+import { getFrontendUrl } from "./emailConfig.js";
+
+// the relying party is this app, passkeys are bound to its domain (rpID) and only work on pages served from its origin
+export interface RelyingParty {
+  name: string; // shown by the browser and password manager when creating a passkey
+  id: string; // domain the passkeys belong to, e.g. "example.com", must match the domain the frontend is served from
+  origin: string; // full origin of the frontend, e.g. "https://example.com"
+}
+
+// read the relying party from WEBAUTHN_RP_NAME, WEBAUTHN_RP_ID and WEBAUTHN_ORIGIN
+// ID and origin default to the FRONTEND_URL, so local development works without extra settings
+// loadAppConfig() calls this at startup with the FRONTEND_URL it read, a mismatched ID or origin would make every passkey ceremony fail
+export const getRelyingParty = (
+  env: NodeJS.ProcessEnv = process.env,
+  frontendUrl: string = getFrontendUrl(),
+): RelyingParty => {
+  const origin = env.WEBAUTHN_ORIGIN || frontendUrl;
+  const url = URL.canParse(origin) ? new URL(origin) : null;
+  if (!url || (url.protocol !== "http:" && url.protocol !== "https:")) {
+    throw new Error(`WEBAUTHN_ORIGIN must be an http(s) URL, got "${origin}"`);
+  }
+
+  // the browser only accepts an ID that is the origin's host or a domain it belongs to
+  const id = env.WEBAUTHN_RP_ID || url.hostname;
+  if (id !== url.hostname && !url.hostname.endsWith(`.${id}`)) {
+    throw new Error(
+      `WEBAUTHN_RP_ID must be the host of WEBAUTHN_ORIGIN or a domain it belongs to, got "${id}" for "${url.hostname}"`,
+    );
+  }
+
+  return {
+    name: env.WEBAUTHN_RP_NAME || "MERN Starter",
+    id,
+    origin,
+  };
+};
@@ -0,0 +1,129 @@
+// password policy settings, the hasher for new password hashes and the source of leaked passwords for the breach check,
+// read from environment variables
+import path from "node:path";
+import {
+  HASH_ALGORITHMS,
+  createArgon2idHasher,
+  createBcryptHasher,
+  createScryptHasher,
+} from "../utils/passwordHasher.js";
+import type { HashAlgorithm, PasswordHasher } from "../utils/passwordHasher.js";
+import {
+  createFileRangeSource,
+  createHttpRangeSource,
+} from "../utils/breachedPasswords.js";
+import type { PasswordRangeSource } from "../utils/breachedPasswords.js";
+import { readChoice, readNumber } from "./settings.js";
+
+export const getPasswordSettings = (env: NodeJS.ProcessEnv = process.env) => ({
+  // how many previous passwords are kept, a new password can't match any of them (or the current one)
+  historySize: readNumber("PASSWORD_HISTORY_SIZE", 5, env),
+  // how long a breach API lookup may take before it's aborted
+  breachTimeoutMs: readNumber("PASSWORD_BREACH_TIMEOUT_MS", 3000, env),
+  // what happens to the password when the breach check fails or times out: "allow" lets it through, "reject" asks the user to try again
+  breachOnError: readChoice(
+    "PASSWORD_BREACH_ON_ERROR",
+    ["allow", "reject"],
+    "allow",
+    env,
+  ),
+});
+
+// the hasher is created on first use so tests can swap it out with setPasswordHasher()
+let hasher: PasswordHasher | null = null;
+
+// build the hasher named by PASSWORD_HASH_ALGORITHM ("bcrypt", "argon2id" or "scrypt"), bcrypt by default
+// changing the algorithm or its parameters is safe, existing hashes keep working and are upgraded as users log in
+// the defaults follow the OWASP password storage cheat sheet, run npm run benchmark-hash to tune them for your server
+// loadAppConfig() calls this at startup, so an unknown algorithm or a bad parameter stops the server instead of failing a login
+export const createHasherFromEnv = (
+  env: NodeJS.ProcessEnv = process.env,
+): PasswordHasher => {
+  const algorithm = readChoice<HashAlgorithm>(
+    "PASSWORD_HASH_ALGORITHM",
+    HASH_ALGORITHMS,
+    "bcrypt",
+    env,
+  );
+
+  if (algorithm === "argon2id") {
+    return createArgon2idHasher({
+      memoryKiB: readNumber("ARGON2_MEMORY_KIB", 19456, env),
+      timeCost: readNumber("ARGON2_TIME_COST", 2, env),
+      parallelism: readNumber("ARGON2_PARALLELISM", 1, env),
+    });
+  }
+
+  if (algorithm === "scrypt") {
+    return createScryptHasher({
+      logN: readNumber("SCRYPT_LOG_N", 16, env),
+      blockSize: readNumber("SCRYPT_BLOCK_SIZE", 8, env),
+      parallelism: readNumber("SCRYPT_PARALLELISM", 2, env),
+    });
+  }
+
+  return createBcryptHasher({ cost: readNumber("BCRYPT_COST", 10, env) });
+};
+
+// get the hasher new password hashes are made with, creating it from the environment on first use
+export const getPasswordHasher = (): PasswordHasher => {
+  if (!hasher) {
+    hasher = createHasherFromEnv();
+  }
+  return hasher;
+};
+
+// replace the hasher, used in tests to check hashes are upgraded
+export const setPasswordHasher = (newHasher: PasswordHasher | null) => {
+  hasher = newHasher;
+};
+
+// the source is created on first use so tests can swap it out with setPasswordRangeSource()
+let rangeSource: PasswordRangeSource | null = null;
+
+// build the source named by PASSWORD_BREACH_CHECK ("api", "file" or "off"), off by default
+// loadAppConfig() calls this at startup, so file mode without a dataset stops the server instead of failing a registration
+export const createRangeSourceFromEnv = (
+  env: NodeJS.ProcessEnv = process.env,
+): PasswordRangeSource | null => {
+  const sourceName = readChoice(
+    "PASSWORD_BREACH_CHECK",
+    ["api", "file", "off"],
+    "off",
+    env,
+  );
+
+  if (sourceName === "api") {
+    const url =
+      env.PASSWORD_BREACH_API_URL || "https://api.pwnedpasswords.com/range";
+    if (!URL.canParse(url)) {
+      throw new Error(`PASSWORD_BREACH_API_URL must be a URL, got "${url}"`);
+    }
+    return createHttpRangeSource(url, getPasswordSettings(env).breachTimeoutMs);
+  }
+
+  if (sourceName === "file") {
+    const dir = env.PASSWORD_BREACH_DATA_DIR;
+    if (!dir) {
+      throw new Error(
+        "PASSWORD_BREACH_DATA_DIR must be set when PASSWORD_BREACH_CHECK=file",
+      );
+    }
+    return createFileRangeSource(path.resolve(dir));
+  }
+
+  return null;
+};
+
+// get the current source of leaked passwords, or null when the breach check is off
+export const getPasswordRangeSource = (): PasswordRangeSource | null => {
+  if (!rangeSource) {
+    rangeSource = createRangeSourceFromEnv();
+  }
+  return rangeSource;
+};
+
+// replace the source of leaked passwords, used in tests to inject an in-memory source
+export const setPasswordRangeSource = (source: PasswordRangeSource | null) => {
+  rangeSource = source;
+};
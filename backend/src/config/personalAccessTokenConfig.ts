@@ -0,0 +1,24 @@
+// personal access tokens: the scopes they can be given and the limits on creating them, read from environment variables
+import { readNumber } from "./settings.js";
+
+// every scope that can be checked with requireScope(), each one opens up a few routes to personal access tokens
+// add new scopes here, then add requireScope() to the routes they allow
+export const TOKEN_SCOPES = [
+  "profile:read", // read the profile (GET /api/auth/me)
+  "profile:write", // edit the profile details (PATCH /api/auth/me)
+  "sessions:read", // list the active sessions (GET /api/auth/sessions)
+  "activity:read", // read the security activity (GET /api/auth/me/activity)
+] as const;
+export type TokenScope = (typeof TOKEN_SCOPES)[number];
+
+export const getPersonalAccessTokenSettings = (
+  env: NodeJS.ProcessEnv = process.env,
+) => ({
+  // how many unexpired tokens one user can have
+  maxPerUser: readNumber("PAT_MAX_PER_USER", 20, env),
+  // the longest expiration a user can pick, every token expires
+  maxLifetimeDays: readNumber("PAT_MAX_LIFETIME_DAYS", 365, env),
+  // the last used time is written at most this often, so a script calling the API in a loop doesn't write on every request
+  lastUsedIntervalMs:
+    readNumber("PAT_LAST_USED_INTERVAL_SECONDS", 60, env) * 1000,
+});
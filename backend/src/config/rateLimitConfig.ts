@@ -0,0 +1,183 @@
+// rate limit configuration: which store keeps the counters, and the policies applied to routes in authRoutes.ts
+import {
+  createMemoryRateLimitStore,
+  createMongoRateLimitStore,
+} from "../utils/rateLimitStore.js";
+import type { RateLimitStore } from "../utils/rateLimitStore.js";
+import type { RateLimitPolicy } from "../middleware/rateLimiter.js";
+import { getAppConfig } from "./appConfig.js";
+
+// the store is created on first use so tests can swap it out with setRateLimitStore()
+let store: RateLimitStore | null = null;
+
+// get the rate limit store named by RATE_LIMIT_STORE ("mongo" or "memory")
+// defaults to "mongo" so limits hold across several server processes
+export const getRateLimitStore = (): RateLimitStore => {
+  if (!store) {
+    store =
+      process.env.RATE_LIMIT_STORE === "memory"
+        ? createMemoryRateLimitStore()
+        : createMongoRateLimitStore();
+  }
+  return store;
+};
+
+// replace the rate limit store, used in tests
+export const setRateLimitStore = (newStore: RateLimitStore | null) => {
+  store = newStore;
+};
+
+// rate limiting is on unless explicitly turned off with RATE_LIMIT_ENABLED=false
+export const isRateLimitEnabled = () => getAppConfig().rateLimitEnabled;
+
+const MINUTE = 60 * 1000; // one minute in milliseconds
+const HOUR = 60 * MINUTE;
+
+// key by the email address in the request body, so one address can't be flooded with emails from many IPs
+const byEmail = (req: { body?: { email?: unknown } }) =>
+  typeof req.body?.email === "string"
+    ? `email:${req.body.email.trim().toLowerCase()}`
+    : null;
+
+// the policies used in authRoutes.ts, every route gets one
+// per-account login lockouts are handled separately by utils/bruteForceProtection.ts, these cap raw request volume
+export const rateLimitPolicies = {
+  // password, two-factor and passkey logins: bursts of 10, then one every 6 seconds per IP address
+  login: {
+    name: "login",
+    algorithm: "token-bucket",
+    limit: 10,
+    windowMs: MINUTE,
+    key: "ip",
+  },
+  // social login redirects and callbacks
+  oauth: {
+    name: "oauth",
+    algorithm: "token-bucket",
+    limit: 30,
+    windowMs: MINUTE,
+    key: "ip",
+  },
+  register: {
+    name: "register",
+    algorithm: "fixed-window",
+    limit: 5,
+    windowMs: HOUR,
+    key: "ip",
+  },
+  // enough for several tabs refreshing at once
+  refresh: {
+    name: "refresh",
+    algorithm: "token-bucket",
+    limit: 30,
+    windowMs: MINUTE,
+    key: "ip",
+  },
+  // emailed link tokens (verify email, reset password)
+  emailToken: {
+    name: "email-token",
+    algorithm: "fixed-window",
+    limit: 10,
+    windowMs: 15 * MINUTE,
+    key: "ip",
+  },
+  // endpoints that send email: 3 per hour (AD-012)
+  forgotPassword: {
+    name: "forgot-password",
+    algorithm: "fixed-window",
+    limit: 3,
+    windowMs: HOUR,
+    key: byEmail,
+    message: "Too many emails requested, please try again later.",
+  },
+  // and per IP address, so one client can't send reset emails to many different addresses
+  forgotPasswordIp: {
+    name: "forgot-password-ip",
+    algorithm: "fixed-window",
+    limit: 10,
+    windowMs: HOUR,
+    key: "ip",
+    message: "Too many emails requested, please try again later.",
+  },
+  // email sign in links, per address and per IP like forgotPassword but with their own budget, so the two don't use up each other's
+  magicLink: {
+    name: "magic-link",
+    algorithm: "fixed-window",
+    limit: 3,
+    windowMs: HOUR,
+    key: byEmail,
+    message: "Too many emails requested, please try again later.",
+  },
+  magicLinkIp: {
+    name: "magic-link-ip",
+    algorithm: "fixed-window",
+    limit: 10,
+    windowMs: HOUR,
+    key: "ip",
+    message: "Too many emails requested, please try again later.",
+  },
+  resendVerification: {
+    name: "resend-verification",
+    algorithm: "fixed-window",
+    limit: 3,
+    windowMs: HOUR,
+    key: "user",
+    message: "Too many emails requested, please try again later.",
+  },
+  updateEmail: {
+    name: "update-email",
+    algorithm: "fixed-window",
+    limit: 3,
+    windowMs: HOUR,
+    key: "user",
+  },
+  // endpoints that check a password or two-factor code for a logged in user
+  sensitive: {
+    name: "sensitive",
+    algorithm: "fixed-window",
+    limit: 5,
+    windowMs: 15 * MINUTE,
+    key: "user",
+  },
+  // building a data export is expensive, so only a few per day
+  dataExport: {
+    name: "data-export",
+    algorithm: "fixed-window",
+    limit: 3,
+    windowMs: 24 * HOUR,
+    key: "user",
+    message: "Too many data exports requested, please try again tomorrow.",
+  },
+  // avatar uploads decode and resize images, which is expensive
+  avatarUpload: {
+    name: "avatar-upload",
+    algorithm: "fixed-window",
+    limit: 10,
+    windowMs: HOUR,
+    key: "user",
+  },
+  // everything else a logged in user reads
+  accountRead: {
+    name: "account-read",
+    algorithm: "token-bucket",
+    limit: 60,
+    windowMs: MINUTE,
+    key: "user",
+  },
+  // everything else a logged in user changes
+  accountWrite: {
+    name: "account-write",
+    algorithm: "token-bucket",
+    limit: 20,
+    windowMs: MINUTE,
+    key: "user",
+  },
+  // admin user management
+  admin: {
+    name: "admin",
+    algorithm: "token-bucket",
+    limit: 60,
+    windowMs: MINUTE,
+    key: "user",
+  },
+} satisfies Record<string, RateLimitPolicy>;
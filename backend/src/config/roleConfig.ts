@@ -0,0 +1,37 @@
+// roles and permissions: every role grants a fixed set of permissions, used by requireRole/requirePermission in authMiddleware
+// add new permissions here, then grant them to roles in ROLE_PERMISSIONS
+
+// every role a user can have, new users get "user"
+export const ROLES = ["user", "moderator", "admin"] as const;
+export type Role = (typeof ROLES)[number];
+
+// every permission that can be checked with requirePermission()
+export const PERMISSIONS = [
+  "users:read", // list and view other users' accounts
+  "users:manage", // edit, disable and sign out other users
+  "roles:manage", // change other users' roles
+  "audit:read", // read the security audit log
+] as const;
+export type Permission = (typeof PERMISSIONS)[number];
+
+// the permissions each role grants
+export const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+  user: [],
+  moderator: ["users:read", "audit:read"],
+  admin: PERMISSIONS,
+};
+
+// work out a user's effective permissions: everything their roles grant, plus any granted to them directly
+export const getPermissionsForRoles = (
+  roles: readonly Role[],
+  extraPermissions: readonly Permission[] = [],
+): Permission[] => {
+  const permissions = new Set<Permission>(extraPermissions);
+  for (const role of roles) {
+    for (const permission of ROLE_PERMISSIONS[role] ?? []) {
+      permissions.add(permission);
+    }
+  }
+  // keep the order from PERMISSIONS so tokens and responses are stable
+  return PERMISSIONS.filter((permission) => permissions.has(permission));
+};
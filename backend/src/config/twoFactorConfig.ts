@@ -0,0 +1,11 @@
+// two-factor authentication settings, read from environment variables
+
+// name shown next to the account in authenticator apps
+// the app splits the "issuer:email" label on the first colon, so the name can't contain one
+export const getTotpIssuer = (env: NodeJS.ProcessEnv = process.env) => {
+  const issuer = env.TOTP_ISSUER || "MERN Starter";
+  if (issuer.includes(":")) {
+    throw new Error(`TOTP_ISSUER can't contain a colon, got "${issuer}"`);
+  }
+  return issuer;
+};
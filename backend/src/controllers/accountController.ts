@@ -0,0 +1,220 @@
+import User from "../models/User.js";
+import DataExport from "../models/DataExport.js";
+import type { Request, Response } from "express";
+import { matchedData } from "express-validator";
+import { revokeAllUserTokens } from "../utils/refreshTokenUtils.js";
+import {
+  generateDeletionCancelToken,
+  verifyDeletionCancelToken,
+  verifyDataExportToken,
+} from "../utils/tokenUtils.js";
+import {
+  TWO_FACTOR_SECRET_FIELDS,
+  verifySecondFactor,
+} from "../utils/twoFactorUtils.js";
+import {
+  scheduleAccountDeletion,
+  cancelAccountDeletion,
+  findOwnedOrganizationsWithMembers,
+} from "../utils/accountDeletion.js";
+import {
+  startDataExport,
+  formatDataExport,
+  getDataExportArchive,
+} from "../utils/dataExport.js";
+import { findAuthEventPage } from "../utils/authEvents.js";
+import { createFieldError } from "../utils/errorFormatter.js";
+import { sendAccountDeletionEmail } from "../config/emailConfig.js";
+
+// delete account controller: schedules the deletion, the account is purged once the grace period is over
+// needs the password, and a two-factor code when two-factor authentication is on, so a stolen access token can't delete the account
+export const deleteAccount = async (req: Request, res: Response) => {
+  // early return if req.user is not set by the auth middleware, which means the token was invalid or missing
+  if (!req.user) {
+    res.status(401).json({ message: "Unauthorized" });
+    return;
+  }
+
+  const { password, code } = req.body;
+
+  const user = await User.findById(req.user.userId).select(
+    TWO_FACTOR_SECRET_FIELDS,
+  );
+  if (!user) {
+    res.status(404).json({ message: "User not found" });
+    return;
+  }
+
+  if (!(await user.comparePassword(password))) {
+    res.status(400).json({
+      message: "Validation errors",
+      errors: [createFieldError("password", "Password is incorrect")],
+    });
+    return;
+  }
+
+  if (user.twoFactor.enabled) {
+    if (!code) {
+      res.status(400).json({
+        message: "Validation errors",
+        errors: [createFieldError("code", "Two-factor code is required")],
+      });
+      return;
+    }
+    if (!(await verifySecondFactor(user, code))) {
+      res.status(400).json({
+        message: "Validation errors",
+        errors: [createFieldError("code", "Invalid code")],
+      });
+      return;
+    }
+  }
+
+  // the organizations the user owns are deleted with the account, so ones other people still use need a new owner first
+  const organizations = await findOwnedOrganizationsWithMembers(
+    user._id.toString(),
+  );
+  if (organizations.length > 0) {
+    res.status(400).json({
+      message: `Transfer ownership of ${organizations.join(", ")} or delete ${organizations.length === 1 ? "it" : "them"} before deleting your account`,
+    });
+    return;
+  }
+
+  const scheduledFor = scheduleAccountDeletion(user);
+  await user.save();
+
+  // sign the user out everywhere, logging in again cancels the deletion (see startSession)
+  await revokeAllUserTokens(user._id.toString(), "deleted");
+  res.clearCookie("refreshToken");
+
+  const cancelToken = generateDeletionCancelToken(
+    user._id.toString(),
+    scheduledFor.getTime() - Date.now(),
+  );
+  await sendAccountDeletionEmail(user.email, cancelToken, scheduledFor);
+
+  res.status(200).json({
+    message: "Your account is scheduled for deletion",
+    deletionScheduledFor: scheduledFor,
+  });
+};
+
+// cancel deletion controller: the link from the deletion email, works without logging in
+export const cancelDeletion = async (req: Request, res: Response) => {
+  const userId = verifyDeletionCancelToken(req.body.token);
+  const user = userId ? await User.findById(userId) : null;
+
+  // same response for a bad token and an account that's already been purged, there's nothing to restore either way
+  if (!user) {
+    res.status(400).json({ message: "Invalid or expired link" });
+    return;
+  }
+
+  if (!(await cancelAccountDeletion(user))) {
+    res
+      .status(400)
+      .json({ message: "This account is not scheduled for deletion" });
+    return;
+  }
+
+  res.status(200).json({
+    message: "Account deletion cancelled, you can log in again",
+  });
+};
+
+// request data export controller: starts building a ZIP of everything we store about the user
+// responds with 202 straight away, the user polls GET /me/export or waits for the email with the download link
+export const requestDataExport = async (req: Request, res: Response) => {
+  // early return if req.user is not set by the auth middleware, which means the token was invalid or missing
+  if (!req.user) {
+    res.status(401).json({ message: "Unauthorized" });
+    return;
+  }
+
+  const user = await User.findById(req.user.userId);
+  if (!user) {
+    res.status(404).json({ message: "User not found" });
+    return;
+  }
+
+  const dataExport = await startDataExport(user);
+
+  res.status(202).json({
+    message:
+      "Your data export is being prepared, we'll email you when it's ready",
+    export: formatDataExport(dataExport),
+  });
+};
+
+// get data export controller: the user's most recent export, so the Profile page can show its status
+export const getDataExport = async (req: Request, res: Response) => {
+  // early return if req.user is not set by the auth middleware, which means the token was invalid or missing
+  if (!req.user) {
+    res.status(401).json({ message: "Unauthorized" });
+    return;
+  }
+
+  const dataExport = await DataExport.findOne({ user: req.user.userId }).sort({
+    createdAt: -1,
+  });
+
+  res.status(200).json({
+    export: dataExport ? formatDataExport(dataExport) : null,
+  });
+};
+
+// download data export controller: the signed link from the email and the Profile page, works without logging in
+export const downloadDataExport = async (req: Request, res: Response) => {
+  const payload =
+    typeof req.query.token === "string"
+      ? verifyDataExportToken(req.query.token)
+      : null;
+
+  // the token must be for this export, so a link can't be edited to download someone else's
+  const dataExport =
+    payload && payload.exportId === req.params.id
+      ? await DataExport.findOne({
+          _id: payload.exportId,
+          user: payload.userId,
+          status: "ready",
+          expiresAt: { $gt: new Date() },
+        })
+      : null;
+  const archive = dataExport ? await getDataExportArchive(dataExport) : null;
+
+  if (!dataExport || !archive) {
+    res
+      .status(404)
+      .json({ message: "This download link is invalid or has expired" });
+    return;
+  }
+
+  const date = dataExport.createdAt.toISOString().slice(0, 10);
+  res.set({
+    "Content-Type": "application/zip",
+    "Content-Disposition": `attachment; filename="data-export-${date}.zip"`,
+    // personal data, never keep a copy in a shared cache
+    "Cache-Control": "private, no-store",
+  });
+  res.status(200).send(archive);
+};
+
+// security activity controller: the user's own auth events, newest first, paged with a cursor
+export const getActivity = async (req: Request, res: Response) => {
+  // early return if req.user is not set by the auth middleware, which means the token was invalid or missing
+  if (!req.user) {
+    res.status(401).json({ message: "Unauthorized" });
+    return;
+  }
+
+  // read the validated and sanitized query, see validateActivityQuery
+  const { limit = 20, cursor } = matchedData(req, { locations: ["query"] });
+
+  const page = await findAuthEventPage(
+    { user: req.user.userId },
+    limit,
+    cursor,
+  );
+  res.status(200).json(page);
+};
@@ -0,0 +1,302 @@
+import User from "../models/User.js";
+import type { IUser } from "../models/User.js";
+import Session from "../models/Session.js";
+import Passkey from "../models/Passkey.js";
+import LinkedIdentity from "../models/LinkedIdentity.js";
+import AuthEvent from "../models/AuthEvent.js";
+import type { IAuthEvent } from "../models/AuthEvent.js";
+import type { Request, Response } from "express";
+import { matchedData } from "express-validator";
+import type { QueryFilter } from "mongoose";
+import { escapeRegExp, formatAdminUser } from "../utils/adminUtils.js";
+import { revokeAllUserTokens } from "../utils/refreshTokenUtils.js";
+import { createPasswordResetToken } from "../utils/passwordResetUtils.js";
+import { createFieldError } from "../utils/errorFormatter.js";
+import {
+  AUTH_EVENT_CSV_COLUMNS,
+  authEventToCsvRow,
+  findAuthEventPage,
+  formatAuthEvent,
+  toCsvRow,
+} from "../utils/authEvents.js";
+import { sendPasswordResetEmail } from "../config/emailConfig.js";
+import { getAuditSettings } from "../config/auditConfig.js";
+import type { Role } from "../config/roleConfig.js";
+import type { AdminUserDetailResponse } from "../types/index.js";
+
+// admin user-management controllers, every route runs verifyJWT and requirePermission() first (see adminRoutes.ts)
+
+// list users controller, with pagination, search, filters and sorting
+export const listUsers = async (req: Request, res: Response) => {
+  // read the validated and sanitized query, see validateListUsers
+  const {
+    page = 1,
+    limit = 20,
+    search,
+    role,
+    status,
+    verified,
+    sort = "-createdAt",
+  } = matchedData(req, { locations: ["query"] });
+
+  // build the filter from whichever options were given
+  const filter: QueryFilter<IUser> = {};
+  if (search) {
+    // match anywhere in the name or email, case-insensitive
+    const pattern = new RegExp(escapeRegExp(search), "i");
+    filter.$or = [{ name: pattern }, { email: pattern }];
+  }
+  if (role) filter.roles = role;
+  if (status === "disabled") filter.disabledAt = { $ne: null };
+  if (status === "active") filter.disabledAt = null;
+  if (verified !== undefined) filter.isVerified = verified;
+
+  // sort by _id as well so pages are stable when the sort field has duplicates
+  const [users, total] = await Promise.all([
+    User.find(filter)
+      .sort(`${sort} _id`)
+      .skip((page - 1) * limit)
+      .limit(limit),
+    User.countDocuments(filter),
+  ]);
+
+  res.status(200).json({
+    users: users.map(formatAdminUser),
+    page,
+    limit,
+    total,
+    totalPages: Math.ceil(total / limit),
+  });
+};
+
+// view one user controller, includes counts of the user's sessions, passkeys and linked accounts
+export const getUser = async (req: Request, res: Response) => {
+  const user = await User.findById(req.params.id);
+  if (!user) {
+    res.status(404).json({ message: "User not found" });
+    return;
+  }
+
+  const [activeSessions, passkeys, linkedAccounts] = await Promise.all([
+    Session.countDocuments({
+      user: user._id,
+      revokedAt: null,
+      expiresAt: { $gt: new Date() },
+    }),
+    Passkey.countDocuments({ user: user._id }),
+    LinkedIdentity.countDocuments({ user: user._id }),
+  ]);
+
+  const response: AdminUserDetailResponse = {
+    ...formatAdminUser(user),
+    activeSessions,
+    passkeys,
+    linkedAccounts,
+  };
+  res.status(200).json({ user: response });
+};
+
+// edit user controller, changes the name, email and/or roles
+export const updateUser = async (req: Request, res: Response) => {
+  // early return if req.user is not set by the auth middleware, which means the token was invalid or missing
+  if (!req.user) {
+    res.status(401).json({ message: "Unauthorized" });
+    return;
+  }
+
+  const { name, email, roles } = matchedData(req, { locations: ["body"] }) as {
+    name?: string;
+    email?: string;
+    roles?: Role[];
+  };
+
+  // changing roles needs its own permission, users:manage alone isn't enough
+  if (roles && !req.user.permissions?.includes("roles:manage")) {
+    res.status(403).json({ message: "Forbidden" });
+    return;
+  }
+
+  const user = await User.findById(req.params.id);
+  if (!user) {
+    res.status(404).json({ message: "User not found" });
+    return;
+  }
+
+  const errors = [];
+  // an admin removing their own admin role could leave nobody able to manage roles
+  if (
+    roles &&
+    user._id.toString() === req.user.userId &&
+    user.roles.includes("admin") &&
+    !roles.includes("admin")
+  ) {
+    errors.push(
+      createFieldError("roles", "You can't remove your own admin role"),
+    );
+  }
+  // the email must not belong to another account
+  if (email && email !== user.email && (await User.exists({ email }))) {
+    errors.push(createFieldError("email", "Email already in use"));
+  }
+  if (errors.length > 0) {
+    res.status(400).json({ message: "Validation errors", errors });
+    return;
+  }
+
+  if (name !== undefined) user.name = name;
+  if (email !== undefined) user.email = email;
+  // de-duplicate, the order doesn't matter
+  if (roles !== undefined) user.roles = [...new Set(roles)];
+  await user.save();
+
+  // NOTE: the user's current access token keeps the old roles until it is refreshed (at most 15 minutes)
+  res.status(200).json({ user: formatAdminUser(user) });
+};
+
+// disable user controller, blocks logins and signs the user out everywhere
+export const disableUser = async (req: Request, res: Response) => {
+  // early return if req.user is not set by the auth middleware, which means the token was invalid or missing
+  if (!req.user) {
+    res.status(401).json({ message: "Unauthorized" });
+    return;
+  }
+
+  // disabling yourself would sign you out with no way back in
+  if (req.params.id === req.user.userId) {
+    res.status(400).json({ message: "You can't disable your own account" });
+    return;
+  }
+
+  const user = await User.findById(req.params.id);
+  if (!user) {
+    res.status(404).json({ message: "User not found" });
+    return;
+  }
+
+  // keep the original time if the account is already disabled
+  const { reason } = matchedData(req, { locations: ["body"] });
+  user.disabledAt = user.disabledAt ?? new Date();
+  user.disabledReason = reason || null;
+  await user.save();
+
+  // end every session, verifyJWT rejects the user's remaining access tokens
+  await revokeAllUserTokens(user._id.toString(), "admin");
+
+  res.status(200).json({ user: formatAdminUser(user) });
+};
+
+// enable user controller, lets a disabled user log in again
+export const enableUser = async (req: Request, res: Response) => {
+  const user = await User.findById(req.params.id);
+  if (!user) {
+    res.status(404).json({ message: "User not found" });
+    return;
+  }
+
+  user.disabledAt = null;
+  user.disabledReason = null;
+  await user.save();
+
+  res.status(200).json({ user: formatAdminUser(user) });
+};
+
+// force password reset controller, signs the user out and emails a reset link they must use before logging in with a password again
+export const forcePasswordReset = async (req: Request, res: Response) => {
+  const user = await User.findById(req.params.id);
+  if (!user) {
+    res.status(404).json({ message: "User not found" });
+    return;
+  }
+
+  // loginUser refuses password logins until the reset link is used, see resetPassword
+  user.passwordResetRequired = true;
+  const resetToken = await createPasswordResetToken(user);
+
+  await revokeAllUserTokens(user._id.toString(), "admin");
+
+  // wait for the email here, unlike forgotPassword, so the admin finds out if it couldn't be sent
+  await sendPasswordResetEmail(user.email, resetToken);
+
+  res.status(200).json({
+    message: "Password reset required, a reset link has been emailed",
+    user: formatAdminUser(user),
+  });
+};
+
+// revoke tokens controller, signs the user out of every session
+export const revokeUserTokens = async (req: Request, res: Response) => {
+  const user = await User.findById(req.params.id);
+  if (!user) {
+    res.status(404).json({ message: "User not found" });
+    return;
+  }
+
+  // NOTE: access tokens already issued stay valid until they expire (15 minutes), disable the account to block them too
+  await revokeAllUserTokens(user._id.toString(), "admin");
+
+  res.status(204).send();
+};
+
+// list auth events controller, queries the security audit log with filters
+// format=json pages with a cursor, format=csv and format=ndjson stream every matching event (up to the export limit) as a download
+export const listAuthEvents = async (req: Request, res: Response) => {
+  // read the validated and sanitized query, see validateListAuthEvents
+  const {
+    limit = 50,
+    cursor,
+    user,
+    email,
+    type,
+    outcome,
+    reason,
+    ip,
+    from,
+    to,
+    format = "json",
+  } = matchedData(req, { locations: ["query"] });
+
+  // build the filter from whichever options were given
+  const filter: QueryFilter<IAuthEvent> = {};
+  if (user) filter.user = user;
+  // the AuthEvent schema lowercases emails on write, and mongoose applies the same setter to this filter
+  if (email) filter.email = email;
+  if (type) filter.type = type;
+  if (outcome) filter.outcome = outcome;
+  if (reason) filter.reason = reason;
+  if (ip) filter.ip = ip;
+  if (from || to) {
+    filter.createdAt = {};
+    if (from) filter.createdAt.$gte = from;
+    if (to) filter.createdAt.$lte = to;
+  }
+
+  if (format === "json") {
+    res.status(200).json(await findAuthEventPage(filter, limit, cursor));
+    return;
+  }
+
+  // exports stream from a database cursor so a large export never sits in memory
+  const events = AuthEvent.find(filter)
+    .sort({ _id: -1 })
+    .limit(getAuditSettings().maxExportRows)
+    .cursor();
+
+  const date = new Date().toISOString().slice(0, 10);
+  res.status(200).set({
+    "Content-Type":
+      format === "csv" ? "text/csv; charset=utf-8" : "application/x-ndjson",
+    "Content-Disposition": `attachment; filename="auth-events-${date}.${format}"`,
+    "Cache-Control": "no-store",
+  });
+
+  if (format === "csv") res.write(toCsvRow(AUTH_EVENT_CSV_COLUMNS));
+  for await (const event of events) {
+    const formatted = formatAuthEvent(event);
+    res.write(
+      format === "csv"
+        ? authEventToCsvRow(formatted)
+        : `${JSON.stringify(formatted)}\n`,
+    );
+  }
+  res.end();
+};
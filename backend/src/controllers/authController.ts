@@ -1,14 +1,56 @@
 import User from "../models/User.js";
 import type { Request, Response } from "express";
-import jwt from "jsonwebtoken";
+import { matchedData } from "express-validator";
 // import the utils for generating access and refresh tokens
 import {
-  generateTokens,
-  generateAccessToken,
   formatUserWithoutPassword,
   setRefreshTokenCookie,
+  generateEmailVerificationToken,
+  generateTwoFactorChallengeToken,
+  generateEmailChangeToken,
+  generateEmailRevertToken,
 } from "../utils/tokenUtils.js";
+// import the utils for storing, rotating and revoking refresh tokens
+import {
+  rotateRefreshToken,
+  revokeRefreshToken,
+  revokeTokenFamily,
+  revokeAllUserTokens,
+  hashToken,
+} from "../utils/refreshTokenUtils.js";
+// import the utils for recording login sessions
+import {
+  getLoginBlock,
+  sendLoginBlockResponse,
+  startSession,
+  touchSession,
+} from "../utils/sessionUtils.js";
+import { isTrustedDevice } from "../utils/twoFactorUtils.js";
+// import the utils for counting failed logins and locking out accounts and IP addresses
+import {
+  getLoginThrottleKeys,
+  getLockoutRemainingSeconds,
+  recordLoginFailure,
+  resetLoginFailures,
+  sendLockoutResponse,
+  compareWithDummyHash,
+} from "../utils/bruteForceProtection.js";
 import { createFieldError } from "../utils/errorFormatter.js";
+import {
+  isEmailVerificationEnabled,
+  sendVerificationEmail,
+  sendPasswordResetEmail,
+  sendEmailChangeConfirmationEmail,
+  sendEmailChangeNoticeEmail,
+} from "../config/emailConfig.js";
+import { getEmailChangeSettings } from "../config/emailChangeConfig.js";
+import { createPasswordResetToken } from "../utils/passwordResetUtils.js";
+import { recordAuthEvent } from "../utils/authEvents.js";
+import {
+  checkNewPassword,
+  screenPassword,
+} from "../utils/passwordScreening.js";
+import { logger } from "../utils/logger.js";
 
 // register user controller
 export const registerUser = async (req: Request, res: Response) => {
@@ -28,17 +70,49 @@ export const registerUser = async (req: Request, res: Response) => {
     return;
   }
 
+  // reject common, personal and breached passwords that pass the character rules, e.g. "Password1!"
+  const passwordProblem = await screenPassword(password, { name, email });
+  if (passwordProblem) {
+    res.status(400).json({
+      message: "Validation errors",
+      errors: [createFieldError("password", passwordProblem)],
+    });
+    return;
+  }
+
+  // when email verification is enabled, new accounts start unverified until the emailed link is opened
+  const verificationEnabled = isEmailVerificationEnabled();
+
   // create and save the new user to the database using the User model, which will trigger the pre-save middleware to hash the password
-  const newUser = await User.create({ name, email, password });
+  const newUser = await User.create({
+    name,
+    email,
+    password,
+    isVerified: !verificationEnabled,
+  });
 
-  // generate JWT and refresh token for the new user using the utility function
-  const { token, refreshToken } = generateTokens(
-    newUser._id.toString(),
-    newUser.email,
-  );
+  // send the verification link, the user is still logged in but routes using requireVerifiedEmail will reject them until they verify
+  if (verificationEnabled) {
+    const verificationToken = generateEmailVerificationToken(
+      newUser._id.toString(),
+      newUser.email,
+    );
+    await sendVerificationEmail(newUser.email, verificationToken);
+  }
 
-  // set the refresh token as an HTTP-only cookie with a 7 day expiration
-  setRefreshTokenCookie(res, refreshToken);
+  // start a session for this device and set the refresh token cookie
+  const session = await startSession(req, res, newUser);
+  if ("error" in session) {
+    sendLoginBlockResponse(res, session.error);
+    return;
+  }
+  const { token } = session;
+
+  await recordAuthEvent(req, {
+    type: "register",
+    outcome: "success",
+    user: newUser,
+  });
 
   // prepare the response object with user info except the password
   const formattedUser = formatUserWithoutPassword(newUser);
@@ -66,32 +140,88 @@ export const loginUser = async (req: Request, res: Response) => {
     return;
   }
 
+  // failed attempts are counted per account and per IP address, refuse to check the password while either is locked out
+  const throttleKeys = getLoginThrottleKeys(req, email);
+  const retryAfter = await getLockoutRemainingSeconds(throttleKeys);
+  if (retryAfter > 0) {
+    await recordAuthEvent(req, {
+      type: "login",
+      outcome: "failure",
+      email,
+      reason: "locked-out",
+      method: "password",
+    });
+    sendLockoutResponse(res, retryAfter);
+    return;
+  }
+
   // find the user in the database by their email
   const user = await User.findOne({ email });
 
-  // if the user is not found, return a generic error message to avoid revealing whether the email exists in the system for security
-  if (!user) {
+  // compare the provided password with the hashed password stored in the database using the comparePassword method in the User model
+  // if the user is not found, compare against a dummy hash anyway so the response takes just as long and doesn't reveal whether the email exists
+  const isPasswordValid = user
+    ? await user.comparePassword(password)
+    : await compareWithDummyHash(password);
+
+  // if the user is not found or the password is invalid, count the failure and return the same generic error message for security
+  if (!user || !isPasswordValid) {
+    await recordLoginFailure(throttleKeys);
+    await recordAuthEvent(req, {
+      type: "login",
+      outcome: "failure",
+      user,
+      email,
+      reason: user ? "invalid-password" : "unknown-email",
+      method: "password",
+    });
     res.status(401).json({ message: genericErrorMessage });
     return;
   }
 
-  // compare the provided password with the hashed password stored in the database using the comparePassword method in the User model
-  const isPasswordValid = await user.comparePassword(password);
+  // an admin disabled the account or required a new password, the password was right so it's safe to say why
+  const block = getLoginBlock(user);
+  if (block) {
+    await recordAuthEvent(req, {
+      type: "login",
+      outcome: "failure",
+      user,
+      reason: block.replace(/_/g, "-"),
+      method: "password",
+    });
+    sendLoginBlockResponse(res, block);
+    return;
+  }
 
-  // if the password is invalid, return the same generic error message for security
-  if (!isPasswordValid) {
-    res.status(401).json({ message: genericErrorMessage });
+  // with two-factor authentication enabled the password is only the first step, unless this device was remembered
+  // return a short-lived challenge token instead of logging in, the frontend sends it back with the code to /login/2fa
+  // the login event is recorded by verifyTwoFactorLogin once the code is checked
+  if (user.twoFactor.enabled && !isTrustedDevice(req, user)) {
+    res.status(200).json({
+      twoFactorRequired: true,
+      challengeToken: generateTwoFactorChallengeToken(user._id.toString()),
+    });
     return;
   }
 
-  // generate JWT and refresh token for the authenticated user using the utility function
-  const { token, refreshToken } = generateTokens(
-    user._id.toString(),
-    user.email,
-  );
+  // the login succeeded, so forget the earlier failures
+  // with two-factor on this waits until the code is checked, otherwise a correct password would reset the code attempts too
+  await resetLoginFailures(throttleKeys);
 
-  // set the refresh token as an HTTP-only cookie with a 7 day expiration
-  setRefreshTokenCookie(res, refreshToken);
+  // start a session for this device and set the refresh token cookie
+  const session = await startSession(req, res, user);
+  if ("error" in session) {
+    sendLoginBlockResponse(res, session.error);
+    return;
+  }
+  const { token } = session;
+
+  await recordAuthEvent(req, {
+    type: "login",
+    outcome: "success",
+    user,
+    method: "password",
+  });
 
   const formattedUser = formatUserWithoutPassword(user);
 
@@ -110,36 +240,35 @@ export const refreshToken = async (req: Request, res: Response) => {
     return;
   }
 
-  // verify the refresh token and generate a new access token
-  try {
-    const secret = process.env.JWT_SECRET;
-    if (!secret) {
-      console.error("JWT_SECRET is not defined in environment variables");
-      throw new Error("Server configuration error: missing JWT_SECRET");
-    }
-
-    // verify the refresh token and extract the payload, which contains the user ID and email
-    const payload = jwt.verify(refreshToken, secret) as {
-      userId: string;
-      email: string;
-    };
-
-    // check that the payload is valid and has the required properties
-    if (!payload || !payload.userId || !payload.email) {
-      res.status(401).json({ message: "Invalid token payload" });
-      return;
-    }
-
-    // generate a new access token using the payload from the refresh token
-    const newAccessToken = generateAccessToken(payload.userId, payload.email);
-
-    // return the new access token in the response body for the frontend to use in authenticated requests
-    res.status(200).json({ token: newAccessToken });
-  } catch (error) {
-    console.error("Error verifying refresh token:", error);
+  // swap the presented refresh token for a new pair, the old token can never be used again
+  // rotateRefreshToken also detects reuse of an already rotated token and revokes the whole token family
+  const rotated = await rotateRefreshToken(refreshToken);
+
+  // if the token is invalid, expired, revoked or reused, clear the cookie and return 401 Unauthorized
+  if (!rotated) {
+    await recordAuthEvent(req, {
+      type: "refresh",
+      outcome: "failure",
+      reason: "invalid-refresh-token",
+    });
+    res.clearCookie("refreshToken");
     res.status(401).json({ message: "Invalid refresh token" });
     return;
   }
+
+  // record that the session was used, so the sessions list shows an accurate last-used time
+  await touchSession(rotated.sessionId, req);
+  await recordAuthEvent(req, {
+    type: "refresh",
+    outcome: "success",
+    user: rotated.user,
+  });
+
+  // set the rotated refresh token as an HTTP-only cookie with a 7 day expiration
+  setRefreshTokenCookie(res, rotated.refreshToken);
+
+  // return the new access token in the response body for the frontend to use in authenticated requests
+  res.status(200).json({ token: rotated.token });
 };
 
 // get current user controller
@@ -158,8 +287,51 @@ export const getCurrentUser = async (req: Request, res: Response) => {
     res.status(404).json({ message: "User not found" });
     return;
   }
-  // return the user info in the response
-  res.status(200).json({ user });
+  // return the user info in the response, formatted the same way as login so internal fields (reset tokens, two-factor state, etc.) aren't exposed
+  res.status(200).json({ user: formatUserWithoutPassword(user) });
+};
+
+// update profile controller, edits the profile details and returns the updated user
+// uses the version key for optimistic concurrency, so an edit made from a stale copy (e.g. another tab) is rejected instead of silently overwriting
+export const updateProfile = async (req: Request, res: Response) => {
+  // early return if req.user is not set by the auth middleware, which means the token was invalid or missing
+  if (!req.user) {
+    res.status(401).json({ message: "Unauthorized" });
+    return;
+  }
+
+  // read the validated and sanitized body, see validateUpdateProfile, only the fields that were sent are changed
+  const { version, ...fields } = matchedData(req, { locations: ["body"] });
+
+  // an empty string clears an optional field (name can't be empty, the validator requires at least 2 characters)
+  const updates: Record<string, string | null> = {};
+  for (const [field, value] of Object.entries(fields)) {
+    updates[field] = value === "" ? null : value;
+  }
+
+  // only update the user if the version still matches, and bump it so other stale copies are rejected too
+  const user = await User.findOneAndUpdate(
+    { _id: req.user.userId, __v: version },
+    { $set: updates, $inc: { __v: 1 } },
+    { new: true, runValidators: true },
+  ).select("-password");
+
+  if (!user) {
+    const current = await User.findById(req.user.userId).select("-password");
+    if (!current) {
+      res.status(404).json({ message: "User not found" });
+      return;
+    }
+    // return the current profile so the client can show it and let the user try again
+    res.status(409).json({
+      message:
+        "Your profile was changed somewhere else, review the latest details and try again",
+      user: formatUserWithoutPassword(current),
+    });
+    return;
+  }
+
+  res.status(200).json({ user: formatUserWithoutPassword(user) });
 };
 
 // update password controller
@@ -203,6 +375,18 @@ export const updatePassword = async (req: Request, res: Response) => {
     errors.push(
       createFieldError("currentPassword", "Current password is incorrect"),
     );
+    await recordAuthEvent(req, {
+      type: "password-change",
+      outcome: "failure",
+      user,
+      reason: "invalid-password",
+    });
+  } else {
+    // only screen the new password once we know who's asking, so it can't be used to probe the checks
+    const passwordProblem = await checkNewPassword(user, newPassword);
+    if (passwordProblem) {
+      errors.push(createFieldError("newPassword", passwordProblem));
+    }
   }
 
   // if there are any validation errors, return 400 Bad Request with the errors
@@ -213,6 +397,11 @@ export const updatePassword = async (req: Request, res: Response) => {
 
   // update the user's password using the updatePassword method in the User model, which will trigger the pre-save middleware to hash the new password
   await user.updatePassword(newPassword);
+  await recordAuthEvent(req, {
+    type: "password-change",
+    outcome: "success",
+    user,
+  });
   res.status(200).json({ message: "Password updated successfully" });
 };
 
@@ -251,6 +440,12 @@ export const updateEmail = async (req: Request, res: Response) => {
   const isPasswordValid = await user.comparePassword(password);
   if (!isPasswordValid) {
     errors.push(createFieldError("password", "Password is incorrect"));
+    await recordAuthEvent(req, {
+      type: "email-change",
+      outcome: "failure",
+      user,
+      reason: "invalid-password",
+    });
   }
 
   // if the new email is the same as the current email, return 400 Bad Request
@@ -261,6 +456,9 @@ export const updateEmail = async (req: Request, res: Response) => {
         "New email must be different from current email",
       ),
     );
+  } else if (await User.exists({ email: newEmail })) {
+    // checked again when the change is confirmed, someone may register the address in between
+    errors.push(createFieldError("newEmail", "Email already in use"));
   }
 
   // if there are any validation errors, return 400 Bad Request with the errors
@@ -269,32 +467,131 @@ export const updateEmail = async (req: Request, res: Response) => {
     return;
   }
 
-  // update email and save
-  user.email = newEmail;
+  // nothing changes yet, the new address is only pending until the link sent to it is opened (see confirmEmailChange)
+  // asking again replaces the pending address, so links sent for the previous one stop working
+  const { confirmTtlMs, revertTtlMs } = getEmailChangeSettings();
+  user.pendingEmail = newEmail;
+  user.pendingEmailExpires = new Date(Date.now() + confirmTtlMs);
   await user.save();
 
-  // reauthenticate user by generating new tokens
-  const { token, refreshToken } = generateTokens(
-    user._id.toString(),
+  // confirmation link to the new address, and a notice with a "this wasn't me" link to the current one
+  const userId = user._id.toString();
+  await sendEmailChangeConfirmationEmail(
+    newEmail,
+    generateEmailChangeToken(userId, newEmail, confirmTtlMs),
+    user.pendingEmailExpires,
+  );
+  await sendEmailChangeNoticeEmail(
     user.email,
+    newEmail,
+    generateEmailRevertToken(userId, user.email, newEmail, revertTtlMs),
+    new Date(Date.now() + revertTtlMs),
   );
 
-  // set the new refresh token as an HTTP-only cookie with a 7 day expiration
-  setRefreshTokenCookie(res, refreshToken);
+  res.status(200).json({
+    user: formatUserWithoutPassword(user),
+    message: `We've sent a confirmation link to ${newEmail}, your email changes once you open it`,
+  });
+};
 
-  // prepare the response object with user info except the password
-  const formattedUser = formatUserWithoutPassword(user);
+export const forgotPassword = async (req: Request, res: Response) => {
+  const { email } = req.body;
+
+  // always return the same response whether or not the account exists, to avoid user enumeration attacks
+  const genericResponse = {
+    message:
+      "If an account with that email exists, a password reset link has been sent.",
+  };
+
+  const user = await User.findOne({ email });
+  if (!user) {
+    res.status(200).json(genericResponse);
+    return;
+  }
+
+  // generate a random single-use token, only its hash is stored so a database leak can't be used to reset passwords
+  const resetToken = await createPasswordResetToken(user);
+
+  // don't wait for the email to be sent, so the response time doesn't reveal that the account exists
+  sendPasswordResetEmail(user.email, resetToken).catch((error) => {
+    logger.error("Failed to send password reset email", { error });
+  });
+
+  res.status(200).json(genericResponse);
+};
+
+// reset password controller, called with the token from the emailed link
+export const resetPassword = async (req: Request, res: Response) => {
+  const { token, newPassword } = req.body;
+  const tokenFilter = {
+    passwordResetTokenHash: hashToken(token),
+    passwordResetExpires: { $gt: new Date() },
+  };
+
+  // screen the new password before using up the token, so a rejected password doesn't cost the user their link
+  const tokenOwner = await User.findOne(tokenFilter);
+  if (!tokenOwner) {
+    res.status(400).json({ message: "Invalid or expired reset link" });
+    return;
+  }
+  const passwordProblem = await checkNewPassword(tokenOwner, newPassword);
+  if (passwordProblem) {
+    res.status(400).json({
+      message: "Validation errors",
+      errors: [createFieldError("newPassword", passwordProblem)],
+    });
+    return;
+  }
+
+  // find the user by the token hash and clear it in the same atomic update, so the token can only ever be used once
+  const user = await User.findOneAndUpdate(
+    tokenFilter,
+    {
+      passwordResetTokenHash: null,
+      passwordResetExpires: null,
+      passwordResetRequired: false,
+    },
+    { new: true },
+  );
+
+  if (!user) {
+    res.status(400).json({ message: "Invalid or expired reset link" });
+    return;
+  }
+
+  // update the password using the updatePassword method in the User model, which will trigger the pre-save middleware to hash the new password
+  await user.updatePassword(newPassword);
+
+  // sign the user out everywhere, whoever knew the old password may still have a session
+  await revokeAllUserTokens(user._id.toString(), "reset");
 
-  // return the new JWT and updated user info in the response body
   res.status(200).json({
-    token,
-    user: formattedUser,
-    message: "Email updated successfully",
+    message:
+      "Password reset successfully. Please log in with your new password.",
   });
 };
 
 // logout controller
 export const logout = async (req: Request, res: Response) => {
+  // revoke the presented refresh token so it can't be used again even if the cookie was copied somewhere
+  const { refreshToken } = req.cookies;
+  if (refreshToken) {
+    await revokeRefreshToken(refreshToken, "logout");
+  }
+
+  // end the session the access token belongs to, which revokes the rest of its token family too
+  if (req.user?.sessionId) {
+    await revokeTokenFamily(req.user.sessionId, "logout");
+  }
+
+  if (req.user) {
+    await recordAuthEvent(req, {
+      type: "logout",
+      outcome: "success",
+      user: { _id: req.user.userId, email: req.user.email },
+    });
+  }
+
   // frontend clears jwt from local storage, so we need to clear the refresh token on backend
   res.clearCookie("refreshToken");
   res.status(204).send();
@@ -0,0 +1,131 @@
+import User from "../models/User.js";
+import type { Request, Response } from "express";
+import { matchedData } from "express-validator";
+import { randomBytes } from "node:crypto";
+import {
+  detectImageType,
+  resizeAvatar,
+  saveAvatarImages,
+  deleteAvatarImages,
+  getAvatarKey,
+} from "../utils/avatarUtils.js";
+import { formatUserWithoutPassword } from "../utils/tokenUtils.js";
+import { createFieldError } from "../utils/errorFormatter.js";
+import { getAvatarSettings, getAvatarStorage } from "../config/avatarConfig.js";
+
+// upload avatar controller: checks the image, resizes it to every avatar size and replaces the old avatar
+export const uploadAvatar = async (req: Request, res: Response) => {
+  // early return if req.user is not set by the auth middleware, which means the token was invalid or missing
+  if (!req.user) {
+    res.status(401).json({ message: "Unauthorized" });
+    return;
+  }
+
+  // check the file's contents, the filename and the Content-Type the browser sent can say anything
+  if (!req.file || !detectImageType(req.file.buffer)) {
+    res.status(400).json({
+      message: "Validation errors",
+      errors: [
+        createFieldError(
+          "avatar",
+          req.file
+            ? "Avatar must be a JPEG, PNG, WebP or GIF image"
+            : "Choose an image to upload",
+        ),
+      ],
+    });
+    return;
+  }
+
+  // read the validated and sanitized crop, see validateAvatarUpload
+  const { cropX, cropY, cropSize } = matchedData(req, {
+    locations: ["body"],
+  });
+
+  let images;
+  try {
+    images = await resizeAvatar(
+      req.file.buffer,
+      cropSize !== undefined
+        ? { x: cropX, y: cropY, size: cropSize }
+        : undefined,
+    );
+  } catch {
+    // the magic bytes matched but the image itself is broken (or too large to decode)
+    res.status(400).json({
+      message: "Validation errors",
+      errors: [createFieldError("avatar", "The image could not be read")],
+    });
+    return;
+  }
+
+  const user = await User.findById(req.user.userId);
+  if (!user) {
+    res.status(404).json({ message: "User not found" });
+    return;
+  }
+
+  // store the new images under a new id before switching to them, so the old avatar keeps working until then
+  const userId = user._id.toString();
+  const previousAvatarId = user.avatarId;
+  const avatarId = randomBytes(8).toString("hex");
+  await saveAvatarImages(userId, avatarId, images);
+
+  user.avatarId = avatarId;
+  await user.save();
+
+  if (previousAvatarId) {
+    await deleteAvatarImages(userId, previousAvatarId);
+  }
+
+  res.status(200).json({ user: formatUserWithoutPassword(user) });
+};
+
+// remove avatar controller
+export const removeAvatar = async (req: Request, res: Response) => {
+  // early return if req.user is not set by the auth middleware, which means the token was invalid or missing
+  if (!req.user) {
+    res.status(401).json({ message: "Unauthorized" });
+    return;
+  }
+
+  const user = await User.findById(req.user.userId);
+  if (!user) {
+    res.status(404).json({ message: "User not found" });
+    return;
+  }
+
+  const avatarId = user.avatarId;
+  if (avatarId) {
+    user.avatarId = null;
+    await user.save();
+    await deleteAvatarImages(user._id.toString(), avatarId);
+  }
+
+  res.status(200).json({ user: formatUserWithoutPassword(user) });
+};
+
+// get avatar controller: serves one size of an avatar, public so it works in <img> tags
+export const getAvatar = async (req: Request, res: Response) => {
+  // read the validated params, see validateAvatarImage
+  const { userId, avatarId, size } = matchedData(req, {
+    locations: ["params"],
+  });
+
+  const image = await getAvatarStorage().get(
+    getAvatarKey(userId, avatarId, size),
+  );
+  if (!image) {
+    res.status(404).json({ message: "Avatar not found" });
+    return;
+  }
+
+  res.set({
+    "Content-Type": image.contentType,
+    // the URL changes whenever the avatar does, so the image can be cached "forever"
+    "Cache-Control": `public, max-age=${getAvatarSettings().cacheMaxAgeSeconds}, immutable`,
+    // it's user-uploaded content, never let the browser guess another type
+    "X-Content-Type-Options": "nosniff",
+  });
+  res.status(200).send(image.body);
+};
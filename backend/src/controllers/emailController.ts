@@ -0,0 +1,188 @@
+import User from "../models/User.js";
+import type { Request, Response } from "express";
+import {
+  generateEmailVerificationToken,
+  verifyEmailVerificationToken,
+  formatUserWithoutPassword,
+  verifyEmailChangeToken,
+  verifyEmailRevertToken,
+} from "../utils/tokenUtils.js";
+import { revokeAllUserTokens } from "../utils/refreshTokenUtils.js";
+import { recordAuthEvent } from "../utils/authEvents.js";
+import { sendVerificationEmail } from "../config/emailConfig.js";
+
+// verify email controller, called by the frontend with the token from the emailed link
+export const verifyEmail = async (req: Request, res: Response) => {
+  const { token } = req.body;
+
+  // check the signature, expiry and purpose of the token
+  const payload = verifyEmailVerificationToken(token);
+  if (!payload) {
+    res.status(400).json({ message: "Invalid or expired verification link" });
+    return;
+  }
+
+  const user = await User.findById(payload.userId);
+
+  // if the user was deleted, or changed their email after the link was sent, the link is no longer valid
+  if (!user || user.email !== payload.email) {
+    res.status(400).json({ message: "Invalid or expired verification link" });
+    return;
+  }
+
+  // only save if something changes, clicking the link twice is harmless
+  if (!user.isVerified) {
+    user.isVerified = true;
+    await user.save();
+  }
+
+  res.status(200).json({
+    message: "Email verified successfully",
+    user: formatUserWithoutPassword(user),
+  });
+};
+
+// resend verification email controller, limited to 3 per hour by the resendVerification rate limit policy (AD-012)
+export const resendVerificationEmail = async (req: Request, res: Response) => {
+  // early return if req.user is not set by the auth middleware, which means the token was invalid or missing
+  if (!req.user) {
+    res.status(401).json({ message: "Unauthorized" });
+    return;
+  }
+
+  const user = await User.findById(req.user.userId);
+
+  // if the user is not found (which could happen if the user was deleted after the token was issued), return 404 Not Found
+  if (!user) {
+    res.status(404).json({ message: "User not found" });
+    return;
+  }
+
+  // nothing to resend if the account is already verified
+  if (user.isVerified) {
+    res.status(400).json({ message: "Email is already verified" });
+    return;
+  }
+
+  // send a fresh link, links sent earlier stay valid until they expire
+  const token = generateEmailVerificationToken(user._id.toString(), user.email);
+  await sendVerificationEmail(user.email, token);
+
+  res.status(200).json({ message: "Verification email sent" });
+};
+
+// confirm email change controller, called by the frontend with the token from the link sent to the new address
+export const confirmEmailChange = async (req: Request, res: Response) => {
+  const payload = verifyEmailChangeToken(req.body.token);
+  const user = payload ? await User.findById(payload.userId) : null;
+
+  // the link only works for the change that's still pending, asking for another address or cancelling makes it invalid
+  if (
+    !payload ||
+    !user ||
+    user.pendingEmail !== payload.email ||
+    !user.pendingEmailExpires ||
+    user.pendingEmailExpires <= new Date()
+  ) {
+    res.status(400).json({ message: "Invalid or expired confirmation link" });
+    return;
+  }
+
+  // someone may have registered with the address since the change was requested
+  if (await User.exists({ email: payload.email })) {
+    res.status(409).json({ message: "Email already in use" });
+    return;
+  }
+
+  // only now does the email change, tokens issued from here on carry the new address
+  // the event keeps the old address so it's clear which email the account had before
+  const oldEmail = user.email;
+  user.email = payload.email;
+  user.pendingEmail = null;
+  user.pendingEmailExpires = null;
+  user.isVerified = true; // opening the link proves the user owns the new address
+  await user.save();
+  await recordAuthEvent(req, {
+    type: "email-change",
+    outcome: "success",
+    user,
+    email: oldEmail,
+  });
+
+  res.status(200).json({
+    message: "Email updated successfully",
+    user: formatUserWithoutPassword(user),
+  });
+};
+
+// revert email change controller, the "this wasn't me" link sent to the old address
+// undoes the change whether or not it was confirmed, and signs the account out everywhere in case someone else knows the password
+export const revertEmailChange = async (req: Request, res: Response) => {
+  const payload = verifyEmailRevertToken(req.body.token);
+  const user = payload ? await User.findById(payload.userId) : null;
+
+  const isPending = !!user && user.pendingEmail === payload?.newEmail;
+  const isConfirmed = !!user && user.email === payload?.newEmail;
+
+  // nothing to undo if the change was already reverted, or the email has changed again since
+  if (!payload || !user || (!isPending && !isConfirmed)) {
+    res.status(400).json({ message: "Invalid or expired link" });
+    return;
+  }
+
+  if (isConfirmed) {
+    // the old address may have been taken by a new account once it was freed
+    if (await User.exists({ email: payload.oldEmail })) {
+      res.status(409).json({
+        message:
+          "Your old email address is now used by another account, please contact support",
+      });
+      return;
+    }
+    user.email = payload.oldEmail;
+  }
+  // a pending change is dropped either way
+  user.pendingEmail = null;
+  user.pendingEmailExpires = null;
+  await user.save();
+
+  await revokeAllUserTokens(user._id.toString(), "email-revert");
+  await recordAuthEvent(req, {
+    type: "email-change-revert",
+    outcome: "success",
+    user,
+    email: payload.newEmail,
+  });
+
+  res.status(200).json({
+    message:
+      "The email change was undone and you've been signed out everywhere. Change your password now.",
+  });
+};
+
+// cancel email change controller, drops a change that hasn't been confirmed yet
+export const cancelEmailChange = async (req: Request, res: Response) => {
+  // early return if req.user is not set by the auth middleware, which means the token was invalid or missing
+  if (!req.user) {
+    res.status(401).json({ message: "Unauthorized" });
+    return;
+  }
+
+  const user = await User.findById(req.user.userId);
+
+  // if the user is not found (which could happen if the user was deleted after the token was issued), return 404 Not Found
+  if (!user) {
+    res.status(404).json({ message: "User not found" });
+    return;
+  }
+
+  // links already sent stop working, confirmEmailChange checks them against the pending address
+  user.pendingEmail = null;
+  user.pendingEmailExpires = null;
+  await user.save();
+
+  res.status(200).json({
+    message: "Email change cancelled",
+    user: formatUserWithoutPassword(user),
+  });
+};
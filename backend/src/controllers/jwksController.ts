@@ -0,0 +1,10 @@
+import type { Request, Response } from "express";
+import { getKeyManager } from "../config/jwtConfig.js";
+
+// JWKS controller: publishes the public keys our access tokens are signed with, so other services can verify them
+// without sharing a secret, they pick the key by the kid in the token header and should refetch when they see a new kid
+export const getJwks = (req: Request, res: Response) => {
+  // cached briefly, a rotated-in key is published as a verification key well before tokens are signed with it
+  res.set("Cache-Control", "public, max-age=300");
+  res.status(200).json(getKeyManager().getJwks());
+};
@@ -0,0 +1,176 @@
+import User from "../models/User.js";
+import type { IUser } from "../models/User.js";
+import type { Request, Response } from "express";
+import { matchedData } from "express-validator";
+import {
+  formatUserWithoutPassword,
+  generateTwoFactorChallengeToken,
+} from "../utils/tokenUtils.js";
+import {
+  setMagicLinkCookie,
+  clearMagicLinkCookie,
+  createMagicLink,
+  consumeMagicLink,
+} from "../utils/magicLinkUtils.js";
+import type { MagicLinkError } from "../utils/magicLinkUtils.js";
+import { loginBlockMessages, startSession } from "../utils/sessionUtils.js";
+import { isTrustedDevice } from "../utils/twoFactorUtils.js";
+import { recordAuthEvent } from "../utils/authEvents.js";
+import { getFrontendUrl, sendMagicLinkEmail } from "../config/emailConfig.js";
+import { logger } from "../utils/logger.js";
+
+// status and message the POST route answers with for each reason a link can't be used
+const errorResponses: Record<
+  MagicLinkError,
+  { status: number; message: string }
+> = {
+  invalid_link: { status: 400, message: "Invalid or expired sign in link" },
+  different_browser: {
+    status: 400,
+    message: "Open the sign in link in the same browser you requested it from",
+  },
+  account_disabled: {
+    status: 403,
+    message: loginBlockMessages.account_disabled,
+  },
+  password_reset_required: {
+    status: 403,
+    message: loginBlockMessages.password_reset_required,
+  },
+  account_deleted: { status: 403, message: loginBlockMessages.account_deleted },
+};
+
+// the outcome of opening a link, shared by the POST and GET routes which only differ in how they answer
+type MagicLinkOutcome =
+  | { error: MagicLinkError }
+  | { challengeToken: string }
+  | { token: string; user: IUser };
+
+// use up the link and sign the user in, or stop at the two-factor step like loginUser
+const completeMagicLink = async (
+  req: Request,
+  res: Response,
+  token: string,
+): Promise<MagicLinkOutcome> => {
+  const result = await consumeMagicLink(req, token);
+  if ("error" in result) {
+    await recordAuthEvent(req, {
+      type: "login",
+      outcome: "failure",
+      user: result.user ?? null,
+      reason: result.error.replace(/_/g, "-"),
+      method: "magic-link",
+    });
+    return { error: result.error };
+  }
+  const { user } = result;
+
+  // the link was used, this browser's nonce is no use anymore
+  clearMagicLinkCookie(res);
+
+  // the link replaces the password step, two-factor still applies
+  if (user.twoFactor.enabled && !isTrustedDevice(req, user)) {
+    return {
+      challengeToken: generateTwoFactorChallengeToken(user._id.toString()),
+    };
+  }
+
+  // start a session for this device and set the refresh token cookie
+  const session = await startSession(req, res, user);
+  if ("error" in session) {
+    return { error: session.error };
+  }
+  await recordAuthEvent(req, {
+    type: "login",
+    outcome: "success",
+    user,
+    method: "magic-link",
+  });
+  return { token: session.token, user };
+};
+
+// request a sign in link controller, emails a link that signs in the browser that asked for it
+export const requestMagicLink = async (req: Request, res: Response) => {
+  const { email } = matchedData(req);
+
+  // always set the cookie and return the same response whether or not the account exists, to avoid user enumeration attacks
+  // a new request replaces the cookie, so only the newest link works in this browser
+  const nonce = setMagicLinkCookie(res);
+  const genericResponse = {
+    message:
+      "If an account with that email exists, a sign in link has been sent.",
+  };
+
+  const user = await User.findOne({ email });
+  if (!user || user.disabledAt) {
+    res.status(200).json(genericResponse);
+    return;
+  }
+
+  const { token, expiresAt } = await createMagicLink(user, nonce);
+
+  // don't wait for the email to be sent, so the response time doesn't reveal that the account exists
+  sendMagicLinkEmail(user.email, token, expiresAt).catch((error) => {
+    logger.error("Failed to send sign in link email", { error });
+  });
+
+  res.status(200).json(genericResponse);
+};
+
+// verify a sign in link controller, called by the frontend's landing page with the token from the link
+// answers like loginUser: { token, user } or { twoFactorRequired, challengeToken }
+export const verifyMagicLink = async (req: Request, res: Response) => {
+  const { token } = matchedData(req);
+
+  const outcome = await completeMagicLink(req, res, token);
+  if ("error" in outcome) {
+    const { status, message } = errorResponses[outcome.error];
+    res.status(status).json({ message });
+    return;
+  }
+  if ("challengeToken" in outcome) {
+    res.status(200).json({
+      twoFactorRequired: true,
+      challengeToken: outcome.challengeToken,
+    });
+    return;
+  }
+
+  res.status(200).json({
+    token: outcome.token,
+    user: formatUserWithoutPassword(outcome.user),
+  });
+};
+
+// verify a sign in link opened straight on the API, e.g. by a mail client that rewrites links
+// always ends with a redirect to the frontend's landing page, like oauthCallback
+// errors go in the query string and the two-factor challenge in the fragment, on success the page calls /refresh
+export const verifyMagicLinkRedirect = async (req: Request, res: Response) => {
+  const redirect = (
+    params: Record<string, string> = {},
+    fragment?: Record<string, string>,
+  ) => {
+    const query = new URLSearchParams(params).toString();
+    const hash = fragment ? `#${new URLSearchParams(fragment).toString()}` : "";
+    res.redirect(
+      `${getFrontendUrl()}/magic-link${query ? `?${query}` : ""}${hash}`,
+    );
+  };
+
+  const token = req.query.token;
+  if (typeof token !== "string" || !token) {
+    redirect({ error: "invalid_link" });
+    return;
+  }
+
+  const outcome = await completeMagicLink(req, res, token);
+  if ("error" in outcome) {
+    redirect({ error: outcome.error });
+    return;
+  }
+  if ("challengeToken" in outcome) {
+    redirect({}, { challengeToken: outcome.challengeToken });
+    return;
+  }
+  redirect({ signedIn: "1" });
+};
@@ -0,0 +1,358 @@
+import User from "../models/User.js";
+import type { IUser } from "../models/User.js";
+import LinkedIdentity from "../models/LinkedIdentity.js";
+import OAuthState, { OAUTH_STATE_TTL_MS } from "../models/OAuthState.js";
+import type { Request, Response } from "express";
+import { randomBytes } from "node:crypto";
+import {
+  getOAuthProviders,
+  getOAuthProvider,
+  getOAuthRedirectUri,
+} from "../config/oauthConfig.js";
+import type { OAuthProvider } from "../config/oauthConfig.js";
+import { getAppConfig } from "../config/appConfig.js";
+import {
+  getFrontendUrl,
+  isEmailVerificationEnabled,
+  sendVerificationEmail,
+} from "../config/emailConfig.js";
+import {
+  generateRandomToken,
+  buildAuthorizationUrl,
+  exchangeCodeForProfile,
+  formatLinkedIdentity,
+} from "../utils/oauthUtils.js";
+import type { OAuthProfile } from "../utils/oauthUtils.js";
+import {
+  generateEmailVerificationToken,
+  generateTwoFactorChallengeToken,
+} from "../utils/tokenUtils.js";
+import { getLoginBlock, startSession } from "../utils/sessionUtils.js";
+import { isTrustedDevice } from "../utils/twoFactorUtils.js";
+import { recordAuthEvent } from "../utils/authEvents.js";
+import { logger } from "../utils/logger.js";
+
+// the state cookie only needs to reach the callback, and must be sameSite lax because the provider redirects back cross-site
+const OAUTH_STATE_COOKIE = "oauthState";
+const OAUTH_STATE_COOKIE_PATH = "/api/auth/oauth";
+
+// send the browser back to the frontend's OAuth callback page
+// errors and results go in the query string, the two-factor challenge goes in the fragment so it never reaches a server log
+const redirectToFrontend = (
+  res: Response,
+  params: Record<string, string> = {},
+  fragment?: Record<string, string>,
+) => {
+  const query = new URLSearchParams(params).toString();
+  const hash = fragment ? `#${new URLSearchParams(fragment).toString()}` : "";
+  res.redirect(
+    `${getFrontendUrl()}/oauth/callback${query ? `?${query}` : ""}${hash}`,
+  );
+};
+
+// create the state for a new sign in attempt, set the state cookie and return the provider's authorization URL
+const beginAuthorization = async (
+  res: Response,
+  provider: OAuthProvider,
+  linkUserId: string | null,
+) => {
+  const attempt = await OAuthState.create({
+    state: generateRandomToken(),
+    provider: provider.id,
+    codeVerifier: generateRandomToken(),
+    nonce: generateRandomToken(),
+    linkUser: linkUserId,
+  });
+
+  // the callback only accepts a state that matches this cookie, so an attacker can't finish a login in someone else's browser
+  res.cookie(OAUTH_STATE_COOKIE, attempt.state, {
+    httpOnly: true, // prevents client-side JavaScript from accessing the cookie for security e.g. no xss attacks
+    secure: getAppConfig().profile === "production", // only send cookie over HTTPS in production for security
+    sameSite: "lax", // sent on the top-level redirect back from the provider, unlike strict
+    path: OAUTH_STATE_COOKIE_PATH,
+    maxAge: OAUTH_STATE_TTL_MS,
+  });
+
+  return buildAuthorizationUrl(provider, {
+    redirectUri: getOAuthRedirectUri(provider.id),
+    state: attempt.state,
+    nonce: attempt.nonce,
+    codeVerifier: attempt.codeVerifier,
+  });
+};
+
+// find the user a provider account signs in as, creating the user on first sign in
+// returns an error code for the frontend instead when the account can't be used to sign in
+const findOrCreateUser = async (
+  provider: OAuthProvider,
+  profile: OAuthProfile,
+): Promise<{ user: IUser } | { error: string }> => {
+  // returning user, the provider account is already linked
+  const identity = await LinkedIdentity.findOne({
+    provider: provider.id,
+    subject: profile.subject,
+  });
+  if (identity) {
+    const user = await User.findById(identity.user);
+    return user ? { user } : { error: "account_not_found" };
+  }
+
+  // we need an email to match or create an account
+  if (!profile.email) {
+    return { error: "email_required" };
+  }
+
+  let user = await User.findOne({ email: profile.email });
+
+  if (user) {
+    // an account with this email already exists, only link it automatically if both sides proved they own the email
+    // otherwise anyone who can create a provider account with someone else's unverified email could take over their account,
+    // or anyone who registered the email here first would get the real owner's provider sign ins
+    // isVerified defaults to true while email verification is off, so it only counts as proof when verification is on
+    // the user can still log in with their password and link the provider from the Profile page
+    if (
+      !profile.emailVerified ||
+      !isEmailVerificationEnabled() ||
+      !user.isVerified
+    ) {
+      return { error: "account_exists" };
+    }
+  } else {
+    // first sign in, create the account
+    // the random password is never shown, the user can set one later with forgot password
+    const verificationEnabled = isEmailVerificationEnabled();
+    user = await User.create({
+      name: profile.name || profile.email.split("@")[0] || profile.email,
+      email: profile.email,
+      password: randomBytes(32).toString("hex"),
+      isVerified: profile.emailVerified || !verificationEnabled,
+    });
+
+    // the provider didn't vouch for the email, so send our own verification link like registerUser does
+    if (!user.isVerified) {
+      const verificationToken = generateEmailVerificationToken(
+        user._id.toString(),
+        user.email,
+      );
+      await sendVerificationEmail(user.email, verificationToken);
+    }
+  }
+
+  await LinkedIdentity.create({
+    user: user._id,
+    provider: provider.id,
+    subject: profile.subject,
+    email: profile.email,
+  });
+
+  return { user };
+};
+
+// list providers controller, the frontend shows a button for each one
+export const getProviders = async (_req: Request, res: Response) => {
+  res.status(200).json({
+    providers: getOAuthProviders().map(({ id, name }) => ({ id, name })),
+  });
+};
+
+// start sign in controller, returns the URL the frontend sends the browser to
+export const startOAuthLogin = async (req: Request, res: Response) => {
+  const provider = getOAuthProvider(req.params.provider as string);
+  if (!provider) {
+    res.status(404).json({ message: "Unknown sign in provider" });
+    return;
+  }
+
+  const authorizationUrl = await beginAuthorization(res, provider, null);
+  res.status(200).json({ authorizationUrl });
+};
+
+// start linking controller, like startOAuthLogin but the callback connects the provider account to the logged in user
+export const startOAuthLink = async (req: Request, res: Response) => {
+  // early return if req.user is not set by the auth middleware, which means the token was invalid or missing
+  if (!req.user) {
+    res.status(401).json({ message: "Unauthorized" });
+    return;
+  }
+
+  const provider = getOAuthProvider(req.params.provider as string);
+  if (!provider) {
+    res.status(404).json({ message: "Unknown sign in provider" });
+    return;
+  }
+
+  const authorizationUrl = await beginAuthorization(
+    res,
+    provider,
+    req.user.userId,
+  );
+  res.status(200).json({ authorizationUrl });
+};
+
+// callback controller, the provider redirects the browser here after the user signs in
+// always ends with a redirect to the frontend, never a JSON response, because the browser is navigating
+export const oauthCallback = async (req: Request, res: Response) => {
+  const provider = getOAuthProvider(req.params.provider as string);
+  const { code, state, error } = req.query;
+  const cookieState = req.cookies[OAUTH_STATE_COOKIE];
+
+  // the state cookie is single use
+  res.clearCookie(OAUTH_STATE_COOKIE, { path: OAUTH_STATE_COOKIE_PATH });
+
+  if (!provider) {
+    redirectToFrontend(res, { error: "unknown_provider" });
+    return;
+  }
+
+  // the user cancelled or the provider refused, e.g. error=access_denied
+  if (error) {
+    redirectToFrontend(res, { error: "access_denied" });
+    return;
+  }
+
+  // the state must match the cookie set in this browser when the sign in started
+  if (
+    typeof code !== "string" ||
+    typeof state !== "string" ||
+    state !== cookieState
+  ) {
+    redirectToFrontend(res, { error: "invalid_state" });
+    return;
+  }
+
+  // findOneAndDelete is atomic, so the same callback URL can't be used twice
+  const attempt = await OAuthState.findOneAndDelete({
+    state,
+    provider: provider.id,
+    expiresAt: { $gt: new Date() },
+  });
+  if (!attempt) {
+    redirectToFrontend(res, { error: "invalid_state" });
+    return;
+  }
+
+  let profile: OAuthProfile;
+  try {
+    profile = await exchangeCodeForProfile(provider, {
+      code,
+      redirectUri: getOAuthRedirectUri(provider.id),
+      codeVerifier: attempt.codeVerifier,
+      nonce: attempt.nonce,
+    });
+  } catch (error) {
+    // log the details for debugging, but only tell the frontend that it failed
+    logger.warn("OAuth sign in failed", { provider: provider.id, error });
+    redirectToFrontend(res, { error: "oauth_failed" });
+    return;
+  }
+
+  // connecting an account from the Profile page
+  if (attempt.linkUser) {
+    const existing = await LinkedIdentity.findOne({
+      provider: provider.id,
+      subject: profile.subject,
+    });
+    if (existing && !existing.user.equals(attempt.linkUser)) {
+      redirectToFrontend(res, { error: "identity_in_use" });
+      return;
+    }
+    if (!existing) {
+      await LinkedIdentity.create({
+        user: attempt.linkUser,
+        provider: provider.id,
+        subject: profile.subject,
+        email: profile.email,
+      });
+    }
+    redirectToFrontend(res, { linked: provider.id });
+    return;
+  }
+
+  const result = await findOrCreateUser(provider, profile);
+  if ("error" in result) {
+    redirectToFrontend(res, { error: result.error });
+    return;
+  }
+  const { user } = result;
+
+  // an admin disabled the account or required a new password, which signing in with a provider doesn't replace
+  const block = getLoginBlock(user);
+  if (block) {
+    await recordAuthEvent(req, {
+      type: "login",
+      outcome: "failure",
+      user,
+      reason: block.replace(/_/g, "-"),
+      method: "oauth",
+    });
+    redirectToFrontend(res, { error: block });
+    return;
+  }
+
+  // the provider account replaces the password step, two-factor still applies (see loginUser)
+  if (user.twoFactor.enabled && !isTrustedDevice(req, user)) {
+    redirectToFrontend(
+      res,
+      {},
+      {
+        challengeToken: generateTwoFactorChallengeToken(user._id.toString()),
+      },
+    );
+    return;
+  }
+
+  // start a session and set the refresh token cookie, the frontend then calls /refresh to get an access token
+  const session = await startSession(req, res, user);
+  if ("error" in session) {
+    redirectToFrontend(res, { error: session.error });
+    return;
+  }
+  await recordAuthEvent(req, {
+    type: "login",
+    outcome: "success",
+    user,
+    method: "oauth",
+  });
+  redirectToFrontend(res);
+};
+
+// list linked accounts controller
+export const getIdentities = async (req: Request, res: Response) => {
+  // early return if req.user is not set by the auth middleware, which means the token was invalid or missing
+  if (!req.user) {
+    res.status(401).json({ message: "Unauthorized" });
+    return;
+  }
+
+  const identities = await LinkedIdentity.find({ user: req.user.userId }).sort({
+    createdAt: 1,
+  });
+
+  res.status(200).json({ identities: identities.map(formatLinkedIdentity) });
+};
+
+// unlink account controller
+export const unlinkIdentity = async (req: Request, res: Response) => {
+  // early return if req.user is not set by the auth middleware, which means the token was invalid or missing
+  if (!req.user) {
+    res.status(401).json({ message: "Unauthorized" });
+    return;
+  }
+
+  // the id param is already validated as a MongoDB ObjectId by validateIdentityId
+  const identityId = req.params.id as string;
+
+  const result = await LinkedIdentity.deleteOne({
+    _id: identityId,
+    user: req.user.userId,
+  });
+
+  // return 404 for both missing identities and identities owned by someone else
+  if (result.deletedCount === 0) {
+    res.status(404).json({ message: "Linked account not found" });
+    return;
+  }
+
+  // the user can still sign in with their password, or set one with forgot password if they only ever used social login
+  res.status(204).send();
+};
@@ -0,0 +1,531 @@
+import Organization from "../models/Organization.js";
+import type { IOrganization } from "../models/Organization.js";
+import Membership from "../models/Membership.js";
+import OrganizationInvite from "../models/OrganizationInvite.js";
+import User from "../models/User.js";
+import type { Request, Response } from "express";
+import { matchedData } from "express-validator";
+import {
+  createInviteToken,
+  formatOrganization,
+  formatMember,
+  formatInvite,
+  formatInvitation,
+} from "../utils/organizationUtils.js";
+import { hashToken } from "../utils/refreshTokenUtils.js";
+import { createFieldError } from "../utils/errorFormatter.js";
+import { getOrganizationSettings } from "../config/organizationConfig.js";
+import type { OrgRole } from "../config/organizationConfig.js";
+import { sendOrganizationInviteEmail } from "../config/emailConfig.js";
+import { logger } from "../utils/logger.js";
+
+// organization controllers, every route runs verifyJWT first and the ones about one organization run requireOrgRole() too (see organizationRoutes.ts)
+// owners can do everything, admins manage members and invitations but only the owner can promote, demote or remove admins
+
+// list organizations controller, every organization the user belongs to with their role in it
+export const getOrganizations = async (req: Request, res: Response) => {
+  // early return if req.user is not set by the auth middleware, which means the token was invalid or missing
+  if (!req.user) {
+    res.status(401).json({ message: "Unauthorized" });
+    return;
+  }
+
+  const memberships = await Membership.find({ user: req.user.userId })
+    .sort({ createdAt: 1 })
+    .populate<{ organization: IOrganization | null }>("organization");
+
+  res.status(200).json({
+    organizations: memberships
+      // skip memberships whose organization was deleted while this request ran
+      .filter((membership) => membership.organization)
+      .map((membership) =>
+        formatOrganization(membership.organization!, membership.role),
+      ),
+  });
+};
+
+// create organization controller, the user who creates it becomes its owner
+export const createOrganization = async (req: Request, res: Response) => {
+  // early return if req.user is not set by the auth middleware, which means the token was invalid or missing
+  if (!req.user) {
+    res.status(401).json({ message: "Unauthorized" });
+    return;
+  }
+
+  const { name } = matchedData(req) as { name: string };
+
+  const { maxPerUser } = getOrganizationSettings();
+  const existing = await Membership.countDocuments({ user: req.user.userId });
+  if (existing >= maxPerUser) {
+    res.status(400).json({
+      message: `You can belong to at most ${maxPerUser} organizations, leave one first`,
+    });
+    return;
+  }
+
+  const organization = await Organization.create({ name });
+  await Membership.create({
+    organization: organization._id,
+    user: req.user.userId,
+    role: "owner",
+  });
+
+  res
+    .status(201)
+    .json({ organization: formatOrganization(organization, "owner") });
+};
+
+// get organization controller
+export const getOrganization = async (req: Request, res: Response) => {
+  // early return if requireOrgRole didn't set the membership, which means it didn't run before this controller
+  if (!req.user || !req.membership) {
+    res.status(401).json({ message: "Unauthorized" });
+    return;
+  }
+
+  const organization = await Organization.findById(req.membership.organization);
+  if (!organization) {
+    res.status(404).json({ message: "Organization not found" });
+    return;
+  }
+
+  res.status(200).json({
+    organization: formatOrganization(organization, req.membership.role),
+  });
+};
+
+// rename organization controller, owners and admins only
+export const updateOrganization = async (req: Request, res: Response) => {
+  // early return if requireOrgRole didn't set the membership, which means it didn't run before this controller
+  if (!req.user || !req.membership) {
+    res.status(401).json({ message: "Unauthorized" });
+    return;
+  }
+
+  const { name } = matchedData(req, { locations: ["body"] }) as {
+    name: string;
+  };
+
+  const organization = await Organization.findByIdAndUpdate(
+    req.membership.organization,
+    { name },
+    { new: true, runValidators: true },
+  );
+  if (!organization) {
+    res.status(404).json({ message: "Organization not found" });
+    return;
+  }
+
+  res.status(200).json({
+    organization: formatOrganization(organization, req.membership.role),
+  });
+};
+
+// delete organization controller, owner only, removes every membership and invitation with it
+export const deleteOrganization = async (req: Request, res: Response) => {
+  // early return if requireOrgRole didn't set the membership, which means it didn't run before this controller
+  if (!req.user || !req.membership) {
+    res.status(401).json({ message: "Unauthorized" });
+    return;
+  }
+
+  const organizationId = req.membership.organization;
+  await Organization.deleteOne({ _id: organizationId });
+  await OrganizationInvite.deleteMany({ organization: organizationId });
+  await Membership.deleteMany({ organization: organizationId });
+
+  res.status(204).send();
+};
+
+// list members controller, any member can see who else belongs
+export const getMembers = async (req: Request, res: Response) => {
+  // early return if requireOrgRole didn't set the membership, which means it didn't run before this controller
+  if (!req.user || !req.membership) {
+    res.status(401).json({ message: "Unauthorized" });
+    return;
+  }
+
+  const memberships = await Membership.find({
+    organization: req.membership.organization,
+  })
+    .sort({ createdAt: 1 })
+    .populate("user", "name email");
+
+  res.status(200).json({
+    // skip members whose account was purged while this request ran
+    members: memberships
+      .filter((membership) => membership.user)
+      .map(formatMember),
+  });
+};
+
+// whether the acting member may change or remove a member with this role, only the owner manages admins
+const canManageRole = (actorRole: OrgRole, targetRole: OrgRole) =>
+  actorRole === "owner" || (actorRole === "admin" && targetRole === "member");
+
+// change member role controller, owners and admins only, the owner's role only changes with a transfer
+export const updateMemberRole = async (req: Request, res: Response) => {
+  // early return if requireOrgRole didn't set the membership, which means it didn't run before this controller
+  if (!req.user || !req.membership) {
+    res.status(401).json({ message: "Unauthorized" });
+    return;
+  }
+
+  const { userId, role } = matchedData(req) as {
+    userId: string;
+    role: OrgRole;
+  };
+
+  const membership = await Membership.findOne({
+    organization: req.membership.organization,
+    user: userId,
+  });
+  if (!membership) {
+    res.status(404).json({ message: "Member not found" });
+    return;
+  }
+
+  if (membership.role === "owner") {
+    res.status(400).json({
+      message: "Transfer ownership to change the owner's role",
+    });
+    return;
+  }
+
+  // an admin can't promote someone to their own level or change another admin
+  if (
+    !canManageRole(req.membership.role, membership.role) ||
+    !canManageRole(req.membership.role, role)
+  ) {
+    res.status(403).json({ message: "Only the owner can change admins" });
+    return;
+  }
+
+  membership.role = role;
+  await membership.save();
+  await membership.populate("user", "name email");
+
+  res.status(200).json({ member: formatMember(membership) });
+};
+
+// remove member controller, owners and admins can remove others and anyone can remove themselves to leave
+export const removeMember = async (req: Request, res: Response) => {
+  // early return if requireOrgRole didn't set the membership, which means it didn't run before this controller
+  if (!req.user || !req.membership) {
+    res.status(401).json({ message: "Unauthorized" });
+    return;
+  }
+
+  const { userId } = matchedData(req) as { userId: string };
+  const leaving = userId === req.user.userId;
+
+  const membership = await Membership.findOne({
+    organization: req.membership.organization,
+    user: userId,
+  });
+  if (!membership) {
+    res.status(404).json({ message: "Member not found" });
+    return;
+  }
+
+  // the organization always has an owner, so they hand it over (or delete the organization) before leaving
+  if (membership.role === "owner") {
+    res.status(400).json({
+      message: leaving
+        ? "Transfer ownership before leaving the organization"
+        : "The owner can't be removed",
+    });
+    return;
+  }
+
+  if (!leaving && !canManageRole(req.membership.role, membership.role)) {
+    res.status(403).json({ message: "Forbidden" });
+    return;
+  }
+
+  await membership.deleteOne();
+
+  res.status(204).send();
+};
+
+// transfer ownership controller, owner only, the old owner stays on as an admin
+export const transferOwnership = async (req: Request, res: Response) => {
+  // early return if requireOrgRole didn't set the membership, which means it didn't run before this controller
+  if (!req.user || !req.membership) {
+    res.status(401).json({ message: "Unauthorized" });
+    return;
+  }
+
+  const { userId } = matchedData(req, { locations: ["body"] }) as {
+    userId: string;
+  };
+
+  const membership = await Membership.findOne({
+    organization: req.membership.organization,
+    user: userId,
+  });
+  if (!membership || userId === req.user.userId) {
+    res.status(400).json({
+      message: "Validation errors",
+      errors: [
+        createFieldError("userId", "Choose another member of the organization"),
+      ],
+    });
+    return;
+  }
+
+  // demote the owner only if they still are one, so two transfers at the same time can't both go through and leave two owners
+  const demoted = await Membership.findOneAndUpdate(
+    { _id: req.membership._id, role: "owner" },
+    { role: "admin" },
+  );
+  if (!demoted) {
+    res.status(409).json({ message: "Ownership was already transferred" });
+    return;
+  }
+
+  // then promote the new owner, if they left the organization in the meantime the old owner keeps it
+  const { modifiedCount } = await Membership.updateOne(
+    { _id: membership._id, role: { $ne: "owner" } },
+    { role: "owner" },
+  );
+  if (modifiedCount === 0) {
+    await Membership.updateOne({ _id: req.membership._id }, { role: "owner" });
+    res.status(400).json({
+      message: "Validation errors",
+      errors: [
+        createFieldError("userId", "Choose another member of the organization"),
+      ],
+    });
+    return;
+  }
+
+  res.status(200).json({ message: "Ownership transferred" });
+};
+
+// list invitations controller, owners and admins only
+export const getInvites = async (req: Request, res: Response) => {
+  // early return if requireOrgRole didn't set the membership, which means it didn't run before this controller
+  if (!req.user || !req.membership) {
+    res.status(401).json({ message: "Unauthorized" });
+    return;
+  }
+
+  const invites = await OrganizationInvite.find({
+    organization: req.membership.organization,
+    expiresAt: { $gt: new Date() },
+  })
+    .sort({ createdAt: -1 })
+    .populate("invitedBy", "name");
+
+  res.status(200).json({ invites: invites.map(formatInvite) });
+};
+
+// invite by email controller, owners and admins only, emails a link with a single-use token
+// inviting the same address again replaces the earlier invitation
+export const createInvite = async (req: Request, res: Response) => {
+  // early return if requireOrgRole didn't set the membership, which means it didn't run before this controller
+  if (!req.user || !req.membership) {
+    res.status(401).json({ message: "Unauthorized" });
+    return;
+  }
+
+  const { email, role } = matchedData(req, { locations: ["body"] }) as {
+    email: string;
+    role: OrgRole;
+  };
+  const normalizedEmail = email.trim().toLowerCase();
+
+  // only the owner can bring in new admins, the same rule as changing a member's role
+  if (!canManageRole(req.membership.role, role)) {
+    res.status(403).json({ message: "Only the owner can invite admins" });
+    return;
+  }
+
+  const organization = await Organization.findById(req.membership.organization);
+  if (!organization) {
+    res.status(404).json({ message: "Organization not found" });
+    return;
+  }
+
+  // emails are stored lowercase (see models/User.ts), so this is an exact match on the unique index
+  const existingUser = await User.findOne({ email: normalizedEmail });
+  if (
+    existingUser &&
+    (await Membership.exists({
+      organization: organization._id,
+      user: existingUser._id,
+    }))
+  ) {
+    res.status(400).json({
+      message: "Validation errors",
+      errors: [createFieldError("email", "This person is already a member")],
+    });
+    return;
+  }
+
+  await OrganizationInvite.deleteMany({
+    organization: organization._id,
+    email: normalizedEmail,
+  });
+  const { token, tokenHash } = createInviteToken();
+  const invite = await OrganizationInvite.create({
+    organization: organization._id,
+    email: normalizedEmail,
+    role,
+    tokenHash,
+    invitedBy: req.user.userId,
+    expiresAt: new Date(Date.now() + getOrganizationSettings().inviteTtlMs),
+  });
+  await invite.populate("invitedBy", "name");
+
+  const inviterName =
+    (invite.invitedBy as unknown as { name: string } | null)?.name ?? "Someone";
+  sendOrganizationInviteEmail(
+    normalizedEmail,
+    organization.name,
+    inviterName,
+    token,
+    invite.expiresAt,
+  ).catch((error) => {
+    logger.error("Failed to send organization invite email", { error });
+  });
+
+  res.status(201).json({ invite: formatInvite(invite) });
+};
+
+// revoke invitation controller, owners and admins only
+export const revokeInvite = async (req: Request, res: Response) => {
+  // early return if requireOrgRole didn't set the membership, which means it didn't run before this controller
+  if (!req.user || !req.membership) {
+    res.status(401).json({ message: "Unauthorized" });
+    return;
+  }
+
+  const { inviteId } = matchedData(req) as { inviteId: string };
+  const result = await OrganizationInvite.deleteOne({
+    _id: inviteId,
+    organization: req.membership.organization,
+  });
+  if (result.deletedCount === 0) {
+    res.status(404).json({ message: "Invitation not found" });
+    return;
+  }
+
+  res.status(204).send();
+};
+
+// find the invitation for the token from an emailed link, it has to be addressed to the logged in user's email
+// responds with the error and returns null when it can't be used
+const findInviteForUser = async (req: Request, res: Response) => {
+  const { token } = matchedData(req) as { token: string };
+
+  const invite = await OrganizationInvite.findOne({
+    tokenHash: hashToken(token),
+    expiresAt: { $gt: new Date() },
+  }).populate("invitedBy", "name");
+  const organization = invite
+    ? await Organization.findById(invite.organization)
+    : null;
+  if (!invite || !organization) {
+    res.status(400).json({ message: "Invalid or expired invitation" });
+    return null;
+  }
+
+  // the link was sent to one address, so a forwarded link can't be used by someone else
+  if (invite.email !== req.user!.email.toLowerCase()) {
+    res.status(403).json({
+      message: `This invitation was sent to ${invite.email}, log in with that email address to answer it`,
+    });
+    return null;
+  }
+
+  return { invite, organization };
+};
+
+// get invitation controller, shows the person it was sent to what they're being invited to
+export const getInvitation = async (req: Request, res: Response) => {
+  // early return if req.user is not set by the auth middleware, which means the token was invalid or missing
+  if (!req.user) {
+    res.status(401).json({ message: "Unauthorized" });
+    return;
+  }
+
+  const found = await findInviteForUser(req, res);
+  if (!found) return;
+
+  res.status(200).json({
+    invitation: formatInvitation(found.invite, found.organization),
+  });
+};
+
+// accept invitation controller, joins the organization with the invited role
+export const acceptInvitation = async (req: Request, res: Response) => {
+  // early return if req.user is not set by the auth middleware, which means the token was invalid or missing
+  if (!req.user) {
+    res.status(401).json({ message: "Unauthorized" });
+    return;
+  }
+
+  const found = await findInviteForUser(req, res);
+  if (!found) return;
+  const { invite, organization } = found;
+
+  const { maxPerUser } = getOrganizationSettings();
+  const memberships = await Membership.countDocuments({
+    user: req.user.userId,
+  });
+  if (memberships >= maxPerUser) {
+    res.status(400).json({
+      message: `You can belong to at most ${maxPerUser} organizations, leave one first`,
+    });
+    return;
+  }
+
+  // findOneAndDelete is atomic, so opening the link twice at the same time only joins once
+  const claimed = await OrganizationInvite.findOneAndDelete({
+    _id: invite._id,
+  });
+  if (!claimed) {
+    res.status(400).json({ message: "Invalid or expired invitation" });
+    return;
+  }
+
+  // already a member (e.g. joined with an earlier link), keep the current role rather than changing it
+  const existing = await Membership.findOne({
+    organization: organization._id,
+    user: req.user.userId,
+  });
+  if (existing) {
+    res.status(200).json({
+      organization: formatOrganization(organization, existing.role),
+    });
+    return;
+  }
+
+  const membership = await Membership.create({
+    organization: organization._id,
+    user: req.user.userId,
+    role: invite.role,
+  });
+
+  res.status(200).json({
+    organization: formatOrganization(organization, membership.role),
+  });
+};
+
+// decline invitation controller, deletes it so the link stops working
+export const declineInvitation = async (req: Request, res: Response) => {
+  // early return if req.user is not set by the auth middleware, which means the token was invalid or missing
+  if (!req.user) {
+    res.status(401).json({ message: "Unauthorized" });
+    return;
+  }
+
+  const found = await findInviteForUser(req, res);
+  if (!found) return;
+
+  await OrganizationInvite.deleteOne({ _id: found.invite._id });
+
+  res.status(204).send();
+};
@@ -0,0 +1,296 @@
+import User from "../models/User.js";
+import Passkey from "../models/Passkey.js";
+import type { Request, Response } from "express";
+import {
+  generateRegistrationOptions,
+  verifyRegistrationResponse,
+  generateAuthenticationOptions,
+  verifyAuthenticationResponse,
+} from "@simplewebauthn/server";
+import type {
+  AuthenticatorTransportFuture,
+  AuthenticationResponseJSON,
+  RegistrationResponseJSON,
+} from "@simplewebauthn/server";
+import { getRelyingParty } from "../config/passkeyConfig.js";
+import {
+  PASSKEY_CHALLENGE_TTL_MS,
+  saveChallenge,
+  consumeChallenge,
+  formatPasskey,
+} from "../utils/passkeyUtils.js";
+import { formatUserWithoutPassword } from "../utils/tokenUtils.js";
+import { sendLoginBlockResponse, startSession } from "../utils/sessionUtils.js";
+import { recordAuthEvent } from "../utils/authEvents.js";
+import { logger } from "../utils/logger.js";
+
+// NOTE: a passkey login skips two-factor authentication, a passkey already combines something you have (the device)
+// with something you are or know (the fingerprint, face or PIN that unlocks it)
+// that only holds when the authenticator checked the user, so user verification is required, not just preferred
+
+// the generic error for every failed passkey login, so responses don't reveal which passkeys exist
+const passkeyLoginError = "Passkey sign in failed";
+
+// get passkey registration options controller, the browser passes these to navigator.credentials.create()
+export const getRegistrationOptions = async (req: Request, res: Response) => {
+  // early return if req.user is not set by the auth middleware, which means the token was invalid or missing
+  if (!req.user) {
+    res.status(401).json({ message: "Unauthorized" });
+    return;
+  }
+
+  const user = await User.findById(req.user.userId);
+  if (!user) {
+    res.status(404).json({ message: "User not found" });
+    return;
+  }
+
+  const relyingParty = getRelyingParty();
+  const existingPasskeys = await Passkey.find({ user: user._id });
+
+  const options = await generateRegistrationOptions({
+    rpName: relyingParty.name,
+    rpID: relyingParty.id,
+    // the user handle is the user id, it comes back with every login so we know who is signing in
+    userID: new TextEncoder().encode(user._id.toString()),
+    userName: user.email,
+    userDisplayName: user.name,
+    timeout: PASSKEY_CHALLENGE_TTL_MS,
+    attestationType: "none",
+    // stop the same authenticator from being registered twice
+    excludeCredentials: existingPasskeys.map((passkey) => ({
+      id: passkey.credentialId,
+      transports: passkey.transports as AuthenticatorTransportFuture[],
+    })),
+    // resident (discoverable) keys let the user sign in without typing their email first
+    authenticatorSelection: {
+      residentKey: "required",
+      userVerification: "required",
+    },
+  });
+
+  await saveChallenge(options.challenge, "registration", user._id.toString());
+
+  res.status(200).json(options);
+};
+
+// verify passkey registration controller, stores the new credential's public key
+export const verifyRegistration = async (req: Request, res: Response) => {
+  // early return if req.user is not set by the auth middleware, which means the token was invalid or missing
+  if (!req.user) {
+    res.status(401).json({ message: "Unauthorized" });
+    return;
+  }
+
+  const userId = req.user.userId;
+  const { name } = req.body;
+  const response = req.body.response as RegistrationResponseJSON;
+  const relyingParty = getRelyingParty();
+
+  // the library throws when the response is malformed or doesn't match what we expect (origin, challenge, etc.)
+  let verification;
+  try {
+    verification = await verifyRegistrationResponse({
+      response,
+      expectedChallenge: (challenge) =>
+        consumeChallenge(challenge, "registration", userId),
+      expectedOrigin: relyingParty.origin,
+      expectedRPID: relyingParty.id,
+      requireUserVerification: true,
+    });
+  } catch (error) {
+    logger.warn("Passkey registration failed", { error });
+    res.status(400).json({ message: "Passkey registration failed" });
+    return;
+  }
+
+  if (!verification.verified) {
+    res.status(400).json({ message: "Passkey registration failed" });
+    return;
+  }
+
+  const { credential, credentialDeviceType, credentialBackedUp } =
+    verification.registrationInfo;
+
+  // excludeCredentials should stop this, but the browser is free to ignore it
+  if (await Passkey.exists({ credentialId: credential.id })) {
+    res.status(409).json({ message: "This passkey is already registered" });
+    return;
+  }
+
+  const passkey = await Passkey.create({
+    user: userId,
+    credentialId: credential.id,
+    publicKey: Buffer.from(credential.publicKey),
+    counter: credential.counter,
+    transports: credential.transports ?? [],
+    name: name || "Passkey",
+    deviceType: credentialDeviceType,
+    backedUp: credentialBackedUp,
+  });
+
+  res.status(201).json({ passkey: formatPasskey(passkey) });
+};
+
+// list passkeys controller
+export const getPasskeys = async (req: Request, res: Response) => {
+  // early return if req.user is not set by the auth middleware, which means the token was invalid or missing
+  if (!req.user) {
+    res.status(401).json({ message: "Unauthorized" });
+    return;
+  }
+
+  const passkeys = await Passkey.find({ user: req.user.userId }).sort({
+    createdAt: 1,
+  });
+
+  res.status(200).json({ passkeys: passkeys.map(formatPasskey) });
+};
+
+// rename passkey controller
+export const renamePasskey = async (req: Request, res: Response) => {
+  // early return if req.user is not set by the auth middleware, which means the token was invalid or missing
+  if (!req.user) {
+    res.status(401).json({ message: "Unauthorized" });
+    return;
+  }
+
+  // the id param is already validated as a MongoDB ObjectId by validatePasskeyId
+  const passkeyId = req.params.id as string;
+
+  // only look among the user's own passkeys, so users can't rename each other's passkeys
+  const passkey = await Passkey.findOneAndUpdate(
+    { _id: passkeyId, user: req.user.userId },
+    { name: req.body.name },
+    { new: true, runValidators: true },
+  );
+
+  if (!passkey) {
+    res.status(404).json({ message: "Passkey not found" });
+    return;
+  }
+
+  res.status(200).json({ passkey: formatPasskey(passkey) });
+};
+
+// delete passkey controller
+export const deletePasskey = async (req: Request, res: Response) => {
+  // early return if req.user is not set by the auth middleware, which means the token was invalid or missing
+  if (!req.user) {
+    res.status(401).json({ message: "Unauthorized" });
+    return;
+  }
+
+  // the id param is already validated as a MongoDB ObjectId by validatePasskeyId
+  const passkeyId = req.params.id as string;
+
+  const result = await Passkey.deleteOne({
+    _id: passkeyId,
+    user: req.user.userId,
+  });
+
+  // return 404 for both missing passkeys and passkeys owned by someone else
+  if (result.deletedCount === 0) {
+    res.status(404).json({ message: "Passkey not found" });
+    return;
+  }
+
+  // the password still works, so deleting the last passkey can't lock the user out
+  res.status(204).send();
+};
+
+// get passkey login options controller, the browser passes these to navigator.credentials.get()
+export const getAuthenticationOptions = async (
+  _req: Request,
+  res: Response,
+) => {
+  const relyingParty = getRelyingParty();
+
+  // no allowCredentials, so the browser offers every passkey it has for this site and the user picks one
+  const options = await generateAuthenticationOptions({
+    rpID: relyingParty.id,
+    timeout: PASSKEY_CHALLENGE_TTL_MS,
+    userVerification: "required",
+  });
+
+  await saveChallenge(options.challenge, "authentication");
+
+  res.status(200).json(options);
+};
+
+// verify passkey login controller, checks the signature and logs the user in
+export const verifyAuthentication = async (req: Request, res: Response) => {
+  const response = req.body.response as AuthenticationResponseJSON;
+  const relyingParty = getRelyingParty();
+
+  // find the passkey the browser used, the credential id is in the response
+  const passkey = await Passkey.findOne({ credentialId: response.id });
+  if (!passkey) {
+    res.status(401).json({ message: passkeyLoginError });
+    return;
+  }
+
+  // the library throws when the response is malformed or the signature doesn't check out
+  let verification;
+  try {
+    verification = await verifyAuthenticationResponse({
+      response,
+      expectedChallenge: (challenge) =>
+        consumeChallenge(challenge, "authentication"),
+      expectedOrigin: relyingParty.origin,
+      expectedRPID: relyingParty.id,
+      credential: {
+        id: passkey.credentialId,
+        publicKey: new Uint8Array(passkey.publicKey),
+        counter: passkey.counter,
+        transports: passkey.transports as AuthenticatorTransportFuture[],
+      },
+      requireUserVerification: true,
+    });
+  } catch (error) {
+    logger.warn("Passkey sign in failed", { error });
+    res.status(401).json({ message: passkeyLoginError });
+    return;
+  }
+
+  if (!verification.verified) {
+    res.status(401).json({ message: passkeyLoginError });
+    return;
+  }
+
+  const user = await User.findById(passkey.user);
+  if (!user) {
+    res.status(401).json({ message: passkeyLoginError });
+    return;
+  }
+
+  // store the new signature counter, the library rejects a counter that didn't go up (a sign of a cloned key)
+  passkey.counter = verification.authenticationInfo.newCounter;
+  passkey.backedUp = verification.authenticationInfo.credentialBackedUp;
+  passkey.lastUsedAt = new Date();
+  await passkey.save();
+
+  // start a session for this device and set the refresh token cookie, the same as a password login
+  // a disabled account or one that needs a new password is refused, the passkey proved who it is so it's safe to say why
+  const session = await startSession(req, res, user);
+  if ("error" in session) {
+    await recordAuthEvent(req, {
+      type: "login",
+      outcome: "failure",
+      user,
+      reason: session.error.replace(/_/g, "-"),
+      method: "passkey",
+    });
+    sendLoginBlockResponse(res, session.error);
+    return;
+  }
+  const { token } = session;
+  await recordAuthEvent(req, {
+    type: "login",
+    outcome: "success",
+    user,
+    method: "passkey",
+  });
+
+  res.status(200).json({ token, user: formatUserWithoutPassword(user) });
+};
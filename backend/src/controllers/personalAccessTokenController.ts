@@ -0,0 +1,117 @@
+import PersonalAccessToken from "../models/PersonalAccessToken.js";
+import type { Request, Response } from "express";
+import { matchedData } from "express-validator";
+import {
+  createTokenSecret,
+  formatPersonalAccessToken,
+} from "../utils/personalAccessTokens.js";
+import { getPersonalAccessTokenSettings } from "../config/personalAccessTokenConfig.js";
+import type { TokenScope } from "../config/personalAccessTokenConfig.js";
+import { recordAuthEvent } from "../utils/authEvents.js";
+
+// NOTE: these routes use verifyJWT rather than authenticate, so only a logged in user can manage their tokens,
+// never a script holding one of them
+
+// list personal access tokens controller
+export const getPersonalAccessTokens = async (req: Request, res: Response) => {
+  // early return if req.user is not set by the auth middleware, which means the token was invalid or missing
+  if (!req.user) {
+    res.status(401).json({ message: "Unauthorized" });
+    return;
+  }
+
+  const personalAccessTokens = await PersonalAccessToken.find({
+    user: req.user.userId,
+    expiresAt: { $gt: new Date() },
+  }).sort({ createdAt: -1 });
+
+  res.status(200).json({
+    personalAccessTokens: personalAccessTokens.map(formatPersonalAccessToken),
+  });
+};
+
+// create personal access token controller, the response is the only time the token itself is ever shown
+export const createPersonalAccessToken = async (
+  req: Request,
+  res: Response,
+) => {
+  // early return if req.user is not set by the auth middleware, which means the token was invalid or missing
+  if (!req.user) {
+    res.status(401).json({ message: "Unauthorized" });
+    return;
+  }
+
+  const { name, scopes, expiresInDays } = matchedData(req) as {
+    name: string;
+    scopes: TokenScope[];
+    expiresInDays: number;
+  };
+
+  const { maxPerUser } = getPersonalAccessTokenSettings();
+  const existing = await PersonalAccessToken.countDocuments({
+    user: req.user.userId,
+    expiresAt: { $gt: new Date() },
+  });
+  if (existing >= maxPerUser) {
+    res.status(400).json({
+      message: `You can have at most ${maxPerUser} personal access tokens, delete one first`,
+    });
+    return;
+  }
+
+  const { token, tokenHash, prefix } = createTokenSecret();
+  const personalAccessToken = await PersonalAccessToken.create({
+    user: req.user.userId,
+    name,
+    tokenHash,
+    prefix,
+    // the same scope listed twice is only stored once
+    scopes: [...new Set(scopes)],
+    expiresAt: new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000),
+  });
+
+  await recordAuthEvent(req, {
+    type: "token-create",
+    outcome: "success",
+    user: { _id: req.user.userId, email: req.user.email },
+  });
+
+  res.status(201).json({
+    personalAccessToken: formatPersonalAccessToken(personalAccessToken),
+    token,
+  });
+};
+
+// delete personal access token controller, the token stops working straight away
+export const deletePersonalAccessToken = async (
+  req: Request,
+  res: Response,
+) => {
+  // early return if req.user is not set by the auth middleware, which means the token was invalid or missing
+  if (!req.user) {
+    res.status(401).json({ message: "Unauthorized" });
+    return;
+  }
+
+  // the id param is already validated as a MongoDB ObjectId by validatePersonalAccessTokenId
+  const tokenId = req.params.id as string;
+
+  const result = await PersonalAccessToken.deleteOne({
+    _id: tokenId,
+    user: req.user.userId,
+  });
+
+  // return 404 for both missing tokens and tokens owned by someone else
+  if (result.deletedCount === 0) {
+    res.status(404).json({ message: "Token not found" });
+    return;
+  }
+
+  await recordAuthEvent(req, {
+    type: "token-delete",
+    outcome: "success",
+    user: { _id: req.user.userId, email: req.user.email },
+  });
+
+  res.status(204).send();
+};
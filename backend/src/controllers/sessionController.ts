@@ -0,0 +1,88 @@
+import Session from "../models/Session.js";
+import type { Request, Response } from "express";
+import { formatSession } from "../utils/sessionUtils.js";
+import { revokeTokenFamily } from "../utils/refreshTokenUtils.js";
+
+// NOTE: revoking a session revokes its refresh tokens right away, but access tokens already issued for it
+// stay valid until they expire (15 minutes), because verifyJWT only checks that the account isn't disabled, not the session
+
+// list sessions controller
+export const getSessions = async (req: Request, res: Response) => {
+  // early return if req.user is not set by the auth middleware, which means the token was invalid or missing
+  if (!req.user) {
+    res.status(401).json({ message: "Unauthorized" });
+    return;
+  }
+
+  // find every active session for the user, most recently used first
+  const sessions = await Session.find({
+    user: req.user.userId,
+    revokedAt: null,
+    expiresAt: { $gt: new Date() },
+  }).sort({ lastUsedAt: -1 });
+
+  // return the sessions, flagging the one that made this request
+  res.status(200).json({
+    sessions: sessions.map((session) =>
+      formatSession(session, req.user?.sessionId),
+    ),
+  });
+};
+
+// revoke a single session controller
+export const revokeSession = async (req: Request, res: Response) => {
+  // early return if req.user is not set by the auth middleware, which means the token was invalid or missing
+  if (!req.user) {
+    res.status(401).json({ message: "Unauthorized" });
+    return;
+  }
+
+  // the id param is already validated as a MongoDB ObjectId by validateSessionId
+  const sessionId = req.params.id as string;
+
+  // only look for the session among the user's own sessions, so users can't revoke each other's sessions
+  const session = await Session.findOne({
+    _id: sessionId,
+    user: req.user.userId,
+    revokedAt: null,
+  });
+
+  // return 404 for both missing sessions and sessions owned by someone else
+  if (!session) {
+    res.status(404).json({ message: "Session not found" });
+    return;
+  }
+
+  // revoking the token family ends the session and every refresh token issued for it
+  await revokeTokenFamily(session._id.toString(), "revoked");
+
+  // if the user revoked the session they're using right now, also clear their refresh token cookie
+  if (session._id.toString() === req.user.sessionId) {
+    res.clearCookie("refreshToken");
+  }
+
+  res.status(204).send();
+};
+
+// revoke all other sessions controller ("sign out everywhere else")
+export const revokeOtherSessions = async (req: Request, res: Response) => {
+  // early return if req.user is not set by the auth middleware, which means the token was invalid or missing
+  if (!req.user) {
+    res.status(401).json({ message: "Unauthorized" });
+    return;
+  }
+
+  // find every active session for the user
+  const sessions = await Session.find({
+    user: req.user.userId,
+    revokedAt: null,
+  });
+
+  // revoke each session's token family, skipping the session making this request
+  for (const session of sessions) {
+    if (session._id.toString() === req.user.sessionId) continue;
+    await revokeTokenFamily(session._id.toString(), "revoked");
+  }
+
+  res.status(204).send();
+};
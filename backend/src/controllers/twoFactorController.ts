@@ -0,0 +1,304 @@
+import User from "../models/User.js";
+import type { Request, Response } from "express";
+import QRCode from "qrcode";
+import {
+  formatUserWithoutPassword,
+  verifyTwoFactorChallengeToken,
+  generateTrustedDeviceToken,
+  setTrustedDeviceCookie,
+} from "../utils/tokenUtils.js";
+import {
+  generateTotpSecret,
+  verifyTotpCode,
+  buildOtpauthUri,
+  generateBackupCodes,
+} from "../utils/totpUtils.js";
+import {
+  TWO_FACTOR_SECRET_FIELDS,
+  hashBackupCodes,
+  verifySecondFactor,
+} from "../utils/twoFactorUtils.js";
+import {
+  getLoginBlock,
+  sendLoginBlockResponse,
+  startSession,
+} from "../utils/sessionUtils.js";
+import {
+  getLoginThrottleKeys,
+  getLockoutRemainingSeconds,
+  recordLoginFailure,
+  resetLoginFailures,
+  sendLockoutResponse,
+} from "../utils/bruteForceProtection.js";
+import { createFieldError } from "../utils/errorFormatter.js";
+import { recordAuthEvent } from "../utils/authEvents.js";
+import { getTotpIssuer } from "../config/twoFactorConfig.js";
+
+// start two-factor setup controller, generates a secret the user adds to their authenticator app
+export const setupTwoFactor = async (req: Request, res: Response) => {
+  // early return if req.user is not set by the auth middleware, which means the token was invalid or missing
+  if (!req.user) {
+    res.status(401).json({ message: "Unauthorized" });
+    return;
+  }
+
+  const user = await User.findById(req.user.userId).select(
+    TWO_FACTOR_SECRET_FIELDS,
+  );
+  if (!user) {
+    res.status(404).json({ message: "User not found" });
+    return;
+  }
+
+  if (user.twoFactor.enabled) {
+    res
+      .status(400)
+      .json({ message: "Two-factor authentication is already enabled" });
+    return;
+  }
+
+  // the secret stays pending until the user proves their app works by confirming a code, calling setup again replaces it
+  const secret = generateTotpSecret();
+  user.twoFactor.pendingSecret = secret;
+  await user.save();
+
+  // return the secret as text too, for users who can't scan the QR code
+  const otpauthUri = buildOtpauthUri(secret, user.email, getTotpIssuer());
+  const qrCode = await QRCode.toDataURL(otpauthUri);
+
+  res.status(200).json({ secret, otpauthUri, qrCode });
+};
+
+// confirm two-factor setup controller, turns two-factor on once the first code from the app checks out
+export const confirmTwoFactor = async (req: Request, res: Response) => {
+  // early return if req.user is not set by the auth middleware, which means the token was invalid or missing
+  if (!req.user) {
+    res.status(401).json({ message: "Unauthorized" });
+    return;
+  }
+
+  const { code } = req.body;
+
+  const user = await User.findById(req.user.userId).select(
+    TWO_FACTOR_SECRET_FIELDS,
+  );
+  if (!user) {
+    res.status(404).json({ message: "User not found" });
+    return;
+  }
+
+  if (user.twoFactor.enabled) {
+    res
+      .status(400)
+      .json({ message: "Two-factor authentication is already enabled" });
+    return;
+  }
+
+  const pendingSecret = user.twoFactor.pendingSecret;
+  if (!pendingSecret) {
+    res
+      .status(400)
+      .json({ message: "Start two-factor authentication setup first" });
+    return;
+  }
+
+  const step = verifyTotpCode(pendingSecret, code);
+  if (step === null) {
+    res.status(400).json({
+      message: "Validation errors",
+      errors: [createFieldError("code", "Invalid code")],
+    });
+    return;
+  }
+
+  // backup codes are only ever shown here and when regenerated, we store bcrypt hashes
+  const backupCodes = generateBackupCodes();
+
+  user.twoFactor = {
+    enabled: true,
+    secret: pendingSecret,
+    pendingSecret: null,
+    backupCodeHashes: await hashBackupCodes(backupCodes),
+    lastUsedStep: step, // the confirmation code counts as used
+    enabledAt: new Date(),
+  };
+  await user.save();
+
+  res.status(200).json({
+    message: "Two-factor authentication enabled",
+    backupCodes,
+    user: formatUserWithoutPassword(user),
+  });
+};
+
+// disable two-factor controller, requires the password and a current code so a stolen session can't turn it off
+export const disableTwoFactor = async (req: Request, res: Response) => {
+  // early return if req.user is not set by the auth middleware, which means the token was invalid or missing
+  if (!req.user) {
+    res.status(401).json({ message: "Unauthorized" });
+    return;
+  }
+
+  const { password, code } = req.body;
+
+  const user = await User.findById(req.user.userId).select(
+    TWO_FACTOR_SECRET_FIELDS,
+  );
+  if (!user) {
+    res.status(404).json({ message: "User not found" });
+    return;
+  }
+
+  if (!user.twoFactor.enabled) {
+    res
+      .status(400)
+      .json({ message: "Two-factor authentication is not enabled" });
+    return;
+  }
+
+  if (!(await user.comparePassword(password))) {
+    res.status(400).json({
+      message: "Validation errors",
+      errors: [createFieldError("password", "Password is incorrect")],
+    });
+    return;
+  }
+
+  if (!(await verifySecondFactor(user, code))) {
+    res.status(400).json({
+      message: "Validation errors",
+      errors: [createFieldError("code", "Invalid code")],
+    });
+    return;
+  }
+
+  // clear everything, enabling again starts from a fresh secret and new backup codes
+  user.twoFactor = {
+    enabled: false,
+    secret: null,
+    pendingSecret: null,
+    backupCodeHashes: [],
+    lastUsedStep: null,
+    enabledAt: null,
+  };
+  await user.save();
+
+  // a remembered device means nothing without two-factor
+  res.clearCookie("trustedDevice");
+
+  res.status(200).json({
+    message: "Two-factor authentication disabled",
+    user: formatUserWithoutPassword(user),
+  });
+};
+
+// regenerate backup codes controller, replaces every unused code with a new set
+export const regenerateBackupCodes = async (req: Request, res: Response) => {
+  // early return if req.user is not set by the auth middleware, which means the token was invalid or missing
+  if (!req.user) {
+    res.status(401).json({ message: "Unauthorized" });
+    return;
+  }
+
+  const { code } = req.body;
+
+  const user = await User.findById(req.user.userId).select(
+    TWO_FACTOR_SECRET_FIELDS,
+  );
+  if (!user) {
+    res.status(404).json({ message: "User not found" });
+    return;
+  }
+
+  if (!user.twoFactor.enabled) {
+    res
+      .status(400)
+      .json({ message: "Two-factor authentication is not enabled" });
+    return;
+  }
+
+  if (!(await verifySecondFactor(user, code))) {
+    res.status(400).json({
+      message: "Validation errors",
+      errors: [createFieldError("code", "Invalid code")],
+    });
+    return;
+  }
+
+  const backupCodes = generateBackupCodes();
+  user.twoFactor.backupCodeHashes = await hashBackupCodes(backupCodes);
+  await user.save();
+
+  res.status(200).json({ backupCodes });
+};
+
+// second step of login controller, exchanges the challenge token from /login and a code for real tokens
+export const verifyTwoFactorLogin = async (req: Request, res: Response) => {
+  const { challengeToken, code, rememberDevice } = req.body;
+
+  // the challenge token proves the password step passed in the last few minutes
+  const userId = verifyTwoFactorChallengeToken(challengeToken);
+  if (!userId) {
+    res.status(401).json({ message: "Login expired, please sign in again" });
+    return;
+  }
+
+  const user = await User.findById(userId).select(TWO_FACTOR_SECRET_FIELDS);
+  if (!user || !user.twoFactor.enabled) {
+    res.status(401).json({ message: "Login expired, please sign in again" });
+    return;
+  }
+
+  // an admin disabled the account or required a new password after the first step
+  const block = getLoginBlock(user);
+  if (block) {
+    sendLoginBlockResponse(res, block);
+    return;
+  }
+
+  // wrong codes count towards the same lockout as wrong passwords, so the 6 digit code can't be guessed
+  const throttleKeys = getLoginThrottleKeys(req, user.email);
+  const retryAfter = await getLockoutRemainingSeconds(throttleKeys);
+  if (retryAfter > 0) {
+    sendLockoutResponse(res, retryAfter);
+    return;
+  }
+
+  if (!(await verifySecondFactor(user, code))) {
+    await recordLoginFailure(throttleKeys);
+    await recordAuthEvent(req, {
+      type: "login",
+      outcome: "failure",
+      user,
+      reason: "invalid-two-factor-code",
+      method: "two-factor",
+    });
+    res.status(401).json({ message: "Invalid authentication code" });
+    return;
+  }
+
+  // the login succeeded, so forget the earlier failures
+  await resetLoginFailures(throttleKeys);
+
+  // start a session for this device and set the refresh token cookie
+  const session = await startSession(req, res, user);
+  if ("error" in session) {
+    sendLoginBlockResponse(res, session.error);
+    return;
+  }
+  const { token } = session;
+
+  await recordAuthEvent(req, {
+    type: "login",
+    outcome: "success",
+    user,
+    method: "two-factor",
+  });
+
+  // skip the two-factor step on this device for the next 30 days
+  if (rememberDevice === true) {
+    setTrustedDeviceCookie(res, generateTrustedDeviceToken(userId));
+  }
+
+  res.status(200).json({ token, user: formatUserWithoutPassword(user) });
+};
@@ -0,0 +1,116 @@
+import { body, param, query } from "express-validator";
+import { ROLES } from "../config/roleConfig.js";
+import { ADMIN_USER_SORTS } from "../utils/adminUtils.js";
+import { AUTH_EVENT_TYPES, AUTH_EVENT_OUTCOMES } from "../models/AuthEvent.js";
+
+// validation rules for the admin user-management routes, use with handleValidationErrors from authValidation.ts
+// controllers read the sanitized values with matchedData(), Express 5 doesn't let validators overwrite req.query
+
+// validation rules for listing users
+export const validateListUsers = [
+  query("page")
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage("Page must be a positive number")
+    .toInt(),
+  query("limit")
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage("Limit must be between 1 and 100")
+    .toInt(),
+  query("search")
+    .optional()
+    .isString()
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage("Search must be at most 100 characters"),
+  query("role").optional().isIn(ROLES).withMessage("Invalid role"),
+  query("status")
+    .optional()
+    .isIn(["active", "disabled"])
+    .withMessage("Status must be active or disabled"),
+  query("verified")
+    .optional()
+    .isBoolean()
+    .withMessage("Verified must be true or false")
+    .toBoolean(),
+  query("sort").optional().isIn(ADMIN_USER_SORTS).withMessage("Invalid sort"),
+];
+
+// validation rules for routes that take a user id in the URL
+export const validateUserId = [
+  param("id").isMongoId().withMessage("Invalid user id"),
+];
+
+// validation rules for editing a user, every field is optional
+export const validateUpdateUser = [
+  ...validateUserId,
+  body("name")
+    .optional()
+    .isString()
+    .trim()
+    .isLength({ min: 2 })
+    .withMessage("Name must be at least 2 characters"),
+  body("email")
+    .optional()
+    .trim()
+    .toLowerCase()
+    .isEmail()
+    .withMessage("Invalid email format"),
+  body("roles")
+    .optional()
+    .isArray({ min: 1 })
+    .withMessage("Roles must be a non-empty list"),
+  body("roles.*").isIn(ROLES).withMessage("Invalid role"),
+];
+
+// validation rules for disabling a user
+export const validateDisableUser = [
+  ...validateUserId,
+  body("reason")
+    .optional()
+    .isString()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage("Reason must be at most 500 characters"),
+];
+
+// validation rules for querying the security audit log
+export const validateListAuthEvents = [
+  query("limit")
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage("Limit must be between 1 and 100")
+    .toInt(),
+  query("cursor").optional().isMongoId().withMessage("Invalid cursor"),
+  query("user").optional().isMongoId().withMessage("Invalid user id"),
+  query("email")
+    .optional()
+    .isString()
+    .trim()
+    .isLength({ max: 254 })
+    .withMessage("Email must be at most 254 characters"),
+  query("type").optional().isIn(AUTH_EVENT_TYPES).withMessage("Invalid type"),
+  query("outcome")
+    .optional()
+    .isIn(AUTH_EVENT_OUTCOMES)
+    .withMessage("Outcome must be success or failure"),
+  query("reason")
+    .optional()
+    .isString()
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage("Reason must be at most 100 characters"),
+  query("ip")
+    .optional()
+    .isString()
+    .trim()
+    .isLength({ max: 64 })
+    .withMessage("IP must be at most 64 characters"),
+  query("from").optional().isISO8601().withMessage("Invalid date").toDate(),
+  query("to").optional().isISO8601().withMessage("Invalid date").toDate(),
+  query("format")
+    .optional()
+    .isIn(["json", "csv", "ndjson"])
+    .withMessage("Format must be json, csv or ndjson"),
+];
@@ -1,13 +1,26 @@
-import jwt from "jsonwebtoken";
 import type { Request, Response, NextFunction } from "express";
 import type { JWTPayload } from "../types/index.js";
+import User from "../models/User.js";
+import { verifyAccessToken } from "../utils/tokenUtils.js";
+import type { Role, Permission } from "../config/roleConfig.js";
+import type { TokenScope } from "../config/personalAccessTokenConfig.js";
+import type { OrgRole } from "../config/organizationConfig.js";
+import Membership from "../models/Membership.js";
+import { isValidObjectId } from "mongoose";
+import {
+  findPersonalAccessToken,
+  isPersonalAccessToken,
+} from "../utils/personalAccessTokens.js";
+import { setRequestUser } from "../utils/requestContext.js";
+import { logger } from "../utils/logger.js";
 
 // authMiddleware function to verify JWT tokens and protect routes
-export const verifyJWT = (
+// it also looks the user up to reject disabled accounts straight away, rather than when the access token expires
+export const verifyJWT = async (
   req: Request,
   res: Response,
   next: NextFunction,
-): void => {
+): Promise<void> => {
   // get the token from the Authorization header
   const authHeader = req.headers.authorization;
   // check if the token is present and starts with "Bearer "
@@ -23,38 +36,232 @@ export const verifyJWT = (
     res.status(401).json({ message: "Missing token" });
     return;
   }
-  // get the JWT secret from environment variables
-  const secret = process.env.JWT_SECRET;
-  // if the secret is not defined, log an error and return 500 Server Error
-  if (!secret) {
-    console.log("JWT_SECRET is not defined in environment variables");
-    res.status(500).json({ message: "Server error" });
-    return;
-  }
-
-  // verify the token using jwt.verify, which will throw an error if the token is invalid or expired
+  // verify the token, verifyAccessToken throws if it is invalid, expired or not an access token
+  let payload: JWTPayload;
   try {
-    // if the token is valid, jwt.verify will return the decoded payload, which we can attach to req.user for use in protected routes
-    const decoded = jwt.verify(token, secret);
+    // if the token is valid we get the decoded payload, which we can attach to req.user for use in protected routes
+    const decoded = verifyAccessToken(token);
 
     // Validate the payload has the required properties
     if (
-      !decoded ||
-      typeof decoded === "string" ||
-      !("userId" in decoded) ||
-      !("email" in decoded)
+      typeof decoded.userId !== "string" ||
+      typeof decoded.email !== "string"
     ) {
       // If the payload is missing required properties, return 401 Unauthorized
       res.status(401).json({ message: "Invalid token payload" });
       return;
     }
 
-    req.user = decoded as JWTPayload; // attach the decoded payload to req.user for use in protected routes
-    next();
+    payload = decoded as unknown as JWTPayload;
   } catch (error) {
     // if the token is invalid or expired, return 401 Unauthorized
-    console.error("JWT verification failed:", error);
+    // only the reason is logged, expired tokens are routine and the error itself can echo parts of the token
+    logger.debug("access token rejected", {
+      reason: error instanceof Error ? error.message : String(error),
+    });
+    res.status(401).json({ message: "Invalid or expired token" });
+    return;
+  }
+
+  // outside the try block so database errors go to the error middleware instead of looking like a bad token
+  // 401 rather than 403 so the frontend tries to refresh, which also fails, and sends the user to the login page
+  if (await User.exists({ _id: payload.userId, disabledAt: { $ne: null } })) {
+    res.status(401).json({ message: "This account has been disabled" });
+    return;
+  }
+
+  req.user = payload; // attach the decoded payload to req.user for use in protected routes
+  setRequestUser(payload.userId);
+  next();
+};
+
+// like verifyJWT, but also accepts personal access tokens (Authorization: Bearer pat_...) on routes scripts may call, e.g.
+// router.get("/me", authenticate, requireScope("profile:read"), authController.getCurrentUser)
+// routes that only use verifyJWT turn personal access tokens away, so a leaked token can't change the password or make more tokens
+export const authenticate = async (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  const authHeader = req.headers.authorization;
+  const token = authHeader?.startsWith("Bearer ")
+    ? authHeader.split(" ")[1]
+    : undefined;
+
+  // anything that isn't a personal access token (including a missing header) gets the usual checks and errors
+  if (!token || !isPersonalAccessToken(token)) {
+    await verifyJWT(req, res, next);
+    return;
+  }
+
+  const personalAccessToken = await findPersonalAccessToken(token);
+  if (!personalAccessToken) {
     res.status(401).json({ message: "Invalid or expired token" });
     return;
   }
+
+  // disabled accounts can't use their tokens, the same as their sessions
+  const user = await User.findById(personalAccessToken.user).select(
+    "email disabledAt",
+  );
+  if (!user || user.disabledAt) {
+    res.status(401).json({ message: "This account has been disabled" });
+    return;
+  }
+
+  // no roles or permissions, personal access tokens can't be used on admin routes
+  req.user = {
+    userId: user._id.toString(),
+    email: user.email,
+    scopes: personalAccessToken.scopes,
+  };
+  setRequestUser(req.user.userId);
+  next();
+};
+
+// middleware to stack after verifyJWT on routes that only verified accounts may use, e.g.
+// router.post("/posts", verifyJWT, requireVerifiedEmail, postController.createPost)
+// it reads isVerified from the database rather than the token, so users don't have to wait for a new access token after verifying
+export const requireVerifiedEmail = async (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  // early return if req.user is not set, which means verifyJWT didn't run before this middleware
+  if (!req.user) {
+    res.status(401).json({ message: "Unauthorized" });
+    return;
+  }
+
+  const user = await User.findById(req.user.userId).select("isVerified");
+
+  // if the user is not found (which could happen if the user was deleted after the token was issued), return 401 Unauthorized
+  if (!user) {
+    res.status(401).json({ message: "Unauthorized" });
+    return;
+  }
+
+  // the account exists but the email hasn't been verified yet, return 403 Forbidden
+  if (!user.isVerified) {
+    res.status(403).json({ message: "Email verification required" });
+    return;
+  }
+
+  next();
+};
+
+// middleware factory to stack after verifyJWT on routes only some roles may use, e.g.
+// router.get("/admin/users", verifyJWT, requireRole("admin"), adminController.getUsers)
+// the user needs at least one of the listed roles, checked against the roles in the access token
+// role changes take effect when the user's access token is next refreshed (at most 15 minutes)
+export const requireRole = (...roles: Role[]) => {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    // early return if req.user is not set, which means verifyJWT didn't run before this middleware
+    if (!req.user) {
+      res.status(401).json({ message: "Unauthorized" });
+      return;
+    }
+
+    // tokens issued before roles existed have no roles claim, treat them as having no roles
+    const userRoles = req.user.roles ?? [];
+    if (!roles.some((role) => userRoles.includes(role))) {
+      res.status(403).json({ message: "Forbidden" });
+      return;
+    }
+
+    next();
+  };
+};
+
+// middleware factory to stack after verifyJWT on routes that need specific permissions, e.g.
+// router.patch("/admin/users/:id", verifyJWT, requirePermission("users:manage"), adminController.updateUser)
+// the user needs every listed permission, see config/roleConfig.ts for which roles grant what
+export const requirePermission = (...permissions: Permission[]) => {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    // early return if req.user is not set, which means verifyJWT didn't run before this middleware
+    if (!req.user) {
+      res.status(401).json({ message: "Unauthorized" });
+      return;
+    }
+
+    const userPermissions = req.user.permissions ?? [];
+    if (
+      !permissions.every((permission) => userPermissions.includes(permission))
+    ) {
+      res.status(403).json({ message: "Forbidden" });
+      return;
+    }
+
+    next();
+  };
+};
+
+// middleware factory to stack after authenticate on routes personal access tokens may use, e.g.
+// router.get("/me", authenticate, requireScope("profile:read"), authController.getCurrentUser)
+// a personal access token needs every listed scope, a logged in user's own session can do anything so it always passes
+export const requireScope = (...scopes: TokenScope[]) => {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    // early return if req.user is not set, which means authenticate didn't run before this middleware
+    if (!req.user) {
+      res.status(401).json({ message: "Unauthorized" });
+      return;
+    }
+
+    const tokenScopes = req.user.scopes;
+    if (tokenScopes && !scopes.every((scope) => tokenScopes.includes(scope))) {
+      res.status(403).json({ message: "Forbidden" });
+      return;
+    }
+
+    next();
+  };
+};
+
+// header the frontend sends with the id of the organization the user is working in
+export const ORGANIZATION_HEADER = "x-organization-id";
+
+// middleware factory to stack after verifyJWT on routes that act on an organization, e.g.
+// router.get("/projects", verifyJWT, requireOrgRole("owner", "admin", "member"), projectController.getProjects)
+// the organization is the :orgId route parameter when there is one, otherwise the active organization from the X-Organization-Id header
+// the user needs one of the listed roles in it, read from the database so role changes and removals apply straight away
+// sets req.membership for the controller
+export const requireOrgRole = (...roles: OrgRole[]) => {
+  return async (
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> => {
+    // early return if req.user is not set, which means verifyJWT didn't run before this middleware
+    if (!req.user) {
+      res.status(401).json({ message: "Unauthorized" });
+      return;
+    }
+
+    const header = req.headers[ORGANIZATION_HEADER];
+    const organizationId =
+      req.params?.orgId ?? (typeof header === "string" ? header : undefined);
+    if (!organizationId || !isValidObjectId(organizationId)) {
+      res.status(400).json({ message: "Organization id is required" });
+      return;
+    }
+
+    const membership = await Membership.findOne({
+      organization: organizationId,
+      user: req.user.userId,
+    });
+
+    // not a member, return 404 Not Found so the response doesn't reveal whether the organization exists
+    if (!membership) {
+      res.status(404).json({ message: "Organization not found" });
+      return;
+    }
+
+    if (!roles.includes(membership.role)) {
+      res.status(403).json({ message: "Forbidden" });
+      return;
+    }
+
+    req.membership = membership;
+    next();
+  };
 };
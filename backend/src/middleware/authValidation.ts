@@ -1,6 +1,11 @@
-import { body, validationResult } from "express-validator";
+import { body, param, query, validationResult } from "express-validator";
 import type { Request, Response, NextFunction } from "express";
 import User from "../models/User.js";
+import { AVATAR_SIZES } from "../config/avatarConfig.js";
+import {
+  TOKEN_SCOPES,
+  getPersonalAccessTokenSettings,
+} from "../config/personalAccessTokenConfig.js";
 
 // Middleware to handle validation errors from express-validator
 export const handleValidationErrors = (
@@ -27,6 +32,8 @@ export const validateRegister = [
     .isLength({ min: 2 })
     .withMessage("Name must be at least 2 characters"),
   body("email")
+    .trim()
+    .toLowerCase()
     .isEmail()
     .withMessage("Invalid email format")
     .custom(async (email) => {
@@ -37,6 +44,7 @@ export const validateRegister = [
       }
     }),
   body("password")
+    .isString()
     .isLength({ min: 8 })
     .withMessage("Password must be at least 8 characters")
     .matches(/[A-Z]/)
@@ -51,16 +59,18 @@ export const validateRegister = [
 
 // validation rules for login
 export const validateLogin = [
-  body("email").isEmail().withMessage("Invalid email format"),
-  body("password").notEmpty().withMessage("Password is required"),
+  body("email")
+    .trim()
+    .toLowerCase()
+    .isEmail()
+    .withMessage("Invalid email format"),
+  body("password").isString().notEmpty().withMessage("Password is required"),
 ];
 
-// validation rules for update password
-export const validateUpdatePassword = [
-  body("currentPassword")
-    .notEmpty()
-    .withMessage("Current password is required"),
-  body("newPassword")
+// password strength rules for a new password, shared by update password and reset password
+const newPasswordRules = (field: string) =>
+  body(field)
+    .isString()
     .isLength({ min: 8 })
     .withMessage("Password must be at least 8 characters")
     .matches(/[A-Z]/)
@@ -70,10 +80,277 @@ export const validateUpdatePassword = [
     .matches(/[0-9]/)
     .withMessage("Password must contain digit")
     .matches(/[!@#$%^&*]/)
-    .withMessage("Password must contain special character"),
+    .withMessage("Password must contain special character");
+
+// true for an IANA time zone name the runtime knows, e.g. "Europe/London"
+const isTimeZone = (value: string) => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// true for a well-formed BCP 47 language tag, e.g. "en-GB"
+const isLocale = (value: string) => {
+  try {
+    Intl.getCanonicalLocales(value);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// validation rules for updating profile details, every field is optional and an empty string clears it
+// version is the one from the user response, updateProfile rejects the edit if the profile changed since then
+export const validateUpdateProfile = [
+  body("version").isInt({ min: 0 }).withMessage("Version is required").toInt(),
+  body("name")
+    .optional()
+    .isString()
+    .trim()
+    .isLength({ min: 2, max: 100 })
+    .withMessage("Name must be between 2 and 100 characters"),
+  body("displayName")
+    .optional()
+    .isString()
+    .trim()
+    .isLength({ max: 50 })
+    .withMessage("Display name must be at most 50 characters"),
+  body("bio")
+    .optional()
+    .isString()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage("Bio must be at most 500 characters"),
+  body("timezone")
+    .optional()
+    .isString()
+    .trim()
+    .custom((value: string) => value === "" || isTimeZone(value))
+    .withMessage("Invalid time zone"),
+  body("locale")
+    .optional()
+    .isString()
+    .trim()
+    .custom((value: string) => value === "" || isLocale(value))
+    .withMessage("Invalid locale")
+    // store the canonical form, e.g. "en-gb" becomes "en-GB"
+    .customSanitizer((value: string) =>
+      value === "" ? value : Intl.getCanonicalLocales(value)[0],
+    ),
+];
+
+// validation rules for update password
+export const validateUpdatePassword = [
+  body("currentPassword")
+    .isString()
+    .notEmpty()
+    .withMessage("Current password is required"),
+  newPasswordRules("newPassword"),
 ];
 
 // validation rules for update email
 export const validateUpdateEmail = [
-  body("newEmail").isEmail().withMessage("Invalid email format"),
+  body("newEmail")
+    .trim()
+    .toLowerCase()
+    .isEmail()
+    .withMessage("Invalid email format"),
+];
+
+// validation rules for confirming or undoing an email change with the emailed token
+export const validateEmailChangeToken = [
+  body("token").isString().notEmpty().withMessage("Token is required"),
+];
+
+// validation rules for routes that take a session id in the URL
+export const validateSessionId = [
+  param("id").isMongoId().withMessage("Invalid session id"),
+];
+
+// validation rules for verifying an email address
+export const validateVerifyEmail = [
+  body("token")
+    .isString()
+    .notEmpty()
+    .withMessage("Verification token is required"),
+];
+
+// validation rules for requesting a password reset link
+export const validateForgotPassword = [
+  body("email")
+    .trim()
+    .toLowerCase()
+    .isEmail()
+    .withMessage("Invalid email format"),
+];
+
+// validation rules for requesting an email sign in link
+export const validateRequestMagicLink = [
+  body("email")
+    .trim()
+    .toLowerCase()
+    .isEmail()
+    .withMessage("Invalid email format"),
+];
+
+// validation rules for signing in with the token from an emailed sign in link
+export const validateMagicLinkToken = [
+  body("token").isString().notEmpty().withMessage("Sign in token is required"),
+];
+
+// validation rules for resetting a password with the emailed token, same password rules as update password
+export const validateResetPassword = [
+  body("token").isString().notEmpty().withMessage("Reset token is required"),
+  newPasswordRules("newPassword"),
+];
+
+// validation rules for routes that take a two-factor code (authenticator app code or backup code)
+export const validateTwoFactorCode = [
+  body("code").isString().notEmpty().withMessage("Code is required"),
+];
+
+// validation rules for the second step of a two-factor login
+export const validateTwoFactorLogin = [
+  body("challengeToken")
+    .isString()
+    .notEmpty()
+    .withMessage("Challenge token is required"),
+  ...validateTwoFactorCode,
+  body("rememberDevice").optional().isBoolean().withMessage("Invalid value"),
+];
+
+// validation rules for turning two-factor authentication off
+export const validateDisableTwoFactor = [
+  body("password").isString().notEmpty().withMessage("Password is required"),
+  ...validateTwoFactorCode,
+];
+
+// validation rules for routes that take a passkey id in the URL
+export const validatePasskeyId = [
+  param("id").isMongoId().withMessage("Invalid passkey id"),
+];
+
+// validation rules for naming a passkey
+const passkeyNameRules = (optional: boolean) => {
+  const rule = body("name");
+  return (optional ? rule.optional() : rule)
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 64 })
+    .withMessage("Name must be between 1 and 64 characters");
+};
+
+// validation rules for finishing passkey registration
+export const validatePasskeyRegistration = [
+  body("response").isObject().withMessage("Passkey response is required"),
+  passkeyNameRules(true),
+];
+
+// validation rules for renaming a passkey
+export const validateRenamePasskey = [
+  ...validatePasskeyId,
+  passkeyNameRules(false),
+];
+
+// validation rules for finishing a passkey login
+export const validatePasskeyLogin = [
+  body("response").isObject().withMessage("Passkey response is required"),
+  body("response.id").isString().withMessage("Passkey response is required"),
+];
+
+// validation rules for creating a personal access token
+export const validateCreatePersonalAccessToken = [
+  body("name")
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 64 })
+    .withMessage("Name must be between 1 and 64 characters"),
+  body("scopes").isArray({ min: 1 }).withMessage("Choose at least one scope"),
+  body("scopes.*").isIn(TOKEN_SCOPES).withMessage("Invalid scope"),
+  body("expiresInDays")
+    .isInt({ min: 1 })
+    .withMessage("Expiration must be a whole number of days")
+    .bail()
+    .custom((value) => {
+      const { maxLifetimeDays } = getPersonalAccessTokenSettings();
+      if (Number(value) > maxLifetimeDays) {
+        throw new Error(`Expiration must be at most ${maxLifetimeDays} days`);
+      }
+      return true;
+    })
+    .toInt(),
+];
+
+// validation rules for routes that take a personal access token id in the URL
+export const validatePersonalAccessTokenId = [
+  param("id").isMongoId().withMessage("Invalid token id"),
+];
+
+// validation rules for routes that take a linked account id in the URL
+export const validateIdentityId = [
+  param("id").isMongoId().withMessage("Invalid linked account id"),
+];
+
+// validation rules for deleting the account, the code is only checked when two-factor authentication is on
+export const validateDeleteAccount = [
+  body("password").isString().notEmpty().withMessage("Password is required"),
+  body("code").optional().isString().withMessage("Invalid code"),
+];
+
+// validation rules for cancelling an account deletion with the emailed token
+export const validateCancelDeletion = [
+  body("token")
+    .isString()
+    .notEmpty()
+    .withMessage("Cancellation token is required"),
+];
+
+// validation rules for downloading a data export with the signed link
+export const validateDataExportDownload = [
+  param("id").isMongoId().withMessage("Invalid export id"),
+  query("token")
+    .isString()
+    .notEmpty()
+    .withMessage("Download token is required"),
+];
+
+// validation rules for the security activity list, controllers read the values with matchedData()
+export const validateActivityQuery = [
+  query("limit")
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage("Limit must be between 1 and 100")
+    .toInt(),
+  query("cursor").optional().isMongoId().withMessage("Invalid cursor"),
+];
+
+// validation rules for an avatar upload, the crop (in pixels of the uploaded image) is optional but all three values go together
+const AVATAR_CROP_FIELDS = ["cropX", "cropY", "cropSize"];
+export const validateAvatarUpload = [
+  body(AVATAR_CROP_FIELDS)
+    .optional()
+    .isInt({ min: 0 })
+    .withMessage("Crop values must be whole numbers")
+    .toInt(),
+  body("cropSize")
+    .custom((_value, { req }) => {
+      const sent = AVATAR_CROP_FIELDS.filter(
+        (field) => req.body?.[field] !== undefined,
+      );
+      return sent.length === 0 || sent.length === AVATAR_CROP_FIELDS.length;
+    })
+    .withMessage("cropX, cropY and cropSize must be sent together"),
+];
+
+// validation rules for fetching an avatar image
+export const validateAvatarImage = [
+  param("userId").isMongoId().withMessage("Invalid user id"),
+  param("avatarId").isHexadecimal().withMessage("Invalid avatar id"),
+  param("size")
+    .isIn(AVATAR_SIZES.map(String))
+    .withMessage(`Size must be one of ${AVATAR_SIZES.join(", ")}`)
+    .toInt(),
 ];
@@ -0,0 +1,39 @@
+// middleware for parsing avatar uploads (multipart/form-data with a single "avatar" file)
+import multer from "multer";
+import type { Request, Response, NextFunction } from "express";
+import { createFieldError } from "../utils/errorFormatter.js";
+import { getAvatarSettings } from "../config/avatarConfig.js";
+
+// parse the upload into req.file, kept in memory because it's small and processed straight away
+// multer's own errors (file too large, unexpected field, etc.) are turned into validation errors instead of reaching the error middleware
+export const parseAvatarUpload = (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) => {
+  const { maxUploadBytes } = getAvatarSettings();
+  const upload = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: maxUploadBytes, files: 1, fields: 10 },
+  }).single("avatar");
+
+  upload(req, res, (error: unknown) => {
+    if (error instanceof multer.MulterError) {
+      const tooLarge = error.code === "LIMIT_FILE_SIZE";
+      const limit =
+        maxUploadBytes >= 1024 * 1024
+          ? `${+(maxUploadBytes / 1024 / 1024).toFixed(1)} MB`
+          : `${Math.round(maxUploadBytes / 1024)} KB`;
+      const message = tooLarge
+        ? `Image must be at most ${limit}`
+        : "Upload a single image in the avatar field";
+      // 413 Payload Too Large
+      res.status(tooLarge ? 413 : 400).json({
+        message: "Validation errors",
+        errors: [createFieldError("avatar", message)],
+      });
+      return;
+    }
+    next(error);
+  });
+};
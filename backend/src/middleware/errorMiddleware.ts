@@ -8,12 +8,6 @@ interface ValidationError extends Error {
   errors: Record<string, { message: string }>;
 }
 
-interface ErrorResponse {
-  statusCode: number;
-  message: string;
-  stack?: string; // include stack trace in development for debugging
-}
-
 // Type guard functions
 function isMongoError(err: unknown): err is MongoError {
   return err instanceof Error && "code" in err;
@@ -27,6 +21,8 @@ function isValidationError(err: unknown): err is ValidationError {
 
 // error middleware to catch and handle errors in async route handlers
 import type { Request, Response, NextFunction } from "express";
+import type { ErrorResponse } from "../types/index.js";
+import { logger } from "../utils/logger.js";
 
 // custom error handling middleware that takes an error, request, response, and next function
 export default (
@@ -70,8 +66,16 @@ export default (
     // we already set the status code to 500
   }
 
+  // unexpected errors are logged with their stack, the request id in the response lets us find this line from a user's report
+  if (statusCode >= 500) {
+    logger.error("unhandled error", { error: err });
+  }
+
   // build response object
   const response: ErrorResponse = { statusCode, message };
+  if (req.requestId) {
+    response.requestId = req.requestId;
+  }
   // Add stack trace in development only
   if (
     process.env.NODE_ENV === "development" &&
@@ -0,0 +1,69 @@
+import { body, param } from "express-validator";
+import { ASSIGNABLE_ORG_ROLES } from "../config/organizationConfig.js";
+
+// validation rules for the organization routes, use with handleValidationErrors from authValidation.ts
+
+// the name rules shared by creating and renaming an organization
+const nameRules = () =>
+  body("name")
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage("Name must be between 1 and 100 characters");
+
+// validation rules for creating an organization
+export const validateCreateOrganization = [nameRules()];
+
+// validation rules for routes that take an organization id in the URL
+export const validateOrganizationId = [
+  param("orgId").isMongoId().withMessage("Invalid organization id"),
+];
+
+// validation rules for renaming an organization
+export const validateUpdateOrganization = [
+  ...validateOrganizationId,
+  nameRules(),
+];
+
+// validation rules for routes that take a member's user id in the URL
+export const validateMemberId = [
+  ...validateOrganizationId,
+  param("userId").isMongoId().withMessage("Invalid user id"),
+];
+
+// validation rules for changing a member's role
+export const validateUpdateMemberRole = [
+  ...validateMemberId,
+  body("role").isIn(ASSIGNABLE_ORG_ROLES).withMessage("Invalid role"),
+];
+
+// validation rules for handing the organization to another member
+export const validateTransferOwnership = [
+  ...validateOrganizationId,
+  body("userId").isMongoId().withMessage("Invalid user id"),
+];
+
+// validation rules for inviting someone by email
+export const validateCreateInvite = [
+  ...validateOrganizationId,
+  body("email")
+    .trim()
+    .toLowerCase()
+    .isEmail()
+    .withMessage("Invalid email format"),
+  body("role").isIn(ASSIGNABLE_ORG_ROLES).withMessage("Invalid role"),
+];
+
+// validation rules for routes that take an invitation id in the URL
+export const validateInviteId = [
+  ...validateOrganizationId,
+  param("inviteId").isMongoId().withMessage("Invalid invitation id"),
+];
+
+// validation rules for looking up, accepting or declining an invitation with the token from the emailed link
+export const validateInviteToken = [
+  body("token")
+    .isString()
+    .notEmpty()
+    .withMessage("Invitation token is required"),
+];
@@ -0,0 +1,110 @@
+// reusable rate limiting middleware, each route picks a policy from config/rateLimitConfig.ts
+import type { Request, Response, NextFunction } from "express";
+import {
+  getRateLimitStore,
+  isRateLimitEnabled,
+} from "../config/rateLimitConfig.js";
+import type { ErrorResponse } from "../types/index.js";
+
+// what to count requests by: the client IP address, the logged in user, or a custom function
+// "user" and custom keys fall back to the IP address when there is no user or the function returns null
+export type RateLimitKey =
+  | "ip"
+  | "user"
+  | ((req: Request) => string | null | undefined);
+
+// a declarative rate limit policy
+export interface RateLimitPolicy {
+  name: string; // keeps each policy's counters separate, e.g. "register"
+  // fixed-window allows `limit` requests per window, token-bucket allows bursts of `limit` and refills over the window
+  algorithm: "fixed-window" | "token-bucket";
+  limit: number;
+  windowMs: number;
+  key: RateLimitKey;
+  message?: string; // defaults to a generic "too many requests" message
+}
+
+// build the counter key for a request, prefixed with the policy name
+const getClientKey = (req: Request, policy: RateLimitPolicy): string => {
+  const ipKey = `ip:${req.ip || "unknown"}`;
+  let key: string | null | undefined = ipKey;
+  if (policy.key === "user") {
+    key = req.user ? `user:${req.user.userId}` : ipKey;
+  } else if (typeof policy.key === "function") {
+    key = policy.key(req) || ipKey;
+  }
+  return `${policy.name}:${key}`;
+};
+
+// check the request against the policy and return what goes in the RateLimit headers
+const consume = async (key: string, policy: RateLimitPolicy) => {
+  const store = getRateLimitStore();
+  const now = Date.now();
+
+  if (policy.algorithm === "fixed-window") {
+    const windowStart = now - (now % policy.windowMs);
+    const count = await store.incrementWindow(
+      key,
+      windowStart,
+      policy.windowMs,
+    );
+    const resetSeconds = Math.ceil(
+      (windowStart + policy.windowMs - now) / 1000,
+    );
+    return {
+      allowed: count <= policy.limit,
+      remaining: Math.max(0, policy.limit - count),
+      resetSeconds,
+      retryAfter: resetSeconds,
+    };
+  }
+
+  const { allowed, tokens } = await store.takeToken(
+    key,
+    policy.limit,
+    policy.windowMs,
+  );
+  const msPerToken = policy.windowMs / policy.limit;
+  return {
+    allowed,
+    remaining: Math.floor(tokens),
+    // seconds until the bucket is full again
+    resetSeconds: Math.ceil(((policy.limit - tokens) * msPerToken) / 1000),
+    // seconds until the next token
+    retryAfter: Math.max(1, Math.ceil(((1 - tokens) * msPerToken) / 1000)),
+  };
+};
+
+// create a middleware that rate limits requests with the given policy
+// sets the standard RateLimit-* headers on every response, and answers 429 with Retry-After once the limit is reached
+export const rateLimit = (policy: RateLimitPolicy) => {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    // rate limiting can be switched off, e.g. in tests that make many requests from the same address
+    if (!isRateLimitEnabled()) {
+      next();
+      return;
+    }
+
+    const result = await consume(getClientKey(req, policy), policy);
+
+    res.set({
+      "RateLimit-Limit": String(policy.limit),
+      "RateLimit-Remaining": String(result.remaining),
+      "RateLimit-Reset": String(result.resetSeconds),
+      "RateLimit-Policy": `${policy.limit};w=${Math.ceil(policy.windowMs / 1000)}`,
+    });
+
+    if (!result.allowed) {
+      res.set("Retry-After", String(result.retryAfter));
+      // same shape as errorMiddleware responses, so the frontend handles it like any other error
+      const response: ErrorResponse = {
+        statusCode: 429,
+        message: policy.message || "Too many requests, please try again later.",
+      };
+      res.status(429).json(response);
+      return;
+    }
+
+    next();
+  };
+};
@@ -0,0 +1,58 @@
+// request id and access log middleware, mounted before everything else in app.ts
+import { randomUUID } from "node:crypto";
+import type { Request, Response, NextFunction } from "express";
+import { runWithRequestContext } from "../utils/requestContext.js";
+import { logger, redact } from "../utils/logger.js";
+
+export const REQUEST_ID_HEADER = "X-Request-Id";
+
+// ids from a proxy or another service in front of us are kept so one id follows the request everywhere,
+// but only short plain ones, anything else would let a caller write arbitrary text into our logs
+const VALID_REQUEST_ID = /^[\w.:-]{1,128}$/;
+
+// use the caller's X-Request-Id or generate one, echo it in the response and keep it in the request context for the logger
+export const assignRequestId = (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) => {
+  const incoming = req.get(REQUEST_ID_HEADER);
+  const requestId =
+    incoming && VALID_REQUEST_ID.test(incoming) ? incoming : randomUUID();
+
+  req.requestId = requestId;
+  res.set(REQUEST_ID_HEADER, requestId);
+  runWithRequestContext({ requestId }, next);
+};
+
+// log one line per request once the response is sent (or the client gave up), with the status and how long it took
+export const logRequest = (req: Request, res: Response, next: NextFunction) => {
+  const start = process.hrtime.bigint();
+
+  res.once("close", () => {
+    const durationMs = Number(process.hrtime.bigint() - start) / 1e6;
+    const fields = {
+      requestId: req.requestId,
+      method: req.method,
+      // query strings can hold tokens (email links, export downloads), redact them like any other logged value
+      url: redact(req.originalUrl),
+      status: res.statusCode,
+      durationMs: Math.round(durationMs * 10) / 10,
+      contentLength: Number(res.get("Content-Length")) || 0,
+      ip: req.ip,
+      userAgent: req.get("User-Agent"),
+      ...(req.user && { userId: req.user.userId }),
+      // the client closed the connection before we finished responding
+      ...(!res.writableFinished && { aborted: true }),
+    };
+
+    // client errors (expired tokens, validation) are part of normal traffic, only server errors are errors
+    if (res.statusCode >= 500) {
+      logger.error("request completed", fields);
+    } else {
+      logger.info("request completed", fields);
+    }
+  });
+
+  next();
+};
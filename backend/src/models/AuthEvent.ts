@@ -0,0 +1,84 @@
+// import Schema and model from mongoose to define our AuthEvent schema and model
+import { Schema, model } from "mongoose";
+// import Document and Types for TypeScript to define the AuthEvent interface
+import type { Document, Types } from "mongoose";
+// import the registry so purging an account deletes the documents in this collection, and exporting includes them
+import {
+  registerUserDataCleanup,
+  registerUserDataExporter,
+} from "../utils/userDataRegistry.js";
+
+// what happened, see recordAuthEvent() in utils/authEvents.ts for where each one is written
+export const AUTH_EVENT_TYPES = [
+  "register",
+  "login",
+  "refresh",
+  "password-change",
+  "email-change",
+  "email-change-revert",
+  "token-create", // a personal access token was created
+  "token-delete", // a personal access token was deleted
+  "logout",
+] as const;
+export type AuthEventType = (typeof AUTH_EVENT_TYPES)[number];
+
+export const AUTH_EVENT_OUTCOMES = ["success", "failure"] as const;
+export type AuthEventOutcome = (typeof AUTH_EVENT_OUTCOMES)[number];
+
+// define an interface for the AuthEvent document that extends mongoose's Document
+// one document per security-relevant action, kept for the audit log, the user's activity list and the admin query endpoint
+export interface IAuthEvent extends Document {
+  user: Types.ObjectId | null; // null when we don't know who it was, e.g. a failed login for an email with no account
+  email: string | null; // the email the event was for, kept so failed logins for unknown accounts can still be searched
+  type: AuthEventType;
+  outcome: AuthEventOutcome;
+  reason: string | null; // why it failed, e.g. "invalid-credentials" or "locked-out"
+  method: string | null; // how the user logged in: "password", "two-factor", "passkey", "oauth" or "magic-link"
+  ip: string;
+  userAgent: string;
+  expiresAt: Date; // events are deleted after the retention period
+  createdAt: Date;
+}
+
+// define the AuthEvent schema with the fields and their types, events are never updated so only createdAt is added
+export const AuthEventSchema = new Schema<IAuthEvent>(
+  {
+    user: { type: Schema.Types.ObjectId, ref: "User", default: null },
+    // lowercase like User.email, so the admin filter matches events whatever casing was typed at login
+    email: { type: String, default: null, lowercase: true, trim: true },
+    type: { type: String, enum: AUTH_EVENT_TYPES, required: true },
+    outcome: { type: String, enum: AUTH_EVENT_OUTCOMES, required: true },
+    reason: { type: String, default: null },
+    method: { type: String, default: null },
+    ip: { type: String, default: "" },
+    userAgent: { type: String, default: "" },
+    expiresAt: { type: Date, required: true },
+  },
+  { timestamps: { createdAt: true, updatedAt: false } },
+);
+
+// newest first for one user, the activity list pages through this with the _id as the cursor
+AuthEventSchema.index({ user: 1, _id: -1 });
+// the admin query endpoint filters on these
+AuthEventSchema.index({ type: 1, outcome: 1, _id: -1 });
+AuthEventSchema.index({ email: 1, _id: -1 });
+// TTL index so MongoDB deletes events once they're older than the retention period
+AuthEventSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// create the AuthEvent model based on the AuthEventSchema
+const AuthEvent = model<IAuthEvent>("AuthEvent", AuthEventSchema);
+
+// delete the user's security activity when their account is purged
+registerUserDataCleanup("auth-events", (user) =>
+  AuthEvent.deleteMany({ user: user._id }),
+);
+
+// give the user a copy of their security activity in their data export
+registerUserDataExporter("security-activity", (user) =>
+  AuthEvent.find({ user: user._id })
+    .select("type outcome reason method ip userAgent createdAt")
+    .sort({ _id: -1 })
+    .lean(),
+);
+
+export default AuthEvent;
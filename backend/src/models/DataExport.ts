@@ -0,0 +1,50 @@
+// import Schema and model from mongoose to define our DataExport schema and model
+import { Schema, model } from "mongoose";
+// import Document and Types for TypeScript to define the DataExport interface
+import type { Document, Types } from "mongoose";
+// pending while the archive is being built, then ready to download or failed
+export type DataExportStatus = "pending" | "ready" | "failed";
+
+// define an interface for the DataExport document that extends mongoose's Document
+// one document per "download my data" request, the finished ZIP is kept in file storage until it expires
+export interface IDataExport extends Document {
+  user: Types.ObjectId;
+  status: DataExportStatus;
+  storageKey: string | null; // where the ZIP is kept in the data export storage, set once it's ready
+  size: number | null; // archive size in bytes
+  completedAt: Date | null;
+  expiresAt: Date; // the download link stops working after this, the export and its archive are deleted by the cleanup job
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// define the DataExport schema with the fields and their types, and set
+// timestamps to true to automatically add createdAt and updatedAt fields
+export const DataExportSchema = new Schema<IDataExport>(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+      index: true,
+    },
+    status: {
+      type: String,
+      enum: ["pending", "ready", "failed"],
+      default: "pending",
+    },
+    storageKey: { type: String, default: null },
+    size: { type: Number, default: null },
+    completedAt: { type: Date, default: null },
+    expiresAt: { type: Date, required: true },
+  },
+  { timestamps: true },
+);
+
+// no TTL index on expiresAt: MongoDB would delete the document but leave the archive in storage,
+// purgeExpiredDataExports() in utils/dataExport.ts deletes both
+
+// create the DataExport model based on the DataExportSchema
+const DataExport = model<IDataExport>("DataExport", DataExportSchema);
+
+export default DataExport;
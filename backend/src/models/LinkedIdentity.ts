@@ -0,0 +1,60 @@
+// import Schema and model from mongoose to define our LinkedIdentity schema and model
+import { Schema, model } from "mongoose";
+// import Document and Types for TypeScript to define the LinkedIdentity interface
+import type { Document, Types } from "mongoose";
+// import the registry so purging an account deletes the documents in this collection, and exporting includes them
+import {
+  registerUserDataCleanup,
+  registerUserDataExporter,
+} from "../utils/userDataRegistry.js";
+
+// define an interface for the LinkedIdentity document that extends mongoose's Document
+// one document per social/OIDC account connected to a user, e.g. their Google account
+export interface ILinkedIdentity extends Document {
+  user: Types.ObjectId;
+  provider: string; // provider id from config/oauthConfig.ts, e.g. "google"
+  subject: string; // the provider's stable id for the account ("sub" claim), emails can change so we never match on them
+  email: string | null; // email the provider reported when the account was linked, shown on the Profile page
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// define the LinkedIdentity schema with the fields and their types, and set
+// timestamps to true to automatically add createdAt and updatedAt fields
+export const LinkedIdentitySchema = new Schema<ILinkedIdentity>(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+      index: true,
+    },
+    provider: { type: String, required: true },
+    subject: { type: String, required: true },
+    email: { type: String, default: null },
+  },
+  { timestamps: true },
+);
+
+// a provider account can only be linked to one user
+LinkedIdentitySchema.index({ provider: 1, subject: 1 }, { unique: true });
+
+// create the LinkedIdentity model based on the LinkedIdentitySchema
+const LinkedIdentity = model<ILinkedIdentity>(
+  "LinkedIdentity",
+  LinkedIdentitySchema,
+);
+
+// delete the user's linked identities when their account is purged
+registerUserDataCleanup("linked-identities", (user) =>
+  LinkedIdentity.deleteMany({ user: user._id }),
+);
+
+// give the user a copy of their connected accounts in their data export
+registerUserDataExporter("linked-accounts", (user) =>
+  LinkedIdentity.find({ user: user._id })
+    .select("provider subject email createdAt")
+    .lean(),
+);
+
+export default LinkedIdentity;
@@ -0,0 +1,27 @@
+// import Schema and model from mongoose to define our LoginAttempt schema and model
+import { Schema, model } from "mongoose";
+// import Document for TypeScript to define the LoginAttempt interface
+import type { Document } from "mongoose";
+
+// define an interface for the LoginAttempt document that extends mongoose's Document
+// one document per account or IP address with recent failed logins, used by the Mongo attempt store
+export interface ILoginAttempt extends Document {
+  key: string; // "account:<email>" or "ip:<address>"
+  failures: number;
+  lockedUntil: Date | null;
+  expiresAt: Date; // the counter is forgotten after a quiet period with no failures
+}
+
+// define the LoginAttempt schema with the fields and their types
+export const LoginAttemptSchema = new Schema<ILoginAttempt>({
+  key: { type: String, required: true, unique: true },
+  failures: { type: Number, default: 0 },
+  lockedUntil: { type: Date, default: null },
+  expiresAt: { type: Date, required: true },
+});
+
+// TTL index so MongoDB deletes counters once they expire
+LoginAttemptSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// create and export the LoginAttempt model based on the LoginAttemptSchema
+export default model<ILoginAttempt>("LoginAttempt", LoginAttemptSchema);
@@ -0,0 +1,47 @@
+// import Schema and model from mongoose to define our MagicLink schema and model
+import { Schema, model } from "mongoose";
+// import Document and Types for TypeScript to define the MagicLink interface
+import type { Document, Types } from "mongoose";
+// import the registry so purging an account also deletes the documents in this collection
+import { registerUserDataCleanup } from "../utils/userDataRegistry.js";
+
+// define an interface for the MagicLink document that extends mongoose's Document
+// one document per emailed sign in link, deleted when the link is used
+export interface IMagicLink extends Document {
+  user: Types.ObjectId;
+  tokenHash: string; // SHA-256 hash of the token in the emailed link, we never store the raw token
+  nonceHash: string; // SHA-256 hash of the nonce cookie set in the browser that asked for the link
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// define the MagicLink schema with the fields and their types, and set
+// timestamps to true to automatically add createdAt and updatedAt fields
+export const MagicLinkSchema = new Schema<IMagicLink>(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+      index: true,
+    },
+    tokenHash: { type: String, required: true, unique: true },
+    nonceHash: { type: String, required: true },
+    expiresAt: { type: Date, required: true },
+  },
+  { timestamps: true },
+);
+
+// TTL index so MongoDB deletes links that were never opened
+MagicLinkSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// create the MagicLink model based on the MagicLinkSchema
+const MagicLink = model<IMagicLink>("MagicLink", MagicLinkSchema);
+
+// delete the user's unused links when their account is purged
+registerUserDataCleanup("magic-links", (user) =>
+  MagicLink.deleteMany({ user: user._id }),
+);
+
+export default MagicLink;
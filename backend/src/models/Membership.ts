@@ -0,0 +1,73 @@
+// import Schema and model from mongoose to define our Membership schema and model
+import { Schema, model } from "mongoose";
+// import Document and Types for TypeScript to define the Membership interface
+import type { Document, Types } from "mongoose";
+import Organization from "./Organization.js";
+import OrganizationInvite from "./OrganizationInvite.js";
+import { ORG_ROLES } from "../config/organizationConfig.js";
+import type { OrgRole } from "../config/organizationConfig.js";
+// import the registry so purging an account deletes the documents in this collection, and exporting includes them
+import {
+  registerUserDataCleanup,
+  registerUserDataExporter,
+} from "../utils/userDataRegistry.js";
+
+// define an interface for the Membership document that extends mongoose's Document
+// one document per user per organization they belong to, checked by requireOrgRole
+export interface IMembership extends Document {
+  organization: Types.ObjectId;
+  user: Types.ObjectId;
+  role: OrgRole;
+  createdAt: Date; // when the user joined
+  updatedAt: Date;
+}
+
+// define the Membership schema with the fields and their types, and set
+// timestamps to true to automatically add createdAt and updatedAt fields
+export const MembershipSchema = new Schema<IMembership>(
+  {
+    organization: {
+      type: Schema.Types.ObjectId,
+      ref: "Organization",
+      required: true,
+    },
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+      index: true,
+    },
+    role: { type: String, enum: ORG_ROLES, required: true },
+  },
+  { timestamps: true },
+);
+
+// a user belongs to an organization at most once
+MembershipSchema.index({ organization: 1, user: 1 }, { unique: true });
+
+// create the Membership model based on the MembershipSchema
+const Membership = model<IMembership>("Membership", MembershipSchema);
+
+// delete the organizations the user owns, with their members and invitations, then the user's other memberships
+// deleteAccount refuses while an owned organization has other members, so this only takes organizations nobody else uses
+// (or that someone joined during the grace period)
+registerUserDataCleanup("memberships", async (user) => {
+  const owned = await Membership.find({ user: user._id, role: "owner" });
+  const organizationIds = owned.map((membership) => membership.organization);
+  await Organization.deleteMany({ _id: { $in: organizationIds } });
+  await OrganizationInvite.deleteMany({
+    organization: { $in: organizationIds },
+  });
+  await Membership.deleteMany({ organization: { $in: organizationIds } });
+  await Membership.deleteMany({ user: user._id });
+});
+
+// give the user a list of the organizations they belong to in their data export
+registerUserDataExporter("memberships", (user) =>
+  Membership.find({ user: user._id })
+    .select("organization role createdAt")
+    .populate("organization", "name")
+    .lean(),
+);
+
+export default Membership;
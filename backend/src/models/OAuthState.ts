@@ -0,0 +1,46 @@
+// import Schema and model from mongoose to define our OAuthState schema and model
+import { Schema, model } from "mongoose";
+// import Document and Types for TypeScript to define the OAuthState interface
+import type { Document, Types } from "mongoose";
+// import the registry so purging an account also deletes the documents in this collection
+import { registerUserDataCleanup } from "../utils/userDataRegistry.js";
+
+// how long the user has to finish signing in at the provider
+export const OAUTH_STATE_TTL_MS = 10 * 60 * 1000; // 10 minutes in milliseconds
+
+// define an interface for the OAuthState document that extends mongoose's Document
+// one document per sign in attempt, created when we redirect to the provider and deleted when the callback uses it
+export interface IOAuthState extends Document {
+  state: string; // random value sent to the provider and kept in a cookie, stops login CSRF
+  provider: string;
+  codeVerifier: string; // PKCE verifier, only its hash is sent to the provider
+  nonce: string; // must come back inside the ID token, stops ID token replay
+  linkUser: Types.ObjectId | null; // set when a logged in user is connecting an account instead of signing in
+  expiresAt: Date;
+}
+
+// define the OAuthState schema with the fields and their types
+export const OAuthStateSchema = new Schema<IOAuthState>({
+  state: { type: String, required: true, unique: true },
+  provider: { type: String, required: true },
+  codeVerifier: { type: String, required: true },
+  nonce: { type: String, required: true },
+  linkUser: { type: Schema.Types.ObjectId, ref: "User", default: null },
+  expiresAt: {
+    type: Date,
+    default: () => new Date(Date.now() + OAUTH_STATE_TTL_MS),
+  },
+});
+
+// TTL index so MongoDB deletes sign in attempts that were never finished
+OAuthStateSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// create the OAuthState model based on the OAuthStateSchema
+const OAuthState = model<IOAuthState>("OAuthState", OAuthStateSchema);
+
+// delete the user's unfinished account linking attempts when their account is purged
+registerUserDataCleanup("oauth-states", (user) =>
+  OAuthState.deleteMany({ linkUser: user._id }),
+);
+
+export default OAuthState;
@@ -0,0 +1,26 @@
+// import Schema and model from mongoose to define our Organization schema and model
+import { Schema, model } from "mongoose";
+// import Document for TypeScript to define the Organization interface
+import type { Document } from "mongoose";
+
+// define an interface for the Organization document that extends mongoose's Document
+// who belongs to it and with which role is kept in the Membership collection
+export interface IOrganization extends Document {
+  name: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// define the Organization schema with the fields and their types, and set
+// timestamps to true to automatically add createdAt and updatedAt fields
+export const OrganizationSchema = new Schema<IOrganization>(
+  {
+    name: { type: String, required: true, trim: true, maxlength: 100 },
+  },
+  { timestamps: true },
+);
+
+// create the Organization model based on the OrganizationSchema
+const Organization = model<IOrganization>("Organization", OrganizationSchema);
+
+export default Organization;
@@ -0,0 +1,60 @@
+// import Schema and model from mongoose to define our OrganizationInvite schema and model
+import { Schema, model } from "mongoose";
+// import Document and Types for TypeScript to define the OrganizationInvite interface
+import type { Document, Types } from "mongoose";
+import { ASSIGNABLE_ORG_ROLES } from "../config/organizationConfig.js";
+import type { OrgRole } from "../config/organizationConfig.js";
+// import the registry so purging an account also deletes the documents in this collection
+import { registerUserDataCleanup } from "../utils/userDataRegistry.js";
+
+// define an interface for the OrganizationInvite document that extends mongoose's Document
+// one document per pending invitation, deleted when it's accepted, declined or revoked
+export interface IOrganizationInvite extends Document {
+  organization: Types.ObjectId;
+  email: string; // lowercased, only the account with this email can accept
+  role: OrgRole;
+  tokenHash: string; // SHA-256 hash of the token in the emailed link, we never store the raw token
+  invitedBy: Types.ObjectId | null; // null once the inviter's account is purged
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// define the OrganizationInvite schema with the fields and their types, and set
+// timestamps to true to automatically add createdAt and updatedAt fields
+export const OrganizationInviteSchema = new Schema<IOrganizationInvite>(
+  {
+    organization: {
+      type: Schema.Types.ObjectId,
+      ref: "Organization",
+      required: true,
+      index: true,
+    },
+    email: { type: String, required: true, lowercase: true, trim: true },
+    role: { type: String, enum: ASSIGNABLE_ORG_ROLES, required: true },
+    tokenHash: { type: String, required: true, unique: true },
+    invitedBy: { type: Schema.Types.ObjectId, ref: "User", default: null },
+    expiresAt: { type: Date, required: true },
+  },
+  { timestamps: true },
+);
+
+// TTL index so MongoDB deletes invitations that were never answered
+OrganizationInviteSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// create the OrganizationInvite model based on the OrganizationInviteSchema
+const OrganizationInvite = model<IOrganizationInvite>(
+  "OrganizationInvite",
+  OrganizationInviteSchema,
+);
+
+// delete invitations sent to the user, and forget who sent the ones they sent, when their account is purged
+registerUserDataCleanup("organization-invites", async (user) => {
+  await OrganizationInvite.deleteMany({ email: user.email.toLowerCase() });
+  await OrganizationInvite.updateMany(
+    { invitedBy: user._id },
+    { invitedBy: null },
+  );
+});
+
+export default OrganizationInvite;
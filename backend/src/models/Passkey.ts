@@ -0,0 +1,68 @@
+// import Schema and model from mongoose to define our Passkey schema and model
+import { Schema, model } from "mongoose";
+// import Document and Types for TypeScript to define the Passkey interface
+import type { Document, Types } from "mongoose";
+// import the registry so purging an account deletes the documents in this collection, and exporting includes them
+import {
+  registerUserDataCleanup,
+  registerUserDataExporter,
+} from "../utils/userDataRegistry.js";
+
+// define an interface for the Passkey document that extends mongoose's Document
+// one document per WebAuthn credential, a user can register several (phone, laptop, security key, etc.)
+export interface IPasskey extends Document {
+  user: Types.ObjectId;
+  credentialId: string; // base64url credential id chosen by the authenticator
+  publicKey: Buffer; // COSE encoded public key, used to check every login signature
+  counter: number; // signature counter, a counter that goes backwards means the credential was cloned
+  transports: string[]; // hints for the browser on how to reach the authenticator ("internal", "usb", "hybrid", etc.)
+  name: string; // label the user picks, e.g. "MacBook Touch ID"
+  deviceType: "singleDevice" | "multiDevice"; // multiDevice passkeys are synced, e.g. iCloud Keychain
+  backedUp: boolean;
+  lastUsedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// define the Passkey schema with the fields and their types, and set
+// timestamps to true to automatically add createdAt and updatedAt fields
+export const PasskeySchema = new Schema<IPasskey>(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+      index: true,
+    },
+    credentialId: { type: String, required: true, unique: true },
+    publicKey: { type: Buffer, required: true },
+    counter: { type: Number, default: 0 },
+    transports: { type: [String], default: [] },
+    name: { type: String, required: true, trim: true, maxlength: 64 },
+    deviceType: {
+      type: String,
+      enum: ["singleDevice", "multiDevice"],
+      required: true,
+    },
+    backedUp: { type: Boolean, default: false },
+    lastUsedAt: { type: Date, default: null },
+  },
+  { timestamps: true },
+);
+
+// create the Passkey model based on the PasskeySchema
+const Passkey = model<IPasskey>("Passkey", PasskeySchema);
+
+// delete the user's passkeys when their account is purged
+registerUserDataCleanup("passkeys", (user) =>
+  Passkey.deleteMany({ user: user._id }),
+);
+
+// give the user a copy of their passkeys in their data export, without the public keys which are only useful to us
+registerUserDataExporter("passkeys", (user) =>
+  Passkey.find({ user: user._id })
+    .select("name deviceType backedUp transports createdAt lastUsedAt")
+    .lean(),
+);
+
+export default Passkey;
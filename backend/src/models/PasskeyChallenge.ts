@@ -0,0 +1,46 @@
+// import Schema and model from mongoose to define our PasskeyChallenge schema and model
+import { Schema, model } from "mongoose";
+// import Document and Types for TypeScript to define the PasskeyChallenge interface
+import type { Document, Types } from "mongoose";
+// import the registry so purging an account also deletes the documents in this collection
+import { registerUserDataCleanup } from "../utils/userDataRegistry.js";
+
+// what the challenge was issued for, a registration challenge can't be used to log in and vice versa
+export type PasskeyChallengeType = "registration" | "authentication";
+
+// define an interface for the PasskeyChallenge document that extends mongoose's Document
+// every WebAuthn ceremony signs a random challenge from the server, we store it until the response comes back
+export interface IPasskeyChallenge extends Document {
+  challenge: string; // base64url challenge sent to the browser
+  type: PasskeyChallengeType;
+  user: Types.ObjectId | null; // set for registration, null for login because we don't know who is logging in yet
+  expiresAt: Date;
+}
+
+// define the PasskeyChallenge schema with the fields and their types
+export const PasskeyChallengeSchema = new Schema<IPasskeyChallenge>({
+  challenge: { type: String, required: true, unique: true },
+  type: {
+    type: String,
+    enum: ["registration", "authentication"],
+    required: true,
+  },
+  user: { type: Schema.Types.ObjectId, ref: "User", default: null },
+  expiresAt: { type: Date, required: true },
+});
+
+// TTL index so MongoDB deletes challenges that were never answered
+PasskeyChallengeSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// create the PasskeyChallenge model based on the PasskeyChallengeSchema
+const PasskeyChallenge = model<IPasskeyChallenge>(
+  "PasskeyChallenge",
+  PasskeyChallengeSchema,
+);
+
+// delete the user's passkey challenges when their account is purged
+registerUserDataCleanup("passkey-challenges", (user) =>
+  PasskeyChallenge.deleteMany({ user: user._id }),
+);
+
+export default PasskeyChallenge;
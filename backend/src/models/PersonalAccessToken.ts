@@ -0,0 +1,68 @@
+// import Schema and model from mongoose to define our PersonalAccessToken schema and model
+import { Schema, model } from "mongoose";
+// import Document and Types for TypeScript to define the PersonalAccessToken interface
+import type { Document, Types } from "mongoose";
+import { TOKEN_SCOPES } from "../config/personalAccessTokenConfig.js";
+import type { TokenScope } from "../config/personalAccessTokenConfig.js";
+// import the registry so purging an account deletes the documents in this collection, and exporting includes them
+import {
+  registerUserDataCleanup,
+  registerUserDataExporter,
+} from "../utils/userDataRegistry.js";
+
+// define an interface for the PersonalAccessToken document that extends mongoose's Document
+// one document per token a user created for a script or integration, the token itself is only shown when it's created
+export interface IPersonalAccessToken extends Document {
+  user: Types.ObjectId;
+  name: string; // label the user picks, e.g. "Backup script"
+  tokenHash: string; // SHA-256 hash of the token, we never store the raw token
+  prefix: string; // the start of the token, e.g. "pat_Xk3b9QzA", so the user can tell their tokens apart
+  scopes: TokenScope[];
+  expiresAt: Date;
+  lastUsedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// define the PersonalAccessToken schema with the fields and their types, and set
+// timestamps to true to automatically add createdAt and updatedAt fields
+export const PersonalAccessTokenSchema = new Schema<IPersonalAccessToken>(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+      index: true,
+    },
+    name: { type: String, required: true, trim: true, maxlength: 64 },
+    tokenHash: { type: String, required: true, unique: true },
+    prefix: { type: String, required: true },
+    scopes: { type: [String], enum: TOKEN_SCOPES, default: [] },
+    expiresAt: { type: Date, required: true },
+    lastUsedAt: { type: Date, default: null },
+  },
+  { timestamps: true },
+);
+
+// TTL index so MongoDB deletes expired tokens on its own, no cleanup job needed
+PersonalAccessTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// create the PersonalAccessToken model based on the PersonalAccessTokenSchema
+const PersonalAccessToken = model<IPersonalAccessToken>(
+  "PersonalAccessToken",
+  PersonalAccessTokenSchema,
+);
+
+// delete the user's tokens when their account is purged
+registerUserDataCleanup("personal-access-tokens", (user) =>
+  PersonalAccessToken.deleteMany({ user: user._id }),
+);
+
+// give the user a list of their tokens in their data export, without the hashes
+registerUserDataExporter("personal-access-tokens", (user) =>
+  PersonalAccessToken.find({ user: user._id })
+    .select("name prefix scopes createdAt expiresAt lastUsedAt")
+    .lean(),
+);
+
+export default PersonalAccessToken;
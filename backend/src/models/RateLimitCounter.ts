@@ -0,0 +1,36 @@
+// import Schema and model from mongoose to define our RateLimitCounter schema and model
+import { Schema, model } from "mongoose";
+// import Document for TypeScript to define the RateLimitCounter interface
+import type { Document } from "mongoose";
+
+// define an interface for the RateLimitCounter document that extends mongoose's Document
+// one document per rate limit key, used by the Mongo rate limit store
+// fixed window counters use count, token buckets use tokens and refilledAt
+export interface IRateLimitCounter extends Document {
+  key: string; // policy name plus client key, e.g. "register:ip:203.0.113.7", fixed windows add the window start
+  count: number;
+  tokens: number;
+  refilledAt: Date;
+  allowed: boolean; // whether the last token bucket request got a token
+  expiresAt: Date;
+}
+
+// define the RateLimitCounter schema with the fields and their types
+export const RateLimitCounterSchema = new Schema<IRateLimitCounter>({
+  key: { type: String, required: true, unique: true },
+  count: { type: Number, default: 0 },
+  // no defaults for the token bucket fields, the update pipeline treats a missing value as a new, full bucket
+  tokens: { type: Number },
+  refilledAt: { type: Date },
+  allowed: { type: Boolean },
+  expiresAt: { type: Date, required: true },
+});
+
+// TTL index so MongoDB deletes finished windows and full buckets
+RateLimitCounterSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// create and export the RateLimitCounter model based on the RateLimitCounterSchema
+export default model<IRateLimitCounter>(
+  "RateLimitCounter",
+  RateLimitCounterSchema,
+);
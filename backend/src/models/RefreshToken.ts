@@ -0,0 +1,70 @@
+// import Schema and model from mongoose to define our RefreshToken schema and model
+import { Schema, model } from "mongoose";
+// import Document and Types for TypeScript to define the RefreshToken interface
+import type { Document, Types } from "mongoose";
+// import the registry so purging an account also deletes the documents in this collection
+import { registerUserDataCleanup } from "../utils/userDataRegistry.js";
+
+// reasons a refresh token can be revoked, stored so we can tell a normal rotation apart from a reuse attack
+export type RefreshTokenRevokedReason =
+  | "rotated"
+  | "reuse"
+  | "logout"
+  | "revoked" // revoked by the user from the sessions list
+  | "reset" // revoked because the password was reset
+  | "admin" // revoked by an admin, e.g. when disabling the account
+  | "deleted" // revoked because the user asked to delete their account
+  | "email-revert"; // revoked from the "this wasn't me" link sent when the email was changed
+
+// define an interface for the RefreshToken document that extends mongoose's Document
+export interface IRefreshToken extends Document {
+  user: Types.ObjectId;
+  tokenHash: string; // SHA-256 hash of the refresh token, we never store the raw token
+  family: string; // every token minted from the same login shares a family id
+  expiresAt: Date;
+  revokedAt: Date | null;
+  revokedReason: RefreshTokenRevokedReason | null;
+  replacedByHash: string | null; // hash of the token that replaced this one during rotation
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// define the RefreshToken schema, one document per refresh token ever issued
+export const RefreshTokenSchema = new Schema<IRefreshToken>(
+  {
+    user: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    tokenHash: { type: String, required: true, unique: true },
+    family: { type: String, required: true, index: true },
+    expiresAt: { type: Date, required: true },
+    revokedAt: { type: Date, default: null },
+    revokedReason: {
+      type: String,
+      enum: [
+        "rotated",
+        "reuse",
+        "logout",
+        "revoked",
+        "reset",
+        "admin",
+        "deleted",
+        "email-revert",
+      ],
+      default: null,
+    },
+    replacedByHash: { type: String, default: null },
+  },
+  { timestamps: true },
+);
+
+// TTL index so MongoDB deletes expired tokens on its own, no cleanup job needed
+RefreshTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// create the RefreshToken model based on the RefreshTokenSchema
+const RefreshToken = model<IRefreshToken>("RefreshToken", RefreshTokenSchema);
+
+// delete the user's refresh tokens when their account is purged
+registerUserDataCleanup("refresh-tokens", (user) =>
+  RefreshToken.deleteMany({ user: user._id }),
+);
+
+export default RefreshToken;
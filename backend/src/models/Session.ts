@@ -0,0 +1,67 @@
+// import Schema and model from mongoose to define our Session schema and model
+import { Schema, model } from "mongoose";
+// import Document and Types for TypeScript to define the Session interface
+import type { Document, Types } from "mongoose";
+// import the registry so purging an account deletes the documents in this collection, and exporting includes them
+import {
+  registerUserDataCleanup,
+  registerUserDataExporter,
+} from "../utils/userDataRegistry.js";
+
+// how long a session stays alive without being used, matches the refresh token lifetime
+export const SESSION_LIFETIME_MS = 7 * 24 * 60 * 60 * 1000; // 7 days in milliseconds
+
+// define an interface for the Session document that extends mongoose's Document
+// one session is created per login, and its id doubles as the refresh token family id
+export interface ISession extends Document {
+  user: Types.ObjectId;
+  userAgent: string;
+  ip: string;
+  lastUsedAt: Date;
+  expiresAt: Date; // pushed forward every time the session is used
+  revokedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// define the Session schema with the fields and their types, and set
+// timestamps to true to automatically add createdAt and updatedAt fields
+export const SessionSchema = new Schema<ISession>(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+      index: true,
+    },
+    userAgent: { type: String, default: "" },
+    ip: { type: String, default: "" },
+    lastUsedAt: { type: Date, default: Date.now },
+    expiresAt: {
+      type: Date,
+      default: () => new Date(Date.now() + SESSION_LIFETIME_MS),
+    },
+    revokedAt: { type: Date, default: null },
+  },
+  { timestamps: true },
+);
+
+// TTL index so MongoDB deletes sessions that haven't been used for a full refresh token lifetime
+SessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// create the Session model based on the SessionSchema
+const Session = model<ISession>("Session", SessionSchema);
+
+// delete the user's sessions when their account is purged
+registerUserDataCleanup("sessions", (user) =>
+  Session.deleteMany({ user: user._id }),
+);
+
+// give the user a copy of their sessions (devices they signed in on) in their data export
+registerUserDataExporter("sessions", (user) =>
+  Session.find({ user: user._id })
+    .select("userAgent ip createdAt lastUsedAt expiresAt revokedAt")
+    .lean(),
+);
+
+export default Session;
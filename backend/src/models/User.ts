@@ -2,19 +2,66 @@
 import { Schema, model } from "mongoose";
 // import Document type for TypeScript to define the User interface
 import type { Document } from "mongoose";
-// import bcrypt for hashing passwords before saving to the database
-import bcrypt from "bcrypt";
+// import the hashing helpers, the algorithm for new hashes comes from config/passwordConfig.ts
+import { verifyPasswordHash } from "../utils/passwordHasher.js";
+// import the role and permission lists to restrict the values the user can have
+import { ROLES, PERMISSIONS } from "../config/roleConfig.js";
+import type { Role, Permission } from "../config/roleConfig.js";
+import {
+  getPasswordHasher,
+  getPasswordSettings,
+} from "../config/passwordConfig.js";
+import { logger } from "../utils/logger.js";
 
 // define an interface for the User document that extends mongoose's Document
 export interface IUser extends Document {
   name: string;
   email: string;
+  // a requested email change waiting for the link sent to the new address, see updateEmail and confirmEmailChange
+  pendingEmail: string | null;
+  pendingEmailExpires: Date | null;
   password: string;
+  // hashes of the previous passwords, newest first, so they can't be reused, see isPasswordReused
+  passwordHistory: string[];
   isVerified: boolean;
+  // optional profile details the user can edit, see updateProfile
+  displayName: string | null; // shown instead of the name when set
+  bio: string | null;
+  timezone: string | null; // IANA time zone, e.g. "Europe/London"
+  locale: string | null; // BCP 47 language tag, e.g. "en-GB"
+  // id of the current avatar in storage, a new upload gets a new id so cached images never go stale, see avatarController
+  avatarId: string | null;
+  // roles decide what the user may do, see config/roleConfig.ts for the permissions each role grants
+  roles: Role[];
+  permissions: Permission[]; // granted directly, on top of the permissions from the roles
+  // set by an admin to block the account, disabled users can't log in and their tokens stop working
+  disabledAt: Date | null;
+  disabledReason: string | null;
+  // set by an admin to make the user choose a new password before they can log in with a password again
+  passwordResetRequired: boolean;
+  // set when the user asks to delete their account, the account is purged once this time passes unless they log in again first
+  deletionScheduledFor: Date | null;
+  // set when the purge job starts deleting the account's data, from then on the deletion can't be cancelled
+  // stays set if a cleanup fails, so the next run of the job retries the purge
+  purgeStartedAt: Date | null;
+  // SHA-256 hash of the single-use password reset token, and when it stops working
+  passwordResetTokenHash: string | null;
+  passwordResetExpires: Date | null;
+  // TOTP two-factor authentication settings, the secrets are excluded from queries unless explicitly selected
+  twoFactor: {
+    enabled: boolean;
+    secret: string | null; // base32 TOTP secret, only set once setup is confirmed
+    pendingSecret: string | null; // secret generated by setup, waiting for the first code to confirm it
+    backupCodeHashes: string[]; // bcrypt hashes of the unused one-time backup codes
+    lastUsedStep: number | null; // time step of the last accepted code, so a code can't be replayed
+    enabledAt: Date | null; // "remember this device" cookies issued before this are ignored
+  };
   createdAt: Date; // createdAt and updatedAt will be automatically added by Mongoose when we set timestamps: true in the schema options
   updatedAt: Date;
+  __v: number; // mongoose's version key, updateProfile uses it to reject edits made from a stale copy
   comparePassword(candidatePassword: string): Promise<boolean>;
   updatePassword(newPassword: string): Promise<void>;
+  isPasswordReused(candidatePassword: string): Promise<boolean>;
 }
 
 // define the User schema with the fields and their types, and set
@@ -22,9 +69,43 @@ export interface IUser extends Document {
 export const UserSchema = new Schema<IUser>(
   {
     name: { type: String, required: true },
-    email: { type: String, required: true, unique: true },
+    // emails are stored lowercase and trimmed, so the unique index and lookups don't depend on how the user typed them
+    // mongoose applies the same setters to query filters, so findOne({ email }) with any casing still matches
+    email: {
+      type: String,
+      required: true,
+      unique: true,
+      lowercase: true,
+      trim: true,
+    },
+    pendingEmail: { type: String, default: null, lowercase: true, trim: true },
+    pendingEmailExpires: { type: Date, default: null },
     password: { type: String, required: true },
+    passwordHistory: { type: [String], default: [] },
+    // defaults to true so accounts are verified unless ENABLE_EMAIL_VERIFICATION is on, see registerUser
     isVerified: { type: Boolean, default: true },
+    displayName: { type: String, default: null },
+    bio: { type: String, default: null },
+    timezone: { type: String, default: null },
+    locale: { type: String, default: null },
+    avatarId: { type: String, default: null },
+    roles: { type: [String], enum: ROLES, default: ["user"] },
+    permissions: { type: [String], enum: PERMISSIONS, default: [] },
+    disabledAt: { type: Date, default: null },
+    disabledReason: { type: String, default: null },
+    passwordResetRequired: { type: Boolean, default: false },
+    deletionScheduledFor: { type: Date, default: null, index: true },
+    purgeStartedAt: { type: Date, default: null },
+    passwordResetTokenHash: { type: String, default: null, index: true },
+    passwordResetExpires: { type: Date, default: null },
+    twoFactor: {
+      enabled: { type: Boolean, default: false },
+      secret: { type: String, default: null, select: false },
+      pendingSecret: { type: String, default: null, select: false },
+      backupCodeHashes: { type: [String], default: [], select: false },
+      lastUsedStep: { type: Number, default: null },
+      enabledAt: { type: Date, default: null },
+    },
   },
   { timestamps: true }
 );
@@ -34,15 +115,36 @@ UserSchema.pre<IUser>("save", async function () {
   // early return if the password field has not been modified to avoid re-hashing an already hashed password
   if (!this.isModified("password")) return;
 
-  // hash the password with a salt round of 10 and set it back to the password field
-  this.password = await bcrypt.hash(this.password, 10);
+  // hash the password with the configured algorithm and set it back to the password field
+  this.password = await getPasswordHasher().hash(this.password);
 });
 
 // comparePassword() method to compare a plain text password with the hashed password stored in the database
+// the hash says which algorithm and parameters made it, so hashes made with older settings still work
 UserSchema.methods.comparePassword = async function (
+  this: IUser,
   candidatePassword: string
 ): Promise<boolean> {
-  return bcrypt.compare(candidatePassword, this.password);
+  const isMatch = await verifyPasswordHash(candidatePassword, this.password);
+
+  // now that we know the password, replace an outdated hash in the background so the login doesn't wait for it
+  if (isMatch && getPasswordHasher().needsRehash(this.password)) {
+    rehashPassword(this, candidatePassword).catch((error) => {
+      logger.error("Failed to rehash password", { error });
+    });
+  }
+  return isMatch;
+};
+
+// store a new hash of a password the user just proved they know
+// updateOne skips the pre-save hook (the hash is already made), and the filter on the old hash
+// makes sure we never overwrite a password that was changed in the meantime
+const rehashPassword = async (user: IUser, password: string) => {
+  const newHash = await getPasswordHasher().hash(password);
+  await User.updateOne(
+    { _id: user._id, password: user.password },
+    { password: newHash }
+  );
 };
 
 // updatePassword() method to update the user's password using save() to trigger the pre-save middleware for hashing
@@ -53,9 +155,26 @@ UserSchema.methods.comparePassword = async function (
 UserSchema.methods.updatePassword = async function (
   newPassword: string
 ): Promise<void> {
+  // keep the hash being replaced, so the password can't be changed straight back to it
+  const { historySize } = getPasswordSettings();
+  this.passwordHistory = [this.password, ...this.passwordHistory].slice(
+    0,
+    historySize
+  );
   this.password = newPassword;
   await this.save();
 };
 
+// isPasswordReused() method to check a new password against the current one and the ones in the history
+UserSchema.methods.isPasswordReused = async function (
+  candidatePassword: string
+): Promise<boolean> {
+  for (const hash of [this.password, ...this.passwordHistory]) {
+    if (await verifyPasswordHash(candidatePassword, hash)) return true;
+  }
+  return false;
+};
+
 // create and export the User model based on the UserSchema
-export default model<IUser>("User", UserSchema);
+const User = model<IUser>("User", UserSchema);
+export default User;
@@ -0,0 +1,86 @@
+import { Router } from "express";
+import {
+  verifyJWT,
+  requirePermission,
+} from "../middleware/authMiddleware.js";
+import * as adminController from "../controllers/adminController.js";
+import { handleValidationErrors } from "../middleware/authValidation.js";
+import {
+  validateListUsers,
+  validateUserId,
+  validateUpdateUser,
+  validateDisableUser,
+  validateListAuthEvents,
+} from "../middleware/adminValidation.js";
+import { rateLimit } from "../middleware/rateLimiter.js";
+import { rateLimitPolicies } from "../config/rateLimitConfig.js";
+
+const router = Router();
+
+// every admin route needs a valid token, and is rate limited per admin
+router.use(verifyJWT, rateLimit(rateLimitPolicies.admin));
+
+// viewing users needs users:read, changing them needs users:manage (and roles:manage to change roles, checked in updateUser)
+const canRead = requirePermission("users:read");
+const canManage = requirePermission("users:manage");
+
+router.get(
+  "/users",
+  canRead,
+  validateListUsers,
+  handleValidationErrors,
+  adminController.listUsers
+);
+router.get(
+  "/users/:id",
+  canRead,
+  validateUserId,
+  handleValidationErrors,
+  adminController.getUser
+);
+router.patch(
+  "/users/:id",
+  canManage,
+  validateUpdateUser,
+  handleValidationErrors,
+  adminController.updateUser
+);
+router.post(
+  "/users/:id/disable",
+  canManage,
+  validateDisableUser,
+  handleValidationErrors,
+  adminController.disableUser
+);
+router.post(
+  "/users/:id/enable",
+  canManage,
+  validateUserId,
+  handleValidationErrors,
+  adminController.enableUser
+);
+router.post(
+  "/users/:id/force-password-reset",
+  canManage,
+  validateUserId,
+  handleValidationErrors,
+  adminController.forcePasswordReset
+);
+router.post(
+  "/users/:id/revoke-tokens",
+  canManage,
+  validateUserId,
+  handleValidationErrors,
+  adminController.revokeUserTokens
+);
+
+// the security audit log, for every user
+router.get(
+  "/audit-events",
+  requirePermission("audit:read"),
+  validateListAuthEvents,
+  handleValidationErrors,
+  adminController.listAuthEvents
+);
+
+export default router;
@@ -1,6 +1,19 @@
 import { Router } from "express";
-import { verifyJWT } from "../middleware/authMiddleware.js";
+import {
+  verifyJWT,
+  authenticate,
+  requireScope,
+} from "../middleware/authMiddleware.js";
 import * as authController from "../controllers/authController.js";
+import * as sessionController from "../controllers/sessionController.js";
+import * as emailController from "../controllers/emailController.js";
+import * as twoFactorController from "../controllers/twoFactorController.js";
+import * as passkeyController from "../controllers/passkeyController.js";
+import * as oauthController from "../controllers/oauthController.js";
+import * as accountController from "../controllers/accountController.js";
+import * as avatarController from "../controllers/avatarController.js";
+import * as personalAccessTokenController from "../controllers/personalAccessTokenController.js";
+import * as magicLinkController from "../controllers/magicLinkController.js";
 // access authController functions via authController.functionName, e.g. authController.registerUser
 // import validation middleware for registration endpoint
 import {
@@ -9,30 +22,256 @@ import {
   validateLogin,
   validateUpdatePassword,
   validateUpdateEmail,
+  validateEmailChangeToken,
+  validateSessionId,
+  validateVerifyEmail,
+  validateForgotPassword,
+  validateResetPassword,
+  validateTwoFactorCode,
+  validateTwoFactorLogin,
+  validateDisableTwoFactor,
+  validatePasskeyId,
+  validatePasskeyRegistration,
+  validateRenamePasskey,
+  validatePasskeyLogin,
+  validateIdentityId,
+  validateDeleteAccount,
+  validateCancelDeletion,
+  validateDataExportDownload,
+  validateActivityQuery,
+  validateUpdateProfile,
+  validateAvatarUpload,
+  validateCreatePersonalAccessToken,
+  validatePersonalAccessTokenId,
+  validateRequestMagicLink,
+  validateMagicLinkToken,
 } from "../middleware/authValidation.js";
+import { parseAvatarUpload } from "../middleware/avatarUpload.js";
+// import the rate limiter and the policies for each kind of route
+import { rateLimit } from "../middleware/rateLimiter.js";
+import { rateLimitPolicies } from "../config/rateLimitConfig.js";
 
 const router = Router();
 
+// one limiter per policy, routes that share a policy share its counters
+const limit = {
+  login: rateLimit(rateLimitPolicies.login),
+  oauth: rateLimit(rateLimitPolicies.oauth),
+  register: rateLimit(rateLimitPolicies.register),
+  refresh: rateLimit(rateLimitPolicies.refresh),
+  emailToken: rateLimit(rateLimitPolicies.emailToken),
+  // checked per IP address first, then per email address
+  forgotPassword: [
+    rateLimit(rateLimitPolicies.forgotPasswordIp),
+    rateLimit(rateLimitPolicies.forgotPassword),
+  ],
+  magicLink: [
+    rateLimit(rateLimitPolicies.magicLinkIp),
+    rateLimit(rateLimitPolicies.magicLink),
+  ],
+  resendVerification: rateLimit(rateLimitPolicies.resendVerification),
+  updateEmail: rateLimit(rateLimitPolicies.updateEmail),
+  sensitive: rateLimit(rateLimitPolicies.sensitive),
+  accountRead: rateLimit(rateLimitPolicies.accountRead),
+  accountWrite: rateLimit(rateLimitPolicies.accountWrite),
+  dataExport: rateLimit(rateLimitPolicies.dataExport),
+  avatarUpload: rateLimit(rateLimitPolicies.avatarUpload),
+};
+
 // unprotected routes
 router.post(
   "/register",
+  limit.register,
   validateRegister,
   handleValidationErrors,
   authController.registerUser
 );
 router.post(
   "/login",
+  limit.login,
   validateLogin,
   handleValidationErrors,
   authController.loginUser
 );
-router.post("/refresh", authController.refreshToken);
+// second step of login for users with two-factor authentication, takes the challenge token returned by /login
+router.post(
+  "/login/2fa",
+  limit.login,
+  validateTwoFactorLogin,
+  handleValidationErrors,
+  twoFactorController.verifyTwoFactorLogin
+);
+// passwordless login with a passkey: get a challenge, then send back the signed response
+router.post(
+  "/passkeys/login/options",
+  limit.login,
+  passkeyController.getAuthenticationOptions
+);
+router.post(
+  "/passkeys/login/verify",
+  limit.login,
+  validatePasskeyLogin,
+  handleValidationErrors,
+  passkeyController.verifyAuthentication
+);
+// social login: list the enabled providers, start a sign in, and the callback the provider redirects back to
+router.get("/oauth/providers", limit.oauth, oauthController.getProviders);
+router.post(
+  "/oauth/:provider/start",
+  limit.oauth,
+  oauthController.startOAuthLogin
+);
+router.get(
+  "/oauth/:provider/callback",
+  limit.oauth,
+  oauthController.oauthCallback
+);
+// email sign in: send a one-time link, then open it in the same browser (POST from the frontend, GET when opened on the API)
+router.post(
+  "/magic-link",
+  limit.magicLink,
+  validateRequestMagicLink,
+  handleValidationErrors,
+  magicLinkController.requestMagicLink
+);
+router.post(
+  "/magic-link/verify",
+  limit.emailToken,
+  validateMagicLinkToken,
+  handleValidationErrors,
+  magicLinkController.verifyMagicLink
+);
+router.get(
+  "/magic-link/verify",
+  limit.emailToken,
+  magicLinkController.verifyMagicLinkRedirect
+);
+router.post("/refresh", limit.refresh, authController.refreshToken);
+// unprotected so the emailed link works in any browser, the token itself identifies the user
+router.post(
+  "/verify-email",
+  limit.emailToken,
+  validateVerifyEmail,
+  handleValidationErrors,
+  emailController.verifyEmail
+);
+// the links from an email change, one confirms the new address and the other undoes the change
+router.post(
+  "/confirm-email-change",
+  limit.emailToken,
+  validateEmailChangeToken,
+  handleValidationErrors,
+  emailController.confirmEmailChange
+);
+router.post(
+  "/revert-email-change",
+  limit.emailToken,
+  validateEmailChangeToken,
+  handleValidationErrors,
+  emailController.revertEmailChange
+);
+router.post(
+  "/forgot-password",
+  limit.forgotPassword,
+  validateForgotPassword,
+  handleValidationErrors,
+  authController.forgotPassword
+);
+router.post(
+  "/reset-password",
+  limit.emailToken,
+  validateResetPassword,
+  handleValidationErrors,
+  authController.resetPassword
+);
+// the link from the account deletion email, cancels the deletion without logging in
+router.post(
+  "/cancel-deletion",
+  limit.emailToken,
+  validateCancelDeletion,
+  handleValidationErrors,
+  accountController.cancelDeletion
+);
+// the signed link to a finished data export, the token in the URL takes the place of logging in
+router.get(
+  "/exports/:id/download",
+  limit.emailToken,
+  validateDataExportDownload,
+  handleValidationErrors,
+  accountController.downloadDataExport
+);
 
 // protected routes
-router.get("/me", verifyJWT, authController.getCurrentUser);
+// the routes using authenticate also accept personal access tokens that have the scope from requireScope
+router.get(
+  "/me",
+  authenticate,
+  requireScope("profile:read"),
+  limit.accountRead,
+  authController.getCurrentUser
+);
+// edit the profile details (name, display name, bio, time zone and locale)
+router.patch(
+  "/me",
+  authenticate,
+  requireScope("profile:write"),
+  limit.accountWrite,
+  validateUpdateProfile,
+  handleValidationErrors,
+  authController.updateProfile
+);
+// upload a new avatar (multipart/form-data, the image in the "avatar" field) or remove it
+router.post(
+  "/me/avatar",
+  verifyJWT,
+  limit.avatarUpload,
+  parseAvatarUpload,
+  validateAvatarUpload,
+  handleValidationErrors,
+  avatarController.uploadAvatar
+);
+router.delete(
+  "/me/avatar",
+  verifyJWT,
+  limit.accountWrite,
+  avatarController.removeAvatar
+);
+// schedule the account for deletion, it's purged after the grace period unless the user logs in again
+router.delete(
+  "/me",
+  verifyJWT,
+  limit.sensitive,
+  validateDeleteAccount,
+  handleValidationErrors,
+  accountController.deleteAccount
+);
+// personal data export: start building a ZIP of everything we store about the user, and check on the latest one
+router.post(
+  "/me/export",
+  verifyJWT,
+  limit.dataExport,
+  accountController.requestDataExport
+);
+router.get(
+  "/me/export",
+  verifyJWT,
+  limit.accountRead,
+  accountController.getDataExport
+);
+// recent security activity (logins, password and email changes, etc.) from the audit log
+router.get(
+  "/me/activity",
+  authenticate,
+  requireScope("activity:read"),
+  limit.accountRead,
+  validateActivityQuery,
+  handleValidationErrors,
+  accountController.getActivity
+);
 router.patch(
   "/update-password",
   verifyJWT,
+  limit.sensitive,
   validateUpdatePassword,
   handleValidationErrors,
   authController.updatePassword
@@ -40,13 +279,174 @@ router.patch(
 router.patch(
   "/update-email",
   verifyJWT,
+  limit.updateEmail,
   validateUpdateEmail,
   handleValidationErrors,
   authController.updateEmail
 );
+// drop an email change that hasn't been confirmed yet
+router.delete(
+  "/update-email",
+  verifyJWT,
+  limit.accountWrite,
+  emailController.cancelEmailChange
+);
+
+router.post(
+  "/resend-verification",
+  verifyJWT,
+  limit.resendVerification,
+  emailController.resendVerificationEmail
+);
+
+// session management routes
+router.get(
+  "/sessions",
+  authenticate,
+  requireScope("sessions:read"),
+  limit.accountRead,
+  sessionController.getSessions
+);
+// "sign out everywhere else" - revokes every session except the current one
+router.delete(
+  "/sessions",
+  verifyJWT,
+  limit.accountWrite,
+  sessionController.revokeOtherSessions
+);
+router.delete(
+  "/sessions/:id",
+  verifyJWT,
+  limit.accountWrite,
+  validateSessionId,
+  handleValidationErrors,
+  sessionController.revokeSession
+);
+
+// two-factor authentication routes
+// setup returns a new secret and QR code, confirm checks the first code and turns two-factor on
+router.post(
+  "/2fa/setup",
+  verifyJWT,
+  limit.accountWrite,
+  twoFactorController.setupTwoFactor
+);
+router.post(
+  "/2fa/confirm",
+  verifyJWT,
+  limit.sensitive,
+  validateTwoFactorCode,
+  handleValidationErrors,
+  twoFactorController.confirmTwoFactor
+);
+router.post(
+  "/2fa/disable",
+  verifyJWT,
+  limit.sensitive,
+  validateDisableTwoFactor,
+  handleValidationErrors,
+  twoFactorController.disableTwoFactor
+);
+router.post(
+  "/2fa/backup-codes",
+  verifyJWT,
+  limit.sensitive,
+  validateTwoFactorCode,
+  handleValidationErrors,
+  twoFactorController.regenerateBackupCodes
+);
+
+// passkey management routes
+router.get(
+  "/passkeys",
+  verifyJWT,
+  limit.accountRead,
+  passkeyController.getPasskeys
+);
+router.post(
+  "/passkeys/register/options",
+  verifyJWT,
+  limit.accountWrite,
+  passkeyController.getRegistrationOptions
+);
+router.post(
+  "/passkeys/register/verify",
+  verifyJWT,
+  limit.accountWrite,
+  validatePasskeyRegistration,
+  handleValidationErrors,
+  passkeyController.verifyRegistration
+);
+router.patch(
+  "/passkeys/:id",
+  verifyJWT,
+  limit.accountWrite,
+  validateRenamePasskey,
+  handleValidationErrors,
+  passkeyController.renamePasskey
+);
+router.delete(
+  "/passkeys/:id",
+  verifyJWT,
+  limit.accountWrite,
+  validatePasskeyId,
+  handleValidationErrors,
+  passkeyController.deletePasskey
+);
+
+// personal access tokens for scripts and integrations, the token is only in the response to POST
+router.get(
+  "/personal-access-tokens",
+  verifyJWT,
+  limit.accountRead,
+  personalAccessTokenController.getPersonalAccessTokens
+);
+router.post(
+  "/personal-access-tokens",
+  verifyJWT,
+  limit.sensitive,
+  validateCreatePersonalAccessToken,
+  handleValidationErrors,
+  personalAccessTokenController.createPersonalAccessToken
+);
+router.delete(
+  "/personal-access-tokens/:id",
+  verifyJWT,
+  limit.accountWrite,
+  validatePersonalAccessTokenId,
+  handleValidationErrors,
+  personalAccessTokenController.deletePersonalAccessToken
+);
+
+// linked social accounts routes, linking starts like a sign in but connects the account to the logged in user
+router.post(
+  "/oauth/:provider/link",
+  verifyJWT,
+  limit.oauth,
+  oauthController.startOAuthLink
+);
+router.get(
+  "/identities",
+  verifyJWT,
+  limit.accountRead,
+  oauthController.getIdentities
+);
+router.delete(
+  "/identities/:id",
+  verifyJWT,
+  limit.accountWrite,
+  validateIdentityId,
+  handleValidationErrors,
+  oauthController.unlinkIdentity
+);
 
 // logout route should maybe be delete but we use post for simplicity
 // NEVER USE GET FOR LOGOUT ROUTES AS IT CAN BE TRIGGERED BY IMG TAGS AND LINKS!
-router.post("/logout", verifyJWT, authController.logout);
+router.post(
+  "/logout",
+  verifyJWT,
+  limit.accountWrite,
+  authController.logout
+);
 
 export default router;
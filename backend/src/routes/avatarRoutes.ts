@@ -0,0 +1,19 @@
+import { Router } from "express";
+import * as avatarController from "../controllers/avatarController.js";
+import {
+  handleValidationErrors,
+  validateAvatarImage,
+} from "../middleware/authValidation.js";
+
+const router = Router();
+
+// avatar images are public, they're shown wherever the user appears
+// not rate limited, a page can show many avatars and the images are cached by the browser
+router.get(
+  "/:userId/:avatarId/:size",
+  validateAvatarImage,
+  handleValidationErrors,
+  avatarController.getAvatar
+);
+
+export default router;
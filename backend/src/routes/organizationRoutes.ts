@@ -0,0 +1,154 @@
+import { Router } from "express";
+import { verifyJWT, requireOrgRole } from "../middleware/authMiddleware.js";
+import * as organizationController from "../controllers/organizationController.js";
+import { handleValidationErrors } from "../middleware/authValidation.js";
+import {
+  validateCreateOrganization,
+  validateOrganizationId,
+  validateUpdateOrganization,
+  validateMemberId,
+  validateUpdateMemberRole,
+  validateTransferOwnership,
+  validateCreateInvite,
+  validateInviteId,
+  validateInviteToken,
+} from "../middleware/organizationValidation.js";
+import { rateLimit } from "../middleware/rateLimiter.js";
+import { rateLimitPolicies } from "../config/rateLimitConfig.js";
+
+const router = Router();
+
+// every organization route needs a valid token
+router.use(verifyJWT);
+
+const limit = {
+  read: rateLimit(rateLimitPolicies.accountRead),
+  write: rateLimit(rateLimitPolicies.accountWrite),
+};
+
+// the role the user needs in the organization named by :orgId, checked after validation so a bad id gets a 400
+const anyMember = requireOrgRole("owner", "admin", "member");
+const canManage = requireOrgRole("owner", "admin");
+const ownerOnly = requireOrgRole("owner");
+
+// the user's own organizations
+router.get("/", limit.read, organizationController.getOrganizations);
+router.post(
+  "/",
+  limit.write,
+  validateCreateOrganization,
+  handleValidationErrors,
+  organizationController.createOrganization
+);
+
+// answering an invitation, with the token from the emailed link, for the logged in user it was sent to
+// declared before /:orgId so "invitations" isn't taken for an organization id
+router.post(
+  "/invitations/lookup",
+  limit.read,
+  validateInviteToken,
+  handleValidationErrors,
+  organizationController.getInvitation
+);
+router.post(
+  "/invitations/accept",
+  limit.write,
+  validateInviteToken,
+  handleValidationErrors,
+  organizationController.acceptInvitation
+);
+router.post(
+  "/invitations/decline",
+  limit.write,
+  validateInviteToken,
+  handleValidationErrors,
+  organizationController.declineInvitation
+);
+
+// one organization
+router.get(
+  "/:orgId",
+  limit.read,
+  validateOrganizationId,
+  handleValidationErrors,
+  anyMember,
+  organizationController.getOrganization
+);
+router.patch(
+  "/:orgId",
+  limit.write,
+  validateUpdateOrganization,
+  handleValidationErrors,
+  canManage,
+  organizationController.updateOrganization
+);
+router.delete(
+  "/:orgId",
+  limit.write,
+  validateOrganizationId,
+  handleValidationErrors,
+  ownerOnly,
+  organizationController.deleteOrganization
+);
+router.post(
+  "/:orgId/transfer",
+  limit.write,
+  validateTransferOwnership,
+  handleValidationErrors,
+  ownerOnly,
+  organizationController.transferOwnership
+);
+
+// members, any member can list them and remove themselves, changing others is checked in the controller
+router.get(
+  "/:orgId/members",
+  limit.read,
+  validateOrganizationId,
+  handleValidationErrors,
+  anyMember,
+  organizationController.getMembers
+);
+router.patch(
+  "/:orgId/members/:userId",
+  limit.write,
+  validateUpdateMemberRole,
+  handleValidationErrors,
+  canManage,
+  organizationController.updateMemberRole
+);
+router.delete(
+  "/:orgId/members/:userId",
+  limit.write,
+  validateMemberId,
+  handleValidationErrors,
+  anyMember,
+  organizationController.removeMember
+);
+
+// invitations
+router.get(
+  "/:orgId/invites",
+  limit.read,
+  validateOrganizationId,
+  handleValidationErrors,
+  canManage,
+  organizationController.getInvites
+);
+router.post(
+  "/:orgId/invites",
+  limit.write,
+  validateCreateInvite,
+  handleValidationErrors,
+  canManage,
+  organizationController.createInvite
+);
+router.delete(
+  "/:orgId/invites/:inviteId",
+  limit.write,
+  validateInviteId,
+  handleValidationErrors,
+  canManage,
+  organizationController.revokeInvite
+);
+
+export default router;
@@ -0,0 +1,10 @@
+import { Router } from "express";
+import * as jwksController from "../controllers/jwksController.js";
+
+const router = Router();
+
+// the signing keys for access tokens in JWK Set format, public so any service can fetch them
+// not rate limited, the response is the same for everyone and cached by the services that read it
+router.get("/jwks.json", jwksController.getJwks);
+
+export default router;
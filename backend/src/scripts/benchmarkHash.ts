@@ -0,0 +1,95 @@
+// command line script to pick password hashing parameters for this machine
+// hashes a password with each algorithm at rising cost and suggests the strongest settings that stay under the target time
+// usage: npm run benchmark-hash -- [target milliseconds per hash, default 250]
+import {
+  createArgon2idHasher,
+  createBcryptHasher,
+  createScryptHasher,
+} from "../utils/passwordHasher.js";
+import type { PasswordHasher } from "../utils/passwordHasher.js";
+
+const targetMs = parseInt(process.argv[2] || "", 10) || 250;
+
+// time one hash, after a warm-up run so loading the algorithm isn't counted
+const measure = async (hasher: PasswordHasher) => {
+  await hasher.hash("benchmark-password");
+  const start = performance.now();
+  await hasher.hash("benchmark-password");
+  return performance.now() - start;
+};
+
+// try the candidates from cheapest to most expensive, and return the last one that stays under the target
+// stops at the first one over the target, the rest would only be slower
+const findStrongest = async <T>(
+  name: string,
+  candidates: T[],
+  createHasher: (params: T) => PasswordHasher,
+  describe: (params: T) => string,
+): Promise<T | null> => {
+  let strongest: T | null = null;
+  for (const params of candidates) {
+    const ms = await measure(createHasher(params));
+    console.log(
+      `${name.padEnd(9)} ${describe(params).padEnd(28)} ${ms.toFixed(0)} ms`,
+    );
+    if (ms > targetMs) break;
+    strongest = params;
+  }
+  return strongest;
+};
+
+console.log(
+  `Looking for the strongest settings that hash in under ${targetMs} ms\n`,
+);
+
+const bcrypt = await findStrongest(
+  "bcrypt",
+  [8, 9, 10, 11, 12, 13, 14, 15, 16].map((cost) => ({ cost })),
+  createBcryptHasher,
+  ({ cost }) => `cost=${cost}`,
+);
+
+// OWASP's minimum is 19 MiB with 2 passes, so raise the memory (the main defence against GPUs) from there
+const argon2id = await findStrongest(
+  "argon2id",
+  [19456, 32768, 65536, 131072, 262144].map((memoryKiB) => ({
+    memoryKiB,
+    timeCost: 2,
+    parallelism: 1,
+  })),
+  createArgon2idHasher,
+  ({ memoryKiB, timeCost, parallelism }) =>
+    `m=${memoryKiB},t=${timeCost},p=${parallelism}`,
+);
+
+// N=2^17 (128 MiB) is OWASP's recommendation, the larger sizes are left out so the benchmark can't use up the machine's memory
+const scrypt = await findStrongest(
+  "scrypt",
+  [14, 15, 16, 17].map((logN) => ({ logN, blockSize: 8, parallelism: 1 })),
+  createScryptHasher,
+  ({ logN, blockSize, parallelism }) =>
+    `ln=${logN},r=${blockSize},p=${parallelism}`,
+);
+
+console.log("\nSuggested settings (pick one algorithm):\n");
+if (argon2id) {
+  console.log("PASSWORD_HASH_ALGORITHM=argon2id");
+  console.log(`ARGON2_MEMORY_KIB=${argon2id.memoryKiB}`);
+  console.log(`ARGON2_TIME_COST=${argon2id.timeCost}`);
+  console.log(`ARGON2_PARALLELISM=${argon2id.parallelism}\n`);
+}
+if (scrypt) {
+  console.log("PASSWORD_HASH_ALGORITHM=scrypt");
+  console.log(`SCRYPT_LOG_N=${scrypt.logN}`);
+  console.log(`SCRYPT_BLOCK_SIZE=${scrypt.blockSize}`);
+  console.log(`SCRYPT_PARALLELISM=${scrypt.parallelism}\n`);
+}
+if (bcrypt) {
+  console.log("PASSWORD_HASH_ALGORITHM=bcrypt");
+  console.log(`BCRYPT_COST=${bcrypt.cost}\n`);
+}
+if (!bcrypt && !argon2id && !scrypt) {
+  console.log(
+    "Nothing met the target, try a higher one, e.g. npm run benchmark-hash -- 500",
+  );
+}
@@ -0,0 +1,37 @@
+// command line script to create a signing key for access and refresh tokens
+// prints the private key for JWT_PRIVATE_KEY and its public key, to add to JWT_VERIFICATION_KEYS on the servers while rotating
+// usage: npm run generate-jwt-key -- [EdDSA or RS256, default EdDSA]
+import { createPublicKey } from "node:crypto";
+import {
+  JWT_ALGORITHMS,
+  generateSigningKey,
+  getKeyId,
+} from "../utils/jwtKeys.js";
+import type { JwtAlgorithm } from "../utils/jwtKeys.js";
+
+const alg = process.argv[2] || "EdDSA";
+if (!JWT_ALGORITHMS.includes(alg as JwtAlgorithm)) {
+  console.error(
+    `Usage: npm run generate-jwt-key -- [${JWT_ALGORITHMS.join(" or ")}]`,
+  );
+  process.exit(1);
+}
+
+const privateKey = generateSigningKey(alg as JwtAlgorithm);
+const publicKey = createPublicKey(privateKey);
+
+// escape the newlines so each key fits on one line of a .env file
+const oneLine = (pem: string) => pem.trim().replace(/\n/g, "\\n");
+
+console.log(`Key id (kid): ${getKeyId(publicKey)}\n`);
+console.log(
+  `JWT_PRIVATE_KEY="${oneLine(privateKey.export({ type: "pkcs8", format: "pem" }).toString())}"\n`,
+);
+console.log("Public key, for JWT_VERIFICATION_KEYS:");
+console.log(
+  oneLine(publicKey.export({ type: "spki", format: "pem" }).toString()),
+);
+console.log(
+  "\nTo rotate: add the public key to JWT_VERIFICATION_KEYS and deploy, wait for services to pick up the new JWKS,\n" +
+    "then move the key to JWT_PRIVATE_KEY (keeping the old public key in JWT_VERIFICATION_KEYS until its tokens expire after 7 days)",
+);
@@ -0,0 +1,54 @@
+// command line script to lowercase emails stored before the User schema lowercased them, run once after upgrading
+// lookups lowercase the email they're given, so an account stored as "Jane@Example.com" can't log in until this has run
+// an address that would clash with another account's is left alone and reported, merge or rename one of them by hand
+// usage: npm run normalize-emails
+import "../config/loadEnv.js";
+import mongoose from "mongoose";
+import connectDB from "../config/db.js";
+import { getAppConfig } from "../config/appConfig.js";
+import User from "../models/User.js";
+
+await connectDB(getAppConfig().mongoUri);
+
+// the raw collection, so the schema's lowercase setter doesn't rewrite the filter
+const users = User.collection;
+const mixedCase = await users
+  .find({ $or: [{ email: /[A-Z]/ }, { pendingEmail: /[A-Z]/ }] })
+  .project<{
+    _id: mongoose.Types.ObjectId;
+    email: string;
+    pendingEmail: string | null;
+  }>({
+    email: 1,
+    pendingEmail: 1,
+  })
+  .toArray();
+
+let updated = 0;
+const clashes: string[] = [];
+for (const user of mixedCase) {
+  const email = user.email.trim().toLowerCase();
+  if (await users.findOne({ email, _id: { $ne: user._id } })) {
+    clashes.push(user.email);
+    continue;
+  }
+  await users.updateOne(
+    { _id: user._id },
+    {
+      $set: {
+        email,
+        pendingEmail: user.pendingEmail?.trim().toLowerCase() ?? null,
+      },
+    },
+  );
+  updated++;
+}
+await mongoose.disconnect();
+
+console.log(`Lowercased the email of ${updated} account(s)`);
+if (clashes.length > 0) {
+  console.log(
+    `Skipped ${clashes.length} account(s) whose lowercase email belongs to another account: ${clashes.join(", ")}`,
+  );
+  process.exitCode = 1;
+}
@@ -0,0 +1,23 @@
+// command line script to give an existing user the admin role
+// usage: npm run promote-admin -- user@example.com
+import "../config/loadEnv.js";
+import mongoose from "mongoose";
+import connectDB from "../config/db.js";
+import { getAppConfig } from "../config/appConfig.js";
+import { promoteToAdmin } from "../utils/adminBootstrap.js";
+
+const email = process.argv[2];
+if (!email) {
+  console.error("Usage: npm run promote-admin -- <email>");
+  process.exit(1);
+}
+
+await connectDB(getAppConfig().mongoUri);
+const user = await promoteToAdmin(email);
+await mongoose.disconnect();
+
+if (!user) {
+  console.error(`No user found with email ${email}`);
+  process.exit(1);
+}
+console.log(`${user.email} now has the roles: ${user.roles.join(", ")}`);
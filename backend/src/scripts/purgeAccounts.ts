@@ -0,0 +1,16 @@
+// command line script to purge every account whose deletion grace period is over, e.g. from a cron job
+// the server already does this on an interval (see startAccountPurgeSchedule), so this is only needed when that's not running
+// usage: npm run purge-accounts
+import "../config/loadEnv.js";
+import mongoose from "mongoose";
+// load the app so every module registers its user data cleanup, exactly like in the server
+import "../app.js";
+import connectDB from "../config/db.js";
+import { getAppConfig } from "../config/appConfig.js";
+import { purgeDueAccounts } from "../utils/accountDeletion.js";
+
+await connectDB(getAppConfig().mongoUri);
+const purged = await purgeDueAccounts();
+await mongoose.disconnect();
+
+console.log(`Purged ${purged} account(s)`);
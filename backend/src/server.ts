@@ -1,19 +1,33 @@
 // import and configure .env vars here so tests importing app.ts don't load .env
-import "dotenv/config";
-import app from "./app.js";
+import "./config/loadEnv.js";
+import { createApp } from "./app.js";
+import { loadAppConfig } from "./config/appConfig.js";
 import connectDB from "./config/db.js";
-
-const PORT = parseInt(process.env.PORT || "5001", 10);
+import { bootstrapAdmin } from "./utils/adminBootstrap.js";
+import { startAccountPurgeSchedule } from "./utils/accountDeletion.js";
+import { startDataExportCleanupSchedule } from "./utils/dataExport.js";
+import { logger } from "./utils/logger.js";
 
 async function startServer() {
   try {
-    await connectDB();
-    app.listen(PORT, () => {
-      console.log(`Server is running on port ${PORT}`);
+    // fails with a list of every missing or invalid setting before anything else starts
+    const config = loadAppConfig();
+    const app = createApp(config);
+    await connectDB(config.mongoUri);
+    // promote the first admin from BOOTSTRAP_ADMIN_EMAIL, if set
+    await bootstrapAdmin();
+    // purge accounts whose deletion grace period is over
+    startAccountPurgeSchedule();
+    // delete data exports (and their archives) once their download links have expired
+    startDataExportCleanupSchedule();
+    app.listen(config.port, () => {
+      logger.info("Server is running", {
+        port: config.port,
+        profile: config.profile,
+      });
     });
   } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : String(error);
-    console.error("Failed to start server:", errorMessage);
+    logger.error("Failed to start server", { error });
     process.exit(1);
   }
 }
@@ -11,6 +11,16 @@ export const createMockUser = (overrides?: Partial<IUser>): IUser =>
     email: "test@example.com",
     password: "hashedpassword",
     isVerified: true,
+    roles: ["user"],
+    permissions: [],
+    twoFactor: {
+      enabled: false,
+      secret: null,
+      pendingSecret: null,
+      backupCodeHashes: [],
+      lastUsedStep: null,
+      enabledAt: null,
+    },
     createdAt: new Date(),
     updatedAt: new Date(),
     ...overrides,
@@ -0,0 +1,148 @@
+import express from "express";
+import jwt from "jsonwebtoken";
+import { createHash, generateKeyPairSync, randomBytes } from "node:crypto";
+import type { AddressInfo } from "node:net";
+import type { Server } from "node:http";
+
+// A local OpenID Connect provider for tests, it implements discovery, authorization, token and JWKS endpoints
+// The authorization endpoint skips the login screen and signs in as whichever user the test set with setUser()
+
+// The account the next sign in returns
+export interface MockOidcUser {
+  sub: string;
+  email?: string;
+  email_verified?: boolean;
+  name?: string;
+}
+
+// What the authorization endpoint remembers about each code until the token endpoint exchanges it
+interface PendingCode {
+  clientId: string;
+  redirectUri: string;
+  codeChallenge: string;
+  nonce: string | undefined;
+  user: MockOidcUser;
+}
+
+export const startMockOidcServer = async (options: {
+  clientId: string;
+  clientSecret: string;
+}) => {
+  const { privateKey, publicKey } = generateKeyPairSync("rsa", {
+    modulusLength: 2048,
+  });
+  const kid = "test-key";
+  const codes = new Map<string, PendingCode>();
+  let currentUser: MockOidcUser = {
+    sub: "oidc-user-1",
+    email: "oidc@test.com",
+    email_verified: true,
+    name: "OIDC User",
+  };
+  // Lets tests tamper with the ID token, e.g. to send the wrong nonce
+  let idTokenOverrides: Record<string, unknown> = {};
+
+  const app = express();
+  app.use(express.urlencoded({ extended: false }));
+
+  // The issuer URL is only known once the server is listening
+  let issuer = "";
+
+  app.get("/.well-known/openid-configuration", (_req, res) => {
+    res.json({
+      issuer,
+      authorization_endpoint: `${issuer}/authorize`,
+      token_endpoint: `${issuer}/token`,
+      jwks_uri: `${issuer}/jwks`,
+    });
+  });
+
+  app.get("/jwks", (_req, res) => {
+    res.json({
+      keys: [{ ...publicKey.export({ format: "jwk" }), kid, alg: "RS256" }],
+    });
+  });
+
+  // Sign in immediately and redirect back with a code, like a real provider after the user clicks "Allow"
+  app.get("/authorize", (req, res) => {
+    const query = req.query as Record<string, string>;
+    if (query.code_challenge_method !== "S256") {
+      res.status(400).send("PKCE required");
+      return;
+    }
+    const code = randomBytes(16).toString("hex");
+    codes.set(code, {
+      clientId: query.client_id!,
+      redirectUri: query.redirect_uri!,
+      codeChallenge: query.code_challenge!,
+      nonce: query.nonce,
+      user: currentUser,
+    });
+    const redirect = new URL(query.redirect_uri!);
+    redirect.searchParams.set("code", code);
+    redirect.searchParams.set("state", query.state!);
+    res.redirect(redirect.toString());
+  });
+
+  // Exchange a code for tokens, checking the client, redirect URI and PKCE verifier like a real provider
+  app.post("/token", (req, res) => {
+    const body = req.body as Record<string, string>;
+    const pending = codes.get(body.code!);
+    codes.delete(body.code!);
+
+    const verifierHash = createHash("sha256")
+      .update(body.code_verifier ?? "")
+      .digest("base64url");
+    if (
+      !pending ||
+      body.client_id !== options.clientId ||
+      body.client_secret !== options.clientSecret ||
+      body.redirect_uri !== pending.redirectUri ||
+      verifierHash !== pending.codeChallenge
+    ) {
+      res.status(400).json({ error: "invalid_grant" });
+      return;
+    }
+
+    const idToken = jwt.sign(
+      {
+        iss: issuer,
+        aud: pending.clientId,
+        ...pending.user,
+        nonce: pending.nonce,
+        ...idTokenOverrides,
+      },
+      privateKey,
+      { algorithm: "RS256", keyid: kid, expiresIn: "5m" },
+    );
+    res.json({
+      access_token: randomBytes(16).toString("hex"),
+      token_type: "Bearer",
+      id_token: idToken,
+    });
+  });
+
+  const server: Server = await new Promise((resolve) => {
+    const listening = app.listen(0, () => resolve(listening));
+  });
+  issuer = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return {
+    issuer,
+    setUser(user: MockOidcUser) {
+      currentUser = user;
+    },
+    setIdTokenOverrides(overrides: Record<string, unknown>) {
+      idTokenOverrides = overrides;
+    },
+    // Follow the authorization URL like a browser would, returns the callback URL the provider redirected to
+    async authorize(authorizationUrl: string) {
+      const response = await fetch(authorizationUrl, { redirect: "manual" });
+      return new URL(response.headers.get("location")!);
+    },
+    close: () =>
+      new Promise<void>((resolve, reject) =>
+        server.close((error) => (error ? reject(error) : resolve())),
+      ),
+  };
+};
@@ -0,0 +1,173 @@
+import {
+  createHash,
+  generateKeyPairSync,
+  randomBytes,
+  sign,
+  type KeyObject,
+} from "node:crypto";
+
+// A software WebAuthn authenticator for tests, it does what a phone or security key does when the browser asks it to
+// create a passkey (attestation) or sign in with one (assertion), using an ES256 key pair held in memory
+// Only supports what our tests need: "none" attestation, one credential per authenticator
+
+// Minimal CBOR encoder (RFC 8949) for the values WebAuthn uses: integers, byte strings, text strings and maps
+type CborValue = number | string | Uint8Array | Map<CborValue, CborValue>;
+
+const cborHeader = (majorType: number, length: number): Buffer => {
+  if (length < 24) return Buffer.from([(majorType << 5) | length]);
+  if (length < 256) return Buffer.from([(majorType << 5) | 24, length]);
+  const header = Buffer.alloc(3);
+  header[0] = (majorType << 5) | 25;
+  header.writeUInt16BE(length, 1);
+  return header;
+};
+
+const encodeCbor = (value: CborValue): Buffer => {
+  if (typeof value === "number") {
+    // Negative integers are stored as -1 - n with major type 1
+    return value >= 0 ? cborHeader(0, value) : cborHeader(1, -1 - value);
+  }
+  if (typeof value === "string") {
+    const bytes = Buffer.from(value, "utf8");
+    return Buffer.concat([cborHeader(3, bytes.length), bytes]);
+  }
+  if (value instanceof Uint8Array) {
+    return Buffer.concat([cborHeader(2, value.length), value]);
+  }
+  const entries = [...value.entries()].flatMap(([key, item]) => [
+    encodeCbor(key),
+    encodeCbor(item),
+  ]);
+  return Buffer.concat([cborHeader(5, value.size), ...entries]);
+};
+
+const sha256 = (data: Buffer | string) =>
+  createHash("sha256").update(data).digest();
+
+// Authenticator data flags
+const USER_PRESENT = 0x01;
+const USER_VERIFIED = 0x04;
+const ATTESTED_CREDENTIAL_DATA = 0x40;
+
+// Options sent by the server, only the fields the authenticator reads
+interface CreationOptions {
+  challenge: string;
+  rp: { id?: string };
+  user: { id: string };
+}
+interface RequestOptions {
+  challenge: string;
+  rpId?: string;
+}
+
+export const createSoftwareAuthenticator = (origin: string) => {
+  const credentialId = randomBytes(16);
+  const { privateKey, publicKey } = generateKeyPairSync("ec", {
+    namedCurve: "P-256",
+  });
+  let signCount = 0;
+  let userHandle = "";
+
+  // Public key as a COSE_Key map: key type EC2, algorithm ES256, curve P-256 and the x/y coordinates
+  const cosePublicKey = (key: KeyObject) => {
+    const jwk = key.export({ format: "jwk" });
+    return encodeCbor(
+      new Map<CborValue, CborValue>([
+        [1, 2],
+        [3, -7],
+        [-1, 1],
+        [-2, Buffer.from(jwk.x!, "base64url")],
+        [-3, Buffer.from(jwk.y!, "base64url")],
+      ]),
+    );
+  };
+
+  const clientData = (type: string, challenge: string) =>
+    Buffer.from(
+      JSON.stringify({ type, challenge, origin, crossOrigin: false }),
+    );
+
+  const counter = () => {
+    const buffer = Buffer.alloc(4);
+    buffer.writeUInt32BE(signCount);
+    return buffer;
+  };
+
+  return {
+    id: credentialId.toString("base64url"),
+
+    // Answer navigator.credentials.create(), returns a RegistrationResponseJSON
+    createCredential(options: CreationOptions) {
+      userHandle = options.user.id;
+      const rpId = options.rp.id ?? new URL(origin).hostname;
+
+      const credentialIdLength = Buffer.alloc(2);
+      credentialIdLength.writeUInt16BE(credentialId.length);
+      const authData = Buffer.concat([
+        sha256(rpId),
+        Buffer.from([USER_PRESENT | USER_VERIFIED | ATTESTED_CREDENTIAL_DATA]),
+        counter(),
+        Buffer.alloc(16), // AAGUID, all zeros for an unknown authenticator
+        credentialIdLength,
+        credentialId,
+        cosePublicKey(publicKey),
+      ]);
+
+      const attestationObject = encodeCbor(
+        new Map<CborValue, CborValue>([
+          ["fmt", "none"],
+          ["attStmt", new Map()],
+          ["authData", authData],
+        ]),
+      );
+
+      return {
+        id: credentialId.toString("base64url"),
+        rawId: credentialId.toString("base64url"),
+        type: "public-key",
+        clientExtensionResults: {},
+        response: {
+          clientDataJSON: clientData(
+            "webauthn.create",
+            options.challenge,
+          ).toString("base64url"),
+          attestationObject: attestationObject.toString("base64url"),
+          transports: ["internal"],
+        },
+      };
+    },
+
+    // Answer navigator.credentials.get(), returns an AuthenticationResponseJSON
+    // Pass userVerified: false to act like a security key that was only touched, without a PIN or fingerprint
+    getAssertion(options: RequestOptions, { userVerified = true } = {}) {
+      signCount += 1;
+      const rpId = options.rpId ?? new URL(origin).hostname;
+      const authData = Buffer.concat([
+        sha256(rpId),
+        Buffer.from([USER_PRESENT | (userVerified ? USER_VERIFIED : 0)]),
+        counter(),
+      ]);
+      const clientDataJSON = clientData("webauthn.get", options.challenge);
+
+      // The signature covers the authenticator data and a hash of the client data, ES256 signatures are DER encoded
+      const signature = sign(
+        "sha256",
+        Buffer.concat([authData, sha256(clientDataJSON)]),
+        privateKey,
+      );
+
+      return {
+        id: credentialId.toString("base64url"),
+        rawId: credentialId.toString("base64url"),
+        type: "public-key",
+        clientExtensionResults: {},
+        response: {
+          clientDataJSON: clientDataJSON.toString("base64url"),
+          authenticatorData: authData.toString("base64url"),
+          signature: signature.toString("base64url"),
+          userHandle,
+        },
+      };
+    },
+  };
+};
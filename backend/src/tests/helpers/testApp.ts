@@ -0,0 +1,19 @@
+// the app the integration tests send requests to, configured from the test profile's defaults
+import { createApp } from "../../app.js";
+import {
+  getAppConfig,
+  loadAppConfig,
+  setAppConfig,
+} from "../../config/appConfig.js";
+import type { AppConfig } from "../../config/appConfig.js";
+
+// tests make many requests from the same address, rateLimit.test.ts turns rate limiting back on
+const app = createApp({ ...loadAppConfig(), rateLimitEnabled: false });
+
+// change settings of the running app, e.g. to turn email verification on for one test file
+// the app reads its config on every request, so the change applies to the next request
+export const configureApp = (changes: Partial<AppConfig>) => {
+  setAppConfig({ ...getAppConfig(), ...changes });
+};
+
+export default app;
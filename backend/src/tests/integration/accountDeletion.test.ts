@@ -0,0 +1,227 @@
+import "./setup.js";
+import request from "supertest";
+import app from "../helpers/testApp.js";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import User from "../../models/User.js";
+import Session from "../../models/Session.js";
+import RefreshToken from "../../models/RefreshToken.js";
+import Membership from "../../models/Membership.js";
+import { setMailTransport } from "../../config/emailConfig.js";
+import { createMemoryOutboxTransport } from "../../utils/mailTransport.js";
+import type { MemoryOutboxTransport } from "../../utils/mailTransport.js";
+import { purgeDueAccounts } from "../../utils/accountDeletion.js";
+import {
+  getUserDataCleanupNames,
+  registerUserDataCleanup,
+} from "../../utils/userDataRegistry.js";
+
+// in-memory outbox so we can read the cancellation link without sending real emails
+let outbox: MemoryOutboxTransport;
+
+// pull the token out of the link in the most recent email
+const getTokenFromLastEmail = () => {
+  const lastMessage = outbox.messages[outbox.messages.length - 1]!;
+  const match = lastMessage.text.match(/token=([^\s]+)/);
+  return decodeURIComponent(match![1]!);
+};
+
+const credentials = { email: "delete@test.com", password: "Tr0ub4dor&3" };
+let accessToken: string;
+let refreshTokenCookie: string;
+
+beforeEach(async () => {
+  outbox = createMemoryOutboxTransport();
+  setMailTransport(outbox);
+  const res = await request(app)
+    .post("/api/auth/register")
+    .send({ name: "Test User", ...credentials });
+  accessToken = res.body.token;
+  refreshTokenCookie = res.headers["set-cookie"]![0]!;
+});
+
+afterEach(() => {
+  setMailTransport(null);
+});
+
+// request deletion of the test account
+const deleteAccount = (body: object) =>
+  request(app)
+    .delete("/api/auth/me")
+    .set("Authorization", `Bearer ${accessToken}`)
+    .send(body);
+
+describe("DELETE /api/auth/me", () => {
+  it("should schedule the deletion, sign out everywhere and email a cancellation link", async () => {
+    const res = await deleteAccount({ password: credentials.password });
+
+    expect(res.status).toBe(200);
+    expect(new Date(res.body.deletionScheduledFor).getTime()).toBeGreaterThan(
+      Date.now(),
+    );
+
+    const user = await User.findOne({ email: credentials.email });
+    expect(user!.deletionScheduledFor).not.toBeNull();
+
+    // the refresh token from registration no longer works
+    const refreshRes = await request(app)
+      .post("/api/auth/refresh")
+      .set("Cookie", refreshTokenCookie);
+    expect(refreshRes.status).toBe(401);
+
+    expect(outbox.messages).toHaveLength(1);
+    expect(outbox.messages[0]!.text).toContain("/cancel-deletion?token=");
+  });
+
+  it("should reject a wrong password", async () => {
+    const res = await deleteAccount({ password: "WrongPassword1!" });
+
+    expect(res.status).toBe(400);
+    expect(res.body.errors[0].path).toBe("password");
+    const user = await User.findOne({ email: credentials.email });
+    expect(user!.deletionScheduledFor).toBeNull();
+  });
+
+  it("should require a two-factor code when two-factor authentication is on", async () => {
+    await User.updateOne(
+      { email: credentials.email },
+      { "twoFactor.enabled": true, "twoFactor.secret": "JBSWY3DPEHPK3PXP" },
+    );
+
+    const res = await deleteAccount({ password: credentials.password });
+
+    expect(res.status).toBe(400);
+    expect(res.body.errors[0].path).toBe("code");
+  });
+
+  it("should refuse while the user owns an organization with other members", async () => {
+    const orgRes = await request(app)
+      .post("/api/organizations")
+      .set("Authorization", `Bearer ${accessToken}`)
+      .send({ name: "Acme" });
+    const other = await User.create({
+      name: "Other User",
+      email: "other@test.com",
+      password: "Tr0ub4dor&3",
+    });
+    await Membership.create({
+      organization: orgRes.body.organization._id,
+      user: other._id,
+      role: "member",
+    });
+
+    const res = await deleteAccount({ password: credentials.password });
+
+    expect(res.status).toBe(400);
+    expect(res.body.message).toBe(
+      "Transfer ownership of Acme or delete it before deleting your account",
+    );
+    const user = await User.findOne({ email: credentials.email });
+    expect(user!.deletionScheduledFor).toBeNull();
+  });
+
+  it("should allow deleting an account that owns an organization nobody else is in", async () => {
+    await request(app)
+      .post("/api/organizations")
+      .set("Authorization", `Bearer ${accessToken}`)
+      .send({ name: "Acme" });
+
+    const res = await deleteAccount({ password: credentials.password });
+
+    expect(res.status).toBe(200);
+  });
+});
+
+describe("cancelling a deletion", () => {
+  it("should cancel the deletion with the emailed link", async () => {
+    await deleteAccount({ password: credentials.password });
+
+    const res = await request(app)
+      .post("/api/auth/cancel-deletion")
+      .send({ token: getTokenFromLastEmail() });
+
+    expect(res.status).toBe(200);
+    const user = await User.findOne({ email: credentials.email });
+    expect(user!.deletionScheduledFor).toBeNull();
+  });
+
+  it("should reject an invalid link", async () => {
+    const res = await request(app)
+      .post("/api/auth/cancel-deletion")
+      .send({ token: "not-a-token" });
+
+    expect(res.status).toBe(400);
+  });
+
+  it("should cancel the deletion when the user logs in again", async () => {
+    await deleteAccount({ password: credentials.password });
+
+    const loginRes = await request(app)
+      .post("/api/auth/login")
+      .send(credentials);
+
+    expect(loginRes.status).toBe(200);
+    const user = await User.findOne({ email: credentials.email });
+    expect(user!.deletionScheduledFor).toBeNull();
+  });
+});
+
+describe("purgeDueAccounts", () => {
+  it("should delete accounts past their grace period along with their data", async () => {
+    await deleteAccount({ password: credentials.password });
+    const user = await User.findOne({ email: credentials.email });
+
+    // nothing is due yet
+    expect(await purgeDueAccounts()).toBe(0);
+
+    // pretend the grace period is over
+    const purged = await purgeDueAccounts(
+      new Date(user!.deletionScheduledFor!.getTime() + 1000),
+    );
+
+    expect(purged).toBe(1);
+    expect(await User.findById(user!._id)).toBeNull();
+    expect(await Session.countDocuments({ user: user!._id })).toBe(0);
+    expect(await RefreshToken.countDocuments({ user: user!._id })).toBe(0);
+  });
+
+  it("should run cleanups registered by other modules", async () => {
+    const purgedIds: string[] = [];
+    registerUserDataCleanup("test-cleanup", async (user) => {
+      purgedIds.push(user._id.toString());
+    });
+
+    await deleteAccount({ password: credentials.password });
+    const user = await User.findOne({ email: credentials.email });
+    await purgeDueAccounts(
+      new Date(user!.deletionScheduledFor!.getTime() + 1000),
+    );
+
+    expect(getUserDataCleanupNames()).toContain("sessions");
+    expect(purgedIds).toEqual([user!._id.toString()]);
+  });
+
+  it("should keep the account and retry when a cleanup fails", async () => {
+    let failing = true;
+    registerUserDataCleanup("test-cleanup", async () => {
+      if (failing) throw new Error("storage unavailable");
+    });
+
+    await deleteAccount({ password: credentials.password });
+    const user = await User.findOne({ email: credentials.email });
+    const due = new Date(user!.deletionScheduledFor!.getTime() + 1000);
+
+    expect(await purgeDueAccounts(due)).toBe(0);
+    const marked = await User.findById(user!._id);
+    expect(marked!.purgeStartedAt).not.toBeNull();
+
+    // logging in now can't cancel a purge that already deleted some of the data
+    const loginRes = await request(app)
+      .post("/api/auth/login")
+      .send(credentials);
+    expect(loginRes.status).toBe(403);
+
+    failing = false;
+    expect(await purgeDueAccounts(due)).toBe(1);
+    expect(await User.findById(user!._id)).toBeNull();
+  });
+});
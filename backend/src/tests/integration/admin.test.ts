@@ -0,0 +1,217 @@
+import "./setup.js";
+import request from "supertest";
+import app from "../helpers/testApp.js";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { promoteToAdmin } from "../../utils/adminBootstrap.js";
+import { setMailTransport } from "../../config/emailConfig.js";
+import { createMemoryOutboxTransport } from "../../utils/mailTransport.js";
+import type { MemoryOutboxTransport } from "../../utils/mailTransport.js";
+
+// in-memory outbox so we can check the forced reset email
+let outbox: MemoryOutboxTransport;
+
+// define variables to hold the admin's access token and the other user's id and refresh token cookie
+let adminToken: string;
+let adminId: string;
+let userToken: string;
+let userId: string;
+let userRefreshCookie: string;
+
+const userCredentials = { email: "member@test.com", password: "Tr0ub4dor&3" };
+
+// register an account and return the response
+const register = (name: string, email: string) =>
+  request(app)
+    .post("/api/auth/register")
+    .send({ name, email, password: "Tr0ub4dor&3" });
+
+beforeEach(async () => {
+  outbox = createMemoryOutboxTransport();
+  setMailTransport(outbox);
+
+  const admin = await register("Admin User", "admin@test.com");
+  adminId = admin.body.user._id;
+  // promote, then log in again so the access token carries the admin role
+  await promoteToAdmin("admin@test.com");
+  const login = await request(app)
+    .post("/api/auth/login")
+    .send({ email: "admin@test.com", password: "Tr0ub4dor&3" });
+  adminToken = login.body.token;
+
+  const user = await register("Member User", userCredentials.email);
+  userToken = user.body.token;
+  userId = user.body.user._id;
+  userRefreshCookie = user.headers["set-cookie"]![0]!;
+});
+
+afterEach(() => {
+  setMailTransport(null);
+});
+
+// send an admin request with the admin's token
+const asAdmin = (method: "get" | "patch" | "post", url: string) => {
+  const agent = request(app);
+  return agent[method](`/api/admin${url}`).set(
+    "Authorization",
+    `Bearer ${adminToken}`,
+  );
+};
+
+describe("admin access", () => {
+  it("should return 403 for users without the permission", async () => {
+    const res = await request(app)
+      .get("/api/admin/users")
+      .set("Authorization", `Bearer ${userToken}`);
+    expect(res.status).toBe(403);
+  });
+});
+
+describe("GET /api/admin/users", () => {
+  it("should list users with pagination", async () => {
+    const res = await asAdmin("get", "/users?limit=1&sort=name");
+
+    expect(res.status).toBe(200);
+    expect(res.body.total).toBe(2);
+    expect(res.body.totalPages).toBe(2);
+    expect(res.body.users).toHaveLength(1);
+    expect(res.body.users[0].name).toBe("Admin User");
+  });
+
+  it("should search by name or email and filter by role and status", async () => {
+    const search = await asAdmin("get", "/users?search=MEMBER");
+    expect(search.body.users.map((u: { _id: string }) => u._id)).toEqual([
+      userId,
+    ]);
+
+    const admins = await asAdmin("get", "/users?role=admin");
+    expect(admins.body.total).toBe(1);
+
+    const disabled = await asAdmin("get", "/users?status=disabled");
+    expect(disabled.body.total).toBe(0);
+  });
+
+  it("should reject invalid query options", async () => {
+    const res = await asAdmin("get", "/users?sort=password");
+    expect(res.status).toBe(400);
+  });
+});
+
+describe("GET /api/admin/users/:id", () => {
+  it("should return the user with account counts", async () => {
+    const res = await asAdmin("get", `/users/${userId}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.user.email).toBe(userCredentials.email);
+    expect(res.body.user.activeSessions).toBe(1);
+    expect(res.body.user).not.toHaveProperty("password");
+  });
+});
+
+describe("PATCH /api/admin/users/:id", () => {
+  it("should update the name, email and roles", async () => {
+    const res = await asAdmin("patch", `/users/${userId}`).send({
+      name: "Renamed",
+      email: "renamed@test.com",
+      roles: ["user", "moderator"],
+    });
+
+    expect(res.status).toBe(200);
+    expect(res.body.user).toMatchObject({
+      name: "Renamed",
+      email: "renamed@test.com",
+      roles: ["user", "moderator"],
+    });
+  });
+
+  it("should not let an admin remove their own admin role", async () => {
+    const res = await asAdmin("patch", `/users/${adminId}`).send({
+      roles: ["user"],
+    });
+    expect(res.status).toBe(400);
+  });
+
+  it("should reject an email that belongs to another account", async () => {
+    const res = await asAdmin("patch", `/users/${userId}`).send({
+      email: "admin@test.com",
+    });
+    expect(res.status).toBe(400);
+    expect(res.body.errors[0].msg).toBe("Email already in use");
+  });
+});
+
+describe("disabling accounts", () => {
+  it("should reject the disabled user's access token, refresh token and password login", async () => {
+    const disable = await asAdmin("post", `/users/${userId}/disable`).send({
+      reason: "Spam",
+    });
+    expect(disable.status).toBe(200);
+    expect(disable.body.user.disabledReason).toBe("Spam");
+
+    const me = await request(app)
+      .get("/api/auth/me")
+      .set("Authorization", `Bearer ${userToken}`);
+    expect(me.status).toBe(401);
+
+    const refresh = await request(app)
+      .post("/api/auth/refresh")
+      .set("Cookie", userRefreshCookie);
+    expect(refresh.status).toBe(401);
+
+    const login = await request(app)
+      .post("/api/auth/login")
+      .send(userCredentials);
+    expect(login.status).toBe(403);
+  });
+
+  it("should let the user log in again once enabled", async () => {
+    await asAdmin("post", `/users/${userId}/disable`);
+    await asAdmin("post", `/users/${userId}/enable`);
+
+    const login = await request(app)
+      .post("/api/auth/login")
+      .send(userCredentials);
+    expect(login.status).toBe(200);
+  });
+
+  it("should not let an admin disable their own account", async () => {
+    const res = await asAdmin("post", `/users/${adminId}/disable`);
+    expect(res.status).toBe(400);
+  });
+});
+
+describe("POST /api/admin/users/:id/force-password-reset", () => {
+  it("should email a reset link and block password logins until it is used", async () => {
+    const res = await asAdmin("post", `/users/${userId}/force-password-reset`);
+    expect(res.status).toBe(200);
+    expect(outbox.messages).toHaveLength(1);
+
+    const login = await request(app)
+      .post("/api/auth/login")
+      .send(userCredentials);
+    expect(login.status).toBe(403);
+
+    const token = decodeURIComponent(
+      outbox.messages[0]!.text.match(/token=([^\s]+)/)![1]!,
+    );
+    await request(app)
+      .post("/api/auth/reset-password")
+      .send({ token, newPassword: "NewPassword1!" });
+
+    const relogin = await request(app)
+      .post("/api/auth/login")
+      .send({ ...userCredentials, password: "NewPassword1!" });
+    expect(relogin.status).toBe(200);
+  });
+});
+
+describe("POST /api/admin/users/:id/revoke-tokens", () => {
+  it("should revoke the user's refresh tokens", async () => {
+    const res = await asAdmin("post", `/users/${userId}/revoke-tokens`);
+    expect(res.status).toBe(204);
+
+    const refresh = await request(app)
+      .post("/api/auth/refresh")
+      .set("Cookie", userRefreshCookie);
+    expect(refresh.status).toBe(401);
+  });
+});
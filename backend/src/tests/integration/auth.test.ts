@@ -1,14 +1,29 @@
 import "./setup.js";
 import request from "supertest";
-import app from "../../app.js";
-import { beforeAll, beforeEach, describe, expect, it } from "vitest";
+import app from "../helpers/testApp.js";
+import {
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from "vitest";
+import User from "../../models/User.js";
+import RefreshToken from "../../models/RefreshToken.js";
+import { setPasswordHasher } from "../../config/passwordConfig.js";
+import {
+  createScryptHasher,
+  getHashAlgorithm,
+} from "../../utils/passwordHasher.js";
 
 describe("POST /api/auth/register", () => {
   it("should register a new user and return a token and user object", async () => {
     const res = await request(app).post("/api/auth/register").send({
       name: "Test User",
       email: "test@example.com",
-      password: "Password1!",
+      password: "Tr0ub4dor&3",
     });
     // Assert that the response has a 201 status code and contains the expected properties
     expect(res.status).toBe(201);
@@ -25,7 +40,7 @@ describe("POST /api/auth/register", () => {
     it("should return 400 and a field error when 'name' is missing", async () => {
       const res = await request(app).post("/api/auth/register").send({
         email: "test@example.com",
-        password: "Password1!",
+        password: "Tr0ub4dor&3",
       });
       expect(res.status).toBe(400);
       expect(res.body.errors[0].msg).toBe("Name must be at least 2 characters");
@@ -34,7 +49,7 @@ describe("POST /api/auth/register", () => {
     it("should return 400 and field error when 'email' is missing", async () => {
       const res = await request(app).post("/api/auth/register").send({
         name: "Test User",
-        password: "Password1!",
+        password: "Tr0ub4dor&3",
       });
       expect(res.status).toBe(400);
       expect(res.body.errors[0].msg).toBe("Invalid email format");
@@ -52,6 +67,19 @@ describe("POST /api/auth/register", () => {
     });
   });
 
+  it("should return 400 when the password is a common one that meets the character rules", async () => {
+    const res = await request(app).post("/api/auth/register").send({
+      name: "Test User",
+      email: "test@example.com",
+      password: "Password1!",
+    });
+    expect(res.status).toBe(400);
+    expect(res.body.errors[0].path).toBe("password");
+    expect(res.body.errors[0].msg).toBe(
+      "This password is too common, choose a different one",
+    );
+  });
+
   it("should return 400 and validation error when password doesn't meet complexity requirements", async () => {
     const res = await request(app).post("/api/auth/register").send({
       name: "Test User",
@@ -72,12 +100,12 @@ describe("POST /api/auth/register", () => {
     await request(app).post("/api/auth/register").send({
       name: "Test User",
       email: "test@example.com",
-      password: "Password1!",
+      password: "Tr0ub4dor&3",
     });
     const res = await request(app).post("/api/auth/register").send({
       name: "Test User",
       email: "test@example.com",
-      password: "Password1!",
+      password: "Tr0ub4dor&3",
     });
 
     expect(res.status).toBe(400);
@@ -90,14 +118,14 @@ describe("POST /api/auth/login", () => {
     await request(app).post("/api/auth/register").send({
       name: "Test User",
       email: "login@test.com",
-      password: "Password1!",
+      password: "Tr0ub4dor&3",
     });
   });
 
   it("should login a user with valid credentials", async () => {
     const res = await request(app).post("/api/auth/login").send({
       email: "login@test.com",
-      password: "Password1!",
+      password: "Tr0ub4dor&3",
     });
 
     expect(res.status).toBe(200);
@@ -110,6 +138,36 @@ describe("POST /api/auth/login", () => {
     expect(res.headers["set-cookie"]).toBeDefined();
   });
 
+  describe("when the password hash was made with older settings", () => {
+    afterEach(() => {
+      setPasswordHasher(null);
+    });
+
+    it("should still log in and replace the hash in the background", async () => {
+      // switch algorithms after the account was created with the default bcrypt
+      setPasswordHasher(
+        createScryptHasher({ logN: 10, blockSize: 8, parallelism: 1 }),
+      );
+
+      const res = await request(app).post("/api/auth/login").send({
+        email: "login@test.com",
+        password: "Tr0ub4dor&3",
+      });
+      expect(res.status).toBe(200);
+
+      await vi.waitFor(async () => {
+        const user = await User.findOne({ email: "login@test.com" });
+        expect(getHashAlgorithm(user!.password)).toBe("scrypt");
+      });
+
+      const secondRes = await request(app).post("/api/auth/login").send({
+        email: "login@test.com",
+        password: "Tr0ub4dor&3",
+      });
+      expect(secondRes.status).toBe(200);
+    });
+  });
+
   describe("when the email or password is invalid", () => {
     it("should return 401 'Invalid email or password' when password is invalid", async () => {
       const res = await request(app).post("/api/auth/login").send({
@@ -124,7 +182,7 @@ describe("POST /api/auth/login", () => {
     it("should return 401 'Invalid email or password' when email does not exist", async () => {
       const res = await request(app).post("/api/auth/login").send({
         email: "nonexistent@test.com",
-        password: "Password1!",
+        password: "Tr0ub4dor&3",
       });
 
       expect(res.status).toBe(401);
@@ -134,7 +192,7 @@ describe("POST /api/auth/login", () => {
 
   it("should return 400 and validation error when email is missing", async () => {
     const res = await request(app).post("/api/auth/login").send({
-      password: "Password1!",
+      password: "Tr0ub4dor&3",
     });
     expect(res.status).toBe(400);
     expect(res.body.errors[0].msg).toBe("Invalid email format");
@@ -150,7 +208,7 @@ describe("GET /api/auth/me", () => {
     const res = await request(app).post("/api/auth/register").send({
       name: "Test User",
       email: "login@test.com",
-      password: "Password1!",
+      password: "Tr0ub4dor&3",
     });
 
     // store the token from the registration response for use in subsequent tests
@@ -174,6 +232,100 @@ describe("GET /api/auth/me", () => {
   });
 });
 
+describe("PATCH /api/auth/me", () => {
+  // define variables to hold the token and the current version for use in the tests
+  let token: string;
+  let version: number;
+
+  beforeEach(async () => {
+    const res = await request(app).post("/api/auth/register").send({
+      name: "Test User",
+      email: "profile@test.com",
+      password: "Tr0ub4dor&3",
+    });
+    token = res.body.token;
+    version = res.body.user.version;
+  });
+
+  it("should update the profile details and return the updated user", async () => {
+    const res = await request(app)
+      .patch("/api/auth/me")
+      .set("Authorization", `Bearer ${token}`)
+      .send({
+        version,
+        name: "  New Name  ",
+        displayName: "Newbie",
+        bio: "Hello there",
+        timezone: "Europe/London",
+        locale: "en-gb",
+      });
+
+    expect(res.status).toBe(200);
+    expect(res.body.user).toMatchObject({
+      name: "New Name",
+      displayName: "Newbie",
+      bio: "Hello there",
+      timezone: "Europe/London",
+      locale: "en-GB",
+      version: version + 1,
+    });
+  });
+
+  it("should only change the fields that were sent and clear fields sent as empty strings", async () => {
+    await request(app)
+      .patch("/api/auth/me")
+      .set("Authorization", `Bearer ${token}`)
+      .send({ version, displayName: "Newbie", bio: "Hello there" });
+
+    const res = await request(app)
+      .patch("/api/auth/me")
+      .set("Authorization", `Bearer ${token}`)
+      .send({ version: version + 1, bio: "" });
+
+    expect(res.status).toBe(200);
+    expect(res.body.user).toMatchObject({
+      name: "Test User",
+      displayName: "Newbie",
+      bio: null,
+    });
+  });
+
+  it("should return 409 with the current profile when the version is stale", async () => {
+    await request(app)
+      .patch("/api/auth/me")
+      .set("Authorization", `Bearer ${token}`)
+      .send({ version, name: "First Tab" });
+
+    const res = await request(app)
+      .patch("/api/auth/me")
+      .set("Authorization", `Bearer ${token}`)
+      .send({ version, name: "Second Tab" });
+
+    expect(res.status).toBe(409);
+    expect(res.body.user).toMatchObject({
+      name: "First Tab",
+      version: version + 1,
+    });
+  });
+
+  it("should return 400 for invalid fields or a missing version", async () => {
+    const res = await request(app)
+      .patch("/api/auth/me")
+      .set("Authorization", `Bearer ${token}`)
+      .send({
+        name: "A",
+        bio: "x".repeat(501),
+        timezone: "Mars/Olympus",
+        locale: "not a locale",
+      });
+
+    expect(res.status).toBe(400);
+    expect(
+      res.body.errors.map((error: { path: string }) => error.path).sort(),
+    ).toEqual(["bio", "locale", "name", "timezone", "version"]);
+  });
+});
+
 describe("POST /api/auth/refresh", () => {
   // define a variable to hold the refresh token cookie for use in the tests
   let refreshTokenCookie: string;
@@ -182,7 +334,7 @@ describe("POST /api/auth/refresh", () => {
     const res = await request(app).post("/api/auth/register").send({
       name: "Test User",
       email: "refresh@test.com",
-      password: "Password1!",
+      password: "Tr0ub4dor&3",
     });
     refreshTokenCookie = res.headers["set-cookie"]![0]!; // grab the cookie string
   });
@@ -200,6 +352,76 @@ describe("POST /api/auth/refresh", () => {
     expect(res.status).toBe(401);
     expect(res.body.message).toBe("Unauthorized");
   });
+
+  describe("refresh token rotation", () => {
+    // define a variable to hold the refresh token cookie issued at registration
+    let originalCookie: string;
+
+    beforeEach(async () => {
+      const res = await request(app).post("/api/auth/register").send({
+        name: "Test User",
+        email: "rotate@test.com",
+        password: "Tr0ub4dor&3",
+      });
+      originalCookie = res.headers["set-cookie"]![0]!;
+    });
+
+    it("should set a new refresh token cookie on every refresh", async () => {
+      const res = await request(app)
+        .post("/api/auth/refresh")
+        .set("Cookie", originalCookie);
+      expect(res.status).toBe(200);
+      const rotatedCookie = res.headers["set-cookie"]![0]!;
+      expect(rotatedCookie).toContain("refreshToken=");
+      // compare only the name=value part of the cookie strings
+      expect(rotatedCookie.split(";")[0]).not.toBe(
+        originalCookie.split(";")[0],
+      );
+    });
+
+    it("should return 401 and revoke the whole token family when a rotated token is reused", async () => {
+      // first refresh rotates the original token
+      const first = await request(app)
+        .post("/api/auth/refresh")
+        .set("Cookie", originalCookie);
+      const rotatedCookie = first.headers["set-cookie"]![0]!;
+      // move the rotation back past the grace period for concurrent refreshes
+      await RefreshToken.updateMany(
+        { revokedReason: "rotated" },
+        { revokedAt: new Date(Date.now() - 60 * 1000) },
+      );
+
+      // presenting the original token again is treated as theft
+      const reuse = await request(app)
+        .post("/api/auth/refresh")
+        .set("Cookie", originalCookie);
+      expect(reuse.status).toBe(401);
+      expect(reuse.body.message).toBe("Invalid refresh token");
+
+      // the token issued by the first rotation is revoked along with the rest of the family
+      const afterReuse = await request(app)
+        .post("/api/auth/refresh")
+        .set("Cookie", rotatedCookie);
+      expect(afterReuse.status).toBe(401);
+    });
+
+    it("should let two tabs refresh with the same token at the same time", async () => {
+      const refresh = () =>
+        request(app).post("/api/auth/refresh").set("Cookie", originalCookie);
+      const [first, second] = await Promise.all([refresh(), refresh()]);
+
+      expect(first.status).toBe(200);
+      expect(second.status).toBe(200);
+
+      // both new tokens keep working, nothing was revoked as reuse
+      for (const res of [first, second]) {
+        const next = await request(app)
+          .post("/api/auth/refresh")
+          .set("Cookie", res.headers["set-cookie"]![0]!);
+        expect(next.status).toBe(200);
+      }
+    });
+  });
 });
 
 describe("PATCH /api/auth/update-password", () => {
@@ -210,7 +432,7 @@ describe("PATCH /api/auth/update-password", () => {
     const res = await request(app).post("/api/auth/register").send({
       name: "Test User",
       email: "refresh@test.com",
-      password: "Password1!",
+      password: "Tr0ub4dor&3",
     });
     token = res.body.token; // grab the token string
   });
@@ -221,8 +443,8 @@ describe("PATCH /api/auth/update-password", () => {
         .patch("/api/auth/update-password")
         .set("authorization", `Bearer ${token}`)
         .send({
-          currentPassword: "Password1!",
-          newPassword: "Password2!",
+          currentPassword: "Tr0ub4dor&3",
+          newPassword: "Tr0ub4dor&4",
         });
       expect(res.status).toBe(200);
       expect(res.body.message).toBe("Password updated successfully");
@@ -236,7 +458,7 @@ describe("PATCH /api/auth/update-password", () => {
         .set("authorization", `Bearer ${token}`)
         .send({
           currentPassword: "WrongPassword1!",
-          newPassword: "Password2!",
+          newPassword: "Tr0ub4dor&4",
         });
       expect(res.status).toBe(400);
       expect(res.body.errors[0].msg).toBe("Current password is incorrect");
@@ -250,18 +472,65 @@ describe("PATCH /api/auth/update-password", () => {
         .patch("/api/auth/update-password")
         .set("authorization", `Bearer ${token}`)
         .send({
-          currentPassword: "Password1!",
-          newPassword: "Password2!",
+          currentPassword: "Tr0ub4dor&3",
+          newPassword: "Tr0ub4dor&4",
         });
       // Then, attempt to login with the new password
       const res = await request(app).post("/api/auth/login").send({
         email: "refresh@test.com",
-        password: "Password2!",
+        password: "Tr0ub4dor&4",
       });
       expect(res.status).toBe(200);
       expect(typeof res.body.token).toBe("string");
     });
   });
+
+  describe("with a new password that passes the character rules but is weak", () => {
+    it("should reject a common password", async () => {
+      const res = await request(app)
+        .patch("/api/auth/update-password")
+        .set("authorization", `Bearer ${token}`)
+        .send({ currentPassword: "Tr0ub4dor&3", newPassword: "Password1!" });
+      expect(res.status).toBe(400);
+      expect(res.body.errors[0].path).toBe("newPassword");
+      expect(res.body.errors[0].msg).toBe(
+        "This password is too common, choose a different one",
+      );
+    });
+
+    it("should reject a password containing the email address", async () => {
+      const res = await request(app)
+        .patch("/api/auth/update-password")
+        .set("authorization", `Bearer ${token}`)
+        .send({ currentPassword: "Tr0ub4dor&3", newPassword: "Refresh!2024" });
+      expect(res.status).toBe(400);
+      expect(res.body.errors[0].msg).toBe(
+        "Password must not contain your name or email address",
+      );
+    });
+  });
+
+  describe("with a password used before", () => {
+    it("should reject the current password and recent ones", async () => {
+      const changePassword = (currentPassword: string, newPassword: string) =>
+        request(app)
+          .patch("/api/auth/update-password")
+          .set("authorization", `Bearer ${token}`)
+          .send({ currentPassword, newPassword });
+
+      const sameRes = await changePassword("Tr0ub4dor&3", "Tr0ub4dor&3");
+      expect(sameRes.status).toBe(400);
+      expect(sameRes.body.errors[0].msg).toBe(
+        "You've used this password recently, choose a different one",
+      );
+
+      // change it, then try to change it straight back
+      await changePassword("Tr0ub4dor&3", "Tr0ub4dor&4");
+      const backRes = await changePassword("Tr0ub4dor&4", "Tr0ub4dor&3");
+      expect(backRes.status).toBe(400);
+      expect(backRes.body.errors[0].path).toBe("newPassword");
+    });
+  });
 });
 
 describe("PATCH /api/auth/update-email", () => {
@@ -272,24 +541,25 @@ describe("PATCH /api/auth/update-email", () => {
     const res = await request(app).post("/api/auth/register").send({
       name: "Test User",
       email: "refresh@test.com",
-      password: "Password1!",
+      password: "Tr0ub4dor&3",
     });
     token = res.body.token; // grab the token string
   });
 
   describe("with valid new email and correct password", () => {
-    it("should return 200 and update email with new token and user data", async () => {
+    it("should return 200 and keep the new email pending until it's confirmed", async () => {
       const res = await request(app)
         .patch("/api/auth/update-email")
         .set("authorization", `Bearer ${token}`)
         .send({
           newEmail: "newemail@test.com",
-          password: "Password1!",
+          password: "Tr0ub4dor&3",
         });
       expect(res.status).toBe(200);
-      expect(typeof res.body.token).toBe("string");
+      expect(res.body).not.toHaveProperty("token");
       expect(res.body.user).toHaveProperty("_id");
-      expect(res.body.user).toHaveProperty("email", "newemail@test.com");
+      expect(res.body.user).toHaveProperty("email", "refresh@test.com");
+      expect(res.body.user).toHaveProperty("pendingEmail", "newemail@test.com");
       expect(res.body.user).not.toHaveProperty("password");
     });
   });
@@ -315,7 +585,7 @@ describe("PATCH /api/auth/update-email", () => {
         .set("authorization", `Bearer ${token}`)
         .send({
           newEmail: "refresh@test.com", // same address as the registered user
-          password: "Password1!",
+          password: "Tr0ub4dor&3",
         });
 
       expect(res.status).toBe(400);
@@ -324,6 +594,24 @@ describe("PATCH /api/auth/update-email", () => {
       );
     });
   });
+
+  describe("with a new email used by another account", () => {
+    it("should return 400 and a field error on 'newEmail'", async () => {
+      await request(app).post("/api/auth/register").send({
+        name: "Other User",
+        email: "taken@test.com",
+        password: "Tr0ub4dor&3",
+      });
+
+      const res = await request(app)
+        .patch("/api/auth/update-email")
+        .set("authorization", `Bearer ${token}`)
+        .send({ newEmail: "taken@test.com", password: "Tr0ub4dor&3" });
+
+      expect(res.status).toBe(400);
+      expect(res.body.errors[0].msg).toBe("Email already in use");
+    });
+  });
 });
 
 describe("POST /api/auth/logout", () => {
@@ -334,7 +622,7 @@ describe("POST /api/auth/logout", () => {
     const res = await request(app).post("/api/auth/register").send({
       name: "Test User",
       email: "refresh@test.com",
-      password: "Password1!",
+      password: "Tr0ub4dor&3",
     });
     token = res.body.token; // grab the token string
   });
@@ -346,4 +634,23 @@ describe("POST /api/auth/logout", () => {
     expect(res.status).toBe(204);
     expect(res.headers["set-cookie"]![0]).toContain("refreshToken=;");
   });
+
+  it("should revoke the refresh token so it can no longer be used", async () => {
+    const loginRes = await request(app).post("/api/auth/login").send({
+      email: "refresh@test.com",
+      password: "Tr0ub4dor&3",
+    });
+    const refreshTokenCookie = loginRes.headers["set-cookie"]![0]!;
+
+    await request(app)
+      .post("/api/auth/logout")
+      .set("authorization", `Bearer ${loginRes.body.token}`)
+      .set("Cookie", refreshTokenCookie);
+
+    const res = await request(app)
+      .post("/api/auth/refresh")
+      .set("Cookie", refreshTokenCookie);
+    expect(res.status).toBe(401);
+    expect(res.body.message).toBe("Invalid refresh token");
+  });
 });
@@ -0,0 +1,207 @@
+import "./setup.js";
+import request from "supertest";
+import app from "../helpers/testApp.js";
+import { beforeEach, describe, expect, it } from "vitest";
+import { promoteToAdmin } from "../../utils/adminBootstrap.js";
+
+// define variables to hold the user's access token and refresh token cookie
+let accessToken: string;
+let refreshCookie: string;
+
+const credentials = { email: "audit@test.com", password: "Tr0ub4dor&3" };
+
+beforeEach(async () => {
+  const res = await request(app)
+    .post("/api/auth/register")
+    .send({ name: "Audit User", ...credentials });
+  accessToken = res.body.token;
+  refreshCookie = res.headers["set-cookie"]![0]!;
+});
+
+// get the user's own activity
+const getActivity = (query = "") =>
+  request(app)
+    .get(`/api/auth/me/activity${query}`)
+    .set("Authorization", `Bearer ${accessToken}`);
+
+describe("auth event recording", () => {
+  it("should record register, failed and successful logins, refresh and logout", async () => {
+    await request(app)
+      .post("/api/auth/login")
+      .send({ email: credentials.email, password: "WrongPassword1!" });
+    await request(app).post("/api/auth/login").send(credentials);
+    await request(app).post("/api/auth/refresh").set("Cookie", refreshCookie);
+    await request(app)
+      .post("/api/auth/logout")
+      .set("Authorization", `Bearer ${accessToken}`);
+
+    const res = await getActivity();
+    expect(res.status).toBe(200);
+    // newest first
+    expect(
+      res.body.events.map(
+        (event: { type: string; outcome: string }) =>
+          `${event.type}:${event.outcome}`,
+      ),
+    ).toEqual([
+      "logout:success",
+      "refresh:success",
+      "login:success",
+      "login:failure",
+      "register:success",
+    ]);
+    expect(res.body.events[3]).toMatchObject({
+      reason: "invalid-password",
+      method: "password",
+      email: credentials.email,
+    });
+    expect(res.body.events[0].ip).toBeTruthy();
+  });
+
+  it("should record password and email changes", async () => {
+    await request(app)
+      .patch("/api/auth/update-password")
+      .set("Authorization", `Bearer ${accessToken}`)
+      .send({ currentPassword: "Wrong1!aa", newPassword: "NewPassword1!" });
+    await request(app)
+      .patch("/api/auth/update-password")
+      .set("Authorization", `Bearer ${accessToken}`)
+      .send({ currentPassword: "Tr0ub4dor&3", newPassword: "NewPassword1!" });
+
+    const res = await getActivity("?limit=2");
+    expect(res.body.events).toMatchObject([
+      { type: "password-change", outcome: "success" },
+      {
+        type: "password-change",
+        outcome: "failure",
+        reason: "invalid-password",
+      },
+    ]);
+  });
+});
+
+describe("GET /api/auth/me/activity", () => {
+  it("should page through events with a cursor", async () => {
+    for (let i = 0; i < 3; i++) {
+      await request(app).post("/api/auth/login").send(credentials);
+    }
+
+    const first = await getActivity("?limit=3");
+    expect(first.body.events).toHaveLength(3);
+    expect(first.body.nextCursor).toBe(first.body.events[2]._id);
+
+    const second = await getActivity(
+      `?limit=3&cursor=${first.body.nextCursor}`,
+    );
+    expect(second.body.events).toHaveLength(1);
+    expect(second.body.events[0].type).toBe("register");
+    expect(second.body.nextCursor).toBeNull();
+  });
+
+  it("should not show another user's events", async () => {
+    await request(app)
+      .post("/api/auth/register")
+      .send({
+        name: "Other User",
+        email: "other@test.com",
+        password: "Tr0ub4dor&3",
+      });
+
+    const res = await getActivity();
+    expect(res.body.events).toHaveLength(1);
+    expect(res.body.events[0].email).toBe(credentials.email);
+  });
+
+  it("should reject an invalid cursor and require a token", async () => {
+    expect((await getActivity("?cursor=nope")).status).toBe(400);
+    expect((await request(app).get("/api/auth/me/activity")).status).toBe(401);
+  });
+});
+
+describe("GET /api/admin/audit-events", () => {
+  let adminToken: string;
+
+  beforeEach(async () => {
+    await request(app)
+      .post("/api/auth/register")
+      .send({
+        name: "Admin User",
+        email: "admin@test.com",
+        password: "Tr0ub4dor&3",
+      });
+    // promote, then log in again so the access token carries the admin role
+    await promoteToAdmin("admin@test.com");
+    const login = await request(app)
+      .post("/api/auth/login")
+      .send({ email: "admin@test.com", password: "Tr0ub4dor&3" });
+    adminToken = login.body.token;
+
+    await request(app)
+      .post("/api/auth/login")
+      .send({ email: "nobody@test.com", password: "Tr0ub4dor&3" });
+  });
+
+  const asAdmin = (query: string) =>
+    request(app)
+      .get(`/api/admin/audit-events${query}`)
+      .set("Authorization", `Bearer ${adminToken}`);
+
+  it("should return 403 for users without audit:read", async () => {
+    const res = await request(app)
+      .get("/api/admin/audit-events")
+      .set("Authorization", `Bearer ${accessToken}`);
+    expect(res.status).toBe(403);
+  });
+
+  it("should filter by type, outcome and email", async () => {
+    const res = await asAdmin("?type=login&outcome=failure");
+    expect(res.status).toBe(200);
+    expect(res.body.events).toHaveLength(1);
+    expect(res.body.events[0]).toMatchObject({
+      email: "nobody@test.com",
+      user: null,
+      reason: "unknown-email",
+    });
+
+    const byEmail = await asAdmin("?email=AUDIT@test.com");
+    expect(byEmail.body.events).toHaveLength(1);
+    expect(byEmail.body.events[0].type).toBe("register");
+  });
+
+  it("should match emails whatever casing was typed at login", async () => {
+    await request(app)
+      .post("/api/auth/login")
+      .send({ email: "Mixed.Case@Test.com", password: "Tr0ub4dor&3" });
+
+    const res = await asAdmin("?email=mixed.case@test.com");
+    expect(res.body.events).toHaveLength(1);
+    expect(res.body.events[0].email).toBe("mixed.case@test.com");
+  });
+
+  it("should export matching events as CSV and NDJSON", async () => {
+    const csv = await asAdmin("?type=register&format=csv");
+    expect(csv.status).toBe(200);
+    expect(csv.headers["content-type"]).toMatch(/^text\/csv/);
+    expect(csv.headers["content-disposition"]).toMatch(/attachment/);
+    const lines = csv.text.trim().split("\r\n");
+    expect(lines[0]).toBe(
+      "_id,createdAt,type,outcome,reason,method,user,email,ip,userAgent",
+    );
+    expect(lines).toHaveLength(3);
+
+    const ndjson = await asAdmin("?outcome=failure&format=ndjson");
+    expect(ndjson.headers["content-type"]).toMatch(/^application\/x-ndjson/);
+    const events = ndjson.text
+      .trim()
+      .split("\n")
+      .map((line) => JSON.parse(line));
+    expect(events).toHaveLength(1);
+    expect(events[0].email).toBe("nobody@test.com");
+  });
+
+  it("should reject invalid filters", async () => {
+    expect((await asAdmin("?type=nope")).status).toBe(400);
+    expect((await asAdmin("?format=xml")).status).toBe(400);
+    expect((await asAdmin("?from=yesterday")).status).toBe(400);
+  });
+});
@@ -0,0 +1,128 @@
+import "./setup.js";
+import request from "supertest";
+import app from "../helpers/testApp.js";
+import sharp from "sharp";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { setAvatarStorage } from "../../config/avatarConfig.js";
+import { createMemoryFileStorage } from "../../utils/fileStorage.js";
+import type { MemoryFileStorage } from "../../utils/fileStorage.js";
+
+// in-memory storage so we can check which files were stored and deleted
+let storage: MemoryFileStorage;
+let accessToken: string;
+
+beforeEach(async () => {
+  storage = createMemoryFileStorage();
+  setAvatarStorage(storage);
+  const res = await request(app).post("/api/auth/register").send({
+    name: "Test User",
+    email: "avatar@test.com",
+    password: "Tr0ub4dor&3",
+  });
+  accessToken = res.body.token;
+});
+
+afterEach(() => {
+  setAvatarStorage(null);
+  // back to the default upload limit
+  vi.stubEnv("AVATAR_MAX_UPLOAD_KB", "");
+});
+
+const createPhoto = () =>
+  sharp({
+    create: { width: 400, height: 300, channels: 3, background: "green" },
+  })
+    .jpeg()
+    .toBuffer();
+
+const uploadAvatar = async (file: Buffer, filename = "photo.jpg") =>
+  request(app)
+    .post("/api/auth/me/avatar")
+    .set("Authorization", `Bearer ${accessToken}`)
+    .attach("avatar", file, filename);
+
+// turn the absolute avatar URL into a path supertest can request
+const toPath = (url: string) => new URL(url).pathname;
+
+describe("POST /api/auth/me/avatar", () => {
+  it("should store every size and return the user with an avatar URL", async () => {
+    const res = await uploadAvatar(await createPhoto());
+
+    expect(res.status).toBe(200);
+    expect(res.body.user.avatarUrl).toMatch(
+      /\/api\/avatars\/[a-f0-9]{24}\/[a-f0-9]{16}\/256$/,
+    );
+    expect(storage.files.size).toBe(3);
+
+    const image = await request(app).get(toPath(res.body.user.avatarUrl));
+    expect(image.status).toBe(200);
+    expect(image.headers["content-type"]).toBe("image/webp");
+    expect(image.headers["cache-control"]).toMatch(
+      /public, max-age=\d+, immutable/,
+    );
+    expect((await sharp(image.body).metadata()).width).toBe(256);
+  });
+
+  it("should delete the old images when the avatar is replaced", async () => {
+    const first = await uploadAvatar(await createPhoto());
+    const second = await uploadAvatar(await createPhoto());
+
+    expect(second.body.user.avatarUrl).not.toBe(first.body.user.avatarUrl);
+    expect(storage.files.size).toBe(3);
+    expect(
+      (await request(app).get(toPath(first.body.user.avatarUrl))).status,
+    ).toBe(404);
+  });
+
+  it("should check the file contents, not the filename", async () => {
+    const res = await uploadAvatar(
+      Buffer.from("<svg xmlns='http://www.w3.org/2000/svg'></svg>"),
+      "innocent.png",
+    );
+
+    expect(res.status).toBe(400);
+    expect(res.body.errors[0]).toMatchObject({ path: "avatar" });
+    expect(storage.files.size).toBe(0);
+  });
+
+  it("should reject files over the size limit", async () => {
+    vi.stubEnv("AVATAR_MAX_UPLOAD_KB", "1");
+    const res = await uploadAvatar(Buffer.alloc(2048, 1));
+
+    expect(res.status).toBe(413);
+    expect(res.body.errors[0].msg).toBe("Image must be at most 1 KB");
+  });
+
+  it("should reject a partial crop", async () => {
+    const res = await request(app)
+      .post("/api/auth/me/avatar")
+      .set("Authorization", `Bearer ${accessToken}`)
+      .field("cropX", "10")
+      .attach("avatar", await createPhoto(), "photo.jpg");
+
+    expect(res.status).toBe(400);
+  });
+});
+
+describe("DELETE /api/auth/me/avatar", () => {
+  it("should remove the avatar and its images", async () => {
+    await uploadAvatar(await createPhoto());
+
+    const res = await request(app)
+      .delete("/api/auth/me/avatar")
+      .set("Authorization", `Bearer ${accessToken}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.user.avatarUrl).toBeNull();
+    expect(storage.files.size).toBe(0);
+  });
+});
+
+describe("GET /api/avatars/:userId/:avatarId/:size", () => {
+  it("should reject sizes we don't store", async () => {
+    const res = await uploadAvatar(await createPhoto());
+    const url = toPath(res.body.user.avatarUrl).replace(/256$/, "1000");
+
+    expect((await request(app).get(url)).status).toBe(400);
+  });
+});
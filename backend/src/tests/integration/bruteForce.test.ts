@@ -0,0 +1,56 @@
+import "./setup.js";
+import request from "supertest";
+import app from "../helpers/testApp.js";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const credentials = { email: "bruteforce@test.com", password: "Tr0ub4dor&3" };
+
+// try to log in with a wrong password
+const failLogin = (email = credentials.email) =>
+  request(app)
+    .post("/api/auth/login")
+    .send({ email, password: "WrongPassword1!" });
+
+beforeEach(async () => {
+  vi.stubEnv("LOGIN_MAX_FAILURES_PER_ACCOUNT", "3");
+  vi.stubEnv("LOGIN_LOCKOUT_BASE_SECONDS", "60");
+  await request(app)
+    .post("/api/auth/register")
+    .send({ name: "Test User", ...credentials });
+});
+
+describe("login lockout", () => {
+  it("should return 429 with Retry-After once the account is locked, even for the right password", async () => {
+    for (let i = 0; i < 3; i++) {
+      expect((await failLogin()).status).toBe(401);
+    }
+
+    const res = await request(app).post("/api/auth/login").send(credentials);
+
+    expect(res.status).toBe(429);
+    expect(res.headers["retry-after"]).toBe("60");
+    expect(res.body.retryAfter).toBe(60);
+  });
+
+  it("should reset the counter after a successful login", async () => {
+    await failLogin();
+    await failLogin();
+    expect(
+      (await request(app).post("/api/auth/login").send(credentials)).status,
+    ).toBe(200);
+
+    await failLogin();
+    await failLogin();
+    expect(
+      (await request(app).post("/api/auth/login").send(credentials)).status,
+    ).toBe(200);
+  });
+
+  it("should lock unknown emails the same way as real accounts", async () => {
+    for (let i = 0; i < 3; i++) {
+      expect((await failLogin("nobody@test.com")).status).toBe(401);
+    }
+
+    expect((await failLogin("nobody@test.com")).status).toBe(429);
+  });
+});
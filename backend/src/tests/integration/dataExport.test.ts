@@ -0,0 +1,194 @@
+import "./setup.js";
+import request from "supertest";
+import app from "../helpers/testApp.js";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import DataExport from "../../models/DataExport.js";
+import { setMailTransport } from "../../config/emailConfig.js";
+import { setDataExportStorage } from "../../config/dataExportConfig.js";
+import { createMemoryOutboxTransport } from "../../utils/mailTransport.js";
+import type { MemoryOutboxTransport } from "../../utils/mailTransport.js";
+import { createMemoryFileStorage } from "../../utils/fileStorage.js";
+import type { MemoryFileStorage } from "../../utils/fileStorage.js";
+import { purgeExpiredDataExports } from "../../utils/dataExport.js";
+
+// in-memory outbox so we can read the download link without sending real emails
+let outbox: MemoryOutboxTransport;
+// in-memory storage so we can check where the archive was stored
+let storage: MemoryFileStorage;
+let accessToken: string;
+let userId: string;
+
+beforeEach(async () => {
+  outbox = createMemoryOutboxTransport();
+  setMailTransport(outbox);
+  storage = createMemoryFileStorage();
+  setDataExportStorage(storage);
+  const res = await request(app).post("/api/auth/register").send({
+    name: "Test User",
+    email: "export@test.com",
+    password: "Tr0ub4dor&3",
+  });
+  accessToken = res.body.token;
+  userId = res.body.user._id;
+});
+
+afterEach(() => {
+  setMailTransport(null);
+  setDataExportStorage(null);
+});
+
+// the archive is built in the background, so poll the status endpoint until it's done
+const waitForExport = async () => {
+  for (let attempt = 0; attempt < 50; attempt++) {
+    const res = await request(app)
+      .get("/api/auth/me/export")
+      .set("Authorization", `Bearer ${accessToken}`);
+    if (res.body.export && res.body.export.status !== "pending") {
+      return res.body.export;
+    }
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+  throw new Error("Data export did not finish");
+};
+
+// turn the absolute download URL into a path supertest can request
+const toPath = (url: string) => {
+  const { pathname, search } = new URL(url);
+  return `${pathname}${search}`;
+};
+
+describe("POST /api/auth/me/export", () => {
+  it("should build the export in the background and email the download link", async () => {
+    const res = await request(app)
+      .post("/api/auth/me/export")
+      .set("Authorization", `Bearer ${accessToken}`);
+
+    expect(res.status).toBe(202);
+    expect(res.body.export.status).toBe("pending");
+    expect(res.body.export.downloadUrl).toBeNull();
+
+    const dataExport = await waitForExport();
+    expect(dataExport.status).toBe("ready");
+    expect(dataExport.downloadUrl).toContain("/download?token=");
+    expect(outbox.messages).toHaveLength(1);
+    expect(outbox.messages[0]!.text).toContain("/download?token=");
+  });
+
+  it("should keep the archive in file storage", async () => {
+    await request(app)
+      .post("/api/auth/me/export")
+      .set("Authorization", `Bearer ${accessToken}`);
+    const dataExport = await waitForExport();
+
+    const stored = await DataExport.findById(dataExport._id);
+    expect(stored!.storageKey).toMatch(/^exports\/.+\.zip$/);
+    expect(storage.files.get(stored!.storageKey!)!.contentType).toBe(
+      "application/zip",
+    );
+  });
+
+  it("should start a new export when a pending one was interrupted", async () => {
+    // pretend the server restarted while this export was being built an hour ago
+    const stuck = await DataExport.create({
+      user: userId,
+      createdAt: new Date(Date.now() - 60 * 60 * 1000),
+      expiresAt: new Date(Date.now() + 60_000),
+    });
+
+    const res = await request(app)
+      .post("/api/auth/me/export")
+      .set("Authorization", `Bearer ${accessToken}`);
+
+    expect(res.body.export._id).not.toBe(stuck._id.toString());
+    expect((await DataExport.findById(stuck._id))!.status).toBe("failed");
+  });
+
+  it("should require authentication", async () => {
+    const res = await request(app).post("/api/auth/me/export");
+    expect(res.status).toBe(401);
+  });
+});
+
+describe("purgeExpiredDataExports", () => {
+  it("should delete expired exports and their archives", async () => {
+    await request(app)
+      .post("/api/auth/me/export")
+      .set("Authorization", `Bearer ${accessToken}`);
+    const dataExport = await waitForExport();
+
+    // nothing has expired yet
+    expect(await purgeExpiredDataExports()).toBe(0);
+
+    const deleted = await purgeExpiredDataExports(
+      new Date(new Date(dataExport.expiresAt).getTime() + 1000),
+    );
+
+    expect(deleted).toBe(1);
+    expect(await DataExport.findById(dataExport._id)).toBeNull();
+    expect(storage.files.size).toBe(0);
+  });
+});
+
+describe("GET /api/auth/me/export", () => {
+  it("should return null before any export was requested", async () => {
+    const res = await request(app)
+      .get("/api/auth/me/export")
+      .set("Authorization", `Bearer ${accessToken}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.export).toBeNull();
+  });
+});
+
+describe("GET /api/auth/exports/:id/download", () => {
+  it("should download the ZIP with the signed link", async () => {
+    await request(app)
+      .post("/api/auth/me/export")
+      .set("Authorization", `Bearer ${accessToken}`);
+    const dataExport = await waitForExport();
+
+    const res = await request(app)
+      .get(toPath(dataExport.downloadUrl))
+      .buffer(true)
+      .parse((response, callback) => {
+        const chunks: Buffer[] = [];
+        response.on("data", (chunk: Buffer) => chunks.push(chunk));
+        response.on("end", () => callback(null, Buffer.concat(chunks)));
+      });
+
+    expect(res.status).toBe(200);
+    expect(res.headers["content-type"]).toBe("application/zip");
+    expect(res.headers["cache-control"]).toBe("private, no-store");
+    const archive = res.body as Buffer;
+    // "PK" is the signature every ZIP starts with
+    expect(archive.subarray(0, 2).toString()).toBe("PK");
+    expect(archive.includes("profile.json")).toBe(true);
+    expect(archive.includes("sessions.json")).toBe(true);
+  });
+
+  it("should reject a link for a different export", async () => {
+    await request(app)
+      .post("/api/auth/me/export")
+      .set("Authorization", `Bearer ${accessToken}`);
+    const dataExport = await waitForExport();
+    const other = await DataExport.create({
+      user: dataExport._id,
+      expiresAt: new Date(Date.now() + 60_000),
+    });
+
+    const path = toPath(dataExport.downloadUrl).replace(
+      dataExport._id,
+      other._id.toString(),
+    );
+    const res = await request(app).get(path);
+
+    expect(res.status).toBe(404);
+  });
+
+  it("should reject a link without a valid token", async () => {
+    const res = await request(app).get(
+      "/api/auth/exports/507f1f77bcf86cd799439011/download?token=bad",
+    );
+    expect(res.status).toBe(404);
+  });
+});
@@ -0,0 +1,181 @@
+import "./setup.js";
+import request from "supertest";
+import app from "../helpers/testApp.js";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import User from "../../models/User.js";
+import { setMailTransport } from "../../config/emailConfig.js";
+import { createMemoryOutboxTransport } from "../../utils/mailTransport.js";
+import type { MemoryOutboxTransport } from "../../utils/mailTransport.js";
+
+// in-memory outbox so we can read the confirmation and revert links without sending real emails
+let outbox: MemoryOutboxTransport;
+
+// pull the token out of the link in the most recent email sent to an address
+const getTokenFromEmailTo = (to: string) => {
+  const message = outbox.messages.filter((m) => m.to === to).pop()!;
+  const match = message.text.match(/token=([^\s]+)/);
+  return decodeURIComponent(match![1]!);
+};
+
+const credentials = { email: "old@test.com", password: "Tr0ub4dor&3" };
+let accessToken: string;
+let refreshTokenCookie: string;
+
+beforeEach(async () => {
+  outbox = createMemoryOutboxTransport();
+  setMailTransport(outbox);
+  const res = await request(app)
+    .post("/api/auth/register")
+    .send({ name: "Test User", ...credentials });
+  accessToken = res.body.token;
+  refreshTokenCookie = res.headers["set-cookie"]![0]!;
+});
+
+afterEach(() => {
+  setMailTransport(null);
+});
+
+// ask to change the test account's email to a new address
+const requestEmailChange = (newEmail: string) =>
+  request(app)
+    .patch("/api/auth/update-email")
+    .set("Authorization", `Bearer ${accessToken}`)
+    .send({ newEmail, password: credentials.password });
+
+describe("PATCH /api/auth/update-email", () => {
+  it("should email a confirmation link to the new address and a revert link to the old one", async () => {
+    const res = await requestEmailChange("new@test.com");
+
+    expect(res.status).toBe(200);
+    expect(res.body.user.pendingEmail).toBe("new@test.com");
+
+    expect(outbox.messages).toHaveLength(2);
+    const confirmation = outbox.messages.find((m) => m.to === "new@test.com");
+    const notice = outbox.messages.find((m) => m.to === credentials.email);
+    expect(confirmation!.text).toContain("/confirm-email-change?token=");
+    expect(notice!.text).toContain("/revert-email-change?token=");
+    expect(notice!.text).toContain("new@test.com");
+  });
+
+  it("should escape the new address in the notice html", async () => {
+    await requestEmailChange("o'brien&co@test.com");
+
+    const notice = outbox.messages.find((m) => m.to === credentials.email);
+    expect(notice!.html).toContain("o&#39;brien&amp;co@test.com");
+  });
+});
+
+describe("POST /api/auth/confirm-email-change", () => {
+  it("should change the email so new tokens carry it", async () => {
+    await requestEmailChange("new@test.com");
+
+    const res = await request(app)
+      .post("/api/auth/confirm-email-change")
+      .send({ token: getTokenFromEmailTo("new@test.com") });
+
+    expect(res.status).toBe(200);
+    expect(res.body.user.email).toBe("new@test.com");
+    expect(res.body.user.pendingEmail).toBeNull();
+
+    // the old address no longer logs in, the new one does
+    const oldLogin = await request(app)
+      .post("/api/auth/login")
+      .send(credentials);
+    expect(oldLogin.status).toBe(401);
+    const newLogin = await request(app)
+      .post("/api/auth/login")
+      .send({ email: "new@test.com", password: credentials.password });
+    expect(newLogin.status).toBe(200);
+    expect(newLogin.body.user.email).toBe("new@test.com");
+  });
+
+  it("should reject the link for an address that was replaced by a later request", async () => {
+    await requestEmailChange("first@test.com");
+    const firstToken = getTokenFromEmailTo("first@test.com");
+    await requestEmailChange("second@test.com");
+
+    const res = await request(app)
+      .post("/api/auth/confirm-email-change")
+      .send({ token: firstToken });
+
+    expect(res.status).toBe(400);
+    const user = await User.findOne({ email: credentials.email });
+    expect(user!.pendingEmail).toBe("second@test.com");
+  });
+
+  it("should reject the link once the change was cancelled", async () => {
+    await requestEmailChange("new@test.com");
+    const cancelRes = await request(app)
+      .delete("/api/auth/update-email")
+      .set("Authorization", `Bearer ${accessToken}`);
+    expect(cancelRes.status).toBe(200);
+    expect(cancelRes.body.user.pendingEmail).toBeNull();
+
+    const res = await request(app)
+      .post("/api/auth/confirm-email-change")
+      .send({ token: getTokenFromEmailTo("new@test.com") });
+
+    expect(res.status).toBe(400);
+  });
+
+  it("should return 409 when the address was registered in the meantime", async () => {
+    await requestEmailChange("new@test.com");
+    await request(app).post("/api/auth/register").send({
+      name: "Other User",
+      email: "new@test.com",
+      password: credentials.password,
+    });
+
+    const res = await request(app)
+      .post("/api/auth/confirm-email-change")
+      .send({ token: getTokenFromEmailTo("new@test.com") });
+
+    expect(res.status).toBe(409);
+  });
+});
+
+describe("POST /api/auth/revert-email-change", () => {
+  it("should drop a pending change and sign out everywhere", async () => {
+    await requestEmailChange("new@test.com");
+
+    const res = await request(app)
+      .post("/api/auth/revert-email-change")
+      .send({ token: getTokenFromEmailTo(credentials.email) });
+
+    expect(res.status).toBe(200);
+    const user = await User.findOne({ email: credentials.email });
+    expect(user!.pendingEmail).toBeNull();
+
+    const refreshRes = await request(app)
+      .post("/api/auth/refresh")
+      .set("Cookie", refreshTokenCookie);
+    expect(refreshRes.status).toBe(401);
+  });
+
+  it("should restore the old email after the change was confirmed", async () => {
+    await requestEmailChange("new@test.com");
+    await request(app)
+      .post("/api/auth/confirm-email-change")
+      .send({ token: getTokenFromEmailTo("new@test.com") });
+
+    const res = await request(app)
+      .post("/api/auth/revert-email-change")
+      .send({ token: getTokenFromEmailTo(credentials.email) });
+
+    expect(res.status).toBe(200);
+    expect(await User.exists({ email: credentials.email })).not.toBeNull();
+    expect(await User.exists({ email: "new@test.com" })).toBeNull();
+  });
+
+  it("should reject a link that was already used", async () => {
+    await requestEmailChange("new@test.com");
+    const token = getTokenFromEmailTo(credentials.email);
+    await request(app).post("/api/auth/revert-email-change").send({ token });
+
+    const res = await request(app)
+      .post("/api/auth/revert-email-change")
+      .send({ token });
+
+    expect(res.status).toBe(400);
+  });
+});
@@ -0,0 +1,122 @@
+import "./setup.js";
+import request from "supertest";
+import app, { configureApp } from "../helpers/testApp.js";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { setMailTransport } from "../../config/emailConfig.js";
+import { createMemoryOutboxTransport } from "../../utils/mailTransport.js";
+import type { MemoryOutboxTransport } from "../../utils/mailTransport.js";
+
+// in-memory outbox so we can read the verification link without sending real emails
+let outbox: MemoryOutboxTransport;
+
+// pull the token out of the link in the most recent email
+const getTokenFromLastEmail = () => {
+  const lastMessage = outbox.messages[outbox.messages.length - 1]!;
+  const match = lastMessage.text.match(/token=([^\s]+)/);
+  return decodeURIComponent(match![1]!);
+};
+
+// register a user while email verification is enabled
+const registerUnverifiedUser = () =>
+  request(app).post("/api/auth/register").send({
+    name: "Test User",
+    email: "verify@test.com",
+    password: "Tr0ub4dor&3",
+  });
+
+beforeEach(() => {
+  configureApp({ emailVerification: true });
+  outbox = createMemoryOutboxTransport();
+  setMailTransport(outbox);
+});
+
+afterEach(() => {
+  setMailTransport(null);
+});
+
+describe("POST /api/auth/register with email verification enabled", () => {
+  it("should create an unverified user and email a verification link", async () => {
+    const res = await registerUnverifiedUser();
+
+    expect(res.status).toBe(201);
+    expect(res.body.user).toHaveProperty("isVerified", false);
+    expect(outbox.messages).toHaveLength(1);
+    expect(outbox.messages[0]!.to).toBe("verify@test.com");
+    expect(outbox.messages[0]!.text).toContain("/verify-email?token=");
+  });
+
+  it("should create a verified user and send nothing when verification is disabled", async () => {
+    configureApp({ emailVerification: false });
+    const res = await registerUnverifiedUser();
+
+    expect(res.status).toBe(201);
+    expect(res.body.user).toHaveProperty("isVerified", true);
+    expect(outbox.messages).toHaveLength(0);
+  });
+});
+
+describe("POST /api/auth/verify-email", () => {
+  it("should mark the user as verified when the token is valid", async () => {
+    const registerRes = await registerUnverifiedUser();
+    const res = await request(app)
+      .post("/api/auth/verify-email")
+      .send({ token: getTokenFromLastEmail() });
+
+    expect(res.status).toBe(200);
+    expect(res.body.message).toBe("Email verified successfully");
+    expect(res.body.user).toHaveProperty("isVerified", true);
+
+    const meRes = await request(app)
+      .get("/api/auth/me")
+      .set("authorization", `Bearer ${registerRes.body.token}`);
+    expect(meRes.body.user).toHaveProperty("isVerified", true);
+  });
+
+  it("should return 400 for an invalid token", async () => {
+    const res = await request(app)
+      .post("/api/auth/verify-email")
+      .send({ token: "not-a-real-token" });
+    expect(res.status).toBe(400);
+    expect(res.body.message).toBe("Invalid or expired verification link");
+  });
+
+  it("should return 400 and a field error when the token is missing", async () => {
+    const res = await request(app).post("/api/auth/verify-email").send({});
+    expect(res.status).toBe(400);
+    expect(res.body.errors).toContainEqual(
+      expect.objectContaining({
+        path: "token",
+        msg: "Verification token is required",
+      }),
+    );
+  });
+});
+
+describe("POST /api/auth/resend-verification", () => {
+  // define a variable to hold the token for use in the tests
+  let token: string;
+
+  beforeEach(async () => {
+    const res = await registerUnverifiedUser();
+    token = res.body.token;
+  });
+
+  it("should send a new verification email", async () => {
+    const res = await request(app)
+      .post("/api/auth/resend-verification")
+      .set("authorization", `Bearer ${token}`);
+    expect(res.status).toBe(200);
+    expect(outbox.messages).toHaveLength(2);
+  });
+
+  it("should return 400 when the email is already verified", async () => {
+    await request(app)
+      .post("/api/auth/verify-email")
+      .send({ token: getTokenFromLastEmail() });
+    const res = await request(app)
+      .post("/api/auth/resend-verification")
+      .set("authorization", `Bearer ${token}`);
+    expect(res.status).toBe(400);
+    expect(res.body.message).toBe("Email is already verified");
+  });
+});
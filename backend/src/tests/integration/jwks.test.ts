@@ -0,0 +1,98 @@
+import "./setup.js";
+import request from "supertest";
+import { createPublicKey, verify } from "node:crypto";
+import app from "../helpers/testApp.js";
+import { afterEach, describe, expect, it } from "vitest";
+import { getKeyManager, setKeyManager } from "../../config/jwtConfig.js";
+import { createKeyManager, generateSigningKey } from "../../utils/jwtKeys.js";
+import type { PublicJwk } from "../../utils/jwtKeys.js";
+
+afterEach(() => {
+  setKeyManager(null);
+});
+
+// register a user and return the access token and refresh token cookie
+const register = async () => {
+  const res = await request(app).post("/api/auth/register").send({
+    name: "Test User",
+    email: "jwks@test.com",
+    password: "Tr0ub4dor&3",
+  });
+  return {
+    accessToken: res.body.token as string,
+    refreshTokenCookie: res.headers["set-cookie"]![0]!,
+  };
+};
+
+describe("GET /.well-known/jwks.json", () => {
+  it("should publish keys another service can verify our access tokens with", async () => {
+    const { accessToken } = await register();
+
+    const res = await request(app).get("/.well-known/jwks.json");
+    expect(res.status).toBe(200);
+    expect(res.headers["cache-control"]).toContain("max-age");
+
+    // do what another service would: pick the key by kid and check the signature with it
+    const [header, payload, signature] = accessToken.split(".");
+    const { kid, alg, typ } = JSON.parse(
+      Buffer.from(header!, "base64url").toString(),
+    );
+    expect(typ).toBe("at+jwt");
+
+    const jwk = (res.body.keys as PublicJwk[]).find((key) => key.kid === kid);
+    expect(jwk).toHaveProperty("alg", alg);
+    expect(jwk).not.toHaveProperty("d");
+
+    const publicKey = createPublicKey({ key: jwk!, format: "jwk" });
+    const valid = verify(
+      alg === "RS256" ? "sha256" : null,
+      Buffer.from(`${header}.${payload}`),
+      publicKey,
+      Buffer.from(signature!, "base64url"),
+    );
+    expect(valid).toBe(true);
+  });
+});
+
+describe("key rotation", () => {
+  it("should keep sessions working when the signing key changes", async () => {
+    const { accessToken, refreshTokenCookie } = await register();
+
+    // the old key stays as a verification key, the new one signs from now on
+    const oldKey = getKeyManager().signingKey.privateKey;
+    setKeyManager(createKeyManager(generateSigningKey("RS256"), [oldKey]));
+
+    const me = await request(app)
+      .get("/api/auth/me")
+      .set("Authorization", `Bearer ${accessToken}`);
+    expect(me.status).toBe(200);
+
+    const refreshed = await request(app)
+      .post("/api/auth/refresh")
+      .set("Cookie", refreshTokenCookie);
+    expect(refreshed.status).toBe(200);
+
+    const jwks = await request(app).get("/.well-known/jwks.json");
+    expect(jwks.body.keys).toHaveLength(2);
+  });
+
+  it("should reject tokens once their key is dropped", async () => {
+    const { accessToken } = await register();
+    setKeyManager(createKeyManager(generateSigningKey()));
+
+    const me = await request(app)
+      .get("/api/auth/me")
+      .set("Authorization", `Bearer ${accessToken}`);
+    expect(me.status).toBe(401);
+  });
+
+  it("should not accept a refresh token as an access token", async () => {
+    const { refreshTokenCookie } = await register();
+    const refreshToken = refreshTokenCookie.split(";")[0]!.split("=")[1]!;
+
+    const me = await request(app)
+      .get("/api/auth/me")
+      .set("Authorization", `Bearer ${refreshToken}`);
+    expect(me.status).toBe(401);
+  });
+});
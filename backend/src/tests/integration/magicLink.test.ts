@@ -0,0 +1,173 @@
+import "./setup.js";
+import request from "supertest";
+import app from "../helpers/testApp.js";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { setMailTransport } from "../../config/emailConfig.js";
+import { createMemoryOutboxTransport } from "../../utils/mailTransport.js";
+import type { MemoryOutboxTransport } from "../../utils/mailTransport.js";
+import User from "../../models/User.js";
+import MagicLink from "../../models/MagicLink.js";
+
+// in-memory outbox so we can read the sign in link without sending real emails
+let outbox: MemoryOutboxTransport;
+
+// pull a cookie out of a response's set-cookie headers
+const getCookie = (res: request.Response, name: string) => {
+  // supertest types set-cookie as a string, but it's an array when several cookies are set
+  const cookies = (res.headers["set-cookie"] ?? []) as unknown as string[];
+  return cookies.find((cookie) => cookie.startsWith(`${name}=`));
+};
+
+// ask for a link, returns the token from the email and the nonce cookie the browser got
+const requestLink = async (email = "magic@test.com") => {
+  const res = await request(app).post("/api/auth/magic-link").send({ email });
+  const lastMessage = outbox.messages[outbox.messages.length - 1];
+  const match = lastMessage?.text.match(/token=([^\s]+)/);
+  return {
+    res,
+    token: match ? decodeURIComponent(match[1]!) : "",
+    nonceCookie: getCookie(res, "magicLinkNonce")!.split(";")[0]!,
+  };
+};
+
+beforeEach(async () => {
+  outbox = createMemoryOutboxTransport();
+  setMailTransport(outbox);
+  await request(app).post("/api/auth/register").send({
+    name: "Test User",
+    email: "magic@test.com",
+    password: "Tr0ub4dor&3",
+  });
+});
+
+afterEach(() => {
+  setMailTransport(null);
+});
+
+describe("POST /api/auth/magic-link", () => {
+  it("should email a link and set the nonce cookie", async () => {
+    const { res, token } = await requestLink();
+
+    expect(res.status).toBe(200);
+    expect(outbox.messages).toHaveLength(1);
+    expect(outbox.messages[0]!.text).toContain("/magic-link?token=");
+    expect(getCookie(res, "magicLinkNonce")).toMatch(/HttpOnly/);
+
+    // only hashes are stored
+    const stored = await MagicLink.findOne({});
+    expect(JSON.stringify(stored)).not.toContain(token);
+  });
+
+  it("should return the same response and send nothing when the account doesn't exist", async () => {
+    const known = await requestLink();
+    const unknown = await requestLink("nobody@test.com");
+
+    expect(unknown.res.status).toBe(200);
+    expect(unknown.res.body).toEqual(known.res.body);
+    expect(getCookie(unknown.res, "magicLinkNonce")).toBeDefined();
+    expect(outbox.messages).toHaveLength(1);
+  });
+});
+
+describe("POST /api/auth/magic-link/verify", () => {
+  it("should sign in once with the link in the browser that asked for it", async () => {
+    const { token, nonceCookie } = await requestLink();
+
+    const res = await request(app)
+      .post("/api/auth/magic-link/verify")
+      .set("Cookie", nonceCookie)
+      .send({ token });
+    expect(res.status).toBe(200);
+    expect(res.body.token).toBeDefined();
+    expect(res.body.user.email).toBe("magic@test.com");
+    expect(getCookie(res, "refreshToken")).toBeDefined();
+
+    const reused = await request(app)
+      .post("/api/auth/magic-link/verify")
+      .set("Cookie", nonceCookie)
+      .send({ token });
+    expect(reused.status).toBe(400);
+  });
+
+  it("should refuse a forwarded link without using it up", async () => {
+    const { token, nonceCookie } = await requestLink();
+
+    // another browser, without the cookie or with its own
+    const forwarded = await request(app)
+      .post("/api/auth/magic-link/verify")
+      .send({ token });
+    expect(forwarded.status).toBe(400);
+    const otherBrowser = await requestLink("nobody@test.com");
+    const withOtherCookie = await request(app)
+      .post("/api/auth/magic-link/verify")
+      .set("Cookie", otherBrowser.nonceCookie)
+      .send({ token });
+    expect(withOtherCookie.status).toBe(400);
+
+    // still works in the browser that asked for it
+    const res = await request(app)
+      .post("/api/auth/magic-link/verify")
+      .set("Cookie", nonceCookie)
+      .send({ token });
+    expect(res.status).toBe(200);
+  });
+
+  it("should reject expired links", async () => {
+    const { token, nonceCookie } = await requestLink();
+    await MagicLink.updateMany({}, { expiresAt: new Date(0) });
+
+    const res = await request(app)
+      .post("/api/auth/magic-link/verify")
+      .set("Cookie", nonceCookie)
+      .send({ token });
+    expect(res.status).toBe(400);
+  });
+
+  it("should ask for the two-factor code when it's enabled", async () => {
+    const { token, nonceCookie } = await requestLink();
+    await User.updateMany({}, { "twoFactor.enabled": true });
+
+    const res = await request(app)
+      .post("/api/auth/magic-link/verify")
+      .set("Cookie", nonceCookie)
+      .send({ token });
+    expect(res.status).toBe(200);
+    expect(res.body.twoFactorRequired).toBe(true);
+    expect(res.body.challengeToken).toBeDefined();
+    expect(res.body.token).toBeUndefined();
+  });
+
+  it("should refuse disabled accounts", async () => {
+    const { token, nonceCookie } = await requestLink();
+    await User.updateMany({}, { disabledAt: new Date() });
+
+    const res = await request(app)
+      .post("/api/auth/magic-link/verify")
+      .set("Cookie", nonceCookie)
+      .send({ token });
+    expect(res.status).toBe(403);
+  });
+});
+
+describe("GET /api/auth/magic-link/verify", () => {
+  it("should sign in and redirect to the frontend", async () => {
+    const { token, nonceCookie } = await requestLink();
+
+    const res = await request(app)
+      .get(`/api/auth/magic-link/verify?token=${token}`)
+      .set("Cookie", nonceCookie);
+    expect(res.status).toBe(302);
+    expect(res.headers.location).toMatch(/\/magic-link\?signedIn=1$/);
+    expect(getCookie(res, "refreshToken")).toBeDefined();
+  });
+
+  it("should redirect with an error code when the link can't be used", async () => {
+    const { token } = await requestLink();
+
+    const res = await request(app).get(
+      `/api/auth/magic-link/verify?token=${token}`,
+    );
+    expect(res.status).toBe(302);
+    expect(res.headers.location).toMatch(/\?error=different_browser$/);
+  });
+});
@@ -0,0 +1,250 @@
+import "./setup.js";
+import request from "supertest";
+import app, { configureApp } from "../helpers/testApp.js";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { startMockOidcServer } from "../helpers/mockOidcServer.js";
+import { clearOidcCache } from "../../utils/oauthUtils.js";
+import User from "../../models/User.js";
+
+let mockServer: Awaited<ReturnType<typeof startMockOidcServer>>;
+
+// start the mock provider and enable the generic OIDC provider pointing at it
+beforeAll(async () => {
+  mockServer = await startMockOidcServer({
+    clientId: "test-client",
+    clientSecret: "test-secret",
+  });
+  configureApp({
+    oauth: {
+      oidc: {
+        issuer: mockServer.issuer,
+        clientId: "test-client",
+        clientSecret: "test-secret",
+        name: "Single Sign-On",
+      },
+    },
+  });
+});
+
+afterAll(async () => {
+  clearOidcCache();
+  await mockServer.close();
+});
+
+// pull a cookie out of a response's set-cookie headers
+const getCookie = (res: request.Response, name: string) => {
+  // supertest types set-cookie as a string, but it's an array when several cookies are set
+  const cookies = (res.headers["set-cookie"] ?? []) as unknown as string[];
+  return cookies.find((cookie) => cookie.startsWith(`${name}=`));
+};
+
+// run the whole flow: start, sign in at the mock provider, then hit our callback like the browser would
+const signInWithProvider = async (options: { accessToken?: string } = {}) => {
+  const start = options.accessToken
+    ? await request(app)
+        .post("/api/auth/oauth/oidc/link")
+        .set("Authorization", `Bearer ${options.accessToken}`)
+    : await request(app).post("/api/auth/oauth/oidc/start");
+  const stateCookie = getCookie(start, "oauthState")!;
+
+  const callbackUrl = await mockServer.authorize(start.body.authorizationUrl);
+  return request(app)
+    .get(callbackUrl.pathname + callbackUrl.search)
+    .set("Cookie", stateCookie);
+};
+
+describe("GET /api/auth/oauth/providers", () => {
+  it("should list the enabled providers", async () => {
+    const res = await request(app).get("/api/auth/oauth/providers");
+    expect(res.body.providers).toContainEqual({
+      id: "oidc",
+      name: "Single Sign-On",
+    });
+  });
+});
+
+describe("OAuth sign in", () => {
+  it("should create an account on first sign in and start a session", async () => {
+    mockServer.setUser({
+      sub: "new-user",
+      email: "new@test.com",
+      email_verified: true,
+      name: "New User",
+    });
+
+    const res = await signInWithProvider();
+
+    expect(res.status).toBe(302);
+    expect(res.headers.location).toBe("http://localhost:3000/oauth/callback");
+    const refreshCookie = getCookie(res, "refreshToken")!;
+    expect(refreshCookie).toBeDefined();
+
+    // the frontend swaps the refresh cookie for an access token
+    const refresh = await request(app)
+      .post("/api/auth/refresh")
+      .set("Cookie", refreshCookie);
+    const me = await request(app)
+      .get("/api/auth/me")
+      .set("Authorization", `Bearer ${refresh.body.token}`);
+    expect(me.body.user.email).toBe("new@test.com");
+  });
+
+  it("should sign in to the same account next time", async () => {
+    mockServer.setUser({ sub: "returning", email: "returning@test.com" });
+    await signInWithProvider();
+    const res = await signInWithProvider();
+
+    expect(res.headers.location).toBe("http://localhost:3000/oauth/callback");
+    const identities = await request(app)
+      .post("/api/auth/refresh")
+      .set("Cookie", getCookie(res, "refreshToken")!)
+      .then((refresh) =>
+        request(app)
+          .get("/api/auth/identities")
+          .set("Authorization", `Bearer ${refresh.body.token}`),
+      );
+    expect(identities.body.identities).toHaveLength(1);
+  });
+
+  it("should refuse to sign in when an admin required a new password", async () => {
+    mockServer.setUser({ sub: "reset-user", email: "reset@test.com" });
+    await signInWithProvider();
+    await User.updateOne(
+      { email: "reset@test.com" },
+      { passwordResetRequired: true },
+    );
+
+    const res = await signInWithProvider();
+
+    expect(res.headers.location).toBe(
+      "http://localhost:3000/oauth/callback?error=password_reset_required",
+    );
+    expect(getCookie(res, "refreshToken")).toBeUndefined();
+  });
+
+  it("should link to an existing account when both sides verified the email", async () => {
+    configureApp({ emailVerification: true });
+    await request(app).post("/api/auth/register").send({
+      name: "Existing User",
+      email: "existing@test.com",
+      password: "Tr0ub4dor&3",
+    });
+    await User.updateOne({ email: "existing@test.com" }, { isVerified: true });
+    mockServer.setUser({
+      sub: "existing-sub",
+      email: "existing@test.com",
+      email_verified: true,
+    });
+
+    const res = await signInWithProvider();
+    configureApp({ emailVerification: false });
+
+    expect(res.headers.location).toBe("http://localhost:3000/oauth/callback");
+    expect(getCookie(res, "refreshToken")).toBeDefined();
+  });
+
+  it("should refuse to link an existing account that never proved it owns the email", async () => {
+    // with email verification off anyone can register any address, e.g. before its owner first signs in with the provider
+    await request(app).post("/api/auth/register").send({
+      name: "Attacker",
+      email: "victim@test.com",
+      password: "Tr0ub4dor&3",
+    });
+    mockServer.setUser({
+      sub: "victim-sub",
+      email: "victim@test.com",
+      email_verified: true,
+    });
+
+    const res = await signInWithProvider();
+
+    expect(res.headers.location).toBe(
+      "http://localhost:3000/oauth/callback?error=account_exists",
+    );
+    expect(getCookie(res, "refreshToken")).toBeUndefined();
+  });
+
+  it("should refuse to take over an existing account with an unverified email", async () => {
+    await request(app).post("/api/auth/register").send({
+      name: "Existing User",
+      email: "victim@test.com",
+      password: "Tr0ub4dor&3",
+    });
+    mockServer.setUser({
+      sub: "attacker",
+      email: "victim@test.com",
+      email_verified: false,
+    });
+
+    const res = await signInWithProvider();
+
+    expect(res.headers.location).toBe(
+      "http://localhost:3000/oauth/callback?error=account_exists",
+    );
+    expect(getCookie(res, "refreshToken")).toBeUndefined();
+  });
+
+  it("should reject a callback without the matching state cookie", async () => {
+    const start = await request(app).post("/api/auth/oauth/oidc/start");
+    const callbackUrl = await mockServer.authorize(start.body.authorizationUrl);
+
+    const res = await request(app).get(
+      callbackUrl.pathname + callbackUrl.search,
+    );
+
+    expect(res.headers.location).toBe(
+      "http://localhost:3000/oauth/callback?error=invalid_state",
+    );
+  });
+
+  it("should return 404 for an unknown provider", async () => {
+    const res = await request(app).post("/api/auth/oauth/nope/start");
+    expect(res.status).toBe(404);
+  });
+});
+
+describe("linking accounts", () => {
+  it("should connect a provider account to the logged in user and unlink it", async () => {
+    const register = await request(app).post("/api/auth/register").send({
+      name: "Linker",
+      email: "linker@test.com",
+      password: "Tr0ub4dor&3",
+    });
+    const accessToken = register.body.token;
+    mockServer.setUser({ sub: "linked-sub", email: "other-email@test.com" });
+
+    const res = await signInWithProvider({ accessToken });
+    expect(res.headers.location).toBe(
+      "http://localhost:3000/oauth/callback?linked=oidc",
+    );
+
+    const list = await request(app)
+      .get("/api/auth/identities")
+      .set("Authorization", `Bearer ${accessToken}`);
+    expect(list.body.identities).toHaveLength(1);
+    expect(list.body.identities[0].provider).toBe("oidc");
+
+    const unlink = await request(app)
+      .delete(`/api/auth/identities/${list.body.identities[0]._id}`)
+      .set("Authorization", `Bearer ${accessToken}`);
+    expect(unlink.status).toBe(204);
+  });
+
+  it("should not link a provider account that belongs to someone else", async () => {
+    mockServer.setUser({ sub: "taken-sub", email: "first@test.com" });
+    await signInWithProvider();
+
+    const register = await request(app).post("/api/auth/register").send({
+      name: "Second",
+      email: "second@test.com",
+      password: "Tr0ub4dor&3",
+    });
+    const res = await signInWithProvider({
+      accessToken: register.body.token,
+    });
+
+    expect(res.headers.location).toBe(
+      "http://localhost:3000/oauth/callback?error=identity_in_use",
+    );
+  });
+});
@@ -0,0 +1,257 @@
+import "./setup.js";
+import request from "supertest";
+import app from "../helpers/testApp.js";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { setMailTransport } from "../../config/emailConfig.js";
+import { createMemoryOutboxTransport } from "../../utils/mailTransport.js";
+import type { MemoryOutboxTransport } from "../../utils/mailTransport.js";
+import Membership from "../../models/Membership.js";
+import Organization from "../../models/Organization.js";
+import OrganizationInvite from "../../models/OrganizationInvite.js";
+
+// in-memory outbox so we can read the invitation link without sending real emails
+let outbox: MemoryOutboxTransport;
+
+// access tokens and user ids of the owner and a second user
+let ownerToken: string;
+let ownerId: string;
+let otherToken: string;
+let otherId: string;
+let organizationId: string;
+
+// register a user, returns their access token and id
+const registerUser = async (email: string) => {
+  const res = await request(app)
+    .post("/api/auth/register")
+    .send({ name: "Test User", email, password: "Tr0ub4dor&3" });
+  return { token: res.body.token as string, id: res.body.user._id as string };
+};
+
+// invite an email address as the owner, returns the token from the emailed link
+const invite = async (email: string, role = "member") => {
+  const res = await request(app)
+    .post(`/api/organizations/${organizationId}/invites`)
+    .set("Authorization", `Bearer ${ownerToken}`)
+    .send({ email, role });
+  expect(res.status).toBe(201);
+  const lastMessage = outbox.messages[outbox.messages.length - 1]!;
+  return decodeURIComponent(lastMessage.text.match(/token=([^\s]+)/)![1]!);
+};
+
+// invite the second user and accept as them
+const addOtherUser = async (role = "member") => {
+  const token = await invite("other@test.com", role);
+  await request(app)
+    .post("/api/organizations/invitations/accept")
+    .set("Authorization", `Bearer ${otherToken}`)
+    .send({ token });
+};
+
+beforeEach(async () => {
+  outbox = createMemoryOutboxTransport();
+  setMailTransport(outbox);
+  ({ token: ownerToken, id: ownerId } = await registerUser("owner@test.com"));
+  ({ token: otherToken, id: otherId } = await registerUser("other@test.com"));
+  const res = await request(app)
+    .post("/api/organizations")
+    .set("Authorization", `Bearer ${ownerToken}`)
+    .send({ name: "Acme" });
+  organizationId = res.body.organization._id;
+});
+
+afterEach(() => {
+  setMailTransport(null);
+});
+
+describe("POST /api/organizations", () => {
+  it("should make the creator the owner", async () => {
+    const res = await request(app)
+      .get("/api/organizations")
+      .set("Authorization", `Bearer ${ownerToken}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.organizations).toEqual([
+      expect.objectContaining({ name: "Acme", role: "owner" }),
+    ]);
+  });
+
+  it("should hide organizations from users who aren't members", async () => {
+    const res = await request(app)
+      .get(`/api/organizations/${organizationId}/members`)
+      .set("Authorization", `Bearer ${otherToken}`);
+    expect(res.status).toBe(404);
+  });
+});
+
+describe("invitations", () => {
+  it("should let the invited user see, then accept the invitation", async () => {
+    const token = await invite("Other@Test.com", "admin");
+
+    const lookup = await request(app)
+      .post("/api/organizations/invitations/lookup")
+      .set("Authorization", `Bearer ${otherToken}`)
+      .send({ token });
+    expect(lookup.status).toBe(200);
+    expect(lookup.body.invitation).toMatchObject({
+      organizationName: "Acme",
+      email: "other@test.com",
+      role: "admin",
+    });
+
+    const accept = await request(app)
+      .post("/api/organizations/invitations/accept")
+      .set("Authorization", `Bearer ${otherToken}`)
+      .send({ token });
+    expect(accept.status).toBe(200);
+    expect(accept.body.organization.role).toBe("admin");
+    expect(await OrganizationInvite.countDocuments()).toBe(0);
+
+    // the link only works once
+    const again = await request(app)
+      .post("/api/organizations/invitations/accept")
+      .set("Authorization", `Bearer ${otherToken}`)
+      .send({ token });
+    expect(again.status).toBe(400);
+  });
+
+  it("should only work for the account with the invited email", async () => {
+    const token = await invite("someone-else@test.com");
+
+    const res = await request(app)
+      .post("/api/organizations/invitations/accept")
+      .set("Authorization", `Bearer ${otherToken}`)
+      .send({ token });
+    expect(res.status).toBe(403);
+  });
+
+  it("should stop working once declined or expired", async () => {
+    const declined = await invite("other@test.com");
+    const decline = await request(app)
+      .post("/api/organizations/invitations/decline")
+      .set("Authorization", `Bearer ${otherToken}`)
+      .send({ token: declined });
+    expect(decline.status).toBe(204);
+
+    const expired = await invite("other@test.com");
+    await OrganizationInvite.updateMany({}, { expiresAt: new Date(0) });
+    const res = await request(app)
+      .post("/api/organizations/invitations/accept")
+      .set("Authorization", `Bearer ${otherToken}`)
+      .send({ token: expired });
+    expect(res.status).toBe(400);
+    expect(await Membership.countDocuments({ user: otherId })).toBe(0);
+  });
+
+  it("should reject inviting someone who is already a member", async () => {
+    await addOtherUser();
+
+    const res = await request(app)
+      .post(`/api/organizations/${organizationId}/invites`)
+      .set("Authorization", `Bearer ${ownerToken}`)
+      .send({ email: "other@test.com", role: "member" });
+    expect(res.status).toBe(400);
+    expect(res.body.errors[0].path).toBe("email");
+  });
+
+  it("should escape the organization name in the invitation email", async () => {
+    await Organization.updateOne(
+      { _id: organizationId },
+      { name: '<a href="https://evil.test">Log in here</a>' },
+    );
+
+    await invite("someone-else@test.com");
+
+    const html = outbox.messages[outbox.messages.length - 1]!.html!;
+    expect(html).not.toContain('<a href="https://evil.test">');
+    expect(html).toContain(
+      "&lt;a href=&quot;https://evil.test&quot;&gt;Log in here&lt;/a&gt;",
+    );
+  });
+
+  it("should not let members invite people", async () => {
+    await addOtherUser();
+
+    const res = await request(app)
+      .post(`/api/organizations/${organizationId}/invites`)
+      .set("Authorization", `Bearer ${otherToken}`)
+      .send({ email: "new@test.com", role: "member" });
+    expect(res.status).toBe(403);
+  });
+});
+
+describe("managing members", () => {
+  it("should let the owner change roles and admins only manage members", async () => {
+    await addOtherUser();
+
+    const promote = await request(app)
+      .patch(`/api/organizations/${organizationId}/members/${otherId}`)
+      .set("Authorization", `Bearer ${ownerToken}`)
+      .send({ role: "admin" });
+    expect(promote.status).toBe(200);
+    expect(promote.body.member.role).toBe("admin");
+
+    // an admin can't invite another admin
+    const adminInvite = await request(app)
+      .post(`/api/organizations/${organizationId}/invites`)
+      .set("Authorization", `Bearer ${otherToken}`)
+      .send({ email: "new@test.com", role: "admin" });
+    expect(adminInvite.status).toBe(403);
+  });
+
+  it("should let members leave but not the owner", async () => {
+    await addOtherUser();
+
+    const ownerLeaves = await request(app)
+      .delete(`/api/organizations/${organizationId}/members/${ownerId}`)
+      .set("Authorization", `Bearer ${ownerToken}`);
+    expect(ownerLeaves.status).toBe(400);
+
+    const leave = await request(app)
+      .delete(`/api/organizations/${organizationId}/members/${otherId}`)
+      .set("Authorization", `Bearer ${otherToken}`);
+    expect(leave.status).toBe(204);
+    expect(await Membership.countDocuments({ user: otherId })).toBe(0);
+  });
+
+  it("should transfer ownership and keep the old owner as an admin", async () => {
+    await addOtherUser();
+
+    const res = await request(app)
+      .post(`/api/organizations/${organizationId}/transfer`)
+      .set("Authorization", `Bearer ${ownerToken}`)
+      .send({ userId: otherId });
+    expect(res.status).toBe(200);
+
+    const members = await request(app)
+      .get(`/api/organizations/${organizationId}/members`)
+      .set("Authorization", `Bearer ${otherToken}`);
+    expect(
+      members.body.members.map((member: { role: string }) => member.role),
+    ).toEqual(["admin", "owner"]);
+  });
+
+  it("should leave exactly one owner when two transfers run at the same time", async () => {
+    await addOtherUser();
+    const third = await registerUser("third@test.com");
+    await Membership.create({
+      organization: organizationId,
+      user: third.id,
+      role: "member",
+    });
+
+    const transfer = (userId: string) =>
+      request(app)
+        .post(`/api/organizations/${organizationId}/transfer`)
+        .set("Authorization", `Bearer ${ownerToken}`)
+        .send({ userId });
+    const results = await Promise.all([transfer(otherId), transfer(third.id)]);
+
+    expect(results.map((res) => res.status).sort()).toEqual([200, 409]);
+    expect(
+      await Membership.countDocuments({
+        organization: organizationId,
+        role: "owner",
+      }),
+    ).toBe(1);
+  });
+});
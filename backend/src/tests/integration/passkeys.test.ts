@@ -0,0 +1,187 @@
+import "./setup.js";
+import request from "supertest";
+import app from "../helpers/testApp.js";
+import { beforeEach, describe, expect, it } from "vitest";
+import { createSoftwareAuthenticator } from "../helpers/softwareAuthenticator.js";
+import User from "../../models/User.js";
+
+// the relying party defaults to FRONTEND_URL, which defaults to http://localhost:3000
+const origin = "http://localhost:3000";
+
+// define variables to hold the access token and the authenticator for the test user
+let accessToken: string;
+let authenticator: ReturnType<typeof createSoftwareAuthenticator>;
+
+// run the registration ceremony with the software authenticator
+const registerPasskey = async (name?: string) => {
+  const options = await request(app)
+    .post("/api/auth/passkeys/register/options")
+    .set("Authorization", `Bearer ${accessToken}`);
+
+  return request(app)
+    .post("/api/auth/passkeys/register/verify")
+    .set("Authorization", `Bearer ${accessToken}`)
+    .send({ response: authenticator.createCredential(options.body), name });
+};
+
+// run the login ceremony with the software authenticator
+const loginWithPasskey = async () => {
+  const options = await request(app).post("/api/auth/passkeys/login/options");
+  return request(app)
+    .post("/api/auth/passkeys/login/verify")
+    .send({ response: authenticator.getAssertion(options.body) });
+};
+
+beforeEach(async () => {
+  authenticator = createSoftwareAuthenticator(origin);
+  const res = await request(app).post("/api/auth/register").send({
+    name: "Test User",
+    email: "passkey@test.com",
+    password: "Tr0ub4dor&3",
+  });
+  accessToken = res.body.token;
+});
+
+describe("passkey registration", () => {
+  it("should store the passkey and list it", async () => {
+    const res = await registerPasskey("Test laptop");
+
+    expect(res.status).toBe(201);
+    expect(res.body.passkey.name).toBe("Test laptop");
+    expect(res.body.passkey.publicKey).toBeUndefined();
+
+    const list = await request(app)
+      .get("/api/auth/passkeys")
+      .set("Authorization", `Bearer ${accessToken}`);
+    expect(list.body.passkeys).toHaveLength(1);
+  });
+
+  it("should reject a response for a challenge that was never issued", async () => {
+    const response = authenticator.createCredential({
+      challenge: "bm90LWEtcmVhbC1jaGFsbGVuZ2U",
+      rp: { id: "localhost" },
+      user: { id: "dXNlcg" },
+    });
+
+    const res = await request(app)
+      .post("/api/auth/passkeys/register/verify")
+      .set("Authorization", `Bearer ${accessToken}`)
+      .send({ response });
+
+    expect(res.status).toBe(400);
+  });
+
+  it("should require authentication", async () => {
+    const res = await request(app).post("/api/auth/passkeys/register/options");
+    expect(res.status).toBe(401);
+  });
+});
+
+describe("passkey login", () => {
+  it("should log in and return tokens like a password login", async () => {
+    await registerPasskey();
+
+    const res = await loginWithPasskey();
+
+    expect(res.status).toBe(200);
+    expect(res.body.token).toBeDefined();
+    expect(res.body.user.email).toBe("passkey@test.com");
+    expect(res.headers["set-cookie"]![0]).toMatch(/refreshToken=/);
+
+    const list = await request(app)
+      .get("/api/auth/passkeys")
+      .set("Authorization", `Bearer ${accessToken}`);
+    expect(list.body.passkeys[0].lastUsedAt).not.toBeNull();
+  });
+
+  it("should not accept the same response twice", async () => {
+    await registerPasskey();
+    const options = await request(app).post("/api/auth/passkeys/login/options");
+    const response = authenticator.getAssertion(options.body);
+
+    const first = await request(app)
+      .post("/api/auth/passkeys/login/verify")
+      .send({ response });
+    const second = await request(app)
+      .post("/api/auth/passkeys/login/verify")
+      .send({ response });
+
+    expect(first.status).toBe(200);
+    expect(second.status).toBe(401);
+  });
+
+  it("should reject a login the authenticator didn't verify the user for", async () => {
+    await registerPasskey();
+    const options = await request(app).post("/api/auth/passkeys/login/options");
+
+    const res = await request(app)
+      .post("/api/auth/passkeys/login/verify")
+      .send({
+        response: authenticator.getAssertion(options.body, {
+          userVerified: false,
+        }),
+      });
+
+    expect(options.body.userVerification).toBe("required");
+    expect(res.status).toBe(401);
+  });
+
+  it("should refuse to log in when an admin required a new password", async () => {
+    await registerPasskey();
+    await User.updateOne(
+      { email: "passkey@test.com" },
+      { passwordResetRequired: true },
+    );
+
+    const res = await loginWithPasskey();
+
+    expect(res.status).toBe(403);
+    expect(res.body.token).toBeUndefined();
+  });
+
+  it("should reject a passkey that isn't registered", async () => {
+    const res = await loginWithPasskey();
+    expect(res.status).toBe(401);
+  });
+});
+
+describe("passkey management", () => {
+  it("should rename a passkey", async () => {
+    const created = await registerPasskey();
+
+    const res = await request(app)
+      .patch(`/api/auth/passkeys/${created.body.passkey._id}`)
+      .set("Authorization", `Bearer ${accessToken}`)
+      .send({ name: "Phone" });
+
+    expect(res.status).toBe(200);
+    expect(res.body.passkey.name).toBe("Phone");
+  });
+
+  it("should delete a passkey so it can no longer log in", async () => {
+    const created = await registerPasskey();
+
+    const res = await request(app)
+      .delete(`/api/auth/passkeys/${created.body.passkey._id}`)
+      .set("Authorization", `Bearer ${accessToken}`);
+    expect(res.status).toBe(204);
+
+    const login = await loginWithPasskey();
+    expect(login.status).toBe(401);
+  });
+
+  it("should not let users delete each other's passkeys", async () => {
+    const created = await registerPasskey();
+    const other = await request(app).post("/api/auth/register").send({
+      name: "Other User",
+      email: "other@test.com",
+      password: "Tr0ub4dor&3",
+    });
+
+    const res = await request(app)
+      .delete(`/api/auth/passkeys/${created.body.passkey._id}`)
+      .set("Authorization", `Bearer ${other.body.token}`);
+
+    expect(res.status).toBe(404);
+  });
+});
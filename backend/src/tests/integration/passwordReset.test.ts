@@ -0,0 +1,142 @@
+import "./setup.js";
+import request from "supertest";
+import app from "../helpers/testApp.js";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { setMailTransport } from "../../config/emailConfig.js";
+import { createMemoryOutboxTransport } from "../../utils/mailTransport.js";
+import type { MemoryOutboxTransport } from "../../utils/mailTransport.js";
+
+// in-memory outbox so we can read the reset link without sending real emails
+let outbox: MemoryOutboxTransport;
+
+// the response every forgot password request gets, whether or not the account exists
+const genericMessage =
+  "If an account with that email exists, a password reset link has been sent.";
+
+// pull the token out of the link in the most recent email
+const getTokenFromLastEmail = () => {
+  const lastMessage = outbox.messages[outbox.messages.length - 1]!;
+  const match = lastMessage.text.match(/token=([^\s]+)/);
+  return decodeURIComponent(match![1]!);
+};
+
+// define a variable to hold the refresh token cookie from registration
+let refreshTokenCookie: string;
+
+beforeEach(async () => {
+  outbox = createMemoryOutboxTransport();
+  setMailTransport(outbox);
+  const res = await request(app).post("/api/auth/register").send({
+    name: "Test User",
+    email: "reset@test.com",
+    password: "Tr0ub4dor&3",
+  });
+  refreshTokenCookie = res.headers["set-cookie"]![0]!;
+});
+
+afterEach(() => {
+  setMailTransport(null);
+});
+
+describe("POST /api/auth/forgot-password", () => {
+  it("should email a reset link when the account exists", async () => {
+    const res = await request(app)
+      .post("/api/auth/forgot-password")
+      .send({ email: "reset@test.com" });
+
+    expect(res.status).toBe(200);
+    expect(res.body.message).toBe(genericMessage);
+    expect(outbox.messages).toHaveLength(1);
+    expect(outbox.messages[0]!.text).toContain("/reset-password?token=");
+  });
+
+  it("should return the same response and send nothing when the account doesn't exist", async () => {
+    const res = await request(app)
+      .post("/api/auth/forgot-password")
+      .send({ email: "nobody@test.com" });
+
+    expect(res.status).toBe(200);
+    expect(res.body.message).toBe(genericMessage);
+    expect(outbox.messages).toHaveLength(0);
+  });
+});
+
+describe("POST /api/auth/reset-password", () => {
+  it("should reset the password, allow login with it and sign out existing sessions", async () => {
+    await request(app)
+      .post("/api/auth/forgot-password")
+      .send({ email: "reset@test.com" });
+
+    const res = await request(app)
+      .post("/api/auth/reset-password")
+      .send({ token: getTokenFromLastEmail(), newPassword: "NewPassword1!" });
+    expect(res.status).toBe(200);
+
+    const loginRes = await request(app).post("/api/auth/login").send({
+      email: "reset@test.com",
+      password: "NewPassword1!",
+    });
+    expect(loginRes.status).toBe(200);
+
+    // the refresh token issued before the reset no longer works
+    const refreshRes = await request(app)
+      .post("/api/auth/refresh")
+      .set("Cookie", refreshTokenCookie);
+    expect(refreshRes.status).toBe(401);
+  });
+
+  it("should only accept a reset token once", async () => {
+    await request(app)
+      .post("/api/auth/forgot-password")
+      .send({ email: "reset@test.com" });
+    const token = getTokenFromLastEmail();
+
+    await request(app)
+      .post("/api/auth/reset-password")
+      .send({ token, newPassword: "NewPassword1!" });
+    const res = await request(app)
+      .post("/api/auth/reset-password")
+      .send({ token, newPassword: "OtherPassword1!" });
+
+    expect(res.status).toBe(400);
+    expect(res.body.message).toBe("Invalid or expired reset link");
+  });
+
+  it("should reject the current password without using up the token", async () => {
+    await request(app)
+      .post("/api/auth/forgot-password")
+      .send({ email: "reset@test.com" });
+    const token = getTokenFromLastEmail();
+
+    const reuseRes = await request(app)
+      .post("/api/auth/reset-password")
+      .send({ token, newPassword: "Tr0ub4dor&3" });
+    expect(reuseRes.status).toBe(400);
+    expect(reuseRes.body.errors[0].path).toBe("newPassword");
+
+    const res = await request(app)
+      .post("/api/auth/reset-password")
+      .send({ token, newPassword: "NewPassword1!" });
+    expect(res.status).toBe(200);
+  });
+
+  it("should return 400 and validation errors for a weak password", async () => {
+    const res = await request(app)
+      .post("/api/auth/reset-password")
+      .send({ token: "anything", newPassword: "weak" });
+
+    expect(res.status).toBe(400);
+    expect(res.body.errors[0].msg).toBe(
+      "Password must be at least 8 characters",
+    );
+  });
+
+  it("should return 400 for a token that isn't a string", async () => {
+    const res = await request(app)
+      .post("/api/auth/reset-password")
+      .send({ token: { $ne: "" }, newPassword: "NewPassword1!" });
+
+    expect(res.status).toBe(400);
+    expect(res.body.errors[0].path).toBe("token");
+  });
+});
@@ -0,0 +1,139 @@
+import "./setup.js";
+import request from "supertest";
+import app from "../helpers/testApp.js";
+import { beforeEach, describe, expect, it } from "vitest";
+import User from "../../models/User.js";
+import PersonalAccessToken from "../../models/PersonalAccessToken.js";
+
+let accessToken: string;
+
+beforeEach(async () => {
+  const res = await request(app).post("/api/auth/register").send({
+    name: "Test User",
+    email: "pat@test.com",
+    password: "Tr0ub4dor&3",
+  });
+  accessToken = res.body.token;
+});
+
+// create a token with the given scopes, returns the response
+const createToken = (scopes: string[], expiresInDays = 30) =>
+  request(app)
+    .post("/api/auth/personal-access-tokens")
+    .set("Authorization", `Bearer ${accessToken}`)
+    .send({ name: "Backup script", scopes, expiresInDays });
+
+describe("POST /api/auth/personal-access-tokens", () => {
+  it("should return the token once and store only its hash and prefix", async () => {
+    const res = await createToken(["profile:read"]);
+
+    expect(res.status).toBe(201);
+    expect(res.body.token).toMatch(/^pat_[A-Za-z0-9_-]{43}$/);
+    expect(res.body.personalAccessToken).toMatchObject({
+      name: "Backup script",
+      prefix: res.body.token.slice(0, 12),
+      scopes: ["profile:read"],
+      lastUsedAt: null,
+    });
+
+    const stored = await PersonalAccessToken.findOne({});
+    expect(stored!.tokenHash).not.toContain(res.body.token);
+    expect(JSON.stringify(stored)).not.toContain(res.body.token);
+
+    // the list never includes the token itself
+    const list = await request(app)
+      .get("/api/auth/personal-access-tokens")
+      .set("Authorization", `Bearer ${accessToken}`);
+    expect(list.body.personalAccessTokens).toHaveLength(1);
+    expect(JSON.stringify(list.body)).not.toContain(res.body.token);
+  });
+
+  it("should reject unknown scopes and expirations over the limit", async () => {
+    const badScope = await createToken(["users:manage"]);
+    expect(badScope.status).toBe(400);
+
+    const tooLong = await createToken(["profile:read"], 5000);
+    expect(tooLong.status).toBe(400);
+    expect(tooLong.body.errors[0].path).toBe("expiresInDays");
+  });
+
+  it("should not let a personal access token create more tokens", async () => {
+    const { token } = (await createToken(["profile:read"])).body;
+
+    const res = await request(app)
+      .post("/api/auth/personal-access-tokens")
+      .set("Authorization", `Bearer ${token}`)
+      .send({ name: "Another", scopes: ["profile:read"], expiresInDays: 30 });
+    expect(res.status).toBe(401);
+  });
+});
+
+describe("using a personal access token", () => {
+  it("should work on routes its scopes allow and record when it was used", async () => {
+    const { token } = (await createToken(["profile:read"])).body;
+
+    const res = await request(app)
+      .get("/api/auth/me")
+      .set("Authorization", `Bearer ${token}`);
+    expect(res.status).toBe(200);
+    expect(res.body.user.email).toBe("pat@test.com");
+
+    const stored = await PersonalAccessToken.findOne({});
+    expect(stored!.lastUsedAt).toBeInstanceOf(Date);
+  });
+
+  it("should return 403 on routes that need a scope it doesn't have", async () => {
+    const { token } = (await createToken(["profile:read"])).body;
+
+    const res = await request(app)
+      .get("/api/auth/me/activity")
+      .set("Authorization", `Bearer ${token}`);
+    expect(res.status).toBe(403);
+  });
+
+  it("should return 401 on routes that only accept a logged in session", async () => {
+    const { token } = (await createToken(["profile:read"])).body;
+
+    const res = await request(app)
+      .patch("/api/auth/update-password")
+      .set("Authorization", `Bearer ${token}`)
+      .send({ currentPassword: "Tr0ub4dor&3", newPassword: "Tr0ub4dor&4" });
+    expect(res.status).toBe(401);
+  });
+
+  it("should stop working once deleted", async () => {
+    const created = (await createToken(["profile:read"])).body;
+
+    const deleted = await request(app)
+      .delete(
+        `/api/auth/personal-access-tokens/${created.personalAccessToken._id}`,
+      )
+      .set("Authorization", `Bearer ${accessToken}`);
+    expect(deleted.status).toBe(204);
+
+    const res = await request(app)
+      .get("/api/auth/me")
+      .set("Authorization", `Bearer ${created.token}`);
+    expect(res.status).toBe(401);
+  });
+
+  it("should reject expired tokens and tokens of disabled accounts", async () => {
+    const { token } = (await createToken(["profile:read"])).body;
+
+    await PersonalAccessToken.updateMany({}, { expiresAt: new Date(0) });
+    const expired = await request(app)
+      .get("/api/auth/me")
+      .set("Authorization", `Bearer ${token}`);
+    expect(expired.status).toBe(401);
+
+    await PersonalAccessToken.updateMany(
+      {},
+      { expiresAt: new Date(Date.now() + 60_000) },
+    );
+    await User.updateMany({}, { disabledAt: new Date() });
+    const disabled = await request(app)
+      .get("/api/auth/me")
+      .set("Authorization", `Bearer ${token}`);
+    expect(disabled.status).toBe(401);
+  });
+});
@@ -0,0 +1,125 @@
+import "./setup.js";
+import request from "supertest";
+import app, { configureApp } from "../helpers/testApp.js";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import User from "../../models/User.js";
+
+// register a user with a unique email
+const register = (n: number) =>
+  request(app)
+    .post("/api/auth/register")
+    .send({
+      name: "Test User",
+      email: `ratelimit${n}@test.com`,
+      password: "Tr0ub4dor&3",
+    });
+
+beforeEach(() => {
+  configureApp({ rateLimitEnabled: true });
+});
+
+afterEach(() => {
+  configureApp({ rateLimitEnabled: false });
+});
+
+describe("route rate limits", () => {
+  it("should set RateLimit headers on responses", async () => {
+    const res = await register(0);
+
+    expect(res.status).toBe(201);
+    expect(res.headers["ratelimit-limit"]).toBe("5");
+    expect(res.headers["ratelimit-remaining"]).toBe("4");
+    expect(res.headers["ratelimit-policy"]).toBe("5;w=3600");
+  });
+
+  it("should return 429 in the shared error shape once the register limit is reached", async () => {
+    for (let i = 0; i < 5; i++) {
+      expect((await register(i)).status).toBe(201);
+    }
+
+    const res = await register(5);
+
+    expect(res.status).toBe(429);
+    expect(res.headers["retry-after"]).toBeDefined();
+    expect(res.body).toEqual({
+      statusCode: 429,
+      message: "Too many requests, please try again later.",
+    });
+  });
+
+  it("should limit password reset emails per address (AD-012)", async () => {
+    const forgot = () =>
+      request(app)
+        .post("/api/auth/forgot-password")
+        .send({ email: "someone@test.com" });
+
+    for (let i = 0; i < 3; i++) {
+      expect((await forgot()).status).toBe(200);
+    }
+
+    expect((await forgot()).status).toBe(429);
+  });
+
+  it("should limit password reset emails per IP address across many addresses", async () => {
+    const forgot = (n: number) =>
+      request(app)
+        .post("/api/auth/forgot-password")
+        .send({ email: `someone${n}@test.com` });
+
+    for (let i = 0; i < 10; i++) {
+      expect((await forgot(i)).status).toBe(200);
+    }
+    expect((await forgot(10)).status).toBe(429);
+  });
+
+  it("should limit verification email resends per user (AD-012)", async () => {
+    const { token } = (await register(0)).body;
+    await User.updateOne(
+      { email: "ratelimit0@test.com" },
+      { isVerified: false },
+    );
+    const resend = () =>
+      request(app)
+        .post("/api/auth/resend-verification")
+        .set("Authorization", `Bearer ${token}`);
+
+    for (let i = 0; i < 3; i++) {
+      expect((await resend()).status).toBe(200);
+    }
+
+    const res = await resend();
+    expect(res.status).toBe(429);
+    expect(res.body.message).toBe(
+      "Too many emails requested, please try again later.",
+    );
+  });
+
+  it("should limit sign in links per address without using the password reset budget", async () => {
+    const magicLink = () =>
+      request(app)
+        .post("/api/auth/magic-link")
+        .send({ email: "someone@test.com" });
+
+    for (let i = 0; i < 3; i++) {
+      expect((await magicLink()).status).toBe(200);
+    }
+    expect((await magicLink()).status).toBe(429);
+
+    const forgot = await request(app)
+      .post("/api/auth/forgot-password")
+      .send({ email: "someone@test.com" });
+    expect(forgot.status).toBe(200);
+  });
+
+  it("should limit sign in links per IP address across many addresses", async () => {
+    const magicLink = (n: number) =>
+      request(app)
+        .post("/api/auth/magic-link")
+        .send({ email: `someone${n}@test.com` });
+
+    for (let i = 0; i < 10; i++) {
+      expect((await magicLink(i)).status).toBe(200);
+    }
+    expect((await magicLink(10)).status).toBe(429);
+  });
+});
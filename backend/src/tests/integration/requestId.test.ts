@@ -0,0 +1,42 @@
+import "./setup.js";
+import request from "supertest";
+import app from "../helpers/testApp.js";
+import { describe, expect, it } from "vitest";
+
+describe("X-Request-Id", () => {
+  it("should generate a request id and return it in the response", async () => {
+    const res = await request(app).get("/api/auth/me");
+
+    expect(res.status).toBe(401);
+    expect(res.headers["x-request-id"]).toMatch(
+      /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/,
+    );
+  });
+
+  it("should keep the request id sent by the caller", async () => {
+    const res = await request(app)
+      .get("/api/auth/me")
+      .set("X-Request-Id", "proxy-1234.abc");
+
+    expect(res.headers["x-request-id"]).toBe("proxy-1234.abc");
+  });
+
+  it("should replace a request id that isn't safe to log", async () => {
+    const res = await request(app)
+      .get("/api/auth/me")
+      .set("X-Request-Id", "bad id {}");
+
+    expect(res.headers["x-request-id"]).not.toBe("bad id {}");
+    expect(res.headers["x-request-id"]).toHaveLength(36);
+  });
+
+  it("should include the request id in error responses", async () => {
+    const res = await request(app)
+      .post("/api/auth/login")
+      .set("Content-Type", "application/json")
+      .set("X-Request-Id", "req-malformed-json")
+      .send('{"email": ');
+
+    expect(res.body.requestId).toBe("req-malformed-json");
+  });
+});
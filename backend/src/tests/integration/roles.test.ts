@@ -0,0 +1,77 @@
+import "./setup.js";
+import request from "supertest";
+import jwt from "jsonwebtoken";
+import app from "../helpers/testApp.js";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import User from "../../models/User.js";
+import { bootstrapAdmin, promoteToAdmin } from "../../utils/adminBootstrap.js";
+
+// define variables to hold the tokens for the test user
+let accessToken: string;
+let refreshTokenCookie: string;
+
+beforeEach(async () => {
+  const res = await request(app).post("/api/auth/register").send({
+    name: "Test User",
+    email: "roles@test.com",
+    password: "Tr0ub4dor&3",
+  });
+  accessToken = res.body.token;
+  refreshTokenCookie = res.headers["set-cookie"]![0]!;
+});
+
+afterEach(() => {
+  vi.stubEnv("BOOTSTRAP_ADMIN_EMAIL", "");
+});
+
+describe("roles", () => {
+  it("should give new users the user role, in the response and the token", async () => {
+    const me = await request(app)
+      .get("/api/auth/me")
+      .set("Authorization", `Bearer ${accessToken}`);
+
+    expect(me.body.roles).toEqual(["user"]);
+    expect(me.body.permissions).toEqual([]);
+    expect(jwt.decode(accessToken)).toMatchObject({
+      roles: ["user"],
+      permissions: [],
+    });
+  });
+
+  it("should put new roles in the token on the next refresh", async () => {
+    await promoteToAdmin("roles@test.com");
+
+    const res = await request(app)
+      .post("/api/auth/refresh")
+      .set("Cookie", refreshTokenCookie);
+
+    expect(jwt.decode(res.body.token)).toMatchObject({
+      roles: ["user", "admin"],
+      permissions: expect.arrayContaining(["users:manage", "roles:manage"]),
+    });
+  });
+});
+
+describe("bootstrapAdmin()", () => {
+  it("should promote BOOTSTRAP_ADMIN_EMAIL while there is no admin", async () => {
+    vi.stubEnv("BOOTSTRAP_ADMIN_EMAIL", "roles@test.com");
+    await bootstrapAdmin();
+
+    const user = await User.findOne({ email: "roles@test.com" });
+    expect(user?.roles).toContain("admin");
+  });
+
+  it("should do nothing once an admin exists", async () => {
+    await User.create({
+      name: "Admin",
+      email: "admin@test.com",
+      password: "Tr0ub4dor&3",
+      roles: ["admin"],
+    });
+    vi.stubEnv("BOOTSTRAP_ADMIN_EMAIL", "roles@test.com");
+    await bootstrapAdmin();
+
+    const user = await User.findOne({ email: "roles@test.com" });
+    expect(user?.roles).toEqual(["user"]);
+  });
+});
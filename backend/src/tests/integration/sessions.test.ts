@@ -0,0 +1,129 @@
+import "./setup.js";
+import request from "supertest";
+import app from "../helpers/testApp.js";
+import { beforeEach, describe, expect, it } from "vitest";
+
+// register a user and log in a second time from another "device", returning both logins
+const registerAndLoginTwice = async () => {
+  const first = await request(app)
+    .post("/api/auth/register")
+    .set("User-Agent", "Laptop Browser")
+    .send({
+      name: "Test User",
+      email: "sessions@test.com",
+      password: "Tr0ub4dor&3",
+    });
+  const second = await request(app)
+    .post("/api/auth/login")
+    .set("User-Agent", "Phone Browser")
+    .send({
+      email: "sessions@test.com",
+      password: "Tr0ub4dor&3",
+    });
+  return {
+    laptop: {
+      token: first.body.token as string,
+      cookie: first.headers["set-cookie"]![0]!,
+    },
+    phone: {
+      token: second.body.token as string,
+      cookie: second.headers["set-cookie"]![0]!,
+    },
+  };
+};
+
+describe("GET /api/auth/sessions", () => {
+  it("should list one session per login and flag the current one", async () => {
+    const { laptop } = await registerAndLoginTwice();
+
+    const res = await request(app)
+      .get("/api/auth/sessions")
+      .set("authorization", `Bearer ${laptop.token}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.sessions).toHaveLength(2);
+    const current = res.body.sessions.find(
+      (session: { current: boolean }) => session.current,
+    );
+    expect(current).toHaveProperty("userAgent", "Laptop Browser");
+    expect(current).toHaveProperty("ip");
+    expect(current).toHaveProperty("lastUsedAt");
+  });
+
+  it("should return 401 when no Authorization header is provided", async () => {
+    const res = await request(app).get("/api/auth/sessions");
+    expect(res.status).toBe(401);
+  });
+});
+
+describe("DELETE /api/auth/sessions/:id", () => {
+  // define variables to hold both logins for use in the tests
+  let logins: Awaited<ReturnType<typeof registerAndLoginTwice>>;
+
+  beforeEach(async () => {
+    logins = await registerAndLoginTwice();
+  });
+
+  it("should revoke the session so its refresh token stops working", async () => {
+    const list = await request(app)
+      .get("/api/auth/sessions")
+      .set("authorization", `Bearer ${logins.laptop.token}`);
+    const phoneSession = list.body.sessions.find(
+      (session: { current: boolean }) => !session.current,
+    );
+
+    const res = await request(app)
+      .delete(`/api/auth/sessions/${phoneSession._id}`)
+      .set("authorization", `Bearer ${logins.laptop.token}`);
+    expect(res.status).toBe(204);
+
+    const refresh = await request(app)
+      .post("/api/auth/refresh")
+      .set("Cookie", logins.phone.cookie);
+    expect(refresh.status).toBe(401);
+  });
+
+  it("should return 404 for a session that doesn't exist", async () => {
+    const res = await request(app)
+      .delete("/api/auth/sessions/507f1f77bcf86cd799439011")
+      .set("authorization", `Bearer ${logins.laptop.token}`);
+    expect(res.status).toBe(404);
+    expect(res.body.message).toBe("Session not found");
+  });
+
+  it("should return 400 for an invalid session id", async () => {
+    const res = await request(app)
+      .delete("/api/auth/sessions/not-an-id")
+      .set("authorization", `Bearer ${logins.laptop.token}`);
+    expect(res.status).toBe(400);
+    expect(res.body.errors[0].msg).toBe("Invalid session id");
+  });
+});
+
+describe("DELETE /api/auth/sessions", () => {
+  it("should revoke every session except the current one", async () => {
+    const { laptop, phone } = await registerAndLoginTwice();
+
+    const res = await request(app)
+      .delete("/api/auth/sessions")
+      .set("authorization", `Bearer ${laptop.token}`);
+    expect(res.status).toBe(204);
+
+    // the other device can no longer refresh
+    const phoneRefresh = await request(app)
+      .post("/api/auth/refresh")
+      .set("Cookie", phone.cookie);
+    expect(phoneRefresh.status).toBe(401);
+
+    // the current device is still signed in
+    const laptopRefresh = await request(app)
+      .post("/api/auth/refresh")
+      .set("Cookie", laptop.cookie);
+    expect(laptopRefresh.status).toBe(200);
+
+    const list = await request(app)
+      .get("/api/auth/sessions")
+      .set("authorization", `Bearer ${laptop.token}`);
+    expect(list.body.sessions).toHaveLength(1);
+  });
+});
@@ -0,0 +1,224 @@
+import "./setup.js";
+import request from "supertest";
+import app from "../helpers/testApp.js";
+import { beforeEach, describe, expect, it } from "vitest";
+import { generateTotpCode, getTotpStep } from "../../utils/totpUtils.js";
+
+// define variables to hold the access token and secret for the test user
+let accessToken: string;
+let secret: string;
+
+const credentials = { email: "twofactor@test.com", password: "Tr0ub4dor&3" };
+
+// code for the time step after the current one, accepted for clock drift and not yet used
+const nextCode = () => generateTotpCode(secret, getTotpStep() + 1);
+
+// register a user and turn on two-factor authentication
+const enableTwoFactor = async () => {
+  const setup = await request(app)
+    .post("/api/auth/2fa/setup")
+    .set("Authorization", `Bearer ${accessToken}`);
+  secret = setup.body.secret;
+
+  return request(app)
+    .post("/api/auth/2fa/confirm")
+    .set("Authorization", `Bearer ${accessToken}`)
+    .send({ code: generateTotpCode(secret) });
+};
+
+beforeEach(async () => {
+  const res = await request(app)
+    .post("/api/auth/register")
+    .send({ name: "Test User", ...credentials });
+  accessToken = res.body.token;
+});
+
+describe("two-factor setup", () => {
+  it("should return a secret and QR code, and enable two-factor once confirmed", async () => {
+    const setup = await request(app)
+      .post("/api/auth/2fa/setup")
+      .set("Authorization", `Bearer ${accessToken}`);
+
+    expect(setup.status).toBe(200);
+    expect(setup.body.otpauthUri).toContain(setup.body.secret);
+    expect(setup.body.qrCode).toMatch(/^data:image\/png;base64,/);
+
+    secret = setup.body.secret;
+    const confirm = await request(app)
+      .post("/api/auth/2fa/confirm")
+      .set("Authorization", `Bearer ${accessToken}`)
+      .send({ code: generateTotpCode(secret) });
+
+    expect(confirm.status).toBe(200);
+    expect(confirm.body.backupCodes).toHaveLength(10);
+    expect(confirm.body.user.twoFactorEnabled).toBe(true);
+  });
+
+  it("should reject a wrong confirmation code", async () => {
+    await request(app)
+      .post("/api/auth/2fa/setup")
+      .set("Authorization", `Bearer ${accessToken}`);
+
+    const res = await request(app)
+      .post("/api/auth/2fa/confirm")
+      .set("Authorization", `Bearer ${accessToken}`)
+      .send({ code: "000000" });
+
+    expect(res.status).toBe(400);
+    expect(res.body.errors[0].path).toBe("code");
+  });
+});
+
+describe("login with two-factor", () => {
+  it("should return a challenge instead of tokens after the password step", async () => {
+    await enableTwoFactor();
+
+    const res = await request(app).post("/api/auth/login").send(credentials);
+
+    expect(res.status).toBe(200);
+    expect(res.body.twoFactorRequired).toBe(true);
+    expect(res.body.challengeToken).toBeDefined();
+    expect(res.body.token).toBeUndefined();
+    expect(res.headers["set-cookie"]).toBeUndefined();
+  });
+
+  it("should log in with the challenge token and a valid code", async () => {
+    await enableTwoFactor();
+    const login = await request(app).post("/api/auth/login").send(credentials);
+
+    const res = await request(app)
+      .post("/api/auth/login/2fa")
+      .send({ challengeToken: login.body.challengeToken, code: nextCode() });
+
+    expect(res.status).toBe(200);
+    expect(res.body.token).toBeDefined();
+    expect(res.body.user.email).toBe(credentials.email);
+  });
+
+  it("should not accept the same code twice", async () => {
+    await enableTwoFactor();
+    const code = nextCode();
+
+    const first = await request(app).post("/api/auth/login").send(credentials);
+    await request(app)
+      .post("/api/auth/login/2fa")
+      .send({ challengeToken: first.body.challengeToken, code });
+
+    const second = await request(app).post("/api/auth/login").send(credentials);
+    const res = await request(app)
+      .post("/api/auth/login/2fa")
+      .send({ challengeToken: second.body.challengeToken, code });
+
+    expect(res.status).toBe(401);
+  });
+
+  it("should accept each backup code only once", async () => {
+    const confirm = await enableTwoFactor();
+    const backupCode = confirm.body.backupCodes[0];
+
+    const first = await request(app).post("/api/auth/login").send(credentials);
+    const firstRes = await request(app)
+      .post("/api/auth/login/2fa")
+      .send({ challengeToken: first.body.challengeToken, code: backupCode });
+    expect(firstRes.status).toBe(200);
+
+    const second = await request(app).post("/api/auth/login").send(credentials);
+    const secondRes = await request(app)
+      .post("/api/auth/login/2fa")
+      .send({ challengeToken: second.body.challengeToken, code: backupCode });
+    expect(secondRes.status).toBe(401);
+  });
+
+  it("should accept a code only once when it's sent twice at the same time", async () => {
+    const confirm = await enableTwoFactor();
+    const first = await request(app).post("/api/auth/login").send(credentials);
+    const second = await request(app).post("/api/auth/login").send(credentials);
+
+    // the same authenticator code, then the same backup code, from two requests at once
+    for (const code of [nextCode(), confirm.body.backupCodes[0]]) {
+      const results = await Promise.all(
+        [first, second].map((login) =>
+          request(app)
+            .post("/api/auth/login/2fa")
+            .send({ challengeToken: login.body.challengeToken, code }),
+        ),
+      );
+      expect(results.map((res) => res.status).sort()).toEqual([200, 401]);
+    }
+  });
+
+  it("should skip the code on a remembered device", async () => {
+    await enableTwoFactor();
+    const login = await request(app).post("/api/auth/login").send(credentials);
+
+    const verified = await request(app).post("/api/auth/login/2fa").send({
+      challengeToken: login.body.challengeToken,
+      code: nextCode(),
+      rememberDevice: true,
+    });
+    // supertest types set-cookie as a string, but it's an array when several cookies are set
+    const cookies = verified.headers["set-cookie"] as unknown as string[];
+    const trustedDeviceCookie = cookies.find((cookie) =>
+      cookie.startsWith("trustedDevice="),
+    );
+    expect(trustedDeviceCookie).toBeDefined();
+
+    const res = await request(app)
+      .post("/api/auth/login")
+      .set("Cookie", trustedDeviceCookie!)
+      .send(credentials);
+
+    expect(res.status).toBe(200);
+    expect(res.body.token).toBeDefined();
+  });
+
+  it("should reject an invalid challenge token", async () => {
+    const res = await request(app)
+      .post("/api/auth/login/2fa")
+      .send({ challengeToken: "not-a-token", code: "123456" });
+
+    expect(res.status).toBe(401);
+  });
+});
+
+describe("POST /api/auth/2fa/disable", () => {
+  it("should require the password and a valid code", async () => {
+    await enableTwoFactor();
+
+    const wrongPassword = await request(app)
+      .post("/api/auth/2fa/disable")
+      .set("Authorization", `Bearer ${accessToken}`)
+      .send({ password: "WrongPassword1!", code: nextCode() });
+    expect(wrongPassword.status).toBe(400);
+
+    const res = await request(app)
+      .post("/api/auth/2fa/disable")
+      .set("Authorization", `Bearer ${accessToken}`)
+      .send({ password: credentials.password, code: nextCode() });
+    expect(res.status).toBe(200);
+    expect(res.body.user.twoFactorEnabled).toBe(false);
+
+    const login = await request(app).post("/api/auth/login").send(credentials);
+    expect(login.body.token).toBeDefined();
+  });
+});
+
+describe("POST /api/auth/2fa/backup-codes", () => {
+  it("should replace the backup codes", async () => {
+    const confirm = await enableTwoFactor();
+    const oldCode = confirm.body.backupCodes[0];
+
+    const res = await request(app)
+      .post("/api/auth/2fa/backup-codes")
+      .set("Authorization", `Bearer ${accessToken}`)
+      .send({ code: nextCode() });
+    expect(res.status).toBe(200);
+    expect(res.body.backupCodes).toHaveLength(10);
+
+    const login = await request(app).post("/api/auth/login").send(credentials);
+    const verify = await request(app)
+      .post("/api/auth/login/2fa")
+      .send({ challengeToken: login.body.challengeToken, code: oldCode });
+    expect(verify.status).toBe(401);
+  });
+});
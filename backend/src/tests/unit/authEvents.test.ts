@@ -0,0 +1,56 @@
+import { describe, it, expect } from "vitest";
+import {
+  AUTH_EVENT_CSV_COLUMNS,
+  authEventToCsvRow,
+  toCsvRow,
+} from "../../utils/authEvents.js";
+import type { AuthEventResponse } from "../../types/index.js";
+
+describe("toCsvRow", () => {
+  it("should join plain values with commas and end the line with CRLF", () => {
+    expect(toCsvRow(["a", 1, true])).toBe("a,1,true\r\n");
+  });
+
+  it("should quote values with commas, quotes or line breaks", () => {
+    expect(toCsvRow(['say "hi"', "a,b", "line\nbreak"])).toBe(
+      '"say ""hi""","a,b","line\nbreak"\r\n',
+    );
+  });
+
+  it("should leave null and undefined empty and write dates as ISO strings", () => {
+    const date = new Date("2024-01-02T03:04:05.000Z");
+    expect(toCsvRow([null, undefined, date])).toBe(
+      ",,2024-01-02T03:04:05.000Z\r\n",
+    );
+  });
+
+  it("should stop values that look like formulas from running in spreadsheets", () => {
+    expect(toCsvRow(["=HYPERLINK(1)", "+1", "-1", "@SUM(A1)"])).toBe(
+      "'=HYPERLINK(1),'+1,'-1,'@SUM(A1)\r\n",
+    );
+  });
+});
+
+describe("authEventToCsvRow", () => {
+  it("should write the columns in the order of the header", () => {
+    const event: AuthEventResponse = {
+      _id: "65a000000000000000000001",
+      user: null,
+      email: "someone@test.com",
+      type: "login",
+      outcome: "failure",
+      reason: "unknown-email",
+      method: "password",
+      ip: "127.0.0.1",
+      userAgent: "Mozilla/5.0 (X11, Linux)",
+      createdAt: new Date("2024-01-02T03:04:05.000Z"),
+    };
+
+    expect(toCsvRow(AUTH_EVENT_CSV_COLUMNS)).toBe(
+      "_id,createdAt,type,outcome,reason,method,user,email,ip,userAgent\r\n",
+    );
+    expect(authEventToCsvRow(event)).toBe(
+      '65a000000000000000000001,2024-01-02T03:04:05.000Z,login,failure,unknown-email,password,,someone@test.com,127.0.0.1,"Mozilla/5.0 (X11, Linux)"\r\n',
+    );
+  });
+});
@@ -3,16 +3,40 @@ import { describe, vi, beforeEach, afterEach, it, expect } from "vitest";
 // import NextFunction type from express for typing the next function in middleware
 import type { NextFunction } from "express";
 // import the verifyJWT middleware function to be tested
-import { verifyJWT } from "../../middleware/authMiddleware.js";
-// import jwt for token creation in tests
-import jwt from "jsonwebtoken";
-// import generateAccessToken utility function to create a valid JWT token for testing
-import { generateAccessToken } from "../../utils/tokenUtils.js";
+import {
+  verifyJWT,
+  authenticate,
+  requireRole,
+  requirePermission,
+  requireScope,
+  requireOrgRole,
+} from "../../middleware/authMiddleware.js";
+import type { JWTPayload } from "../../types/index.js";
+// import generateTokens utility function to create a valid JWT token for testing
+import { generateTokens } from "../../utils/tokenUtils.js";
+// import signJwt to create tokens with unusual claims or headers
+import { signJwt } from "../../utils/jwtUtils.js";
+import { getJwtSettings } from "../../config/jwtConfig.js";
 // import the createMockRes helper function to create a mock response object for testing
 import { createMockRes, createMockReq } from "../helpers/factories.js";
+// import the User model so tests can control whether the account is disabled
+import User from "../../models/User.js";
+// import the Membership model so tests can control the user's role in an organization
+import Membership from "../../models/Membership.js";
+
+// mock the User model, verifyJWT looks the user up to reject disabled accounts
+vi.mock("../../models/User.js", () => ({
+  default: { exists: vi.fn() },
+}));
+// mock the Membership model, requireOrgRole looks up the user's role in the organization
+vi.mock("../../models/Membership.js", () => ({
+  default: { findOne: vi.fn() },
+}));
 // runs before each test to set up the environment variable for JWT_SECRET
 beforeEach(() => {
   vi.stubEnv("JWT_SECRET", "test-secret-123");
+  // by default the account is not disabled
+  vi.mocked(User.exists).mockResolvedValue(null);
 });
 
 // runs after each test to restore the original environment variables
@@ -32,7 +56,7 @@ describe("verifyJWT()", () => {
     // runs before each test in this describe block to set up the mock request, response, and next function
     beforeEach(() => {
       // Generate a valid JWT token for testing
-      token = generateAccessToken("user123", "test@example.com");
+      token = generateTokens("user123", "test@example.com").token;
       // Use the imported mock request and response factory functions to create mock objects
       req = createMockReq({
         headers: { authorization: `Bearer ${token}` },
@@ -41,29 +65,36 @@ describe("verifyJWT()", () => {
       next = vi.fn() as NextFunction;
     });
 
-    it("should call next() when a valid JWT token is provided", () => {
+    it("should call next() when a valid JWT token is provided", async () => {
       // Call the verifyJWT middleware with the mock request, response, and next function
-      verifyJWT(req, res, next);
+      await verifyJWT(req, res, next);
       // Assert that the `next()` function was called, indicating successful JWT verification
       expect(next).toHaveBeenCalled();
     });
 
-    it("should attach the user object to the request when a valid JWT token is provided", () => {
+    it("should attach the user object to the request when a valid JWT token is provided", async () => {
       // Call the verifyJWT middleware with the mock request, response, and next function
-      verifyJWT(req, res, next);
+      await verifyJWT(req, res, next);
       // Assert that the `req.user` object is attached and has the expected properties
       expect(req.user).toBeDefined();
       expect(req.user).toHaveProperty("userId", "user123");
       expect(req.user).toHaveProperty("email", "test@example.com");
     });
+
+    it("should return 401 and not call next() when the account is disabled", async () => {
+      vi.mocked(User.exists).mockResolvedValue({ _id: "user123" } as never);
+      await verifyJWT(req, res, next);
+      expect(res.status).toHaveBeenCalledWith(401);
+      expect(next).not.toHaveBeenCalled();
+    });
   });
 
   describe("when the authorization header is missing or invalid", () => {
-    it("should return 401 Unauthorized", () => {
+    it("should return 401 Unauthorized", async () => {
       const req = createMockReq({ headers: {} });
       const res = createMockRes();
       const next = vi.fn() as NextFunction;
-      verifyJWT(req, res, next);
+      await verifyJWT(req, res, next);
       expect(res.status).toHaveBeenCalledWith(401);
       expect(res.status(401).json).toHaveBeenCalledWith({
         message: "Missing or invalid auth header",
@@ -72,32 +103,64 @@ describe("verifyJWT()", () => {
     });
   });
 
-  describe("when the JWT_SECRET is not set", () => {
-    it("should return 500 server error", () => {
-      const token = generateAccessToken("user123", "test@example.com");
-      vi.stubEnv("JWT_SECRET", ""); // Unset the JWT_SECRET environment variable
+  describe("when the token is not an access token for this service", () => {
+    // run verifyJWT with the token and check it was rejected as invalid
+    const expectRejected = async (token: string) => {
       const req = createMockReq({
         headers: { authorization: `Bearer ${token}` },
       });
       const res = createMockRes();
       const next = vi.fn() as NextFunction;
-      verifyJWT(req, res, next);
-      expect(res.status).toHaveBeenCalledWith(500);
-      expect(res.status(500).json).toHaveBeenCalledWith({
-        message: "Server error",
+      await verifyJWT(req, res, next);
+      expect(res.status).toHaveBeenCalledWith(401);
+      expect(res.status(401).json).toHaveBeenCalledWith({
+        message: "Invalid or expired token",
       });
       expect(next).not.toHaveBeenCalled();
+    };
+    const claims = { userId: "user123", email: "test@example.com" };
+
+    it("should return 401 for a refresh token", async () => {
+      await expectRejected(
+        generateTokens("user123", "test@example.com").refreshToken,
+      );
+    });
+
+    it("should return 401 for a token meant for another audience", async () => {
+      await expectRejected(
+        signJwt(claims, {
+          typ: "at+jwt",
+          audience: "https://other.example.com",
+          expiresInSeconds: 60,
+        }),
+      );
+    });
+
+    it("should return 401 for an expired token", async () => {
+      await expectRejected(
+        signJwt(claims, {
+          typ: "at+jwt",
+          audience: getJwtSettings().accessAudience,
+          expiresInSeconds: -1,
+        }),
+      );
+    });
+
+    it("should return 401 for a token from another issuer", async () => {
+      const token = generateTokens("user123", "test@example.com").token;
+      vi.stubEnv("JWT_ISSUER", "https://other.example.com");
+      await expectRejected(token);
     });
   });
 
   describe("when the token is invalid or expired", () => {
-    it("should return 401 Unauthorized", () => {
+    it("should return 401 Unauthorized", async () => {
       const req = createMockReq({
         headers: { authorization: "Bearer invalid-token" },
       });
       const res = createMockRes();
       const next = vi.fn() as NextFunction;
-      verifyJWT(req, res, next);
+      await verifyJWT(req, res, next);
       expect(res.status).toHaveBeenCalledWith(401);
       expect(res.status(401).json).toHaveBeenCalledWith({
         message: "Invalid or expired token",
@@ -107,15 +170,22 @@ describe("verifyJWT()", () => {
   });
 
   describe("when the token payload is missing required properties", () => {
-    it("should return 401 Unauthorized", () => {
+    it("should return 401 Unauthorized", async () => {
       // Create a token with an invalid payload (missing userId and email)
-      const invalidPayloadToken = jwt.sign({}, "test-secret-123");
+      const invalidPayloadToken = signJwt(
+        {},
+        {
+          typ: "at+jwt",
+          audience: getJwtSettings().accessAudience,
+          expiresInSeconds: 60,
+        },
+      );
       const req = createMockReq({
         headers: { authorization: `Bearer ${invalidPayloadToken}` },
       });
       const res = createMockRes();
       const next = vi.fn() as NextFunction;
-      verifyJWT(req, res, next);
+      await verifyJWT(req, res, next);
       expect(res.status).toHaveBeenCalledWith(401);
       expect(res.status(401).json).toHaveBeenCalledWith({
         message: "Invalid token payload",
@@ -124,3 +194,196 @@ describe("verifyJWT()", () => {
     });
   });
 });
+
+// Tests for the requireRole and requirePermission middleware factories
+describe("requireRole() and requirePermission()", () => {
+  // Build a request with the given token claims on req.user
+  const reqWith = (claims: Partial<JWTPayload>) =>
+    createMockReq({
+      user: { userId: "user123", email: "test@example.com", ...claims },
+    });
+
+  it("should call next() when the user has one of the roles", () => {
+    const next = vi.fn() as NextFunction;
+    requireRole("moderator", "admin")(
+      reqWith({ roles: ["user", "admin"] }),
+      createMockRes(),
+      next,
+    );
+    expect(next).toHaveBeenCalled();
+  });
+
+  it("should return 403 when the user has none of the roles", () => {
+    const res = createMockRes();
+    const next = vi.fn() as NextFunction;
+    requireRole("admin")(reqWith({ roles: ["user"] }), res, next);
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(403);
+  });
+
+  it("should return 403 for tokens without a roles claim", () => {
+    const res = createMockRes();
+    requireRole("user")(reqWith({}), res, vi.fn() as NextFunction);
+    expect(res.status).toHaveBeenCalledWith(403);
+  });
+
+  it("should require every listed permission", () => {
+    const req = reqWith({ permissions: ["users:read"] });
+    const next = vi.fn() as NextFunction;
+    requirePermission("users:read")(req, createMockRes(), next);
+    expect(next).toHaveBeenCalled();
+
+    const res = createMockRes();
+    requirePermission("users:read", "users:manage")(
+      req,
+      res,
+      vi.fn() as NextFunction,
+    );
+    expect(res.status).toHaveBeenCalledWith(403);
+  });
+
+  it("should return 401 when verifyJWT didn't run first", () => {
+    const res = createMockRes();
+    requirePermission("users:read")(
+      createMockReq(),
+      res,
+      vi.fn() as NextFunction,
+    );
+    expect(res.status).toHaveBeenCalledWith(401);
+  });
+});
+
+// Tests for the requireScope middleware factory
+describe("requireScope()", () => {
+  it("should let session tokens through, they have every scope", () => {
+    const next = vi.fn() as NextFunction;
+    requireScope("profile:read")(
+      createMockReq({ user: { userId: "user123", email: "test@example.com" } }),
+      createMockRes(),
+      next,
+    );
+    expect(next).toHaveBeenCalled();
+  });
+
+  it("should require every listed scope from personal access tokens", () => {
+    const req = createMockReq({
+      user: {
+        userId: "user123",
+        email: "test@example.com",
+        scopes: ["profile:read"],
+      },
+    });
+    const next = vi.fn() as NextFunction;
+    requireScope("profile:read")(req, createMockRes(), next);
+    expect(next).toHaveBeenCalled();
+
+    const res = createMockRes();
+    requireScope("profile:read", "profile:write")(
+      req,
+      res,
+      vi.fn() as NextFunction,
+    );
+    expect(res.status).toHaveBeenCalledWith(403);
+  });
+
+  it("should treat a token with no scopes as allowed nothing", () => {
+    const res = createMockRes();
+    requireScope("profile:read")(
+      createMockReq({
+        user: { userId: "user123", email: "test@example.com", scopes: [] },
+      }),
+      res,
+      vi.fn() as NextFunction,
+    );
+    expect(res.status).toHaveBeenCalledWith(403);
+  });
+});
+
+// authenticate hands everything that isn't a personal access token to verifyJWT
+describe("authenticate()", () => {
+  it("should accept an access token like verifyJWT", async () => {
+    const req = createMockReq({
+      headers: {
+        authorization: `Bearer ${generateTokens("user123", "test@example.com").token}`,
+      },
+    });
+    const next = vi.fn() as NextFunction;
+    await authenticate(req, createMockRes(), next);
+    expect(next).toHaveBeenCalled();
+    expect(req.user).not.toHaveProperty("scopes");
+  });
+
+  it("should return 401 without an auth header", async () => {
+    const res = createMockRes();
+    await authenticate(
+      createMockReq({ headers: {} }),
+      res,
+      vi.fn() as NextFunction,
+    );
+    expect(res.status).toHaveBeenCalledWith(401);
+  });
+});
+
+// requireOrgRole reads the user's role in the organization from the database
+describe("requireOrgRole()", () => {
+  const organizationId = "64b7f0c2a1b2c3d4e5f60718";
+  const user = { userId: "user123", email: "test@example.com" };
+
+  it("should check the organization from the route, then the header, and set req.membership", async () => {
+    const membership = { role: "admin" };
+    vi.mocked(Membership.findOne).mockResolvedValue(membership as never);
+
+    const fromParams = createMockReq({
+      user,
+      params: { orgId: organizationId },
+      headers: {},
+    });
+    const next = vi.fn() as NextFunction;
+    await requireOrgRole("owner", "admin")(fromParams, createMockRes(), next);
+    expect(next).toHaveBeenCalled();
+    expect(fromParams.membership).toBe(membership);
+
+    const fromHeader = createMockReq({
+      user,
+      headers: { "x-organization-id": organizationId },
+    });
+    await requireOrgRole("owner", "admin")(fromHeader, createMockRes(), next);
+    expect(Membership.findOne).toHaveBeenLastCalledWith({
+      organization: organizationId,
+      user: "user123",
+    });
+    expect(next).toHaveBeenCalledTimes(2);
+  });
+
+  it("should return 403 when the user's role isn't listed", async () => {
+    vi.mocked(Membership.findOne).mockResolvedValue({
+      role: "member",
+    } as never);
+    const res = createMockRes();
+    await requireOrgRole("owner", "admin")(
+      createMockReq({ user, params: { orgId: organizationId }, headers: {} }),
+      res,
+      vi.fn() as NextFunction,
+    );
+    expect(res.status).toHaveBeenCalledWith(403);
+  });
+
+  it("should return 404 when the user isn't a member and 400 without an organization", async () => {
+    vi.mocked(Membership.findOne).mockResolvedValue(null);
+    const notMember = createMockRes();
+    await requireOrgRole("member")(
+      createMockReq({ user, params: { orgId: organizationId }, headers: {} }),
+      notMember,
+      vi.fn() as NextFunction,
+    );
+    expect(notMember.status).toHaveBeenCalledWith(404);
+
+    const missing = createMockRes();
+    await requireOrgRole("member")(
+      createMockReq({ user, headers: {} }),
+      missing,
+      vi.fn() as NextFunction,
+    );
+    expect(missing.status).toHaveBeenCalledWith(400);
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect } from "vitest";
+import sharp from "sharp";
+import { detectImageType, resizeAvatar } from "../../utils/avatarUtils.js";
+
+// Make a solid image, the left half red and the right half blue, so tests can tell which part was kept
+const createImage = (
+  width: number,
+  height: number,
+  format: "jpeg" | "png" = "png",
+) =>
+  sharp({
+    create: { width, height, channels: 3, background: "red" },
+  })
+    .composite([
+      {
+        input: {
+          create: {
+            width: Math.floor(width / 2),
+            height,
+            channels: 3,
+            background: "blue",
+          },
+        },
+        left: width - Math.floor(width / 2),
+        top: 0,
+      },
+    ])
+    .toFormat(format)
+    .toBuffer();
+
+// Average colour of an image, as [red, green, blue]
+const averageColor = async (image: Buffer) => {
+  const { channels } = await sharp(image).stats();
+  return channels.slice(0, 3).map((channel) => Math.round(channel.mean));
+};
+
+describe("detectImageType", () => {
+  it("should recognize images by their magic bytes", async () => {
+    expect(detectImageType(await createImage(10, 10, "jpeg"))).toBe(
+      "image/jpeg",
+    );
+    expect(detectImageType(await createImage(10, 10, "png"))).toBe("image/png");
+    expect(
+      detectImageType(
+        await sharp({
+          create: { width: 10, height: 10, channels: 3, background: "red" },
+        })
+          .webp()
+          .toBuffer(),
+      ),
+    ).toBe("image/webp");
+    expect(detectImageType(Buffer.from("GIF89a......"))).toBe("image/gif");
+  });
+
+  it("should reject anything else, whatever it's called", () => {
+    expect(detectImageType(Buffer.from("<svg xmlns='...'></svg>"))).toBeNull();
+    expect(detectImageType(Buffer.from("%PDF-1.7 ........"))).toBeNull();
+    expect(detectImageType(Buffer.from([0xff, 0xd8]))).toBeNull();
+  });
+});
+
+describe("resizeAvatar", () => {
+  it("should make a square WebP in every size", async () => {
+    const images = await resizeAvatar(await createImage(300, 200));
+
+    expect([...images.keys()]).toEqual([64, 128, 256]);
+    for (const [size, image] of images) {
+      const metadata = await sharp(image).metadata();
+      expect(metadata).toMatchObject({
+        format: "webp",
+        width: size,
+        height: size,
+      });
+    }
+  });
+
+  it("should strip EXIF metadata", async () => {
+    const photo = await sharp(await createImage(100, 100, "jpeg"))
+      .withExif({ IFD0: { Copyright: "Secret Location" } })
+      .jpeg()
+      .toBuffer();
+    expect((await sharp(photo).metadata()).exif).toBeDefined();
+
+    const images = await resizeAvatar(photo);
+    const metadata = await sharp(images.get(64)!).metadata();
+    expect(metadata.exif).toBeUndefined();
+  });
+
+  it("should use the crop, moving it back inside the image when it goes past the edge", async () => {
+    const image = await createImage(200, 100);
+
+    // The left half is red
+    const [red, , blue] = await averageColor(
+      (await resizeAvatar(image, { x: 0, y: 0, size: 100 })).get(64)!,
+    );
+    expect(red).toBeGreaterThan(200);
+    expect(blue).toBeLessThan(50);
+
+    // A crop past the right edge ends up on the blue half
+    const [red2, , blue2] = await averageColor(
+      (await resizeAvatar(image, { x: 180, y: 20, size: 100 })).get(64)!,
+    );
+    expect(red2).toBeLessThan(50);
+    expect(blue2).toBeGreaterThan(200);
+  });
+
+  it("should throw for a file that isn't a valid image", async () => {
+    await expect(
+      resizeAvatar(
+        Buffer.concat([Buffer.from([0xff, 0xd8, 0xff]), Buffer.alloc(20)]),
+      ),
+    ).rejects.toThrow();
+  });
+});
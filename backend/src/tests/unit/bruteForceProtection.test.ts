@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import type { Request } from "express";
+import { setAttemptStore } from "../../config/bruteForceConfig.js";
+import { createMemoryAttemptStore } from "../../utils/attemptStore.js";
+import {
+  getLoginThrottleKeys,
+  getLockoutSeconds,
+  getLockoutRemainingSeconds,
+  recordLoginFailure,
+  resetLoginFailures,
+} from "../../utils/bruteForceProtection.js";
+
+// Build the counter keys for a fake request from a fixed IP address
+const keysFor = (email: string, ip = "203.0.113.7") =>
+  getLoginThrottleKeys({ ip } as Request, email);
+
+// Record a number of failed logins for the given keys
+const failTimes = async (keys: ReturnType<typeof keysFor>, count: number) => {
+  for (let i = 0; i < count; i++) await recordLoginFailure(keys);
+};
+
+beforeEach(() => {
+  // Use a fresh in-memory store and small limits for every test
+  setAttemptStore(createMemoryAttemptStore());
+  vi.stubEnv("LOGIN_MAX_FAILURES_PER_ACCOUNT", "3");
+  vi.stubEnv("LOGIN_MAX_FAILURES_PER_IP", "5");
+  vi.stubEnv("LOGIN_LOCKOUT_BASE_SECONDS", "60");
+  vi.stubEnv("LOGIN_LOCKOUT_MAX_SECONDS", "600");
+});
+
+afterEach(() => {
+  setAttemptStore(null);
+  vi.unstubAllEnvs();
+  vi.useRealTimers();
+});
+
+describe("getLockoutSeconds()", () => {
+  it("should double the lockout for every failure past the threshold, up to the maximum", () => {
+    expect(getLockoutSeconds(2, 3)).toBe(0);
+    expect(getLockoutSeconds(3, 3)).toBe(60);
+    expect(getLockoutSeconds(4, 3)).toBe(120);
+    expect(getLockoutSeconds(5, 3)).toBe(240);
+    expect(getLockoutSeconds(10, 3)).toBe(600);
+  });
+});
+
+describe("recordLoginFailure()", () => {
+  it("should lock the account once it reaches the threshold", async () => {
+    const keys = keysFor("user@example.com");
+    await failTimes(keys, 2);
+    expect(await getLockoutRemainingSeconds(keys)).toBe(0);
+
+    await recordLoginFailure(keys);
+    expect(await getLockoutRemainingSeconds(keys)).toBe(60);
+  });
+
+  it("should count the account by email regardless of case or IP address", async () => {
+    await failTimes(keysFor("User@Example.com", "198.51.100.1"), 3);
+
+    expect(
+      await getLockoutRemainingSeconds(keysFor("user@example.com")),
+    ).toBeGreaterThan(0);
+  });
+
+  it("should lock the IP address after failures across different accounts", async () => {
+    for (let i = 0; i < 5; i++) {
+      await recordLoginFailure(keysFor(`user${i}@example.com`));
+    }
+
+    expect(
+      await getLockoutRemainingSeconds(keysFor("someone-else@example.com")),
+    ).toBe(60);
+    // The same email from another address is not affected
+    expect(
+      await getLockoutRemainingSeconds(
+        keysFor("someone-else@example.com", "198.51.100.1"),
+      ),
+    ).toBe(0);
+  });
+
+  it("should lift the lockout once it has passed", async () => {
+    vi.useFakeTimers();
+    const keys = keysFor("user@example.com");
+    await failTimes(keys, 3);
+
+    vi.advanceTimersByTime(61 * 1000);
+    expect(await getLockoutRemainingSeconds(keys)).toBe(0);
+
+    // The next failure locks the account again for twice as long
+    await recordLoginFailure(keys);
+    expect(await getLockoutRemainingSeconds(keys)).toBe(120);
+  });
+});
+
+describe("resetLoginFailures()", () => {
+  it("should clear the account and IP counters", async () => {
+    const keys = keysFor("user@example.com");
+    await failTimes(keys, 3);
+
+    await resetLoginFailures(keys);
+    expect(await getLockoutRemainingSeconds(keys)).toBe(0);
+
+    // Counting starts over from zero
+    await failTimes(keys, 2);
+    expect(await getLockoutRemainingSeconds(keys)).toBe(0);
+  });
+});
@@ -88,6 +88,20 @@ describe("Error Middleware", () => {
     });
   });
 
+  describe("when the request has a request id", () => {
+    it("should include the request id in the response", () => {
+      const mockError = new Error("Something went wrong");
+      const mockReq = createMockReq({ requestId: "req-123" });
+      const mockRes = createMockRes();
+      errorMiddleware(mockError, mockReq, mockRes, vi.fn() as NextFunction);
+      expect(mockRes.status(500).json).toHaveBeenCalledWith({
+        statusCode: 500,
+        message: mockError.message,
+        requestId: "req-123",
+      });
+    });
+  });
+
   describe("stack trace behavior", () => {
     afterEach(() => {
       vi.unstubAllEnvs(); // Reset NODE_ENV to its original value
@@ -0,0 +1,190 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { createPublicKey } from "node:crypto";
+import { signJwt, verifyJwt } from "../../utils/jwtUtils.js";
+import {
+  createKeyManager,
+  generateSigningKey,
+  getKeyId,
+  parsePemKeys,
+} from "../../utils/jwtKeys.js";
+import { getKeyManager, setKeyManager } from "../../config/jwtConfig.js";
+
+const options = {
+  typ: "at+jwt",
+  audience: "https://api.example.com",
+  expiresInSeconds: 60,
+};
+
+// rebuild a token with a different header, keeping the payload and signature
+const withHeader = (token: string, header: object) => {
+  const [, payload, signature] = token.split(".");
+  const encoded = Buffer.from(JSON.stringify(header)).toString("base64url");
+  return `${encoded}.${payload}.${signature}`;
+};
+
+afterEach(() => {
+  setKeyManager(null);
+  vi.unstubAllEnvs();
+});
+
+describe.each(["EdDSA", "RS256"] as const)("%s keys", (alg) => {
+  it("should sign tokens that verify, with the kid and alg in the header", () => {
+    const keyManager = createKeyManager(generateSigningKey(alg));
+    setKeyManager(keyManager);
+
+    const token = signJwt({ userId: "user123" }, options);
+    const header = JSON.parse(
+      Buffer.from(token.split(".")[0]!, "base64url").toString(),
+    );
+
+    expect(header).toEqual({
+      alg,
+      typ: "at+jwt",
+      kid: keyManager.signingKey.kid,
+    });
+    expect(verifyJwt(token, options)).toMatchObject({
+      userId: "user123",
+      aud: "https://api.example.com",
+    });
+  });
+});
+
+describe("verifyJwt()", () => {
+  it("should reject a token with another typ", () => {
+    const token = signJwt({}, options);
+    expect(() => verifyJwt(token, { ...options, typ: "refresh+jwt" })).toThrow(
+      "Invalid token type",
+    );
+  });
+
+  it("should reject a token for another audience", () => {
+    const token = signJwt({}, options);
+    expect(() =>
+      verifyJwt(token, { ...options, audience: "https://other.example.com" }),
+    ).toThrow("Invalid token audience");
+  });
+
+  it("should reject a token from another issuer", () => {
+    const token = signJwt({}, options);
+    vi.stubEnv("JWT_ISSUER", "https://other.example.com");
+    expect(() => verifyJwt(token, options)).toThrow("Invalid token issuer");
+  });
+
+  it("should reject an expired token", () => {
+    const token = signJwt({}, { ...options, expiresInSeconds: -1 });
+    expect(() => verifyJwt(token, options)).toThrow("Token expired");
+  });
+
+  it("should reject a token that isn't valid yet", () => {
+    const token = signJwt({ nbf: Math.floor(Date.now() / 1000) + 60 }, options);
+    expect(() => verifyJwt(token, options)).toThrow("Token not yet valid");
+  });
+
+  it("should reject a tampered payload", () => {
+    const [header, , signature] = signJwt({ userId: "user123" }, options).split(
+      ".",
+    );
+    const payload = Buffer.from(
+      JSON.stringify({ userId: "admin", aud: options.audience }),
+    ).toString("base64url");
+    expect(() =>
+      verifyJwt(`${header}.${payload}.${signature}`, options),
+    ).toThrow("Invalid token signature");
+  });
+
+  it("should reject a token whose alg doesn't match its key", () => {
+    const token = signJwt({}, options);
+    const { kid } = getKeyManager().signingKey;
+
+    for (const alg of ["none", "HS256", "RS256"]) {
+      expect(() =>
+        verifyJwt(withHeader(token, { alg, typ: "at+jwt", kid }), options),
+      ).toThrow("Invalid token algorithm");
+    }
+  });
+
+  it("should reject a token signed with a key we don't know", () => {
+    const token = signJwt({}, options);
+    setKeyManager(createKeyManager(generateSigningKey()));
+    expect(() => verifyJwt(token, options)).toThrow("unknown signing key");
+  });
+
+  it("should reject malformed tokens", () => {
+    expect(() => verifyJwt("not-a-token", options)).toThrow();
+    expect(() => verifyJwt("a.b.c.d", options)).toThrow("Invalid token");
+  });
+});
+
+describe("key rotation", () => {
+  it("should keep accepting tokens signed with a verification key", () => {
+    const oldKey = generateSigningKey();
+    setKeyManager(createKeyManager(oldKey));
+    const token = signJwt({ userId: "user123" }, options);
+
+    // the new key signs from now on, the old one only verifies
+    setKeyManager(
+      createKeyManager(generateSigningKey("RS256"), [createPublicKey(oldKey)]),
+    );
+    expect(verifyJwt(token, options)).toHaveProperty("userId", "user123");
+    expect(verifyJwt(signJwt({}, options), options)).toBeDefined();
+  });
+
+  it("should publish every key in the JWKS without the private parts", () => {
+    const oldKey = generateSigningKey();
+    const keyManager = createKeyManager(generateSigningKey("RS256"), [oldKey]);
+
+    const { keys } = keyManager.getJwks();
+    expect(keys.map((key) => key.kid)).toEqual([
+      getKeyId(createPublicKey(oldKey)),
+      keyManager.signingKey.kid,
+    ]);
+    expect(keys.map((key) => key.alg)).toEqual(["EdDSA", "RS256"]);
+    for (const key of keys) {
+      expect(key).toHaveProperty("use", "sig");
+      expect(key).not.toHaveProperty("d");
+    }
+  });
+});
+
+describe("keys from the environment", () => {
+  it("should read the signing and verification keys, with escaped newlines", () => {
+    const privateKey = generateSigningKey();
+    const oldPublicKey = createPublicKey(generateSigningKey("RS256"));
+    const escape = (pem: string) => pem.replace(/\n/g, "\\n");
+
+    vi.stubEnv(
+      "JWT_PRIVATE_KEY",
+      escape(privateKey.export({ type: "pkcs8", format: "pem" }).toString()),
+    );
+    vi.stubEnv(
+      "JWT_VERIFICATION_KEYS",
+      escape(oldPublicKey.export({ type: "spki", format: "pem" }).toString()),
+    );
+
+    const keyManager = getKeyManager();
+    expect(keyManager.signingKey.kid).toBe(
+      getKeyId(createPublicKey(privateKey)),
+    );
+    expect(keyManager.getKey(getKeyId(oldPublicKey))).toHaveProperty(
+      "alg",
+      "RS256",
+    );
+  });
+
+  it("should refuse to start without a signing key in production", () => {
+    vi.stubEnv("NODE_ENV", "production");
+    vi.stubEnv("JWT_PRIVATE_KEY", "");
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    expect(() => getKeyManager()).toThrow(
+      "Server configuration error: missing JWT_PRIVATE_KEY",
+    );
+  });
+
+  it("should split several PEM keys", () => {
+    const pems = [generateSigningKey(), generateSigningKey()].map((key) =>
+      createPublicKey(key).export({ type: "spki", format: "pem" }).toString(),
+    );
+    expect(parsePemKeys(pems.join("\n"))).toHaveLength(2);
+  });
+});
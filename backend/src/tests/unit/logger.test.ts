@@ -0,0 +1,111 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { logger, redact } from "../../utils/logger.js";
+import {
+  runWithRequestContext,
+  setRequestUser,
+} from "../../utils/requestContext.js";
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+describe("redact", () => {
+  it("should hide the values of sensitive fields at any depth", () => {
+    expect(
+      redact({
+        email: "someone@test.com",
+        password: "secret123",
+        body: { currentPassword: "old", refreshToken: "abc", code: "123456" },
+        headers: { authorization: "Bearer abc", cookie: "refreshToken=abc" },
+      }),
+    ).toEqual({
+      email: "someone@test.com",
+      password: "[REDACTED]",
+      body: {
+        currentPassword: "[REDACTED]",
+        refreshToken: "[REDACTED]",
+        code: "[REDACTED]",
+      },
+      headers: { authorization: "[REDACTED]", cookie: "[REDACTED]" },
+    });
+  });
+
+  it("should hide bearer tokens, JWTs and tokens in URLs inside strings", () => {
+    expect(redact("Authorization: Bearer abc.def-ghi")).toBe(
+      "Authorization: Bearer [REDACTED]",
+    );
+    expect(redact("jwt malformed: eyJhbGciOi.eyJzdWIiOi.c2lnbmF0dXJl")).toBe(
+      "jwt malformed: [REDACTED]",
+    );
+    expect(redact("/api/auth/verify-email?token=abc123&next=%2F")).toBe(
+      "/api/auth/verify-email?token=[REDACTED]&next=%2F",
+    );
+  });
+
+  it("should keep the message and stack of errors", () => {
+    const error = Object.assign(new Error("connect ECONNREFUSED"), {
+      code: "ECONNREFUSED",
+    });
+    expect(redact(error)).toEqual({
+      name: "Error",
+      message: "connect ECONNREFUSED",
+      errorCode: "ECONNREFUSED",
+      stack: error.stack,
+    });
+  });
+
+  it("should cut off deeply nested values", () => {
+    expect(redact({ a: { b: { c: { d: { e: { f: 1 } } } } } })).toEqual({
+      a: { b: { c: { d: { e: "[Truncated]" } } } },
+    });
+  });
+});
+
+describe("logger", () => {
+  it("should write one JSON line with the request context", () => {
+    vi.stubEnv("LOG_LEVEL", "info");
+    const log = vi.spyOn(console, "log").mockImplementation(() => {});
+
+    runWithRequestContext({ requestId: "req-123" }, () => {
+      setRequestUser("user-1");
+      logger.info("avatar uploaded", { size: 1024, token: "abc" });
+    });
+
+    expect(log).toHaveBeenCalledTimes(1);
+    expect(JSON.parse(log.mock.calls[0]?.[0] as string)).toEqual({
+      time: expect.any(String),
+      level: "info",
+      message: "avatar uploaded",
+      requestId: "req-123",
+      userId: "user-1",
+      size: 1024,
+      token: "[REDACTED]",
+    });
+  });
+
+  it("should write warnings and errors to stderr", () => {
+    vi.stubEnv("LOG_LEVEL", "info");
+    const log = vi.spyOn(console, "log").mockImplementation(() => {});
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    logger.warn("slow query");
+    logger.error("unhandled error");
+
+    expect(log).not.toHaveBeenCalled();
+    expect(error).toHaveBeenCalledTimes(2);
+  });
+
+  it("should skip levels below LOG_LEVEL", () => {
+    vi.stubEnv("LOG_LEVEL", "warn");
+    const log = vi.spyOn(console, "log").mockImplementation(() => {});
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    logger.debug("debug line");
+    logger.info("info line");
+    logger.warn("warn line");
+
+    expect(log).not.toHaveBeenCalled();
+    expect(error).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { mkdtemp, readdir, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import {
+  createFileOutboxTransport,
+  createMemoryOutboxTransport,
+} from "../../utils/mailTransport.js";
+
+// Define a test message for use in the tests
+const message = {
+  to: "user@example.com",
+  subject: "Hello",
+  text: "Hello there",
+};
+
+describe("createMemoryOutboxTransport()", () => {
+  it("should keep every sent message in the messages array", async () => {
+    const outbox = createMemoryOutboxTransport();
+    await outbox.send(message);
+    await outbox.send({ ...message, subject: "Second" });
+
+    expect(outbox.messages).toHaveLength(2);
+    expect(outbox.messages[0]).toEqual(message);
+  });
+});
+
+describe("createFileOutboxTransport()", () => {
+  // temporary directory for the outbox, removed after each test
+  let directory: string | undefined;
+
+  afterEach(async () => {
+    if (directory) await rm(directory, { recursive: true, force: true });
+  });
+
+  it("should write each message as a JSON file in the outbox directory", async () => {
+    directory = await mkdtemp(path.join(tmpdir(), "outbox-"));
+    const outbox = createFileOutboxTransport(directory);
+    await outbox.send(message);
+
+    const files = await readdir(directory);
+    expect(files).toHaveLength(1);
+    const saved = JSON.parse(
+      await readFile(path.join(directory, files[0]!), "utf8"),
+    );
+    expect(saved).toMatchObject(message);
+    expect(saved).toHaveProperty("sentAt");
+  });
+});
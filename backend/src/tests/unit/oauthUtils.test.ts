@@ -0,0 +1,147 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from "vitest";
+import {
+  buildAuthorizationUrl,
+  exchangeCodeForProfile,
+  clearOidcCache,
+  createCodeChallenge,
+} from "../../utils/oauthUtils.js";
+import type { OAuthProvider } from "../../config/oauthConfig.js";
+import { startMockOidcServer } from "../helpers/mockOidcServer.js";
+
+// Define the client credentials and redirect URI for use in the tests
+const clientId = "test-client";
+const clientSecret = "test-secret";
+const redirectUri = "http://localhost:5001/api/auth/oauth/oidc/callback";
+
+let mockServer: Awaited<ReturnType<typeof startMockOidcServer>>;
+let provider: OAuthProvider;
+
+beforeAll(async () => {
+  mockServer = await startMockOidcServer({ clientId, clientSecret });
+  provider = {
+    id: "oidc",
+    name: "Test SSO",
+    clientId,
+    clientSecret,
+    scope: "openid email profile",
+    issuer: mockServer.issuer,
+  };
+});
+
+afterEach(() => {
+  mockServer.setIdTokenOverrides({});
+});
+
+afterAll(async () => {
+  clearOidcCache();
+  await mockServer.close();
+});
+
+// Run the flow up to the callback, returns the code the provider sent back
+const authorize = async (codeVerifier: string, nonce = "test-nonce") => {
+  const url = await buildAuthorizationUrl(provider, {
+    redirectUri,
+    state: "test-state",
+    nonce,
+    codeVerifier,
+  });
+  const callback = await mockServer.authorize(url);
+  expect(callback.searchParams.get("state")).toBe("test-state");
+  return callback.searchParams.get("code")!;
+};
+
+describe("createCodeChallenge()", () => {
+  it("should match the RFC 7636 example", () => {
+    expect(
+      createCodeChallenge("dBjftJeZ4CVP-mB92K27uhbUJU1p1r_wW1gFWFOEjXk"),
+    ).toBe("E9Melhoa2OwvFrEMTJguCHaoeK1t8URWbuGJSstw-cM");
+  });
+});
+
+describe("buildAuthorizationUrl()", () => {
+  it("should use the discovered endpoint and send PKCE, state and nonce", async () => {
+    const url = new URL(
+      await buildAuthorizationUrl(provider, {
+        redirectUri,
+        state: "abc",
+        nonce: "xyz",
+        codeVerifier: "verifier",
+      }),
+    );
+
+    expect(url.origin + url.pathname).toBe(`${mockServer.issuer}/authorize`);
+    expect(url.searchParams.get("client_id")).toBe(clientId);
+    expect(url.searchParams.get("state")).toBe("abc");
+    expect(url.searchParams.get("nonce")).toBe("xyz");
+    expect(url.searchParams.get("code_challenge")).toBe(
+      createCodeChallenge("verifier"),
+    );
+    expect(url.searchParams.get("code_challenge_method")).toBe("S256");
+  });
+});
+
+describe("exchangeCodeForProfile()", () => {
+  it("should return the profile from a valid ID token", async () => {
+    mockServer.setUser({
+      sub: "user-42",
+      email: "user42@test.com",
+      email_verified: true,
+      name: "User 42",
+    });
+    const code = await authorize("verifier-1");
+
+    const profile = await exchangeCodeForProfile(provider, {
+      code,
+      redirectUri,
+      codeVerifier: "verifier-1",
+      nonce: "test-nonce",
+    });
+
+    expect(profile).toEqual({
+      subject: "user-42",
+      email: "user42@test.com",
+      emailVerified: true,
+      name: "User 42",
+    });
+  });
+
+  it("should fail when the PKCE verifier doesn't match", async () => {
+    const code = await authorize("verifier-2");
+
+    await expect(
+      exchangeCodeForProfile(provider, {
+        code,
+        redirectUri,
+        codeVerifier: "wrong-verifier",
+        nonce: "test-nonce",
+      }),
+    ).rejects.toThrow();
+  });
+
+  it("should fail when the ID token nonce doesn't match", async () => {
+    const code = await authorize("verifier-3", "expected-nonce");
+
+    await expect(
+      exchangeCodeForProfile(provider, {
+        code,
+        redirectUri,
+        codeVerifier: "verifier-3",
+        nonce: "another-nonce",
+      }),
+    ).rejects.toThrow("nonce");
+  });
+
+  it("should fail when the ID token is for another client", async () => {
+    mockServer.setIdTokenOverrides({ aud: "someone-else" });
+    const code = await authorize("verifier-4");
+
+    await expect(
+      exchangeCodeForProfile(provider, {
+        code,
+        redirectUri,
+        codeVerifier: "verifier-4",
+        nonce: "test-nonce",
+      }),
+    ).rejects.toThrow("audience");
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect } from "vitest";
+import {
+  createArgon2idHasher,
+  createBcryptHasher,
+  createScryptHasher,
+  getHashAlgorithm,
+  verifyPasswordHash,
+} from "../../utils/passwordHasher.js";
+
+// cheap parameters so the tests run fast, real ones come from config/passwordConfig.ts
+const hashers = [
+  createBcryptHasher({ cost: 4 }),
+  createArgon2idHasher({ memoryKiB: 1024, timeCost: 1, parallelism: 1 }),
+  createScryptHasher({ logN: 10, blockSize: 8, parallelism: 1 }),
+];
+
+describe.each(hashers)("$algorithm hasher", (hasher) => {
+  it("should make a hash that verifies the password and nothing else", async () => {
+    const hash = await hasher.hash("Tr0ub4dor&3");
+
+    expect(getHashAlgorithm(hash)).toBe(hasher.algorithm);
+    expect(await verifyPasswordHash("Tr0ub4dor&3", hash)).toBe(true);
+    expect(await verifyPasswordHash("Tr0ub4dor&4", hash)).toBe(false);
+  });
+
+  it("should salt every hash", async () => {
+    const first = await hasher.hash("Tr0ub4dor&3");
+    const second = await hasher.hash("Tr0ub4dor&3");
+    expect(first).not.toBe(second);
+  });
+
+  it("should not ask to rehash its own hashes", async () => {
+    expect(hasher.needsRehash(await hasher.hash("Tr0ub4dor&3"))).toBe(false);
+  });
+
+  it("should ask to rehash hashes made by the other algorithms", async () => {
+    for (const other of hashers.filter((h) => h !== hasher)) {
+      expect(hasher.needsRehash(await other.hash("Tr0ub4dor&3"))).toBe(true);
+    }
+  });
+});
+
+describe("needsRehash", () => {
+  it("should ask to rehash when the parameters changed", async () => {
+    const hash = await createBcryptHasher({ cost: 4 }).hash("Tr0ub4dor&3");
+    expect(createBcryptHasher({ cost: 5 }).needsRehash(hash)).toBe(true);
+
+    const scryptHash = await createScryptHasher({
+      logN: 10,
+      blockSize: 8,
+      parallelism: 1,
+    }).hash("Tr0ub4dor&3");
+    expect(
+      createScryptHasher({
+        logN: 11,
+        blockSize: 8,
+        parallelism: 1,
+      }).needsRehash(scryptHash),
+    ).toBe(true);
+  });
+});
+
+describe("verifyPasswordHash", () => {
+  it("should never match a hash in an unknown format", async () => {
+    expect(await verifyPasswordHash("Tr0ub4dor&3", "Tr0ub4dor&3")).toBe(false);
+    expect(await verifyPasswordHash("x", "$md5$abc")).toBe(false);
+  });
+});
@@ -0,0 +1,172 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { createHash } from "node:crypto";
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import {
+  containsPersonalInfo,
+  isCommonPassword,
+  screenPassword,
+} from "../../utils/passwordScreening.js";
+import {
+  createFileRangeSource,
+  createHttpRangeSource,
+  createMemoryRangeSource,
+  getBreachCount,
+} from "../../utils/breachedPasswords.js";
+import { setPasswordRangeSource } from "../../config/passwordConfig.js";
+
+const user = { name: "Ada Lovelace", email: "ada.king@example.com" };
+
+describe("isCommonPassword", () => {
+  it("should catch common passwords with digits, symbols and leetspeak added", () => {
+    expect(isCommonPassword("Password1!")).toBe(true);
+    expect(isCommonPassword("P@ssw0rd123")).toBe(true);
+    expect(isCommonPassword("!!Qwerty2024")).toBe(true);
+    expect(isCommonPassword("12345678")).toBe(true);
+  });
+
+  it("should allow passwords that aren't on the list", () => {
+    expect(isCommonPassword("Tr0ub4dor&3")).toBe(false);
+    expect(isCommonPassword("correct horse battery staple")).toBe(false);
+  });
+});
+
+describe("containsPersonalInfo", () => {
+  it("should catch parts of the name and email", () => {
+    expect(containsPersonalInfo("Lovelace#1815", user)).toBe(true);
+    expect(containsPersonalInfo("K1ng!Size99", user)).toBe(true);
+    expect(containsPersonalInfo("xAda.King!9", user)).toBe(true);
+  });
+
+  it("should ignore parts shorter than 3 characters", () => {
+    expect(
+      containsPersonalInfo("Tr0ub4dor&3", { name: "Al B", email: "a@x.io" }),
+    ).toBe(false);
+  });
+});
+
+describe("getBreachCount", () => {
+  it("should find a password in the range for its hash prefix", async () => {
+    const source = createMemoryRangeSource(["Tr0ub4dor&3"]);
+    expect(await getBreachCount("Tr0ub4dor&3", source)).toBe(1);
+    expect(await getBreachCount("Tr0ub4dor&4", source)).toBe(0);
+  });
+
+  it("should only send the first 5 characters of the hash to the source", async () => {
+    const getRange = vi.fn().mockResolvedValue("");
+    await getBreachCount("Tr0ub4dor&3", { getRange });
+
+    const hash = createHash("sha1")
+      .update("Tr0ub4dor&3")
+      .digest("hex")
+      .toUpperCase();
+    expect(getRange).toHaveBeenCalledWith(hash.slice(0, 5));
+  });
+
+  it("should ignore padding entries with a count of 0", async () => {
+    const hash = createHash("sha1")
+      .update("Tr0ub4dor&3")
+      .digest("hex")
+      .toUpperCase();
+    const source = { getRange: async () => `${hash.slice(5)}:0\r\n` };
+    expect(await getBreachCount("Tr0ub4dor&3", source)).toBe(0);
+  });
+});
+
+describe("createFileRangeSource", () => {
+  let dir: string;
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("should read ranges from one file per prefix", async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "pwned-"));
+    const hash = createHash("sha1")
+      .update("Tr0ub4dor&3")
+      .digest("hex")
+      .toUpperCase();
+    await writeFile(
+      path.join(dir, `${hash.slice(0, 5)}.txt`),
+      `${hash.slice(5)}:42\r\n`,
+    );
+
+    const source = createFileRangeSource(dir);
+    expect(await getBreachCount("Tr0ub4dor&3", source)).toBe(42);
+    // no file for the range means nothing in it has leaked
+    expect(await getBreachCount("Tr0ub4dor&4", source)).toBe(0);
+  });
+
+  it("should refuse a prefix that isn't 5 hex characters", async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "pwned-"));
+    await expect(
+      createFileRangeSource(dir).getRange("../../etc"),
+    ).rejects.toThrow("Invalid password range prefix");
+  });
+});
+
+describe("createHttpRangeSource", () => {
+  it("should give up on an API that doesn't answer in time", async () => {
+    // Accepts the connection but never responds
+    const server = createServer(() => {});
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    const { port } = server.address() as AddressInfo;
+
+    try {
+      await expect(
+        createHttpRangeSource(`http://127.0.0.1:${port}/range`, 50).getRange(
+          "21BD1",
+        ),
+      ).rejects.toThrow("aborted due to timeout");
+    } finally {
+      server.closeAllConnections();
+      server.close();
+    }
+  });
+});
+
+describe("screenPassword", () => {
+  afterEach(() => {
+    setPasswordRangeSource(null);
+  });
+
+  it("should allow a strong password when the breach check is off", async () => {
+    expect(await screenPassword("Tr0ub4dor&3", user)).toBeNull();
+  });
+
+  it("should reject a password found by the breach check", async () => {
+    setPasswordRangeSource(createMemoryRangeSource(["Tr0ub4dor&3"]));
+    expect(await screenPassword("Tr0ub4dor&3", user)).toBe(
+      "This password has appeared in a data breach, choose a different one",
+    );
+  });
+
+  it("should let the password through when the breach check fails", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    setPasswordRangeSource({
+      getRange: async () => {
+        throw new Error("network down");
+      },
+    });
+    expect(await screenPassword("Tr0ub4dor&3", user)).toBeNull();
+    vi.restoreAllMocks();
+  });
+
+  it("should reject the password when the breach check fails and PASSWORD_BREACH_ON_ERROR=reject", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.stubEnv("PASSWORD_BREACH_ON_ERROR", "reject");
+    setPasswordRangeSource({
+      getRange: async () => {
+        throw new Error("network down");
+      },
+    });
+    expect(await screenPassword("Tr0ub4dor&3", user)).toBe(
+      "We couldn't check this password right now, try again in a few minutes",
+    );
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+});
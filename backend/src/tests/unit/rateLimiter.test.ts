@@ -0,0 +1,130 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import type { NextFunction, Response } from "express";
+import { rateLimit } from "../../middleware/rateLimiter.js";
+import type { RateLimitPolicy } from "../../middleware/rateLimiter.js";
+import { setRateLimitStore } from "../../config/rateLimitConfig.js";
+import { getAppConfig, setAppConfig } from "../../config/appConfig.js";
+import { createMemoryRateLimitStore } from "../../utils/rateLimitStore.js";
+import { createMockReq, createMockRes } from "../helpers/factories.js";
+
+// Policies used in the tests, 3 requests per minute
+const fixedWindow: RateLimitPolicy = {
+  name: "test-fixed",
+  algorithm: "fixed-window",
+  limit: 3,
+  windowMs: 60 * 1000,
+  key: "ip",
+};
+const tokenBucket: RateLimitPolicy = {
+  ...fixedWindow,
+  name: "test-bucket",
+  algorithm: "token-bucket",
+};
+
+// Send a request from the given IP through the middleware, returning the mocks to inspect
+const send = async (
+  middleware: ReturnType<typeof rateLimit>,
+  overrides: Parameters<typeof createMockReq>[0] = { ip: "203.0.113.7" },
+) => {
+  const req = createMockReq(overrides);
+  const res = createMockRes({ set: vi.fn() as unknown as Response["set"] });
+  const next = vi.fn() as NextFunction;
+  await middleware(req, res, next);
+  return { res, next };
+};
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(new Date("2026-01-01T00:00:00Z"));
+  setRateLimitStore(createMemoryRateLimitStore());
+});
+
+afterEach(() => {
+  setRateLimitStore(null);
+  vi.useRealTimers();
+  setAppConfig(null);
+});
+
+describe("rateLimit() with a fixed window", () => {
+  it("should allow requests up to the limit, then answer 429 with Retry-After", async () => {
+    const middleware = rateLimit(fixedWindow);
+    for (let i = 0; i < 3; i++) {
+      expect((await send(middleware)).next).toHaveBeenCalled();
+    }
+
+    const { res, next } = await send(middleware);
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(429);
+    expect(res.set).toHaveBeenCalledWith("Retry-After", "60");
+    const json = vi.mocked(res.status).mock.results[0]?.value.json;
+    expect(json).toHaveBeenCalledWith({
+      statusCode: 429,
+      message: "Too many requests, please try again later.",
+    });
+  });
+
+  it("should set the RateLimit headers", async () => {
+    const { res } = await send(rateLimit(fixedWindow));
+
+    expect(res.set).toHaveBeenCalledWith({
+      "RateLimit-Limit": "3",
+      "RateLimit-Remaining": "2",
+      "RateLimit-Reset": "60",
+      "RateLimit-Policy": "3;w=60",
+    });
+  });
+
+  it("should start counting again in the next window", async () => {
+    const middleware = rateLimit(fixedWindow);
+    for (let i = 0; i < 4; i++) await send(middleware);
+
+    vi.advanceTimersByTime(60 * 1000);
+    expect((await send(middleware)).next).toHaveBeenCalled();
+  });
+
+  it("should count each IP address separately", async () => {
+    const middleware = rateLimit(fixedWindow);
+    for (let i = 0; i < 4; i++) await send(middleware);
+
+    expect(
+      (await send(middleware, { ip: "198.51.100.1" })).next,
+    ).toHaveBeenCalled();
+  });
+
+  it("should count by user when keyed by user, falling back to the IP address", async () => {
+    const middleware = rateLimit({ ...fixedWindow, key: "user" });
+    const asUser = {
+      ip: "203.0.113.7",
+      user: { userId: "user123", email: "test@example.com" },
+    };
+    for (let i = 0; i < 4; i++) await send(middleware, asUser);
+
+    // Same IP address without the user still has its own limit
+    expect((await send(middleware)).next).toHaveBeenCalled();
+    expect((await send(middleware, asUser)).next).not.toHaveBeenCalled();
+  });
+
+  it("should do nothing when rate limiting is turned off", async () => {
+    setAppConfig({ ...getAppConfig(), rateLimitEnabled: false });
+    const middleware = rateLimit(fixedWindow);
+    for (let i = 0; i < 4; i++) {
+      expect((await send(middleware)).next).toHaveBeenCalled();
+    }
+  });
+});
+
+describe("rateLimit() with a token bucket", () => {
+  it("should allow a burst up to the limit, then one request per refilled token", async () => {
+    const middleware = rateLimit(tokenBucket);
+    for (let i = 0; i < 3; i++) await send(middleware);
+
+    const limited = await send(middleware);
+    expect(limited.next).not.toHaveBeenCalled();
+    // One token refills every 20 seconds
+    expect(limited.res.set).toHaveBeenCalledWith("Retry-After", "20");
+
+    vi.advanceTimersByTime(20 * 1000);
+    expect((await send(middleware)).next).toHaveBeenCalled();
+    expect((await send(middleware)).next).not.toHaveBeenCalled();
+  });
+});
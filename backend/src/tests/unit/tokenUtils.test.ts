@@ -2,10 +2,17 @@ import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import jwt from "jsonwebtoken";
 import {
   generateTokens,
-  generateAccessToken,
+  verifyAccessToken,
+  verifyRefreshToken,
   formatUserWithoutPassword,
+  getAccessClaims,
   setRefreshTokenCookie,
+  generateEmailVerificationToken,
+  verifyEmailVerificationToken,
+  generateDeletionCancelToken,
+  verifyDeletionCancelToken,
 } from "../../utils/tokenUtils.js";
+import { getAppConfig, setAppConfig } from "../../config/appConfig.js";
 import { createMockUser, createMockRes } from "../helpers/factories.js";
 
 // Define test user data for use in the tests
@@ -30,12 +37,9 @@ describe("generateTokens()", () => {
     // Call the function to get the tokens
     const tokens = generateTokens(userId, email);
 
-    // Verify the token using the JWT_SECRET
-    const decodedToken = jwt.verify(tokens.token, "test-secret-123");
-    const decodedRefreshToken = jwt.verify(
-      tokens.refreshToken,
-      "test-secret-123",
-    );
+    // Verify each token as its own type
+    const decodedToken = verifyAccessToken(tokens.token);
+    const decodedRefreshToken = verifyRefreshToken(tokens.refreshToken);
 
     // assert that the decoded tokens have the correct payload
     expect(decodedToken).toHaveProperty("userId", userId);
@@ -44,38 +48,102 @@ describe("generateTokens()", () => {
     expect(decodedRefreshToken).toHaveProperty("email", email);
   });
 
-  it("should throw an error if JWT_SECRET is not set", () => {
-    // Unset the JWT_SECRET environment variable to simulate the error condition
-    vi.stubEnv("JWT_SECRET", "");
-
-    // Assert that calling the function without JWT_SECRET throws an error
-    expect(() => generateTokens(userId, email)).toThrow(
-      "Server configuration error: missing JWT_SECRET",
+  it("should include the role claims in both tokens", () => {
+    const tokens = generateTokens(
+      userId,
+      email,
+      "family-1",
+      getAccessClaims(createMockUser({ roles: ["moderator"] })),
     );
+
+    for (const decoded of [
+      verifyAccessToken(tokens.token),
+      verifyRefreshToken(tokens.refreshToken),
+    ]) {
+      expect(decoded).toHaveProperty("roles", ["moderator"]);
+      expect(decoded).toHaveProperty("permissions", [
+        "users:read",
+        "audit:read",
+      ]);
+    }
   });
-});
 
-describe("generateAccessToken()", () => {
-  it("should generate a valid JWT access token", () => {
-    // call the function to get the access token
-    const token = generateAccessToken(userId, email);
+  it("should give every refresh token a unique jti and keep the given family", () => {
+    const first = generateTokens(userId, email, "family-1");
+    const second = generateTokens(userId, email, "family-1");
 
-    // decode the token using the JWT_SECRET
-    const decodedToken = jwt.verify(token, "test-secret-123");
+    const decodedFirst = verifyRefreshToken(first.refreshToken);
+    const decodedSecond = verifyRefreshToken(second.refreshToken);
 
-    // assert that the decoded token has the correct payload
-    expect(decodedToken).toHaveProperty("userId", userId);
-    expect(decodedToken).toHaveProperty("email", email);
+    // tokens from the same family share the family id but never the token id
+    expect(decodedFirst).toHaveProperty("family", "family-1");
+    expect(decodedSecond).toHaveProperty("family", "family-1");
+    expect(decodedFirst).toHaveProperty("jti");
+    expect(decodedFirst?.jti).not.toBe(decodedSecond?.jti);
   });
 
-  it("should throw an error if JWT_SECRET is not set", () => {
-    // Unset the JWT_SECRET environment variable to simulate the error condition
+  it("should not accept a token as the other type", () => {
+    const tokens = generateTokens(userId, email);
+
+    // the typ header and audience differ, so neither token passes the other's checks
+    expect(() => verifyAccessToken(tokens.refreshToken)).toThrow(
+      "Invalid token type",
+    );
+    expect(verifyRefreshToken(tokens.token)).toBeNull();
+  });
+
+  it("should not depend on JWT_SECRET", () => {
     vi.stubEnv("JWT_SECRET", "");
+    const tokens = generateTokens(userId, email);
+    expect(verifyAccessToken(tokens.token)).toHaveProperty("sub", userId);
+  });
+});
+
+describe("verifyEmailVerificationToken()", () => {
+  it("should return the user id and email for a valid verification token", () => {
+    const token = generateEmailVerificationToken(userId, email);
+    expect(verifyEmailVerificationToken(token)).toEqual({ userId, email });
+  });
+
+  it("should return null for an access token", () => {
+    // access tokens are a different kind of token and must never verify an email
+    const { token: accessToken } = generateTokens(userId, email);
+    expect(verifyEmailVerificationToken(accessToken)).toBeNull();
+  });
 
-    // Assert that calling the function without JWT_SECRET throws an error
-    expect(() => generateAccessToken(userId, email)).toThrow(
-      "Server configuration error: missing JWT_SECRET",
+  it("should return null for a token signed with another algorithm", () => {
+    // the purpose tokens are always HS256, so a token with the same secret under another algorithm is refused
+    const token = jwt.sign(
+      { email, purpose: "verify-email" },
+      "test-secret-123",
+      { subject: userId, algorithm: "HS512" },
     );
+    expect(verifyEmailVerificationToken(token)).toBeNull();
+  });
+
+  it("should return null for a tampered token", () => {
+    const token = generateEmailVerificationToken(userId, email);
+    expect(verifyEmailVerificationToken(`${token}x`)).toBeNull();
+  });
+});
+
+describe("verifyDeletionCancelToken()", () => {
+  it("should return the user id for a valid cancellation token", () => {
+    const token = generateDeletionCancelToken(userId, 60 * 60 * 1000);
+    expect(verifyDeletionCancelToken(token)).toBe(userId);
+  });
+
+  it("should return null for an email verification token", () => {
+    const token = generateEmailVerificationToken(userId, email);
+    expect(verifyDeletionCancelToken(token)).toBeNull();
+  });
+
+  it("should return null once the grace period is over", () => {
+    vi.useFakeTimers();
+    const token = generateDeletionCancelToken(userId, 60 * 60 * 1000);
+    vi.advanceTimersByTime(60 * 60 * 1000 + 1000);
+    expect(verifyDeletionCancelToken(token)).toBeNull();
+    vi.useRealTimers();
   });
 });
 
@@ -86,6 +154,17 @@ describe("formatUserWithoutPassword()", () => {
 
     expect(userSansPassword).not.toHaveProperty("password");
   });
+
+  it("should include the roles and effective permissions", () => {
+    const mockedUser = createMockUser({
+      roles: ["user"],
+      permissions: ["audit:read"],
+    });
+    const formatted = formatUserWithoutPassword(mockedUser);
+
+    expect(formatted.roles).toEqual(["user"]);
+    expect(formatted.permissions).toEqual(["audit:read"]);
+  });
 });
 
 describe("setRefreshTokenCookie()", () => {
@@ -106,11 +185,11 @@ describe("setRefreshTokenCookie()", () => {
 
   describe("secure flag behavior", () => {
     afterEach(() => {
-      vi.unstubAllEnvs();
+      setAppConfig(null);
     });
 
     it("should set secure to true in production", () => {
-      vi.stubEnv("NODE_ENV", "production");
+      setAppConfig({ ...getAppConfig(), profile: "production" });
       const mockRes = createMockRes();
       const refreshTokenString = "ABC123abc";
       setRefreshTokenCookie(mockRes, refreshTokenString);
@@ -122,7 +201,7 @@ describe("setRefreshTokenCookie()", () => {
     });
 
     it("should set secure to false outside of production", () => {
-      vi.stubEnv("NODE_ENV", "development");
+      setAppConfig({ ...getAppConfig(), profile: "development" });
       const mockRes = createMockRes();
       const refreshTokenString = "ABC123abc";
       setRefreshTokenCookie(mockRes, refreshTokenString);
@@ -0,0 +1,93 @@
+import { describe, it, expect } from "vitest";
+import {
+  base32Encode,
+  base32Decode,
+  generateTotpCode,
+  verifyTotpCode,
+  getTotpStep,
+  buildOtpauthUri,
+  generateBackupCodes,
+  normalizeBackupCode,
+} from "../../utils/totpUtils.js";
+
+// RFC 6238 test secret, the ASCII bytes of "12345678901234567890"
+const rfcSecret = base32Encode(Buffer.from("12345678901234567890"));
+
+describe("base32Encode() / base32Decode()", () => {
+  it("should round trip bytes", () => {
+    const bytes = Buffer.from("hello two-factor");
+    expect(base32Decode(base32Encode(bytes))).toEqual(bytes);
+  });
+
+  it("should ignore case, spaces and padding when decoding", () => {
+    expect(base32Decode("mzxw 6ytb oi======")).toEqual(Buffer.from("foobar"));
+  });
+
+  it("should throw on characters outside the base32 alphabet", () => {
+    expect(() => base32Decode("ABC1")).toThrow();
+  });
+});
+
+describe("generateTotpCode()", () => {
+  it("should match the RFC 6238 SHA-1 test vectors", () => {
+    // the RFC lists 8 digit codes, the last 6 digits are the 6 digit codes
+    expect(generateTotpCode(rfcSecret, getTotpStep(59 * 1000))).toBe("287082");
+    expect(generateTotpCode(rfcSecret, getTotpStep(1111111109 * 1000))).toBe(
+      "081804",
+    );
+    expect(generateTotpCode(rfcSecret, getTotpStep(2000000000 * 1000))).toBe(
+      "279037",
+    );
+  });
+});
+
+describe("verifyTotpCode()", () => {
+  const time = 1111111109 * 1000;
+  const step = getTotpStep(time);
+
+  it("should return the time step of a valid code", () => {
+    expect(verifyTotpCode(rfcSecret, "081804", time)).toBe(step);
+  });
+
+  it("should accept codes from one step either side for clock drift", () => {
+    const previous = generateTotpCode(rfcSecret, step - 1);
+    const next = generateTotpCode(rfcSecret, step + 1);
+    expect(verifyTotpCode(rfcSecret, previous, time)).toBe(step - 1);
+    expect(verifyTotpCode(rfcSecret, next, time)).toBe(step + 1);
+  });
+
+  it("should reject codes from further away", () => {
+    const old = generateTotpCode(rfcSecret, step - 2);
+    expect(verifyTotpCode(rfcSecret, old, time)).toBeNull();
+  });
+
+  it("should reject malformed codes", () => {
+    expect(verifyTotpCode(rfcSecret, "12345", time)).toBeNull();
+    expect(verifyTotpCode(rfcSecret, "abcdef", time)).toBeNull();
+  });
+});
+
+describe("buildOtpauthUri()", () => {
+  it("should include the issuer, account and secret", () => {
+    const uri = buildOtpauthUri("ABC", "user@example.com", "My App");
+    expect(uri).toMatch(/^otpauth:\/\/totp\/My%20App%3Auser%40example\.com\?/);
+    const params = new URL(uri).searchParams;
+    expect(params.get("secret")).toBe("ABC");
+    expect(params.get("issuer")).toBe("My App");
+  });
+});
+
+describe("generateBackupCodes()", () => {
+  it("should generate unique codes in the xxxx-xxxx format", () => {
+    const codes = generateBackupCodes();
+    expect(codes).toHaveLength(10);
+    expect(new Set(codes).size).toBe(10);
+    for (const code of codes) {
+      expect(code).toMatch(/^[0-9a-f]{4}-[0-9a-f]{4}$/);
+    }
+  });
+
+  it("should normalize codes typed with different case and spacing", () => {
+    expect(normalizeBackupCode(" A1B2 C3D4 ")).toBe("a1b2-c3d4");
+  });
+});
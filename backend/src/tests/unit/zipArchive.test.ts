@@ -0,0 +1,57 @@
+import { describe, it, expect } from "vitest";
+import { crc32, inflateRawSync } from "node:zlib";
+import { createZipArchive } from "../../utils/zipArchive.js";
+
+// Read the files back out of an archive using the central directory, like an unzip tool would
+const readZip = (archive: Buffer) => {
+  const end = archive.length - 22;
+  expect(archive.readUInt32LE(end)).toBe(0x06054b50);
+  const count = archive.readUInt16LE(end + 10);
+  let position = archive.readUInt32LE(end + 16);
+
+  const files: Record<string, string> = {};
+  for (let i = 0; i < count; i++) {
+    expect(archive.readUInt32LE(position)).toBe(0x02014b50);
+    const checksum = archive.readUInt32LE(position + 16);
+    const compressedSize = archive.readUInt32LE(position + 20);
+    const nameLength = archive.readUInt16LE(position + 28);
+    const localOffset = archive.readUInt32LE(position + 42);
+    const name = archive.toString(
+      "utf8",
+      position + 46,
+      position + 46 + nameLength,
+    );
+
+    // The data starts after the local header and its copy of the name
+    expect(archive.readUInt32LE(localOffset)).toBe(0x04034b50);
+    const dataStart = localOffset + 30 + archive.readUInt16LE(localOffset + 26);
+    const content = inflateRawSync(
+      archive.subarray(dataStart, dataStart + compressedSize),
+    );
+    expect(crc32(content)).toBe(checksum);
+
+    files[name] = content.toString("utf8");
+    position += 46 + nameLength;
+  }
+  return files;
+};
+
+describe("createZipArchive()", () => {
+  it("should write every file so it can be read back", async () => {
+    const archive = await createZipArchive([
+      { name: "profile.json", content: '{"name":"Zoë"}' },
+      { name: "sessions.json", content: Buffer.from("[]") },
+    ]);
+
+    expect(readZip(archive)).toEqual({
+      "profile.json": '{"name":"Zoë"}',
+      "sessions.json": "[]",
+    });
+  });
+
+  it("should write a valid empty archive", async () => {
+    const archive = await createZipArchive([]);
+    expect(archive).toHaveLength(22);
+    expect(readZip(archive)).toEqual({});
+  });
+});
@@ -1,8 +1,13 @@
 import type { JWTPayload } from "./index.ts";
+import type { IMembership } from "../models/Membership.ts";
 declare global {
   namespace Express {
     interface Request {
       user?: JWTPayload;
+      // the X-Request-Id of this request, set by assignRequestId
+      requestId?: string;
+      // the user's membership in the organization the request is about, set by requireOrgRole
+      membership?: IMembership;
     }
   }
 }
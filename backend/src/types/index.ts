@@ -1,7 +1,24 @@
+import type { Role, Permission } from "../config/roleConfig.js";
+import type { TokenScope } from "../config/personalAccessTokenConfig.js";
+import type { OrgRole } from "../config/organizationConfig.js";
+import type { AuthEventType, AuthEventOutcome } from "../models/AuthEvent.js";
+
 // JWT payload structure used for token generation and verification
 export interface JWTPayload {
   userId: string;
   email: string;
+  sessionId?: string; // id of the login session the token was issued for
+  // the user's roles and effective permissions when the token was issued, missing from tokens issued before roles existed
+  roles?: Role[];
+  permissions?: Permission[];
+  // only set for personal access tokens, which can only do what these allow, see requireScope
+  scopes?: TokenScope[];
+}
+
+// Refresh token payload: adds a unique token id and the token family it belongs to
+export interface RefreshTokenPayload extends JWTPayload {
+  jti: string;
+  family: string;
 }
 
 // Field validation error structure (matches express-validator format)
@@ -12,12 +29,145 @@ export interface FieldError {
   location: "body" | "params" | "query";
 }
 
+// Error response body, sent by errorMiddleware and the rate limiter
+export interface ErrorResponse {
+  statusCode: number;
+  message: string;
+  stack?: string; // include stack trace in development for debugging
+  requestId?: string; // the X-Request-Id, shown to users as a reference code so their report can be matched to our logs
+}
+
 // User data returned in API responses (no password)
 export interface UserResponse {
   _id: string;
   name: string;
   email: string;
+  pendingEmail: string | null; // new address waiting for confirmation, null when there's no unexpired change
+  displayName: string | null;
+  bio: string | null;
+  timezone: string | null;
+  locale: string | null;
+  avatarUrl: string | null; // the 256px avatar, null when the user hasn't uploaded one
   isVerified: boolean;
+  twoFactorEnabled: boolean;
+  roles: Role[];
+  permissions: Permission[]; // effective permissions, from the roles plus any granted directly
   createdAt: Date;
   updatedAt: Date;
+  version: number; // the document's version key, send it back with PATCH /api/auth/me so stale edits are rejected
+}
+
+// User data returned by the admin API, adds the account status fields only admins see
+export interface AdminUserResponse extends UserResponse {
+  disabledAt: Date | null;
+  disabledReason: string | null;
+  passwordResetRequired: boolean;
+  deletionScheduledFor: Date | null; // set while the user's own deletion request is in its grace period
+}
+
+// A single user returned by the admin API, with counts of what is attached to the account
+export interface AdminUserDetailResponse extends AdminUserResponse {
+  activeSessions: number;
+  passkeys: number;
+  linkedAccounts: number;
+}
+
+// A personal data export returned in API responses, the download URL is only set once the archive is ready
+export interface DataExportResponse {
+  _id: string;
+  status: "pending" | "ready" | "failed";
+  size: number | null;
+  createdAt: Date;
+  completedAt: Date | null;
+  expiresAt: Date;
+  downloadUrl: string | null;
+}
+
+// A security audit log event returned in API responses
+export interface AuthEventResponse {
+  _id: string;
+  user: string | null;
+  email: string | null;
+  type: AuthEventType;
+  outcome: AuthEventOutcome;
+  reason: string | null;
+  method: string | null;
+  ip: string;
+  userAgent: string;
+  createdAt: Date;
+}
+
+// Session data returned in API responses
+export interface SessionResponse {
+  _id: string;
+  userAgent: string;
+  ip: string;
+  createdAt: Date;
+  lastUsedAt: Date;
+  current: boolean; // true for the session making the request
+}
+
+// Passkey data returned in API responses
+export interface PasskeyResponse {
+  _id: string;
+  name: string;
+  deviceType: "singleDevice" | "multiDevice";
+  backedUp: boolean; // true for synced passkeys, e.g. iCloud Keychain or Google Password Manager
+  createdAt: Date;
+  lastUsedAt: Date | null;
+}
+
+// Personal access token data returned in API responses, the token itself is only returned once when it's created
+export interface PersonalAccessTokenResponse {
+  _id: string;
+  name: string;
+  prefix: string; // the start of the token, e.g. "pat_Xk3b9QzA"
+  scopes: TokenScope[];
+  createdAt: Date;
+  expiresAt: Date;
+  lastUsedAt: Date | null;
+}
+
+// Linked social/OIDC account data returned in API responses
+export interface LinkedIdentityResponse {
+  _id: string;
+  provider: string;
+  email: string | null;
+  createdAt: Date;
+}
+
+// Organization data returned in API responses, with the requesting user's role in it
+export interface OrganizationResponse {
+  _id: string;
+  name: string;
+  role: OrgRole;
+  createdAt: Date;
+}
+
+// A member of an organization returned in API responses
+export interface OrganizationMemberResponse {
+  userId: string;
+  name: string;
+  email: string;
+  role: OrgRole;
+  joinedAt: Date;
+}
+
+// A pending invitation returned to the organization's admins, the token itself is only ever in the email
+export interface OrganizationInviteResponse {
+  _id: string;
+  email: string;
+  role: OrgRole;
+  invitedBy: string | null; // the inviter's name, null once their account is purged
+  createdAt: Date;
+  expiresAt: Date;
+}
+
+// An invitation as seen by the person it was sent to, before they accept or decline it
+export interface InvitationResponse {
+  organizationName: string;
+  email: string;
+  role: OrgRole;
+  invitedBy: string | null;
+  expiresAt: Date;
 }
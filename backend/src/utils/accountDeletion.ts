@@ -0,0 +1,108 @@
+// scheduling, cancelling and carrying out account deletions, used by accountController and the purge job
+import User from "../models/User.js";
+import type { IUser } from "../models/User.js";
+import Membership from "../models/Membership.js";
+import Organization from "../models/Organization.js";
+import { runUserDataCleanups } from "./userDataRegistry.js";
+import { getAccountDeletionSettings } from "../config/accountDeletionConfig.js";
+import { logger } from "./logger.js";
+
+// names of the organizations the user owns that have other members
+// purging the account deletes the organizations it owns, so these have to be handed over (or deleted) first
+export const findOwnedOrganizationsWithMembers = async (
+  userId: string,
+): Promise<string[]> => {
+  const owned = await Membership.find({ user: userId, role: "owner" });
+  const organizationIds = await Membership.distinct("organization", {
+    organization: { $in: owned.map((membership) => membership.organization) },
+    user: { $ne: userId },
+  });
+  const organizations = await Organization.find({
+    _id: { $in: organizationIds },
+  })
+    .select("name")
+    .sort({ name: 1 });
+  return organizations.map((organization) => organization.name);
+};
+
+// mark an account for deletion once the grace period is over, returns when it will be purged
+// doesn't save, the caller must call user.save()
+export const scheduleAccountDeletion = (user: IUser): Date => {
+  const { gracePeriodMs } = getAccountDeletionSettings();
+  user.deletionScheduledFor = new Date(Date.now() + gracePeriodMs);
+  return user.deletionScheduledFor;
+};
+
+// cancel a scheduled deletion, returns false if the account wasn't scheduled for deletion or is already being purged
+export const cancelAccountDeletion = async (user: IUser): Promise<boolean> => {
+  if (!user.deletionScheduledFor) return false;
+  // filtered on purgeStartedAt so a purge that already started deleting data can't be cancelled halfway through
+  const { modifiedCount } = await User.updateOne(
+    { _id: user._id, purgeStartedAt: null },
+    { deletionScheduledFor: null },
+  );
+  if (modifiedCount === 0) return false;
+  user.deletionScheduledFor = null;
+  return true;
+};
+
+// delete everything other modules registered for a user whose grace period is over, then the user
+// the account is marked as purging first with a filter on the schedule, so an account that logged in (and cancelled) a moment ago is left alone
+// the user is deleted last, if a cleanup throws the account stays marked and the next run of the purge job retries it
+// returns false if the account was no longer due for deletion
+export const purgeAccount = async (
+  userId: string,
+  now: Date = new Date(),
+): Promise<boolean> => {
+  const user = await User.findOneAndUpdate(
+    { _id: userId, deletionScheduledFor: { $ne: null, $lte: now } },
+    { purgeStartedAt: now },
+    { new: true },
+  );
+  if (!user) return false;
+
+  await runUserDataCleanups(user);
+  await User.deleteOne({ _id: user._id });
+  return true;
+};
+
+// purge every account whose grace period is over, returns how many were purged
+export const purgeDueAccounts = async (
+  now: Date = new Date(),
+): Promise<number> => {
+  const due = await User.find({
+    deletionScheduledFor: { $ne: null, $lte: now },
+  }).select("_id");
+
+  let purged = 0;
+  // one at a time, so a big backlog doesn't flood the database
+  for (const { _id } of due) {
+    try {
+      if (await purgeAccount(_id.toString(), now)) purged++;
+    } catch (error) {
+      // keep going so one failing cleanup doesn't block every other deletion
+      logger.error("Failed to purge account", {
+        userId: _id.toString(),
+        error,
+      });
+    }
+  }
+  return purged;
+};
+
+// run purgeDueAccounts() on an interval while the server is up, call once after connecting to the database
+export const startAccountPurgeSchedule = (): NodeJS.Timeout => {
+  const run = async () => {
+    try {
+      const purged = await purgeDueAccounts();
+      if (purged > 0) logger.info("Purged deleted accounts", { purged });
+    } catch (error) {
+      logger.error("Account purge failed", { error });
+    }
+  };
+
+  const timer = setInterval(run, getAccountDeletionSettings().purgeIntervalMs);
+  // don't keep the process alive just for the purge job
+  timer.unref();
+  return timer;
+};
@@ -0,0 +1,34 @@
+// promoting the first admin, used by the promote-admin script and BOOTSTRAP_ADMIN_EMAIL on server start
+import User from "../models/User.js";
+import type { IUser } from "../models/User.js";
+import { logger } from "./logger.js";
+
+// give the user with this email the admin role, returns null if there is no such user
+// the user's current tokens keep their old roles until the next refresh
+export const promoteToAdmin = async (email: string): Promise<IUser | null> => {
+  return User.findOneAndUpdate(
+    { email: email.trim() },
+    { $addToSet: { roles: "admin" } },
+    { new: true },
+  );
+};
+
+// on server start, promote the account named by BOOTSTRAP_ADMIN_EMAIL, but only while there are no admins yet
+// once an admin exists the variable does nothing, so leaving it set can't be used to take over another account later
+export const bootstrapAdmin = async (): Promise<void> => {
+  const email = process.env.BOOTSTRAP_ADMIN_EMAIL;
+  if (!email) return;
+
+  if (await User.exists({ roles: "admin" })) return;
+
+  const user = await promoteToAdmin(email);
+  if (user) {
+    logger.info("Promoted the bootstrap admin (BOOTSTRAP_ADMIN_EMAIL)", {
+      email: user.email,
+    });
+  } else {
+    logger.warn(
+      `BOOTSTRAP_ADMIN_EMAIL is set but no user with email ${email} exists, register the account and restart the server`,
+    );
+  }
+};
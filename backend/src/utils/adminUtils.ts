@@ -0,0 +1,29 @@
+// utility functions for the admin user-management API, used in adminController
+import type { IUser } from "../models/User.js";
+import type { AdminUserResponse } from "../types/index.js";
+import { formatUserWithoutPassword } from "./tokenUtils.js";
+
+// the sort orders the admin user list accepts, "-" means descending
+export const ADMIN_USER_SORTS = [
+  "createdAt",
+  "-createdAt",
+  "name",
+  "-name",
+  "email",
+  "-email",
+] as const;
+
+// escape a search term so it is matched literally inside a regular expression
+export const escapeRegExp = (value: string): string =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// utility to format a user for the admin API, the normal user response plus the account status
+export const formatAdminUser = (user: IUser): AdminUserResponse => {
+  return {
+    ...formatUserWithoutPassword(user),
+    disabledAt: user.disabledAt,
+    disabledReason: user.disabledReason,
+    passwordResetRequired: user.passwordResetRequired,
+    deletionScheduledFor: user.deletionScheduledFor,
+  };
+};
@@ -0,0 +1,97 @@
+// stores for failed login attempt counters, used by utils/bruteForceProtection.ts
+// every store implements the same AttemptStore interface, pick one with LOGIN_ATTEMPT_STORE (see config/bruteForceConfig.ts)
+import LoginAttempt from "../models/LoginAttempt.js";
+
+// the counter for one key, e.g. "account:user@example.com" or "ip:203.0.113.7"
+export interface AttemptRecord {
+  failures: number;
+  lockedUntil: Date | null;
+}
+
+// anything that can keep failed attempt counters
+export interface AttemptStore {
+  get(key: string): Promise<AttemptRecord | null>;
+  // add a failure and return the new count, the counter is forgotten ttlMs after the last failure
+  increment(key: string, ttlMs: number): Promise<number>;
+  lock(key: string, until: Date): Promise<void>;
+  reset(key: string): Promise<void>;
+}
+
+// in-memory store, fine for a single server process and tests, counters are lost on restart
+export const createMemoryAttemptStore = (): AttemptStore => {
+  const records = new Map<string, AttemptRecord & { expiresAt: number }>();
+
+  // drop the record if it expired, like the TTL index does for the Mongo store
+  const getLive = (key: string) => {
+    const record = records.get(key);
+    if (record && record.expiresAt <= Date.now()) {
+      records.delete(key);
+      return undefined;
+    }
+    return record;
+  };
+
+  return {
+    async get(key) {
+      const record = getLive(key);
+      return record
+        ? { failures: record.failures, lockedUntil: record.lockedUntil }
+        : null;
+    },
+    async increment(key, ttlMs) {
+      const record = getLive(key) ?? { failures: 0, lockedUntil: null };
+      const failures = record.failures + 1;
+      records.set(key, { ...record, failures, expiresAt: Date.now() + ttlMs });
+      return failures;
+    },
+    async lock(key, until) {
+      const record = getLive(key);
+      if (record) {
+        record.lockedUntil = until;
+        record.expiresAt = Math.max(record.expiresAt, until.getTime());
+      }
+    },
+    async reset(key) {
+      records.delete(key);
+    },
+  };
+};
+
+// MongoDB store, shared by every server process so an attacker can't spread attempts across them
+export const createMongoAttemptStore = (): AttemptStore => {
+  return {
+    async get(key) {
+      const record = await LoginAttempt.findOne({
+        key,
+        expiresAt: { $gt: new Date() },
+      });
+      return record
+        ? { failures: record.failures, lockedUntil: record.lockedUntil }
+        : null;
+    },
+    async increment(key, ttlMs) {
+      const now = Date.now();
+      // restart the count if the old record expired but the TTL monitor (runs every 60 seconds) hasn't deleted it yet
+      await LoginAttempt.deleteOne({ key, expiresAt: { $lte: new Date(now) } });
+      // $inc is atomic, so parallel failed logins can't overwrite each other's counts
+      const record = await LoginAttempt.findOneAndUpdate(
+        { key },
+        {
+          $inc: { failures: 1 },
+          $max: { expiresAt: new Date(now + ttlMs) },
+        },
+        { upsert: true, new: true },
+      );
+      return record.failures;
+    },
+    async lock(key, until) {
+      await LoginAttempt.updateOne(
+        { key },
+        { $set: { lockedUntil: until }, $max: { expiresAt: until } },
+      );
+    },
+    async reset(key) {
+      await LoginAttempt.deleteOne({ key });
+    },
+  };
+};
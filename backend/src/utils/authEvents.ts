@@ -0,0 +1,114 @@
+// security audit log: recording auth events and formatting them for the activity list and the admin endpoint
+import type { Request } from "express";
+import type { QueryFilter, Types } from "mongoose";
+import AuthEvent from "../models/AuthEvent.js";
+import type {
+  IAuthEvent,
+  AuthEventType,
+  AuthEventOutcome,
+} from "../models/AuthEvent.js";
+import type { AuthEventResponse } from "../types/index.js";
+import { getAuditSettings } from "../config/auditConfig.js";
+import { logger } from "./logger.js";
+
+// what a controller knows about an event, the request supplies the IP and user agent
+export interface AuthEventInput {
+  type: AuthEventType;
+  outcome: AuthEventOutcome;
+  user?: { _id: Types.ObjectId | string; email: string } | null; // the account, when we know it
+  email?: string | null; // the email that was tried, defaults to the user's email
+  reason?: string; // why it failed, kebab-case so it's easy to filter on
+  method?: "password" | "two-factor" | "passkey" | "oauth" | "magic-link";
+}
+
+// record an auth event, call it from the controller once the outcome is known
+// a failure to write the audit log is logged but never fails the request, losing a login is worse than losing its audit entry
+export const recordAuthEvent = async (
+  req: Request,
+  event: AuthEventInput,
+): Promise<void> => {
+  try {
+    await AuthEvent.create({
+      user: event.user?._id ?? null,
+      email: event.email ?? event.user?.email ?? null,
+      type: event.type,
+      outcome: event.outcome,
+      reason: event.reason ?? null,
+      method: event.method ?? null,
+      ip: req.ip || "",
+      userAgent: req.get("user-agent") || "",
+      expiresAt: new Date(Date.now() + getAuditSettings().retentionMs),
+    });
+  } catch (error) {
+    logger.error("Failed to record auth event", {
+      type: event.type,
+      outcome: event.outcome,
+      error,
+    });
+  }
+};
+
+// utility to format an event for API responses
+export const formatAuthEvent = (event: IAuthEvent): AuthEventResponse => ({
+  _id: event._id.toString(),
+  user: event.user ? event.user.toString() : null,
+  email: event.email,
+  type: event.type,
+  outcome: event.outcome,
+  reason: event.reason,
+  method: event.method,
+  ip: event.ip,
+  userAgent: event.userAgent,
+  createdAt: event.createdAt,
+});
+
+// the columns of the CSV export, in order
+export const AUTH_EVENT_CSV_COLUMNS = [
+  "_id",
+  "createdAt",
+  "type",
+  "outcome",
+  "reason",
+  "method",
+  "user",
+  "email",
+  "ip",
+  "userAgent",
+] as const;
+
+// quote a CSV field when it needs it (RFC 4180), and stop spreadsheet apps running values that look like formulas
+const escapeCsvField = (value: unknown): string => {
+  if (value === null || value === undefined) return "";
+  let text = value instanceof Date ? value.toISOString() : String(value);
+  if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// one line of the CSV export, including the line break
+export const toCsvRow = (values: readonly unknown[]): string =>
+  `${values.map(escapeCsvField).join(",")}\r\n`;
+
+// a formatted event as a CSV line, in the order of AUTH_EVENT_CSV_COLUMNS
+export const authEventToCsvRow = (event: AuthEventResponse): string =>
+  toCsvRow(AUTH_EVENT_CSV_COLUMNS.map((column) => event[column]));
+
+// one page of events, newest first, the cursor is the id of the last event on the previous page
+// fetches one extra event to know whether there's another page without counting
+export const findAuthEventPage = async (
+  filter: QueryFilter<IAuthEvent>,
+  limit: number,
+  cursor?: string,
+): Promise<{ events: AuthEventResponse[]; nextCursor: string | null }> => {
+  const events = await AuthEvent.find(
+    cursor ? { ...filter, _id: { $lt: cursor } } : filter,
+  )
+    .sort({ _id: -1 })
+    .limit(limit + 1);
+
+  const page = events.slice(0, limit);
+  const last = page[page.length - 1];
+  return {
+    events: page.map(formatAuthEvent),
+    nextCursor: events.length > limit && last ? last._id.toString() : null,
+  };
+};
@@ -0,0 +1,130 @@
+// processing and storing uploaded avatars, used in avatarController
+import sharp from "sharp";
+import { AVATAR_SIZES, getAvatarStorage } from "../config/avatarConfig.js";
+import type { AvatarSize } from "../config/avatarConfig.js";
+import { registerUserDataCleanup } from "./userDataRegistry.js";
+
+// image types we accept, anything else is rejected before it reaches the image decoder
+export type AvatarImageType =
+  | "image/jpeg"
+  | "image/png"
+  | "image/webp"
+  | "image/gif";
+
+// refuse images with more pixels than this, a small file can still decode to a huge image (a "decompression bomb")
+const MAX_INPUT_PIXELS = 40_000_000;
+
+// work out the image type from the file's first bytes ("magic bytes"), never trust the filename or the Content-Type the browser sent
+export const detectImageType = (buffer: Buffer): AvatarImageType | null => {
+  if (buffer.length < 12) return null;
+  if (buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) {
+    return "image/jpeg";
+  }
+  if (
+    buffer
+      .subarray(0, 8)
+      .equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))
+  ) {
+    return "image/png";
+  }
+  if (
+    buffer.toString("latin1", 0, 4) === "RIFF" &&
+    buffer.toString("latin1", 8, 12) === "WEBP"
+  ) {
+    return "image/webp";
+  }
+  const gifHeader = buffer.toString("latin1", 0, 6);
+  if (gifHeader === "GIF87a" || gifHeader === "GIF89a") {
+    return "image/gif";
+  }
+  return null;
+};
+
+// the square to cut out of the image, in pixels of the image as it's displayed (after EXIF rotation)
+export interface AvatarCrop {
+  x: number;
+  y: number;
+  size: number;
+}
+
+// turn an uploaded image into a square WebP in every avatar size
+// without a crop the largest centered square is used, a crop that goes past the edges is moved back inside the image
+// the output has no metadata, sharp drops EXIF (GPS position, camera details, etc.) unless asked to keep it
+// throws if the image can't be decoded
+export const resizeAvatar = async (
+  buffer: Buffer,
+  crop?: AvatarCrop,
+): Promise<Map<AvatarSize, Buffer>> => {
+  // autoOrient applies the EXIF rotation first, so the crop matches what the user saw
+  const image = sharp(buffer, {
+    limitInputPixels: MAX_INPUT_PIXELS,
+    failOn: "error",
+  }).autoOrient();
+  const { autoOrient } = await image.metadata();
+  const { width, height } = autoOrient;
+
+  const size = Math.min(crop?.size ?? Infinity, width, height);
+  const clamp = (value: number, max: number) =>
+    Math.min(Math.max(value, 0), max);
+  const left = crop
+    ? clamp(crop.x, width - size)
+    : Math.floor((width - size) / 2);
+  const top = crop
+    ? clamp(crop.y, height - size)
+    : Math.floor((height - size) / 2);
+  const square = image.extract({ left, top, width: size, height: size });
+
+  const images = new Map<AvatarSize, Buffer>();
+  for (const avatarSize of AVATAR_SIZES) {
+    images.set(
+      avatarSize,
+      await square
+        .clone()
+        .resize(avatarSize, avatarSize)
+        .webp({ quality: 85 })
+        .toBuffer(),
+    );
+  }
+  return images;
+};
+
+// storage key of one size of an avatar
+export const getAvatarKey = (
+  userId: string,
+  avatarId: string,
+  size: AvatarSize,
+) => `avatars/${userId}/${avatarId}/${size}.webp`;
+
+// store every size of a processed avatar
+export const saveAvatarImages = async (
+  userId: string,
+  avatarId: string,
+  images: Map<AvatarSize, Buffer>,
+): Promise<void> => {
+  const storage = getAvatarStorage();
+  for (const [size, image] of images) {
+    await storage.put(
+      getAvatarKey(userId, avatarId, size),
+      image,
+      "image/webp",
+    );
+  }
+};
+
+// delete every size of an avatar, e.g. after it's replaced or removed
+export const deleteAvatarImages = async (
+  userId: string,
+  avatarId: string,
+): Promise<void> => {
+  const storage = getAvatarStorage();
+  for (const size of AVATAR_SIZES) {
+    await storage.delete(getAvatarKey(userId, avatarId, size));
+  }
+};
+
+// delete the avatar when the account is purged
+registerUserDataCleanup("avatar", async (user) => {
+  if (user.avatarId) {
+    await deleteAvatarImages(user._id.toString(), user.avatarId);
+  }
+});
@@ -0,0 +1,88 @@
+// sources of leaked password hashes for the breach check in utils/passwordScreening.ts, see config/passwordConfig.ts
+// every source answers k-anonymity range queries: we only ever hand over the first 5 characters of the password's
+// SHA-1 hash, and get back every leaked hash starting with them, so the password itself never leaves the server
+import { createHash } from "node:crypto";
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+
+// anything that can list the leaked hashes in a range
+export interface PasswordRangeSource {
+  // lines of "SUFFIX:COUNT" for every leaked SHA-1 hash starting with the prefix (5 uppercase hex characters)
+  getRange(prefix: string): Promise<string>;
+}
+
+// uppercase hex SHA-1 of a password, the format the range datasets use
+const sha1Hex = (password: string) =>
+  createHash("sha1").update(password).digest("hex").toUpperCase();
+
+// the Pwned Passwords range API, or a mirror of it, e.g. https://api.pwnedpasswords.com/range
+// a lookup that takes longer than timeoutMs is aborted, so a hanging API can't hold up registrations and password changes
+export const createHttpRangeSource = (
+  baseUrl: string,
+  timeoutMs: number,
+): PasswordRangeSource => ({
+  async getRange(prefix) {
+    // padding adds fake entries with a count of 0, so the response size doesn't give the range away
+    const response = await fetch(`${baseUrl.replace(/\/$/, "")}/${prefix}`, {
+      headers: { "Add-Padding": "true" },
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+    if (!response.ok) {
+      throw new Error(`Password range lookup failed: ${response.status}`);
+    }
+    return response.text();
+  },
+});
+
+// an offline copy of the dataset on local disk, one "<prefix>.txt" file per range (the layout the official downloader writes)
+export const createFileRangeSource = (dir: string): PasswordRangeSource => ({
+  async getRange(prefix) {
+    // the prefix is checked so a bad value can never point outside the directory
+    if (!/^[0-9A-F]{5}$/.test(prefix)) {
+      throw new Error(`Invalid password range prefix: ${prefix}`);
+    }
+    try {
+      return await readFile(path.join(dir, `${prefix}.txt`), "utf8");
+    } catch (error) {
+      // a missing file means no leaked hashes in that range
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return "";
+      throw error;
+    }
+  },
+});
+
+// in-memory source built from a list of plain text passwords, used in tests
+export const createMemoryRangeSource = (
+  passwords: string[],
+): PasswordRangeSource => {
+  const ranges = new Map<string, string[]>();
+  for (const password of passwords) {
+    const hash = sha1Hex(password);
+    const lines = ranges.get(hash.slice(0, 5)) ?? [];
+    lines.push(`${hash.slice(5)}:1`);
+    ranges.set(hash.slice(0, 5), lines);
+  }
+  return {
+    async getRange(prefix) {
+      return (ranges.get(prefix) ?? []).join("\r\n");
+    },
+  };
+};
+
+// how many times a password appears in the source's leaks, 0 when it was never leaked
+export const getBreachCount = async (
+  password: string,
+  source: PasswordRangeSource,
+): Promise<number> => {
+  const hash = sha1Hex(password);
+  const suffix = hash.slice(5);
+  const range = await source.getRange(hash.slice(0, 5));
+
+  for (const line of range.split(/\r?\n/)) {
+    const [lineSuffix, count] = line.trim().split(":");
+    if (lineSuffix?.toUpperCase() === suffix) {
+      return parseInt(count ?? "", 10) || 0;
+    }
+  }
+  return 0;
+};
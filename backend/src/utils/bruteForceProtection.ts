@@ -0,0 +1,97 @@
+// failed login tracking with exponential backoff lockouts, used by loginUser and the two-factor login step
+import { getPasswordHasher } from "../config/passwordConfig.js";
+import { verifyPasswordHash } from "./passwordHasher.js";
+import type { Request, Response } from "express";
+import {
+  getAttemptStore,
+  getBruteForceSettings,
+} from "../config/bruteForceConfig.js";
+
+// the counters to check for a login: one for the account (by email) and one for the client's IP address
+export interface LoginThrottleKeys {
+  account: string;
+  ip: string;
+}
+
+// build the counter keys for a login attempt, emails are compared case-insensitively so "A@x.com" can't dodge the limit
+export const getLoginThrottleKeys = (
+  req: Request,
+  email: string,
+): LoginThrottleKeys => ({
+  account: `account:${email.trim().toLowerCase()}`,
+  ip: `ip:${req.ip || "unknown"}`,
+});
+
+// how long a lockout lasts after this many failures: base, then doubled for every failure past the threshold, capped
+export const getLockoutSeconds = (failures: number, threshold: number) => {
+  const { lockoutBaseSeconds, lockoutMaxSeconds } = getBruteForceSettings();
+  if (failures < threshold) return 0;
+  return Math.min(
+    lockoutBaseSeconds * 2 ** (failures - threshold),
+    lockoutMaxSeconds,
+  );
+};
+
+// seconds until both the account and IP are allowed to try again, 0 if neither is locked
+export const getLockoutRemainingSeconds = async (
+  keys: LoginThrottleKeys,
+): Promise<number> => {
+  const store = getAttemptStore();
+  const records = await Promise.all([
+    store.get(keys.account),
+    store.get(keys.ip),
+  ]);
+  const now = Date.now();
+  const remaining = records.map((record) =>
+    record?.lockedUntil ? record.lockedUntil.getTime() - now : 0,
+  );
+  return Math.max(0, Math.ceil(Math.max(...remaining) / 1000));
+};
+
+// count a failed login against the account and IP, locking whichever one reached its limit
+export const recordLoginFailure = async (keys: LoginThrottleKeys) => {
+  const store = getAttemptStore();
+  const settings = getBruteForceSettings();
+  const ttlMs = settings.attemptWindowSeconds * 1000;
+
+  const limits: [string, number][] = [
+    [keys.account, settings.maxFailuresPerAccount],
+    [keys.ip, settings.maxFailuresPerIp],
+  ];
+  for (const [key, threshold] of limits) {
+    const failures = await store.increment(key, ttlMs);
+    const lockoutSeconds = getLockoutSeconds(failures, threshold);
+    if (lockoutSeconds > 0) {
+      await store.lock(key, new Date(Date.now() + lockoutSeconds * 1000));
+    }
+  }
+};
+
+// clear the counters after a successful login
+export const resetLoginFailures = async (keys: LoginThrottleKeys) => {
+  const store = getAttemptStore();
+  await Promise.all([store.reset(keys.account), store.reset(keys.ip)]);
+};
+
+// send the 429 response for a locked account or IP, Retry-After tells the client how many seconds to wait
+export const sendLockoutResponse = (res: Response, retryAfter: number) => {
+  res.set("Retry-After", String(retryAfter));
+  res.status(429).json({
+    message: "Too many failed login attempts. Please try again later.",
+    retryAfter,
+  });
+};
+
+// hash to compare against when the email doesn't exist, created once on first use
+let dummyHash: Promise<string> | null = null;
+
+// run a password check that always fails, so logging in with an unknown email takes as long as a wrong password
+// without this, the faster response for unknown emails reveals which accounts exist
+// the dummy hash is made with the configured hasher, so it costs the same as checking a real user's hash
+export const compareWithDummyHash = async (password: string) => {
+  if (!dummyHash) {
+    dummyHash = getPasswordHasher().hash("dummy-password-for-timing");
+  }
+  await verifyPasswordHash(password, await dummyHash);
+  return false;
+};
@@ -0,0 +1,208 @@
+// building and delivering personal data exports ("download my data"), used by accountController
+import DataExport from "../models/DataExport.js";
+import type { IDataExport } from "../models/DataExport.js";
+import User from "../models/User.js";
+import type { IUser } from "../models/User.js";
+import type { DataExportResponse } from "../types/index.js";
+import { createZipArchive } from "./zipArchive.js";
+import {
+  collectUserDataExports,
+  registerUserDataCleanup,
+} from "./userDataRegistry.js";
+import {
+  formatUserWithoutPassword,
+  generateDataExportToken,
+} from "./tokenUtils.js";
+import {
+  getDataExportSettings,
+  getDataExportStorage,
+} from "../config/dataExportConfig.js";
+import { getBackendUrl } from "../config/oauthConfig.js";
+import { sendDataExportEmail } from "../config/emailConfig.js";
+import { logger } from "./logger.js";
+
+// build the ZIP: the profile, one JSON file per module that registered an exporter, and a manifest listing them
+export const buildUserDataArchive = async (user: IUser): Promise<Buffer> => {
+  const generatedAt = new Date();
+  const data: Record<string, unknown> = {
+    profile: formatUserWithoutPassword(user),
+    ...(await collectUserDataExports(user)),
+  };
+
+  const files = Object.entries(data).map(([name, content]) => ({
+    name: `${name}.json`,
+    content: JSON.stringify(content, null, 2),
+  }));
+  const manifest = {
+    userId: user._id.toString(),
+    generatedAt,
+    files: files.map((file) => file.name),
+  };
+
+  return createZipArchive(
+    [
+      { name: "manifest.json", content: JSON.stringify(manifest, null, 2) },
+      ...files,
+    ],
+    generatedAt,
+  );
+};
+
+// where an export's archive is kept in the data export storage
+const getArchiveKey = (dataExport: IDataExport) =>
+  `exports/${dataExport.user.toString()}/${dataExport._id.toString()}.zip`;
+
+// the signed download link for a finished export, it works without logging in until the export expires
+export const getDataExportDownloadUrl = (dataExport: IDataExport): string => {
+  const exportId = dataExport._id.toString();
+  const token = generateDataExportToken(
+    dataExport.user.toString(),
+    exportId,
+    dataExport.expiresAt.getTime() - Date.now(),
+  );
+  return `${getBackendUrl()}/api/auth/exports/${exportId}/download?token=${encodeURIComponent(token)}`;
+};
+
+// utility to format an export for API responses
+export const formatDataExport = (
+  dataExport: IDataExport,
+): DataExportResponse => ({
+  _id: dataExport._id.toString(),
+  status: dataExport.status,
+  size: dataExport.size,
+  createdAt: dataExport.createdAt,
+  completedAt: dataExport.completedAt,
+  expiresAt: dataExport.expiresAt,
+  downloadUrl:
+    dataExport.status === "ready" ? getDataExportDownloadUrl(dataExport) : null,
+});
+
+// build a pending export and email the user the download link
+// errors building the archive mark the export as failed, so the Profile page can offer to try again
+export const runDataExport = async (exportId: string): Promise<void> => {
+  const dataExport = await DataExport.findById(exportId);
+  if (!dataExport || dataExport.status !== "pending") return;
+
+  const user = await User.findById(dataExport.user);
+  if (!user) {
+    dataExport.status = "failed";
+    await dataExport.save();
+    return;
+  }
+
+  try {
+    const archive = await buildUserDataArchive(user);
+    // the archive goes to file storage, a big account's data wouldn't fit in a MongoDB document (16 MB at most)
+    const storageKey = getArchiveKey(dataExport);
+    await getDataExportStorage().put(storageKey, archive, "application/zip");
+    const now = new Date();
+    dataExport.status = "ready";
+    dataExport.storageKey = storageKey;
+    dataExport.size = archive.length;
+    dataExport.completedAt = now;
+    // the download window starts when the archive is ready, not when it was requested
+    dataExport.expiresAt = new Date(
+      now.getTime() + getDataExportSettings().downloadTtlMs,
+    );
+    await dataExport.save();
+  } catch (error) {
+    logger.error("Failed to build data export", { exportId, error });
+    dataExport.status = "failed";
+    await dataExport.save();
+    return;
+  }
+
+  await sendDataExportEmail(
+    user.email,
+    getDataExportDownloadUrl(dataExport),
+    dataExport.expiresAt,
+  );
+};
+
+// start an export for the user, or return the one that's already being built
+// the archive is built in the background so the request returns straight away, the user is emailed when it's ready
+export const startDataExport = async (user: IUser): Promise<IDataExport> => {
+  // an export that has been pending for too long was interrupted (e.g. by a restart) and will never finish,
+  // give up on it so it doesn't block a new one
+  await DataExport.updateMany(
+    {
+      user: user._id,
+      status: "pending",
+      createdAt: {
+        $lte: new Date(Date.now() - getDataExportSettings().staleAfterMs),
+      },
+    },
+    { status: "failed" },
+  );
+
+  const pending = await DataExport.findOne({
+    user: user._id,
+    status: "pending",
+  });
+  if (pending) return pending;
+
+  const dataExport = await DataExport.create({
+    user: user._id,
+    // a pending export that never finishes is cleaned up like an expired one
+    expiresAt: new Date(Date.now() + getDataExportSettings().downloadTtlMs),
+  });
+
+  const exportId = dataExport._id.toString();
+  setImmediate(() => {
+    runDataExport(exportId).catch((error) => {
+      logger.error("Data export failed", { exportId, error });
+    });
+  });
+
+  return dataExport;
+};
+
+// get the ZIP of a ready export from storage, null if it's gone
+export const getDataExportArchive = async (
+  dataExport: IDataExport,
+): Promise<Buffer | null> => {
+  if (!dataExport.storageKey) return null;
+  const file = await getDataExportStorage().get(dataExport.storageKey);
+  return file ? file.body : null;
+};
+
+// delete exports and their archives, the archive first so a failed delete leaves the document to retry with
+const deleteDataExports = async (dataExports: IDataExport[]) => {
+  for (const dataExport of dataExports) {
+    if (dataExport.storageKey) {
+      await getDataExportStorage().delete(dataExport.storageKey);
+    }
+    await DataExport.deleteOne({ _id: dataExport._id });
+  }
+};
+
+// delete every export whose download link has expired, returns how many were deleted
+export const purgeExpiredDataExports = async (
+  now: Date = new Date(),
+): Promise<number> => {
+  const expired = await DataExport.find({ expiresAt: { $lte: now } });
+  await deleteDataExports(expired);
+  return expired.length;
+};
+
+// run purgeExpiredDataExports() on an interval while the server is up, call once after connecting to the database
+export const startDataExportCleanupSchedule = (): NodeJS.Timeout => {
+  const run = async () => {
+    try {
+      const deleted = await purgeExpiredDataExports();
+      if (deleted > 0) logger.info("Deleted expired data exports", { deleted });
+    } catch (error) {
+      logger.error("Data export cleanup failed", { error });
+    }
+  };
+
+  const timer = setInterval(run, getDataExportSettings().cleanupIntervalMs);
+  // don't keep the process alive just for the cleanup job
+  timer.unref();
+  return timer;
+};
+
+// delete the user's exports and their archives when their account is purged
+registerUserDataCleanup("data-exports", async (user) => {
+  await deleteDataExports(await DataExport.find({ user: user._id }));
+});
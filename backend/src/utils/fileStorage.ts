@@ -0,0 +1,239 @@
+// file storage backends used by config/avatarConfig.ts to keep uploaded images, and for data export archives
+// every storage implements the same FileStorage interface, so the rest of the app never knows where files live
+import { createHash, createHmac } from "node:crypto";
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+// a stored file and its MIME type
+export interface StoredFile {
+  body: Buffer;
+  contentType: string;
+}
+
+// anything that can store files by key, keys look like paths, e.g. "avatars/<user id>/<avatar id>/128.webp"
+export interface FileStorage {
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<StoredFile | null>; // null when there is no file with that key
+  delete(key: string): Promise<void>; // deleting a missing file is not an error
+}
+
+// in-memory storage also exposes the files it holds, so tests can check what was stored
+export interface MemoryFileStorage extends FileStorage {
+  files: Map<string, StoredFile>;
+}
+
+// the local storage doesn't keep the MIME type, so work it out from the file extension
+const CONTENT_TYPES: Record<string, string> = {
+  ".webp": "image/webp",
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".gif": "image/gif",
+  ".zip": "application/zip",
+};
+
+// local disk storage, keeps each file under the root directory, fine for a single server
+export const createLocalFileStorage = (root: string): FileStorage => {
+  // resolve a key to a path, refusing keys that would end up outside the root (e.g. "../../etc/passwd")
+  const resolveKey = (key: string) => {
+    const filePath = path.resolve(root, key);
+    if (!filePath.startsWith(path.resolve(root) + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  };
+
+  return {
+    async put(key, body) {
+      const filePath = resolveKey(key);
+      await mkdir(path.dirname(filePath), { recursive: true });
+      await writeFile(filePath, body);
+    },
+    async get(key) {
+      try {
+        const body = await readFile(resolveKey(key));
+        const contentType =
+          CONTENT_TYPES[path.extname(key)] ?? "application/octet-stream";
+        return { body, contentType };
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+        throw error;
+      }
+    },
+    async delete(key) {
+      await rm(resolveKey(key), { force: true });
+    },
+  };
+};
+
+// options for the S3 storage, works with AWS S3 and S3-compatible services (MinIO, Cloudflare R2, etc.)
+export interface S3StorageOptions {
+  endpoint: string; // e.g. https://s3.eu-west-2.amazonaws.com or http://localhost:9000 for MinIO
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+}
+
+// a request to sign with AWS Signature Version 4
+export interface AwsSignatureRequest {
+  method: string;
+  url: URL;
+  headers: Record<string, string>; // lowercase names, every header here is signed, host is added automatically
+  payloadHash: string; // hex SHA-256 of the body
+  region: string;
+  service: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  date: Date;
+}
+
+const sha256Hex = (data: string | Buffer) =>
+  createHash("sha256").update(data).digest("hex");
+
+const hmac = (key: string | Buffer, data: string) =>
+  createHmac("sha256", key).update(data).digest();
+
+// sign a request with AWS Signature Version 4, returns the headers to send (including Authorization)
+// implemented with node:crypto so we don't need the AWS SDK for three simple calls
+export const signAwsRequest = (
+  request: AwsSignatureRequest,
+): Record<string, string> => {
+  // e.g. 20130524T000000Z and 20130524
+  const amzDate = request.date.toISOString().replace(/[:-]|\.\d{3}/g, "");
+  const dateStamp = amzDate.slice(0, 8);
+
+  const headers: Record<string, string> = {
+    ...request.headers,
+    host: request.url.host,
+    "x-amz-date": amzDate,
+  };
+  const signedHeaderNames = Object.keys(headers).sort();
+  const canonicalHeaders = signedHeaderNames
+    .map((name) => `${name}:${headers[name]!.trim()}\n`)
+    .join("");
+  const signedHeaders = signedHeaderNames.join(";");
+
+  // query parameters sorted by name, we never send any but keep the signature correct if we do
+  const canonicalQuery = [...request.url.searchParams]
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(
+      ([name, value]) =>
+        `${encodeURIComponent(name)}=${encodeURIComponent(value)}`,
+    )
+    .join("&");
+
+  const canonicalRequest = [
+    request.method,
+    request.url.pathname,
+    canonicalQuery,
+    canonicalHeaders,
+    signedHeaders,
+    request.payloadHash,
+  ].join("\n");
+
+  const scope = `${dateStamp}/${request.region}/${request.service}/aws4_request`;
+  const stringToSign = [
+    "AWS4-HMAC-SHA256",
+    amzDate,
+    scope,
+    sha256Hex(canonicalRequest),
+  ].join("\n");
+
+  // the signing key is derived from the secret, date, region and service
+  const signingKey = hmac(
+    hmac(
+      hmac(hmac(`AWS4${request.secretAccessKey}`, dateStamp), request.region),
+      request.service,
+    ),
+    "aws4_request",
+  );
+  const signature = createHmac("sha256", signingKey)
+    .update(stringToSign)
+    .digest("hex");
+
+  return {
+    ...headers,
+    authorization: `AWS4-HMAC-SHA256 Credential=${request.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+  };
+};
+
+// S3 storage, keeps each file as an object in the bucket, use it when running more than one server
+// uses path-style URLs (endpoint/bucket/key) because every S3-compatible service supports them
+export const createS3FileStorage = (options: S3StorageOptions): FileStorage => {
+  const send = async (
+    method: "PUT" | "GET" | "DELETE",
+    key: string,
+    body?: Buffer,
+    contentType?: string,
+  ) => {
+    const url = new URL(
+      `${options.endpoint.replace(/\/$/, "")}/${options.bucket}/${key.split("/").map(encodeURIComponent).join("/")}`,
+    );
+    const payloadHash = sha256Hex(body ?? "");
+    const headers = signAwsRequest({
+      method,
+      url,
+      headers: {
+        "x-amz-content-sha256": payloadHash,
+        ...(contentType && { "content-type": contentType }),
+      },
+      payloadHash,
+      region: options.region,
+      service: "s3",
+      accessKeyId: options.accessKeyId,
+      secretAccessKey: options.secretAccessKey,
+      date: new Date(),
+    });
+    // fetch sets the host header itself from the URL
+    delete headers.host;
+    return fetch(url, {
+      method,
+      headers,
+      ...(body && { body: new Uint8Array(body) }),
+    });
+  };
+
+  return {
+    async put(key, body, contentType) {
+      const response = await send("PUT", key, body, contentType);
+      if (!response.ok) {
+        throw new Error(`S3 upload of ${key} failed: ${response.status}`);
+      }
+    },
+    async get(key) {
+      const response = await send("GET", key);
+      if (response.status === 404) return null;
+      if (!response.ok) {
+        throw new Error(`S3 download of ${key} failed: ${response.status}`);
+      }
+      return {
+        body: Buffer.from(await response.arrayBuffer()),
+        contentType:
+          response.headers.get("content-type") ?? "application/octet-stream",
+      };
+    },
+    async delete(key) {
+      const response = await send("DELETE", key);
+      if (!response.ok && response.status !== 404) {
+        throw new Error(`S3 delete of ${key} failed: ${response.status}`);
+      }
+    },
+  };
+};
+
+// in-memory storage, keeps every file in a Map, used in tests
+export const createMemoryFileStorage = (): MemoryFileStorage => {
+  const files = new Map<string, StoredFile>();
+  return {
+    files,
+    async put(key, body, contentType) {
+      files.set(key, { body, contentType });
+    },
+    async get(key) {
+      return files.get(key) ?? null;
+    },
+    async delete(key) {
+      files.delete(key);
+    },
+  };
+};
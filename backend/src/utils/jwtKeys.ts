@@ -0,0 +1,114 @@
+// signing keys for access and refresh tokens, see config/jwtConfig.ts for where they come from
+// tokens are signed with one key but can be checked against several, so keys can be rotated without logging everyone out:
+// publish the new key as a verification key first, switch signing to it, then drop the old one once its tokens have expired
+import { createHash, createPublicKey, generateKeyPairSync } from "node:crypto";
+import type { KeyObject, webcrypto } from "node:crypto";
+
+export const JWT_ALGORITHMS = ["RS256", "EdDSA"] as const;
+export type JwtAlgorithm = (typeof JWT_ALGORITHMS)[number];
+
+// a public key tokens can be verified with, the kid in a token's header says which one
+export interface JwtKey {
+  kid: string;
+  alg: JwtAlgorithm;
+  publicKey: KeyObject;
+}
+
+export interface JwtSigningKey extends JwtKey {
+  privateKey: KeyObject;
+}
+
+// a public key as published in the JWKS
+export interface PublicJwk extends webcrypto.JsonWebKey {
+  kid: string;
+  alg: JwtAlgorithm;
+  use: "sig";
+}
+
+export interface KeyManager {
+  signingKey: JwtSigningKey;
+  // the signing key or one of the verification keys, null for a kid we don't know
+  getKey(kid: string): JwtKey | null;
+  // every key in JWK Set format, for /.well-known/jwks.json
+  getJwks(): { keys: PublicJwk[] };
+}
+
+// each key type signs with exactly one algorithm, a token claiming any other is rejected
+const getAlgorithm = (publicKey: KeyObject): JwtAlgorithm => {
+  if (publicKey.asymmetricKeyType === "rsa") {
+    if ((publicKey.asymmetricKeyDetails?.modulusLength ?? 0) < 2048) {
+      throw new Error("RSA JWT keys must be at least 2048 bits");
+    }
+    return "RS256";
+  }
+  if (publicKey.asymmetricKeyType === "ed25519") return "EdDSA";
+  throw new Error(
+    `Unsupported JWT key type: ${publicKey.asymmetricKeyType ?? "unknown"}`,
+  );
+};
+
+// the key id is the RFC 7638 thumbprint of the public key, so a key always gets the same id without anyone assigning one
+export const getKeyId = (publicKey: KeyObject): string => {
+  const jwk = publicKey.export({ format: "jwk" });
+  // only the required members, in lexicographic order
+  const members =
+    jwk.kty === "RSA"
+      ? { e: jwk.e, kty: jwk.kty, n: jwk.n }
+      : { crv: jwk.crv, kty: jwk.kty, x: jwk.x };
+  return createHash("sha256")
+    .update(JSON.stringify(members))
+    .digest("base64url");
+};
+
+const toJwtKey = (publicKey: KeyObject): JwtKey => ({
+  kid: getKeyId(publicKey),
+  alg: getAlgorithm(publicKey),
+  publicKey,
+});
+
+// build a key manager that signs with the private key and also accepts tokens signed with any of the verification keys
+// verification keys can be private or public keys, only the public part is used
+export const createKeyManager = (
+  privateKey: KeyObject,
+  verificationKeys: KeyObject[] = [],
+): KeyManager => {
+  const signingKey: JwtSigningKey = {
+    ...toJwtKey(createPublicKey(privateKey)),
+    privateKey,
+  };
+
+  const keys = new Map<string, JwtKey>();
+  for (const key of verificationKeys) {
+    const jwtKey = toJwtKey(
+      key.type === "private" ? createPublicKey(key) : key,
+    );
+    keys.set(jwtKey.kid, jwtKey);
+  }
+  keys.set(signingKey.kid, signingKey);
+
+  return {
+    signingKey,
+    getKey: (kid) => keys.get(kid) ?? null,
+    getJwks: () => ({
+      keys: [...keys.values()].map(({ kid, alg, publicKey }) => ({
+        ...publicKey.export({ format: "jwk" }),
+        kid,
+        alg,
+        use: "sig",
+      })),
+    }),
+  };
+};
+
+// split a string holding any number of PEM keys one after the other, e.g. an environment variable
+// escaped newlines are allowed because many hosts can't store multi-line values
+export const parsePemKeys = (pem: string): string[] =>
+  pem
+    .replace(/\\n/g, "\n")
+    .match(/-----BEGIN [A-Z ]+-----[\s\S]+?-----END [A-Z ]+-----/g) ?? [];
+
+// a new private key, for development and for npm run generate-jwt-key
+export const generateSigningKey = (alg: JwtAlgorithm = "EdDSA"): KeyObject =>
+  alg === "RS256"
+    ? generateKeyPairSync("rsa", { modulusLength: 2048 }).privateKey
+    : generateKeyPairSync("ed25519").privateKey;
@@ -0,0 +1,127 @@
+// signing and verifying access and refresh tokens with the keys from config/jwtConfig.ts
+// written on node:crypto because jsonwebtoken doesn't support EdDSA, and so every check a token has to pass is spelled out here
+import { sign, verify } from "node:crypto";
+import { getJwtSettings, getKeyManager } from "../config/jwtConfig.js";
+import type { JwtAlgorithm } from "./jwtKeys.js";
+
+// the registered claims every token we issue carries, next to its own claims
+export interface JwtClaims {
+  iss: string;
+  aud: string | string[];
+  iat: number;
+  exp: number;
+  nbf?: number;
+  [claim: string]: unknown;
+}
+
+export interface SignJwtOptions {
+  typ: string; // the typ header, tells token types apart so one can't be used as another
+  audience: string;
+  expiresInSeconds: number;
+}
+
+export interface VerifyJwtOptions {
+  typ: string;
+  audience: string;
+}
+
+// RS256 hashes with SHA-256 first, Ed25519 takes the message as it is
+const digestFor = (alg: JwtAlgorithm) => (alg === "RS256" ? "sha256" : null);
+
+const encodeSegment = (value: object) =>
+  Buffer.from(JSON.stringify(value)).toString("base64url");
+
+// parse a header or payload segment, anything that isn't a JSON object is an invalid token
+const decodeSegment = (segment: string): Record<string, unknown> => {
+  const value: unknown = JSON.parse(
+    Buffer.from(segment, "base64url").toString("utf8"),
+  );
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new Error("Invalid token");
+  }
+  return value as Record<string, unknown>;
+};
+
+// sign the claims with the current signing key, adding iss, aud, iat and exp
+export const signJwt = (
+  claims: Record<string, unknown>,
+  { typ, audience, expiresInSeconds }: SignJwtOptions,
+): string => {
+  const { kid, alg, privateKey } = getKeyManager().signingKey;
+  const now = Math.floor(Date.now() / 1000);
+
+  const header = encodeSegment({ alg, typ, kid });
+  const payload = encodeSegment({
+    ...claims,
+    iss: getJwtSettings().issuer,
+    aud: audience,
+    iat: now,
+    exp: now + expiresInSeconds,
+  });
+  const signature = sign(
+    digestFor(alg),
+    Buffer.from(`${header}.${payload}`),
+    privateKey,
+  );
+  return `${header}.${payload}.${signature.toString("base64url")}`;
+};
+
+// check a token's signature and claims and return its payload, throws when anything is wrong
+// the algorithm comes from our key rather than the token, so "none" or a public key used as an HMAC secret never get through
+export const verifyJwt = (
+  token: string,
+  { typ, audience }: VerifyJwtOptions,
+): JwtClaims => {
+  const [header, payload, signature, ...rest] = token.split(".");
+  if (!header || !payload || !signature || rest.length > 0) {
+    throw new Error("Invalid token");
+  }
+
+  const decodedHeader = decodeSegment(header);
+  if (decodedHeader.typ !== typ) {
+    throw new Error(`Invalid token type, expected ${typ}`);
+  }
+
+  const key =
+    typeof decodedHeader.kid === "string"
+      ? getKeyManager().getKey(decodedHeader.kid)
+      : null;
+  if (!key) {
+    throw new Error("Invalid token: unknown signing key");
+  }
+  if (decodedHeader.alg !== key.alg) {
+    throw new Error(`Invalid token algorithm, expected ${key.alg}`);
+  }
+
+  const valid = verify(
+    digestFor(key.alg),
+    Buffer.from(`${header}.${payload}`),
+    key.publicKey,
+    Buffer.from(signature, "base64url"),
+  );
+  if (!valid) {
+    throw new Error("Invalid token signature");
+  }
+
+  const claims = decodeSegment(payload);
+  const now = Math.floor(Date.now() / 1000);
+
+  if (claims.iss !== getJwtSettings().issuer) {
+    throw new Error("Invalid token issuer");
+  }
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  if (!audiences.includes(audience)) {
+    throw new Error("Invalid token audience");
+  }
+  if (typeof claims.exp !== "number" || claims.exp <= now) {
+    throw new Error("Token expired");
+  }
+  if (
+    claims.nbf !== undefined &&
+    (typeof claims.nbf !== "number" || claims.nbf > now)
+  ) {
+    throw new Error("Token not yet valid");
+  }
+
+  return claims as JwtClaims;
+};
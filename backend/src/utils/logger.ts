@@ -0,0 +1,106 @@
+// leveled JSON logger: one JSON object per line, with the current request's context attached and secrets redacted
+// LOG_LEVEL picks the lowest level written ("debug", "info", "warn", "error" or "silent"), tests are silent by default
+import { getRequestContext } from "./requestContext.js";
+
+export const LOG_LEVELS = ["debug", "info", "warn", "error", "silent"] as const;
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+export type LogFields = Record<string, unknown>;
+
+const REDACTED = "[REDACTED]";
+
+// field names whose values are never logged, e.g. password, currentPassword, refreshToken, authorization, cookie
+const SENSITIVE_KEY =
+  /password|passphrase|token|secret|authorization|cookie|credential|api[-_]?key|^code$/i;
+// values that are secrets whatever field they're in: bearer tokens, JWTs and token=... in URLs (email links, export downloads)
+const BEARER = /\bBearer\s+[\w.~+/-]+=*/gi;
+const JWT = /\beyJ[\w-]+\.[\w-]+\.[\w-]*/g;
+const SECRET_PARAM =
+  /([?&#][^=&#\s]*(?:token|code|secret)[^=&#\s]*=)[^&#\s]*/gi;
+
+// nested objects deeper than this are cut off, so a huge or circular value can't blow up a log line
+const MAX_DEPTH = 5;
+
+// redact the secrets in a string
+const redactString = (value: string) =>
+  value
+    .replace(BEARER, `Bearer ${REDACTED}`)
+    .replace(JWT, REDACTED)
+    .replace(SECRET_PARAM, `$1${REDACTED}`);
+
+// copy a value for logging with every secret replaced, errors become plain objects so their message and stack are kept
+export const redact = (value: unknown, depth = 0): unknown => {
+  if (typeof value === "string") {
+    return redactString(value);
+  }
+  if (value === null || typeof value !== "object") {
+    return value;
+  }
+  if (depth >= MAX_DEPTH) {
+    return "[Truncated]";
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (value instanceof Error) {
+    return redact(
+      {
+        name: value.name,
+        message: value.message,
+        ...("code" in value && { errorCode: value.code }),
+        stack: value.stack,
+      },
+      depth,
+    );
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redact(item, depth + 1));
+  }
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [
+      key,
+      SENSITIVE_KEY.test(key) ? REDACTED : redact(item, depth + 1),
+    ]),
+  );
+};
+
+// read the level on every call so tests can turn logging on with vi.stubEnv
+const getLogLevel = (): LogLevel => {
+  const level = process.env.LOG_LEVEL as LogLevel | undefined;
+  if (level && LOG_LEVELS.includes(level)) return level;
+  return process.env.NODE_ENV === "test" ? "silent" : "info";
+};
+
+const write = (
+  level: Exclude<LogLevel, "silent">,
+  message: string,
+  fields?: LogFields,
+) => {
+  if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(getLogLevel())) {
+    return;
+  }
+
+  const entry = {
+    time: new Date().toISOString(),
+    level,
+    message,
+    ...getRequestContext(),
+    ...(fields && (redact(fields) as LogFields)),
+  };
+  // warnings and errors go to stderr, so they stay visible when stdout is piped somewhere else
+  const line = JSON.stringify(entry);
+  if (level === "warn" || level === "error") {
+    console.error(line);
+  } else {
+    console.log(line);
+  }
+};
+
+export const logger = {
+  debug: (message: string, fields?: LogFields) =>
+    write("debug", message, fields),
+  info: (message: string, fields?: LogFields) => write("info", message, fields),
+  warn: (message: string, fields?: LogFields) => write("warn", message, fields),
+  error: (message: string, fields?: LogFields) =>
+    write("error", message, fields),
+};
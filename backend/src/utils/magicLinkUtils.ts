@@ -0,0 +1,90 @@
+// utility functions for email sign in links, used in magicLinkController
+import type { Request, Response } from "express";
+import { randomBytes } from "node:crypto";
+import MagicLink from "../models/MagicLink.js";
+import User from "../models/User.js";
+import type { IUser } from "../models/User.js";
+import { getMagicLinkSettings } from "../config/magicLinkConfig.js";
+import { getAppConfig } from "../config/appConfig.js";
+import { hashToken } from "./refreshTokenUtils.js";
+import { getLoginBlock } from "./sessionUtils.js";
+import type { LoginBlock } from "./sessionUtils.js";
+
+// the nonce cookie only needs to reach the verify routes, and must be sameSite lax because the link is opened from a mail client
+export const MAGIC_LINK_COOKIE = "magicLinkNonce";
+export const MAGIC_LINK_COOKIE_PATH = "/api/auth/magic-link";
+
+// why a link couldn't be used, the GET route passes these to the frontend as error codes
+export type MagicLinkError = "invalid_link" | "different_browser" | LoginBlock;
+
+// set a new nonce cookie for this browser and return the nonce, a link only works alongside the cookie from the request that sent it
+export const setMagicLinkCookie = (res: Response): string => {
+  const nonce = randomBytes(32).toString("hex");
+  res.cookie(MAGIC_LINK_COOKIE, nonce, {
+    httpOnly: true, // prevents client-side JavaScript from accessing the cookie for security e.g. no xss attacks
+    secure: getAppConfig().profile === "production", // only send cookie over HTTPS in production for security
+    sameSite: "lax", // sent when the link is opened from a mail client, unlike strict
+    path: MAGIC_LINK_COOKIE_PATH,
+    maxAge: getMagicLinkSettings().ttlMs,
+  });
+  return nonce;
+};
+
+export const clearMagicLinkCookie = (res: Response) => {
+  res.clearCookie(MAGIC_LINK_COOKIE, { path: MAGIC_LINK_COOKIE_PATH });
+};
+
+// create a sign in link for the user bound to the nonce, returns the raw token to put in the emailed link and when it expires
+// only hashes are stored so a database leak can't be used to sign in
+export const createMagicLink = async (user: IUser, nonce: string) => {
+  const token = randomBytes(32).toString("hex");
+  const expiresAt = new Date(Date.now() + getMagicLinkSettings().ttlMs);
+  await MagicLink.create({
+    user: user._id,
+    tokenHash: hashToken(token),
+    nonceHash: hashToken(nonce),
+    expiresAt,
+  });
+  return { token, expiresAt };
+};
+
+// check an opened link against the browser's nonce cookie and use it up, returns the user it signs in or why it can't
+export const consumeMagicLink = async (
+  req: Request,
+  token: string,
+): Promise<{ user: IUser } | { error: MagicLinkError; user?: IUser }> => {
+  const link = await MagicLink.findOne({
+    tokenHash: hashToken(token),
+    expiresAt: { $gt: new Date() },
+  });
+  if (!link) {
+    return { error: "invalid_link" };
+  }
+
+  // checked before the link is used up, so a forwarded link (or a mail scanner opening it) doesn't cost the user their link
+  const nonce = req.cookies[MAGIC_LINK_COOKIE];
+  if (typeof nonce !== "string" || hashToken(nonce) !== link.nonceHash) {
+    return { error: "different_browser" };
+  }
+
+  // findOneAndDelete is atomic, so opening the link twice at the same time only signs in once
+  const claimed = await MagicLink.findOneAndDelete({ _id: link._id });
+  const user = claimed ? await User.findById(claimed.user) : null;
+  if (!user) {
+    return { error: "invalid_link" };
+  }
+
+  // an admin disabled the account, or required a new password which a sign in link doesn't replace
+  const block = getLoginBlock(user);
+  if (block) {
+    return { error: block, user };
+  }
+
+  // opening the link proves the user owns the address
+  if (!user.isVerified) {
+    user.isVerified = true;
+    await user.save();
+  }
+
+  return { user };
+};
@@ -0,0 +1,80 @@
+// mail transports used by config/emailConfig.ts to send emails
+// every transport implements the same MailTransport interface, so the rest of the app never knows how mail is delivered
+import nodemailer from "nodemailer";
+import { mkdir, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { logger } from "./logger.js";
+
+// a single outgoing email
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string; // plain text body, always provided for clients that don't render HTML
+  html?: string;
+}
+
+// anything that can deliver a MailMessage
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+// in-memory transport also exposes the messages it "sent", so tests can read links out of them
+export interface MemoryOutboxTransport extends MailTransport {
+  messages: MailMessage[];
+}
+
+// options for the SMTP transport, e.g. smtp.gmail.com with an app password
+export interface SmtpTransportOptions {
+  host: string;
+  port: number;
+  secure: boolean; // true for port 465, false for STARTTLS on 587
+  user: string;
+  pass: string;
+  from: string;
+}
+
+// SMTP transport, sends real emails through nodemailer
+export const createSmtpTransport = (
+  options: SmtpTransportOptions,
+): MailTransport => {
+  const transporter = nodemailer.createTransport({
+    host: options.host,
+    port: options.port,
+    secure: options.secure,
+    auth: { user: options.user, pass: options.pass },
+  });
+
+  return {
+    async send(message) {
+      await transporter.sendMail({ from: options.from, ...message });
+    },
+  };
+};
+
+// file outbox transport, writes each email as a JSON file so local development works without an SMTP server
+export const createFileOutboxTransport = (directory: string): MailTransport => {
+  return {
+    async send(message) {
+      await mkdir(directory, { recursive: true });
+      // timestamp first so the files sort in the order they were sent
+      const fileName = `${Date.now()}-${message.to.replace(/[^a-z0-9]/gi, "_")}.json`;
+      const sentAt = new Date().toISOString();
+      await writeFile(
+        path.join(directory, fileName),
+        JSON.stringify({ sentAt, ...message }, null, 2),
+      );
+      logger.info("Email written to outbox", { to: message.to, fileName });
+    },
+  };
+};
+
+// in-memory outbox transport, keeps every message in an array, used in tests
+export const createMemoryOutboxTransport = (): MemoryOutboxTransport => {
+  const messages: MailMessage[] = [];
+  return {
+    messages,
+    async send(message) {
+      messages.push(message);
+    },
+  };
+};
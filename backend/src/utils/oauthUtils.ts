@@ -0,0 +1,263 @@
+// OAuth 2.0 authorization code flow with PKCE, and OpenID Connect ID token checks, used in oauthController
+// implemented with fetch and jsonwebtoken so we don't need an OAuth client library
+import { createHash, createPublicKey, randomBytes } from "node:crypto";
+import type { JsonWebKeyInput } from "node:crypto";
+import jwt from "jsonwebtoken";
+import type { OAuthProvider } from "../config/oauthConfig.js";
+import type { ILinkedIdentity } from "../models/LinkedIdentity.js";
+import type { LinkedIdentityResponse } from "../types/index.js";
+
+// the account details we need from a provider, whatever the provider calls them
+export interface OAuthProfile {
+  subject: string; // the provider's stable id for the account
+  email: string | null;
+  emailVerified: boolean; // only trust the email for matching existing accounts if the provider verified it
+  name: string | null;
+}
+
+// the parts of an OpenID Connect discovery document we use
+interface OidcDiscoveryDocument {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+// a public key from the provider's JWKS endpoint
+type JsonWebKey = JsonWebKeyInput["key"] & { kid?: string };
+
+// discovery documents and signing keys hardly ever change, so cache them per issuer
+const discoveryCache = new Map<string, OidcDiscoveryDocument>();
+const jwksCache = new Map<string, JsonWebKey[]>();
+
+// generate a random URL-safe value for state, nonce and the PKCE verifier
+export const generateRandomToken = (): string =>
+  randomBytes(32).toString("base64url");
+
+// PKCE (RFC 7636): the challenge is the SHA-256 of the verifier, so an intercepted code is useless without the verifier
+export const createCodeChallenge = (codeVerifier: string): string =>
+  createHash("sha256").update(codeVerifier).digest("base64url");
+
+// fetch JSON, throwing on non-2xx responses so callers only handle the happy path
+const fetchJson = async <T>(url: string, init?: RequestInit): Promise<T> => {
+  const response = await fetch(url, init);
+  if (!response.ok) {
+    throw new Error(`Request to ${url} failed with status ${response.status}`);
+  }
+  return (await response.json()) as T;
+};
+
+// load an issuer's discovery document from /.well-known/openid-configuration
+export const discoverOidcIssuer = async (
+  issuer: string,
+): Promise<OidcDiscoveryDocument> => {
+  const cached = discoveryCache.get(issuer);
+  if (cached) return cached;
+
+  const document = await fetchJson<OidcDiscoveryDocument>(
+    `${issuer.replace(/\/$/, "")}/.well-known/openid-configuration`,
+  );
+  // the document must describe the issuer we asked for, otherwise ID tokens could come from someone else
+  if (document.issuer !== issuer) {
+    throw new Error(`Discovery document issuer mismatch for ${issuer}`);
+  }
+  discoveryCache.set(issuer, document);
+  return document;
+};
+
+// clear the discovery and key caches, used in tests that restart the mock provider
+export const clearOidcCache = () => {
+  discoveryCache.clear();
+  jwksCache.clear();
+};
+
+// get the provider's endpoints, from discovery for OpenID Connect providers or from the config for plain OAuth 2.0
+const getEndpoints = async (provider: OAuthProvider) => {
+  if (provider.issuer) {
+    const document = await discoverOidcIssuer(provider.issuer);
+    return {
+      authorizationEndpoint: document.authorization_endpoint,
+      tokenEndpoint: document.token_endpoint,
+    };
+  }
+  if (!provider.authorizationEndpoint || !provider.tokenEndpoint) {
+    throw new Error(`OAuth provider ${provider.id} has no endpoints`);
+  }
+  return {
+    authorizationEndpoint: provider.authorizationEndpoint,
+    tokenEndpoint: provider.tokenEndpoint,
+  };
+};
+
+// build the URL we send the browser to so the user can sign in at the provider
+export const buildAuthorizationUrl = async (
+  provider: OAuthProvider,
+  options: {
+    redirectUri: string;
+    state: string;
+    nonce: string;
+    codeVerifier: string;
+  },
+): Promise<string> => {
+  const { authorizationEndpoint } = await getEndpoints(provider);
+  const url = new URL(authorizationEndpoint);
+  url.search = new URLSearchParams({
+    response_type: "code",
+    client_id: provider.clientId,
+    redirect_uri: options.redirectUri,
+    scope: provider.scope,
+    state: options.state,
+    code_challenge: createCodeChallenge(options.codeVerifier),
+    code_challenge_method: "S256",
+    // the nonce is only meaningful for OpenID Connect, plain OAuth 2.0 providers ignore it
+    ...(provider.issuer && { nonce: options.nonce }),
+  }).toString();
+  return url.toString();
+};
+
+// get the public key an ID token was signed with, fetching the issuer's keys again if the key id is new (the provider rotated keys)
+const getSigningKey = async (issuer: string, kid: string | undefined) => {
+  const findKey = (keys: JsonWebKey[] | undefined) =>
+    keys?.find((key) => kid === undefined || key.kid === kid);
+
+  let key = findKey(jwksCache.get(issuer));
+  if (!key) {
+    const { jwks_uri } = await discoverOidcIssuer(issuer);
+    const { keys } = await fetchJson<{ keys: JsonWebKey[] }>(jwks_uri);
+    jwksCache.set(issuer, keys);
+    key = findKey(keys);
+  }
+  if (!key) {
+    throw new Error(`No signing key ${kid} for ${issuer}`);
+  }
+  return createPublicKey({ key, format: "jwk" });
+};
+
+// check an ID token's signature, issuer, audience, expiry and nonce, and read the profile from its claims
+export const verifyIdToken = async (
+  provider: OAuthProvider & { issuer: string },
+  idToken: string,
+  nonce: string,
+): Promise<OAuthProfile> => {
+  const decoded = jwt.decode(idToken, { complete: true });
+  if (!decoded || typeof decoded.payload === "string") {
+    throw new Error("Malformed ID token");
+  }
+
+  const key = await getSigningKey(provider.issuer, decoded.header.kid);
+  // only accept asymmetric algorithms, "none" or HS256 with the public key as the secret are classic ID token attacks
+  const claims = jwt.verify(idToken, key, {
+    algorithms: ["RS256", "ES256", "PS256"],
+    issuer: provider.issuer,
+    audience: provider.clientId,
+  }) as jwt.JwtPayload;
+
+  if (claims.nonce !== nonce) {
+    throw new Error("ID token nonce mismatch");
+  }
+  if (!claims.sub) {
+    throw new Error("ID token has no subject");
+  }
+
+  return {
+    subject: claims.sub,
+    email: typeof claims.email === "string" ? claims.email : null,
+    // some providers send email_verified as the string "true"
+    emailVerified:
+      claims.email_verified === true || claims.email_verified === "true",
+    name: typeof claims.name === "string" ? claims.name : null,
+  };
+};
+
+// exchange the authorization code from the callback for tokens, and return the signed in user's profile
+export const exchangeCodeForProfile = async (
+  provider: OAuthProvider,
+  options: {
+    code: string;
+    redirectUri: string;
+    codeVerifier: string;
+    nonce: string;
+  },
+): Promise<OAuthProfile> => {
+  const { tokenEndpoint } = await getEndpoints(provider);
+
+  const tokens = await fetchJson<{
+    access_token?: string;
+    id_token?: string;
+    error?: string;
+  }>(tokenEndpoint, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/x-www-form-urlencoded",
+      Accept: "application/json", // GitHub returns form encoded tokens without this
+    },
+    body: new URLSearchParams({
+      grant_type: "authorization_code",
+      code: options.code,
+      redirect_uri: options.redirectUri,
+      client_id: provider.clientId,
+      client_secret: provider.clientSecret,
+      code_verifier: options.codeVerifier,
+    }),
+  });
+
+  // GitHub reports errors with a 200 status and an error field
+  if (tokens.error) {
+    throw new Error(`Token request failed: ${tokens.error}`);
+  }
+
+  if (provider.issuer) {
+    if (!tokens.id_token) {
+      throw new Error("Token response has no ID token");
+    }
+    return verifyIdToken(
+      { ...provider, issuer: provider.issuer },
+      tokens.id_token,
+      options.nonce,
+    );
+  }
+
+  if (!tokens.access_token || !provider.fetchProfile) {
+    throw new Error("Token response has no access token");
+  }
+  return provider.fetchProfile(tokens.access_token);
+};
+
+// GitHub isn't an OpenID Connect provider, so read the profile and primary email from its REST API
+export const fetchGitHubProfile = async (
+  accessToken: string,
+): Promise<OAuthProfile> => {
+  const headers = {
+    Authorization: `Bearer ${accessToken}`,
+    Accept: "application/vnd.github+json",
+  };
+  const user = await fetchJson<{
+    id: number;
+    name: string | null;
+    login: string;
+  }>("https://api.github.com/user", { headers });
+  // the email on the profile is only the public one, so ask for the primary email separately
+  const emails = await fetchJson<
+    { email: string; primary: boolean; verified: boolean }[]
+  >("https://api.github.com/user/emails", { headers });
+  const primary = emails.find((email) => email.primary);
+
+  return {
+    subject: String(user.id),
+    email: primary?.email ?? null,
+    emailVerified: primary?.verified ?? false,
+    name: user.name || user.login,
+  };
+};
+
+// utility to format a linked identity for API responses
+export const formatLinkedIdentity = (
+  identity: ILinkedIdentity,
+): LinkedIdentityResponse => {
+  return {
+    _id: identity._id.toString(),
+    provider: identity.provider,
+    email: identity.email,
+    createdAt: identity.createdAt,
+  };
+};
@@ -0,0 +1,78 @@
+// utility functions for organizations, used in organizationController
+import { randomBytes } from "node:crypto";
+import type { Types } from "mongoose";
+import type { IOrganization } from "../models/Organization.js";
+import type { IMembership } from "../models/Membership.js";
+import type { IOrganizationInvite } from "../models/OrganizationInvite.js";
+import type { OrgRole } from "../config/organizationConfig.js";
+import { hashToken } from "./refreshTokenUtils.js";
+import type {
+  OrganizationResponse,
+  OrganizationMemberResponse,
+  OrganizationInviteResponse,
+  InvitationResponse,
+} from "../types/index.js";
+
+// the user fields populated on memberships and invitations for the members list
+export interface PopulatedUser {
+  _id: Types.ObjectId;
+  name: string;
+  email: string;
+}
+
+// make a new random invitation token, with the hash to store in its place
+export const createInviteToken = () => {
+  const token = randomBytes(32).toString("hex");
+  return { token, tokenHash: hashToken(token) };
+};
+
+// utility to format an organization for API responses, with the requesting user's role in it
+export const formatOrganization = (
+  organization: IOrganization,
+  role: OrgRole,
+): OrganizationResponse => ({
+  _id: organization._id.toString(),
+  name: organization.name,
+  role,
+  createdAt: organization.createdAt,
+});
+
+// utility to format a membership for the members list, the user must be populated with name and email
+export const formatMember = (
+  membership: IMembership,
+): OrganizationMemberResponse => {
+  const user = membership.user as unknown as PopulatedUser;
+  return {
+    userId: user._id.toString(),
+    name: user.name,
+    email: user.email,
+    role: membership.role,
+    joinedAt: membership.createdAt,
+  };
+};
+
+// utility to format a pending invitation for the organization's admins, invitedBy must be populated with the name
+export const formatInvite = (
+  invite: IOrganizationInvite,
+): OrganizationInviteResponse => ({
+  _id: invite._id.toString(),
+  email: invite.email,
+  role: invite.role,
+  invitedBy:
+    (invite.invitedBy as unknown as PopulatedUser | null)?.name ?? null,
+  createdAt: invite.createdAt,
+  expiresAt: invite.expiresAt,
+});
+
+// utility to format an invitation for the person it was sent to
+export const formatInvitation = (
+  invite: IOrganizationInvite,
+  organization: IOrganization,
+): InvitationResponse => ({
+  organizationName: organization.name,
+  email: invite.email,
+  role: invite.role,
+  invitedBy:
+    (invite.invitedBy as unknown as PopulatedUser | null)?.name ?? null,
+  expiresAt: invite.expiresAt,
+});
@@ -0,0 +1,51 @@
+// utility functions for passkey (WebAuthn) challenges and responses, used in passkeyController
+import PasskeyChallenge from "../models/PasskeyChallenge.js";
+import type { PasskeyChallengeType } from "../models/PasskeyChallenge.js";
+import type { IPasskey } from "../models/Passkey.js";
+import type { PasskeyResponse } from "../types/index.js";
+
+// how long the browser has to answer a challenge, the same as the timeout we give the browser
+export const PASSKEY_CHALLENGE_TTL_MS = 5 * 60 * 1000; // 5 minutes in milliseconds
+
+// store a challenge that was just sent to the browser
+export const saveChallenge = async (
+  challenge: string,
+  type: PasskeyChallengeType,
+  userId: string | null = null,
+): Promise<void> => {
+  await PasskeyChallenge.create({
+    challenge,
+    type,
+    user: userId,
+    expiresAt: new Date(Date.now() + PASSKEY_CHALLENGE_TTL_MS),
+  });
+};
+
+// check a challenge from a WebAuthn response and delete it, so each challenge can only be answered once
+// passed to @simplewebauthn/server as expectedChallenge, it returns false for unknown, expired or already used challenges
+export const consumeChallenge = async (
+  challenge: string,
+  type: PasskeyChallengeType,
+  userId: string | null = null,
+): Promise<boolean> => {
+  // findOneAndDelete is atomic, two requests racing with the same response can't both succeed
+  const record = await PasskeyChallenge.findOneAndDelete({
+    challenge,
+    type,
+    user: userId,
+    expiresAt: { $gt: new Date() },
+  });
+  return record !== null;
+};
+
+// utility to format a passkey for API responses, the public key and counter are internal
+export const formatPasskey = (passkey: IPasskey): PasskeyResponse => {
+  return {
+    _id: passkey._id.toString(),
+    name: passkey.name,
+    deviceType: passkey.deviceType,
+    backedUp: passkey.backedUp,
+    createdAt: passkey.createdAt,
+    lastUsedAt: passkey.lastUsedAt,
+  };
+};
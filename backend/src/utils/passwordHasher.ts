@@ -0,0 +1,151 @@
+// password hashing algorithms for the User model, see config/passwordConfig.ts for the one used for new hashes
+// every hash carries its algorithm and parameters, so a hash made with older settings can still be checked
+// and is replaced with one made with the current settings the next time the user logs in (see comparePassword)
+import { randomBytes, scrypt, timingSafeEqual } from "node:crypto";
+import type { BinaryLike, ScryptOptions } from "node:crypto";
+import bcrypt from "bcrypt";
+import argon2 from "argon2";
+
+export const HASH_ALGORITHMS = ["bcrypt", "argon2id", "scrypt"] as const;
+export type HashAlgorithm = (typeof HASH_ALGORITHMS)[number];
+
+// anything that can hash passwords with one algorithm and set of parameters
+export interface PasswordHasher {
+  algorithm: HashAlgorithm;
+  hash(password: string): Promise<string>;
+  // true when the hash wasn't made with this algorithm and these parameters, so it should be replaced
+  needsRehash(hash: string): boolean;
+}
+
+export interface BcryptParams {
+  cost: number; // log2 of the number of rounds
+}
+
+export interface Argon2idParams {
+  memoryKiB: number;
+  timeCost: number; // number of passes over the memory
+  parallelism: number;
+}
+
+export interface ScryptParams {
+  logN: number; // log2 of the CPU/memory cost
+  blockSize: number; // r
+  parallelism: number; // p
+}
+
+// the formats each algorithm's hashes are stored in
+// bcrypt:   $2b$10$<salt and hash>
+// argon2id: $argon2id$v=19$m=19456,p=1,t=2$<salt>$<hash> (the PHC string format, parameters in any order)
+// scrypt:   $scrypt$ln=15,r=8,p=1$<salt>$<hash> (the same format, there's no standard one for scrypt)
+const BCRYPT_PATTERN = /^\$2[aby]\$(\d{2})\$/;
+const ARGON2ID_PATTERN = /^\$argon2id\$v=\d+\$([^$]+)\$/;
+const SCRYPT_PATTERN = /^\$scrypt\$ln=(\d+),r=(\d+),p=(\d+)\$([^$]+)\$([^$]+)$/;
+
+// which algorithm made a hash, null when it isn't in any format we know
+export const getHashAlgorithm = (hash: string): HashAlgorithm | null => {
+  if (BCRYPT_PATTERN.test(hash)) return "bcrypt";
+  if (ARGON2ID_PATTERN.test(hash)) return "argon2id";
+  if (SCRYPT_PATTERN.test(hash)) return "scrypt";
+  return null;
+};
+
+export const createBcryptHasher = ({ cost }: BcryptParams): PasswordHasher => ({
+  algorithm: "bcrypt",
+  hash: (password) => bcrypt.hash(password, cost),
+  needsRehash: (hash) => Number(BCRYPT_PATTERN.exec(hash)?.[1]) !== cost,
+});
+
+export const createArgon2idHasher = (
+  params: Argon2idParams,
+): PasswordHasher => ({
+  algorithm: "argon2id",
+  hash: (password) =>
+    argon2.hash(password, {
+      type: argon2.argon2id,
+      memoryCost: params.memoryKiB,
+      timeCost: params.timeCost,
+      parallelism: params.parallelism,
+    }),
+  needsRehash: (hash) => {
+    const match = ARGON2ID_PATTERN.exec(hash);
+    if (!match) return true;
+    // e.g. "m=19456,p=1,t=2"
+    const stored = new Map(
+      match[1]!.split(",").map((param) => param.split("=") as [string, string]),
+    );
+    return (
+      Number(stored.get("m")) !== params.memoryKiB ||
+      Number(stored.get("t")) !== params.timeCost ||
+      Number(stored.get("p")) !== params.parallelism
+    );
+  },
+});
+
+// node's scrypt with a promise, the callback version doesn't block the event loop like scryptSync does
+const scryptAsync = (
+  password: BinaryLike,
+  salt: BinaryLike,
+  keyLength: number,
+  options: ScryptOptions,
+) =>
+  new Promise<Buffer>((resolve, reject) => {
+    scrypt(password, salt, keyLength, options, (error, key) =>
+      error ? reject(error) : resolve(key),
+    );
+  });
+
+// scrypt needs 128 * N * r bytes of memory, node refuses anything over 32 MiB unless we raise the limit
+const scryptOptions = ({ logN, blockSize, parallelism }: ScryptParams) => {
+  const N = 2 ** logN;
+  return { N, r: blockSize, p: parallelism, maxmem: 256 * N * blockSize };
+};
+
+export const createScryptHasher = (params: ScryptParams): PasswordHasher => ({
+  algorithm: "scrypt",
+  hash: async (password) => {
+    const salt = randomBytes(16);
+    const key = await scryptAsync(password, salt, 32, scryptOptions(params));
+    return `$scrypt$ln=${params.logN},r=${params.blockSize},p=${params.parallelism}$${salt.toString("base64")}$${key.toString("base64")}`;
+  },
+  needsRehash: (hash) => {
+    const match = SCRYPT_PATTERN.exec(hash);
+    return (
+      !match ||
+      Number(match[1]) !== params.logN ||
+      Number(match[2]) !== params.blockSize ||
+      Number(match[3]) !== params.parallelism
+    );
+  },
+});
+
+// check a password against a hash made by any of the algorithms, using the parameters stored in the hash
+// a hash in a format we don't know never matches
+export const verifyPasswordHash = async (
+  password: string,
+  hash: string,
+): Promise<boolean> => {
+  switch (getHashAlgorithm(hash)) {
+    case "bcrypt":
+      return bcrypt.compare(password, hash);
+    case "argon2id":
+      return argon2.verify(hash, password);
+    case "scrypt": {
+      const [, logN, blockSize, parallelism, salt, key] =
+        SCRYPT_PATTERN.exec(hash)!;
+      const expected = Buffer.from(key!, "base64");
+      const actual = await scryptAsync(
+        password,
+        Buffer.from(salt!, "base64"),
+        expected.length,
+        scryptOptions({
+          logN: Number(logN),
+          blockSize: Number(blockSize),
+          parallelism: Number(parallelism),
+        }),
+      );
+      return timingSafeEqual(actual, expected);
+    }
+    default:
+      return false;
+  }
+};
@@ -0,0 +1,19 @@
+// utility functions for password reset links, used by forgotPassword and the admin "force password reset" action
+import { randomBytes } from "node:crypto";
+import type { IUser } from "../models/User.js";
+import { hashToken } from "./refreshTokenUtils.js";
+
+// how long a password reset link stays valid
+export const PASSWORD_RESET_TTL_MS = 60 * 60 * 1000; // 1 hour in milliseconds
+
+// generate a new reset token for the user and save its hash, returns the raw token to put in the emailed link
+// only the hash is stored so a database leak can't be used to reset passwords, a new token replaces any earlier one
+export const createPasswordResetToken = async (
+  user: IUser,
+): Promise<string> => {
+  const resetToken = randomBytes(32).toString("hex");
+  user.passwordResetTokenHash = hashToken(resetToken);
+  user.passwordResetExpires = new Date(Date.now() + PASSWORD_RESET_TTL_MS);
+  await user.save();
+  return resetToken;
+};
@@ -0,0 +1,100 @@
+// checks a new password for what the length and character rules in authValidation can't catch
+// used by register, update password and reset password, the errors go on the password field
+import { COMMON_PASSWORDS } from "../config/commonPasswords.js";
+import {
+  getPasswordRangeSource,
+  getPasswordSettings,
+} from "../config/passwordConfig.js";
+import { getBreachCount } from "./breachedPasswords.js";
+import type { IUser } from "../models/User.js";
+import { logger } from "./logger.js";
+
+const commonPasswords = new Set(COMMON_PASSWORDS);
+
+// the usual letter swaps, undone so "p@ssw0rd" is caught like "password"
+const LEETSPEAK: Record<string, string> = {
+  "@": "a",
+  "4": "a",
+  "8": "b",
+  "3": "e",
+  "1": "i",
+  "!": "i",
+  "0": "o",
+  $: "s",
+  "5": "s",
+  "7": "t",
+};
+const undoLeetspeak = (value: string) =>
+  value.replace(/[@48310!$57]/g, (char) => LEETSPEAK[char] ?? char);
+
+// true when the password is a common one, or a common word with digits and symbols stuck on, e.g. "Password1!"
+export const isCommonPassword = (password: string) => {
+  const lower = password.toLowerCase();
+  const core = lower.replace(/^[^a-z]+|[^a-z]+$/g, "");
+  return [lower, core, undoLeetspeak(core)].some((form) =>
+    commonPasswords.has(form),
+  );
+};
+
+// true when the password contains part of the user's name or email, parts shorter than 3 characters (e.g. initials) are ignored
+export const containsPersonalInfo = (
+  password: string,
+  user: Pick<IUser, "name" | "email">,
+) => {
+  const localPart = user.email.split("@")[0] ?? "";
+  const words = [
+    ...user.name.split(/\s+/),
+    localPart,
+    ...localPart.split(/[._+-]/),
+  ]
+    .map((word) => word.toLowerCase())
+    .filter((word) => word.length >= 3);
+
+  const lower = password.toLowerCase();
+  const forms = [lower, undoLeetspeak(lower)];
+  return words.some((word) => forms.some((form) => form.includes(word)));
+};
+
+// screen a new password, returns the reason it was rejected or null when it's fine
+export const screenPassword = async (
+  password: string,
+  user: Pick<IUser, "name" | "email">,
+): Promise<string | null> => {
+  if (isCommonPassword(password)) {
+    return "This password is too common, choose a different one";
+  }
+  if (containsPersonalInfo(password, user)) {
+    return "Password must not contain your name or email address";
+  }
+
+  // the breach check is optional, see config/passwordConfig.ts
+  const source = getPasswordRangeSource();
+  if (source) {
+    try {
+      if ((await getBreachCount(password, source)) > 0) {
+        return "This password has appeared in a data breach, choose a different one";
+      }
+    } catch (error) {
+      // a lookup that is down or timed out lets the password through by default, rather than stop everyone from signing up
+      // or changing passwords, PASSWORD_BREACH_ON_ERROR=reject turns that around
+      logger.error("Password breach check failed", { error });
+      if (getPasswordSettings().breachOnError === "reject") {
+        return "We couldn't check this password right now, try again in a few minutes";
+      }
+    }
+  }
+  return null;
+};
+
+// screen a new password for an existing user, also rejecting their current and recent passwords
+export const checkNewPassword = async (
+  user: Pick<IUser, "name" | "email" | "isPasswordReused">,
+  password: string,
+): Promise<string | null> => {
+  const problem = await screenPassword(password, user);
+  if (problem) return problem;
+  if (await user.isPasswordReused(password)) {
+    return "You've used this password recently, choose a different one";
+  }
+  return null;
+};
@@ -0,0 +1,71 @@
+// utility functions for personal access tokens, used in personalAccessTokenController and authMiddleware
+import { randomBytes } from "node:crypto";
+import PersonalAccessToken from "../models/PersonalAccessToken.js";
+import type { IPersonalAccessToken } from "../models/PersonalAccessToken.js";
+import { getPersonalAccessTokenSettings } from "../config/personalAccessTokenConfig.js";
+import { hashToken } from "./refreshTokenUtils.js";
+import type { PersonalAccessTokenResponse } from "../types/index.js";
+
+// every personal access token starts with this, so authenticate can tell them apart from JWTs
+// and secret scanners can spot them in code that's about to be pushed
+export const PAT_PREFIX = "pat_";
+
+// how much of the token is kept in the clear, "pat_" and 8 characters is enough to tell tokens apart
+const DISPLAY_PREFIX_LENGTH = PAT_PREFIX.length + 8;
+
+export const isPersonalAccessToken = (token: string): boolean =>
+  token.startsWith(PAT_PREFIX);
+
+// make a new random token, with the hash and prefix to store in its place
+export const createTokenSecret = () => {
+  const token = `${PAT_PREFIX}${randomBytes(32).toString("base64url")}`;
+  return {
+    token,
+    tokenHash: hashToken(token),
+    prefix: token.slice(0, DISPLAY_PREFIX_LENGTH),
+  };
+};
+
+// look up a presented token, null when it doesn't exist or has expired
+// also records when it was last used, at most once per lastUsedIntervalMs
+export const findPersonalAccessToken = async (
+  token: string,
+): Promise<IPersonalAccessToken | null> => {
+  const now = new Date();
+  const personalAccessToken = await PersonalAccessToken.findOne({
+    tokenHash: hashToken(token),
+    expiresAt: { $gt: now },
+  });
+  if (!personalAccessToken) {
+    return null;
+  }
+
+  const { lastUsedIntervalMs } = getPersonalAccessTokenSettings();
+  const lastUsedAt = personalAccessToken.lastUsedAt;
+  if (
+    !lastUsedAt ||
+    now.getTime() - lastUsedAt.getTime() >= lastUsedIntervalMs
+  ) {
+    // updateOne rather than save, so only the last used time is written
+    await PersonalAccessToken.updateOne(
+      { _id: personalAccessToken._id },
+      { lastUsedAt: now },
+    );
+    personalAccessToken.lastUsedAt = now;
+  }
+
+  return personalAccessToken;
+};
+
+// utility to format a token for API responses, the hash is internal
+export const formatPersonalAccessToken = (
+  personalAccessToken: IPersonalAccessToken,
+): PersonalAccessTokenResponse => ({
+  _id: personalAccessToken._id.toString(),
+  name: personalAccessToken.name,
+  prefix: personalAccessToken.prefix,
+  scopes: personalAccessToken.scopes,
+  createdAt: personalAccessToken.createdAt,
+  expiresAt: personalAccessToken.expiresAt,
+  lastUsedAt: personalAccessToken.lastUsedAt,
+});
@@ -0,0 +1,123 @@
+// stores for rate limit counters, used by middleware/rateLimiter.ts
+// every store implements the same RateLimitStore interface, pick one with RATE_LIMIT_STORE (see config/rateLimitConfig.ts)
+import RateLimitCounter from "../models/RateLimitCounter.js";
+
+// result of taking a token from a bucket
+export interface TokenBucketResult {
+  allowed: boolean;
+  tokens: number; // tokens left after this request, may be fractional while the bucket refills
+}
+
+// anything that can keep rate limit counters
+// each operation is a single atomic step so parallel requests can't both slip under the limit
+export interface RateLimitStore {
+  // fixed window: count a request in the window that started at windowStart, returns the count including this request
+  incrementWindow(
+    key: string,
+    windowStart: number,
+    windowMs: number,
+  ): Promise<number>;
+  // token bucket: refill the bucket for the time since the last request, then take one token if there is one
+  // the bucket holds up to capacity tokens and refills completely over refillMs
+  takeToken(
+    key: string,
+    capacity: number,
+    refillMs: number,
+  ): Promise<TokenBucketResult>;
+}
+
+// in-memory store, fine for a single server process and tests, counters are lost on restart
+export const createMemoryRateLimitStore = (): RateLimitStore => {
+  const windows = new Map<string, { count: number; expiresAt: number }>();
+  const buckets = new Map<string, { tokens: number; refilledAt: number }>();
+
+  // forget finished windows now and then so the map doesn't grow forever
+  const pruneWindows = (now: number) => {
+    for (const [key, window] of windows) {
+      if (window.expiresAt <= now) windows.delete(key);
+    }
+  };
+
+  return {
+    async incrementWindow(key, windowStart, windowMs) {
+      const now = Date.now();
+      if (windows.size > 10000) pruneWindows(now);
+      const windowKey = `${key}:${windowStart}`;
+      const count = (windows.get(windowKey)?.count ?? 0) + 1;
+      windows.set(windowKey, { count, expiresAt: windowStart + windowMs });
+      return count;
+    },
+    async takeToken(key, capacity, refillMs) {
+      const now = Date.now();
+      const bucket = buckets.get(key) ?? { tokens: capacity, refilledAt: now };
+      const refilled = Math.min(
+        capacity,
+        bucket.tokens + ((now - bucket.refilledAt) * capacity) / refillMs,
+      );
+      const allowed = refilled >= 1;
+      const tokens = allowed ? refilled - 1 : refilled;
+      // a full bucket is the same as no bucket, so drop it
+      if (tokens >= capacity) buckets.delete(key);
+      else buckets.set(key, { tokens, refilledAt: now });
+      return { allowed, tokens };
+    },
+  };
+};
+
+// MongoDB store, shared by every server process so limits hold across all of them
+export const createMongoRateLimitStore = (): RateLimitStore => {
+  return {
+    async incrementWindow(key, windowStart, windowMs) {
+      // one document per window, it expires when the window ends
+      const record = await RateLimitCounter.findOneAndUpdate(
+        { key: `${key}:${windowStart}` },
+        {
+          $inc: { count: 1 },
+          $setOnInsert: { expiresAt: new Date(windowStart + windowMs) },
+        },
+        { upsert: true, new: true },
+      );
+      return record.count;
+    },
+    async takeToken(key, capacity, refillMs) {
+      const now = new Date();
+      // refill and take a token in one aggregation pipeline update, so it happens atomically on the server
+      // a new bucket starts full, and refilledAt is missing until the first request
+      const refilled = {
+        $min: [
+          capacity,
+          {
+            $add: [
+              { $ifNull: ["$tokens", capacity] },
+              {
+                $multiply: [
+                  { $subtract: [now, { $ifNull: ["$refilledAt", now] }] },
+                  capacity / refillMs,
+                ],
+              },
+            ],
+          },
+        ],
+      };
+      const record = await RateLimitCounter.findOneAndUpdate(
+        { key },
+        [
+          { $set: { tokens: refilled } },
+          { $set: { allowed: { $gte: ["$tokens", 1] } } },
+          {
+            $set: {
+              tokens: {
+                $cond: ["$allowed", { $subtract: ["$tokens", 1] }, "$tokens"],
+              },
+              refilledAt: now,
+              // an idle bucket is full again after refillMs, so it can be deleted then
+              expiresAt: new Date(now.getTime() + refillMs),
+            },
+          },
+        ],
+        { upsert: true, new: true, updatePipeline: true },
+      );
+      return { allowed: record.allowed, tokens: record.tokens };
+    },
+  };
+};
@@ -0,0 +1,175 @@
+// utility functions for persisting, rotating and revoking refresh tokens, used in authController
+// import createHash to hash refresh tokens before storing them, so a database leak doesn't leak usable tokens
+import { createHash } from "node:crypto";
+import RefreshToken from "../models/RefreshToken.js";
+import type { RefreshTokenRevokedReason } from "../models/RefreshToken.js";
+import User from "../models/User.js";
+import type { IUser } from "../models/User.js";
+import Session from "../models/Session.js";
+import PersonalAccessToken from "../models/PersonalAccessToken.js";
+import { isValidObjectId } from "mongoose";
+import {
+  generateTokens,
+  getAccessClaims,
+  verifyRefreshToken,
+} from "./tokenUtils.js";
+import { logger } from "./logger.js";
+import { getRefreshTokenSettings } from "../config/jwtConfig.js";
+
+// hash a refresh token with SHA-256, tokens are already long random JWTs so a fast hash without salt is enough
+export const hashToken = (token: string): string => {
+  return createHash("sha256").update(token).digest("hex");
+};
+
+// store a freshly generated refresh token so it can later be rotated or revoked
+// call this right after generateTokens() and before setting the refresh token cookie
+export const saveRefreshToken = async (refreshToken: string): Promise<void> => {
+  const payload = verifyRefreshToken(refreshToken);
+
+  // we just signed this token ourselves, if it doesn't verify something is wrong with token generation, so let the error middleware handle it
+  if (!payload) {
+    throw new Error("Cannot save refresh token: missing required claims");
+  }
+
+  await RefreshToken.create({
+    user: payload.userId,
+    tokenHash: hashToken(refreshToken),
+    family: payload.family,
+    expiresAt: new Date(payload.exp * 1000), // exp is in seconds, Date expects milliseconds
+  });
+};
+
+// swap a presented refresh token for a new token pair in the same family
+// returns null when the token is invalid, expired, revoked or reused, the caller should respond with 401 in every case
+export const rotateRefreshToken = async (
+  presentedToken: string,
+): Promise<{
+  token: string;
+  refreshToken: string;
+  sessionId: string;
+  user: IUser;
+} | null> => {
+  // verify the signature, type and expiration first, a token that fails here was never issued by us or is simply too old
+  // tokens issued before rotation was introduced have no family, they fail too so the user logs in again
+  const payload = verifyRefreshToken(presentedToken);
+  if (!payload) {
+    return null;
+  }
+
+  // look up the user so the new access token carries their current email and roles, not the ones from when the family started
+  // disabled accounts can't refresh, their refresh tokens are revoked when disabled but this also covers any missed
+  const user = await User.findById(payload.userId);
+  if (!user || user.disabledAt) {
+    return null;
+  }
+
+  // generate the replacement pair in the same family as the presented token
+  const newTokens = generateTokens(
+    user._id.toString(),
+    user.email,
+    payload.family,
+    getAccessClaims(user),
+  );
+
+  const tokenHash = hashToken(presentedToken);
+  const now = new Date();
+
+  // atomically mark the presented token as rotated, only one concurrent request can win this update
+  const claimed = await RefreshToken.findOneAndUpdate(
+    { tokenHash, revokedAt: null, expiresAt: { $gt: now } },
+    {
+      revokedAt: now,
+      revokedReason: "rotated",
+      replacedByHash: hashToken(newTokens.refreshToken),
+    },
+  );
+
+  if (!claimed) {
+    // the token is valid JWT but not usable, check if it was already rotated once before
+    const existing = await RefreshToken.findOne({ tokenHash });
+
+    // two tabs refreshing at the same moment both present the same token, and only one of them wins the update above
+    // within the grace period after the rotation the other one gets its own pair in the family instead of signing everyone out
+    // the successor must not have been revoked (e.g. by logging out), it may not be saved yet while the winning request finishes
+    if (
+      existing?.revokedReason === "rotated" &&
+      existing.revokedAt &&
+      now.getTime() - existing.revokedAt.getTime() <
+        getRefreshTokenSettings().reuseGraceMs &&
+      !(await RefreshToken.exists({
+        tokenHash: existing.replacedByHash,
+        revokedAt: { $ne: null },
+      }))
+    ) {
+      await saveRefreshToken(newTokens.refreshToken);
+      return { ...newTokens, sessionId: payload.family, user };
+    }
+
+    // a token that was already swapped for a new one is being presented again, someone else has a copy of it
+    // revoke the whole family so both the attacker and the legitimate user have to log in again
+    if (existing && existing.revokedReason === "rotated") {
+      await revokeTokenFamily(existing.family, "reuse");
+      logger.warn("Refresh token reuse detected, token family revoked", {
+        userId: existing.user.toString(),
+        family: existing.family,
+      });
+    }
+
+    return null;
+  }
+
+  // store the replacement token so it can be rotated next time
+  await saveRefreshToken(newTokens.refreshToken);
+
+  return { ...newTokens, sessionId: payload.family, user };
+};
+
+// revoke a single refresh token, e.g. on logout, unknown tokens are ignored
+export const revokeRefreshToken = async (
+  refreshToken: string,
+  reason: RefreshTokenRevokedReason = "logout",
+): Promise<void> => {
+  await RefreshToken.updateOne(
+    { tokenHash: hashToken(refreshToken), revokedAt: null },
+    { revokedAt: new Date(), revokedReason: reason },
+  );
+};
+
+// revoke every still-active token in a family, used when reuse is detected or a session is signed out
+export const revokeTokenFamily = async (
+  family: string,
+  reason: RefreshTokenRevokedReason,
+): Promise<void> => {
+  const now = new Date();
+  await RefreshToken.updateMany(
+    { family, revokedAt: null },
+    { revokedAt: now, revokedReason: reason },
+  );
+
+  // the family id is the id of the session the tokens were issued for, so the session ends with its tokens
+  // tokens issued before sessions existed have a random UUID family with no session behind it
+  if (isValidObjectId(family)) {
+    await Session.updateOne(
+      { _id: family, revokedAt: null },
+      { revokedAt: now },
+    );
+  }
+};
+
+// revoke every refresh token and session a user has, e.g. after a password reset signs them out everywhere
+// personal access tokens are deleted too, every caller is a case where whoever made them may not have been the user
+export const revokeAllUserTokens = async (
+  userId: string,
+  reason: RefreshTokenRevokedReason,
+): Promise<void> => {
+  const now = new Date();
+  await RefreshToken.updateMany(
+    { user: userId, revokedAt: null },
+    { revokedAt: now, revokedReason: reason },
+  );
+  await Session.updateMany(
+    { user: userId, revokedAt: null },
+    { revokedAt: now },
+  );
+  await PersonalAccessToken.deleteMany({ user: userId });
+};
@@ -0,0 +1,28 @@
+// per-request context kept in AsyncLocalStorage, so every log line written while handling a request carries its request id
+// without passing req down to every helper
+import { AsyncLocalStorage } from "node:async_hooks";
+
+export interface RequestContext {
+  requestId: string;
+  userId?: string; // set by verifyJWT once the caller is known
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+// run the rest of the request (and everything it awaits) with this context
+export const runWithRequestContext = <T>(
+  context: RequestContext,
+  callback: () => T,
+): T => storage.run(context, callback);
+
+// get the context of the request being handled, undefined outside a request (startup, scheduled jobs)
+export const getRequestContext = (): RequestContext | undefined =>
+  storage.getStore();
+
+// remember who made the request, so log lines after authentication say which user they're about
+export const setRequestUser = (userId: string) => {
+  const context = storage.getStore();
+  if (context) {
+    context.userId = userId;
+  }
+};
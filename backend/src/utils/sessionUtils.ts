@@ -0,0 +1,125 @@
+// utility functions for creating and updating login sessions, used in authController and sessionController
+import type { Request, Response } from "express";
+import Session, { SESSION_LIFETIME_MS } from "../models/Session.js";
+import type { ISession } from "../models/Session.js";
+import type { IUser } from "../models/User.js";
+import type { SessionResponse } from "../types/index.js";
+import {
+  generateTokens,
+  getAccessClaims,
+  setRefreshTokenCookie,
+} from "./tokenUtils.js";
+import { saveRefreshToken } from "./refreshTokenUtils.js";
+import { cancelAccountDeletion } from "./accountDeletion.js";
+
+// read the device details we show in the sessions list from the request
+const getClientInfo = (req: Request) => ({
+  userAgent: req.get("user-agent") || "",
+  ip: req.ip || "",
+});
+
+// create a new session for a login, the returned session id is passed to generateTokens() as the token family
+export const createSession = async (
+  userId: string,
+  req: Request,
+): Promise<ISession> => {
+  return Session.create({ user: userId, ...getClientInfo(req) });
+};
+
+// why an account can't sign in, whichever login method it uses
+// snake_case because the OAuth and magic link redirects pass them to the frontend as error codes
+export type LoginBlock =
+  | "account_disabled"
+  | "password_reset_required"
+  | "account_deleted";
+
+// the message for each, the user has proven who they are by then so it's safe to say why
+export const loginBlockMessages: Record<LoginBlock, string> = {
+  account_disabled: "This account has been disabled",
+  password_reset_required:
+    "You must reset your password before logging in. Check your email for a reset link.",
+  account_deleted: "This account has been deleted",
+};
+
+// check the flags that stop an account from signing in: disabled by an admin, a new password required by an admin,
+// or a deletion the purge job has started carrying out
+// startSession() enforces this for every login method, controllers call it earlier too so a blocked user isn't asked for a two-factor code
+export const getLoginBlock = (user: IUser): LoginBlock | null => {
+  if (user.disabledAt) return "account_disabled";
+  if (user.passwordResetRequired) return "password_reset_required";
+  if (user.purgeStartedAt) return "account_deleted";
+  return null;
+};
+
+// answer a login for a blocked account with 403 and the reason
+export const sendLoginBlockResponse = (res: Response, block: LoginBlock) => {
+  res.status(403).json({ message: loginBlockMessages[block] });
+};
+
+// sign a user in on this device once they've proven who they are (password, two-factor code, etc.)
+// cancels a scheduled account deletion, creates the session, generates and stores the token pair, sets the refresh token cookie and returns the access token
+// returns the reason instead when the account isn't allowed to sign in, see getLoginBlock()
+export const startSession = async (
+  req: Request,
+  res: Response,
+  user: IUser,
+): Promise<{ token: string } | { error: LoginBlock }> => {
+  const block = getLoginBlock(user);
+  if (block) {
+    return { error: block };
+  }
+
+  // logging in during the account deletion grace period keeps the account
+  await cancelAccountDeletion(user);
+
+  // start a session for this device, its id becomes the refresh token family
+  const session = await createSession(user._id.toString(), req);
+
+  // generate JWT and refresh token for the user using the utility function
+  const { token, refreshToken } = generateTokens(
+    user._id.toString(),
+    user.email,
+    session._id.toString(),
+    getAccessClaims(user),
+  );
+
+  // store the refresh token so it can be rotated and revoked later
+  await saveRefreshToken(refreshToken);
+
+  // set the refresh token as an HTTP-only cookie with a 7 day expiration
+  setRefreshTokenCookie(res, refreshToken);
+
+  return { token };
+};
+
+// record that a session was just used (e.g. on refresh) and push its expiry forward
+export const touchSession = async (
+  sessionId: string,
+  req: Request,
+): Promise<void> => {
+  const now = new Date();
+  await Session.updateOne(
+    { _id: sessionId, revokedAt: null },
+    {
+      ...getClientInfo(req),
+      lastUsedAt: now,
+      expiresAt: new Date(now.getTime() + SESSION_LIFETIME_MS),
+    },
+  );
+};
+
+// utility to format a session for API responses, flagging the session that made the request
+export const formatSession = (
+  session: ISession,
+  currentSessionId: string | undefined,
+): SessionResponse => {
+  const sessionId = session._id.toString();
+  return {
+    _id: sessionId,
+    userAgent: session.userAgent,
+    ip: session.ip,
+    createdAt: session.createdAt,
+    lastUsedAt: session.lastUsedAt,
+    current: sessionId === currentSessionId,
+  };
+};
@@ -1,52 +1,115 @@
 // utility functions for generating JWT tokens, used in authController and authMiddleware
+// access and refresh tokens are signed with the keys from config/jwtConfig.ts, the single-purpose tokens with JWT_SECRET
 import jwt from "jsonwebtoken";
+// import randomUUID to give every refresh token a unique id and every login a new token family
+import { randomUUID } from "node:crypto";
 // import the IUser interface from the User model to use in the prepareAuthResponse function
 import type { IUser } from "../models/User.js";
 // import Response type from Express for type safety in the setRefreshTokenCookie function
 import type { Response } from "express";
 
-import type { JWTPayload, UserResponse } from "../types/index.js";
+import type {
+  JWTPayload,
+  RefreshTokenPayload,
+  UserResponse,
+} from "../types/index.js";
+import { getPermissionsForRoles } from "../config/roleConfig.js";
+import { getAvatarUrl } from "../config/avatarConfig.js";
+import { getJwtSettings } from "../config/jwtConfig.js";
+import { getAppConfig } from "../config/appConfig.js";
+import { signJwt, verifyJwt } from "./jwtUtils.js";
+import type { JwtClaims } from "./jwtUtils.js";
+
+// the role claims that go in a user's tokens
+export type AccessClaims = Required<Pick<JWTPayload, "roles" | "permissions">>;
+
+// get the roles and effective permissions to put in a user's tokens
+export const getAccessClaims = (
+  user: Pick<IUser, "roles" | "permissions">,
+): AccessClaims => ({
+  roles: user.roles,
+  permissions: getPermissionsForRoles(user.roles, user.permissions),
+});
+
+// the typ header of each kind of token, checked strictly so a refresh token can't be used as an access token or the other way round
+const ACCESS_TOKEN_TYPE = "at+jwt";
+const REFRESH_TOKEN_TYPE = "refresh+jwt";
+
+const ACCESS_TOKEN_TTL_SECONDS = 15 * 60; // 15 minutes
+const REFRESH_TOKEN_TTL_SECONDS = 7 * 24 * 60 * 60; // 7 days
 
 // Helper function to generate a JWT and refresh token for a user, given their user ID and email
+// the session id is also the refresh token family, pass the same id when rotating to keep the new tokens in the same session
+// pass getAccessClaims(user) as access so requireRole/requirePermission can check the token without a database lookup
 export const generateTokens = (
   userId: string,
   email: string,
+  sessionId: string = randomUUID(),
+  access: AccessClaims = { roles: ["user"], permissions: [] },
 ): { token: string; refreshToken: string } => {
-  // generate jwt token with user ID and email as payload, signed with the secret from .env
-  const secret = process.env.JWT_SECRET;
+  const { accessAudience, refreshAudience } = getJwtSettings();
 
-  // if the secret is not defined, log the error for debugging purposes, but throw a generic error to be handled by error middleware
-  if (!secret) {
-    console.error("JWT_SECRET is not defined in environment variables");
-    throw new Error("Server configuration error: missing JWT_SECRET");
-  }
+  // create the payload with user ID, email, the session the tokens belong to and the user's roles
+  // sub is the standard claim other services look for, userId stays for our own code
+  const payload: JWTPayload = { userId, email, sessionId, ...access };
 
-  // create the payload with user ID and email
-  const payload: JWTPayload = { userId, email };
+  // generate the access token with a 15min expiration
+  const token = signJwt(
+    { ...payload, sub: userId },
+    {
+      typ: ACCESS_TOKEN_TYPE,
+      audience: accessAudience,
+      expiresInSeconds: ACCESS_TOKEN_TTL_SECONDS,
+    },
+  );
 
-  // generate the jwt with a 15min expiration
-  const token = jwt.sign(payload, secret, { expiresIn: "15m" });
+  // the refresh token also carries a unique id (jti) so two tokens issued in the same second never collide, and its family
+  const refreshPayload: RefreshTokenPayload = {
+    ...payload,
+    jti: randomUUID(),
+    family: sessionId,
+  };
 
   // generate refresh token with 7 day expiration
-  const refreshToken = jwt.sign(payload, secret, { expiresIn: "7d" });
+  const refreshToken = signJwt(
+    { ...refreshPayload, sub: userId },
+    {
+      typ: REFRESH_TOKEN_TYPE,
+      audience: refreshAudience,
+      expiresInSeconds: REFRESH_TOKEN_TTL_SECONDS,
+    },
+  );
 
   // return both tokens as an object
   return { token, refreshToken };
 };
 
-// function to only generate the access token without the refresh token, used for refreshing the access token
-// see above function for comments on error handling and secret management, which are the same for both functions
-export const generateAccessToken = (userId: string, email: string): string => {
-  const secret = process.env.JWT_SECRET;
-  // if the secret is not defined, log the error for debugging purposes, but throw a generic error to be handled by error middleware
-  if (!secret) {
-    console.error("JWT_SECRET is not defined in environment variables");
-    throw new Error("Server configuration error: missing JWT_SECRET");
-  }
+// check an access token and return its claims, throws when the token is invalid, expired or not an access token
+export const verifyAccessToken = (token: string): JwtClaims =>
+  verifyJwt(token, {
+    typ: ACCESS_TOKEN_TYPE,
+    audience: getJwtSettings().accessAudience,
+  });
 
-  const payload: JWTPayload = { userId, email };
-  const token = jwt.sign(payload, secret, { expiresIn: "15m" });
-  return token;
+// check a refresh token and return its claims, null when the token is invalid, expired, not a refresh token or has no family
+export const verifyRefreshToken = (
+  token: string,
+): (RefreshTokenPayload & JwtClaims) | null => {
+  try {
+    const claims = verifyJwt(token, {
+      typ: REFRESH_TOKEN_TYPE,
+      audience: getJwtSettings().refreshAudience,
+    });
+    if (
+      typeof claims.userId !== "string" ||
+      typeof claims.family !== "string"
+    ) {
+      return null;
+    }
+    return claims as RefreshTokenPayload & JwtClaims;
+  } catch {
+    return null;
+  }
 };
 
 // utility to format the user without password
@@ -56,9 +119,23 @@ export const formatUserWithoutPassword = (user: IUser): UserResponse => {
     _id: user._id.toString(), // convert ObjectId to string for consistency in API responses
     name: user.name,
     email: user.email,
+    pendingEmail:
+      user.pendingEmailExpires && user.pendingEmailExpires > new Date()
+        ? user.pendingEmail
+        : null,
+    displayName: user.displayName,
+    bio: user.bio,
+    timezone: user.timezone,
+    locale: user.locale,
+    avatarUrl: user.avatarId
+      ? getAvatarUrl(user._id.toString(), user.avatarId)
+      : null,
     isVerified: user.isVerified,
+    twoFactorEnabled: user.twoFactor.enabled,
+    ...getAccessClaims(user),
     createdAt: user.createdAt,
     updatedAt: user.updatedAt,
+    version: user.__v,
   };
 
   // return the user object without password
@@ -69,8 +146,216 @@ export const formatUserWithoutPassword = (user: IUser): UserResponse => {
 export const setRefreshTokenCookie = (res: Response, refreshToken: string) => {
   res.cookie("refreshToken", refreshToken, {
     httpOnly: true, // prevents client-side JavaScript from accessing the cookie for security e.g. no xss attacks
-    secure: process.env.NODE_ENV === "production", // only send cookie over HTTPS in production for security
+    secure: getAppConfig().profile === "production", // only send cookie over HTTPS in production for security
+    sameSite: "strict", // prevent CSRF attacks by only sending cookie for same-site requests
+    maxAge: REFRESH_TOKEN_TTL_SECONDS * 1000, // same lifetime as the token, in milliseconds
+  });
+};
+
+// get the JWT secret for the single-purpose tokens below, loadAppConfig() already refused to start without one in production
+const getJwtSecret = (): string => getAppConfig().jwtSecret;
+
+// generate a signed, expiring token for the email verification link
+// the user id goes in "sub" instead of "userId" so verifyJWT never accepts this token as an access token
+export const generateEmailVerificationToken = (
+  userId: string,
+  email: string,
+): string => {
+  return jwt.sign({ email, purpose: "verify-email" }, getJwtSecret(), {
+    subject: userId,
+    expiresIn: "24h",
+  });
+};
+
+// verify an email verification token, returns null if it is invalid, expired or not a verification token
+export const verifyEmailVerificationToken = (
+  token: string,
+): { userId: string; email: string } | null => {
+  const secret = getJwtSecret();
+
+  try {
+    const decoded = jwt.verify(token, secret, { algorithms: ["HS256"] });
+    // make sure this is a verification token and not some other token signed with the same secret
+    if (
+      typeof decoded === "string" ||
+      decoded.purpose !== "verify-email" ||
+      !decoded.sub ||
+      typeof decoded.email !== "string"
+    ) {
+      return null;
+    }
+    return { userId: decoded.sub, email: decoded.email };
+  } catch {
+    return null;
+  }
+};
+
+// verify a single-purpose token (user id in "sub" plus a "purpose" claim), returns the decoded payload or null
+const verifyPurposeToken = (
+  token: string,
+  purpose: string,
+): jwt.JwtPayload | null => {
+  const secret = getJwtSecret();
+  try {
+    const decoded = jwt.verify(token, secret, { algorithms: ["HS256"] });
+    if (
+      typeof decoded === "string" ||
+      decoded.purpose !== purpose ||
+      !decoded.sub
+    ) {
+      return null;
+    }
+    return decoded;
+  } catch {
+    return null;
+  }
+};
+
+// generate the short-lived challenge token returned by loginUser when the account has two-factor authentication on
+// it proves the password was correct, but can only be exchanged for real tokens at /login/2fa
+export const generateTwoFactorChallengeToken = (userId: string): string => {
+  return jwt.sign({ purpose: "2fa-challenge" }, getJwtSecret(), {
+    subject: userId,
+    expiresIn: "5m",
+  });
+};
+
+// verify a two-factor challenge token, returns the user id or null
+export const verifyTwoFactorChallengeToken = (token: string): string | null => {
+  return verifyPurposeToken(token, "2fa-challenge")?.sub ?? null;
+};
+
+// how long "remember this device" skips the two-factor step
+export const TRUSTED_DEVICE_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000; // 30 days in milliseconds
+
+// generate the "remember this device" token, stored in its own HTTP-only cookie
+export const generateTrustedDeviceToken = (userId: string): string => {
+  return jwt.sign({ purpose: "trusted-device" }, getJwtSecret(), {
+    subject: userId,
+    expiresIn: TRUSTED_DEVICE_MAX_AGE_MS / 1000, // expiresIn takes seconds
+  });
+};
+
+// verify a "remember this device" token, returns the user id and when it was issued, or null
+export const verifyTrustedDeviceToken = (
+  token: string,
+): { userId: string; issuedAt: Date } | null => {
+  const decoded = verifyPurposeToken(token, "trusted-device");
+  if (!decoded || !decoded.sub || !decoded.iat) return null;
+  return { userId: decoded.sub, issuedAt: new Date(decoded.iat * 1000) };
+};
+
+// utility to set the "remember this device" cookie after a successful two-factor login
+export const setTrustedDeviceCookie = (res: Response, token: string) => {
+  res.cookie("trustedDevice", token, {
+    httpOnly: true, // prevents client-side JavaScript from accessing the cookie for security e.g. no xss attacks
+    secure: getAppConfig().profile === "production", // only send cookie over HTTPS in production for security
     sameSite: "strict", // prevent CSRF attacks by only sending cookie for same-site requests
-    maxAge: 7 * 24 * 60 * 60 * 1000, // 7 days in milliseconds
+    maxAge: TRUSTED_DEVICE_MAX_AGE_MS,
+  });
+};
+
+// generate the token for the "cancel deletion" link emailed when a user asks to delete their account
+// it lasts as long as the grace period, after that there's no account left to restore
+export const generateDeletionCancelToken = (
+  userId: string,
+  expiresInMs: number,
+): string => {
+  return jwt.sign({ purpose: "cancel-deletion" }, getJwtSecret(), {
+    subject: userId,
+    expiresIn: Math.floor(expiresInMs / 1000), // expiresIn takes seconds
+  });
+};
+
+// verify a "cancel deletion" token, returns the user id or null
+export const verifyDeletionCancelToken = (token: string): string | null => {
+  return verifyPurposeToken(token, "cancel-deletion")?.sub ?? null;
+};
+
+// generate the token that signs a data export download link, so the link works without logging in until it expires
+export const generateDataExportToken = (
+  userId: string,
+  exportId: string,
+  expiresInMs: number,
+): string => {
+  return jwt.sign({ purpose: "data-export", exportId }, getJwtSecret(), {
+    subject: userId,
+    expiresIn: Math.floor(expiresInMs / 1000), // expiresIn takes seconds
   });
 };
+
+// verify a data export token, returns the user and export ids or null
+export const verifyDataExportToken = (
+  token: string,
+): { userId: string; exportId: string } | null => {
+  const decoded = verifyPurposeToken(token, "data-export");
+  if (!decoded || !decoded.sub || typeof decoded.exportId !== "string") {
+    return null;
+  }
+  return { userId: decoded.sub, exportId: decoded.exportId };
+};
+
+// generate the token for the link that confirms an email change, sent to the new address
+// it carries the new address, so the link stops working once the user asks for a different one or cancels
+export const generateEmailChangeToken = (
+  userId: string,
+  newEmail: string,
+  expiresInMs: number,
+): string => {
+  return jwt.sign(
+    { purpose: "confirm-email-change", email: newEmail },
+    getJwtSecret(),
+    {
+      subject: userId,
+      expiresIn: Math.floor(expiresInMs / 1000), // expiresIn takes seconds
+    },
+  );
+};
+
+// verify an email change confirmation token, returns the user id and new address or null
+export const verifyEmailChangeToken = (
+  token: string,
+): { userId: string; email: string } | null => {
+  const decoded = verifyPurposeToken(token, "confirm-email-change");
+  if (!decoded || !decoded.sub || typeof decoded.email !== "string") {
+    return null;
+  }
+  return { userId: decoded.sub, email: decoded.email };
+};
+
+// generate the token for the "this wasn't me" link sent to the old address when an email change is requested
+export const generateEmailRevertToken = (
+  userId: string,
+  oldEmail: string,
+  newEmail: string,
+  expiresInMs: number,
+): string => {
+  return jwt.sign(
+    { purpose: "revert-email-change", oldEmail, newEmail },
+    getJwtSecret(),
+    {
+      subject: userId,
+      expiresIn: Math.floor(expiresInMs / 1000), // expiresIn takes seconds
+    },
+  );
+};
+
+// verify an email change revert token, returns the user id and both addresses or null
+export const verifyEmailRevertToken = (
+  token: string,
+): { userId: string; oldEmail: string; newEmail: string } | null => {
+  const decoded = verifyPurposeToken(token, "revert-email-change");
+  if (
+    !decoded ||
+    !decoded.sub ||
+    typeof decoded.oldEmail !== "string" ||
+    typeof decoded.newEmail !== "string"
+  ) {
+    return null;
+  }
+  return {
+    userId: decoded.sub,
+    oldEmail: decoded.oldEmail,
+    newEmail: decoded.newEmail,
+  };
+};
@@ -0,0 +1,85 @@
+// utility functions shared by the two-factor login step and the two-factor settings endpoints
+import bcrypt from "bcrypt";
+import type { Request } from "express";
+import User from "../models/User.js";
+import type { IUser } from "../models/User.js";
+import { verifyTotpCode, normalizeBackupCode } from "./totpUtils.js";
+import { verifyTrustedDeviceToken } from "./tokenUtils.js";
+
+// the two-factor secrets are excluded from queries by default, pass this to .select() when you need them
+export const TWO_FACTOR_SECRET_FIELDS =
+  "+twoFactor.secret +twoFactor.pendingSecret +twoFactor.backupCodeHashes";
+
+// hash backup codes with bcrypt, the codes are short so a fast hash like SHA-256 could be brute forced from a database leak
+export const hashBackupCodes = async (codes: string[]): Promise<string[]> => {
+  return Promise.all(codes.map((code) => bcrypt.hash(code, 10)));
+};
+
+// check a TOTP code or one-time backup code for a user with two-factor authentication enabled
+// the used time step or backup code is claimed in the database straight away with a conditional update, so two requests
+// with the same code can't both pass, the user document is updated to match but not marked as changed for a later save()
+// the user must be loaded with TWO_FACTOR_SECRET_FIELDS selected
+export const verifySecondFactor = async (
+  user: IUser,
+  code: string,
+): Promise<boolean> => {
+  const { secret, lastUsedStep, backupCodeHashes } = user.twoFactor;
+  if (!user.twoFactor.enabled || !secret) return false;
+
+  // authenticator app codes are 6 digits
+  const step = verifyTotpCode(secret, code);
+  if (step !== null) {
+    // reject a code from a time step that was already used, so an intercepted code can't be replayed
+    if (lastUsedStep !== null && step <= lastUsedStep) return false;
+    const { modifiedCount } = await User.updateOne(
+      {
+        _id: user._id,
+        $or: [
+          { "twoFactor.lastUsedStep": null },
+          { "twoFactor.lastUsedStep": { $lt: step } },
+        ],
+      },
+      { "twoFactor.lastUsedStep": step },
+    );
+    if (modifiedCount === 0) return false;
+    user.twoFactor.lastUsedStep = step;
+    user.unmarkModified("twoFactor.lastUsedStep");
+    return true;
+  }
+
+  // otherwise try the backup codes, each one only works once
+  const normalized = normalizeBackupCode(code);
+  for (const hash of backupCodeHashes) {
+    if (await bcrypt.compare(normalized, hash)) {
+      const { modifiedCount } = await User.updateOne(
+        { _id: user._id, "twoFactor.backupCodeHashes": hash },
+        { $pull: { "twoFactor.backupCodeHashes": hash } },
+      );
+      if (modifiedCount === 0) return false;
+      user.twoFactor.backupCodeHashes = backupCodeHashes.filter(
+        (other) => other !== hash,
+      );
+      user.unmarkModified("twoFactor.backupCodeHashes");
+      return true;
+    }
+  }
+
+  return false;
+};
+
+// check the "remember this device" cookie, so loginUser can skip the two-factor step
+export const isTrustedDevice = (req: Request, user: IUser): boolean => {
+  const { trustedDevice } = req.cookies;
+  if (!trustedDevice) return false;
+
+  const payload = verifyTrustedDeviceToken(trustedDevice);
+  if (!payload || payload.userId !== user._id.toString()) return false;
+
+  // cookies issued before two-factor was (re-)enabled don't count, iat only has second precision so compare in seconds
+  const enabledAt = user.twoFactor.enabledAt;
+  if (!enabledAt) return false;
+  return (
+    Math.floor(payload.issuedAt.getTime() / 1000) >=
+    Math.floor(enabledAt.getTime() / 1000)
+  );
+};
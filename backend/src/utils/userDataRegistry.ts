@@ -0,0 +1,51 @@
+// registry of the user data other modules store, so account-wide features can't miss a collection
+// every module that stores data owned by a user registers a cleanup (for purging the account) and, if the user should get
+// a copy of it, an exporter (for the personal data export) here, usually next to the model
+import type { IUser } from "../models/User.js";
+
+// a cleanup gets the user being purged and deletes (or anonymizes) everything it stores for them
+export type UserDataCleanup = (user: IUser) => Promise<unknown>;
+
+// an exporter returns what it stores for the user as plain JSON-friendly data, leave out secrets and hashes
+export type UserDataExporter = (user: IUser) => Promise<unknown>;
+
+const cleanups = new Map<string, UserDataCleanup>();
+const exporters = new Map<string, UserDataExporter>();
+
+// register a cleanup under a unique name
+// registering the same name again replaces the cleanup, so re-importing a module doesn't run it twice
+export const registerUserDataCleanup = (
+  name: string,
+  cleanup: UserDataCleanup,
+) => {
+  cleanups.set(name, cleanup);
+};
+
+// register an exporter under a unique name, its data is written to <name>.json in the export archive
+export const registerUserDataExporter = (
+  name: string,
+  exporter: UserDataExporter,
+) => {
+  exporters.set(name, exporter);
+};
+
+// names of the registered cleanups, in the order they run
+export const getUserDataCleanupNames = (): string[] => [...cleanups.keys()];
+
+// run every registered cleanup for a user, one at a time in registration order
+export const runUserDataCleanups = async (user: IUser): Promise<void> => {
+  for (const cleanup of cleanups.values()) {
+    await cleanup(user);
+  }
+};
+
+// run every registered exporter for a user, returns their data by name
+export const collectUserDataExports = async (
+  user: IUser,
+): Promise<Record<string, unknown>> => {
+  const data: Record<string, unknown> = {};
+  for (const [name, exporter] of exporters) {
+    data[name] = await exporter(user);
+  }
+  return data;
+};
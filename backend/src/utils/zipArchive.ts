@@ -0,0 +1,97 @@
+// minimal ZIP writer for the personal data export, implemented with node:zlib so we don't need an extra dependency
+// only what the export needs: deflated files in a single archive, no folders, encryption or ZIP64 (so every file must be under 4 GB)
+import { promisify } from "node:util";
+import { crc32, deflateRaw } from "node:zlib";
+
+// the async deflate runs on the libuv thread pool, so compressing a big export doesn't block other requests
+const deflateRawAsync = promisify(deflateRaw);
+
+export interface ZipEntry {
+  name: string; // path inside the archive, e.g. "profile.json"
+  content: Buffer | string; // strings are written as UTF-8
+}
+
+// ZIP stores times in MS-DOS format: 2 second precision, local time, years from 1980
+const toDosDateTime = (date: Date) => ({
+  time:
+    (date.getHours() << 11) |
+    (date.getMinutes() << 5) |
+    Math.floor(date.getSeconds() / 2),
+  date:
+    ((date.getFullYear() - 1980) << 9) |
+    ((date.getMonth() + 1) << 5) |
+    date.getDate(),
+});
+
+// general purpose flag bit 11: file names are UTF-8
+const UTF8_FLAG = 0x0800;
+// compression method 8 is deflate, every unzip tool supports it
+const DEFLATE = 8;
+// version 2.0 of the spec is enough for deflate
+const ZIP_VERSION = 20;
+
+// build a ZIP archive from a list of files
+export const createZipArchive = async (
+  entries: ZipEntry[],
+  modifiedAt: Date = new Date(),
+): Promise<Buffer> => {
+  const { time, date } = toDosDateTime(modifiedAt);
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, "utf8");
+    const content = Buffer.isBuffer(entry.content)
+      ? entry.content
+      : Buffer.from(entry.content, "utf8");
+    const compressed = await deflateRawAsync(content);
+    const checksum = crc32(content);
+
+    // local file header, written right before the file's data
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0); // signature
+    local.writeUInt16LE(ZIP_VERSION, 4); // version needed to extract
+    local.writeUInt16LE(UTF8_FLAG, 6);
+    local.writeUInt16LE(DEFLATE, 8);
+    local.writeUInt16LE(time, 10);
+    local.writeUInt16LE(date, 12);
+    local.writeUInt32LE(checksum, 14);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(content.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    local.writeUInt16LE(0, 28); // no extra field
+
+    // central directory header, the index at the end of the archive that unzip tools read first
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0); // signature
+    central.writeUInt16LE(ZIP_VERSION, 4); // version made by
+    central.writeUInt16LE(ZIP_VERSION, 6); // version needed to extract
+    central.writeUInt16LE(UTF8_FLAG, 8);
+    central.writeUInt16LE(DEFLATE, 10);
+    central.writeUInt16LE(time, 12);
+    central.writeUInt16LE(date, 14);
+    central.writeUInt32LE(checksum, 16);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(content.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    // extra field length, comment length, disk number, internal and external attributes are all 0
+    central.writeUInt32LE(offset, 42); // where the local header starts
+
+    localParts.push(local, name, compressed);
+    centralParts.push(central, name);
+    offset += local.length + name.length + compressed.length;
+  }
+
+  const centralDirectory = Buffer.concat(centralParts);
+
+  // end of central directory record, says how many files there are and where the index starts
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0); // signature
+  end.writeUInt16LE(entries.length, 8); // entries on this disk
+  end.writeUInt16LE(entries.length, 10); // total entries
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...localParts, centralDirectory, end]);
+};
@@ -5,6 +5,19 @@ import { Login } from "./pages/Login";
 import { Register } from "./pages/Register";
 import { Dashboard } from "./pages/Dashboard";
 import { Profile } from "./pages/Profile";
+import { CheckInbox } from "./pages/CheckInbox";
+import { VerifyEmail } from "./pages/VerifyEmail";
+import { ForgotPassword } from "./pages/ForgotPassword";
+import { ResetPassword } from "./pages/ResetPassword";
+import { OAuthCallback } from "./pages/OAuthCallback";
+import { MagicLink } from "./pages/MagicLink";
+import { AdminUsers } from "./pages/AdminUsers";
+import { CancelDeletion } from "./pages/CancelDeletion";
+import { ConfirmEmailChange } from "./pages/ConfirmEmailChange";
+import { RevertEmailChange } from "./pages/RevertEmailChange";
+import { OrganizationSettings } from "./pages/OrganizationSettings";
+import { AcceptInvite } from "./pages/AcceptInvite";
+import { config } from "./config";
 
 export const App = () => {
   return (
@@ -13,6 +26,25 @@ export const App = () => {
         <Route path="/" element={<Layout />}>
           <Route path="/login" element={<Login />} />
           <Route path="/register" element={<Register />} />
+          <Route path="/verify-email" element={<VerifyEmail />} />
+          <Route path="/forgot-password" element={<ForgotPassword />} />
+          <Route path="/reset-password" element={<ResetPassword />} />
+          <Route path="/oauth/callback" element={<OAuthCallback />} />
+          <Route path="/magic-link" element={<MagicLink />} />
+          <Route path="/cancel-deletion" element={<CancelDeletion />} />
+          <Route
+            path="/confirm-email-change"
+            element={<ConfirmEmailChange />}
+          />
+          <Route path="/revert-email-change" element={<RevertEmailChange />} />
+          <Route
+            path="/check-inbox"
+            element={
+              <ProtectedRoute>
+                <CheckInbox />
+              </ProtectedRoute>
+            }
+          />
           <Route
             path="/dashboard"
             element={
@@ -37,6 +69,27 @@ export const App = () => {
               </ProtectedRoute>
             }
           />
+          {config.features.organizations && (
+            <>
+              <Route path="/accept-invite" element={<AcceptInvite />} />
+              <Route
+                path="/organization"
+                element={
+                  <ProtectedRoute>
+                    <OrganizationSettings />
+                  </ProtectedRoute>
+                }
+              />
+            </>
+          )}
+          <Route
+            path="/admin/users"
+            element={
+              <ProtectedRoute permission="users:read">
+                <AdminUsers />
+              </ProtectedRoute>
+            }
+          />
         </Route>
       </Routes>
     </BrowserRouter>
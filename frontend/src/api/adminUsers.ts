@@ -0,0 +1,174 @@
+import apiClient from "./client";
+import type { Permission, Role } from "../context/AuthContext";
+import { toAuthError } from "../utils/toAuthError";
+
+// Calls for the admin user-management API (/api/admin/users)
+// These aren't in AuthContext because only the admin console uses them
+
+// A user as the admin API returns it, with the account status fields regular users don't see
+export interface AdminUser {
+  id: string;
+  name: string;
+  email: string;
+  isVerified: boolean;
+  twoFactorEnabled: boolean;
+  roles: Role[];
+  permissions: Permission[];
+  createdAt: string;
+  disabledAt: string | null; // Null while the account is active
+  disabledReason: string | null;
+  passwordResetRequired: boolean; // True after an admin forces a password reset
+  deletionScheduledFor: string | null; // Set while the user's own deletion request is in its grace period
+}
+
+// A single user with counts of what is attached to the account
+export interface AdminUserDetail extends AdminUser {
+  activeSessions: number;
+  passkeys: number;
+  linkedAccounts: number;
+}
+
+export type AdminUserSort =
+  | "createdAt"
+  | "-createdAt"
+  | "name"
+  | "-name"
+  | "email"
+  | "-email";
+
+// Filters for the user list, empty strings mean "any"
+export interface AdminUserQuery {
+  page: number;
+  limit: number;
+  search: string;
+  role: Role | "";
+  status: "active" | "disabled" | "";
+  verified: "true" | "false" | "";
+  sort: AdminUserSort;
+}
+
+export interface AdminUserPage {
+  users: AdminUser[];
+  page: number;
+  limit: number;
+  total: number;
+  totalPages: number;
+}
+
+// Fields an admin can change on a user, roles needs the roles:manage permission
+export interface AdminUserUpdate {
+  name?: string;
+  email?: string;
+  roles?: Role[];
+}
+
+// Transform backend user object: rename _id to id like we do in AuthProvider
+const transformAdminUser = ({
+  _id,
+  ...user
+}: Omit<AdminUser, "id"> & { _id: string }): AdminUser => ({
+  id: _id,
+  ...user,
+});
+
+// Same as above, keeping the counts the detail endpoint adds
+const transformAdminUserDetail = ({
+  activeSessions,
+  passkeys,
+  linkedAccounts,
+  ...user
+}: Omit<AdminUserDetail, "id"> & { _id: string }): AdminUserDetail => ({
+  ...transformAdminUser(user),
+  activeSessions,
+  passkeys,
+  linkedAccounts,
+});
+
+// ListUsers: Call GET /admin/users with the filters, leaving out the ones set to "any"
+export const listUsers = async (
+  query: AdminUserQuery,
+): Promise<AdminUserPage> => {
+  const params = Object.fromEntries(
+    Object.entries(query).filter(([, value]) => value !== ""),
+  );
+  try {
+    const response = await apiClient.get("/admin/users", { params });
+    return {
+      ...response.data,
+      users: response.data.users.map(transformAdminUser),
+    };
+  } catch (error) {
+    throw toAuthError(error);
+  }
+};
+
+// GetUser: Call GET /admin/users/:id for the detail view
+export const getUser = async (userId: string): Promise<AdminUserDetail> => {
+  try {
+    const response = await apiClient.get(`/admin/users/${userId}`);
+    return transformAdminUserDetail(response.data.user);
+  } catch (error) {
+    throw toAuthError(error);
+  }
+};
+
+// UpdateUser: Call PATCH /admin/users/:id with only the fields that changed
+export const updateUser = async (
+  userId: string,
+  changes: AdminUserUpdate,
+): Promise<AdminUser> => {
+  try {
+    const response = await apiClient.patch(`/admin/users/${userId}`, changes);
+    return transformAdminUser(response.data.user);
+  } catch (error) {
+    throw toAuthError(error);
+  }
+};
+
+// DisableUser: Block sign in and sign the user out everywhere, the reason is optional
+export const disableUser = async (
+  userId: string,
+  reason: string,
+): Promise<AdminUser> => {
+  try {
+    const response = await apiClient.post(`/admin/users/${userId}/disable`, {
+      ...(reason && { reason }),
+    });
+    return transformAdminUser(response.data.user);
+  } catch (error) {
+    throw toAuthError(error);
+  }
+};
+
+// EnableUser: Let a disabled user sign in again
+export const enableUser = async (userId: string): Promise<AdminUser> => {
+  try {
+    const response = await apiClient.post(`/admin/users/${userId}/enable`);
+    return transformAdminUser(response.data.user);
+  } catch (error) {
+    throw toAuthError(error);
+  }
+};
+
+// ForcePasswordReset: Email the user a reset link and block password sign in until they use it
+export const forcePasswordReset = async (
+  userId: string,
+): Promise<AdminUser> => {
+  try {
+    const response = await apiClient.post(
+      `/admin/users/${userId}/force-password-reset`,
+    );
+    return transformAdminUser(response.data.user);
+  } catch (error) {
+    throw toAuthError(error);
+  }
+};
+
+// RevokeUserTokens: Sign the user out on every device
+export const revokeUserTokens = async (userId: string): Promise<void> => {
+  try {
+    await apiClient.post(`/admin/users/${userId}/revoke-tokens`);
+  } catch (error) {
+    throw toAuthError(error);
+  }
+};
@@ -1,10 +1,61 @@
 import axios from "axios";
+import { config as appConfig } from "../config";
 // Create an Axios instance with default configuration
 const apiClient = axios.create({
-  baseURL: "http://localhost:5000/api", // Base URL for the backend API
+  baseURL: appConfig.apiUrl, // Base URL for the backend API, from VITE_API_URL
   withCredentials: true, // Include cookies in requests for refresh token handling
 });
 
+// Refresh tokens are single-use (rotated on every refresh), so parallel 401s must share one refresh request
+// Otherwise the second request would present an already rotated token and the backend would revoke the session
+let refreshPromise: Promise<string> | null = null;
+
+const refreshAccessToken = () => {
+  if (!refreshPromise) {
+    refreshPromise = apiClient
+      .post("/auth/refresh")
+      .then((response) => response.data.token as string)
+      .finally(() => {
+        refreshPromise = null; // Allow a new refresh once this one settles
+      });
+  }
+  return refreshPromise;
+};
+
+// Auth endpoints that are called without an access token, a 401 from them means the credentials, code or link was wrong
+// Refreshing and retrying would hide that error and send the user back to the login page
+const PUBLIC_AUTH_PATHS = [
+  "/auth/login", // Also covers /auth/login/2fa
+  "/auth/register",
+  "/auth/refresh",
+  "/auth/passkeys/login",
+  "/auth/magic-link",
+  "/auth/oauth/providers",
+  "/auth/verify-email",
+  "/auth/confirm-email-change",
+  "/auth/revert-email-change",
+  "/auth/forgot-password",
+  "/auth/reset-password",
+  "/auth/cancel-deletion",
+];
+
+const isPublicAuthRequest = (url: string | undefined) =>
+  !!url &&
+  PUBLIC_AUTH_PATHS.some((path) => url === path || url.startsWith(`${path}/`));
+
+// Friendly message for a rate limited request, Retry-After is in seconds
+const getRateLimitMessage = (retryAfter: number) => {
+  if (!(retryAfter > 0)) {
+    return "Too many requests. Please wait a moment and try again.";
+  }
+  const minutes = Math.ceil(retryAfter / 60);
+  const wait =
+    retryAfter < 60
+      ? `${retryAfter} second${retryAfter === 1 ? "" : "s"}`
+      : `${minutes} minute${minutes === 1 ? "" : "s"}`;
+  return `Too many requests. Please try again in ${wait}.`;
+};
+
 // Request interceptor to include the JWT token in the Authorization header for all requests
 apiClient.interceptors.request.use(
   (config) => {
@@ -13,6 +64,11 @@ apiClient.interceptors.request.use(
     if (token) {
       config.headers.Authorization = `Bearer ${token}`;
     }
+    // The organization the user is working in, routes scoped to an organization check it with requireOrgRole
+    const activeOrganizationId = localStorage.getItem("activeOrganizationId");
+    if (activeOrganizationId) {
+      config.headers["X-Organization-Id"] = activeOrganizationId;
+    }
 
     return config; // Return the modified config
   },
@@ -36,19 +92,13 @@ apiClient.interceptors.response.use(
 
       // Don't retry auth endpoints - 401 there means credentials/validation failure
       // so we should not attempt to refresh the token
-      const requestUrl = error.config.url;
-      if (
-        requestUrl?.includes("/auth/login") ||
-        requestUrl?.includes("/auth/register") ||
-        requestUrl?.includes("/auth/refresh")
-      ) {
+      if (isPublicAuthRequest(error.config.url)) {
         return Promise.reject(error); // Let the error bubble up
       }
 
       try {
-        // Attempt to refresh the token
-        const response = await apiClient.post("/auth/refresh");
-        const { token } = response.data; // Extract new token from response
+        // Attempt to refresh the token (shared with any other request that is refreshing at the same time)
+        const token = await refreshAccessToken();
         localStorage.setItem("token", token); // Store new token in localStorage
 
         // Update the Authorization header with new token and retry the original request
@@ -62,6 +112,13 @@ apiClient.interceptors.response.use(
         return Promise.reject(refreshError);
       }
     }
+    // 429 Too Many Requests - replace the backend message with one that says how long to wait
+    if (error.response?.status === 429) {
+      const retryAfter = Number(error.response.headers["retry-after"]);
+      if (error.response.data && typeof error.response.data === "object") {
+        error.response.data.message = getRateLimitMessage(retryAfter);
+      }
+    }
     return Promise.reject(error); // Pass error along for non-401 errors
   }
 );
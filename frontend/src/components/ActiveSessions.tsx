@@ -0,0 +1,107 @@
+import { useCallback, useEffect, useState } from "react";
+import { useAuth, type Session } from "../context/AuthContext";
+import { Button } from "./Button";
+import { describeUserAgent } from "../utils/describeUserAgent";
+
+// Lists every device the user is signed in on, with buttons to sign them out
+export const ActiveSessions = () => {
+  const { getSessions, revokeSession, revokeOtherSessions, logout } = useAuth();
+
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [loading, setLoading] = useState(true); // True until the first fetch finishes
+  const [error, setError] = useState<string | null>(null);
+  // Id of the session currently being revoked ("others" for the sign out everywhere else button)
+  const [revoking, setRevoking] = useState<string | null>(null);
+
+  // Fetch the sessions list, used on mount and after every revoke
+  const loadSessions = useCallback(async () => {
+    try {
+      setSessions(await getSessions());
+      setError(null);
+    } catch (error) {
+      setError((error as { message: string }).message);
+    } finally {
+      setLoading(false);
+    }
+  }, [getSessions]);
+
+  // Load sessions on mount (getSessions is memoized, so this only runs once)
+  useEffect(() => {
+    loadSessions();
+  }, [loadSessions]);
+
+  const handleRevoke = async (session: Session) => {
+    setRevoking(session.id);
+    try {
+      await revokeSession(session.id);
+      // Revoking the current session signs this browser out, so clear local auth state too
+      if (session.current) {
+        await logout();
+        return;
+      }
+      await loadSessions();
+    } catch (error) {
+      setError((error as { message: string }).message);
+    } finally {
+      setRevoking(null);
+    }
+  };
+
+  const handleRevokeOthers = async () => {
+    setRevoking("others");
+    try {
+      await revokeOtherSessions();
+      await loadSessions();
+    } catch (error) {
+      setError((error as { message: string }).message);
+    } finally {
+      setRevoking(null);
+    }
+  };
+
+  return (
+    <section className="mt-6">
+      <h2 className="mb-2 text-xl font-semibold">Active Sessions</h2>
+      {loading && <p>Loading sessions...</p>}
+      {error && <p className="text-text-error">{error}</p>}
+      <ul>
+        {sessions.map((session) => (
+          <li
+            key={session.id}
+            className="border-border mb-2 flex items-center justify-between rounded-lg border-2 p-2"
+          >
+            <div>
+              <p className="font-semibold">
+                {describeUserAgent(session.userAgent)}
+                {session.current && (
+                  <span className="text-text-success"> (this device)</span>
+                )}
+              </p>
+              <p className="text-sm">IP: {session.ip || "unknown"}</p>
+              <p className="text-sm">
+                Last active: {new Date(session.lastUsedAt).toLocaleString()}
+              </p>
+            </div>
+            <Button
+              type="button"
+              loading={revoking === session.id}
+              onClick={() => handleRevoke(session)}
+            >
+              {session.current ? "Sign out" : "Revoke"}
+            </Button>
+          </li>
+        ))}
+      </ul>
+      {sessions.length > 1 && (
+        <Button
+          type="button"
+          className="mt-2 w-full"
+          loading={revoking === "others"}
+          onClick={handleRevokeOthers}
+        >
+          Sign out everywhere else
+        </Button>
+      )}
+    </section>
+  );
+};
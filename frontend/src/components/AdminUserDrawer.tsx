@@ -0,0 +1,262 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  useAuth,
+  type Role,
+  type ValidationError,
+} from "../context/AuthContext";
+import {
+  disableUser,
+  enableUser,
+  forcePasswordReset,
+  getUser,
+  revokeUserTokens,
+  updateUser,
+  type AdminUserDetail,
+  type AdminUserUpdate,
+} from "../api/adminUsers";
+import { Button } from "./Button";
+import { FormInput } from "./FormInput";
+import { getFieldErrors } from "../utils/getFieldErrors";
+
+const ROLES: Role[] = ["user", "moderator", "admin"];
+
+interface AdminUserDrawerProps {
+  userId: string;
+  onClose: () => void;
+  onChange: () => void; // Called after any change so the list can refresh
+}
+
+// Side panel of the admin console: details for one user, an edit form and the account actions
+// Render it with key={userId} so the form resets when a different user is picked
+export const AdminUserDrawer = ({
+  userId,
+  onClose,
+  onChange,
+}: AdminUserDrawerProps) => {
+  const { user: currentUser } = useAuth();
+  const canManage = currentUser?.permissions.includes("users:manage") ?? false;
+  const canManageRoles =
+    currentUser?.permissions.includes("roles:manage") ?? false;
+
+  const [user, setUser] = useState<AdminUserDetail | null>(null);
+  const [form, setForm] = useState({
+    name: "",
+    email: "",
+    roles: [] as Role[],
+  });
+  const [disableReason, setDisableReason] = useState("");
+  const [error, setError] = useState<{
+    message: string;
+    errors?: ValidationError[];
+  } | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  // Name of the action currently running, so only that button shows loading
+  const [busy, setBusy] = useState<string | null>(null);
+
+  // Fetch the user and fill the edit form, used on mount and after every action
+  const loadUser = useCallback(async () => {
+    try {
+      const detail = await getUser(userId);
+      setUser(detail);
+      setForm({ name: detail.name, email: detail.email, roles: detail.roles });
+    } catch (error) {
+      setError(error as { message: string });
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    loadUser();
+  }, [loadUser]);
+
+  // Run an action, then reload the user and tell the list something changed
+  const runAction = async (
+    name: string,
+    action: () => Promise<unknown>,
+    successMessage: string,
+  ) => {
+    setBusy(name);
+    setError(null);
+    setNotice(null);
+    try {
+      await action();
+      setNotice(successMessage);
+      await loadUser();
+      onChange();
+    } catch (error) {
+      setError(error as { message: string; errors?: ValidationError[] });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+    // Only send the fields that changed, so the backend doesn't check permissions for untouched roles
+    const changes: AdminUserUpdate = {};
+    if (form.name !== user.name) changes.name = form.name;
+    if (form.email !== user.email) changes.email = form.email;
+    if (
+      form.roles.length !== user.roles.length ||
+      form.roles.some((role) => !user.roles.includes(role))
+    ) {
+      changes.roles = form.roles;
+    }
+    runAction("save", () => updateUser(user.id, changes), "User updated");
+  };
+
+  const toggleRole = (role: Role) => {
+    setForm((prev) => ({
+      ...prev,
+      roles: prev.roles.includes(role)
+        ? prev.roles.filter((r) => r !== role)
+        : [...prev.roles, role],
+    }));
+  };
+
+  return (
+    <aside className="bg-surface border-border fixed top-0 right-0 z-50 h-full w-full max-w-md overflow-y-auto border-l-2 p-4">
+      <div className="mb-4 flex items-center justify-between">
+        <h2 className="text-2xl font-bold">User details</h2>
+        <Button type="button" onClick={onClose}>
+          Close
+        </Button>
+      </div>
+      {error && <p className="text-text-error">{error.message}</p>}
+      {notice && <p className="text-text-success">{notice}</p>}
+      {!user && !error && <p>Loading user...</p>}
+      {user && (
+        <>
+          <ul className="mb-4 text-sm">
+            <li>Joined: {new Date(user.createdAt).toLocaleString()}</li>
+            <li>Email verified: {user.isVerified ? "Yes" : "No"}</li>
+            <li>Two-factor: {user.twoFactorEnabled ? "On" : "Off"}</li>
+            <li>Active sessions: {user.activeSessions}</li>
+            <li>Passkeys: {user.passkeys}</li>
+            <li>Linked accounts: {user.linkedAccounts}</li>
+            {user.passwordResetRequired && (
+              <li className="text-text-error">Password reset required</li>
+            )}
+            {user.deletionScheduledFor && (
+              <li className="text-text-error">
+                Deletion scheduled for{" "}
+                {new Date(user.deletionScheduledFor).toLocaleString()}
+              </li>
+            )}
+            {user.disabledAt && (
+              <li className="text-text-error">
+                Disabled {new Date(user.disabledAt).toLocaleString()}
+                {user.disabledReason && `: ${user.disabledReason}`}
+              </li>
+            )}
+          </ul>
+
+          {canManage && (
+            <>
+              <form onSubmit={handleSave} className="flex flex-col gap-2">
+                <FormInput
+                  label="Name"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  errors={getFieldErrors("name", error?.errors)}
+                  required
+                />
+                <FormInput
+                  label="Email"
+                  type="email"
+                  value={form.email}
+                  onChange={(e) => setForm({ ...form, email: e.target.value })}
+                  errors={getFieldErrors("email", error?.errors)}
+                  required
+                />
+                {canManageRoles && (
+                  <fieldset>
+                    <legend>Roles</legend>
+                    {ROLES.map((role) => (
+                      <label key={role} className="mr-4">
+                        <input
+                          type="checkbox"
+                          className="mr-1"
+                          checked={form.roles.includes(role)}
+                          onChange={() => toggleRole(role)}
+                        />
+                        {role}
+                      </label>
+                    ))}
+                  </fieldset>
+                )}
+                <Button loading={busy === "save"}>Save changes</Button>
+              </form>
+
+              <h3 className="mt-6 mb-2 text-xl font-semibold">Account</h3>
+              <div className="flex flex-col gap-2">
+                {user.disabledAt ? (
+                  <Button
+                    type="button"
+                    loading={busy === "enable"}
+                    onClick={() =>
+                      runAction(
+                        "enable",
+                        () => enableUser(user.id),
+                        "User enabled",
+                      )
+                    }
+                  >
+                    Enable account
+                  </Button>
+                ) : (
+                  <>
+                    <FormInput
+                      label="Reason for disabling (optional)"
+                      value={disableReason}
+                      onChange={(e) => setDisableReason(e.target.value)}
+                    />
+                    <Button
+                      type="button"
+                      loading={busy === "disable"}
+                      onClick={() =>
+                        runAction(
+                          "disable",
+                          () => disableUser(user.id, disableReason),
+                          "User disabled and signed out everywhere",
+                        )
+                      }
+                    >
+                      Disable account
+                    </Button>
+                  </>
+                )}
+                <Button
+                  type="button"
+                  loading={busy === "reset"}
+                  onClick={() =>
+                    runAction(
+                      "reset",
+                      () => forcePasswordReset(user.id),
+                      "Password reset email sent",
+                    )
+                  }
+                >
+                  Force password reset
+                </Button>
+                <Button
+                  type="button"
+                  loading={busy === "revoke"}
+                  onClick={() =>
+                    runAction(
+                      "revoke",
+                      () => revokeUserTokens(user.id),
+                      "User signed out everywhere",
+                    )
+                  }
+                >
+                  Sign out everywhere
+                </Button>
+              </div>
+            </>
+          )}
+        </>
+      )}
+    </aside>
+  );
+};
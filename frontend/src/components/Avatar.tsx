@@ -0,0 +1,45 @@
+interface AvatarProps {
+  url: string | null;
+  name: string; // Used for the alt text, and the initials when there's no image
+  size?: number; // Width and height in pixels
+  className?: string;
+}
+
+// Round profile picture, falls back to the user's initials when they haven't uploaded one
+export const Avatar = ({
+  url,
+  name,
+  size = 32,
+  className = "",
+}: AvatarProps) => {
+  const style = { width: size, height: size };
+
+  if (url) {
+    return (
+      <img
+        src={url}
+        alt={name}
+        style={style}
+        className={`rounded-full object-cover ${className}`}
+      />
+    );
+  }
+
+  // First letter of the first two words, e.g. "Ada Lovelace" becomes "AL"
+  const initials = name
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map((word) => word[0].toUpperCase())
+    .join("");
+
+  return (
+    <span
+      aria-hidden="true"
+      style={{ ...style, fontSize: size * 0.4 }}
+      className={`bg-interactive border-border flex items-center justify-center rounded-full border-2 ${className}`}
+    >
+      {initials}
+    </span>
+  );
+};
@@ -0,0 +1,241 @@
+import { useEffect, useState } from "react";
+import {
+  useAuth,
+  type AvatarCrop,
+  type ValidationError,
+} from "../context/AuthContext";
+import { Avatar } from "./Avatar";
+import { Button } from "./Button";
+import { getFieldErrors } from "../utils/getFieldErrors";
+
+// Same limits as the backend, checked here too so the user doesn't wait for an upload that will be rejected
+const ACCEPTED_TYPES = ["image/jpeg", "image/png", "image/webp", "image/gif"];
+const MAX_UPLOAD_BYTES = 5 * 1024 * 1024;
+
+// Size of the crop preview in pixels
+const PREVIEW_SIZE = 128;
+
+// An image the user picked, with its size once the browser has loaded it
+interface SelectedImage {
+  file: File;
+  url: string; // Object URL for previewing the file
+  width: number;
+  height: number;
+}
+
+// Work out the square to upload from the zoom and position sliders
+// Zoom 1 is the largest square that fits, the offsets (0 to 1) slide it across the image
+const getCrop = (
+  image: SelectedImage,
+  zoom: number,
+  offsetX: number,
+  offsetY: number,
+): AvatarCrop => {
+  const size = Math.floor(Math.min(image.width, image.height) / zoom);
+  return {
+    x: Math.round((image.width - size) * offsetX),
+    y: Math.round((image.height - size) * offsetY),
+    size,
+  };
+};
+
+// Avatar section of the Profile page: pick an image, choose the square to keep, then upload it, or remove the current avatar
+export const AvatarSettings = () => {
+  const { user, uploadAvatar, removeAvatar } = useAuth();
+
+  const [image, setImage] = useState<SelectedImage | null>(null);
+  const [zoom, setZoom] = useState(1);
+  const [offsetX, setOffsetX] = useState(0.5);
+  const [offsetY, setOffsetY] = useState(0.5);
+  const [error, setError] = useState<{
+    message: string;
+    errors?: ValidationError[];
+  } | null>(null);
+  // Name of the action currently running, so only that button shows loading
+  const [busy, setBusy] = useState<"upload" | "remove" | null>(null);
+
+  // Free the object URL when the image is replaced or the section unmounts
+  useEffect(() => {
+    if (!image) return;
+    return () => URL.revokeObjectURL(image.url);
+  }, [image]);
+
+  if (!user) return null;
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ""; // Allow picking the same file again after cancelling
+    if (!file) return;
+    setError(null);
+
+    if (!ACCEPTED_TYPES.includes(file.type)) {
+      setError({ message: "Choose a JPEG, PNG, WebP or GIF image" });
+      return;
+    }
+    if (file.size > MAX_UPLOAD_BYTES) {
+      setError({ message: "Image must be at most 5 MB" });
+      return;
+    }
+
+    // Load the image to find its size, the browser applies the EXIF rotation just like the backend does
+    const url = URL.createObjectURL(file);
+    const img = new Image();
+    img.onload = () => {
+      setImage({
+        file,
+        url,
+        width: img.naturalWidth,
+        height: img.naturalHeight,
+      });
+      setZoom(1);
+      setOffsetX(0.5);
+      setOffsetY(0.5);
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      setError({ message: "The image could not be read" });
+    };
+    img.src = url;
+  };
+
+  const handleUpload = async () => {
+    if (!image) return;
+    setBusy("upload");
+    setError(null);
+    try {
+      await uploadAvatar(image.file, getCrop(image, zoom, offsetX, offsetY));
+      setImage(null);
+    } catch (error) {
+      setError(error as { message: string; errors?: ValidationError[] });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleRemove = async () => {
+    setBusy("remove");
+    setError(null);
+    try {
+      await removeAvatar();
+    } catch (error) {
+      setError(error as { message: string });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  // Position the image inside the round preview so only the cropped square shows
+  const crop = image && getCrop(image, zoom, offsetX, offsetY);
+  const scale = crop ? PREVIEW_SIZE / crop.size : 1;
+
+  return (
+    <section className="mt-6">
+      <h2 className="mb-2 text-xl font-semibold">Profile Picture</h2>
+      {!image && (
+        <div className="flex items-center gap-4">
+          <Avatar
+            url={user.avatarUrl}
+            name={user.displayName || user.name}
+            size={96}
+          />
+          <div className="flex flex-col gap-2">
+            <label className="bg-interactive border-border hover:bg-interactive-hover cursor-pointer rounded-lg border-2 px-4 py-2 text-center font-semibold">
+              {user.avatarUrl ? "Change picture" : "Upload picture"}
+              <input
+                type="file"
+                accept={ACCEPTED_TYPES.join(",")}
+                className="sr-only"
+                onChange={handleFileChange}
+              />
+            </label>
+            {user.avatarUrl && (
+              <Button
+                type="button"
+                loading={busy === "remove"}
+                onClick={handleRemove}
+              >
+                Remove picture
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
+      {image && crop && (
+        <div className="flex flex-col gap-2">
+          <div
+            className="border-border relative mx-auto overflow-hidden rounded-full border-2"
+            style={{ width: PREVIEW_SIZE, height: PREVIEW_SIZE }}
+          >
+            <img
+              src={image.url}
+              alt="Crop preview"
+              className="absolute max-w-none"
+              style={{
+                width: image.width * scale,
+                height: image.height * scale,
+                left: -crop.x * scale,
+                top: -crop.y * scale,
+              }}
+            />
+          </div>
+          <label className="flex flex-col gap-0.5">
+            Zoom
+            <input
+              type="range"
+              min={1}
+              max={4}
+              step={0.01}
+              value={zoom}
+              onChange={(e) => setZoom(Number(e.target.value))}
+            />
+          </label>
+          <label className="flex flex-col gap-0.5">
+            Horizontal position
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.01}
+              value={offsetX}
+              onChange={(e) => setOffsetX(Number(e.target.value))}
+            />
+          </label>
+          <label className="flex flex-col gap-0.5">
+            Vertical position
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.01}
+              value={offsetY}
+              onChange={(e) => setOffsetY(Number(e.target.value))}
+            />
+          </label>
+          <div className="flex gap-2">
+            <Button
+              type="button"
+              className="flex-1"
+              loading={busy === "upload"}
+              onClick={handleUpload}
+            >
+              Save picture
+            </Button>
+            <Button
+              type="button"
+              className="flex-1"
+              disabled={busy === "upload"}
+              onClick={() => setImage(null)}
+            >
+              Cancel
+            </Button>
+          </div>
+        </div>
+      )}
+      {error && (
+        <p className="text-text-error">
+          {getFieldErrors("avatar", error.errors)?.join(" ") ?? error.message}
+        </p>
+      )}
+    </section>
+  );
+};
@@ -0,0 +1,121 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  useAuth,
+  type LinkedAccount,
+  type OAuthProviderInfo,
+} from "../context/AuthContext";
+import { Button } from "./Button";
+import { Divider } from "./Divider";
+
+// Connected accounts section of the Profile page: connect or disconnect each social login provider
+export const ConnectedAccounts = () => {
+  const {
+    getOAuthProviders,
+    getLinkedAccounts,
+    linkOAuthAccount,
+    unlinkAccount,
+  } = useAuth();
+
+  const [providers, setProviders] = useState<OAuthProviderInfo[]>([]);
+  const [accounts, setAccounts] = useState<LinkedAccount[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  // Id of the provider being connected or account being disconnected
+  const [busy, setBusy] = useState<string | null>(null);
+
+  // Fetch the providers and connected accounts, used on mount and after disconnecting
+  const loadAccounts = useCallback(async () => {
+    try {
+      const [enabledProviders, linkedAccounts] = await Promise.all([
+        getOAuthProviders(),
+        getLinkedAccounts(),
+      ]);
+      setProviders(enabledProviders);
+      setAccounts(linkedAccounts);
+      setError(null);
+    } catch (error) {
+      setError((error as { message: string }).message);
+    }
+  }, [getOAuthProviders, getLinkedAccounts]);
+
+  // Load on mount (both functions are memoized, so this only runs once)
+  useEffect(() => {
+    loadAccounts();
+  }, [loadAccounts]);
+
+  const handleConnect = async (providerId: string) => {
+    setBusy(providerId);
+    try {
+      // Leaves the app, the provider sends the browser back to /oauth/callback
+      await linkOAuthAccount(providerId);
+    } catch (error) {
+      setError((error as { message: string }).message);
+      setBusy(null);
+    }
+  };
+
+  const handleDisconnect = async (account: LinkedAccount) => {
+    setBusy(account.id);
+    try {
+      await unlinkAccount(account.id);
+      await loadAccounts();
+    } catch (error) {
+      setError((error as { message: string }).message);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  // Nothing to connect if the backend has no providers enabled, so hide the section and its divider
+  if (providers.length === 0) {
+    return null;
+  }
+
+  return (
+    <>
+      <Divider className="mt-6" />
+      <section className="mt-6">
+        <h2 className="mb-2 text-xl font-semibold">Connected Accounts</h2>
+        {error && <p className="text-text-error">{error}</p>}
+        <ul>
+          {providers.map((provider) => {
+            const account = accounts.find(
+              (linked) => linked.provider === provider.id,
+            );
+            return (
+              <li
+                key={provider.id}
+                className="border-border mb-2 flex items-center justify-between rounded-lg border-2 p-2"
+              >
+                <div>
+                  <p className="font-semibold">{provider.name}</p>
+                  <p className="text-sm">
+                    {account
+                      ? `Connected${account.email ? ` as ${account.email}` : ""}`
+                      : "Not connected"}
+                  </p>
+                </div>
+                {account ? (
+                  <Button
+                    type="button"
+                    loading={busy === account.id}
+                    onClick={() => handleDisconnect(account)}
+                  >
+                    Disconnect
+                  </Button>
+                ) : (
+                  <Button
+                    type="button"
+                    loading={busy === provider.id}
+                    onClick={() => handleConnect(provider.id)}
+                  >
+                    Connect
+                  </Button>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      </section>
+    </>
+  );
+};
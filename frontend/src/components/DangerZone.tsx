@@ -0,0 +1,124 @@
+import { useState } from "react";
+import { useNavigate } from "react-router";
+import { useAuth, type ValidationError } from "../context/AuthContext";
+import { Button } from "./Button";
+import { FormInput } from "./FormInput";
+import { getFieldErrors } from "../utils/getFieldErrors";
+
+// Define interface for form error states
+interface FormError {
+  message: string;
+  errors?: ValidationError[];
+}
+
+// Danger zone section of the Profile page: delete the account, after confirming with the password (and two-factor code)
+export const DangerZone = () => {
+  const { user, deleteAccount } = useAuth();
+  const navigate = useNavigate();
+
+  // The confirmation dialog is only shown after clicking the delete button
+  const [confirming, setConfirming] = useState(false);
+  const [password, setPassword] = useState("");
+  const [code, setCode] = useState("");
+  const [error, setError] = useState<FormError | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const closeDialog = () => {
+    setConfirming(false);
+    setPassword("");
+    setCode("");
+    setError(null);
+  };
+
+  const handleDelete = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setLoading(true);
+    try {
+      const deletionScheduledFor = await deleteAccount(password, code);
+      // The backend signed us out everywhere, tell the user how to change their mind on the login page
+      navigate("/login", {
+        state: {
+          notice: `Your account will be deleted on ${new Date(deletionScheduledFor).toLocaleString()}. Log in before then to keep it.`,
+        },
+      });
+    } catch (error) {
+      setError(error as FormError);
+      setLoading(false);
+    }
+  };
+
+  return (
+    <section className="mt-6">
+      <h2 className="text-text-error mb-2 text-xl font-semibold">
+        Danger Zone
+      </h2>
+      <p className="mb-2">
+        Deleting your account signs you out everywhere and permanently removes
+        your data after a grace period. Logging in again before then cancels the
+        deletion.
+      </p>
+      <Button
+        type="button"
+        className="w-full"
+        onClick={() => setConfirming(true)}
+      >
+        Delete Account
+      </Button>
+
+      {confirming && (
+        <div
+          className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4"
+          role="dialog"
+          aria-modal="true"
+          aria-labelledby="delete-account-title"
+        >
+          <form
+            onSubmit={handleDelete}
+            className="bg-surface border-border w-full max-w-md rounded-xl border-2 p-4"
+          >
+            <h3 id="delete-account-title" className="mb-2 text-xl font-bold">
+              Delete your account?
+            </h3>
+            <p className="mb-2">
+              Confirm with your password
+              {user?.twoFactorEnabled && " and a two-factor code"}. We'll email
+              you a link to cancel the deletion.
+            </p>
+            <FormInput
+              type="password"
+              label="Password"
+              containerClassName="mb-2"
+              required
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              errors={getFieldErrors("password", error?.errors)}
+            />
+            {user?.twoFactorEnabled && (
+              <FormInput
+                label="Authenticator or backup code"
+                containerClassName="mb-2"
+                autoComplete="one-time-code"
+                required
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                errors={getFieldErrors("code", error?.errors)}
+              />
+            )}
+            {error && !error.errors && (
+              <p className="text-text-error">{error.message}</p>
+            )}
+            <div className="mt-2 flex gap-2">
+              <Button type="button" className="w-full" onClick={closeDialog}>
+                Cancel
+              </Button>
+              <Button className="w-full" loading={loading}>
+                Delete my account
+              </Button>
+            </div>
+          </form>
+        </div>
+      )}
+    </section>
+  );
+};
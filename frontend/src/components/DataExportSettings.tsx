@@ -0,0 +1,101 @@
+import { useCallback, useEffect, useState } from "react";
+import { useAuth, type DataExport } from "../context/AuthContext";
+import { Button } from "./Button";
+
+// How often to check on an export that's still being built
+const POLL_INTERVAL_MS = 5000;
+
+// Show a file size like "12.3 KB"
+const formatSize = (bytes: number) =>
+  bytes < 1024 * 1024
+    ? `${(bytes / 1024).toFixed(1)} KB`
+    : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+// "Download my data" section of the Profile page: request a ZIP of everything stored about the user and download it when ready
+export const DataExportSettings = () => {
+  const { requestDataExport, getDataExport } = useAuth();
+
+  const [dataExport, setDataExport] = useState<DataExport | null>(null);
+  const [loading, setLoading] = useState(true); // True until the first fetch finishes
+  const [requesting, setRequesting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Fetch the latest export, used on mount and while one is being built
+  const loadExport = useCallback(async () => {
+    try {
+      setDataExport(await getDataExport());
+      setError(null);
+    } catch (error) {
+      setError((error as { message: string }).message);
+    } finally {
+      setLoading(false);
+    }
+  }, [getDataExport]);
+
+  // Load the latest export on mount (getDataExport is memoized, so this only runs once)
+  useEffect(() => {
+    loadExport();
+  }, [loadExport]);
+
+  // Check back until a pending export is ready or has failed
+  const pending = dataExport?.status === "pending";
+  useEffect(() => {
+    if (!pending) return;
+    const interval = setInterval(loadExport, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [pending, loadExport]);
+
+  const handleRequest = async () => {
+    setRequesting(true);
+    setError(null);
+    try {
+      setDataExport(await requestDataExport());
+    } catch (error) {
+      setError((error as { message: string }).message);
+    } finally {
+      setRequesting(false);
+    }
+  };
+
+  // An export that's past its expiry can't be downloaded any more, so treat it like there's none
+  const expired =
+    dataExport?.status === "ready" &&
+    new Date(dataExport.expiresAt).getTime() <= Date.now();
+
+  return (
+    <section className="mt-6">
+      <h2 className="mb-2 text-xl font-semibold">Download My Data</h2>
+      <p className="mb-2">
+        Get a ZIP file with a copy of everything we store about you. We'll email
+        you a link when it's ready.
+      </p>
+      {loading && <p>Loading export status...</p>}
+      {error && <p className="text-text-error">{error}</p>}
+      {pending && <p>Your export is being prepared...</p>}
+      {dataExport?.status === "failed" && (
+        <p className="text-text-error">
+          Your last export failed. Please try again.
+        </p>
+      )}
+      {dataExport?.status === "ready" && dataExport.downloadUrl && !expired && (
+        <p className="mb-2">
+          <a className="underline" href={dataExport.downloadUrl}>
+            Download your data
+          </a>
+          {dataExport.size !== null && ` (${formatSize(dataExport.size)})`}. The
+          link works until {new Date(dataExport.expiresAt).toLocaleString()}.
+        </p>
+      )}
+      {!loading && !pending && (
+        <Button
+          type="button"
+          className="w-full"
+          loading={requesting}
+          onClick={handleRequest}
+        >
+          {dataExport ? "Request a new export" : "Download my data"}
+        </Button>
+      )}
+    </section>
+  );
+};
@@ -1,7 +1,11 @@
 import { useAuth } from "../context/AuthContext";
 import { useTheme } from "../context/ThemeContext";
+import { useOrganization } from "../context/OrganizationContext";
 import { useState } from "react";
 import { Link } from "react-router";
+import { Avatar } from "./Avatar";
+import { OrganizationSwitcher } from "./OrganizationSwitcher";
+import { config } from "../config";
 // Import icons
 import { MdBrightness7, MdBrightness4, MdBrightnessAuto } from "react-icons/md";
 import { GiHamburgerMenu } from "react-icons/gi";
@@ -17,6 +21,7 @@ export const Header = () => {
   // Get auth and theme context
   const { user, logout } = useAuth();
   const { choice, cycleTheme } = useTheme();
+  const { organizations } = useOrganization();
   // Hambuger menu state (for mobile)
   const [isMenuOpen, setIsMenuOpen] = useState(false);
 
@@ -39,8 +44,18 @@ export const Header = () => {
   // Conditionally generate a list of nav items based on auth state
   const navItems = user
     ? [
-        { label: user.name, type: "span" },
+        ...(config.features.organizations
+          ? [{ label: "Organization", type: "switcher" }]
+          : []),
+        { label: user.displayName || user.name, type: "span" },
         { label: "Profile", type: "link", to: "/profile" },
+        ...(config.features.organizations
+          ? [{ label: "Organization", type: "link", to: "/organization" }]
+          : []),
+        // Only users who can see the admin console get a link to it
+        ...(user.permissions.includes("users:read")
+          ? [{ label: "Admin", type: "link", to: "/admin/users" }]
+          : []),
         { label: "Logout", type: "button", onClick: logout },
       ]
     : [
@@ -72,8 +87,15 @@ export const Header = () => {
                   {item.label}
                 </button>
               )}
-              {item.type === "span" && (
-                <span className="m-2 p-2">{item.label}</span>
+              {item.type === "switcher" && (
+                <OrganizationSwitcher className={interactiveClass} />
+              )}
+              {/* The only span is the user's name, shown with their avatar */}
+              {item.type === "span" && user && (
+                <span className="m-2 flex items-center gap-2 p-2">
+                  <Avatar url={user.avatarUrl} name={item.label} />
+                  {item.label}
+                </span>
               )}
             </li>
           ))}
@@ -99,9 +121,15 @@ export const Header = () => {
         <ul>
           {isMenuOpen && (
             <>
+              {organizations.length > 0 && (
+                <li className="border-border flex items-center border-b pl-2">
+                  <OrganizationSwitcher className="bg-surface-input border-border my-1 rounded-lg border-2 p-1" />
+                </li>
+              )}
               {navItems.map(
                 (item, index) =>
-                  item.type !== "span" && (
+                  item.type !== "span" &&
+                  item.type !== "switcher" && (
                     <li
                       key={index}
                       className="border-border flex h-11 items-center border-b pl-2"
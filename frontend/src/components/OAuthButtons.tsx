@@ -0,0 +1,42 @@
+import { useEffect, useState } from "react";
+import { useAuth, type OAuthProviderInfo } from "../context/AuthContext";
+import { Button } from "./Button";
+
+// "Continue with Google/GitHub/..." buttons for the Login and Register pages, one per provider the backend has enabled
+export const OAuthButtons = () => {
+  const { getOAuthProviders, startOAuthLogin } = useAuth();
+  const [providers, setProviders] = useState<OAuthProviderInfo[]>([]);
+  // Id of the provider being redirected to
+  const [redirecting, setRedirecting] = useState<string | null>(null);
+
+  // Load the providers on mount, if this fails we just don't show any buttons
+  useEffect(() => {
+    getOAuthProviders()
+      .then(setProviders)
+      .catch(() => setProviders([]));
+  }, [getOAuthProviders]);
+
+  if (providers.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mt-2 flex flex-col gap-2 pb-2">
+      <p className="text-center">or</p>
+      {providers.map((provider) => (
+        <Button
+          key={provider.id}
+          type="button"
+          className="w-full"
+          loading={redirecting === provider.id}
+          onClick={() => {
+            setRedirecting(provider.id);
+            startOAuthLogin(provider.id).finally(() => setRedirecting(null));
+          }}
+        >
+          Continue with {provider.name}
+        </Button>
+      ))}
+    </div>
+  );
+};
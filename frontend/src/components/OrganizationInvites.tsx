@@ -0,0 +1,149 @@
+import { useCallback, useEffect, useState } from "react";
+import { type ValidationError } from "../context/AuthContext";
+import {
+  useOrganization,
+  type Organization,
+  type OrganizationInvite,
+  type OrgRole,
+} from "../context/OrganizationContext";
+import { Button } from "./Button";
+import { FormInput } from "./FormInput";
+import { getFieldErrors } from "../utils/getFieldErrors";
+
+const selectClass = "bg-surface-input border-border rounded-lg border-2 p-2";
+
+// Invitations section of the organization settings page, only shown to the owner and admins
+export const OrganizationInvites = ({
+  organization,
+}: {
+  organization: Organization;
+}) => {
+  const { getInvites, inviteMember, revokeInvite } = useOrganization();
+
+  const [invites, setInvites] = useState<OrganizationInvite[]>([]);
+  const [loading, setLoading] = useState(true); // True until the first fetch finishes
+  const [error, setError] = useState<{
+    message: string;
+    errors?: ValidationError[];
+  } | null>(null);
+  const [form, setForm] = useState<{ email: string; role: OrgRole }>({
+    email: "",
+    role: "member",
+  });
+  const [sending, setSending] = useState(false);
+  // Id of the invitation currently being revoked
+  const [busy, setBusy] = useState<string | null>(null);
+
+  // Fetch the invitations list, used on mount and after every change
+  const loadInvites = useCallback(async () => {
+    try {
+      setInvites(await getInvites(organization.id));
+      setError(null);
+    } catch (error) {
+      setError(error as { message: string });
+    } finally {
+      setLoading(false);
+    }
+  }, [getInvites, organization.id]);
+
+  // Load invitations on mount and when switching organizations (getInvites is memoized)
+  useEffect(() => {
+    loadInvites();
+  }, [loadInvites]);
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSending(true);
+    setError(null);
+    try {
+      await inviteMember(organization.id, form.email, form.role);
+      setForm({ email: "", role: "member" });
+      await loadInvites();
+    } catch (error) {
+      setError(error as { message: string; errors?: ValidationError[] });
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const handleRevoke = async (invite: OrganizationInvite) => {
+    setBusy(invite.id);
+    try {
+      await revokeInvite(organization.id, invite.id);
+      await loadInvites();
+    } catch (error) {
+      setError(error as { message: string });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <section className="mt-6">
+      <h2 className="mb-2 text-xl font-semibold">Invitations</h2>
+      <p className="mb-2">
+        We email a link that works for 7 days. The person has to log in or sign
+        up with the invited email address to join.
+      </p>
+      {loading && <p>Loading invitations...</p>}
+      <ul>
+        {invites.map((invite) => (
+          <li
+            key={invite.id}
+            className="border-border mb-2 flex items-center justify-between gap-2 rounded-lg border-2 p-2"
+          >
+            <div>
+              <p className="font-semibold">
+                {invite.email} ({invite.role})
+              </p>
+              <p className="text-sm">
+                {invite.invitedBy && `Invited by ${invite.invitedBy} · `}
+                Expires {new Date(invite.expiresAt).toLocaleDateString()}
+              </p>
+            </div>
+            <Button
+              type="button"
+              loading={busy === invite.id}
+              onClick={() => handleRevoke(invite)}
+            >
+              Revoke
+            </Button>
+          </li>
+        ))}
+      </ul>
+      <form onSubmit={handleInvite}>
+        <FormInput
+          type="email"
+          label="Email"
+          containerClassName="mb-2"
+          required
+          errors={getFieldErrors("email", error?.errors)}
+          value={form.email}
+          onChange={(e) => setForm({ ...form, email: e.target.value })}
+        />
+        {/* Only the owner can bring in admins */}
+        {organization.role === "owner" && (
+          <label className="mb-2 flex flex-col gap-0.5">
+            Role
+            <select
+              className={selectClass}
+              value={form.role}
+              onChange={(e) =>
+                setForm({ ...form, role: e.target.value as OrgRole })
+              }
+            >
+              <option value="member">Member</option>
+              <option value="admin">Admin</option>
+            </select>
+          </label>
+        )}
+        {error && !error.errors && (
+          <p className="text-text-error">{error.message}</p>
+        )}
+        <Button className="w-full" type="submit" loading={sending}>
+          Send invitation
+        </Button>
+      </form>
+    </section>
+  );
+};
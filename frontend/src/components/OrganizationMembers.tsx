@@ -0,0 +1,164 @@
+import { useCallback, useEffect, useState } from "react";
+import { useAuth } from "../context/AuthContext";
+import {
+  useOrganization,
+  type Organization,
+  type OrganizationMember,
+  type OrgRole,
+} from "../context/OrganizationContext";
+import { Button } from "./Button";
+
+const roleLabels: Record<OrgRole, string> = {
+  owner: "Owner",
+  admin: "Admin",
+  member: "Member",
+};
+
+const selectClass = "bg-surface-input border-border rounded-lg border-2 p-2";
+
+// Whether someone with this role can change or remove a member with the other role, must match the backend's rule
+// The owner manages everyone, admins only manage members
+const canManage = (actorRole: OrgRole, targetRole: OrgRole) =>
+  actorRole === "owner" || (actorRole === "admin" && targetRole === "member");
+
+// Members section of the organization settings page: list members, change their roles, remove them and transfer ownership
+export const OrganizationMembers = ({
+  organization,
+}: {
+  organization: Organization;
+}) => {
+  const { user } = useAuth();
+  const { getMembers, updateMemberRole, removeMember, transferOwnership } =
+    useOrganization();
+
+  const [members, setMembers] = useState<OrganizationMember[]>([]);
+  const [loading, setLoading] = useState(true); // True until the first fetch finishes
+  const [error, setError] = useState<string | null>(null);
+  // Id of the member currently being changed
+  const [busy, setBusy] = useState<string | null>(null);
+
+  // Fetch the members list, used on mount and after every change
+  const loadMembers = useCallback(async () => {
+    try {
+      setMembers(await getMembers(organization.id));
+      setError(null);
+    } catch (error) {
+      setError((error as { message: string }).message);
+    } finally {
+      setLoading(false);
+    }
+  }, [getMembers, organization.id]);
+
+  // Load members on mount and when switching organizations (getMembers is memoized)
+  useEffect(() => {
+    loadMembers();
+  }, [loadMembers]);
+
+  // Run a change to one member, then reload the list
+  const runChange = async (
+    member: OrganizationMember,
+    change: () => Promise<void>,
+  ) => {
+    setBusy(member.userId);
+    setError(null);
+    try {
+      await change();
+      await loadMembers();
+    } catch (error) {
+      setError((error as { message: string }).message);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleTransfer = (member: OrganizationMember) => {
+    // Ownership can only be taken back by the new owner, so make sure
+    if (
+      !window.confirm(
+        `Make ${member.name} the owner of ${organization.name}? You'll stay on as an admin.`,
+      )
+    ) {
+      return;
+    }
+    runChange(member, () => transferOwnership(organization.id, member.userId));
+  };
+
+  return (
+    <section className="mt-6">
+      <h2 className="mb-2 text-xl font-semibold">Members</h2>
+      {loading && <p>Loading members...</p>}
+      {error && <p className="text-text-error">{error}</p>}
+      <ul>
+        {members.map((member) => {
+          const isSelf = member.userId === user?.id;
+          const manageable =
+            !isSelf &&
+            member.role !== "owner" &&
+            canManage(organization.role, member.role);
+          return (
+            <li
+              key={member.userId}
+              className="border-border mb-2 flex flex-wrap items-center justify-between gap-2 rounded-lg border-2 p-2"
+            >
+              <div>
+                <p className="font-semibold">
+                  {member.name} {isSelf && "(you)"}
+                </p>
+                <p className="text-sm">
+                  {member.email} · Joined{" "}
+                  {new Date(member.joinedAt).toLocaleDateString()}
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                {manageable && organization.role === "owner" ? (
+                  <select
+                    className={selectClass}
+                    aria-label={`Role of ${member.name}`}
+                    value={member.role}
+                    disabled={busy === member.userId}
+                    onChange={(e) =>
+                      runChange(member, () =>
+                        updateMemberRole(
+                          organization.id,
+                          member.userId,
+                          e.target.value as OrgRole,
+                        ),
+                      )
+                    }
+                  >
+                    <option value="admin">{roleLabels.admin}</option>
+                    <option value="member">{roleLabels.member}</option>
+                  </select>
+                ) : (
+                  <span>{roleLabels[member.role]}</span>
+                )}
+                {!isSelf && organization.role === "owner" && (
+                  <Button
+                    type="button"
+                    loading={busy === member.userId}
+                    onClick={() => handleTransfer(member)}
+                  >
+                    Make owner
+                  </Button>
+                )}
+                {manageable && (
+                  <Button
+                    type="button"
+                    loading={busy === member.userId}
+                    onClick={() =>
+                      runChange(member, () =>
+                        removeMember(organization.id, member.userId),
+                      )
+                    }
+                  >
+                    Remove
+                  </Button>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </section>
+  );
+};
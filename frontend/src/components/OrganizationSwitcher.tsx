@@ -0,0 +1,26 @@
+import { useOrganization } from "../context/OrganizationContext";
+
+// Picks the organization the user is working in, shown in the Header once they belong to one
+export const OrganizationSwitcher = ({ className }: { className: string }) => {
+  const { organizations, activeOrganization, setActiveOrganization } =
+    useOrganization();
+
+  if (organizations.length === 0) {
+    return null;
+  }
+
+  return (
+    <select
+      className={className}
+      aria-label="Active organization"
+      value={activeOrganization?.id ?? ""}
+      onChange={(e) => setActiveOrganization(e.target.value)}
+    >
+      {organizations.map((organization) => (
+        <option key={organization.id} value={organization.id}>
+          {organization.name}
+        </option>
+      ))}
+    </select>
+  );
+};
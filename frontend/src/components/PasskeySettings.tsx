@@ -0,0 +1,174 @@
+import { useCallback, useEffect, useState } from "react";
+import { browserSupportsWebAuthn } from "@simplewebauthn/browser";
+import { useAuth, type Passkey } from "../context/AuthContext";
+import { Button } from "./Button";
+import { FormInput } from "./FormInput";
+
+// Passkeys section of the Profile page: add a passkey, and rename or delete the ones already registered
+export const PasskeySettings = () => {
+  const { getPasskeys, addPasskey, renamePasskey, deletePasskey } = useAuth();
+
+  const [passkeys, setPasskeys] = useState<Passkey[]>([]);
+  const [loading, setLoading] = useState(true); // True until the first fetch finishes
+  const [error, setError] = useState<string | null>(null);
+  const [newName, setNewName] = useState("");
+  const [adding, setAdding] = useState(false);
+  // Passkey being renamed and the name typed so far
+  const [editing, setEditing] = useState<{ id: string; name: string } | null>(
+    null,
+  );
+  // Id of the passkey currently being saved or deleted
+  const [busy, setBusy] = useState<string | null>(null);
+
+  // Fetch the passkeys list, used on mount and after every change
+  const loadPasskeys = useCallback(async () => {
+    try {
+      setPasskeys(await getPasskeys());
+      setError(null);
+    } catch (error) {
+      setError((error as { message: string }).message);
+    } finally {
+      setLoading(false);
+    }
+  }, [getPasskeys]);
+
+  // Load passkeys on mount (getPasskeys is memoized, so this only runs once)
+  useEffect(() => {
+    loadPasskeys();
+  }, [loadPasskeys]);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setAdding(true);
+    setError(null);
+    try {
+      await addPasskey(newName.trim());
+      setNewName("");
+      await loadPasskeys();
+    } catch (error) {
+      setError((error as { message: string }).message);
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  const handleRename = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editing) return;
+    setBusy(editing.id);
+    try {
+      await renamePasskey(editing.id, editing.name.trim());
+      setEditing(null);
+      await loadPasskeys();
+    } catch (error) {
+      setError((error as { message: string }).message);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleDelete = async (passkey: Passkey) => {
+    setBusy(passkey.id);
+    try {
+      await deletePasskey(passkey.id);
+      await loadPasskeys();
+    } catch (error) {
+      setError((error as { message: string }).message);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <section className="mt-6">
+      <h2 className="mb-2 text-xl font-semibold">Passkeys</h2>
+      <p className="mb-2">
+        Sign in with your fingerprint, face or device PIN instead of your
+        password.
+      </p>
+      {loading && <p>Loading passkeys...</p>}
+      {error && <p className="text-text-error">{error}</p>}
+      <ul>
+        {passkeys.map((passkey) => (
+          <li
+            key={passkey.id}
+            className="border-border mb-2 rounded-lg border-2 p-2"
+          >
+            {editing?.id === passkey.id ? (
+              <form className="flex items-end gap-2" onSubmit={handleRename}>
+                <FormInput
+                  type="text"
+                  label="Name"
+                  containerClassName="grow"
+                  maxLength={64}
+                  required
+                  value={editing.name}
+                  onChange={(e) =>
+                    setEditing({ ...editing, name: e.target.value })
+                  }
+                />
+                <Button type="submit" loading={busy === passkey.id}>
+                  Save
+                </Button>
+                <Button type="button" onClick={() => setEditing(null)}>
+                  Cancel
+                </Button>
+              </form>
+            ) : (
+              <div className="flex items-center justify-between gap-2">
+                <div>
+                  <p className="font-semibold">{passkey.name}</p>
+                  <p className="text-sm">
+                    Added {new Date(passkey.createdAt).toLocaleDateString()}
+                    {passkey.backedUp && " · Synced"}
+                  </p>
+                  <p className="text-sm">
+                    Last used:{" "}
+                    {passkey.lastUsedAt
+                      ? new Date(passkey.lastUsedAt).toLocaleString()
+                      : "never"}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <Button
+                    type="button"
+                    onClick={() =>
+                      setEditing({ id: passkey.id, name: passkey.name })
+                    }
+                  >
+                    Rename
+                  </Button>
+                  <Button
+                    type="button"
+                    loading={busy === passkey.id}
+                    onClick={() => handleDelete(passkey)}
+                  >
+                    Delete
+                  </Button>
+                </div>
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+      {browserSupportsWebAuthn() ? (
+        <form onSubmit={handleAdd}>
+          <FormInput
+            type="text"
+            label="Passkey name (optional)"
+            containerClassName="mb-2"
+            placeholder="e.g. MacBook Touch ID"
+            maxLength={64}
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+          />
+          <Button className="w-full" type="submit" loading={adding}>
+            Add a passkey
+          </Button>
+        </form>
+      ) : (
+        <p>This browser doesn't support passkeys.</p>
+      )}
+    </section>
+  );
+};
@@ -0,0 +1,223 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  useAuth,
+  type PersonalAccessToken,
+  type TokenScope,
+  type ValidationError,
+} from "../context/AuthContext";
+import { Button } from "./Button";
+import { FormInput } from "./FormInput";
+import { getFieldErrors } from "../utils/getFieldErrors";
+
+// What each scope lets a token do, in the order they're shown
+const scopeLabels: Record<TokenScope, string> = {
+  "profile:read": "Read your profile",
+  "profile:write": "Edit your profile",
+  "sessions:read": "List your active sessions",
+  "activity:read": "Read your security activity",
+};
+
+// Expiration choices in days, the backend allows up to a year by default
+const EXPIRATION_OPTIONS = [7, 30, 90, 365];
+
+const selectClass = "bg-surface-input border-border rounded-lg border-2 p-2";
+
+// Shows a newly created token, it's only ever shown once so tell the user to copy it
+const NewToken = ({ token }: { token: string }) => (
+  <div className="border-border mb-2 rounded-lg border-2 p-2">
+    <p className="mb-2 font-semibold">
+      Copy your new token now, it won't be shown again. Send it as{" "}
+      <span className="font-mono">Authorization: Bearer &lt;token&gt;</span>.
+    </p>
+    <p className="font-mono break-all">{token}</p>
+  </div>
+);
+
+// Personal access tokens section of the Profile page: create scoped tokens for scripts and integrations, and delete them
+export const PersonalAccessTokenSettings = () => {
+  const {
+    getPersonalAccessTokens,
+    createPersonalAccessToken,
+    deletePersonalAccessToken,
+  } = useAuth();
+
+  const [tokens, setTokens] = useState<PersonalAccessToken[]>([]);
+  const [loading, setLoading] = useState(true); // True until the first fetch finishes
+  const [error, setError] = useState<{
+    message: string;
+    errors?: ValidationError[];
+  } | null>(null);
+  const [form, setForm] = useState<{
+    name: string;
+    scopes: TokenScope[];
+    expiresInDays: number;
+  }>({ name: "", scopes: [], expiresInDays: 30 });
+  const [creating, setCreating] = useState(false);
+  // The token just created, shown until the user creates another or leaves the page
+  const [newToken, setNewToken] = useState<string | null>(null);
+  // Id of the token currently being deleted
+  const [busy, setBusy] = useState<string | null>(null);
+
+  // Fetch the tokens list, used on mount and after every change
+  const loadTokens = useCallback(async () => {
+    try {
+      setTokens(await getPersonalAccessTokens());
+      setError(null);
+    } catch (error) {
+      setError(error as { message: string });
+    } finally {
+      setLoading(false);
+    }
+  }, [getPersonalAccessTokens]);
+
+  // Load tokens on mount (getPersonalAccessTokens is memoized, so this only runs once)
+  useEffect(() => {
+    loadTokens();
+  }, [loadTokens]);
+
+  const toggleScope = (scope: TokenScope) => {
+    setForm({
+      ...form,
+      scopes: form.scopes.includes(scope)
+        ? form.scopes.filter((s) => s !== scope)
+        : [...form.scopes, scope],
+    });
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setCreating(true);
+    setError(null);
+    setNewToken(null);
+    try {
+      setNewToken(
+        await createPersonalAccessToken(
+          form.name.trim(),
+          form.scopes,
+          form.expiresInDays,
+        ),
+      );
+      setForm({ name: "", scopes: [], expiresInDays: 30 });
+      await loadTokens();
+    } catch (error) {
+      setError(error as { message: string; errors?: ValidationError[] });
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleDelete = async (token: PersonalAccessToken) => {
+    setBusy(token.id);
+    try {
+      await deletePersonalAccessToken(token.id);
+      await loadTokens();
+    } catch (error) {
+      setError(error as { message: string });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <section className="mt-6">
+      <h2 className="mb-2 text-xl font-semibold">Personal Access Tokens</h2>
+      <p className="mb-2">
+        Let scripts and integrations use the API as you, limited to the scopes
+        you pick. Tokens can't change your password or security settings.
+      </p>
+      {loading && <p>Loading tokens...</p>}
+      {newToken && <NewToken token={newToken} />}
+      <ul>
+        {tokens.map((token) => (
+          <li
+            key={token.id}
+            className="border-border mb-2 flex items-center justify-between gap-2 rounded-lg border-2 p-2"
+          >
+            <div>
+              <p className="font-semibold">
+                {token.name}{" "}
+                <span className="font-mono text-sm">{token.prefix}...</span>
+              </p>
+              <p className="text-sm">
+                {token.scopes.map((scope) => scopeLabels[scope]).join(", ")}
+              </p>
+              <p className="text-sm">
+                Expires {new Date(token.expiresAt).toLocaleDateString()} · Last
+                used:{" "}
+                {token.lastUsedAt
+                  ? new Date(token.lastUsedAt).toLocaleString()
+                  : "never"}
+              </p>
+            </div>
+            <Button
+              type="button"
+              loading={busy === token.id}
+              onClick={() => handleDelete(token)}
+            >
+              Delete
+            </Button>
+          </li>
+        ))}
+      </ul>
+      <form onSubmit={handleCreate}>
+        <FormInput
+          type="text"
+          label="Token name"
+          containerClassName="mb-2"
+          placeholder="e.g. Backup script"
+          maxLength={64}
+          required
+          errors={getFieldErrors("name", error?.errors)}
+          value={form.name}
+          onChange={(e) => setForm({ ...form, name: e.target.value })}
+        />
+        <fieldset className="mb-2">
+          <legend>Scopes</legend>
+          {(Object.keys(scopeLabels) as TokenScope[]).map((scope) => (
+            <label key={scope} className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={form.scopes.includes(scope)}
+                onChange={() => toggleScope(scope)}
+              />
+              {scopeLabels[scope]}{" "}
+              <span className="font-mono text-sm">({scope})</span>
+            </label>
+          ))}
+        </fieldset>
+        <label className="mb-2 flex flex-col gap-0.5">
+          Expiration
+          <select
+            className={selectClass}
+            value={form.expiresInDays}
+            onChange={(e) =>
+              setForm({ ...form, expiresInDays: Number(e.target.value) })
+            }
+          >
+            {EXPIRATION_OPTIONS.map((days) => (
+              <option key={days} value={days}>
+                {days} days
+              </option>
+            ))}
+          </select>
+        </label>
+        {error && !getFieldErrors("name", error.errors) && (
+          <p className="text-text-error">
+            {(
+              getFieldErrors("scopes", error.errors) ??
+              getFieldErrors("expiresInDays", error.errors)
+            )?.join(" ") ?? error.message}
+          </p>
+        )}
+        <Button
+          className="w-full"
+          type="submit"
+          loading={creating}
+          disabled={form.scopes.length === 0}
+        >
+          Create token
+        </Button>
+      </form>
+    </section>
+  );
+};
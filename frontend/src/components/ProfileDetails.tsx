@@ -0,0 +1,136 @@
+import { useState } from "react";
+import {
+  useAuth,
+  type AuthContextType,
+  type ProfileUpdate,
+  type ValidationError,
+} from "../context/AuthContext";
+import { Button } from "./Button";
+import { FormInput } from "./FormInput";
+import { getFieldErrors } from "../utils/getFieldErrors";
+
+type User = NonNullable<AuthContextType["user"]>;
+
+// The editable fields as form values, empty strings for the ones that aren't set
+const toForm = (user: User) => ({
+  name: user.name,
+  displayName: user.displayName ?? "",
+  bio: user.bio ?? "",
+  timezone: user.timezone ?? "",
+  locale: user.locale ?? "",
+});
+
+// Form to edit the name, display name, bio, time zone and locale
+export const ProfileDetails = ({ user }: { user: User }) => {
+  const { updateProfile } = useAuth();
+
+  const [form, setForm] = useState(() => toForm(user));
+  // Version the form was filled from - when the saved profile changes (after saving, or a 409 from another tab) refill the form
+  const [formVersion, setFormVersion] = useState(user.version);
+  if (user.version !== formVersion) {
+    setFormVersion(user.version);
+    setForm(toForm(user));
+  }
+
+  const [error, setError] = useState<{
+    message: string;
+    errors?: ValidationError[];
+  } | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [success, setSuccess] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setSuccess(false);
+
+    // Only send the fields that changed
+    const saved = toForm(user);
+    const changes: ProfileUpdate = {};
+    for (const field of Object.keys(form) as Array<keyof typeof form>) {
+      if (form[field] !== saved[field]) changes[field] = form[field];
+    }
+
+    setLoading(true);
+    try {
+      await updateProfile(changes);
+      setSuccess(true);
+    } catch (error) {
+      setError(error as { message: string; errors?: ValidationError[] });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <section>
+      <form onSubmit={handleSubmit}>
+        <fieldset>
+          <legend className="mb-2 text-xl font-semibold">
+            Profile details
+          </legend>
+          <FormInput
+            label="Name"
+            containerClassName="mb-2"
+            errors={getFieldErrors("name", error?.errors)}
+            value={form.name}
+            onChange={(e) => setForm({ ...form, name: e.target.value })}
+          />
+          <FormInput
+            label="Display Name"
+            containerClassName="mb-2"
+            placeholder={form.name}
+            errors={getFieldErrors("displayName", error?.errors)}
+            value={form.displayName}
+            onChange={(e) => setForm({ ...form, displayName: e.target.value })}
+          />
+          <div className="mb-2 flex flex-col gap-0.5">
+            <label htmlFor="profile-bio">Bio</label>
+            <textarea
+              id="profile-bio"
+              rows={3}
+              maxLength={500}
+              className="bg-surface-input border-border w-full rounded-lg border-2 p-2"
+              value={form.bio}
+              onChange={(e) => setForm({ ...form, bio: e.target.value })}
+            />
+            {getFieldErrors("bio", error?.errors)?.map((message) => (
+              <p key={message} className="text-text-error">
+                {message}
+              </p>
+            ))}
+          </div>
+          <FormInput
+            label="Time Zone"
+            containerClassName="mb-2"
+            // Suggest the browser's own time zone and language
+            placeholder={Intl.DateTimeFormat().resolvedOptions().timeZone}
+            errors={getFieldErrors("timezone", error?.errors)}
+            value={form.timezone}
+            onChange={(e) => setForm({ ...form, timezone: e.target.value })}
+          />
+          <FormInput
+            label="Locale"
+            containerClassName="mb-2"
+            placeholder={navigator.language}
+            errors={getFieldErrors("locale", error?.errors)}
+            value={form.locale}
+            onChange={(e) => setForm({ ...form, locale: e.target.value })}
+          />
+          {error &&
+            !error.errors && ( // Only show the generic error message when no field-specific errors
+              <div className="text-text-error">{error.message}</div>
+            )}
+          {success && (
+            <div className="text-text-success">
+              Profile updated successfully!
+            </div>
+          )}
+          <Button className="mt-2 w-full" type="submit" loading={loading}>
+            Save Details
+          </Button>
+        </fieldset>
+      </form>
+    </section>
+  );
+};
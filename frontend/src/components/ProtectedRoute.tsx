@@ -1,13 +1,20 @@
 import { ReactNode, useEffect } from "react";
-import { useAuth } from "../context/AuthContext";
+import { useAuth, type Permission, type Role } from "../context/AuthContext";
 import { useNavigate } from "react-router";
+import { Forbidden } from "../pages/Forbidden";
 
 interface ProtectedRouteProps {
   children: ReactNode;
+  role?: Role; // Only users with this role may see the page
+  permission?: Permission; // Only users with this permission may see the page
 }
 
-export const ProtectedRoute = ({ children }: ProtectedRouteProps) => {
-  const { loading, token } = useAuth();
+export const ProtectedRoute = ({
+  children,
+  role,
+  permission,
+}: ProtectedRouteProps) => {
+  const { loading, token, user } = useAuth();
   const navigate = useNavigate();
   // UseEffect: On component mount and whenever loading/token changes, check if user is authenticated
   useEffect(() => {
@@ -25,5 +32,19 @@ export const ProtectedRoute = ({ children }: ProtectedRouteProps) => {
     return null; // We don't have to write null, but it makes it clear that we're intentionally not rendering anything here while redirecting to the login page
   }
 
+  // Role and permission checks need the user, which is fetched after the token is set
+  if (role || permission) {
+    if (!user) {
+      return <div>Loading...</div>;
+    }
+    // This only hides the page, the backend checks roles and permissions on every request
+    if (
+      (role && !user.roles.includes(role)) ||
+      (permission && !user.permissions.includes(permission))
+    ) {
+      return <Forbidden />;
+    }
+  }
+
   return children;
 };
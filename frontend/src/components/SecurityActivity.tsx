@@ -0,0 +1,115 @@
+import { useCallback, useEffect, useState } from "react";
+import { useAuth, type AuthEvent } from "../context/AuthContext";
+import { Button } from "./Button";
+import { describeUserAgent } from "../utils/describeUserAgent";
+
+// Readable names for each kind of event
+const eventLabels: Record<AuthEvent["type"], string> = {
+  register: "Account created",
+  login: "Sign in",
+  refresh: "Session refreshed",
+  "password-change": "Password changed",
+  "email-change": "Email changed",
+  "email-change-revert": "Email change undone",
+  "token-create": "Personal access token created",
+  "token-delete": "Personal access token deleted",
+  logout: "Sign out",
+};
+
+const methodLabels: Record<NonNullable<AuthEvent["method"]>, string> = {
+  password: "password",
+  "two-factor": "two-factor code",
+  passkey: "passkey",
+  oauth: "connected account",
+  "magic-link": "email link",
+};
+
+// Describe an event in a few words, e.g. "Sign in with passkey" or "Sign in failed (invalid password)"
+const describeEvent = (event: AuthEvent) => {
+  let label = eventLabels[event.type];
+  if (event.method) label += ` with ${methodLabels[event.method]}`;
+  if (event.outcome === "failure") {
+    label += " failed";
+    if (event.reason) label += ` (${event.reason.replace(/-/g, " ")})`;
+  }
+  return label;
+};
+
+// Lists the user's recent security activity from the audit log, newest first, with a button to load older events
+export const SecurityActivity = () => {
+  const { getActivity } = useAuth();
+
+  const [events, setEvents] = useState<AuthEvent[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true); // True while a page is being fetched
+  const [error, setError] = useState<string | null>(null);
+
+  // Fetch a page, the first page replaces the list and later pages are appended
+  const loadPage = useCallback(
+    async (cursor?: string) => {
+      setLoading(true);
+      try {
+        const page = await getActivity(cursor);
+        setEvents((current) =>
+          cursor ? [...current, ...page.events] : page.events,
+        );
+        setNextCursor(page.nextCursor);
+        setError(null);
+      } catch (error) {
+        setError((error as { message: string }).message);
+      } finally {
+        setLoading(false);
+      }
+    },
+    [getActivity],
+  );
+
+  // Load the first page on mount (getActivity is memoized, so this only runs once)
+  useEffect(() => {
+    loadPage();
+  }, [loadPage]);
+
+  return (
+    <section className="mt-6">
+      <h2 className="mb-2 text-xl font-semibold">Recent security activity</h2>
+      {error && <p className="text-text-error">{error}</p>}
+      {!loading && !error && events.length === 0 && (
+        <p>No security activity yet.</p>
+      )}
+      <ul>
+        {events.map((event) => (
+          <li
+            key={event.id}
+            className="border-border mb-2 rounded-lg border-2 p-2"
+          >
+            <p
+              className={
+                event.outcome === "failure"
+                  ? "text-text-error font-semibold"
+                  : "font-semibold"
+              }
+            >
+              {describeEvent(event)}
+            </p>
+            <p className="text-sm">
+              {describeUserAgent(event.userAgent)} · IP: {event.ip || "unknown"}
+            </p>
+            <p className="text-sm">
+              {new Date(event.createdAt).toLocaleString()}
+            </p>
+          </li>
+        ))}
+      </ul>
+      {loading && <p>Loading activity...</p>}
+      {nextCursor && !loading && (
+        <Button
+          type="button"
+          className="mt-2 w-full"
+          onClick={() => loadPage(nextCursor)}
+        >
+          Load more
+        </Button>
+      )}
+    </section>
+  );
+};
@@ -0,0 +1,195 @@
+import { useState } from "react";
+import {
+  useAuth,
+  type TwoFactorSetup,
+  type ValidationError,
+} from "../context/AuthContext";
+import { Button } from "./Button";
+import { FormInput } from "./FormInput";
+import { getFieldErrors } from "../utils/getFieldErrors";
+
+// Define interface for form error states
+interface FormError {
+  message: string;
+  errors?: ValidationError[];
+}
+
+// Shows a list of backup codes, they're only ever shown once so tell the user to save them
+const BackupCodes = ({ codes }: { codes: string[] }) => (
+  <div className="border-border mb-2 rounded-lg border-2 p-2">
+    <p className="mb-2 font-semibold">
+      Save these backup codes somewhere safe. Each one can be used once to log
+      in if you lose your authenticator app, and they won't be shown again.
+    </p>
+    <ul className="grid grid-cols-2 gap-1 font-mono">
+      {codes.map((code) => (
+        <li key={code}>{code}</li>
+      ))}
+    </ul>
+  </div>
+);
+
+// Two-factor authentication section of the Profile page: setup with a QR code, backup codes and turning it off
+export const TwoFactorSettings = () => {
+  const {
+    user,
+    setupTwoFactor,
+    confirmTwoFactor,
+    disableTwoFactor,
+    regenerateBackupCodes,
+  } = useAuth();
+
+  // Secret and QR code while setup is in progress
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  // Backup codes from confirming setup or regenerating, shown until the user leaves the page
+  const [backupCodes, setBackupCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState("");
+  const [password, setPassword] = useState("");
+  const [error, setError] = useState<FormError | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  // Run one of the auth calls with shared loading and error handling
+  const run = async (action: () => Promise<void>) => {
+    setError(null);
+    setLoading(true);
+    try {
+      await action();
+      setCode("");
+      setPassword("");
+    } catch (error) {
+      setError(error as FormError);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleStartSetup = () =>
+    run(async () => {
+      setBackupCodes(null);
+      setSetup(await setupTwoFactor());
+    });
+
+  const handleConfirm = (e: React.FormEvent) => {
+    e.preventDefault();
+    return run(async () => {
+      setBackupCodes(await confirmTwoFactor(code));
+      setSetup(null);
+    });
+  };
+
+  const handleRegenerate = (e: React.FormEvent) => {
+    e.preventDefault();
+    return run(async () => {
+      setBackupCodes(await regenerateBackupCodes(code));
+    });
+  };
+
+  const handleDisable = () =>
+    run(async () => {
+      await disableTwoFactor(password, code);
+      setBackupCodes(null);
+    });
+
+  // Only show the generic message when there are no field-specific errors
+  const errorMessage = error && !error.errors && (
+    <p className="text-text-error">{error.message}</p>
+  );
+
+  if (!user?.twoFactorEnabled) {
+    return (
+      <section className="mt-6">
+        <h2 className="mb-2 text-xl font-semibold">
+          Two-Factor Authentication
+        </h2>
+        {!setup && (
+          <>
+            <p className="mb-2">
+              Protect your account with a code from an authenticator app when
+              you log in.
+            </p>
+            {errorMessage}
+            <Button
+              type="button"
+              className="w-full"
+              loading={loading}
+              onClick={handleStartSetup}
+            >
+              Set up two-factor authentication
+            </Button>
+          </>
+        )}
+        {setup && (
+          <form onSubmit={handleConfirm}>
+            <p className="mb-2">
+              Scan this QR code with your authenticator app, then enter the
+              6-digit code it shows.
+            </p>
+            <img
+              className="mx-auto mb-2"
+              src={setup.qrCode}
+              alt="QR code for your authenticator app"
+            />
+            <p className="mb-2 text-sm">
+              Can't scan it? Enter this key instead:{" "}
+              <span className="font-mono break-all">{setup.secret}</span>
+            </p>
+            <FormInput
+              type="text"
+              label="Code"
+              containerClassName="mb-2"
+              autoComplete="one-time-code"
+              errors={getFieldErrors("code", error?.errors)}
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+            />
+            {errorMessage}
+            <Button className="mt-2 w-full" type="submit" loading={loading}>
+              Turn on
+            </Button>
+          </form>
+        )}
+      </section>
+    );
+  }
+
+  return (
+    <section className="mt-6">
+      <h2 className="mb-2 text-xl font-semibold">Two-Factor Authentication</h2>
+      <p className="text-text-success mb-2">Two-factor authentication is on.</p>
+      {backupCodes && <BackupCodes codes={backupCodes} />}
+      <form onSubmit={handleRegenerate}>
+        <FormInput
+          type="text"
+          label="Authentication code"
+          containerClassName="mb-2"
+          autoComplete="one-time-code"
+          errors={getFieldErrors("code", error?.errors)}
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+        />
+        <FormInput
+          type="password"
+          label="Password (only needed to turn off)"
+          containerClassName="mb-2"
+          errors={getFieldErrors("password", error?.errors)}
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+        />
+        {errorMessage}
+        <div className="mt-2 flex gap-2">
+          <Button className="w-full" type="submit" loading={loading}>
+            New backup codes
+          </Button>
+          <Button
+            className="w-full"
+            type="button"
+            loading={loading}
+            onClick={handleDisable}
+          >
+            Turn off
+          </Button>
+        </div>
+      </form>
+    </section>
+  );
+};
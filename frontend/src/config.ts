@@ -0,0 +1,31 @@
+// App configuration from Vite env variables, set them in frontend/.env (or .env.production, etc.) or in the build environment
+// Vite bakes them into the bundle at build time, so changing one means building again
+
+// Defaults match the backend's development profile, so the app runs locally without a .env file
+const DEFAULT_API_URL = "http://localhost:5001/api";
+
+export interface AppConfig {
+  apiUrl: string; // Base URL of the backend API, e.g. https://api.example.com/api
+  features: {
+    passkeys: boolean;
+    magicLink: boolean;
+    oauth: boolean;
+    organizations: boolean;
+  };
+}
+
+// Features are on unless explicitly turned off, parse the flag explicitly (see AD-017)
+const isEnabled = (value: string | undefined) => value !== "false";
+
+// Build the config from a set of env variables, exported so tests can pass their own
+export const createConfig = (env: ImportMetaEnv): AppConfig => ({
+  apiUrl: (env.VITE_API_URL || DEFAULT_API_URL).replace(/\/+$/, ""),
+  features: {
+    passkeys: isEnabled(env.VITE_FEATURE_PASSKEYS),
+    magicLink: isEnabled(env.VITE_FEATURE_MAGIC_LINK),
+    oauth: isEnabled(env.VITE_FEATURE_OAUTH),
+    organizations: isEnabled(env.VITE_FEATURE_ORGANIZATIONS),
+  },
+});
+
+export const config = createConfig(import.meta.env);
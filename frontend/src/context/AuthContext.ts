@@ -8,19 +8,182 @@ export interface ValidationError {
   location: string;
 }
 
+// Roles and permissions, must match backend/src/config/roleConfig.ts
+export type Role = "user" | "moderator" | "admin";
+export type Permission =
+  | "users:read"
+  | "users:manage"
+  | "roles:manage"
+  | "audit:read";
+
+// An active login session (one per device/browser), as listed on the Profile page
+export interface Session {
+  id: string;
+  userAgent: string;
+  ip: string;
+  createdAt: string;
+  lastUsedAt: string;
+  current: boolean; // True for the session this browser is using
+}
+
+// A registered passkey, as listed on the Profile page
+export interface Passkey {
+  id: string;
+  name: string;
+  deviceType: "singleDevice" | "multiDevice";
+  backedUp: boolean; // True for synced passkeys, e.g. iCloud Keychain or Google Password Manager
+  createdAt: string;
+  lastUsedAt: string | null;
+}
+
+// What a personal access token can do, must match backend/src/config/personalAccessTokenConfig.ts
+export type TokenScope =
+  | "profile:read"
+  | "profile:write"
+  | "sessions:read"
+  | "activity:read";
+
+// A personal access token for scripts and integrations, as listed on the Profile page (the token itself is never listed)
+export interface PersonalAccessToken {
+  id: string;
+  name: string;
+  prefix: string; // The start of the token, e.g. "pat_Xk3b9QzA", to tell tokens apart
+  scopes: TokenScope[];
+  createdAt: string;
+  expiresAt: string;
+  lastUsedAt: string | null;
+}
+
+// A social login provider the backend has enabled, e.g. Google
+export interface OAuthProviderInfo {
+  id: string;
+  name: string;
+}
+
+// A social/OIDC account connected to the user, as listed on the Profile page
+export interface LinkedAccount {
+  id: string;
+  provider: string; // Provider id, e.g. "google"
+  email: string | null;
+  createdAt: string;
+}
+
+// A "download my data" export, built in the background, the download URL is only set once it's ready
+export interface DataExport {
+  id: string;
+  status: "pending" | "ready" | "failed";
+  size: number | null; // Archive size in bytes
+  createdAt: string;
+  expiresAt: string; // The download link stops working after this
+  downloadUrl: string | null;
+}
+
+// An entry in the security audit log, as listed under "Recent security activity" on the Profile page
+export interface AuthEvent {
+  id: string;
+  type:
+    | "register"
+    | "login"
+    | "refresh"
+    | "password-change"
+    | "email-change"
+    | "email-change-revert"
+    | "token-create"
+    | "token-delete"
+    | "logout";
+  outcome: "success" | "failure";
+  reason: string | null; // Why it failed, e.g. "invalid-password"
+  method: "password" | "two-factor" | "passkey" | "oauth" | "magic-link" | null; // How the user signed in, for logins
+  ip: string;
+  userAgent: string;
+  createdAt: string;
+}
+
+// A page of security activity, pass nextCursor back to load the next (older) page
+export interface AuthEventPage {
+  events: AuthEvent[];
+  nextCursor: string | null;
+}
+
+// Profile details for updateProfile - only send the fields that changed, an empty string clears an optional field
+export interface ProfileUpdate {
+  name?: string;
+  displayName?: string;
+  bio?: string;
+  timezone?: string;
+  locale?: string;
+}
+
+// The square to cut out of an uploaded avatar, in pixels of the original image
+export interface AvatarCrop {
+  x: number;
+  y: number;
+  size: number;
+}
+
+// Returned when starting two-factor setup, the user scans the QR code or types the secret into their authenticator app
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUri: string;
+  qrCode: string; // PNG data URL, can be used directly as an img src
+}
+
 // Define the shape of our AuthContext state and functions using TypeScript interfaces
 // This ensures that any component using useAuth() knows exactly what data/functions are available
 export interface AuthContextType {
   // User data fetched from backend - null means not logged in
-  user: { id: string; name: string; email: string } | null;
+  user: {
+    id: string;
+    name: string;
+    email: string;
+    pendingEmail: string | null; // New email waiting for the user to open the confirmation link sent to it
+    displayName: string | null; // Shown instead of the name when set
+    bio: string | null;
+    timezone: string | null; // IANA time zone, e.g. "Europe/London"
+    locale: string | null; // BCP 47 language tag, e.g. "en-GB"
+    avatarUrl: string | null; // The 256px avatar image, null when the user hasn't uploaded one
+    isVerified: boolean;
+    twoFactorEnabled: boolean;
+    roles: Role[];
+    permissions: Permission[]; // Effective permissions, from the roles plus any granted directly
+    version: number; // Sent back with updateProfile so edits made from a stale copy are rejected
+  } | null;
   // JWT token stored in localStorage - used for authenticated API requests
   token: string | null;
   // Loading state while fetching from backend (prevent race conditions)
   loading: boolean;
   // Error messages from failed auth operations (display to user)
-  error: { message: string; errors?: Array<ValidationError> } | null;
+  // LockedUntil (ms timestamp) is set when too many failed logins locked the account or IP address
+  error: {
+    message: string;
+    errors?: Array<ValidationError>;
+    lockedUntil?: number;
+    // Reference code for server errors, users can quote it so the matching log line can be found
+    requestId?: string;
+  } | null;
+  // True after a correct password when the account still needs a two-factor code to finish logging in
+  twoFactorRequired: boolean;
   // Functions that components will call to interact with auth
   login: (email: string, password: string) => Promise<void>;
+  // Second login step - send the authenticator or backup code, or give up and go back to the password step
+  verifyTwoFactorLogin: (
+    code: string,
+    rememberDevice: boolean,
+  ) => Promise<void>;
+  cancelTwoFactorLogin: () => void;
+  // Social login - startOAuthLogin leaves the app for the provider, which sends the browser back to /oauth/callback
+  getOAuthProviders: () => Promise<OAuthProviderInfo[]>;
+  startOAuthLogin: (providerId: string) => Promise<void>;
+  // Called by the callback page: swap the refresh cookie the backend set for an access token
+  completeOAuthLogin: () => Promise<void>;
+  // Called by the callback page when the account has two-factor authentication, so Login asks for the code
+  resumeTwoFactorLogin: (challengeToken: string) => void;
+  // Email sign in - email a one-time link, then the landing page opens it in the same browser to finish logging in
+  // Verifying may stop at the two-factor step, in which case twoFactorRequired becomes true like after login
+  requestMagicLink: (email: string) => Promise<string>;
+  verifyMagicLink: (token: string) => Promise<void>;
+  // Passwordless login - the browser asks the user to pick a passkey, errors are stored in context like login
+  loginWithPasskey: () => Promise<void>;
   logout: () => Promise<void>;
   register: (name: string, email: string, password: string) => Promise<void>;
   // Hydrate user on app load (fetch current user from /api/auth/me)
@@ -29,7 +192,56 @@ export interface AuthContextType {
     currentPassword: string,
     newPassword: string,
   ) => Promise<void>;
+  // Email change - the new email stays pending until the link sent to it is opened, the old address gets a link to undo it
   updateEmail: (newEmail: string, password: string) => Promise<void>;
+  cancelEmailChange: () => Promise<void>;
+  confirmEmailChange: (token: string) => Promise<void>;
+  revertEmailChange: (token: string) => Promise<void>;
+  // Edit the profile details - if the profile changed elsewhere first, user is refreshed and the call throws
+  updateProfile: (details: ProfileUpdate) => Promise<void>;
+  // Avatar - upload an image (optionally cropped to a square) or remove it
+  uploadAvatar: (file: File, crop?: AvatarCrop) => Promise<void>;
+  removeAvatar: () => Promise<void>;
+  // Email verification - verify with the token from the emailed link, or ask for a new link
+  verifyEmail: (token: string) => Promise<void>;
+  resendVerificationEmail: () => Promise<void>;
+  // Password recovery - email a reset link, then set a new password with the token from the link
+  forgotPassword: (email: string) => Promise<string>;
+  resetPassword: (token: string, newPassword: string) => Promise<void>;
+  // Session management - list where the user is signed in and sign out other devices
+  getSessions: () => Promise<Session[]>;
+  revokeSession: (sessionId: string) => Promise<void>;
+  revokeOtherSessions: () => Promise<void>;
+  // Two-factor authentication settings - setup returns the secret, confirm and regenerate return new backup codes
+  setupTwoFactor: () => Promise<TwoFactorSetup>;
+  confirmTwoFactor: (code: string) => Promise<string[]>;
+  disableTwoFactor: (password: string, code: string) => Promise<void>;
+  regenerateBackupCodes: (code: string) => Promise<string[]>;
+  // Passkey management - list, add (runs the browser's passkey prompt), rename and delete
+  getPasskeys: () => Promise<Passkey[]>;
+  addPasskey: (name: string) => Promise<void>;
+  renamePasskey: (passkeyId: string, name: string) => Promise<void>;
+  deletePasskey: (passkeyId: string) => Promise<void>;
+  // Personal access tokens - create returns the token, the only time it can be seen
+  getPersonalAccessTokens: () => Promise<PersonalAccessToken[]>;
+  createPersonalAccessToken: (
+    name: string,
+    scopes: TokenScope[],
+    expiresInDays: number,
+  ) => Promise<string>;
+  deletePersonalAccessToken: (tokenId: string) => Promise<void>;
+  // Connected accounts - linking also leaves the app for the provider
+  getLinkedAccounts: () => Promise<LinkedAccount[]>;
+  linkOAuthAccount: (providerId: string) => Promise<void>;
+  unlinkAccount: (accountId: string) => Promise<void>;
+  // Personal data export - start building a ZIP of the user's data, and check on the latest one (null if there is none)
+  requestDataExport: () => Promise<DataExport>;
+  getDataExport: () => Promise<DataExport | null>;
+  // Security activity - the user's recent logins, password and email changes, newest first
+  getActivity: (cursor?: string) => Promise<AuthEventPage>;
+  // Account deletion - schedule it (signs out and returns when the account will be purged), or cancel with the emailed token
+  deleteAccount: (password: string, code?: string) => Promise<string>;
+  cancelAccountDeletion: (token: string) => Promise<void>;
   clearError: () => void;
 }
 
@@ -1,24 +1,191 @@
 import {
   AuthContext,
   type AuthContextType,
-  type ValidationError,
+  type AuthEvent,
+  type AvatarCrop,
+  type DataExport,
+  type LinkedAccount,
+  type OAuthProviderInfo,
+  type Passkey,
+  type Permission,
+  type PersonalAccessToken,
+  type ProfileUpdate,
+  type Role,
+  type Session,
+  type TokenScope,
+  type TwoFactorSetup,
 } from "./AuthContext";
 
 import { useState, useEffect, ReactNode, useCallback } from "react";
 
 import apiClient from "../api/client"; // Axios instance for making API calls to backend
 import axios from "axios";
-
-// Define generic error message for auth operations to avoid revealing sensitive info
-const genericErrorMessage = "An error occurred. Please try again.";
+import {
+  startAuthentication,
+  startRegistration,
+} from "@simplewebauthn/browser"; // Runs the browser's passkey prompts
+import { genericErrorMessage, toAuthError } from "../utils/toAuthError";
 
 // Transform backend user object: rename _id to id for consistency with frontend conventions
 // This abstracts MongoDB implementation details from the rest of the application
-const transformUser = (user: { _id: string; name: string; email: string }) => {
+const transformUser = (user: {
+  _id: string;
+  name: string;
+  email: string;
+  pendingEmail: string | null;
+  displayName: string | null;
+  bio: string | null;
+  timezone: string | null;
+  locale: string | null;
+  avatarUrl: string | null;
+  isVerified: boolean;
+  twoFactorEnabled: boolean;
+  roles: Role[];
+  permissions: Permission[];
+  version: number;
+}) => {
   return {
     id: user._id,
     name: user.name,
     email: user.email,
+    pendingEmail: user.pendingEmail,
+    displayName: user.displayName,
+    bio: user.bio,
+    timezone: user.timezone,
+    locale: user.locale,
+    avatarUrl: user.avatarUrl,
+    isVerified: user.isVerified,
+    twoFactorEnabled: user.twoFactorEnabled,
+    roles: user.roles,
+    permissions: user.permissions,
+    version: user.version,
+  };
+};
+
+// Build the error for a failed passkey operation - the browser throws its own errors when the user cancels the prompt or it times out
+const toPasskeyError = (error: unknown) => {
+  if (axios.isAxiosError(error)) {
+    return toAuthError(error);
+  }
+  return {
+    message:
+      "The passkey request was cancelled or timed out. Please try again.",
+  };
+};
+
+// Transform backend passkey object: rename _id to id like we do for users
+const transformPasskey = (passkey: {
+  _id: string;
+  name: string;
+  deviceType: Passkey["deviceType"];
+  backedUp: boolean;
+  createdAt: string;
+  lastUsedAt: string | null;
+}): Passkey => {
+  return {
+    id: passkey._id,
+    name: passkey.name,
+    deviceType: passkey.deviceType,
+    backedUp: passkey.backedUp,
+    createdAt: passkey.createdAt,
+    lastUsedAt: passkey.lastUsedAt,
+  };
+};
+
+// Transform backend personal access token object: rename _id to id like we do for users
+const transformPersonalAccessToken = (token: {
+  _id: string;
+  name: string;
+  prefix: string;
+  scopes: TokenScope[];
+  createdAt: string;
+  expiresAt: string;
+  lastUsedAt: string | null;
+}): PersonalAccessToken => {
+  return {
+    id: token._id,
+    name: token.name,
+    prefix: token.prefix,
+    scopes: token.scopes,
+    createdAt: token.createdAt,
+    expiresAt: token.expiresAt,
+    lastUsedAt: token.lastUsedAt,
+  };
+};
+
+// Transform backend linked identity object: rename _id to id like we do for users
+const transformLinkedAccount = (account: {
+  _id: string;
+  provider: string;
+  email: string | null;
+  createdAt: string;
+}): LinkedAccount => {
+  return {
+    id: account._id,
+    provider: account.provider,
+    email: account.email,
+    createdAt: account.createdAt,
+  };
+};
+
+// Transform backend data export object: rename _id to id like we do for users
+const transformDataExport = (dataExport: {
+  _id: string;
+  status: DataExport["status"];
+  size: number | null;
+  createdAt: string;
+  expiresAt: string;
+  downloadUrl: string | null;
+}): DataExport => {
+  return {
+    id: dataExport._id,
+    status: dataExport.status,
+    size: dataExport.size,
+    createdAt: dataExport.createdAt,
+    expiresAt: dataExport.expiresAt,
+    downloadUrl: dataExport.downloadUrl,
+  };
+};
+
+// Transform backend auth event object: rename _id to id like we do for users
+const transformAuthEvent = (event: {
+  _id: string;
+  type: AuthEvent["type"];
+  outcome: AuthEvent["outcome"];
+  reason: string | null;
+  method: AuthEvent["method"];
+  ip: string;
+  userAgent: string;
+  createdAt: string;
+}): AuthEvent => {
+  return {
+    id: event._id,
+    type: event.type,
+    outcome: event.outcome,
+    reason: event.reason,
+    method: event.method,
+    ip: event.ip,
+    userAgent: event.userAgent,
+    createdAt: event.createdAt,
+  };
+};
+
+// Transform backend session object: rename _id to id like we do for users
+const transformSession = (session: {
+  _id: string;
+  userAgent: string;
+  ip: string;
+  createdAt: string;
+  lastUsedAt: string;
+  current: boolean;
+}): Session => {
+  return {
+    id: session._id,
+    userAgent: session.userAgent,
+    ip: session.ip,
+    createdAt: session.createdAt,
+    lastUsedAt: session.lastUsedAt,
+    current: session.current,
   };
 };
 
@@ -32,10 +199,11 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     // On initial load, we are only loading while we check for token to fetch user data
     return !!localStorage.getItem("token");
   });
-  const [error, setError] = useState<{
-    message: string;
-    errors?: Array<ValidationError>;
-  } | null>(null);
+  // Challenge token from the password step of a two-factor login, only kept in memory so a reload starts the login again
+  const [twoFactorChallenge, setTwoFactorChallenge] = useState<string | null>(
+    null,
+  );
+  const [error, setError] = useState<AuthContextType["error"]>(null);
 
   // GetCurrentUser: Call GET /api/auth/me with JWT to fetch current user data, hydrate on app load
   const getCurrentUser = useCallback(async () => {
@@ -80,6 +248,11 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     try {
       // Make API call to backend login endpoint with email and password
       const response = await apiClient.post("/auth/login", { email, password });
+      // With two-factor enabled, backend returns { twoFactorRequired, challengeToken } and the Login page asks for a code
+      if (response.data.twoFactorRequired) {
+        setTwoFactorChallenge(response.data.challengeToken);
+        return;
+      }
       // On success, backend returns { token, user }
       const { token, user } = response.data; // Extract token and user data from response
       // Store token in localStorage for persistence across page reloads
@@ -88,21 +261,142 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
       setToken(token);
       setUser(transformUser(user));
     } catch (error) {
-      if (axios.isAxiosError(error)) {
-        // Check if the error is an AxiosError to safely access response data
-        const message = error.response?.data?.message || genericErrorMessage; // Try to get error message from backend response // Fallback message if backend doesn't provide one
+      // Includes lockedUntil when too many failed attempts locked the account or IP address, so the Login page can show a countdown
+      setError(toAuthError(error));
+    } finally {
+      setLoading(false); // Set loading to false at the end of the login process - hide spinner / allow other requests
+    }
+  };
 
-        const validationErrors = error.response?.data?.errors; // Try to get validation errors array from backend response
+  // VerifyTwoFactorLogin: Call POST /api/auth/login/2fa with the challenge token from login and the code the user typed
+  // Errors are stored in context like login, so the Login page shows them the same way
+  const verifyTwoFactorLogin = async (
+    code: string,
+    rememberDevice: boolean,
+  ) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await apiClient.post("/auth/login/2fa", {
+        challengeToken: twoFactorChallenge,
+        code,
+        rememberDevice,
+      });
+      const { token, user } = response.data;
+      localStorage.setItem("token", token);
+      setTwoFactorChallenge(null);
+      setToken(token);
+      setUser(transformUser(user));
+    } catch (error) {
+      setError(toAuthError(error));
+    } finally {
+      setLoading(false);
+    }
+  };
 
-        setError({
-          message,
-          ...(validationErrors && { errors: validationErrors }),
-        });
-      } else {
-        setError({ message: genericErrorMessage });
+  // CancelTwoFactorLogin: Forget the challenge token and go back to the password step
+  const cancelTwoFactorLogin = () => {
+    setTwoFactorChallenge(null);
+    setError(null);
+  };
+
+  // GetOAuthProviders: Call GET /auth/oauth/providers to find out which social login buttons to show
+  // Memoized with useCallback so components can safely fetch it inside a useEffect
+  const getOAuthProviders = useCallback(async (): Promise<
+    OAuthProviderInfo[]
+  > => {
+    try {
+      const response = await apiClient.get("/auth/oauth/providers");
+      return response.data.providers;
+    } catch (error) {
+      throw toAuthError(error);
+    }
+  }, []);
+
+  // StartOAuthLogin: Ask the backend for the provider's sign in URL, then leave the app to sign in there
+  // The backend sets a state cookie with the response, so the callback can check it's the same browser
+  const startOAuthLogin = async (providerId: string) => {
+    setError(null);
+    try {
+      const response = await apiClient.post(`/auth/oauth/${providerId}/start`);
+      window.location.assign(response.data.authorizationUrl);
+    } catch (error) {
+      setError(toAuthError(error));
+    }
+  };
+
+  // CompleteOAuthLogin: The callback already set the refresh token cookie, so refresh to get an access token
+  // Setting the token triggers the useEffect below, which fetches the user
+  const completeOAuthLogin = useCallback(async () => {
+    try {
+      const response = await apiClient.post("/auth/refresh");
+      const { token } = response.data;
+      localStorage.setItem("token", token);
+      setToken(token);
+    } catch (error) {
+      throw toAuthError(error);
+    }
+  }, []);
+
+  // ResumeTwoFactorLogin: Social login passed the first step, so continue with the same code prompt as a password login
+  const resumeTwoFactorLogin = useCallback((challengeToken: string) => {
+    setError(null);
+    setTwoFactorChallenge(challengeToken);
+  }, []);
+
+  // RequestMagicLink: Call POST /auth/magic-link, returns the backend's message
+  // The backend also sets a cookie in this browser, the emailed link only works alongside it
+  const requestMagicLink = async (email: string) => {
+    try {
+      const response = await apiClient.post("/auth/magic-link", { email });
+      return response.data.message as string;
+    } catch (error) {
+      throw toAuthError(error);
+    }
+  };
+
+  // VerifyMagicLink: Call POST /auth/magic-link/verify with the token from the emailed link
+  // On success, backend returns { token, user } just like a password login, or the two-factor challenge
+  // Memoized with useCallback so the landing page can safely call it inside a useEffect
+  const verifyMagicLink = useCallback(async (magicLinkToken: string) => {
+    try {
+      const response = await apiClient.post("/auth/magic-link/verify", {
+        token: magicLinkToken,
+      });
+      if (response.data.twoFactorRequired) {
+        setTwoFactorChallenge(response.data.challengeToken);
+        return;
       }
+      const { token, user } = response.data;
+      localStorage.setItem("token", token);
+      setToken(token);
+      setUser(transformUser(user));
+    } catch (error) {
+      throw toAuthError(error);
+    }
+  }, []);
+
+  // LoginWithPasskey: Get a challenge from the backend, let the browser sign it with a passkey, then send the result back
+  // On success, backend returns { token, user } just like a password login
+  const loginWithPasskey = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const { data: optionsJSON } = await apiClient.post(
+        "/auth/passkeys/login/options",
+      );
+      const response = await startAuthentication({ optionsJSON });
+      const result = await apiClient.post("/auth/passkeys/login/verify", {
+        response,
+      });
+      const { token, user } = result.data;
+      localStorage.setItem("token", token);
+      setToken(token);
+      setUser(transformUser(user));
+    } catch (error) {
+      setError(toPasskeyError(error));
     } finally {
-      setLoading(false); // Set loading to false at the end of the login process - hide spinner / allow other requests
+      setLoading(false);
     }
   };
 
@@ -207,13 +501,8 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
         newEmail,
         password,
       });
-      // On success, backend returns new token and updated user object
-      const { token: newToken, user } = response.data;
-      // Update localStorage with new token
-      localStorage.setItem("token", newToken);
-      // Update state with new token and updated user data
-      setToken(newToken);
-      setUser(transformUser(user));
+      // The email doesn't change yet - the user comes back with the new address as pendingEmail
+      setUser(transformUser(response.data.user));
     } catch (error) {
       if (axios.isAxiosError(error)) {
         const message = error.response?.data?.message || genericErrorMessage;
@@ -228,6 +517,401 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     }
   };
 
+  // CancelEmailChange: Call DELETE /auth/update-email to drop the pending email, the links already sent stop working
+  const cancelEmailChange = async () => {
+    try {
+      const response = await apiClient.delete("/auth/update-email");
+      setUser(transformUser(response.data.user));
+    } catch (error) {
+      throw toAuthError(error);
+    }
+  };
+
+  // ConfirmEmailChange: Call POST /auth/confirm-email-change with the token from the link sent to the new address
+  // Memoized with useCallback because the ConfirmEmailChange page calls it inside a useEffect
+  const confirmEmailChange = useCallback(async (confirmToken: string) => {
+    try {
+      const response = await apiClient.post("/auth/confirm-email-change", {
+        token: confirmToken,
+      });
+      // The link may be opened while logged in as someone else, so only update the user it was for
+      const updatedUser = transformUser(response.data.user);
+      setUser((current) =>
+        current && current.id === updatedUser.id ? updatedUser : current,
+      );
+    } catch (error) {
+      throw toAuthError(error);
+    }
+  }, []);
+
+  // RevertEmailChange: Call POST /auth/revert-email-change with the token from the notice sent to the old address
+  // The backend signs the account out everywhere, so clear the local session too like logout does
+  // Memoized with useCallback because the RevertEmailChange page calls it inside a useEffect
+  const revertEmailChange = useCallback(async (revertToken: string) => {
+    try {
+      await apiClient.post("/auth/revert-email-change", { token: revertToken });
+      localStorage.removeItem("token");
+      setToken(null);
+      setUser(null);
+    } catch (error) {
+      throw toAuthError(error);
+    }
+  }, []);
+
+  // UpdateProfile: Call PATCH /auth/me with the changed details and the version of the profile we're editing
+  // A 409 means the profile changed somewhere else first - the backend sends the latest profile, so show it and let the user try again
+  const updateProfile = async (details: ProfileUpdate) => {
+    try {
+      const response = await apiClient.patch("/auth/me", {
+        ...details,
+        version: user?.version,
+      });
+      setUser(transformUser(response.data.user));
+    } catch (error) {
+      if (
+        axios.isAxiosError(error) &&
+        error.response?.status === 409 &&
+        error.response.data?.user
+      ) {
+        setUser(transformUser(error.response.data.user));
+      }
+      throw toAuthError(error);
+    }
+  };
+
+  // UploadAvatar: Call POST /auth/me/avatar with the image as multipart/form-data, the backend resizes it and returns the updated user
+  const uploadAvatar = async (file: File, crop?: AvatarCrop) => {
+    try {
+      const formData = new FormData();
+      formData.append("avatar", file);
+      if (crop) {
+        formData.append("cropX", String(crop.x));
+        formData.append("cropY", String(crop.y));
+        formData.append("cropSize", String(crop.size));
+      }
+      const response = await apiClient.post("/auth/me/avatar", formData);
+      setUser(transformUser(response.data.user));
+    } catch (error) {
+      throw toAuthError(error);
+    }
+  };
+
+  // RemoveAvatar: Call DELETE /auth/me/avatar
+  const removeAvatar = async () => {
+    try {
+      const response = await apiClient.delete("/auth/me/avatar");
+      setUser(transformUser(response.data.user));
+    } catch (error) {
+      throw toAuthError(error);
+    }
+  };
+
+  // VerifyEmail: Call POST /auth/verify-email with the token from the emailed link
+  // Works without being logged in - if this browser is logged in as the same user, mark them verified in state too
+  const verifyEmail = async (verificationToken: string) => {
+    try {
+      const response = await apiClient.post("/auth/verify-email", {
+        token: verificationToken,
+      });
+      const verifiedUser = transformUser(response.data.user);
+      setUser((current) =>
+        current && current.id === verifiedUser.id ? verifiedUser : current,
+      );
+    } catch (error) {
+      throw toAuthError(error);
+    }
+  };
+
+  // ResendVerificationEmail: Call POST /auth/resend-verification to email a new link (limited to 3 per hour)
+  const resendVerificationEmail = async () => {
+    try {
+      await apiClient.post("/auth/resend-verification");
+    } catch (error) {
+      throw toAuthError(error);
+    }
+  };
+
+  // ForgotPassword: Call POST /auth/forgot-password, returns the backend's message
+  // The backend sends the same message whether or not the account exists, so we just show it
+  const forgotPassword = async (email: string) => {
+    try {
+      const response = await apiClient.post("/auth/forgot-password", {
+        email,
+      });
+      return response.data.message as string;
+    } catch (error) {
+      throw toAuthError(error);
+    }
+  };
+
+  // ResetPassword: Call POST /auth/reset-password with the token from the emailed link
+  // The backend signs out every session, so the user has to log in again afterwards
+  const resetPassword = async (resetToken: string, newPassword: string) => {
+    try {
+      await apiClient.post("/auth/reset-password", {
+        token: resetToken,
+        newPassword,
+      });
+    } catch (error) {
+      throw toAuthError(error);
+    }
+  };
+
+  // GetSessions: Call GET /auth/sessions to list every device the user is signed in on
+  // Like updatePassword, errors are thrown for the component to handle instead of being stored in context
+  // Memoized with useCallback so components can safely fetch it inside a useEffect
+  const getSessions = useCallback(async () => {
+    try {
+      const response = await apiClient.get("/auth/sessions");
+      return response.data.sessions.map(transformSession);
+    } catch (error) {
+      throw toAuthError(error);
+    }
+  }, []);
+
+  // RevokeSession: Call DELETE /auth/sessions/:id to sign out a single device
+  const revokeSession = async (sessionId: string) => {
+    try {
+      await apiClient.delete(`/auth/sessions/${sessionId}`);
+    } catch (error) {
+      throw toAuthError(error);
+    }
+  };
+
+  // RevokeOtherSessions: Call DELETE /auth/sessions to sign out every device except this one
+  const revokeOtherSessions = async () => {
+    try {
+      await apiClient.delete("/auth/sessions");
+    } catch (error) {
+      throw toAuthError(error);
+    }
+  };
+
+  // SetupTwoFactor: Call POST /auth/2fa/setup to get a new secret and QR code for the authenticator app
+  const setupTwoFactor = async (): Promise<TwoFactorSetup> => {
+    try {
+      const response = await apiClient.post("/auth/2fa/setup");
+      return response.data;
+    } catch (error) {
+      throw toAuthError(error);
+    }
+  };
+
+  // ConfirmTwoFactor: Call POST /auth/2fa/confirm with the first code from the app, returns the backup codes to show once
+  const confirmTwoFactor = async (code: string) => {
+    try {
+      const response = await apiClient.post("/auth/2fa/confirm", { code });
+      setUser(transformUser(response.data.user));
+      return response.data.backupCodes as string[];
+    } catch (error) {
+      throw toAuthError(error);
+    }
+  };
+
+  // DisableTwoFactor: Call POST /auth/2fa/disable, needs the password and a current code
+  const disableTwoFactor = async (password: string, code: string) => {
+    try {
+      const response = await apiClient.post("/auth/2fa/disable", {
+        password,
+        code,
+      });
+      setUser(transformUser(response.data.user));
+    } catch (error) {
+      throw toAuthError(error);
+    }
+  };
+
+  // RegenerateBackupCodes: Call POST /auth/2fa/backup-codes, the old codes stop working
+  const regenerateBackupCodes = async (code: string) => {
+    try {
+      const response = await apiClient.post("/auth/2fa/backup-codes", {
+        code,
+      });
+      return response.data.backupCodes as string[];
+    } catch (error) {
+      throw toAuthError(error);
+    }
+  };
+
+  // GetPasskeys: Call GET /auth/passkeys to list the user's passkeys
+  // Memoized with useCallback so components can safely fetch it inside a useEffect
+  const getPasskeys = useCallback(async () => {
+    try {
+      const response = await apiClient.get("/auth/passkeys");
+      return response.data.passkeys.map(transformPasskey);
+    } catch (error) {
+      throw toAuthError(error);
+    }
+  }, []);
+
+  // AddPasskey: Get registration options, let the browser create the passkey, then send it to the backend to store
+  const addPasskey = async (name: string) => {
+    try {
+      const { data: optionsJSON } = await apiClient.post(
+        "/auth/passkeys/register/options",
+      );
+      const response = await startRegistration({ optionsJSON });
+      await apiClient.post("/auth/passkeys/register/verify", {
+        response,
+        ...(name && { name }),
+      });
+    } catch (error) {
+      throw toPasskeyError(error);
+    }
+  };
+
+  // RenamePasskey: Call PATCH /auth/passkeys/:id with the new name
+  const renamePasskey = async (passkeyId: string, name: string) => {
+    try {
+      await apiClient.patch(`/auth/passkeys/${passkeyId}`, { name });
+    } catch (error) {
+      throw toAuthError(error);
+    }
+  };
+
+  // DeletePasskey: Call DELETE /auth/passkeys/:id, the passkey can't be used to log in anymore
+  const deletePasskey = async (passkeyId: string) => {
+    try {
+      await apiClient.delete(`/auth/passkeys/${passkeyId}`);
+    } catch (error) {
+      throw toAuthError(error);
+    }
+  };
+
+  // GetPersonalAccessTokens: Call GET /auth/personal-access-tokens to list the user's unexpired tokens
+  // Memoized with useCallback so components can safely fetch it inside a useEffect
+  const getPersonalAccessTokens = useCallback(async () => {
+    try {
+      const response = await apiClient.get("/auth/personal-access-tokens");
+      return response.data.personalAccessTokens.map(
+        transformPersonalAccessToken,
+      );
+    } catch (error) {
+      throw toAuthError(error);
+    }
+  }, []);
+
+  // CreatePersonalAccessToken: Call POST /auth/personal-access-tokens and return the new token for the user to copy
+  const createPersonalAccessToken = async (
+    name: string,
+    scopes: TokenScope[],
+    expiresInDays: number,
+  ) => {
+    try {
+      const response = await apiClient.post("/auth/personal-access-tokens", {
+        name,
+        scopes,
+        expiresInDays,
+      });
+      return response.data.token;
+    } catch (error) {
+      throw toAuthError(error);
+    }
+  };
+
+  // DeletePersonalAccessToken: Call DELETE /auth/personal-access-tokens/:id, the token stops working straight away
+  const deletePersonalAccessToken = async (tokenId: string) => {
+    try {
+      await apiClient.delete(`/auth/personal-access-tokens/${tokenId}`);
+    } catch (error) {
+      throw toAuthError(error);
+    }
+  };
+
+  // GetLinkedAccounts: Call GET /auth/identities to list the social accounts connected to the user
+  // Memoized with useCallback so components can safely fetch it inside a useEffect
+  const getLinkedAccounts = useCallback(async () => {
+    try {
+      const response = await apiClient.get("/auth/identities");
+      return response.data.identities.map(transformLinkedAccount);
+    } catch (error) {
+      throw toAuthError(error);
+    }
+  }, []);
+
+  // LinkOAuthAccount: Like startOAuthLogin, but the backend connects the provider account to the logged in user
+  const linkOAuthAccount = async (providerId: string) => {
+    try {
+      const response = await apiClient.post(`/auth/oauth/${providerId}/link`);
+      window.location.assign(response.data.authorizationUrl);
+    } catch (error) {
+      throw toAuthError(error);
+    }
+  };
+
+  // UnlinkAccount: Call DELETE /auth/identities/:id, the provider account can't be used to sign in anymore
+  const unlinkAccount = async (accountId: string) => {
+    try {
+      await apiClient.delete(`/auth/identities/${accountId}`);
+    } catch (error) {
+      throw toAuthError(error);
+    }
+  };
+
+  // RequestDataExport: Call POST /auth/me/export, the backend builds the archive in the background and emails a link
+  const requestDataExport = async () => {
+    try {
+      const response = await apiClient.post("/auth/me/export");
+      return transformDataExport(response.data.export);
+    } catch (error) {
+      throw toAuthError(error);
+    }
+  };
+
+  // GetDataExport: Call GET /auth/me/export for the latest export, so the Profile page can show its status
+  // Memoized with useCallback so components can safely fetch it inside a useEffect
+  const getDataExport = useCallback(async () => {
+    try {
+      const response = await apiClient.get("/auth/me/export");
+      const { export: dataExport } = response.data;
+      return dataExport ? transformDataExport(dataExport) : null;
+    } catch (error) {
+      throw toAuthError(error);
+    }
+  }, []);
+
+  // GetActivity: Call GET /auth/me/activity for a page of security activity, pass the previous page's nextCursor for older events
+  // Memoized with useCallback so components can safely fetch it inside a useEffect
+  const getActivity = useCallback(async (cursor?: string) => {
+    try {
+      const response = await apiClient.get("/auth/me/activity", {
+        params: cursor ? { cursor } : {},
+      });
+      return {
+        events: response.data.events.map(transformAuthEvent),
+        nextCursor: response.data.nextCursor,
+      };
+    } catch (error) {
+      throw toAuthError(error);
+    }
+  }, []);
+
+  // DeleteAccount: Call DELETE /auth/me to schedule the account for deletion, returns when it will be purged
+  // The backend signs the user out everywhere, so clear local auth state like logout does
+  const deleteAccount = async (password: string, code?: string) => {
+    try {
+      const response = await apiClient.delete("/auth/me", {
+        data: { password, ...(code && { code }) },
+      });
+      localStorage.removeItem("token");
+      setToken(null);
+      setUser(null);
+      return response.data.deletionScheduledFor;
+    } catch (error) {
+      throw toAuthError(error);
+    }
+  };
+
+  // CancelAccountDeletion: Call POST /auth/cancel-deletion with the token from the deletion email
+  // Memoized with useCallback because the CancelDeletion page calls it inside a useEffect
+  const cancelAccountDeletion = useCallback(async (cancelToken: string) => {
+    try {
+      await apiClient.post("/auth/cancel-deletion", { token: cancelToken });
+    } catch (error) {
+      throw toAuthError(error);
+    }
+  }, []);
+
   // ClearError: Resets the error state to null.
   // We use useCallback to memoize this function so that it doesn't cause unnecessary re-renders in components that depend on it, since it will be stable across renders.
   const clearError = useCallback(() => {
@@ -249,12 +933,54 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
         token,
         loading,
         error,
+        twoFactorRequired: twoFactorChallenge !== null,
         login,
+        verifyTwoFactorLogin,
+        cancelTwoFactorLogin,
+        getOAuthProviders,
+        startOAuthLogin,
+        completeOAuthLogin,
+        resumeTwoFactorLogin,
+        requestMagicLink,
+        verifyMagicLink,
+        loginWithPasskey,
         logout,
         register,
         getCurrentUser,
         updatePassword,
         updateEmail,
+        cancelEmailChange,
+        confirmEmailChange,
+        revertEmailChange,
+        updateProfile,
+        uploadAvatar,
+        removeAvatar,
+        verifyEmail,
+        resendVerificationEmail,
+        forgotPassword,
+        resetPassword,
+        getSessions,
+        revokeSession,
+        revokeOtherSessions,
+        setupTwoFactor,
+        confirmTwoFactor,
+        disableTwoFactor,
+        regenerateBackupCodes,
+        getPasskeys,
+        addPasskey,
+        renamePasskey,
+        deletePasskey,
+        getPersonalAccessTokens,
+        createPersonalAccessToken,
+        deletePersonalAccessToken,
+        getLinkedAccounts,
+        linkOAuthAccount,
+        unlinkAccount,
+        requestDataExport,
+        getDataExport,
+        getActivity,
+        deleteAccount,
+        cancelAccountDeletion,
         clearError,
       }}
     >
@@ -0,0 +1,93 @@
+import { createContext, useContext } from "react";
+
+// Roles a member can have in an organization, must match backend/src/config/organizationConfig.ts
+// There's always exactly one owner, ownership only moves with a transfer
+export type OrgRole = "owner" | "admin" | "member";
+
+// An organization the user belongs to, with their role in it
+export interface Organization {
+  id: string;
+  name: string;
+  role: OrgRole;
+  createdAt: string;
+}
+
+// A member of an organization, as listed on the organization settings page
+export interface OrganizationMember {
+  userId: string;
+  name: string;
+  email: string;
+  role: OrgRole;
+  joinedAt: string;
+}
+
+// A pending invitation, as listed for the organization's owner and admins (the token is only ever in the email)
+export interface OrganizationInvite {
+  id: string;
+  email: string;
+  role: OrgRole;
+  invitedBy: string | null; // The inviter's name
+  createdAt: string;
+  expiresAt: string;
+}
+
+// An invitation as the invited user sees it before answering
+export interface Invitation {
+  organizationName: string;
+  email: string;
+  role: OrgRole;
+  invitedBy: string | null;
+  expiresAt: string;
+}
+
+// Define the shape of the organization context
+export interface OrganizationContextType {
+  // Every organization the logged in user belongs to, empty when logged out
+  organizations: Organization[];
+  // The organization the user is working in, sent to the backend with every request in the X-Organization-Id header
+  activeOrganization: Organization | null;
+  setActiveOrganization: (organizationId: string) => void;
+  loadOrganizations: () => Promise<void>;
+  // Organization settings - creating one makes the user its owner and switches to it
+  createOrganization: (name: string) => Promise<Organization>;
+  updateOrganization: (organizationId: string, name: string) => Promise<void>;
+  deleteOrganization: (organizationId: string) => Promise<void>;
+  leaveOrganization: (organizationId: string) => Promise<void>;
+  // Members - only the owner can change or remove admins, and hand the organization to another member
+  getMembers: (organizationId: string) => Promise<OrganizationMember[]>;
+  updateMemberRole: (
+    organizationId: string,
+    userId: string,
+    role: OrgRole,
+  ) => Promise<void>;
+  removeMember: (organizationId: string, userId: string) => Promise<void>;
+  transferOwnership: (organizationId: string, userId: string) => Promise<void>;
+  // Invitations sent by the owner and admins
+  getInvites: (organizationId: string) => Promise<OrganizationInvite[]>;
+  inviteMember: (
+    organizationId: string,
+    email: string,
+    role: OrgRole,
+  ) => Promise<void>;
+  revokeInvite: (organizationId: string, inviteId: string) => Promise<void>;
+  // Answering an invitation with the token from the emailed link, accepting switches to the organization
+  getInvitation: (token: string) => Promise<Invitation>;
+  acceptInvitation: (token: string) => Promise<Organization>;
+  declineInvitation: (token: string) => Promise<void>;
+}
+
+// Create the context
+export const OrganizationContext = createContext<
+  OrganizationContextType | undefined
+>(undefined);
+
+// Custom hook to use the OrganizationContext
+export const useOrganization = (): OrganizationContextType => {
+  const context = useContext(OrganizationContext);
+  if (!context) {
+    throw new Error(
+      "useOrganization must be used within an OrganizationProvider",
+    );
+  }
+  return context;
+};
@@ -0,0 +1,339 @@
+import { ReactNode, useCallback, useEffect, useState } from "react";
+import apiClient from "../api/client";
+import { useAuth } from "./AuthContext";
+import {
+  OrganizationContext,
+  type Invitation,
+  type Organization,
+  type OrganizationInvite,
+  type OrganizationMember,
+  type OrgRole,
+} from "./OrganizationContext";
+import { toAuthError } from "../utils/toAuthError";
+import { config } from "../config";
+
+// Transform backend organization object: rename _id to id like we do for users
+const transformOrganization = (organization: {
+  _id: string;
+  name: string;
+  role: OrgRole;
+  createdAt: string;
+}): Organization => {
+  return {
+    id: organization._id,
+    name: organization.name,
+    role: organization.role,
+    createdAt: organization.createdAt,
+  };
+};
+
+// Transform backend invitation object: rename _id to id like we do for users
+const transformInvite = (invite: {
+  _id: string;
+  email: string;
+  role: OrgRole;
+  invitedBy: string | null;
+  createdAt: string;
+  expiresAt: string;
+}): OrganizationInvite => {
+  return {
+    id: invite._id,
+    email: invite.email,
+    role: invite.role,
+    invitedBy: invite.invitedBy,
+    createdAt: invite.createdAt,
+    expiresAt: invite.expiresAt,
+  };
+};
+
+// Remember the active organization across reloads, the API client reads it from here for the X-Organization-Id header
+const storeActiveOrganizationId = (organizationId: string | null) => {
+  if (organizationId) {
+    localStorage.setItem("activeOrganizationId", organizationId);
+  } else {
+    localStorage.removeItem("activeOrganizationId");
+  }
+};
+
+export const OrganizationProvider = ({ children }: { children: ReactNode }) => {
+  const { token, user } = useAuth();
+  const userId = user?.id;
+  // The list is kept with the user it was loaded for, so nothing from a previous login shows up after logging in as someone else
+  const [loaded, setLoaded] = useState<{
+    userId: string;
+    organizations: Organization[];
+  } | null>(null);
+  const [activeOrganizationId, setActiveOrganizationId] = useState<
+    string | null
+  >(() => localStorage.getItem("activeOrganizationId"));
+
+  const organizations =
+    token && loaded && loaded.userId === userId ? loaded.organizations : [];
+  const activeOrganization =
+    organizations.find(
+      (organization) => organization.id === activeOrganizationId,
+    ) ?? null;
+
+  // SetActiveOrganization: Switch the organization the user is working in
+  const setActiveOrganization = useCallback((organizationId: string) => {
+    storeActiveOrganizationId(organizationId);
+    setActiveOrganizationId(organizationId);
+  }, []);
+
+  // LoadOrganizations: Call GET /organizations, keeps the active organization if the user still belongs to it
+  // Otherwise falls back to the first one, e.g. after leaving or being removed from the active organization
+  // Memoized with useCallback so components can safely call it inside a useEffect
+  const loadOrganizations = useCallback(async () => {
+    if (!userId) return;
+    try {
+      const response = await apiClient.get("/organizations");
+      const list: Organization[] = response.data.organizations.map(
+        transformOrganization,
+      );
+      const stored = localStorage.getItem("activeOrganizationId");
+      const active = list.some((organization) => organization.id === stored)
+        ? stored
+        : (list[0]?.id ?? null);
+      storeActiveOrganizationId(active);
+      setLoaded({ userId, organizations: list });
+      setActiveOrganizationId(active);
+    } catch (error) {
+      throw toAuthError(error);
+    }
+  }, [userId]);
+
+  // Load the organizations once the user is logged in, forget them on logout
+  // Waits for the user rather than the token, so a token that turns out to be expired doesn't clear the stored choice
+  useEffect(() => {
+    if (!token) {
+      storeActiveOrganizationId(null);
+      return;
+    }
+    if (!userId || !config.features.organizations) return;
+    const load = async () => {
+      try {
+        await loadOrganizations();
+      } catch {
+        // The switcher just stays empty, the settings page shows errors when it loads its own data
+      }
+    };
+    load();
+  }, [token, userId, loadOrganizations]);
+
+  // CreateOrganization: Call POST /organizations, the user becomes the owner and we switch to it
+  const createOrganization = async (name: string) => {
+    try {
+      const response = await apiClient.post("/organizations", { name });
+      const organization = transformOrganization(response.data.organization);
+      setActiveOrganization(organization.id);
+      await loadOrganizations();
+      return organization;
+    } catch (error) {
+      throw toAuthError(error);
+    }
+  };
+
+  // UpdateOrganization: Call PATCH /organizations/:id to rename it
+  const updateOrganization = async (organizationId: string, name: string) => {
+    try {
+      await apiClient.patch(`/organizations/${organizationId}`, { name });
+      await loadOrganizations();
+    } catch (error) {
+      throw toAuthError(error);
+    }
+  };
+
+  // DeleteOrganization: Call DELETE /organizations/:id, owner only, removes every member with it
+  const deleteOrganization = async (organizationId: string) => {
+    try {
+      await apiClient.delete(`/organizations/${organizationId}`);
+      await loadOrganizations();
+    } catch (error) {
+      throw toAuthError(error);
+    }
+  };
+
+  // LeaveOrganization: Remove the user's own membership, the owner has to transfer ownership first
+  const leaveOrganization = async (organizationId: string) => {
+    try {
+      await apiClient.delete(
+        `/organizations/${organizationId}/members/${userId}`,
+      );
+      await loadOrganizations();
+    } catch (error) {
+      throw toAuthError(error);
+    }
+  };
+
+  // GetMembers: Call GET /organizations/:id/members
+  // Memoized with useCallback so components can safely fetch it inside a useEffect
+  const getMembers = useCallback(
+    async (organizationId: string): Promise<OrganizationMember[]> => {
+      try {
+        const response = await apiClient.get(
+          `/organizations/${organizationId}/members`,
+        );
+        return response.data.members;
+      } catch (error) {
+        throw toAuthError(error);
+      }
+    },
+    [],
+  );
+
+  // UpdateMemberRole: Call PATCH /organizations/:id/members/:userId with the new role
+  const updateMemberRole = async (
+    organizationId: string,
+    memberId: string,
+    role: OrgRole,
+  ) => {
+    try {
+      await apiClient.patch(
+        `/organizations/${organizationId}/members/${memberId}`,
+        { role },
+      );
+    } catch (error) {
+      throw toAuthError(error);
+    }
+  };
+
+  // RemoveMember: Call DELETE /organizations/:id/members/:userId
+  const removeMember = async (organizationId: string, memberId: string) => {
+    try {
+      await apiClient.delete(
+        `/organizations/${organizationId}/members/${memberId}`,
+      );
+    } catch (error) {
+      throw toAuthError(error);
+    }
+  };
+
+  // TransferOwnership: Call POST /organizations/:id/transfer, the user stays on as an admin
+  const transferOwnership = async (
+    organizationId: string,
+    memberId: string,
+  ) => {
+    try {
+      await apiClient.post(`/organizations/${organizationId}/transfer`, {
+        userId: memberId,
+      });
+      await loadOrganizations();
+    } catch (error) {
+      throw toAuthError(error);
+    }
+  };
+
+  // GetInvites: Call GET /organizations/:id/invites, owners and admins only
+  // Memoized with useCallback so components can safely fetch it inside a useEffect
+  const getInvites = useCallback(
+    async (organizationId: string): Promise<OrganizationInvite[]> => {
+      try {
+        const response = await apiClient.get(
+          `/organizations/${organizationId}/invites`,
+        );
+        return response.data.invites.map(transformInvite);
+      } catch (error) {
+        throw toAuthError(error);
+      }
+    },
+    [],
+  );
+
+  // InviteMember: Call POST /organizations/:id/invites, the backend emails the invitation link
+  const inviteMember = async (
+    organizationId: string,
+    email: string,
+    role: OrgRole,
+  ) => {
+    try {
+      await apiClient.post(`/organizations/${organizationId}/invites`, {
+        email,
+        role,
+      });
+    } catch (error) {
+      throw toAuthError(error);
+    }
+  };
+
+  // RevokeInvite: Call DELETE /organizations/:id/invites/:inviteId so the link stops working
+  const revokeInvite = async (organizationId: string, inviteId: string) => {
+    try {
+      await apiClient.delete(
+        `/organizations/${organizationId}/invites/${inviteId}`,
+      );
+    } catch (error) {
+      throw toAuthError(error);
+    }
+  };
+
+  // GetInvitation: Call POST /organizations/invitations/lookup with the token from the emailed link
+  // Memoized with useCallback so the invitation page can safely fetch it inside a useEffect
+  const getInvitation = useCallback(
+    async (inviteToken: string): Promise<Invitation> => {
+      try {
+        const response = await apiClient.post(
+          "/organizations/invitations/lookup",
+          { token: inviteToken },
+        );
+        return response.data.invitation;
+      } catch (error) {
+        throw toAuthError(error);
+      }
+    },
+    [],
+  );
+
+  // AcceptInvitation: Call POST /organizations/invitations/accept, then switch to the organization
+  const acceptInvitation = async (inviteToken: string) => {
+    try {
+      const response = await apiClient.post(
+        "/organizations/invitations/accept",
+        { token: inviteToken },
+      );
+      const organization = transformOrganization(response.data.organization);
+      setActiveOrganization(organization.id);
+      await loadOrganizations();
+      return organization;
+    } catch (error) {
+      throw toAuthError(error);
+    }
+  };
+
+  // DeclineInvitation: Call POST /organizations/invitations/decline
+  const declineInvitation = async (inviteToken: string) => {
+    try {
+      await apiClient.post("/organizations/invitations/decline", {
+        token: inviteToken,
+      });
+    } catch (error) {
+      throw toAuthError(error);
+    }
+  };
+
+  return (
+    <OrganizationContext.Provider
+      value={{
+        organizations,
+        activeOrganization,
+        setActiveOrganization,
+        loadOrganizations,
+        createOrganization,
+        updateOrganization,
+        deleteOrganization,
+        leaveOrganization,
+        getMembers,
+        updateMemberRole,
+        removeMember,
+        transferOwnership,
+        getInvites,
+        inviteMember,
+        revokeInvite,
+        getInvitation,
+        acceptInvitation,
+        declineInvitation,
+      }}
+    >
+      {children}
+    </OrganizationContext.Provider>
+  );
+};
@@ -3,6 +3,7 @@ import ReactDOM from "react-dom/client";
 import { App } from "./App";
 import { AuthProvider } from "./context/AuthProvider";
 import { ThemeProvider } from "./context/ThemeProvider";
+import { OrganizationProvider } from "./context/OrganizationProvider";
 import "./index.css";
 
 const root = ReactDOM.createRoot(
@@ -11,9 +12,11 @@ const root = ReactDOM.createRoot(
 root.render(
   <React.StrictMode>
     <AuthProvider>
-      <ThemeProvider>
-        <App />
-      </ThemeProvider>
+      <OrganizationProvider>
+        <ThemeProvider>
+          <App />
+        </ThemeProvider>
+      </OrganizationProvider>
     </AuthProvider>
   </React.StrictMode>,
 );
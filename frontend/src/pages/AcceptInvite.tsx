@@ -0,0 +1,149 @@
+import { useEffect, useState } from "react";
+import { Link, useNavigate, useSearchParams } from "react-router";
+import { useAuth } from "../context/AuthContext";
+import {
+  useOrganization,
+  type Invitation,
+} from "../context/OrganizationContext";
+import { PageCard } from "../components/PageCard";
+import { Button } from "../components/Button";
+
+// Landing page for the emailed organization invitation (/accept-invite?token=...)
+// Not behind ProtectedRoute: logged out visitors are told to sign in with the invited email first
+export const AcceptInvite = () => {
+  const { loading, token: accessToken } = useAuth();
+  const { getInvitation, acceptInvitation, declineInvitation } =
+    useOrganization();
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const token = searchParams.get("token");
+
+  const [invitation, setInvitation] = useState<Invitation | null>(null);
+  const [errorMessage, setErrorMessage] = useState(
+    token ? "" : "This link is missing its token.",
+  );
+  const [declined, setDeclined] = useState(false);
+  const [busy, setBusy] = useState<"accept" | "decline" | null>(null);
+
+  // Looking the invitation up doesn't use it, so running twice under StrictMode is harmless
+  useEffect(() => {
+    if (!token || !accessToken) return;
+
+    const lookup = async () => {
+      try {
+        setInvitation(await getInvitation(token));
+      } catch (error) {
+        setErrorMessage((error as { message: string }).message);
+      }
+    };
+    lookup();
+  }, [token, accessToken, getInvitation]);
+
+  const handleAccept = async () => {
+    if (!token) return;
+    setBusy("accept");
+    try {
+      await acceptInvitation(token);
+      navigate("/organization", { replace: true });
+    } catch (error) {
+      setErrorMessage((error as { message: string }).message);
+      setBusy(null);
+    }
+  };
+
+  const handleDecline = async () => {
+    if (!token) return;
+    setBusy("decline");
+    try {
+      await declineInvitation(token);
+      setDeclined(true);
+    } catch (error) {
+      setErrorMessage((error as { message: string }).message);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  if (errorMessage) {
+    return (
+      <PageCard title="Couldn't Open Invitation" subtitle={errorMessage}>
+        <p className="text-center">
+          Ask the organization for a new invitation, and make sure you're logged
+          in with the email address it was sent to.
+        </p>
+      </PageCard>
+    );
+  }
+
+  if (loading) {
+    return <div>Loading...</div>;
+  }
+
+  if (!accessToken) {
+    return (
+      <PageCard
+        title="Organization Invitation"
+        subtitle="Log in or sign up with the email address this invitation was sent to, then open the link again."
+      >
+        <p className="text-center">
+          <Link className="underline" to="/login">
+            Log in
+          </Link>{" "}
+          or{" "}
+          <Link className="underline" to="/register">
+            create an account
+          </Link>
+        </p>
+      </PageCard>
+    );
+  }
+
+  if (declined) {
+    return (
+      <PageCard
+        title="Invitation Declined"
+        subtitle="The invitation link no longer works."
+      >
+        <Link className="text-center underline" to="/dashboard">
+          Go to your dashboard
+        </Link>
+      </PageCard>
+    );
+  }
+
+  if (!invitation) {
+    return <div>Loading invitation...</div>;
+  }
+
+  return (
+    <PageCard
+      title="Organization Invitation"
+      subtitle={`${invitation.invitedBy ?? "Someone"} invited you to join ${invitation.organizationName} as ${invitation.role === "admin" ? "an admin" : "a member"}.`}
+    >
+      <p className="mb-2 text-center">
+        This invitation expires on{" "}
+        {new Date(invitation.expiresAt).toLocaleString()}.
+      </p>
+      <div className="flex gap-2">
+        <Button
+          className="w-full"
+          type="button"
+          loading={busy === "accept"}
+          disabled={busy !== null}
+          onClick={handleAccept}
+        >
+          Accept
+        </Button>
+        <Button
+          className="w-full"
+          type="button"
+          loading={busy === "decline"}
+          disabled={busy !== null}
+          onClick={handleDecline}
+        >
+          Decline
+        </Button>
+      </div>
+    </PageCard>
+  );
+};
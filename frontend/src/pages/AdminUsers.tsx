@@ -0,0 +1,199 @@
+import { useCallback, useEffect, useState } from "react";
+import { PageCard } from "../components/PageCard";
+import { FormInput } from "../components/FormInput";
+import { Button } from "../components/Button";
+import { AdminUserDrawer } from "../components/AdminUserDrawer";
+import {
+  listUsers,
+  type AdminUserPage,
+  type AdminUserQuery,
+} from "../api/adminUsers";
+
+// Shared style for the filter dropdowns, matches FormInput
+const selectClass = "bg-surface-input border-border rounded-lg border-2 p-2";
+
+// Admin console: search and filter users, then open one to edit it or change its account status
+export const AdminUsers = () => {
+  const [query, setQuery] = useState<AdminUserQuery>({
+    page: 1,
+    limit: 20,
+    search: "",
+    role: "",
+    status: "",
+    verified: "",
+    sort: "-createdAt",
+  });
+  // The search box only updates the query when the form is submitted, so we don't fetch on every keystroke
+  const [searchInput, setSearchInput] = useState("");
+  const [result, setResult] = useState<AdminUserPage | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  // Fetch the current page, used whenever the query changes and after the drawer changes a user
+  const loadUsers = useCallback(async () => {
+    setLoading(true);
+    try {
+      setResult(await listUsers(query));
+      setError(null);
+    } catch (error) {
+      setError((error as { message: string }).message);
+    } finally {
+      setLoading(false);
+    }
+  }, [query]);
+
+  useEffect(() => {
+    loadUsers();
+  }, [loadUsers]);
+
+  // Changing a filter goes back to the first page
+  const updateFilter = (changes: Partial<AdminUserQuery>) => {
+    setQuery((prev) => ({ ...prev, ...changes, page: 1 }));
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    updateFilter({ search: searchInput.trim() });
+  };
+
+  return (
+    <PageCard title="Users" subtitle="Manage user accounts">
+      <form onSubmit={handleSearch} className="mb-2 flex items-end gap-2">
+        <FormInput
+          label="Search"
+          placeholder="Name or email"
+          value={searchInput}
+          onChange={(e) => setSearchInput(e.target.value)}
+          containerClassName="grow"
+        />
+        <Button>Search</Button>
+      </form>
+      <div className="mb-4 grid grid-cols-2 gap-2">
+        <select
+          aria-label="Role"
+          className={selectClass}
+          value={query.role}
+          onChange={(e) =>
+            updateFilter({ role: e.target.value as AdminUserQuery["role"] })
+          }
+        >
+          <option value="">Any role</option>
+          <option value="user">User</option>
+          <option value="moderator">Moderator</option>
+          <option value="admin">Admin</option>
+        </select>
+        <select
+          aria-label="Status"
+          className={selectClass}
+          value={query.status}
+          onChange={(e) =>
+            updateFilter({
+              status: e.target.value as AdminUserQuery["status"],
+            })
+          }
+        >
+          <option value="">Any status</option>
+          <option value="active">Active</option>
+          <option value="disabled">Disabled</option>
+        </select>
+        <select
+          aria-label="Verified"
+          className={selectClass}
+          value={query.verified}
+          onChange={(e) =>
+            updateFilter({
+              verified: e.target.value as AdminUserQuery["verified"],
+            })
+          }
+        >
+          <option value="">Verified or not</option>
+          <option value="true">Verified</option>
+          <option value="false">Not verified</option>
+        </select>
+        <select
+          aria-label="Sort"
+          className={selectClass}
+          value={query.sort}
+          onChange={(e) =>
+            updateFilter({ sort: e.target.value as AdminUserQuery["sort"] })
+          }
+        >
+          <option value="-createdAt">Newest first</option>
+          <option value="createdAt">Oldest first</option>
+          <option value="name">Name A-Z</option>
+          <option value="-name">Name Z-A</option>
+          <option value="email">Email A-Z</option>
+          <option value="-email">Email Z-A</option>
+        </select>
+      </div>
+
+      {error && <p className="text-text-error">{error}</p>}
+      {loading && !result && <p>Loading users...</p>}
+      {result && (
+        <>
+          <div className="overflow-x-auto">
+            <table className="w-full text-left">
+              <thead>
+                <tr className="border-border border-b-2">
+                  <th className="p-2">Name</th>
+                  <th className="p-2">Email</th>
+                  <th className="p-2">Roles</th>
+                  <th className="p-2">Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {result.users.map((user) => (
+                  <tr
+                    key={user.id}
+                    className="border-border hover:bg-interactive-hover cursor-pointer border-b"
+                    onClick={() => setSelectedId(user.id)}
+                  >
+                    <td className="p-2">{user.name}</td>
+                    <td className="p-2">{user.email}</td>
+                    <td className="p-2">{user.roles.join(", ")}</td>
+                    <td className="p-2">
+                      {user.disabledAt ? "Disabled" : "Active"}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {result.users.length === 0 && (
+            <p className="mt-2 text-center">No users match these filters.</p>
+          )}
+          <div className="mt-4 flex items-center justify-between">
+            <Button
+              type="button"
+              disabled={query.page <= 1}
+              onClick={() => setQuery({ ...query, page: query.page - 1 })}
+            >
+              Previous
+            </Button>
+            <span>
+              Page {result.page} of {Math.max(result.totalPages, 1)} (
+              {result.total} users)
+            </span>
+            <Button
+              type="button"
+              disabled={query.page >= result.totalPages}
+              onClick={() => setQuery({ ...query, page: query.page + 1 })}
+            >
+              Next
+            </Button>
+          </div>
+        </>
+      )}
+
+      {selectedId && (
+        <AdminUserDrawer
+          key={selectedId}
+          userId={selectedId}
+          onClose={() => setSelectedId(null)}
+          onChange={loadUsers}
+        />
+      )}
+    </PageCard>
+  );
+};
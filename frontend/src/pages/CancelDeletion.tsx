@@ -0,0 +1,62 @@
+import { useEffect, useRef, useState } from "react";
+import { Link, useSearchParams } from "react-router";
+import { useAuth } from "../context/AuthContext";
+import { PageCard } from "../components/PageCard";
+
+// Landing page for the link in the account deletion email (/cancel-deletion?token=...)
+export const CancelDeletion = () => {
+  const { cancelAccountDeletion } = useAuth();
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get("token");
+
+  const [status, setStatus] = useState<"cancelling" | "success" | "error">(
+    token ? "cancelling" : "error",
+  );
+  const [errorMessage, setErrorMessage] = useState(
+    token ? "" : "This link is missing its token.",
+  );
+  // StrictMode runs effects twice in development, so remember that we already sent the request
+  const requested = useRef(false);
+
+  useEffect(() => {
+    if (!token || requested.current) return;
+    requested.current = true;
+
+    const cancel = async () => {
+      try {
+        await cancelAccountDeletion(token);
+        setStatus("success");
+      } catch (error) {
+        setErrorMessage((error as { message: string }).message);
+        setStatus("error");
+      }
+    };
+    cancel();
+  }, [token, cancelAccountDeletion]);
+
+  if (status === "cancelling") {
+    return <div>Cancelling the deletion...</div>;
+  }
+
+  if (status === "error") {
+    return (
+      <PageCard title="Couldn't Cancel Deletion" subtitle={errorMessage}>
+        <p className="text-center">
+          You can also cancel the deletion by{" "}
+          <Link className="underline" to="/login">
+            logging in
+          </Link>{" "}
+          before it happens.
+        </p>
+      </PageCard>
+    );
+  }
+
+  return (
+    <PageCard title="Deletion Cancelled" subtitle="Your account is safe.">
+      <Link className="text-center underline" to="/login">
+        Log in to your account
+      </Link>
+    </PageCard>
+  );
+};
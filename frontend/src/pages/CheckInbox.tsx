@@ -0,0 +1,60 @@
+import { useState } from "react";
+import { Link } from "react-router";
+import { useAuth } from "../context/AuthContext";
+import { Button } from "../components/Button";
+import { PageCard } from "../components/PageCard";
+
+// Shown after registering when email verification is enabled
+export const CheckInbox = () => {
+  const { user, resendVerificationEmail } = useAuth();
+  const [resendLoading, setResendLoading] = useState(false);
+  const [resendError, setResendError] = useState<string | null>(null);
+  const [resendSuccess, setResendSuccess] = useState(false);
+
+  const handleResend = async () => {
+    setResendError(null);
+    setResendSuccess(false);
+    setResendLoading(true);
+    try {
+      await resendVerificationEmail();
+      setResendSuccess(true);
+    } catch (error) {
+      setResendError((error as { message: string }).message);
+    } finally {
+      setResendLoading(false);
+    }
+  };
+
+  // The user may have verified in another tab, or verification may be disabled
+  if (user?.isVerified) {
+    return (
+      <PageCard title="Email Verified" subtitle="Your email is verified.">
+        <Link className="text-center underline" to="/dashboard">
+          Go to your dashboard
+        </Link>
+      </PageCard>
+    );
+  }
+
+  return (
+    <PageCard title="Check Your Inbox" subtitle="Verify your email address.">
+      <p className="mb-2">
+        We sent a verification link to <strong>{user?.email}</strong>. Open it
+        to finish setting up your account. The link expires in 24 hours.
+      </p>
+      <p className="mb-2">Didn't get it? Check your spam folder, or:</p>
+      {resendError && <p className="text-text-error">{resendError}</p>}
+      {resendSuccess && (
+        <p className="text-text-success">A new link is on its way!</p>
+      )}
+      <Button
+        type="button"
+        className="mt-2 w-full"
+        loading={resendLoading}
+        onClick={handleResend}
+      >
+        Resend verification email
+      </Button>
+    </PageCard>
+  );
+};
@@ -0,0 +1,65 @@
+import { useEffect, useRef, useState } from "react";
+import { Link, useSearchParams } from "react-router";
+import { useAuth } from "../context/AuthContext";
+import { PageCard } from "../components/PageCard";
+
+// Landing page for the link sent to the new address when the email is changed (/confirm-email-change?token=...)
+export const ConfirmEmailChange = () => {
+  const { confirmEmailChange } = useAuth();
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get("token");
+
+  const [status, setStatus] = useState<"confirming" | "success" | "error">(
+    token ? "confirming" : "error",
+  );
+  const [errorMessage, setErrorMessage] = useState(
+    token ? "" : "This link is missing its token.",
+  );
+  // StrictMode runs effects twice in development, so remember that we already sent the request
+  const requested = useRef(false);
+
+  useEffect(() => {
+    if (!token || requested.current) return;
+    requested.current = true;
+
+    const confirm = async () => {
+      try {
+        await confirmEmailChange(token);
+        setStatus("success");
+      } catch (error) {
+        setErrorMessage((error as { message: string }).message);
+        setStatus("error");
+      }
+    };
+    confirm();
+  }, [token, confirmEmailChange]);
+
+  if (status === "confirming") {
+    return <div>Confirming your new email...</div>;
+  }
+
+  if (status === "error") {
+    return (
+      <PageCard title="Couldn't Change Email" subtitle={errorMessage}>
+        <p className="text-center">
+          You can ask for a new link from your{" "}
+          <Link className="underline" to="/profile">
+            profile
+          </Link>
+          .
+        </p>
+      </PageCard>
+    );
+  }
+
+  return (
+    <PageCard
+      title="Email Changed"
+      subtitle="Use your new email address to log in from now on."
+    >
+      <Link className="text-center underline" to="/profile">
+        Go to your profile
+      </Link>
+    </PageCard>
+  );
+};
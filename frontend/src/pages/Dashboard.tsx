@@ -1,6 +1,7 @@
 import { useAuth } from "../context/AuthContext";
 import { Button } from "../components/Button";
 import { PageCard } from "../components/PageCard";
+import { Link } from "react-router";
 
 export const Dashboard = () => {
   const auth = useAuth();
@@ -18,9 +19,20 @@ export const Dashboard = () => {
     return <div>This shouldn't be possible. Please contact support.</div>;
   }
   return (
-    <PageCard title="Dashboard" subtitle={`Welcome, ${auth.user.name}`}>
+    <PageCard
+      title="Dashboard"
+      subtitle={`Welcome, ${auth.user.displayName || auth.user.name}`}
+    >
       <div>
         <p className="mb-2 text-xl">Your email: {auth.user.email}</p>
+        {!auth.user.isVerified && (
+          <p className="text-text-error mb-2">
+            Your email isn't verified yet.{" "}
+            <Link className="underline" to="/check-inbox">
+              Verify it now
+            </Link>
+          </p>
+        )}
       </div>
       <div>
         <Button className="w-full" onClick={handleLogout}>
@@ -0,0 +1,20 @@
+import { Link } from "react-router";
+import { PageCard } from "../components/PageCard";
+
+// Shown by ProtectedRoute when the user is logged in but lacks the role or permission a page needs
+export const Forbidden = () => {
+  return (
+    <PageCard
+      title="403 - Forbidden"
+      subtitle="You don't have access to this page."
+    >
+      <p className="mb-2 text-center">
+        If you think you should, ask an administrator to give your account
+        access.
+      </p>
+      <Link className="text-center underline" to="/dashboard">
+        Go to your dashboard
+      </Link>
+    </PageCard>
+  );
+};
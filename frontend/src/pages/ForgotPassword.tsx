@@ -0,0 +1,78 @@
+import { useState } from "react";
+import { Link } from "react-router";
+import { useAuth, ValidationError } from "../context/AuthContext";
+import { Button } from "../components/Button";
+import { FormInput } from "../components/FormInput";
+import { PageCard } from "../components/PageCard";
+import { getFieldErrors } from "../utils/getFieldErrors";
+
+// Define interface for form error states
+interface FormError {
+  message: string;
+  errors?: ValidationError[];
+}
+
+export const ForgotPassword = () => {
+  const { forgotPassword } = useAuth();
+  const [email, setEmail] = useState("");
+  const [error, setError] = useState<FormError | null>(null);
+  const [loading, setLoading] = useState(false);
+  // Message from the backend once the request succeeds - the same whether or not the account exists
+  const [sentMessage, setSentMessage] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault(); // Prevent default form submission behavior
+    setError(null);
+    setLoading(true);
+    try {
+      setSentMessage(await forgotPassword(email));
+    } catch (error) {
+      setError(error as FormError);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (sentMessage) {
+    return (
+      <PageCard title="Check Your Inbox" subtitle={sentMessage}>
+        <Link className="text-center underline" to="/login">
+          Back to login
+        </Link>
+      </PageCard>
+    );
+  }
+
+  return (
+    <PageCard
+      title="Forgot Password"
+      subtitle="We'll email you a link to reset it."
+    >
+      <form onSubmit={handleSubmit}>
+        <fieldset>
+          <FormInput
+            type="email"
+            name="email"
+            label="Email"
+            containerClassName="mb-2"
+            errors={getFieldErrors("email", error?.errors)}
+            required
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+          />
+          {error && !error.errors && (
+            <p className="text-text-error">{error.message}</p>
+          )}
+          <Button className="mt-2 w-full" type="submit" loading={loading}>
+            Send Reset Link
+          </Button>
+        </fieldset>
+      </form>
+      <p className="mt-2 text-center">
+        <Link className="underline" to="/login">
+          Back to login
+        </Link>
+      </p>
+    </PageCard>
+  );
+};
@@ -1,20 +1,50 @@
 import { useState, useEffect } from "react";
-import { useNavigate } from "react-router";
-import { useAuth } from "../context/AuthContext"; // Import the useAuth hook to access authentication functions and state from AuthContext
+import { Link, useLocation, useNavigate } from "react-router";
+import { useAuth, type ValidationError } from "../context/AuthContext"; // Import the useAuth hook to access authentication functions and state from AuthContext
 import { Button } from "../components/Button";
 import { FormInput } from "../components/FormInput";
 import { PageCard } from "../components/PageCard";
 import { getFieldErrors } from "../utils/getFieldErrors";
+import { browserSupportsWebAuthn } from "@simplewebauthn/browser";
+import { OAuthButtons } from "../components/OAuthButtons";
+import { config } from "../config";
 
 export const Login = () => {
   // Local state for form inputs
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
+  // Second step state, only used when the account has two-factor authentication enabled
+  const [code, setCode] = useState("");
+  const [rememberDevice, setRememberDevice] = useState(false);
+  // "magic-link" swaps the password form for one that emails a sign in link
+  const [mode, setMode] = useState<"password" | "magic-link">("password");
+  // Email sign in state, kept here instead of in context because it doesn't log anyone in yet
+  const [magicLinkMessage, setMagicLinkMessage] = useState<string | null>(null);
+  const [magicLinkError, setMagicLinkError] = useState<{
+    message: string;
+    errors?: ValidationError[];
+  } | null>(null);
+  const [sendingMagicLink, setSendingMagicLink] = useState(false);
+  // Current time, ticked every second while a lockout countdown is showing
+  const [now, setNow] = useState(() => Date.now());
 
   // Call useAuth once and save the returned context value to avoid multiple calls and potential performance issues
-  const { token, loading, error, login, clearError } = useAuth();
+  const {
+    token,
+    loading,
+    error,
+    twoFactorRequired,
+    login,
+    loginWithPasskey,
+    requestMagicLink,
+    verifyTwoFactorLogin,
+    cancelTwoFactorLogin,
+    clearError,
+  } = useAuth();
   // UseNavigate hook from react-router to programmatically navigate after successful login
   const navigate = useNavigate();
+  // Pages that sign the user out can pass a notice to show above the form, e.g. after scheduling account deletion
+  const notice = (useLocation().state as { notice?: string } | null)?.notice;
 
   // UseEffect to redirect to dashboard after successful login (when token changes from null to a valid token)
   // We check for token instead of user because the token is what actually indicates whether the user is authenticated, and it will be set immediately upon successful login, while the user data may take a moment to fetch and update in the context
@@ -29,11 +59,62 @@ export const Login = () => {
     clearError();
   }, [clearError]); // We include clearError in the dependency array to avoid potential issues with stale closures, even though clearError is stable from useCallback
 
+  // Tick the lockout countdown every second until it runs out
+  const lockedUntil = error?.lockedUntil;
+  useEffect(() => {
+    if (!lockedUntil) return;
+    const interval = setInterval(() => {
+      setNow(Date.now());
+      if (Date.now() >= lockedUntil) clearInterval(interval);
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [lockedUntil]);
+
+  // Seconds left before the backend accepts another attempt, 0 when not locked out
+  const lockoutSeconds = lockedUntil
+    ? Math.max(0, Math.ceil((lockedUntil - now) / 1000))
+    : 0;
+
+  // Show the lockout as a m:ss countdown instead of the backend message
+  const lockoutMessage =
+    lockoutSeconds > 0
+      ? `Too many failed attempts. Try again in ${Math.floor(lockoutSeconds / 60)}:${String(lockoutSeconds % 60).padStart(2, "0")}.`
+      : "You can try again now.";
+
   const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault(); // Prevent the default form submission behavior which would cause a page reload
+    setNow(Date.now()); // Start the countdown from the current time if this attempt gets locked out
     await login(email, password); // Call the login function from AuthContext with the email and password from the form inputs
   };
 
+  const handleVerifyCode = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setNow(Date.now());
+    await verifyTwoFactorLogin(code, rememberDevice);
+  };
+
+  const handleRequestMagicLink = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setMagicLinkError(null);
+    setSendingMagicLink(true);
+    try {
+      setMagicLinkMessage(await requestMagicLink(email));
+    } catch (error) {
+      setMagicLinkError(
+        error as { message: string; errors?: ValidationError[] },
+      );
+    } finally {
+      setSendingMagicLink(false);
+    }
+  };
+
+  // Go back to the password form from the email sign in mode
+  const showPasswordForm = () => {
+    setMode("password");
+    setMagicLinkMessage(null);
+    setMagicLinkError(null);
+  };
+
   // Show loading while checking if user is already logged in
   if (loading) {
     console.log("loading");
@@ -45,8 +126,138 @@ export const Login = () => {
     console.log("redirecting");
     return <div>Redirecting...</div>;
   }
+
+  // The password was correct but the account has two-factor authentication, ask for a code to finish logging in
+  if (twoFactorRequired) {
+    return (
+      <PageCard
+        title="Two-Factor Authentication"
+        subtitle="Enter the code from your authenticator app, or one of your backup codes."
+      >
+        <form onSubmit={handleVerifyCode}>
+          <fieldset>
+            <FormInput
+              type="text"
+              name="code"
+              label="Authentication code"
+              containerClassName="mb-2"
+              autoComplete="one-time-code"
+              autoFocus
+              errors={getFieldErrors("code", error?.errors)}
+              required
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+            />
+            <label className="mb-2 flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={rememberDevice}
+                onChange={(e) => setRememberDevice(e.target.checked)}
+              />
+              Remember this device for 30 days
+            </label>
+            {error && !error.errors && (
+              <p className="text-text-error" role="alert">
+                {lockedUntil ? lockoutMessage : error.message}
+              </p>
+            )}
+            <div className="mt-2 flex justify-center pb-2">
+              <Button
+                className="w-full"
+                type="submit"
+                loading={loading}
+                disabled={loading || lockoutSeconds > 0}
+              >
+                Verify
+              </Button>
+            </div>
+            <p className="text-center">
+              <button
+                type="button"
+                className="underline"
+                onClick={() => {
+                  setCode("");
+                  cancelTwoFactorLogin();
+                }}
+              >
+                Use a different account
+              </button>
+            </p>
+          </fieldset>
+        </form>
+      </PageCard>
+    );
+  }
+
+  // The link was sent, it only works in this browser because of the cookie the backend just set
+  if (mode === "magic-link" && magicLinkMessage) {
+    return (
+      <PageCard
+        title="Check Your Inbox"
+        subtitle={`${magicLinkMessage} Open it in this browser to sign in.`}
+      >
+        <p className="text-center">
+          <button
+            type="button"
+            className="underline"
+            onClick={showPasswordForm}
+          >
+            Back to login
+          </button>
+        </p>
+      </PageCard>
+    );
+  }
+
+  // Email sign in, no password needed
+  if (mode === "magic-link") {
+    return (
+      <PageCard
+        title="Email Sign In"
+        subtitle="We'll email you a link that signs you in."
+      >
+        <form onSubmit={handleRequestMagicLink}>
+          <fieldset>
+            <FormInput
+              type="email"
+              name="email"
+              label="Email"
+              containerClassName="mb-2"
+              errors={getFieldErrors("email", magicLinkError?.errors)}
+              required
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+            />
+            {magicLinkError && !magicLinkError.errors && (
+              <p className="text-text-error" role="alert">
+                {magicLinkError.message}
+              </p>
+            )}
+            <Button
+              className="mt-2 w-full"
+              type="submit"
+              loading={sendingMagicLink}
+            >
+              Send Sign In Link
+            </Button>
+            <p className="mt-2 text-center">
+              <button
+                type="button"
+                className="underline"
+                onClick={showPasswordForm}
+              >
+                Use my password instead
+              </button>
+            </p>
+          </fieldset>
+        </form>
+      </PageCard>
+    );
+  }
+
   return (
     <PageCard title="Login Page" subtitle="Enter your credentials to log in.">
+      {notice && <p className="text-text-success mb-4 text-center">{notice}</p>}
       <form onSubmit={handleLogin}>
         <fieldset>
           <legend className="mb-4 text-2xl font-semibold">
@@ -73,7 +284,11 @@ export const Login = () => {
             value={password}
             onChange={(e) => setPassword(e.target.value)}
           />
-          {error && <p className="text-text-error">{error.message}</p>}
+          {error && (
+            <p className="text-text-error" role="alert">
+              {lockedUntil ? lockoutMessage : error.message}
+            </p>
+          )}
           {error?.errors &&
             error.errors.map((err, index) => (
               <p key={index} className="text-text-error">
@@ -81,10 +296,47 @@ export const Login = () => {
               </p>
             ))}
           <div className="mt-2 flex justify-center pb-2">
-            <Button className="w-full" type="submit" loading={loading}>
+            <Button
+              className="w-full"
+              type="submit"
+              loading={loading}
+              disabled={loading || lockoutSeconds > 0}
+            >
               Login
             </Button>
           </div>
+          {config.features.passkeys && browserSupportsWebAuthn() && (
+            <div className="flex justify-center pb-2">
+              <Button
+                className="w-full"
+                type="button"
+                loading={loading}
+                onClick={loginWithPasskey}
+              >
+                Sign in with passkey
+              </Button>
+            </div>
+          )}
+          {config.features.magicLink && (
+            <div className="flex justify-center pb-2">
+              <Button
+                className="w-full"
+                type="button"
+                onClick={() => {
+                  clearError();
+                  setMode("magic-link");
+                }}
+              >
+                Email me a sign-in link
+              </Button>
+            </div>
+          )}
+          {config.features.oauth && <OAuthButtons />}
+          <p className="text-center">
+            <Link className="underline" to="/forgot-password">
+              Forgot your password?
+            </Link>
+          </p>
         </fieldset>
       </form>
     </PageCard>
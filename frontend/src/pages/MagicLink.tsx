@@ -0,0 +1,88 @@
+import { useEffect, useRef, useState } from "react";
+import { Link, useLocation, useNavigate, useSearchParams } from "react-router";
+import { useAuth } from "../context/AuthContext";
+import { PageCard } from "../components/PageCard";
+
+// Messages for the error codes the backend redirects with when the link was opened on the API
+const errorMessages: Record<string, string> = {
+  invalid_link:
+    "This sign in link has expired or was already used. Please request a new one.",
+  different_browser:
+    "Open the sign in link in the same browser you requested it from.",
+  account_disabled: "This account has been disabled.",
+  password_reset_required:
+    "You must reset your password before logging in. Check your email for a reset link.",
+  account_deleted: "This account has been deleted.",
+};
+
+// Landing page for the emailed sign in link (/magic-link?token=...)
+// Also where the backend redirects when the link was opened on the API instead, with the result in the URL
+export const MagicLink = () => {
+  const { verifyMagicLink, completeOAuthLogin, resumeTwoFactorLogin } =
+    useAuth();
+  const [searchParams] = useSearchParams();
+  const { hash } = useLocation();
+  const navigate = useNavigate();
+
+  const token = searchParams.get("token");
+  const errorCode = searchParams.get("error");
+  const [errorMessage, setErrorMessage] = useState(
+    errorCode
+      ? errorMessages[errorCode] || "Sign in failed. Please try again."
+      : "",
+  );
+  // StrictMode runs effects twice in development, and the link only works once, so remember that we already used it
+  const handled = useRef(false);
+
+  useEffect(() => {
+    if (errorCode || handled.current) return;
+    handled.current = true;
+
+    // The account has two-factor authentication, the Login page asks for the code
+    const challengeToken = new URLSearchParams(hash.slice(1)).get(
+      "challengeToken",
+    );
+    if (challengeToken) {
+      resumeTwoFactorLogin(challengeToken);
+      navigate("/login", { replace: true });
+      return;
+    }
+
+    const complete = async () => {
+      try {
+        if (token) {
+          // Login sends the user on to the dashboard, or asks for the two-factor code if the account needs one
+          await verifyMagicLink(token);
+          navigate("/login", { replace: true });
+        } else {
+          // The backend already signed in and set the refresh token cookie
+          await completeOAuthLogin();
+          navigate("/dashboard", { replace: true });
+        }
+      } catch (error) {
+        setErrorMessage((error as { message: string }).message);
+      }
+    };
+    complete();
+  }, [
+    token,
+    errorCode,
+    hash,
+    navigate,
+    verifyMagicLink,
+    completeOAuthLogin,
+    resumeTwoFactorLogin,
+  ]);
+
+  if (!errorMessage) {
+    return <div>Signing you in...</div>;
+  }
+
+  return (
+    <PageCard title="Sign In Failed" subtitle={errorMessage}>
+      <Link className="text-center underline" to="/login">
+        Back to login
+      </Link>
+    </PageCard>
+  );
+};
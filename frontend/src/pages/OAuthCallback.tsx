@@ -0,0 +1,87 @@
+import { useEffect, useRef, useState } from "react";
+import { Link, useLocation, useNavigate, useSearchParams } from "react-router";
+import { useAuth } from "../context/AuthContext";
+import { PageCard } from "../components/PageCard";
+
+// Messages for the error codes the backend's OAuth callback redirects with
+const errorMessages: Record<string, string> = {
+  access_denied: "Sign in was cancelled.",
+  invalid_state:
+    "This sign in link has expired or was opened in a different browser. Please try again.",
+  account_exists:
+    "An account with this email already exists. Log in with your password, then connect this provider from your profile.",
+  identity_in_use: "That account is already connected to another user.",
+  email_required:
+    "The provider didn't share an email address, which we need to create your account.",
+  account_disabled: "This account has been disabled.",
+  password_reset_required:
+    "You must reset your password before logging in. Check your email for a reset link.",
+  account_deleted: "This account has been deleted.",
+};
+
+// Landing page the backend redirects to after signing in with a social login provider (/oauth/callback)
+export const OAuthCallback = () => {
+  const { completeOAuthLogin, resumeTwoFactorLogin } = useAuth();
+  const [searchParams] = useSearchParams();
+  const { hash } = useLocation();
+  const navigate = useNavigate();
+
+  const errorCode = searchParams.get("error");
+  const [errorMessage, setErrorMessage] = useState(
+    errorCode
+      ? errorMessages[errorCode] || "Sign in failed. Please try again."
+      : "",
+  );
+  // StrictMode runs effects twice in development, so remember that we already handled the callback
+  const handled = useRef(false);
+
+  useEffect(() => {
+    if (errorCode || handled.current) return;
+    handled.current = true;
+
+    // Connected an account from the Profile page, go back there
+    if (searchParams.get("linked")) {
+      navigate("/profile", { replace: true });
+      return;
+    }
+
+    // The account has two-factor authentication, the Login page asks for the code
+    const challengeToken = new URLSearchParams(hash.slice(1)).get(
+      "challengeToken",
+    );
+    if (challengeToken) {
+      resumeTwoFactorLogin(challengeToken);
+      navigate("/login", { replace: true });
+      return;
+    }
+
+    const complete = async () => {
+      try {
+        await completeOAuthLogin();
+        navigate("/dashboard", { replace: true });
+      } catch (error) {
+        setErrorMessage((error as { message: string }).message);
+      }
+    };
+    complete();
+  }, [
+    errorCode,
+    searchParams,
+    hash,
+    navigate,
+    completeOAuthLogin,
+    resumeTwoFactorLogin,
+  ]);
+
+  if (!errorMessage) {
+    return <div>Signing you in...</div>;
+  }
+
+  return (
+    <PageCard title="Sign In Failed" subtitle={errorMessage}>
+      <Link className="text-center underline" to="/login">
+        Back to login
+      </Link>
+    </PageCard>
+  );
+};
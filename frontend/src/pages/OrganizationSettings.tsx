@@ -0,0 +1,215 @@
+import { useState } from "react";
+import { type ValidationError } from "../context/AuthContext";
+import { useOrganization } from "../context/OrganizationContext";
+import { PageCard } from "../components/PageCard";
+import { FormInput } from "../components/FormInput";
+import { Button } from "../components/Button";
+import { Divider } from "../components/Divider";
+import { OrganizationMembers } from "../components/OrganizationMembers";
+import { OrganizationInvites } from "../components/OrganizationInvites";
+import { getFieldErrors } from "../utils/getFieldErrors";
+
+// Define interface for form error states
+interface FormError {
+  message: string;
+  errors?: ValidationError[];
+}
+
+const roleLabels = {
+  owner: "Owner",
+  admin: "Admin",
+  member: "Member",
+};
+
+// Settings for the active organization (picked in the header), or a form to create the first one
+export const OrganizationSettings = () => {
+  const {
+    activeOrganization,
+    createOrganization,
+    updateOrganization,
+    deleteOrganization,
+    leaveOrganization,
+  } = useOrganization();
+
+  // Create form state
+  const [newName, setNewName] = useState("");
+  const [createError, setCreateError] = useState<FormError | null>(null);
+  const [createLoading, setCreateLoading] = useState(false);
+
+  // Rename form state, null until the user starts typing so it follows organization switches
+  const [name, setName] = useState<string | null>(null);
+  const [renameError, setRenameError] = useState<FormError | null>(null);
+  const [renameLoading, setRenameLoading] = useState(false);
+
+  // Leave or delete
+  const [leaveError, setLeaveError] = useState<string | null>(null);
+  const [leaveLoading, setLeaveLoading] = useState(false);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setCreateError(null);
+    setCreateLoading(true);
+    try {
+      await createOrganization(newName);
+      setNewName("");
+      setName(null);
+    } catch (error) {
+      setCreateError(error as FormError);
+    } finally {
+      setCreateLoading(false);
+    }
+  };
+
+  const handleRename = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!activeOrganization || name === null) return;
+    setRenameError(null);
+    setRenameLoading(true);
+    try {
+      await updateOrganization(activeOrganization.id, name);
+      setName(null);
+    } catch (error) {
+      setRenameError(error as FormError);
+    } finally {
+      setRenameLoading(false);
+    }
+  };
+
+  // The owner deletes the organization, everyone else leaves it
+  const handleLeave = async () => {
+    if (!activeOrganization) return;
+    const isOwner = activeOrganization.role === "owner";
+    if (
+      !window.confirm(
+        isOwner
+          ? `Delete ${activeOrganization.name} for every member? This can't be undone.`
+          : `Leave ${activeOrganization.name}? You'll need a new invitation to come back.`,
+      )
+    ) {
+      return;
+    }
+    setLeaveError(null);
+    setLeaveLoading(true);
+    try {
+      if (isOwner) {
+        await deleteOrganization(activeOrganization.id);
+      } else {
+        await leaveOrganization(activeOrganization.id);
+      }
+      setName(null);
+    } catch (error) {
+      setLeaveError((error as FormError).message);
+    } finally {
+      setLeaveLoading(false);
+    }
+  };
+
+  const createForm = (
+    <section className="mt-6">
+      <form onSubmit={handleCreate}>
+        <fieldset>
+          <legend className="mb-2 text-xl font-semibold">
+            Create an Organization
+          </legend>
+          <FormInput
+            label="Name"
+            containerClassName="mb-2"
+            required
+            errors={getFieldErrors("name", createError?.errors)}
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+          />
+          {createError && !createError.errors && (
+            <div className="text-text-error">{createError.message}</div>
+          )}
+          <Button className="mt-2 w-full" loading={createLoading}>
+            Create Organization
+          </Button>
+        </fieldset>
+      </form>
+    </section>
+  );
+
+  if (!activeOrganization) {
+    return (
+      <PageCard
+        title="Organizations"
+        subtitle="You aren't in an organization yet. Create one, or ask for an invitation."
+      >
+        {createForm}
+      </PageCard>
+    );
+  }
+
+  const canManage = activeOrganization.role !== "member";
+  const isOwner = activeOrganization.role === "owner";
+
+  return (
+    <PageCard
+      // Key on the organization so the sections reset when switching in the header
+      key={activeOrganization.id}
+      title={activeOrganization.name}
+      subtitle={`You're ${isOwner ? "the" : "an"} ${roleLabels[activeOrganization.role].toLowerCase()} of this organization`}
+    >
+      {canManage && (
+        <section className="mt-6">
+          <form onSubmit={handleRename}>
+            <fieldset>
+              <legend className="mb-2 text-xl font-semibold">
+                Organization Name
+              </legend>
+              <FormInput
+                label="Name"
+                containerClassName="mb-2"
+                required
+                errors={getFieldErrors("name", renameError?.errors)}
+                value={name ?? activeOrganization.name}
+                onChange={(e) => setName(e.target.value)}
+              />
+              {renameError && !renameError.errors && (
+                <div className="text-text-error">{renameError.message}</div>
+              )}
+              <Button className="mt-2 w-full" loading={renameLoading}>
+                Rename
+              </Button>
+            </fieldset>
+          </form>
+        </section>
+      )}
+
+      <Divider className="mt-6" />
+      <OrganizationMembers organization={activeOrganization} />
+
+      {canManage && (
+        <>
+          <Divider className="mt-6" />
+          <OrganizationInvites organization={activeOrganization} />
+        </>
+      )}
+
+      <Divider className="mt-6" />
+      {createForm}
+
+      <Divider className="mt-6" />
+      <section className="mt-6">
+        <h2 className="text-text-error mb-2 text-xl font-semibold">
+          {isOwner ? "Delete Organization" : "Leave Organization"}
+        </h2>
+        <p className="mb-2">
+          {isOwner
+            ? "Deleting the organization removes every member and pending invitation. To leave without deleting it, make someone else the owner first."
+            : "You'll lose access to this organization until someone invites you again."}
+        </p>
+        {leaveError && <p className="text-text-error">{leaveError}</p>}
+        <Button
+          className="w-full"
+          type="button"
+          loading={leaveLoading}
+          onClick={handleLeave}
+        >
+          {isOwner ? "Delete Organization" : "Leave Organization"}
+        </Button>
+      </section>
+    </PageCard>
+  );
+};
@@ -4,7 +4,18 @@ import { PageCard } from "../components/PageCard";
 import { FormInput } from "../components/FormInput";
 import { Button } from "../components/Button";
 import { Divider } from "../components/Divider";
+import { ProfileDetails } from "../components/ProfileDetails";
+import { AvatarSettings } from "../components/AvatarSettings";
+import { ActiveSessions } from "../components/ActiveSessions";
+import { SecurityActivity } from "../components/SecurityActivity";
+import { TwoFactorSettings } from "../components/TwoFactorSettings";
+import { PasskeySettings } from "../components/PasskeySettings";
+import { ConnectedAccounts } from "../components/ConnectedAccounts";
+import { PersonalAccessTokenSettings } from "../components/PersonalAccessTokenSettings";
+import { DataExportSettings } from "../components/DataExportSettings";
+import { DangerZone } from "../components/DangerZone";
 import { getFieldErrors } from "../utils/getFieldErrors";
+import { config } from "../config";
 
 // Define interface for form error states
 interface FormError {
@@ -33,6 +44,7 @@ export const Profile = () => {
   const [emailError, setEmailError] = useState<FormError | null>(null);
   const [emailLoading, setEmailLoading] = useState(false);
   const [emailSuccess, setEmailSuccess] = useState(false);
+  const [cancelEmailLoading, setCancelEmailLoading] = useState(false);
 
   // Password form handler
   const handlePasswordChange = async (e: React.FormEvent) => {
@@ -86,9 +98,32 @@ export const Profile = () => {
     }
   };
 
+  // Drop the pending email so the confirmation link stops working
+  const handleCancelEmailChange = async () => {
+    setEmailError(null);
+    setEmailSuccess(false);
+    setCancelEmailLoading(true);
+    try {
+      await auth.cancelEmailChange();
+    } catch (error) {
+      setEmailError(error as FormError);
+    } finally {
+      setCancelEmailLoading(false);
+    }
+  };
+
   return (
-    <PageCard title="Profile Page" subtitle={`${auth.user?.name}'s Profile`}>
-      <section>
+    <PageCard
+      title="Profile Page"
+      subtitle={`${auth.user?.displayName || auth.user?.name}'s Profile`}
+    >
+      {auth.user && <ProfileDetails user={auth.user} />}
+
+      <Divider className="mt-6" />
+      <AvatarSettings />
+
+      <Divider className="mt-6" />
+      <section className="mt-6">
         <form onSubmit={handlePasswordChange}>
           <fieldset>
             <legend className="mb-2 text-xl font-semibold">
@@ -161,6 +196,23 @@ export const Profile = () => {
             <p className="mb-2 text-base font-bold">
               Current Email: {auth.user?.email}
             </p>
+            {auth.user?.pendingEmail && (
+              <div className="mb-2">
+                <p>
+                  Waiting for you to confirm{" "}
+                  <span className="font-bold">{auth.user.pendingEmail}</span>.
+                  Open the link we sent there to finish the change.
+                </p>
+                <Button
+                  type="button"
+                  className="mt-2 w-full"
+                  loading={cancelEmailLoading}
+                  onClick={handleCancelEmailChange}
+                >
+                  Cancel Email Change
+                </Button>
+              </div>
+            )}
             <FormInput
               type="email"
               label="New Email"
@@ -188,7 +240,7 @@ export const Profile = () => {
 
             {emailSuccess && (
               <div className="text-text-success">
-                Email updated successfully!
+                Check your new inbox for a confirmation link.
               </div>
             )}
             <Button
@@ -201,6 +253,28 @@ export const Profile = () => {
           </fieldset>
         </form>
       </section>
+
+      <Divider className="mt-6" />
+      <TwoFactorSettings />
+
+      {(config.features.passkeys || config.features.oauth) && (
+        <Divider className="mt-6" />
+      )}
+      {config.features.passkeys && <PasskeySettings />}
+      {config.features.oauth && <ConnectedAccounts />}
+
+      <Divider className="mt-6" />
+      <ActiveSessions />
+      <SecurityActivity />
+
+      <Divider className="mt-6" />
+      <PersonalAccessTokenSettings />
+
+      <Divider className="mt-6" />
+      <DataExportSettings />
+
+      <Divider className="mt-6" />
+      <DangerZone />
     </PageCard>
   );
 };
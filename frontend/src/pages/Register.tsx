@@ -6,6 +6,8 @@ import { FormInput } from "../components/FormInput";
 import { Button } from "../components/Button";
 import { PageCard } from "../components/PageCard";
 import { getFieldErrors } from "../utils/getFieldErrors";
+import { OAuthButtons } from "../components/OAuthButtons";
+import { config } from "../config";
 
 export const Register = () => {
   const [name, setName] = useState("");
@@ -14,16 +16,17 @@ export const Register = () => {
   const [confirmPassword, setConfirmPassword] = useState("");
   const [validationError, setValidationError] = useState<string | null>(null);
   // Call useAuth once and save the returned context value to avoid multiple calls and potential performance issues
-  const { token, loading, error, register, clearError } = useAuth();
+  const { token, user, loading, error, register, clearError } = useAuth();
   // UseNavigate hook from react-router to programmatically navigate after successful registration
   const navigate = useNavigate();
 
   // UseEffect to redirect to dashboard after successful registration (when token changes from null to a valid token)
+  // When email verification is enabled the new account is unverified, so send them to check their inbox instead
   useEffect(() => {
     if (token && !loading) {
-      navigate("/dashboard");
+      navigate(user && !user.isVerified ? "/check-inbox" : "/dashboard");
     }
-  }, [token, loading, navigate]); // We include navigate in the dependency array to avoid potential issues with stale closures, even though navigate is stable from useNavigate
+  }, [token, user, loading, navigate]); // We include navigate in the dependency array to avoid potential issues with stale closures, even though navigate is stable from useNavigate
 
   // useEffect to clear errors on mount
   useEffect(() => {
@@ -106,6 +109,7 @@ export const Register = () => {
               Register
             </Button>
           </div>
+          {config.features.oauth && <OAuthButtons />}
         </fieldset>
       </form>
     </PageCard>
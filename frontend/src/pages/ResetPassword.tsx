@@ -0,0 +1,110 @@
+import { useState } from "react";
+import { Link, useSearchParams } from "react-router";
+import { useAuth, ValidationError } from "../context/AuthContext";
+import { Button } from "../components/Button";
+import { FormInput } from "../components/FormInput";
+import { PageCard } from "../components/PageCard";
+import { getFieldErrors } from "../utils/getFieldErrors";
+
+// Define interface for form error states
+interface FormError {
+  message: string;
+  errors?: ValidationError[];
+}
+
+// Landing page for the link in the password reset email (/reset-password?token=...)
+export const ResetPassword = () => {
+  const { resetPassword } = useAuth();
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get("token");
+
+  const [form, setForm] = useState({ newPassword: "", confirmNewPassword: "" });
+  const [error, setError] = useState<FormError | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [success, setSuccess] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault(); // Prevent default form submission behavior
+    setError(null);
+    // Frontend validation: confirm passwords match here before calling backend
+    if (form.newPassword !== form.confirmNewPassword) {
+      setError({ message: "New passwords do not match" });
+      return;
+    }
+
+    setLoading(true);
+    try {
+      await resetPassword(token || "", form.newPassword);
+      setSuccess(true);
+    } catch (error) {
+      setError(error as FormError);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!token) {
+    return (
+      <PageCard
+        title="Reset Password"
+        subtitle="This reset link is missing its token."
+      >
+        <Link className="text-center underline" to="/forgot-password">
+          Request a new link
+        </Link>
+      </PageCard>
+    );
+  }
+
+  if (success) {
+    return (
+      <PageCard
+        title="Password Reset"
+        subtitle="Your password has been reset. You've been signed out everywhere."
+      >
+        <Link className="text-center underline" to="/login">
+          Log in with your new password
+        </Link>
+      </PageCard>
+    );
+  }
+
+  return (
+    <PageCard title="Reset Password" subtitle="Choose a new password.">
+      <form onSubmit={handleSubmit}>
+        <fieldset>
+          <FormInput
+            type="password"
+            label="New Password"
+            containerClassName="mb-2"
+            errors={getFieldErrors("newPassword", error?.errors)}
+            required
+            value={form.newPassword}
+            onChange={(e) => setForm({ ...form, newPassword: e.target.value })}
+          />
+          <FormInput
+            type="password"
+            label="Confirm New Password"
+            containerClassName="mb-2"
+            required
+            value={form.confirmNewPassword}
+            onChange={(e) =>
+              setForm({ ...form, confirmNewPassword: e.target.value })
+            }
+          />
+          {error && !error.errors && (
+            <p className="text-text-error">
+              {error.message}{" "}
+              <Link className="underline" to="/forgot-password">
+                Request a new link
+              </Link>
+            </p>
+          )}
+          <Button className="mt-2 w-full" type="submit" loading={loading}>
+            Reset Password
+          </Button>
+        </fieldset>
+      </form>
+    </PageCard>
+  );
+};
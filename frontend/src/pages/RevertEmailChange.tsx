@@ -0,0 +1,65 @@
+import { useEffect, useRef, useState } from "react";
+import { Link, useSearchParams } from "react-router";
+import { useAuth } from "../context/AuthContext";
+import { PageCard } from "../components/PageCard";
+
+// Landing page for the "this wasn't me" link sent to the old address when the email is changed (/revert-email-change?token=...)
+export const RevertEmailChange = () => {
+  const { revertEmailChange } = useAuth();
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get("token");
+
+  const [status, setStatus] = useState<"reverting" | "success" | "error">(
+    token ? "reverting" : "error",
+  );
+  const [errorMessage, setErrorMessage] = useState(
+    token ? "" : "This link is missing its token.",
+  );
+  // StrictMode runs effects twice in development, so remember that we already sent the request
+  const requested = useRef(false);
+
+  useEffect(() => {
+    if (!token || requested.current) return;
+    requested.current = true;
+
+    const revert = async () => {
+      try {
+        await revertEmailChange(token);
+        setStatus("success");
+      } catch (error) {
+        setErrorMessage((error as { message: string }).message);
+        setStatus("error");
+      }
+    };
+    revert();
+  }, [token, revertEmailChange]);
+
+  if (status === "reverting") {
+    return <div>Undoing the email change...</div>;
+  }
+
+  if (status === "error") {
+    return (
+      <PageCard title="Couldn't Undo Email Change" subtitle={errorMessage}>
+        <p className="text-center">
+          If you still don't recognise the change,{" "}
+          <Link className="underline" to="/forgot-password">
+            reset your password
+          </Link>
+          .
+        </p>
+      </PageCard>
+    );
+  }
+
+  return (
+    <PageCard
+      title="Email Change Undone"
+      subtitle="You've been signed out everywhere. Choose a new password so whoever made the change can't log in again."
+    >
+      <Link className="text-center underline" to="/forgot-password">
+        Reset your password
+      </Link>
+    </PageCard>
+  );
+};
@@ -0,0 +1,65 @@
+import { useEffect, useRef, useState } from "react";
+import { Link, useSearchParams } from "react-router";
+import { useAuth } from "../context/AuthContext";
+import { PageCard } from "../components/PageCard";
+
+// Landing page for the link in the verification email (/verify-email?token=...)
+export const VerifyEmail = () => {
+  const { verifyEmail } = useAuth();
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get("token");
+
+  const [status, setStatus] = useState<"verifying" | "success" | "error">(
+    token ? "verifying" : "error",
+  );
+  const [errorMessage, setErrorMessage] = useState(
+    token ? "" : "This verification link is missing its token.",
+  );
+  // StrictMode runs effects twice in development, so remember that we already sent the request
+  const requested = useRef(false);
+
+  useEffect(() => {
+    if (!token || requested.current) return;
+    requested.current = true;
+
+    const verify = async () => {
+      try {
+        await verifyEmail(token);
+        setStatus("success");
+      } catch (error) {
+        setErrorMessage((error as { message: string }).message);
+        setStatus("error");
+      }
+    };
+    verify();
+  }, [token, verifyEmail]);
+
+  if (status === "verifying") {
+    return <div>Verifying your email...</div>;
+  }
+
+  if (status === "error") {
+    return (
+      <PageCard title="Verification Failed" subtitle={errorMessage}>
+        <p className="text-center">
+          Log in and visit{" "}
+          <Link className="underline" to="/check-inbox">
+            the verification page
+          </Link>{" "}
+          to request a new link.
+        </p>
+      </PageCard>
+    );
+  }
+
+  return (
+    <PageCard
+      title="Email Verified"
+      subtitle="Thanks for verifying your email!"
+    >
+      <Link className="text-center underline" to="/dashboard">
+        Continue to your dashboard
+      </Link>
+    </PageCard>
+  );
+};
@@ -0,0 +1,19 @@
+import { render, screen } from "@testing-library/react";
+import { Avatar } from "../../components/Avatar";
+import { describe, it, expect } from "vitest";
+
+describe("Avatar component", () => {
+  it("should render the image when there is one", () => {
+    render(
+      <Avatar url="https://example.com/avatar.webp" name="Ada Lovelace" />,
+    );
+    const img = screen.getByRole("img", { name: "Ada Lovelace" });
+    expect(img).toHaveAttribute("src", "https://example.com/avatar.webp");
+  });
+
+  it("should fall back to the initials of the first two words", () => {
+    render(<Avatar url={null} name="ada byron lovelace" />);
+    expect(screen.getByText("AB")).toBeInTheDocument();
+    expect(screen.queryByRole("img")).not.toBeInTheDocument();
+  });
+});
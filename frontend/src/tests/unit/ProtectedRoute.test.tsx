@@ -1,4 +1,5 @@
 import { render, screen } from "@testing-library/react";
+import type { ComponentProps } from "react";
 import { ProtectedRoute } from "../../components/ProtectedRoute";
 import { describe, it, expect, vi } from "vitest";
 import { MemoryRouter } from "react-router";
@@ -9,20 +10,87 @@ const mockAuthContext: AuthContextType = {
   token: null,
   loading: false,
   error: null,
+  twoFactorRequired: false,
   login: vi.fn().mockResolvedValue(undefined),
+  verifyTwoFactorLogin: vi.fn().mockResolvedValue(undefined),
+  cancelTwoFactorLogin: vi.fn(),
+  getOAuthProviders: vi.fn().mockResolvedValue([]),
+  startOAuthLogin: vi.fn().mockResolvedValue(undefined),
+  completeOAuthLogin: vi.fn().mockResolvedValue(undefined),
+  resumeTwoFactorLogin: vi.fn(),
+  requestMagicLink: vi.fn().mockResolvedValue(""),
+  verifyMagicLink: vi.fn().mockResolvedValue(undefined),
+  loginWithPasskey: vi.fn().mockResolvedValue(undefined),
   logout: vi.fn().mockResolvedValue(undefined),
   register: vi.fn().mockResolvedValue(undefined),
   getCurrentUser: vi.fn().mockResolvedValue(undefined),
   updatePassword: vi.fn().mockResolvedValue(undefined),
   updateEmail: vi.fn().mockResolvedValue(undefined),
+  cancelEmailChange: vi.fn().mockResolvedValue(undefined),
+  confirmEmailChange: vi.fn().mockResolvedValue(undefined),
+  revertEmailChange: vi.fn().mockResolvedValue(undefined),
+  updateProfile: vi.fn().mockResolvedValue(undefined),
+  uploadAvatar: vi.fn().mockResolvedValue(undefined),
+  removeAvatar: vi.fn().mockResolvedValue(undefined),
+  verifyEmail: vi.fn().mockResolvedValue(undefined),
+  resendVerificationEmail: vi.fn().mockResolvedValue(undefined),
+  forgotPassword: vi.fn().mockResolvedValue(""),
+  resetPassword: vi.fn().mockResolvedValue(undefined),
+  getSessions: vi.fn().mockResolvedValue([]),
+  revokeSession: vi.fn().mockResolvedValue(undefined),
+  revokeOtherSessions: vi.fn().mockResolvedValue(undefined),
+  setupTwoFactor: vi.fn().mockResolvedValue({
+    secret: "",
+    otpauthUri: "",
+    qrCode: "",
+  }),
+  confirmTwoFactor: vi.fn().mockResolvedValue([]),
+  disableTwoFactor: vi.fn().mockResolvedValue(undefined),
+  regenerateBackupCodes: vi.fn().mockResolvedValue([]),
+  getPasskeys: vi.fn().mockResolvedValue([]),
+  addPasskey: vi.fn().mockResolvedValue(undefined),
+  renamePasskey: vi.fn().mockResolvedValue(undefined),
+  deletePasskey: vi.fn().mockResolvedValue(undefined),
+  getPersonalAccessTokens: vi.fn().mockResolvedValue([]),
+  createPersonalAccessToken: vi.fn().mockResolvedValue(""),
+  deletePersonalAccessToken: vi.fn().mockResolvedValue(undefined),
+  getLinkedAccounts: vi.fn().mockResolvedValue([]),
+  linkOAuthAccount: vi.fn().mockResolvedValue(undefined),
+  unlinkAccount: vi.fn().mockResolvedValue(undefined),
+  requestDataExport: vi.fn(),
+  getDataExport: vi.fn().mockResolvedValue(null),
+  getActivity: vi.fn().mockResolvedValue({ events: [], nextCursor: null }),
+  deleteAccount: vi.fn().mockResolvedValue(""),
+  cancelAccountDeletion: vi.fn().mockResolvedValue(undefined),
   clearError: vi.fn(), // Void return, no mockResolvedValue needed
 };
 
-const renderProtectedRoute = (authOverrides: Partial<AuthContextType> = {}) => {
+// A logged in user with only the default role
+const mockUser: NonNullable<AuthContextType["user"]> = {
+  id: "user123",
+  name: "Test User",
+  email: "test@example.com",
+  pendingEmail: null,
+  displayName: null,
+  bio: null,
+  timezone: null,
+  locale: null,
+  avatarUrl: null,
+  isVerified: true,
+  twoFactorEnabled: false,
+  roles: ["user"],
+  permissions: [],
+  version: 0,
+};
+
+const renderProtectedRoute = (
+  authOverrides: Partial<AuthContextType> = {},
+  routeProps: Omit<ComponentProps<typeof ProtectedRoute>, "children"> = {},
+) => {
   render(
     <MemoryRouter>
       <AuthContext.Provider value={{ ...mockAuthContext, ...authOverrides }}>
-        <ProtectedRoute>
+        <ProtectedRoute {...routeProps}>
           <div>Protected Content</div>
         </ProtectedRoute>
       </AuthContext.Provider>
@@ -43,4 +111,26 @@ describe("ProtectedRoute", () => {
     renderProtectedRoute({ loading: false, token: "abc" });
     expect(screen.getByText("Protected Content")).toBeInTheDocument();
   });
+  it("renders the 403 page when the user lacks the required role", () => {
+    renderProtectedRoute({ token: "abc", user: mockUser }, { role: "admin" });
+    expect(screen.getByText("403 - Forbidden")).toBeInTheDocument();
+    expect(screen.queryByText("Protected Content")).not.toBeInTheDocument();
+  });
+  it("renders the 403 page when the user lacks the required permission", () => {
+    renderProtectedRoute(
+      { token: "abc", user: { ...mockUser, roles: ["admin"] } },
+      { permission: "users:read" },
+    );
+    expect(screen.getByText("403 - Forbidden")).toBeInTheDocument();
+  });
+  it("renders children when the user has the required role and permission", () => {
+    renderProtectedRoute(
+      {
+        token: "abc",
+        user: { ...mockUser, roles: ["admin"], permissions: ["users:read"] },
+      },
+      { role: "admin", permission: "users:read" },
+    );
+    expect(screen.getByText("Protected Content")).toBeInTheDocument();
+  });
 });
@@ -0,0 +1,33 @@
+import { createConfig } from "../../config";
+import { describe, it, expect } from "vitest";
+
+describe("createConfig", () => {
+  it("defaults to the local backend with every feature on", () => {
+    const result = createConfig({} as ImportMetaEnv);
+    expect(result).toEqual({
+      apiUrl: "http://localhost:5001/api",
+      features: {
+        passkeys: true,
+        magicLink: true,
+        oauth: true,
+        organizations: true,
+      },
+    });
+  });
+
+  it("reads the API URL without a trailing slash", () => {
+    const result = createConfig({
+      VITE_API_URL: "https://api.example.com/api/",
+    } as ImportMetaEnv);
+    expect(result.apiUrl).toBe("https://api.example.com/api");
+  });
+
+  it("only turns a feature off for the exact value false", () => {
+    const result = createConfig({
+      VITE_FEATURE_PASSKEYS: "false",
+      VITE_FEATURE_MAGIC_LINK: "0",
+    } as ImportMetaEnv);
+    expect(result.features.passkeys).toBe(false);
+    expect(result.features.magicLink).toBe(true);
+  });
+});
@@ -0,0 +1,24 @@
+import { describeUserAgent } from "../../utils/describeUserAgent";
+import { describe, it, expect } from "vitest";
+
+describe("describeUserAgent", () => {
+  it("returns 'Unknown device' for an empty user agent", () => {
+    expect(describeUserAgent("")).toBe("Unknown device");
+  });
+
+  it("detects the browser and operating system", () => {
+    const chromeOnWindows =
+      "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36";
+    expect(describeUserAgent(chromeOnWindows)).toBe("Chrome on Windows");
+  });
+
+  it("prefers Edge over Chrome when both appear", () => {
+    const edgeOnMac =
+      "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36 Edg/120.0.0.0";
+    expect(describeUserAgent(edgeOnMac)).toBe("Edge on macOS");
+  });
+
+  it("returns the raw string for non-browser clients", () => {
+    expect(describeUserAgent("curl/8.4.0")).toBe("curl/8.4.0");
+  });
+});
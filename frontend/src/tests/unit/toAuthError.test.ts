@@ -0,0 +1,54 @@
+import { AxiosError, AxiosHeaders } from "axios";
+import type { AxiosResponse } from "axios";
+import { genericErrorMessage, toAuthError } from "../../utils/toAuthError";
+import { describe, it, expect } from "vitest";
+
+// Build the error axios throws for a response with this status and body
+const axiosError = (
+  status: number,
+  data: unknown,
+  headers: Record<string, string> = {},
+) =>
+  new AxiosError("Request failed", undefined, undefined, undefined, {
+    status,
+    data,
+    headers,
+    statusText: "",
+    config: { headers: new AxiosHeaders() },
+  } as AxiosResponse);
+
+describe("toAuthError", () => {
+  it("should use the message from the response", () => {
+    expect(
+      toAuthError(axiosError(401, { message: "Invalid credentials" })),
+    ).toEqual({ message: "Invalid credentials" });
+  });
+
+  it("should add the reference code to server errors", () => {
+    expect(
+      toAuthError(
+        axiosError(500, { message: "Server Error", requestId: "req-123" }),
+      ),
+    ).toEqual({
+      message: "Server Error (Reference: req-123)",
+      requestId: "req-123",
+    });
+  });
+
+  it("should read the reference code from the header when the body has none", () => {
+    expect(
+      toAuthError(
+        axiosError(502, "Bad Gateway", { "x-request-id": "req-456" }),
+      ),
+    ).toEqual({
+      message: `${genericErrorMessage} (Reference: req-456)`,
+      requestId: "req-456",
+    });
+  });
+
+  it("should fall back to the generic message for other errors", () => {
+    expect(toAuthError(new Error("Network Error"))).toEqual({
+      message: genericErrorMessage,
+    });
+  });
+});
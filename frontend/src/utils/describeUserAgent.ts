@@ -0,0 +1,28 @@
+// Ordered lists of [pattern, label] pairs - order matters because e.g. Edge user agents also contain "Chrome"
+const browsers: Array<[RegExp, string]> = [
+  [/Edg\//, "Edge"],
+  [/OPR\/|Opera/, "Opera"],
+  [/Firefox\//, "Firefox"],
+  [/Chrome\//, "Chrome"],
+  [/Safari\//, "Safari"],
+];
+
+const systems: Array<[RegExp, string]> = [
+  [/Android/, "Android"],
+  [/iPhone|iPad|iPod/, "iOS"],
+  [/Windows/, "Windows"],
+  [/Mac OS X|Macintosh/, "macOS"],
+  [/Linux/, "Linux"],
+];
+
+// Turn a raw user agent string into a short, readable label like "Chrome on Windows"
+export function describeUserAgent(userAgent: string) {
+  if (!userAgent) return "Unknown device";
+
+  const browser = browsers.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const system = systems.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+  if (browser && system) return `${browser} on ${system}`;
+  // Fall back to whatever we could detect, or the raw string for non-browser clients (curl, scripts, etc.)
+  return browser || system || userAgent;
+}
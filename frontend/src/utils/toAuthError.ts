@@ -0,0 +1,35 @@
+import axios from "axios";
+import { AuthContextType } from "../context/AuthContext";
+
+// Define generic error message for auth operations to avoid revealing sensitive info
+export const genericErrorMessage = "An error occurred. Please try again.";
+
+// Build the error object components expect from a failed API call, so they can show the message and field errors
+export const toAuthError = (
+  error: unknown,
+): NonNullable<AuthContextType["error"]> => {
+  if (axios.isAxiosError(error)) {
+    // The backend sends a request id with every error, showing it on server errors gives users a reference code for support
+    const requestId: string | undefined =
+      error.response?.data?.requestId ||
+      error.response?.headers["x-request-id"];
+    const serverMessage = error.response?.data?.message || genericErrorMessage;
+    const message =
+      (error.response?.status ?? 0) >= 500 && requestId
+        ? `${serverMessage} (Reference: ${requestId})`
+        : serverMessage;
+    const validationErrors = error.response?.data?.errors;
+    // Too many failed attempts - the backend says how many seconds to wait in the Retry-After header
+    const retryAfter =
+      error.response?.status === 429
+        ? Number(error.response.headers["retry-after"])
+        : NaN;
+    return {
+      message,
+      ...(validationErrors && { errors: validationErrors }),
+      ...(retryAfter > 0 && { lockedUntil: Date.now() + retryAfter * 1000 }),
+      ...(requestId && { requestId }),
+    };
+  }
+  return { message: genericErrorMessage };
+};
@@ -0,0 +1,14 @@
+/// <reference types="vite/client" />
+
+// Vite env variables the app reads, see src/config.ts
+interface ImportMetaEnv {
+  readonly VITE_API_URL?: string;
+  readonly VITE_FEATURE_PASSKEYS?: string;
+  readonly VITE_FEATURE_MAGIC_LINK?: string;
+  readonly VITE_FEATURE_OAUTH?: string;
+  readonly VITE_FEATURE_ORGANIZATIONS?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}